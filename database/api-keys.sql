@@ -0,0 +1,105 @@
+-- ─────────────────────────────────────────
+-- Public API keys
+-- Internal tools read /api/v1 with an API key instead of a browser
+-- session. A key carries the permissions (scopes) it may use, optionally
+-- a branch it is limited to, and a per-minute request limit. Only a
+-- SHA-256 hash of the key is stored; the key itself is shown once when it
+-- is created. Requires permissions.sql and branches.sql.
+-- ─────────────────────────────────────────
+
+-- ─────────────────────────────────────────
+-- 1. Keys
+--    key_prefix is the start of the key (hbk_ab12cd34) so the owner can
+--    tell keys apart without seeing them.
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.api_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 80),
+  key_prefix text NOT NULL,
+  key_hash text NOT NULL UNIQUE,
+  scopes text[] NOT NULL CHECK (cardinality(scopes) > 0),
+  branch_id uuid REFERENCES public.branches(id) ON DELETE CASCADE,
+  rate_limit_per_minute integer NOT NULL DEFAULT 60 CHECK (rate_limit_per_minute BETWEEN 1 AND 1000),
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  last_used_at timestamptz,
+  created_by uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS api_keys_created_at_idx ON public.api_keys (created_at DESC);
+
+-- ─────────────────────────────────────────
+-- 2. Requests per key per minute, for rate limiting
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.api_key_usage (
+  key_id uuid NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+  window_start timestamptz NOT NULL,
+  requests integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (key_id, window_start)
+);
+
+-- ─────────────────────────────────────────
+-- 3. Count one request against the key's limit for the current minute.
+--    Called by the API with the service role before anything is read.
+--    Windows older than an hour are dropped as it goes.
+-- ─────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.consume_api_rate_limit(p_key_id uuid)
+RETURNS TABLE (allowed boolean, request_limit integer, remaining integer, reset_at timestamptz)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_window timestamptz := date_trunc('minute', now());
+  v_limit integer;
+  v_count integer;
+BEGIN
+  UPDATE public.api_keys
+  SET last_used_at = now()
+  WHERE id = p_key_id
+  RETURNING rate_limit_per_minute INTO v_limit;
+
+  IF v_limit IS NULL THEN
+    RAISE EXCEPTION 'API key not found';
+  END IF;
+
+  INSERT INTO public.api_key_usage (key_id, window_start, requests)
+  VALUES (p_key_id, v_window, 1)
+  ON CONFLICT (key_id, window_start)
+  DO UPDATE SET requests = public.api_key_usage.requests + 1
+  RETURNING requests INTO v_count;
+
+  DELETE FROM public.api_key_usage
+  WHERE key_id = p_key_id
+    AND window_start < v_window - interval '1 hour';
+
+  RETURN QUERY SELECT
+    v_count <= v_limit,
+    v_limit,
+    GREATEST(v_limit - v_count, 0),
+    v_window + interval '1 minute';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_api_rate_limit(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_api_rate_limit(uuid) TO service_role;
+
+-- ─────────────────────────────────────────
+-- 4. RLS — owners (or anyone granted api_keys.manage) create, list and
+--    revoke keys; requests are checked with the service role. Only
+--    owners see or make keys for another branch or for every branch.
+-- ─────────────────────────────────────────
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.api_key_usage ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "api_key_managers_manage_api_keys" ON public.api_keys;
+CREATE POLICY "api_key_managers_manage_api_keys" ON public.api_keys
+  FOR ALL TO authenticated
+  USING (public.has_permission('api_keys.manage'))
+  WITH CHECK (public.has_permission('api_keys.manage'));
+
+DROP POLICY IF EXISTS branch_isolation ON public.api_keys;
+CREATE POLICY branch_isolation ON public.api_keys AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.is_owner(auth.uid()) OR branch_id = public.current_user_branch_id())
+  WITH CHECK (public.is_owner(auth.uid()) OR branch_id = public.current_user_branch_id());
@@ -0,0 +1,232 @@
+-- ─────────────────────────────────────────
+-- Multi-branch tenancy
+-- Adds a branch (outlet) entity and scopes operational data to it.
+-- Owners see every branch; managers and sales reps only their own.
+-- ─────────────────────────────────────────
+
+-- ─────────────────────────────────────────
+-- 1. Branches
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.branches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  address text,
+  phone text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES public.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO public.branches (name)
+SELECT 'Main Branch'
+WHERE NOT EXISTS (SELECT 1 FROM public.branches);
+
+-- Branch of the signed-in user (NULL for owners without a home branch)
+CREATE OR REPLACE FUNCTION public.current_user_branch_id()
+RETURNS uuid
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT branch_id FROM public.users WHERE id = auth.uid();
+$$;
+
+-- ─────────────────────────────────────────
+-- 2. branch_id on users and operational tables
+--    Existing rows belong to the first (main) branch.
+--    New rows default to the author's branch.
+-- ─────────────────────────────────────────
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS branch_id uuid REFERENCES public.branches(id);
+ALTER TABLE public.qr_invites ADD COLUMN IF NOT EXISTS branch_id uuid REFERENCES public.branches(id);
+
+-- Staff get the main branch; owners stay unassigned so they see everything
+UPDATE public.users
+SET branch_id = (SELECT id FROM public.branches ORDER BY created_at LIMIT 1)
+WHERE branch_id IS NULL AND role <> 'owner';
+
+-- Bread types with a NULL branch are shared by every branch
+ALTER TABLE public.bread_types ADD COLUMN IF NOT EXISTS branch_id uuid REFERENCES public.branches(id);
+
+DO $$
+DECLARE
+  t text;
+  main_branch uuid := (SELECT id FROM public.branches ORDER BY created_at LIMIT 1);
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'batches', 'all_batches', 'sales_logs', 'production_logs', 'remaining_bread',
+    'available_stock', 'inventory', 'inventory_logs', 'shift_reports', 'shift_feedback',
+    'shift_handovers', 'activities'
+  ] LOOP
+    EXECUTE format('ALTER TABLE public.%I ADD COLUMN IF NOT EXISTS branch_id uuid REFERENCES public.branches(id)', t);
+    EXECUTE format('UPDATE public.%I SET branch_id = %L WHERE branch_id IS NULL', t, main_branch);
+    EXECUTE format('ALTER TABLE public.%I ALTER COLUMN branch_id SET DEFAULT public.current_user_branch_id()', t);
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON public.%I (branch_id)', t || '_branch_id_idx', t);
+  END LOOP;
+END $$;
+
+-- ─────────────────────────────────────────
+-- 3. Per-branch prices (override bread_types.unit_price)
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.branch_prices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid NOT NULL REFERENCES public.branches(id) ON DELETE CASCADE,
+  bread_type_id uuid NOT NULL REFERENCES public.bread_types(id) ON DELETE CASCADE,
+  unit_price numeric NOT NULL CHECK (unit_price >= 0),
+  updated_by uuid REFERENCES public.users(id),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (branch_id, bread_type_id)
+);
+
+-- ─────────────────────────────────────────
+-- 4. Shift schedules per branch (NULL branch = default for all)
+-- ─────────────────────────────────────────
+ALTER TABLE public.shift_schedules ADD COLUMN IF NOT EXISTS branch_id uuid REFERENCES public.branches(id) ON DELETE CASCADE;
+
+DROP INDEX IF EXISTS public.shift_schedules_one_active;
+CREATE UNIQUE INDEX IF NOT EXISTS shift_schedules_one_active
+  ON public.shift_schedules (coalesce(branch_id, '00000000-0000-0000-0000-000000000000'::uuid))
+  WHERE is_active;
+
+CREATE OR REPLACE FUNCTION public.get_current_shift()
+RETURNS text
+LANGUAGE plpgsql STABLE AS $$
+DECLARE
+  sch public.shift_schedules;
+  local_now timestamp;
+  day_shifts jsonb;
+  result text;
+BEGIN
+  -- The user's branch schedule wins over the default one
+  SELECT * INTO sch FROM public.shift_schedules
+  WHERE is_active AND (branch_id IS NULL OR branch_id = public.current_user_branch_id())
+  ORDER BY branch_id NULLS LAST
+  LIMIT 1;
+  IF NOT FOUND THEN
+    RETURN public.get_current_shift_nigeria();
+  END IF;
+
+  local_now := now() AT TIME ZONE sch.timezone;
+  day_shifts := coalesce(
+    sch.weekday_overrides -> extract(dow FROM local_now)::int::text,
+    sch.shifts
+  );
+
+  SELECT s ->> 'key' INTO result
+  FROM jsonb_array_elements(day_shifts) s
+  WHERE (s ->> 'start_time')::time <= local_now::time
+  ORDER BY (s ->> 'start_time')::time DESC
+  LIMIT 1;
+
+  IF result IS NULL THEN
+    day_shifts := coalesce(
+      sch.weekday_overrides -> extract(dow FROM local_now - interval '1 day')::int::text,
+      sch.shifts
+    );
+
+    SELECT s ->> 'key' INTO result
+    FROM jsonb_array_elements(day_shifts) s
+    ORDER BY (s ->> 'start_time')::time DESC
+    LIMIT 1;
+  END IF;
+
+  RETURN result;
+END;
+$$;
+
+-- ─────────────────────────────────────────
+-- 5. Remaining stock is tracked per branch
+-- ─────────────────────────────────────────
+ALTER TABLE public.remaining_bread DROP CONSTRAINT IF EXISTS remaining_bread_bread_type_id_key;
+ALTER TABLE public.remaining_bread DROP CONSTRAINT IF EXISTS remaining_bread_bread_type_id_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS remaining_bread_branch_bread_type_key
+  ON public.remaining_bread (branch_id, bread_type_id);
+
+ALTER TABLE public.available_stock DROP CONSTRAINT IF EXISTS available_stock_bread_type_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS available_stock_branch_bread_type_key
+  ON public.available_stock (branch_id, bread_type_id);
+
+-- Move a branch's available stock by p_delta loaves, never below zero.
+-- Anything that puts loaves back or takes them off outside a sale goes
+-- through here so it only touches the branch the loaves belong to.
+CREATE OR REPLACE FUNCTION public.adjust_available_stock(
+  p_branch_id uuid,
+  p_bread_type_id uuid,
+  p_delta integer
+)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  UPDATE public.available_stock
+  SET quantity = greatest(quantity + p_delta, 0), last_updated = now(), updated_at = now()
+  WHERE bread_type_id = p_bread_type_id
+    AND branch_id IS NOT DISTINCT FROM p_branch_id;
+
+  IF NOT FOUND AND p_delta > 0 THEN
+    INSERT INTO public.available_stock (branch_id, bread_type_id, bread_type_name, unit_price, quantity)
+    SELECT p_branch_id, id, name, unit_price, p_delta
+    FROM public.bread_types
+    WHERE id = p_bread_type_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.adjust_available_stock(uuid, uuid, integer) FROM PUBLIC, anon, authenticated;
+
+-- ─────────────────────────────────────────
+-- 6. RLS — branch isolation
+--    RESTRICTIVE policies are ANDed with the existing permissive ones,
+--    so current role rules still apply on top of the branch filter.
+-- ─────────────────────────────────────────
+ALTER TABLE public.branches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.branch_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "authenticated_read_branches" ON public.branches
+  FOR SELECT TO authenticated
+  USING (public.is_owner(auth.uid()) OR id = public.current_user_branch_id());
+
+CREATE POLICY "owners_write_branches" ON public.branches
+  FOR ALL TO authenticated
+  USING (auth.uid() IN (SELECT id FROM public.users WHERE role = 'owner'))
+  WITH CHECK (auth.uid() IN (SELECT id FROM public.users WHERE role = 'owner'));
+
+CREATE POLICY "authenticated_read_branch_prices" ON public.branch_prices
+  FOR SELECT TO authenticated
+  USING (public.is_owner(auth.uid()) OR branch_id = public.current_user_branch_id());
+
+CREATE POLICY "owners_write_branch_prices" ON public.branch_prices
+  FOR ALL TO authenticated
+  USING (auth.uid() IN (SELECT id FROM public.users WHERE role = 'owner'))
+  WITH CHECK (auth.uid() IN (SELECT id FROM public.users WHERE role = 'owner'));
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'batches', 'all_batches', 'sales_logs', 'production_logs', 'remaining_bread',
+    'available_stock', 'inventory', 'inventory_logs', 'shift_reports', 'shift_feedback',
+    'shift_handovers', 'activities'
+  ] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS branch_isolation ON public.%I', t);
+    EXECUTE format(
+      'CREATE POLICY branch_isolation ON public.%I AS RESTRICTIVE FOR ALL TO authenticated
+         USING (public.is_owner(auth.uid()) OR branch_id = public.current_user_branch_id())
+         WITH CHECK (public.is_owner(auth.uid()) OR branch_id = public.current_user_branch_id())', t);
+  END LOOP;
+END $$;
+
+-- Shared bread types (NULL branch) stay visible to everyone
+DROP POLICY IF EXISTS branch_isolation ON public.bread_types;
+CREATE POLICY branch_isolation ON public.bread_types AS RESTRICTIVE FOR SELECT TO authenticated
+  USING (
+    branch_id IS NULL
+    OR public.is_owner(auth.uid())
+    OR branch_id = public.current_user_branch_id()
+  );
+
+-- Managers only see colleagues in their branch
+DROP POLICY IF EXISTS branch_isolation ON public.users;
+CREATE POLICY branch_isolation ON public.users AS RESTRICTIVE FOR SELECT TO authenticated
+  USING (
+    id = auth.uid()
+    OR public.is_owner(auth.uid())
+    OR branch_id = public.current_user_branch_id()
+  );
@@ -0,0 +1,10 @@
+-- ─────────────────────────────────────────
+-- Bread type unit cost
+-- Manual cost per loaf used for COGS and margin reporting.
+-- NULL = derive the cost from the bread type's recipe (ingredients.sql).
+-- ─────────────────────────────────────────
+ALTER TABLE public.bread_types
+  ADD COLUMN IF NOT EXISTS unit_cost numeric CHECK (unit_cost >= 0);
+
+COMMENT ON COLUMN public.bread_types.unit_cost IS
+  'Manual cost per loaf; when NULL the cost is derived from recipe_items and ingredients.cost_per_unit';
@@ -0,0 +1,244 @@
+-- ─────────────────────────────────────────
+-- Customer accounts and credit sales
+-- Retailers who buy on account get a customer record with a credit
+-- limit. Every credit sale, repayment and void against one of their
+-- sales is a row in customer_transactions, so the balance survives
+-- sales logs being cleared at the end of a shift. Requires
+-- branches.sql, permissions.sql and sales-voids.sql.
+-- ─────────────────────────────────────────
+
+-- ─────────────────────────────────────────
+-- 1. Customers
+--    credit_limit is the most a customer may owe; 0 means cash only.
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.customers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid DEFAULT public.current_user_branch_id() REFERENCES public.branches(id),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  phone text,
+  credit_limit numeric(12,2) NOT NULL DEFAULT 0 CHECK (credit_limit >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES public.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS customers_branch_name_idx
+  ON public.customers (branch_id, lower(trim(name)));
+
+-- ─────────────────────────────────────────
+-- 2. Account ledger
+--    kind = 'sale': amount is the sale total, amount_paid what was paid
+--    at the till. kind = 'payment': a repayment of amount. kind =
+--    'void': amount owed on a sale that was later voided or refunded.
+--    balance_change is what each row adds to what the customer owes.
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.customer_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid DEFAULT public.current_user_branch_id() REFERENCES public.branches(id),
+  customer_id uuid NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('sale', 'payment', 'void')),
+  sale_id uuid REFERENCES public.sales_logs(id) ON DELETE SET NULL,
+  sale_void_id uuid REFERENCES public.sale_voids(id) ON DELETE SET NULL,
+  sale_transaction_id uuid REFERENCES public.customer_transactions(id) ON DELETE SET NULL,
+  bread_type_id uuid REFERENCES public.bread_types(id),
+  quantity integer CHECK (quantity > 0),
+  shift text, -- copied from the sale, which was checked against the schedule
+  amount numeric(12,2) NOT NULL CHECK (amount >= 0),
+  amount_paid numeric(12,2) NOT NULL DEFAULT 0 CHECK (amount_paid >= 0),
+  payment_status text CHECK (payment_status IN ('paid', 'partial', 'credit')),
+  balance_change numeric(12,2) GENERATED ALWAYS AS (
+    CASE WHEN kind = 'sale' THEN amount - amount_paid ELSE -amount END
+  ) STORED,
+  note text,
+  recorded_by uuid NOT NULL REFERENCES public.users(id),
+  created_at timestamptz DEFAULT now(),
+  CHECK (kind <> 'sale' OR (payment_status IS NOT NULL AND amount_paid <= amount)),
+  CHECK (kind = 'sale' OR amount > 0)
+);
+
+CREATE INDEX IF NOT EXISTS customer_transactions_customer_idx
+  ON public.customer_transactions (customer_id, created_at);
+CREATE INDEX IF NOT EXISTS customer_transactions_sale_idx
+  ON public.customer_transactions (sale_id);
+
+ALTER TABLE public.customer_transactions DROP CONSTRAINT IF EXISTS customer_transactions_shift_check;
+
+-- ─────────────────────────────────────────
+-- 3. Functions
+-- ─────────────────────────────────────────
+-- How much more the customer can owe before hitting their limit
+CREATE OR REPLACE FUNCTION public.customer_available_credit(p_customer_id uuid)
+RETURNS numeric
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT c.credit_limit - coalesce(sum(t.balance_change), 0)
+  FROM public.customers c
+  LEFT JOIN public.customer_transactions t ON t.customer_id = c.id
+  WHERE c.id = p_customer_id
+    AND (public.is_owner(auth.uid()) OR c.branch_id = public.current_user_branch_id())
+  GROUP BY c.id;
+$$;
+
+-- Active customers with what they owe, for the sale screens. Sales
+-- reps only see their own ledger rows, so balances come from here.
+CREATE OR REPLACE FUNCTION public.sale_customers()
+RETURNS TABLE (id uuid, name text, phone text, credit_limit numeric, balance numeric)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT c.id, c.name, c.phone, c.credit_limit, coalesce(sum(t.balance_change), 0)
+  FROM public.customers c
+  LEFT JOIN public.customer_transactions t ON t.customer_id = c.id
+  WHERE c.is_active
+    AND (public.has_permission('sales.record') OR public.has_permission('customers.manage'))
+    AND (public.is_owner(auth.uid()) OR c.branch_id = public.current_user_branch_id())
+  GROUP BY c.id
+  ORDER BY c.name;
+$$;
+
+-- Attach a recorded sale to a customer's account. The unpaid part
+-- must fit within their credit limit. Returns the ledger row id.
+CREATE OR REPLACE FUNCTION public.record_customer_sale(
+  p_customer_id uuid,
+  p_sale_id uuid,
+  p_bread_type_id uuid,
+  p_quantity integer,
+  p_shift text,
+  p_amount numeric,
+  p_amount_paid numeric
+)
+RETURNS uuid
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_customer public.customers%ROWTYPE;
+  v_owed numeric(12,2);
+  v_unpaid numeric(12,2) := greatest(p_amount - coalesce(p_amount_paid, 0), 0);
+  v_id uuid;
+BEGIN
+  IF NOT public.has_permission('sales.record') AND NOT public.has_permission('customers.manage') THEN
+    RAISE EXCEPTION 'You cannot record sales';
+  END IF;
+  IF p_amount < 0 OR coalesce(p_amount_paid, 0) < 0 OR coalesce(p_amount_paid, 0) > p_amount THEN
+    RAISE EXCEPTION 'Amount paid must be between 0 and the sale total';
+  END IF;
+
+  -- A sale synced again after a dropped response is already on the account
+  SELECT id INTO v_id FROM public.customer_transactions WHERE sale_id = p_sale_id AND kind = 'sale';
+  IF FOUND THEN
+    RETURN v_id;
+  END IF;
+
+  SELECT * INTO v_customer FROM public.customers WHERE id = p_customer_id FOR UPDATE;
+  IF NOT FOUND OR NOT v_customer.is_active THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+  IF NOT public.is_owner(auth.uid()) AND v_customer.branch_id IS DISTINCT FROM public.current_user_branch_id() THEN
+    RAISE EXCEPTION 'Customer belongs to another branch';
+  END IF;
+
+  SELECT coalesce(sum(balance_change), 0) INTO v_owed
+  FROM public.customer_transactions WHERE customer_id = p_customer_id;
+
+  IF v_unpaid > 0 AND v_owed + v_unpaid > v_customer.credit_limit THEN
+    RAISE EXCEPTION '% can only owe % more', v_customer.name, greatest(v_customer.credit_limit - v_owed, 0);
+  END IF;
+
+  INSERT INTO public.customer_transactions (
+    branch_id, customer_id, kind, sale_id, bread_type_id, quantity, shift,
+    amount, amount_paid, payment_status, recorded_by
+  ) VALUES (
+    v_customer.branch_id, p_customer_id, 'sale', p_sale_id, p_bread_type_id, p_quantity, p_shift,
+    p_amount, coalesce(p_amount_paid, 0),
+    CASE WHEN v_unpaid = 0 THEN 'paid' WHEN coalesce(p_amount_paid, 0) = 0 THEN 'credit' ELSE 'partial' END,
+    auth.uid()
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- A void or refund of a credit sale takes the unpaid part off the
+-- customer's balance; anything already paid is handed back at the till.
+CREATE OR REPLACE FUNCTION public.credit_customer_for_sale_void()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_sale public.customer_transactions%ROWTYPE;
+  v_still_owed numeric(12,2);
+  v_credit numeric(12,2);
+BEGIN
+  IF NEW.sale_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_sale IN
+    SELECT * FROM public.customer_transactions
+    WHERE sale_id = NEW.sale_id AND kind = 'sale'
+    ORDER BY created_at DESC
+  LOOP
+    SELECT v_sale.amount - v_sale.amount_paid - coalesce(sum(amount), 0) INTO v_still_owed
+    FROM public.customer_transactions
+    WHERE sale_transaction_id = v_sale.id AND kind = 'void';
+
+    v_credit := least(NEW.amount, greatest(v_still_owed, 0));
+    IF v_credit > 0 THEN
+      INSERT INTO public.customer_transactions (
+        branch_id, customer_id, kind, sale_void_id, sale_transaction_id,
+        bread_type_id, quantity, shift, amount, note, recorded_by
+      ) VALUES (
+        v_sale.branch_id, v_sale.customer_id, 'void', NEW.id, v_sale.id,
+        NEW.bread_type_id, NEW.quantity, NEW.shift, v_credit, NEW.reason, NEW.recorded_by
+      );
+    END IF;
+    RETURN NEW;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sale_voids_credit_customer ON public.sale_voids;
+CREATE TRIGGER sale_voids_credit_customer
+  AFTER INSERT ON public.sale_voids
+  FOR EACH ROW EXECUTE FUNCTION public.credit_customer_for_sale_void();
+
+-- ─────────────────────────────────────────
+-- 4. RLS — sales go through record_customer_sale(); repayments and
+--    customer records need customers.manage
+-- ─────────────────────────────────────────
+ALTER TABLE public.customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.customer_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "staff_read_customers" ON public.customers
+  FOR SELECT TO authenticated
+  USING (
+    public.has_permission('sales.record')
+    OR public.has_permission('customers.manage')
+    OR public.has_permission('reports.view')
+  );
+
+CREATE POLICY "managers_write_customers" ON public.customers
+  FOR ALL TO authenticated
+  USING (public.has_permission('customers.manage'))
+  WITH CHECK (public.has_permission('customers.manage'));
+
+CREATE POLICY branch_isolation ON public.customers AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.is_owner(auth.uid()) OR branch_id = public.current_user_branch_id());
+
+CREATE POLICY "staff_read_customer_transactions" ON public.customer_transactions
+  FOR SELECT TO authenticated
+  USING (
+    recorded_by = auth.uid()
+    OR public.has_permission('customers.manage')
+    OR public.has_permission('reports.view')
+  );
+
+CREATE POLICY "managers_record_customer_payments" ON public.customer_transactions
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    kind = 'payment'
+    AND recorded_by = auth.uid()
+    AND public.has_permission('customers.manage')
+  );
+
+CREATE POLICY branch_isolation ON public.customer_transactions AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.is_owner(auth.uid()) OR branch_id = public.current_user_branch_id());
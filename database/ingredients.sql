@@ -0,0 +1,226 @@
+-- ─────────────────────────────────────────
+-- Ingredient inventory and recipes
+-- Raw materials with per-branch stock, a recipe per bread type, and
+-- automatic deduction when a batch is completed.
+-- Requires branches.sql (current_user_branch_id).
+-- ─────────────────────────────────────────
+
+-- ─────────────────────────────────────────
+-- 1. Ingredients catalog + per-branch stock
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.ingredients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  unit text NOT NULL CHECK (unit IN ('kg', 'g', 'l', 'ml', 'pcs')),
+  -- Alert when a branch's stock drops to or below this level
+  reorder_level numeric NOT NULL DEFAULT 0 CHECK (reorder_level >= 0),
+  -- Latest purchase price per unit; updated on receiving
+  cost_per_unit numeric CHECK (cost_per_unit >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES public.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.ingredient_stock (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ingredient_id uuid NOT NULL REFERENCES public.ingredients(id) ON DELETE CASCADE,
+  branch_id uuid NOT NULL DEFAULT public.current_user_branch_id() REFERENCES public.branches(id),
+  quantity numeric NOT NULL DEFAULT 0,
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (ingredient_id, branch_id)
+);
+
+-- Every stock change: purchases (+), batch usage (-), manual adjustments (±)
+CREATE TABLE IF NOT EXISTS public.ingredient_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ingredient_id uuid NOT NULL REFERENCES public.ingredients(id) ON DELETE CASCADE,
+  branch_id uuid NOT NULL DEFAULT public.current_user_branch_id() REFERENCES public.branches(id),
+  change numeric NOT NULL,
+  reason text NOT NULL CHECK (reason IN ('purchase', 'batch', 'adjustment')),
+  batch_id uuid REFERENCES public.batches(id) ON DELETE SET NULL,
+  supplier text,
+  unit_cost numeric CHECK (unit_cost >= 0),
+  notes text,
+  recorded_by uuid REFERENCES public.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ingredient_movements_branch_created_idx
+  ON public.ingredient_movements (branch_id, created_at DESC);
+
+-- A batch is only ever deducted once per ingredient
+CREATE UNIQUE INDEX IF NOT EXISTS ingredient_movements_batch_once
+  ON public.ingredient_movements (batch_id, ingredient_id)
+  WHERE reason = 'batch';
+
+-- ─────────────────────────────────────────
+-- 2. Recipes
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.recipe_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bread_type_id uuid NOT NULL REFERENCES public.bread_types(id) ON DELETE CASCADE,
+  ingredient_id uuid NOT NULL REFERENCES public.ingredients(id) ON DELETE RESTRICT,
+  quantity numeric NOT NULL CHECK (quantity > 0),
+  -- 'loaf': quantity per loaf produced; 'batch': fixed quantity per batch
+  per text NOT NULL DEFAULT 'loaf' CHECK (per IN ('loaf', 'batch')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (bread_type_id, ingredient_id)
+);
+
+-- ─────────────────────────────────────────
+-- 3. RLS — everyone reads, managers/owners write,
+--    stock and movements isolated per branch
+-- ─────────────────────────────────────────
+ALTER TABLE public.ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ingredient_stock ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ingredient_movements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recipe_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "authenticated_read_ingredients" ON public.ingredients
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "managers_write_ingredients" ON public.ingredients
+  FOR ALL TO authenticated
+  USING (public.is_manager_or_owner(auth.uid()))
+  WITH CHECK (public.is_manager_or_owner(auth.uid()));
+
+CREATE POLICY "authenticated_read_recipe_items" ON public.recipe_items
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "managers_write_recipe_items" ON public.recipe_items
+  FOR ALL TO authenticated
+  USING (public.is_manager_or_owner(auth.uid()))
+  WITH CHECK (public.is_manager_or_owner(auth.uid()));
+
+CREATE POLICY "authenticated_read_ingredient_stock" ON public.ingredient_stock
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "authenticated_read_ingredient_movements" ON public.ingredient_movements
+  FOR SELECT TO authenticated USING (true);
+
+-- Stock and movements are written through the functions below only
+CREATE POLICY branch_isolation ON public.ingredient_stock AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.is_owner(auth.uid()) OR branch_id = public.current_user_branch_id());
+
+CREATE POLICY branch_isolation ON public.ingredient_movements AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.is_owner(auth.uid()) OR branch_id = public.current_user_branch_id());
+
+-- ─────────────────────────────────────────
+-- 4. Stock movements
+-- ─────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.record_ingredient_movement(
+  p_ingredient_id uuid,
+  p_change numeric,
+  p_reason text,
+  p_branch_id uuid DEFAULT NULL,
+  p_supplier text DEFAULT NULL,
+  p_unit_cost numeric DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS numeric
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  target_branch uuid;
+  new_quantity numeric;
+BEGIN
+  IF NOT public.is_manager_or_owner(auth.uid()) THEN
+    RAISE EXCEPTION 'Only managers and owners can change ingredient stock';
+  END IF;
+
+  -- Staff always write to their own branch; owners must say which one
+  target_branch := CASE
+    WHEN public.is_owner(auth.uid()) THEN coalesce(p_branch_id, public.current_user_branch_id())
+    ELSE public.current_user_branch_id()
+  END;
+
+  IF target_branch IS NULL THEN
+    RAISE EXCEPTION 'A branch is required to record ingredient stock';
+  END IF;
+
+  IF p_reason NOT IN ('purchase', 'adjustment') THEN
+    RAISE EXCEPTION 'Batch usage is recorded by deduct_batch_ingredients';
+  END IF;
+
+  INSERT INTO public.ingredient_movements
+    (ingredient_id, branch_id, change, reason, supplier, unit_cost, notes, recorded_by)
+  VALUES
+    (p_ingredient_id, target_branch, p_change, p_reason, p_supplier, p_unit_cost, p_notes, auth.uid());
+
+  INSERT INTO public.ingredient_stock (ingredient_id, branch_id, quantity)
+  VALUES (p_ingredient_id, target_branch, p_change)
+  ON CONFLICT (ingredient_id, branch_id)
+  DO UPDATE SET quantity = ingredient_stock.quantity + EXCLUDED.quantity, updated_at = now()
+  RETURNING quantity INTO new_quantity;
+
+  IF p_reason = 'purchase' AND p_unit_cost IS NOT NULL THEN
+    UPDATE public.ingredients
+    SET cost_per_unit = p_unit_cost, updated_at = now()
+    WHERE id = p_ingredient_id;
+  END IF;
+
+  RETURN new_quantity;
+END;
+$$;
+
+-- Deduct a completed batch's recipe from its branch's stock.
+-- Safe to call more than once: already-deducted ingredients are skipped.
+-- Returns the ingredients that are now at or below their reorder level.
+CREATE OR REPLACE FUNCTION public.deduct_batch_ingredients(p_batch_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  b public.batches;
+  item record;
+  used numeric;
+  low jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO b FROM public.batches WHERE id = p_batch_id;
+  IF NOT FOUND OR b.status <> 'completed' OR b.branch_id IS NULL THEN
+    RETURN low;
+  END IF;
+
+  IF NOT (public.is_owner(auth.uid()) OR b.branch_id = public.current_user_branch_id()) THEN
+    RAISE EXCEPTION 'Batch belongs to another branch';
+  END IF;
+
+  FOR item IN
+    SELECT r.ingredient_id, r.quantity, r.per
+    FROM public.recipe_items r
+    WHERE r.bread_type_id = b.bread_type_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.ingredient_movements m
+        WHERE m.batch_id = b.id AND m.ingredient_id = r.ingredient_id AND m.reason = 'batch'
+      )
+  LOOP
+    used := CASE WHEN item.per = 'batch' THEN item.quantity ELSE item.quantity * coalesce(b.actual_quantity, 0) END;
+    CONTINUE WHEN used <= 0;
+
+    INSERT INTO public.ingredient_movements
+      (ingredient_id, branch_id, change, reason, batch_id, notes, recorded_by)
+    VALUES
+      (item.ingredient_id, b.branch_id, -used, 'batch', b.id, 'Batch ' || b.batch_number, auth.uid());
+
+    INSERT INTO public.ingredient_stock (ingredient_id, branch_id, quantity)
+    VALUES (item.ingredient_id, b.branch_id, -used)
+    ON CONFLICT (ingredient_id, branch_id)
+    DO UPDATE SET quantity = ingredient_stock.quantity + EXCLUDED.quantity, updated_at = now();
+  END LOOP;
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+           'ingredient_id', i.id,
+           'name', i.name,
+           'unit', i.unit,
+           'quantity', s.quantity,
+           'reorder_level', i.reorder_level
+         )), '[]'::jsonb)
+  INTO low
+  FROM public.recipe_items r
+  JOIN public.ingredients i ON i.id = r.ingredient_id
+  JOIN public.ingredient_stock s ON s.ingredient_id = i.id AND s.branch_id = b.branch_id
+  WHERE r.bread_type_id = b.bread_type_id
+    AND s.quantity <= i.reorder_level;
+
+  RETURN low;
+END;
+$$;
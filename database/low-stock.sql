@@ -0,0 +1,87 @@
+-- ─────────────────────────────────────────
+-- Low-stock thresholds and alerts
+-- A low-stock level (and optional critical level) per bread type per shift
+-- in place of the fixed "5 or fewer left" rule, and a log of the alerts
+-- sent so each crossing is only notified once per shift. Bread types with
+-- no threshold keep the old level of 5. Requires branches.sql and
+-- shift-schedule.sql.
+-- ─────────────────────────────────────────
+
+-- ─────────────────────────────────────────
+-- 1. Thresholds
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.low_stock_thresholds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid NOT NULL DEFAULT public.current_user_branch_id() REFERENCES public.branches(id),
+  bread_type_id uuid NOT NULL REFERENCES public.bread_types(id) ON DELETE CASCADE,
+  shift text NOT NULL,
+  threshold integer NOT NULL CHECK (threshold >= 0),
+  -- Below this the item is critical; null means it never is
+  critical_level integer CHECK (critical_level >= 0),
+  updated_by uuid REFERENCES public.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (branch_id, bread_type_id, shift),
+  CHECK (critical_level IS NULL OR critical_level <= threshold)
+);
+
+-- ─────────────────────────────────────────
+-- 2. Alerts sent
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.low_stock_alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid NOT NULL DEFAULT public.current_user_branch_id() REFERENCES public.branches(id),
+  bread_type_id uuid NOT NULL REFERENCES public.bread_types(id) ON DELETE CASCADE,
+  shift text NOT NULL,
+  shift_date date NOT NULL,
+  level text NOT NULL CHECK (level IN ('low', 'critical')),
+  available integer NOT NULL,
+  threshold integer NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  -- One alert per level per shift; the insert that wins sends the notification
+  UNIQUE (branch_id, bread_type_id, shift, shift_date, level)
+);
+
+CREATE INDEX IF NOT EXISTS low_stock_alerts_created_at_idx
+  ON public.low_stock_alerts (created_at DESC);
+
+-- Both tables take any shift in the schedule, like every other shift column
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['low_stock_thresholds', 'low_stock_alerts'] LOOP
+    EXECUTE format('ALTER TABLE public.%I DROP CONSTRAINT IF EXISTS %I', t, t || '_shift_check');
+    EXECUTE format('DROP TRIGGER IF EXISTS validate_shift_key ON public.%I', t);
+    EXECUTE format(
+      'CREATE TRIGGER validate_shift_key BEFORE INSERT OR UPDATE OF shift ON public.%I
+         FOR EACH ROW EXECUTE FUNCTION public.validate_shift_key()', t);
+  END LOOP;
+END $$;
+
+-- ─────────────────────────────────────────
+-- 3. RLS — everyone reads their branch's levels, inventory managers set
+-- them; alerts are raised by whoever records the sale that crosses one
+-- ─────────────────────────────────────────
+ALTER TABLE public.low_stock_thresholds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.low_stock_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "authenticated_read_low_stock_thresholds" ON public.low_stock_thresholds
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "inventory_managers_write_low_stock_thresholds" ON public.low_stock_thresholds
+  FOR ALL TO authenticated
+  USING (public.has_permission('inventory.manage'))
+  WITH CHECK (public.has_permission('inventory.manage'));
+
+CREATE POLICY branch_isolation ON public.low_stock_thresholds AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.is_owner(auth.uid()) OR branch_id = public.current_user_branch_id());
+
+CREATE POLICY "authenticated_read_low_stock_alerts" ON public.low_stock_alerts
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "authenticated_insert_low_stock_alerts" ON public.low_stock_alerts
+  FOR INSERT TO authenticated WITH CHECK (true);
+
+CREATE POLICY branch_isolation ON public.low_stock_alerts AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.is_owner(auth.uid()) OR branch_id = public.current_user_branch_id());
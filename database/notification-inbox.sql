@@ -0,0 +1,158 @@
+-- ─────────────────────────────────────────
+-- In-app notification inbox
+-- Every activity is copied into the inbox of each user it is routed to
+-- (notification_routes: owners everywhere, other roles in the activity's
+-- branch), never the person who did it. Each copy has its own read and
+-- archived state, so the unread badge is counted by the database rather
+-- than guessed in the browser. Requires notification-preferences.sql.
+-- ─────────────────────────────────────────
+
+-- ─────────────────────────────────────────
+-- 1. Inbox entries, one per recipient per activity
+--    The activity's text is copied so the entry survives the activity
+--    feed being trimmed. shift is copied too, so it is whatever key the
+--    activity was checked against when it was written.
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  activity_id uuid REFERENCES public.activities(id) ON DELETE SET NULL,
+  activity_type text NOT NULL,
+  message text NOT NULL,
+  actor_name text,
+  actor_role text,
+  shift text,
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  read_at timestamptz,
+  archived_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, activity_id)
+);
+
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_shift_check;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+  ON public.notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread
+  ON public.notifications(user_id)
+  WHERE read_at IS NULL AND archived_at IS NULL;
+
+-- ─────────────────────────────────────────
+-- 2. Fan each new activity out to its recipients
+-- ─────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.fan_out_activity_notifications()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_roles text[];
+BEGIN
+  SELECT roles INTO v_roles
+  FROM public.notification_routes
+  WHERE activity_type = NEW.activity_type;
+
+  v_roles := COALESCE(v_roles, ARRAY['owner']);
+
+  INSERT INTO public.notifications (
+    user_id, activity_id, activity_type, message, actor_name, actor_role, shift, metadata, created_at
+  )
+  SELECT
+    u.id, NEW.id, NEW.activity_type, NEW.message, NEW.user_name, NEW.user_role, NEW.shift,
+    COALESCE(NEW.metadata, '{}'::jsonb), COALESCE(NEW.created_at, now())
+  FROM public.users u
+  WHERE u.role = ANY (v_roles)
+    AND COALESCE(u.is_active, true)
+    AND u.id <> NEW.user_id
+    AND (u.role = 'owner' OR (NEW.branch_id IS NOT NULL AND u.branch_id = NEW.branch_id))
+  ON CONFLICT (user_id, activity_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS activities_fan_out_notifications ON public.activities;
+CREATE TRIGGER activities_fan_out_notifications
+  AFTER INSERT ON public.activities
+  FOR EACH ROW EXECUTE FUNCTION public.fan_out_activity_notifications();
+
+-- ─────────────────────────────────────────
+-- 3. Read and archived state
+--    Only the recipient changes their own entries. p_ids NULL means every
+--    unread, unarchived entry ("mark all read").
+-- ─────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(p_ids uuid[] DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.notifications
+  SET read_at = now()
+  WHERE user_id = auth.uid()
+    AND read_at IS NULL
+    AND (p_ids IS NULL AND archived_at IS NULL OR id = ANY (p_ids));
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_notifications_unread(p_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.notifications
+  SET read_at = NULL
+  WHERE user_id = auth.uid()
+    AND id = ANY (p_ids);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Archiving also marks the entry read so it leaves the badge
+CREATE OR REPLACE FUNCTION public.set_notifications_archived(p_ids uuid[], p_archived boolean DEFAULT true)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.notifications
+  SET archived_at = CASE WHEN p_archived THEN now() ELSE NULL END,
+      read_at = CASE WHEN p_archived THEN COALESCE(read_at, now()) ELSE read_at END
+  WHERE user_id = auth.uid()
+    AND id = ANY (p_ids);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mark_notifications_read(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_notifications_unread(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_notifications_archived(uuid[], boolean) TO authenticated;
+
+-- ─────────────────────────────────────────
+-- 4. RLS — everyone reads only their own inbox; writes go through the
+--    trigger and the functions above
+-- ─────────────────────────────────────────
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "notifications_read_own" ON public.notifications;
+CREATE POLICY "notifications_read_own" ON public.notifications
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,76 @@
+-- ─────────────────────────────────────────
+-- Notification digests and outbox
+-- Every push is written to notification_outbox before it is sent, so
+-- retries and held-back digests survive a server restart. Recipients on a
+-- digest cadence get one summary push per window ("12 sales, ₦48,500 in
+-- the last 30 minutes, top item: Agege") instead of one per activity;
+-- low-stock alerts always go straight away. A cron job sends what is due.
+-- Requires notification-preferences.sql.
+-- ─────────────────────────────────────────
+
+-- ─────────────────────────────────────────
+-- 1. Per-user digest cadence
+--    NULL means every push is sent as it happens.
+-- ─────────────────────────────────────────
+ALTER TABLE public.push_notification_preferences
+  ADD COLUMN IF NOT EXISTS digest_minutes integer;
+
+ALTER TABLE public.push_notification_preferences
+  DROP CONSTRAINT IF EXISTS push_notification_preferences_digest_minutes_check;
+ALTER TABLE public.push_notification_preferences
+  ADD CONSTRAINT push_notification_preferences_digest_minutes_check
+  CHECK (digest_minutes IS NULL OR digest_minutes IN (15, 30, 60, 120, 240));
+
+-- ─────────────────────────────────────────
+-- 2. Outbox: one row per push per recipient
+--    deliver_after is when the row is next due: now for immediate pushes,
+--    the end of the window for digests, and the back-off for retries.
+--    Rows sent together as one digest share digest_id. A run claims
+--    rows by moving them to 'sending' first, so overlapping runs never
+--    send the same row twice.
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.notification_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  activity_type text NOT NULL,
+  title text NOT NULL,
+  message text NOT NULL,
+  url text,
+  actor_name text,
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  digest_minutes integer,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts integer NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+  max_attempts integer NOT NULL DEFAULT 5 CHECK (max_attempts > 0),
+  last_error text,
+  deliver_after timestamptz NOT NULL DEFAULT now(),
+  digest_id uuid,
+  sent_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.notification_outbox DROP CONSTRAINT IF EXISTS notification_outbox_status_check;
+ALTER TABLE public.notification_outbox
+  ADD CONSTRAINT notification_outbox_status_check
+  CHECK (status IN ('pending', 'sending', 'sent', 'failed'));
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_due
+  ON public.notification_outbox(deliver_after)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_user
+  ON public.notification_outbox(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_created
+  ON public.notification_outbox(created_at DESC);
+
+-- ─────────────────────────────────────────
+-- 3. RLS — written only by the service role; recipients read their own
+--    rows and whoever monitors delivery reads everything
+-- ─────────────────────────────────────────
+ALTER TABLE public.notification_outbox ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "notification_outbox_read" ON public.notification_outbox;
+CREATE POLICY "notification_outbox_read" ON public.notification_outbox
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid() OR public.has_permission('notifications.monitor'));
@@ -0,0 +1,88 @@
+-- ─────────────────────────────────────────
+-- Notification preferences and routing
+-- Each activity type goes to the roles the owner routes it to (low stock
+-- to managers, shift ends to the owner, ...). Every recipient then
+-- narrows what reaches them by activity type, shift, bread type and sale
+-- size, and can mute pushes during quiet hours. Preferences live on the
+-- user's push_notification_preferences row. Requires permissions.sql
+-- and shift-schedule.sql.
+-- ─────────────────────────────────────────
+
+-- ─────────────────────────────────────────
+-- 1. Per-user preferences
+--    NULL means "all": every activity type, every shift, every bread
+--    type. min_sale_revenue only applies to sales; quiet hours are in the
+--    bakery timezone and may wrap past midnight.
+-- ─────────────────────────────────────────
+ALTER TABLE public.push_notification_preferences
+  ADD COLUMN IF NOT EXISTS activity_types text[],
+  ADD COLUMN IF NOT EXISTS shifts text[],
+  ADD COLUMN IF NOT EXISTS bread_type_ids uuid[],
+  ADD COLUMN IF NOT EXISTS min_sale_revenue numeric(12,2) CHECK (min_sale_revenue >= 0),
+  ADD COLUMN IF NOT EXISTS quiet_hours_start time,
+  ADD COLUMN IF NOT EXISTS quiet_hours_end time;
+
+-- Shifts must be in a schedule when they are picked, like every other
+-- shift column; a list saved before a shift was removed stays readable
+ALTER TABLE public.push_notification_preferences
+  DROP CONSTRAINT IF EXISTS push_notification_preferences_shifts_check;
+
+CREATE OR REPLACE FUNCTION public.validate_preference_shifts()
+RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF NEW.shifts IS NOT NULL AND NOT (NEW.shifts <@ public.active_shift_keys()) THEN
+    RAISE EXCEPTION 'Unknown shift in %', NEW.shifts;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_preference_shifts ON public.push_notification_preferences;
+CREATE TRIGGER validate_preference_shifts BEFORE INSERT OR UPDATE OF shifts ON public.push_notification_preferences
+  FOR EACH ROW EXECUTE FUNCTION public.validate_preference_shifts();
+
+ALTER TABLE public.push_notification_preferences
+  DROP CONSTRAINT IF EXISTS push_notification_preferences_quiet_hours_check;
+ALTER TABLE public.push_notification_preferences
+  ADD CONSTRAINT push_notification_preferences_quiet_hours_check
+  CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL));
+
+-- ─────────────────────────────────────────
+-- 2. Routing: which roles hear about each activity type
+--    Managers and sales reps only hear about their own branch; owners
+--    hear about every branch. An activity type with no row goes to owners.
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.notification_routes (
+  activity_type text PRIMARY KEY,
+  roles text[] NOT NULL DEFAULT ARRAY['owner']
+    CHECK (roles <@ ARRAY['owner', 'manager', 'sales_rep']),
+  updated_by uuid REFERENCES public.users(id),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO public.notification_routes (activity_type, roles) VALUES
+  ('sale', ARRAY['owner']),
+  ('batch', ARRAY['owner']),
+  ('report', ARRAY['owner']),
+  ('login', ARRAY['owner']),
+  ('end_shift', ARRAY['owner']),
+  ('created', ARRAY['owner']),
+  ('low_stock', ARRAY['manager'])
+ON CONFLICT (activity_type) DO NOTHING;
+
+-- ─────────────────────────────────────────
+-- 3. RLS — everyone reads the routes; only owners change them
+-- ─────────────────────────────────────────
+ALTER TABLE public.notification_routes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "notification_routes_read" ON public.notification_routes;
+CREATE POLICY "notification_routes_read" ON public.notification_routes
+  FOR SELECT TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "notification_routes_owner_write" ON public.notification_routes;
+CREATE POLICY "notification_routes_owner_write" ON public.notification_routes
+  FOR ALL TO authenticated
+  USING (public.is_owner(auth.uid()))
+  WITH CHECK (public.is_owner(auth.uid()));
@@ -0,0 +1,108 @@
+-- ─────────────────────────────────────────
+-- Offline sync
+-- Sales reps record sales, end-of-shift sales, remaining bread and
+-- shift reports while offline; each queued action carries an
+-- idempotency key so a replay after a dropped response is applied
+-- once. Requires branches.sql.
+-- ─────────────────────────────────────────
+
+-- ─────────────────────────────────────────
+-- 1. Processed actions ledger
+--    A key is claimed ('processing') before the write and marked
+--    'applied' with its result after, so a retry of an applied action
+--    returns the stored result instead of writing again.
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.offline_sync_actions (
+  idempotency_key uuid PRIMARY KEY,
+  branch_id uuid DEFAULT public.current_user_branch_id() REFERENCES public.branches(id),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES public.users(id) ON DELETE CASCADE,
+  action_type text NOT NULL CHECK (action_type IN ('sales_log', 'shift_sales', 'remaining_bread', 'shift_report')),
+  status text NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'applied')),
+  result jsonb,
+  queued_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  applied_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS offline_sync_actions_user_idx
+  ON public.offline_sync_actions (user_id, created_at DESC);
+
+-- ─────────────────────────────────────────
+-- 2. RLS — users only see and claim their own actions
+-- ─────────────────────────────────────────
+ALTER TABLE public.offline_sync_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "users_read_own_offline_sync_actions" ON public.offline_sync_actions
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid() OR public.is_manager_or_owner(auth.uid()));
+
+CREATE POLICY "users_write_own_offline_sync_actions" ON public.offline_sync_actions
+  FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY branch_isolation ON public.offline_sync_actions AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.is_owner(auth.uid()) OR branch_id = public.current_user_branch_id());
+
+-- ─────────────────────────────────────────
+-- 3. Sales carry their idempotency key
+--    The sale and its key are written in one transaction, so a replay
+--    after the sale went in (say a later step failed and the claim was
+--    released) finds the sale instead of recording it again. Returns
+--    the sale id and whether this call created it.
+-- ─────────────────────────────────────────
+ALTER TABLE public.sales_logs ADD COLUMN IF NOT EXISTS idempotency_key uuid;
+
+CREATE UNIQUE INDEX IF NOT EXISTS sales_logs_idempotency_key_idx
+  ON public.sales_logs (idempotency_key) WHERE idempotency_key IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.create_offline_sales_log(
+  p_idempotency_key uuid,
+  p_bread_type_id uuid,
+  p_quantity integer,
+  p_shift text,
+  p_unit_price numeric DEFAULT NULL,
+  p_discount numeric DEFAULT 0,
+  p_returned boolean DEFAULT false,
+  p_leftover integer DEFAULT 0,
+  p_user_id uuid DEFAULT NULL
+)
+RETURNS TABLE (sale_id uuid, created boolean)
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  IF NOT public.has_permission('sales.record') THEN
+    RAISE EXCEPTION 'You do not have permission to record sales';
+  END IF;
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Sales can only be synced by the user who recorded them';
+  END IF;
+
+  -- Two requests replaying the same key wait here rather than both inserting
+  PERFORM pg_advisory_xact_lock(hashtext(p_idempotency_key::text));
+
+  SELECT id INTO v_id FROM public.sales_logs WHERE idempotency_key = p_idempotency_key;
+  IF FOUND THEN
+    RETURN QUERY SELECT v_id, false;
+    RETURN;
+  END IF;
+
+  v_id := public.create_user_sales_log(
+    p_bread_type_id => p_bread_type_id,
+    p_quantity => p_quantity,
+    p_shift => p_shift,
+    p_unit_price => p_unit_price,
+    p_discount => p_discount,
+    p_returned => p_returned,
+    p_leftover => p_leftover,
+    p_user_id => p_user_id
+  );
+
+  UPDATE public.sales_logs SET idempotency_key = p_idempotency_key WHERE id = v_id;
+
+  RETURN QUERY SELECT v_id, true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_offline_sales_log(uuid, uuid, integer, text, numeric, numeric, boolean, integer, uuid) TO authenticated;
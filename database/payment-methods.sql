@@ -0,0 +1,66 @@
+-- ─────────────────────────────────────────
+-- Payment methods and end-of-shift cash-up
+-- Every sale records how it was paid: cash, bank transfer, POS card or
+-- on credit. At the end of a shift the rep counts the till and the
+-- transfer receipts; the shift report keeps what each method should
+-- have brought in next to what was counted. Requires sales-voids.sql
+-- and customers.sql.
+-- ─────────────────────────────────────────
+
+-- ─────────────────────────────────────────
+-- 1. How each sale was paid
+--    amount_paid is what was paid at the till with payment_method;
+--    null means the whole sale. Anything left over is on credit.
+-- ─────────────────────────────────────────
+ALTER TABLE public.sales_logs
+  ADD COLUMN IF NOT EXISTS payment_method text NOT NULL DEFAULT 'cash'
+    CHECK (payment_method IN ('cash', 'transfer', 'pos', 'credit')),
+  ADD COLUMN IF NOT EXISTS amount_paid numeric(12,2) CHECK (amount_paid >= 0);
+
+CREATE OR REPLACE FUNCTION public.set_sale_payment(
+  p_sale_id uuid,
+  p_method text,
+  p_amount_paid numeric DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_sale public.sales_logs%ROWTYPE;
+BEGIN
+  IF p_method NOT IN ('cash', 'transfer', 'pos', 'credit') THEN
+    RAISE EXCEPTION 'Unknown payment method: %', p_method;
+  END IF;
+
+  SELECT * INTO v_sale FROM public.sales_logs WHERE id = p_sale_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found';
+  END IF;
+  IF v_sale.recorded_by IS DISTINCT FROM auth.uid() AND NOT public.has_permission('sales.void') THEN
+    RAISE EXCEPTION 'You can only set the payment of your own sales';
+  END IF;
+  IF p_method = 'credit' AND NOT EXISTS (
+    SELECT 1 FROM public.customer_transactions WHERE sale_id = p_sale_id AND kind = 'sale'
+  ) THEN
+    RAISE EXCEPTION 'Credit sales must be on a customer account';
+  END IF;
+
+  UPDATE public.sales_logs
+  SET payment_method = p_method,
+      amount_paid = CASE WHEN p_method = 'credit' THEN 0 ELSE p_amount_paid END,
+      updated_at = now()
+  WHERE id = p_sale_id;
+END;
+$$;
+
+-- ─────────────────────────────────────────
+-- 2. Cash-up on the shift report
+--    payment_totals holds what each method should have brought in,
+--    e.g. {"cash": 52000, "transfer": 18000, "pos": 0, "credit": 6000}.
+--    Variances are counted minus expected; negative means short.
+-- ─────────────────────────────────────────
+ALTER TABLE public.shift_reports
+  ADD COLUMN IF NOT EXISTS payment_totals jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS counted_cash numeric(12,2),
+  ADD COLUMN IF NOT EXISTS counted_transfer numeric(12,2),
+  ADD COLUMN IF NOT EXISTS cash_variance numeric(12,2),
+  ADD COLUMN IF NOT EXISTS transfer_variance numeric(12,2);
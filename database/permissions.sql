@@ -0,0 +1,156 @@
+-- ─────────────────────────────────────────
+-- Permissions
+-- Replaces hard-coded role checks with named permissions. Each role
+-- has a default set and individual users can be granted or denied
+-- single permissions on top of it. Owners always have every
+-- permission. Keys must match src/lib/auth/permissions.ts.
+-- ─────────────────────────────────────────
+
+-- ─────────────────────────────────────────
+-- 1. Permission catalog
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.permissions (
+  key text PRIMARY KEY,
+  description text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO public.permissions (key, description) VALUES
+  ('batches.view', 'View production batches'),
+  ('batches.create', 'Record production batches'),
+  ('batches.update', 'Edit production batches'),
+  ('batches.delete', 'Delete production batches'),
+  ('production.plan', 'Set daily production plans'),
+  ('production.forecast', 'View demand forecasts'),
+  ('shifts.handover', 'Hand over and take over production shifts'),
+  ('inventory.view', 'View bread inventory'),
+  ('inventory.manage', 'Manage ingredients, recipes and stock'),
+  ('inventory.carry_over', 'Carry leftover stock over to the next shift'),
+  ('waste.record', 'Record wasted and spoiled bread'),
+  ('bread_types.view', 'View bread types'),
+  ('bread_types.manage', 'Create and edit bread types'),
+  ('bread_types.delete', 'Delete bread types'),
+  ('prices.edit', 'Change bread prices'),
+  ('sales.record', 'Record sales and end shifts'),
+  ('sales.view_all', 'View sales by all staff'),
+  ('sales.void', 'Void and refund sales'),
+  ('customers.manage', 'Manage customers, credit limits and repayments'),
+  ('promotions.manage', 'Create and edit promotions'),
+  ('reports.view', 'View staff shift reports'),
+  ('reports.export', 'Export reports'),
+  ('reports.schedule', 'Schedule report emails'),
+  ('staff.view', 'See which staff are on shift'),
+  ('users.manage', 'Invite, edit and remove users'),
+  ('shifts.manage', 'Edit the shift schedule'),
+  ('branches.manage', 'Manage branches and branch prices'),
+  ('permissions.manage', 'Edit role and user permissions'),
+  ('notifications.monitor', 'Monitor push notification delivery'),
+  ('webhooks.manage', 'Manage outbound webhooks for integrations'),
+  ('api_keys.manage', 'Manage API keys for the public API')
+ON CONFLICT (key) DO UPDATE SET description = EXCLUDED.description;
+
+-- ─────────────────────────────────────────
+-- 2. Role defaults
+--    A row means the role has the permission. Seeded with what each
+--    role could do before permissions were configurable.
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.role_permissions (
+  role text NOT NULL CHECK (role IN ('manager', 'sales_rep')),
+  permission text NOT NULL REFERENCES public.permissions(key) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (role, permission)
+);
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('manager', 'batches.view'),
+  ('manager', 'batches.create'),
+  ('manager', 'batches.update'),
+  ('manager', 'batches.delete'),
+  ('manager', 'production.plan'),
+  ('manager', 'production.forecast'),
+  ('manager', 'shifts.handover'),
+  ('manager', 'inventory.view'),
+  ('manager', 'inventory.manage'),
+  ('manager', 'inventory.carry_over'),
+  ('manager', 'waste.record'),
+  ('manager', 'bread_types.view'),
+  ('manager', 'bread_types.manage'),
+  ('manager', 'prices.edit'),
+  ('manager', 'sales.view_all'),
+  ('manager', 'sales.void'),
+  ('manager', 'customers.manage'),
+  ('manager', 'reports.view'),
+  ('manager', 'reports.export'),
+  ('manager', 'staff.view'),
+  ('sales_rep', 'batches.view'),
+  ('sales_rep', 'inventory.view'),
+  ('sales_rep', 'waste.record'),
+  ('sales_rep', 'bread_types.view'),
+  ('sales_rep', 'sales.record')
+ON CONFLICT DO NOTHING;
+
+-- ─────────────────────────────────────────
+-- 3. Per-user overrides
+--    granted = true adds a permission the role lacks,
+--    granted = false takes away one the role has.
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.user_permission_overrides (
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  permission text NOT NULL REFERENCES public.permissions(key) ON DELETE CASCADE,
+  granted boolean NOT NULL,
+  updated_by uuid REFERENCES public.users(id),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, permission)
+);
+
+-- ─────────────────────────────────────────
+-- 4. Checks
+-- ─────────────────────────────────────────
+-- Effective permissions of the signed-in user
+CREATE OR REPLACE FUNCTION public.current_user_permissions()
+RETURNS text[]
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT coalesce(array_agg(p.key ORDER BY p.key), '{}')
+  FROM public.permissions p
+  JOIN public.users u ON u.id = auth.uid() AND u.is_active
+  WHERE u.role = 'owner'
+     OR coalesce(
+          (SELECT o.granted FROM public.user_permission_overrides o
+            WHERE o.user_id = u.id AND o.permission = p.key),
+          EXISTS (SELECT 1 FROM public.role_permissions rp
+                   WHERE rp.role = u.role AND rp.permission = p.key)
+        );
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_permission(perm text)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT perm = ANY (public.current_user_permissions());
+$$;
+
+-- ─────────────────────────────────────────
+-- 5. RLS — everyone reads, only permission managers write
+-- ─────────────────────────────────────────
+ALTER TABLE public.permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_permission_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "authenticated_read_permissions" ON public.permissions
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "authenticated_read_role_permissions" ON public.role_permissions
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "permission_managers_write_role_permissions" ON public.role_permissions
+  FOR ALL TO authenticated
+  USING (public.has_permission('permissions.manage'))
+  WITH CHECK (public.has_permission('permissions.manage'));
+
+CREATE POLICY "users_read_own_permission_overrides" ON public.user_permission_overrides
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid() OR public.has_permission('permissions.manage'));
+
+CREATE POLICY "permission_managers_write_permission_overrides" ON public.user_permission_overrides
+  FOR ALL TO authenticated
+  USING (public.has_permission('permissions.manage'))
+  WITH CHECK (public.has_permission('permissions.manage'));
@@ -0,0 +1,246 @@
+-- ─────────────────────────────────────────
+-- Bread type price history
+-- Every price a bread type has had, with the date it took effect, so old
+-- sales and production are valued at the price of the day instead of
+-- today's. Price changes can be scheduled ahead; sales, production logs
+-- and batches keep a copy of the price in effect when they were recorded.
+-- Requires branches.sql.
+-- ─────────────────────────────────────────
+
+-- ─────────────────────────────────────────
+-- 1. History (NULL branch = the standard price for every branch)
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.bread_type_prices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bread_type_id uuid NOT NULL REFERENCES public.bread_types(id) ON DELETE CASCADE,
+  branch_id uuid REFERENCES public.branches(id) ON DELETE CASCADE,
+  -- NULL on a branch row means the branch went back to the standard price
+  unit_price numeric CHECK (unit_price >= 0),
+  effective_from timestamptz NOT NULL DEFAULT now(),
+  note text,
+  created_by uuid REFERENCES public.users(id),
+  created_at timestamptz DEFAULT now(),
+  CHECK (unit_price IS NOT NULL OR branch_id IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS bread_type_prices_effective_key
+  ON public.bread_type_prices (
+    bread_type_id,
+    coalesce(branch_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    effective_from
+  );
+
+-- Start the history with the prices in use today
+INSERT INTO public.bread_type_prices (bread_type_id, unit_price, effective_from, created_by)
+SELECT bt.id, bt.unit_price, coalesce(bt.created_at, now()), bt.created_by
+FROM public.bread_types bt
+WHERE NOT EXISTS (SELECT 1 FROM public.bread_type_prices p WHERE p.bread_type_id = bt.id AND p.branch_id IS NULL);
+
+INSERT INTO public.bread_type_prices (bread_type_id, branch_id, unit_price, effective_from, created_by)
+SELECT bp.bread_type_id, bp.branch_id, bp.unit_price, coalesce(bp.updated_at, now()), bp.updated_by
+FROM public.branch_prices bp
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.bread_type_prices p
+  WHERE p.bread_type_id = bp.bread_type_id AND p.branch_id = bp.branch_id
+);
+
+-- ─────────────────────────────────────────
+-- 2. Price in effect at a point in time; a branch price wins over the
+--    standard one until the branch goes back to standard
+-- ─────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.bread_type_price_at(
+  p_bread_type_id uuid,
+  p_branch_id uuid,
+  p_at timestamptz DEFAULT now()
+)
+RETURNS numeric
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+  price numeric;
+BEGIN
+  IF p_branch_id IS NOT NULL THEN
+    SELECT unit_price INTO price FROM public.bread_type_prices
+    WHERE bread_type_id = p_bread_type_id AND branch_id = p_branch_id AND effective_from <= p_at
+    ORDER BY effective_from DESC
+    LIMIT 1;
+    IF price IS NOT NULL THEN
+      RETURN price;
+    END IF;
+  END IF;
+
+  SELECT unit_price INTO price FROM public.bread_type_prices
+  WHERE bread_type_id = p_bread_type_id AND branch_id IS NULL AND effective_from <= p_at
+  ORDER BY effective_from DESC
+  LIMIT 1;
+
+  RETURN coalesce(price, (SELECT unit_price FROM public.bread_types WHERE id = p_bread_type_id));
+END;
+$$;
+
+-- ─────────────────────────────────────────
+-- 3. Prices edited in place (update_bread_type_safe, branch price edits)
+--    are recorded as taking effect now
+-- ─────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.record_bread_type_price()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+  current_price numeric;
+BEGIN
+  SELECT unit_price INTO current_price FROM public.bread_type_prices
+  WHERE bread_type_id = NEW.id AND branch_id IS NULL AND effective_from <= now()
+  ORDER BY effective_from DESC
+  LIMIT 1;
+
+  -- Scheduled changes being applied are already in the history
+  IF current_price IS DISTINCT FROM NEW.unit_price THEN
+    INSERT INTO public.bread_type_prices (bread_type_id, unit_price, created_by)
+    VALUES (NEW.id, NEW.unit_price, auth.uid())
+    ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bread_types_record_price ON public.bread_types;
+CREATE TRIGGER bread_types_record_price
+  AFTER INSERT OR UPDATE OF unit_price ON public.bread_types
+  FOR EACH ROW EXECUTE FUNCTION public.record_bread_type_price();
+
+CREATE OR REPLACE FUNCTION public.record_branch_price()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+  row_data public.branch_prices;
+  new_price numeric;
+  current_price numeric;
+  has_history boolean;
+BEGIN
+  row_data := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  new_price := CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE NEW.unit_price END;
+
+  SELECT true, unit_price INTO has_history, current_price FROM public.bread_type_prices
+  WHERE bread_type_id = row_data.bread_type_id AND branch_id = row_data.branch_id AND effective_from <= now()
+  ORDER BY effective_from DESC
+  LIMIT 1;
+
+  IF NOT coalesce(has_history, false) OR current_price IS DISTINCT FROM new_price THEN
+    INSERT INTO public.bread_type_prices (bread_type_id, branch_id, unit_price, created_by)
+    VALUES (row_data.bread_type_id, row_data.branch_id, new_price, auth.uid())
+    ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN row_data;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS branch_prices_record_price ON public.branch_prices;
+CREATE TRIGGER branch_prices_record_price
+  AFTER INSERT OR UPDATE OF unit_price OR DELETE ON public.branch_prices
+  FOR EACH ROW EXECUTE FUNCTION public.record_branch_price();
+
+-- ─────────────────────────────────────────
+-- 4. Scheduled changes — copy prices that have come into effect onto
+--    bread_types / branch_prices. Called before bread types are listed;
+--    with pg_cron it can also run on a schedule:
+--    SELECT cron.schedule('apply-bread-prices', '*/15 * * * *', 'SELECT public.apply_due_bread_prices()');
+-- ─────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.apply_due_bread_prices()
+RETURNS integer
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+  applied integer := 0;
+  changed integer;
+BEGIN
+  UPDATE public.bread_types bt
+  SET unit_price = due.unit_price
+  FROM (
+    SELECT DISTINCT ON (bread_type_id) bread_type_id, unit_price
+    FROM public.bread_type_prices
+    WHERE branch_id IS NULL AND effective_from <= now()
+    ORDER BY bread_type_id, effective_from DESC
+  ) due
+  WHERE bt.id = due.bread_type_id AND bt.unit_price IS DISTINCT FROM due.unit_price;
+  GET DIAGNOSTICS changed = ROW_COUNT;
+  applied := applied + changed;
+
+  WITH due AS (
+    SELECT DISTINCT ON (bread_type_id, branch_id) bread_type_id, branch_id, unit_price
+    FROM public.bread_type_prices
+    WHERE branch_id IS NOT NULL AND effective_from <= now()
+    ORDER BY bread_type_id, branch_id, effective_from DESC
+  ),
+  removed AS (
+    DELETE FROM public.branch_prices bp
+    USING due
+    WHERE bp.bread_type_id = due.bread_type_id AND bp.branch_id = due.branch_id AND due.unit_price IS NULL
+    RETURNING bp.id
+  ),
+  upserted AS (
+    INSERT INTO public.branch_prices (branch_id, bread_type_id, unit_price, updated_at)
+    SELECT branch_id, bread_type_id, unit_price, now() FROM due
+    WHERE unit_price IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.branch_prices bp
+        WHERE bp.bread_type_id = due.bread_type_id AND bp.branch_id = due.branch_id AND bp.unit_price = due.unit_price
+      )
+    ON CONFLICT (branch_id, bread_type_id) DO UPDATE SET unit_price = EXCLUDED.unit_price, updated_at = now()
+    RETURNING id
+  )
+  SELECT (SELECT count(*) FROM removed) + (SELECT count(*) FROM upserted) INTO changed;
+
+  RETURN applied + changed;
+END;
+$$;
+
+-- ─────────────────────────────────────────
+-- 5. Price snapshots on sales and production
+-- ─────────────────────────────────────────
+ALTER TABLE public.batches ADD COLUMN IF NOT EXISTS unit_price numeric CHECK (unit_price >= 0);
+ALTER TABLE public.all_batches ADD COLUMN IF NOT EXISTS unit_price numeric CHECK (unit_price >= 0);
+
+-- A price given by the caller is what the customer was charged; otherwise
+-- take the one in effect when the row was recorded
+CREATE OR REPLACE FUNCTION public.snapshot_unit_price()
+RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF NEW.unit_price IS NULL THEN
+    NEW.unit_price := public.bread_type_price_at(NEW.bread_type_id, NEW.branch_id, coalesce(NEW.created_at, now()));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['sales_logs', 'production_logs', 'batches', 'all_batches'] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS snapshot_unit_price ON public.%I', t);
+    EXECUTE format(
+      'CREATE TRIGGER snapshot_unit_price BEFORE INSERT ON public.%I
+         FOR EACH ROW EXECUTE FUNCTION public.snapshot_unit_price()', t);
+    -- Existing rows without a price get the closest one on record
+    EXECUTE format(
+      'UPDATE public.%I SET unit_price = public.bread_type_price_at(bread_type_id, branch_id, coalesce(created_at, now()))
+         WHERE unit_price IS NULL', t);
+  END LOOP;
+END $$;
+
+-- ─────────────────────────────────────────
+-- 6. RLS — everyone reads prices, price editors schedule them
+-- ─────────────────────────────────────────
+ALTER TABLE public.bread_type_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "authenticated_read_bread_type_prices" ON public.bread_type_prices
+  FOR SELECT TO authenticated
+  USING (branch_id IS NULL OR public.is_owner(auth.uid()) OR branch_id = public.current_user_branch_id());
+
+CREATE POLICY "price_editors_write_bread_type_prices" ON public.bread_type_prices
+  FOR ALL TO authenticated
+  USING (public.has_permission('prices.edit'))
+  WITH CHECK (public.has_permission('prices.edit'));
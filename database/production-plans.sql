@@ -0,0 +1,75 @@
+-- ─────────────────────────────────────────
+-- Planned vs actual production
+-- A target quantity on every batch and a daily plan per shift that
+-- managers fill in ahead of time. Requires branches.sql and
+-- shift-schedule.sql.
+-- ─────────────────────────────────────────
+
+-- ─────────────────────────────────────────
+-- 1. Batch targets
+-- ─────────────────────────────────────────
+ALTER TABLE public.batches
+  ADD COLUMN IF NOT EXISTS target_quantity integer CHECK (target_quantity > 0);
+
+ALTER TABLE public.all_batches
+  ADD COLUMN IF NOT EXISTS target_quantity integer CHECK (target_quantity > 0);
+
+-- Batches are started with the quantity the manager aims for, so that is
+-- the target unless one is given explicitly. Existing batches keep NULL:
+-- their actual_quantity has already been overwritten on completion.
+CREATE OR REPLACE FUNCTION public.default_batch_target_quantity()
+RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF NEW.target_quantity IS NULL AND NEW.actual_quantity > 0 THEN
+    NEW.target_quantity := NEW.actual_quantity;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS batches_default_target_quantity ON public.batches;
+CREATE TRIGGER batches_default_target_quantity
+  BEFORE INSERT ON public.batches
+  FOR EACH ROW EXECUTE FUNCTION public.default_batch_target_quantity();
+
+-- ─────────────────────────────────────────
+-- 2. Daily production plan
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.production_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid NOT NULL DEFAULT public.current_user_branch_id() REFERENCES public.branches(id),
+  plan_date date NOT NULL,
+  shift text NOT NULL,
+  bread_type_id uuid NOT NULL REFERENCES public.bread_types(id) ON DELETE CASCADE,
+  planned_quantity integer NOT NULL CHECK (planned_quantity > 0),
+  created_by uuid REFERENCES public.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (branch_id, plan_date, shift, bread_type_id)
+);
+
+CREATE INDEX IF NOT EXISTS production_plans_date_idx
+  ON public.production_plans (plan_date, shift);
+
+-- Plans are for shifts in the schedule, like every other shift column
+ALTER TABLE public.production_plans DROP CONSTRAINT IF EXISTS production_plans_shift_check;
+DROP TRIGGER IF EXISTS validate_shift_key ON public.production_plans;
+CREATE TRIGGER validate_shift_key BEFORE INSERT OR UPDATE OF shift ON public.production_plans
+  FOR EACH ROW EXECUTE FUNCTION public.validate_shift_key();
+
+-- ─────────────────────────────────────────
+-- 3. RLS — everyone reads their branch's plan, managers/owners write
+-- ─────────────────────────────────────────
+ALTER TABLE public.production_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "authenticated_read_production_plans" ON public.production_plans
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "managers_write_production_plans" ON public.production_plans
+  FOR ALL TO authenticated
+  USING (public.is_manager_or_owner(auth.uid()))
+  WITH CHECK (public.is_manager_or_owner(auth.uid()));
+
+CREATE POLICY branch_isolation ON public.production_plans AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.is_owner(auth.uid()) OR branch_id = public.current_user_branch_id());
@@ -0,0 +1,109 @@
+-- ─────────────────────────────────────────
+-- Promotions
+-- Owner-defined offers that the sales screens apply on their own in place
+-- of a discount typed in by the rep: buy N get M free, a percentage off,
+-- bulk price tiers and time-of-day clearance of leftovers. Each sale keeps
+-- the promotion that priced it so offers can be measured. Requires
+-- branches.sql, payment-methods.sql and shift-schedule.sql.
+-- ─────────────────────────────────────────
+
+-- ─────────────────────────────────────────
+-- 1. Promotions (NULL branch = every branch, NULL bread type = every bread)
+--    tiers is a list of {"min_quantity": 10, "unit_price": 450}; the
+--    highest tier the quantity reaches sets the price of every loaf.
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.promotions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid REFERENCES public.branches(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('buy_x_get_y', 'percent_off', 'bulk_tier', 'clearance')),
+  bread_type_id uuid REFERENCES public.bread_types(id) ON DELETE CASCADE,
+  buy_quantity integer CHECK (buy_quantity > 0),
+  free_quantity integer CHECK (free_quantity > 0),
+  percent_off numeric(5,2) CHECK (percent_off > 0 AND percent_off <= 100),
+  tiers jsonb NOT NULL DEFAULT '[]'::jsonb,
+  shift text, -- NULL = every shift
+  -- Time of day the promotion runs; an end before the start runs past midnight
+  start_time time,
+  end_time time,
+  valid_from date,
+  valid_to date,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES public.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (kind <> 'buy_x_get_y' OR (buy_quantity IS NOT NULL AND free_quantity IS NOT NULL)),
+  CHECK (kind NOT IN ('percent_off', 'clearance') OR percent_off IS NOT NULL),
+  CHECK (kind <> 'bulk_tier' OR jsonb_array_length(tiers) > 0),
+  CHECK (kind <> 'clearance' OR start_time IS NOT NULL),
+  CHECK ((start_time IS NULL) = (end_time IS NULL)),
+  CHECK (valid_to IS NULL OR valid_from IS NULL OR valid_to >= valid_from)
+);
+
+CREATE INDEX IF NOT EXISTS promotions_active_idx ON public.promotions (is_active, branch_id);
+
+ALTER TABLE public.promotions DROP CONSTRAINT IF EXISTS promotions_shift_check;
+DROP TRIGGER IF EXISTS validate_shift_key ON public.promotions;
+CREATE TRIGGER validate_shift_key BEFORE INSERT OR UPDATE OF shift ON public.promotions
+  FOR EACH ROW EXECUTE FUNCTION public.validate_shift_key();
+
+-- ─────────────────────────────────────────
+-- 2. The promotion each sale was priced with
+-- ─────────────────────────────────────────
+ALTER TABLE public.sales_logs
+  ADD COLUMN IF NOT EXISTS promotion_id uuid REFERENCES public.promotions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS sales_logs_promotion_idx ON public.sales_logs (promotion_id)
+  WHERE promotion_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.set_sale_promotion(
+  p_sale_id uuid,
+  p_promotion_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_sale public.sales_logs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_sale FROM public.sales_logs WHERE id = p_sale_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found';
+  END IF;
+  IF v_sale.recorded_by IS DISTINCT FROM auth.uid() AND NOT public.has_permission('sales.void') THEN
+    RAISE EXCEPTION 'You can only set the promotion of your own sales';
+  END IF;
+  IF p_promotion_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.promotions
+    WHERE id = p_promotion_id
+      AND (branch_id IS NULL OR branch_id = v_sale.branch_id)
+      AND (bread_type_id IS NULL OR bread_type_id = v_sale.bread_type_id)
+  ) THEN
+    RAISE EXCEPTION 'This promotion does not apply to the sale';
+  END IF;
+
+  UPDATE public.sales_logs
+  SET promotion_id = p_promotion_id,
+      updated_at = now()
+  WHERE id = p_sale_id;
+END;
+$$;
+
+-- ─────────────────────────────────────────
+-- 3. RLS — staff read the promotions for their branch, owners (or anyone
+--    granted promotions.manage) set them up
+-- ─────────────────────────────────────────
+ALTER TABLE public.promotions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "authenticated_read_promotions" ON public.promotions
+  FOR SELECT TO authenticated
+  USING (branch_id IS NULL OR public.is_owner(auth.uid()) OR branch_id = public.current_user_branch_id());
+
+CREATE POLICY "promotion_managers_write_promotions" ON public.promotions
+  FOR ALL TO authenticated
+  USING (public.has_permission('promotions.manage'))
+  WITH CHECK (public.has_permission('promotions.manage'));
+
+-- Promotions for every branch are owner-only
+CREATE POLICY branch_isolation ON public.promotions AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.is_owner(auth.uid()) OR branch_id IS NULL OR branch_id = public.current_user_branch_id())
+  WITH CHECK (public.is_owner(auth.uid()) OR branch_id = public.current_user_branch_id());
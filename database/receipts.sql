@@ -0,0 +1,95 @@
+-- ─────────────────────────────────────────
+-- Receipts
+-- A numbered receipt for one sale or a group of sales rung up together.
+-- The number is given the first time a receipt is printed or shared and
+-- reprints reuse it. Requires branches.sql and payment-methods.sql.
+-- ─────────────────────────────────────────
+
+-- ─────────────────────────────────────────
+-- 1. Receipts
+-- ─────────────────────────────────────────
+CREATE SEQUENCE IF NOT EXISTS public.receipt_number_seq;
+
+CREATE TABLE IF NOT EXISTS public.receipts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_number text NOT NULL UNIQUE
+    DEFAULT 'R-' || lpad(nextval('public.receipt_number_seq')::text, 6, '0'),
+  branch_id uuid DEFAULT public.current_user_branch_id() REFERENCES public.branches(id),
+  issued_by uuid REFERENCES public.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.sales_logs
+  ADD COLUMN IF NOT EXISTS receipt_id uuid REFERENCES public.receipts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS sales_logs_receipt_idx ON public.sales_logs (receipt_id)
+  WHERE receipt_id IS NOT NULL;
+
+-- ─────────────────────────────────────────
+-- 2. Issue (or find) the receipt for a set of sales
+--    Sales already on a receipt get that receipt back, so a reprint
+--    keeps its number. A sale can only be on one receipt.
+-- ─────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.issue_receipt(p_sale_ids uuid[])
+RETURNS uuid
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_found integer;
+  v_branches integer;
+  v_receipts uuid[];
+  v_unreceipted integer;
+  v_branch_id uuid;
+  v_receipt_id uuid;
+BEGIN
+  IF p_sale_ids IS NULL OR array_length(p_sale_ids, 1) IS NULL THEN
+    RAISE EXCEPTION 'Choose at least one sale';
+  END IF;
+
+  PERFORM 1 FROM public.sales_logs WHERE id = ANY(p_sale_ids) FOR UPDATE;
+
+  SELECT
+    count(*),
+    count(DISTINCT branch_id),
+    array_agg(DISTINCT receipt_id) FILTER (WHERE receipt_id IS NOT NULL),
+    count(*) FILTER (WHERE receipt_id IS NULL),
+    min(branch_id::text)::uuid
+  INTO v_found, v_branches, v_receipts, v_unreceipted, v_branch_id
+  FROM public.sales_logs
+  WHERE id = ANY(p_sale_ids)
+    AND (recorded_by = auth.uid() OR public.has_permission('sales.view_all'))
+    AND (public.is_owner(auth.uid()) OR branch_id = public.current_user_branch_id());
+
+  IF v_found <> array_length(p_sale_ids, 1) THEN
+    RAISE EXCEPTION 'Sale not found';
+  END IF;
+  IF v_branches > 1 THEN
+    RAISE EXCEPTION 'A receipt can only cover sales from one branch';
+  END IF;
+
+  IF v_receipts IS NOT NULL THEN
+    IF array_length(v_receipts, 1) > 1 OR v_unreceipted > 0 THEN
+      RAISE EXCEPTION 'Some of these sales are already on another receipt';
+    END IF;
+    RETURN v_receipts[1];
+  END IF;
+
+  INSERT INTO public.receipts (branch_id, issued_by)
+  VALUES (v_branch_id, auth.uid())
+  RETURNING id INTO v_receipt_id;
+
+  UPDATE public.sales_logs SET receipt_id = v_receipt_id WHERE id = ANY(p_sale_ids);
+
+  RETURN v_receipt_id;
+END;
+$$;
+
+-- ─────────────────────────────────────────
+-- 3. RLS — receipts are written through issue_receipt only
+-- ─────────────────────────────────────────
+ALTER TABLE public.receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "authenticated_read_receipts" ON public.receipts
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY branch_isolation ON public.receipts AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.is_owner(auth.uid()) OR branch_id = public.current_user_branch_id());
@@ -0,0 +1,292 @@
+-- ─────────────────────────────────────────
+-- Sales voids and refunds
+-- A void cancels a mistaken sale; a refund gives money back for some
+-- or all of a sale's loaves. Each one is kept as an audit row, puts
+-- restocked loaves back through inventory_logs and available_stock,
+-- and above the approval threshold needs a manager's PIN unless the
+-- person recording it can void sales themselves. Requires
+-- branches.sql (for adjust_available_stock) and permissions.sql.
+-- ─────────────────────────────────────────
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- ─────────────────────────────────────────
+-- 1. Voids and refunds
+--    sale_id is cleared when sales logs are cleared at the end of a
+--    shift; the copied sale details keep the audit trail readable.
+--    shift is copied from the sale, which was checked against the
+--    schedule when it was recorded.
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.sale_voids (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid DEFAULT public.current_user_branch_id() REFERENCES public.branches(id),
+  sale_id uuid REFERENCES public.sales_logs(id) ON DELETE SET NULL,
+  kind text NOT NULL CHECK (kind IN ('void', 'refund')),
+  bread_type_id uuid NOT NULL REFERENCES public.bread_types(id),
+  shift text NOT NULL,
+  sold_by uuid NOT NULL REFERENCES public.users(id),
+  quantity integer NOT NULL CHECK (quantity > 0),
+  amount numeric(12,2) NOT NULL CHECK (amount >= 0),
+  reason text NOT NULL CHECK (length(trim(reason)) > 0),
+  restocked boolean NOT NULL DEFAULT true,
+  recorded_by uuid NOT NULL REFERENCES public.users(id),
+  approved_by uuid REFERENCES public.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS sale_voids_sale_idx ON public.sale_voids (sale_id);
+CREATE INDEX IF NOT EXISTS sale_voids_created_idx ON public.sale_voids (created_at DESC);
+
+ALTER TABLE public.sale_voids DROP CONSTRAINT IF EXISTS sale_voids_shift_check;
+
+-- ─────────────────────────────────────────
+-- 2. Approval settings and PINs
+--    One settings row. PINs live in their own table with no policies
+--    so hashes are only ever read by the functions below, as are the
+--    wrong PINs entered, which lock out guessing.
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.sale_void_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  approval_threshold numeric(12,2) NOT NULL DEFAULT 5000 CHECK (approval_threshold >= 0),
+  updated_by uuid REFERENCES public.users(id),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO public.sale_void_settings (id) VALUES (true) ON CONFLICT DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.approval_pins (
+  user_id uuid PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  pin_hash text NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.approval_pin_failures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  approver_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  attempted_by uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS approval_pin_failures_approver_idx
+  ON public.approval_pin_failures (approver_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS approval_pin_failures_attempted_by_idx
+  ON public.approval_pin_failures (attempted_by, created_at DESC);
+
+-- ─────────────────────────────────────────
+-- 3. Functions
+-- ─────────────────────────────────────────
+-- Same rules as current_user_permissions(), for any user
+CREATE OR REPLACE FUNCTION public.user_has_permission(uid uuid, perm text)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.users u
+    WHERE u.id = uid AND u.is_active
+      AND (
+        u.role = 'owner'
+        OR coalesce(
+             (SELECT o.granted FROM public.user_permission_overrides o
+               WHERE o.user_id = u.id AND o.permission = perm),
+             EXISTS (SELECT 1 FROM public.role_permissions rp
+                      WHERE rp.role = u.role AND rp.permission = perm)
+           )
+      )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_approval_pin(p_pin text)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions AS $$
+BEGIN
+  IF NOT public.has_permission('sales.void') THEN
+    RAISE EXCEPTION 'Only staff who can void sales can set an approval PIN';
+  END IF;
+  IF p_pin !~ '^\d{4,6}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 6 digits';
+  END IF;
+
+  INSERT INTO public.approval_pins (user_id, pin_hash, updated_at)
+  VALUES (auth.uid(), crypt(p_pin, gen_salt('bf')), now())
+  ON CONFLICT (user_id) DO UPDATE
+    SET pin_hash = EXCLUDED.pin_hash, updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_approval_pin()
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (SELECT 1 FROM public.approval_pins WHERE user_id = auth.uid());
+$$;
+
+-- Owners, and managers of the branch, who can void sales
+CREATE OR REPLACE FUNCTION public.can_approve_sale_void(uid uuid, p_branch_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT public.user_has_permission(uid, 'sales.void') AND EXISTS (
+    SELECT 1 FROM public.users u
+    WHERE u.id = uid
+      AND (u.role = 'owner' OR (u.role = 'manager' AND u.branch_id IS NOT DISTINCT FROM p_branch_id))
+  );
+$$;
+
+-- Staff who can approve a void or refund right now
+CREATE OR REPLACE FUNCTION public.sale_void_approvers()
+RETURNS TABLE (id uuid, name text)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT u.id, u.name
+  FROM public.users u
+  JOIN public.approval_pins p ON p.user_id = u.id
+  WHERE public.can_approve_sale_void(u.id, public.current_user_branch_id())
+  ORDER BY u.name;
+$$;
+
+-- Void or refund a sale in one transaction. A void covers every loaf
+-- not already refunded; a refund covers p_quantity of them. Returns
+-- the new sale_voids id, or null when the approval PIN is wrong: the
+-- failed attempt has to be kept, so it can't be raised as an error.
+-- Five wrong PINs in 15 minutes, for the approver or from the caller,
+-- lock approvals out until the oldest of them ages out.
+CREATE OR REPLACE FUNCTION public.record_sale_void(
+  p_sale_id uuid,
+  p_kind text,
+  p_quantity integer,
+  p_reason text,
+  p_restock boolean DEFAULT true,
+  p_approver_id uuid DEFAULT NULL,
+  p_approver_pin text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions AS $$
+DECLARE
+  v_sale public.sales_logs%ROWTYPE;
+  v_caller uuid := auth.uid();
+  v_can_void boolean := public.has_permission('sales.void');
+  v_already integer;
+  v_quantity integer;
+  v_amount numeric(12,2);
+  v_threshold numeric(12,2);
+  v_approved_by uuid;
+  v_restock boolean := p_kind = 'void' OR coalesce(p_restock, true);
+  v_id uuid;
+BEGIN
+  IF p_kind NOT IN ('void', 'refund') THEN
+    RAISE EXCEPTION 'Unknown adjustment type: %', p_kind;
+  END IF;
+  IF length(trim(coalesce(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  SELECT * INTO v_sale FROM public.sales_logs WHERE id = p_sale_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found';
+  END IF;
+  IF NOT public.is_owner(v_caller) AND v_sale.branch_id IS DISTINCT FROM public.current_user_branch_id() THEN
+    RAISE EXCEPTION 'Sale belongs to another branch';
+  END IF;
+  IF NOT v_can_void AND v_sale.recorded_by IS DISTINCT FROM v_caller THEN
+    RAISE EXCEPTION 'You can only void or refund your own sales';
+  END IF;
+
+  SELECT coalesce(sum(quantity), 0) INTO v_already
+  FROM public.sale_voids WHERE sale_id = p_sale_id;
+
+  v_quantity := CASE WHEN p_kind = 'void' THEN v_sale.quantity - v_already ELSE p_quantity END;
+  IF v_quantity IS NULL OR v_quantity <= 0 OR v_already + v_quantity > v_sale.quantity THEN
+    RAISE EXCEPTION 'Only % of this sale can still be voided or refunded', v_sale.quantity - v_already;
+  END IF;
+
+  -- Discount is shared evenly across the loaves in the sale
+  v_amount := round(
+    (v_sale.quantity * coalesce(v_sale.unit_price, 0) - coalesce(v_sale.discount, 0))
+      * v_quantity / v_sale.quantity,
+    2
+  );
+
+  SELECT approval_threshold INTO v_threshold FROM public.sale_void_settings WHERE id;
+
+  IF v_can_void THEN
+    v_approved_by := v_caller;
+  ELSIF v_amount > coalesce(v_threshold, 0) THEN
+    IF p_approver_id IS NULL OR p_approver_pin IS NULL THEN
+      RAISE EXCEPTION 'Manager approval is required above %', v_threshold;
+    END IF;
+    IF NOT public.can_approve_sale_void(p_approver_id, v_sale.branch_id) THEN
+      RAISE EXCEPTION 'Approval must come from an owner or a manager of this branch';
+    END IF;
+    IF (
+      SELECT count(*) FROM public.approval_pin_failures
+      WHERE (approver_id = p_approver_id OR attempted_by = v_caller)
+        AND created_at > now() - interval '15 minutes'
+    ) >= 5 THEN
+      RAISE EXCEPTION 'Too many incorrect PINs. Try again in 15 minutes';
+    END IF;
+    IF NOT EXISTS (
+      SELECT 1 FROM public.approval_pins
+      WHERE user_id = p_approver_id AND pin_hash = crypt(p_approver_pin, pin_hash)
+    ) THEN
+      INSERT INTO public.approval_pin_failures (approver_id, attempted_by)
+      VALUES (p_approver_id, v_caller);
+      RETURN NULL;
+    END IF;
+    v_approved_by := p_approver_id;
+  END IF;
+
+  INSERT INTO public.sale_voids (
+    branch_id, sale_id, kind, bread_type_id, shift, sold_by,
+    quantity, amount, reason, restocked, recorded_by, approved_by
+  ) VALUES (
+    v_sale.branch_id, v_sale.id, p_kind, v_sale.bread_type_id, v_sale.shift, v_sale.recorded_by,
+    v_quantity, v_amount, trim(p_reason), v_restock, v_caller, v_approved_by
+  )
+  RETURNING id INTO v_id;
+
+  IF v_restock THEN
+    INSERT INTO public.inventory_logs (
+      branch_id, bread_type_id, quantity_change, reason, reference_id, shift, user_id, notes
+    ) VALUES (
+      v_sale.branch_id, v_sale.bread_type_id, v_quantity,
+      CASE WHEN p_kind = 'void' THEN 'sale_void' ELSE 'sale_refund' END,
+      v_id, v_sale.shift, v_caller, trim(p_reason)
+    );
+
+    PERFORM public.adjust_available_stock(v_sale.branch_id, v_sale.bread_type_id, v_quantity);
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+-- ─────────────────────────────────────────
+-- 4. Shift reports keep voids apart from sales
+-- ─────────────────────────────────────────
+ALTER TABLE public.shift_reports
+  ADD COLUMN IF NOT EXISTS total_voided numeric(12,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS voids_data jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- ─────────────────────────────────────────
+-- 5. RLS — rows are only written through record_sale_void()
+-- ─────────────────────────────────────────
+ALTER TABLE public.sale_voids ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sale_void_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_pins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_pin_failures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "staff_read_sale_voids" ON public.sale_voids
+  FOR SELECT TO authenticated
+  USING (
+    sold_by = auth.uid()
+    OR recorded_by = auth.uid()
+    OR public.has_permission('sales.void')
+    OR public.has_permission('reports.view')
+  );
+
+CREATE POLICY branch_isolation ON public.sale_voids AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.is_owner(auth.uid()) OR branch_id = public.current_user_branch_id());
+
+CREATE POLICY "authenticated_read_sale_void_settings" ON public.sale_void_settings
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "owners_write_sale_void_settings" ON public.sale_void_settings
+  FOR UPDATE TO authenticated
+  USING (public.is_owner(auth.uid()))
+  WITH CHECK (public.is_owner(auth.uid()));
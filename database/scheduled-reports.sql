@@ -0,0 +1,71 @@
+-- ─────────────────────────────────────────
+-- Scheduled report emails
+-- Reports mailed to a recipient on a schedule: yesterday's shift summary
+-- every morning, last week's sales on Mondays and last month's P&L on the
+-- 1st. The hourly job (/api/cron/scheduled-reports) sends whatever is due
+-- with the service role and logs every attempt. Requires permissions.sql.
+-- ─────────────────────────────────────────
+
+-- ─────────────────────────────────────────
+-- 1. Schedules, one per recipient per report
+--    last_period_key is the last period sent (2026-10-18, 2026-10-12 for the
+--    week starting that Monday, 2026-09) so a period is only mailed once.
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.report_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN ('daily_shift_summary', 'weekly_sales', 'monthly_pnl')),
+  recipient_email text NOT NULL CHECK (recipient_email ~* '^[^@\s]+@[^@\s]+\.[^@\s]+$'),
+  recipient_name text,
+  attachment_format text NOT NULL DEFAULT 'pdf' CHECK (attachment_format IN ('pdf', 'xlsx', 'none')),
+  -- Local hour (in the shift schedule's time zone) from which the report goes out
+  send_hour integer NOT NULL DEFAULT 7 CHECK (send_hour BETWEEN 0 AND 23),
+  is_active boolean NOT NULL DEFAULT true,
+  last_period_key text,
+  last_sent_at timestamptz,
+  created_by uuid REFERENCES public.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (kind, recipient_email)
+);
+
+CREATE INDEX IF NOT EXISTS report_schedules_active_idx ON public.report_schedules (is_active);
+
+-- ─────────────────────────────────────────
+-- 2. Delivery log, one row per attempt
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.report_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id uuid REFERENCES public.report_schedules(id) ON DELETE SET NULL,
+  kind text NOT NULL,
+  recipient_email text NOT NULL,
+  period_key text NOT NULL,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'failed')),
+  transport text NOT NULL,
+  message_id text,
+  error text,
+  -- Sent from the dashboard rather than by the hourly job
+  manual boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS report_deliveries_created_at_idx
+  ON public.report_deliveries (created_at DESC);
+
+-- ─────────────────────────────────────────
+-- 3. RLS — owners (or anyone granted reports.schedule) manage schedules
+--    and read the log; sending (hourly or from the dashboard) writes it
+--    with the service role
+-- ─────────────────────────────────────────
+ALTER TABLE public.report_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.report_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "report_schedulers_manage_report_schedules" ON public.report_schedules
+  FOR ALL TO authenticated
+  USING (public.has_permission('reports.schedule'))
+  WITH CHECK (public.has_permission('reports.schedule'));
+
+CREATE POLICY "report_schedulers_read_report_deliveries" ON public.report_deliveries
+  FOR SELECT TO authenticated
+  USING (public.has_permission('reports.schedule'));
@@ -0,0 +1,89 @@
+-- ─────────────────────────────────────────
+-- Shift handovers
+-- The outgoing manager ends a shift by handing it over: the batches still
+-- in the oven, the stock left on the shelves, quality issues and notes.
+-- The incoming manager acknowledges the handover before production moves
+-- to the next shift. Uses the existing shift_handovers table. Requires
+-- branches.sql and permissions.sql.
+-- ─────────────────────────────────────────
+
+-- ─────────────────────────────────────────
+-- 1. What was handed over and who took it over
+--    pending_batch_details: [{"batch_id", "batch_number", "bread_type_name", "target_quantity"}]
+--    remaining_stock: [{"bread_type_id", "bread_type_name", "quantity"}], as counted
+-- ─────────────────────────────────────────
+ALTER TABLE public.shift_handovers
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'acknowledged')),
+  ADD COLUMN IF NOT EXISTS pending_batch_details jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS remaining_stock jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS acknowledged_by uuid REFERENCES public.users(id),
+  ADD COLUMN IF NOT EXISTS acknowledged_at timestamptz,
+  ADD COLUMN IF NOT EXISTS acknowledgement_notes text;
+
+-- Handovers recorded before this file have nobody waiting on them
+UPDATE public.shift_handovers
+SET status = 'acknowledged', acknowledged_at = COALESCE(acknowledged_at, created_at)
+WHERE acknowledged_at IS NULL AND created_at < now() - interval '1 day';
+
+-- One open handover per branch at a time
+CREATE UNIQUE INDEX IF NOT EXISTS shift_handovers_one_pending_idx
+  ON public.shift_handovers (branch_id) WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS shift_handovers_created_at_idx
+  ON public.shift_handovers (branch_id, created_at DESC);
+
+-- ─────────────────────────────────────────
+-- 2. Acknowledging a handover
+-- ─────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.acknowledge_shift_handover(
+  p_handover_id uuid,
+  p_notes text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_handover public.shift_handovers%ROWTYPE;
+BEGIN
+  IF NOT public.has_permission('shifts.handover') THEN
+    RAISE EXCEPTION 'You do not have permission to take over shifts';
+  END IF;
+
+  SELECT * INTO v_handover FROM public.shift_handovers WHERE id = p_handover_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Handover not found';
+  END IF;
+  IF NOT public.is_owner(auth.uid()) AND v_handover.branch_id IS DISTINCT FROM public.current_user_branch_id() THEN
+    RAISE EXCEPTION 'This handover belongs to another branch';
+  END IF;
+  IF v_handover.status <> 'pending' THEN
+    RAISE EXCEPTION 'This handover has already been acknowledged';
+  END IF;
+
+  UPDATE public.shift_handovers
+  SET status = 'acknowledged',
+      acknowledged_by = auth.uid(),
+      acknowledged_at = now(),
+      acknowledgement_notes = NULLIF(btrim(p_notes), '')
+  WHERE id = p_handover_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.acknowledge_shift_handover(uuid, text) TO authenticated;
+
+-- ─────────────────────────────────────────
+-- 3. RLS — branch_isolation (branches.sql) keeps handovers in their branch;
+--    anyone who hands over shifts sees the history and writes their own.
+--    Acknowledging goes through the function above.
+-- ─────────────────────────────────────────
+ALTER TABLE public.shift_handovers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "shift_handovers_read" ON public.shift_handovers;
+CREATE POLICY "shift_handovers_read" ON public.shift_handovers
+  FOR SELECT TO authenticated
+  USING (public.has_permission('shifts.handover') OR public.has_permission('reports.view'));
+
+DROP POLICY IF EXISTS "shift_handovers_insert_own" ON public.shift_handovers;
+CREATE POLICY "shift_handovers_insert_own" ON public.shift_handovers
+  FOR INSERT TO authenticated
+  WITH CHECK (manager_id = auth.uid() AND status = 'pending' AND public.has_permission('shifts.handover'));
@@ -0,0 +1,155 @@
+-- ─────────────────────────────────────────
+-- Configurable shift schedule
+-- Replaces the hard-coded 10:00/22:00 Africa/Lagos boundaries with a
+-- persisted schedule the app and database both read.
+-- ─────────────────────────────────────────
+
+-- ─────────────────────────────────────────
+-- 1. Schedule + closures
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.shift_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL DEFAULT 'Default schedule',
+  timezone text NOT NULL DEFAULT 'Africa/Lagos',
+  -- [{ "key": "morning", "label": "Morning", "start_time": "10:00" }, ...]
+  shifts jsonb NOT NULL DEFAULT '[
+    {"key": "morning", "label": "Morning", "start_time": "10:00"},
+    {"key": "night", "label": "Night", "start_time": "22:00"}
+  ]'::jsonb,
+  -- { "0": [...shifts for Sunday], "6": [...shifts for Saturday] }
+  weekday_overrides jsonb NOT NULL DEFAULT '{}'::jsonb,
+  is_active boolean NOT NULL DEFAULT true,
+  updated_by uuid REFERENCES public.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Only one active schedule at a time
+CREATE UNIQUE INDEX IF NOT EXISTS shift_schedules_one_active
+  ON public.shift_schedules (is_active) WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS public.shift_closures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id uuid NOT NULL REFERENCES public.shift_schedules(id) ON DELETE CASCADE,
+  closure_date date NOT NULL,
+  reason text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (schedule_id, closure_date)
+);
+
+INSERT INTO public.shift_schedules (name)
+SELECT 'Default schedule'
+WHERE NOT EXISTS (SELECT 1 FROM public.shift_schedules WHERE is_active);
+
+-- ─────────────────────────────────────────
+-- 2. RLS — everyone reads, owners write
+-- ─────────────────────────────────────────
+ALTER TABLE public.shift_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shift_closures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "authenticated_read_shift_schedules" ON public.shift_schedules
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "owners_write_shift_schedules" ON public.shift_schedules
+  FOR ALL TO authenticated
+  USING (auth.uid() IN (SELECT id FROM public.users WHERE role = 'owner'))
+  WITH CHECK (auth.uid() IN (SELECT id FROM public.users WHERE role = 'owner'));
+
+CREATE POLICY "authenticated_read_shift_closures" ON public.shift_closures
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "owners_write_shift_closures" ON public.shift_closures
+  FOR ALL TO authenticated
+  USING (auth.uid() IN (SELECT id FROM public.users WHERE role = 'owner'))
+  WITH CHECK (auth.uid() IN (SELECT id FROM public.users WHERE role = 'owner'));
+
+-- ─────────────────────────────────────────
+-- 3. Shift columns validate against the schedule
+-- ─────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.active_shift_keys()
+RETURNS text[]
+LANGUAGE sql STABLE SECURITY INVOKER AS $$
+  SELECT coalesce(array_agg(DISTINCT s ->> 'key'), ARRAY['morning', 'night'])
+  FROM public.shift_schedules sch,
+       LATERAL (
+         SELECT jsonb_array_elements(sch.shifts)
+         UNION ALL
+         SELECT jsonb_array_elements(o.value)
+         FROM jsonb_each(sch.weekday_overrides) o
+       ) AS all_shifts(s)
+  WHERE sch.is_active;
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_shift_key()
+RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF NEW.shift IS NOT NULL AND NOT (NEW.shift = ANY (public.active_shift_keys())) THEN
+    RAISE EXCEPTION 'Unknown shift "%" for table %', NEW.shift, TG_TABLE_NAME;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'batches', 'all_batches', 'sales_logs', 'production_logs', 'remaining_bread',
+    'shift_reports', 'shift_feedback', 'inventory_logs', 'activities'
+  ] LOOP
+    EXECUTE format('ALTER TABLE public.%I DROP CONSTRAINT IF EXISTS %I', t, t || '_shift_check');
+    EXECUTE format('DROP TRIGGER IF EXISTS validate_shift_key ON public.%I', t);
+    EXECUTE format(
+      'CREATE TRIGGER validate_shift_key BEFORE INSERT OR UPDATE OF shift ON public.%I
+         FOR EACH ROW EXECUTE FUNCTION public.validate_shift_key()', t);
+  END LOOP;
+END $$;
+
+-- ─────────────────────────────────────────
+-- 4. Current shift from the schedule (replaces get_current_shift_nigeria)
+-- ─────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.get_current_shift()
+RETURNS text
+LANGUAGE plpgsql STABLE AS $$
+DECLARE
+  sch public.shift_schedules;
+  local_now timestamp;
+  day_shifts jsonb;
+  result text;
+BEGIN
+  SELECT * INTO sch FROM public.shift_schedules WHERE is_active LIMIT 1;
+  IF NOT FOUND THEN
+    RETURN public.get_current_shift_nigeria();
+  END IF;
+
+  local_now := now() AT TIME ZONE sch.timezone;
+  day_shifts := coalesce(
+    sch.weekday_overrides -> extract(dow FROM local_now)::int::text,
+    sch.shifts
+  );
+
+  -- Latest shift that has already started today; before the first start we
+  -- are still in the last shift of the previous day.
+  SELECT s ->> 'key' INTO result
+  FROM jsonb_array_elements(day_shifts) s
+  WHERE (s ->> 'start_time')::time <= local_now::time
+  ORDER BY (s ->> 'start_time')::time DESC
+  LIMIT 1;
+
+  IF result IS NULL THEN
+    day_shifts := coalesce(
+      sch.weekday_overrides -> extract(dow FROM local_now - interval '1 day')::int::text,
+      sch.shifts
+    );
+
+    SELECT s ->> 'key' INTO result
+    FROM jsonb_array_elements(day_shifts) s
+    ORDER BY (s ->> 'start_time')::time DESC
+    LIMIT 1;
+  END IF;
+
+  RETURN result;
+END;
+$$;
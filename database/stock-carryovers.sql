@@ -0,0 +1,248 @@
+-- ─────────────────────────────────────────
+-- Stock carry-over between shifts
+-- At the end of a shift the manager counts what is left and says what
+-- happens to each loaf: carried into the next shift at full price,
+-- carried at a discount, set aside as stale, or discarded. Every loaf
+-- moved or written off goes through inventory_logs, and remaining_bread
+-- is left holding exactly what was carried. Requires branches.sql,
+-- permissions.sql and shift-schedule.sql.
+-- ─────────────────────────────────────────
+
+-- ─────────────────────────────────────────
+-- 1. Carry-overs and what each one moved
+--    One carry-over per branch, shift and schedule date. The shift keys
+--    are checked against the branch schedule when the carry-over is
+--    recorded; old rows keep whatever keys the schedule had then.
+--    unit_price is what the loaves are valued at: the discounted price
+--    for discounted loaves, the branch price for everything else.
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.stock_carryovers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid DEFAULT public.current_user_branch_id() REFERENCES public.branches(id),
+  carryover_date date NOT NULL,
+  from_shift text NOT NULL,
+  to_shift text NOT NULL,
+  recorded_by uuid NOT NULL REFERENCES public.users(id),
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (branch_id, carryover_date, from_shift)
+);
+
+ALTER TABLE public.stock_carryovers DROP CONSTRAINT IF EXISTS stock_carryovers_from_shift_check;
+ALTER TABLE public.stock_carryovers DROP CONSTRAINT IF EXISTS stock_carryovers_to_shift_check;
+
+CREATE INDEX IF NOT EXISTS stock_carryovers_created_idx
+  ON public.stock_carryovers (branch_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.stock_carryover_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  carryover_id uuid NOT NULL REFERENCES public.stock_carryovers(id) ON DELETE CASCADE,
+  bread_type_id uuid NOT NULL REFERENCES public.bread_types(id),
+  disposition text NOT NULL CHECK (disposition IN ('carried', 'discounted', 'stale', 'discarded')),
+  quantity integer NOT NULL CHECK (quantity > 0),
+  unit_price numeric(12,2) NOT NULL CHECK (unit_price >= 0),
+  UNIQUE (carryover_id, bread_type_id, disposition)
+);
+
+CREATE INDEX IF NOT EXISTS stock_carryover_items_carryover_idx
+  ON public.stock_carryover_items (carryover_id);
+
+-- ─────────────────────────────────────────
+-- 2. The shift after another in a branch's schedule
+--    Every shift the schedule can run (default list plus weekday
+--    overrides) in start-time order, wrapping from the last to the
+--    first, as getAdjacentShiftKey does in the app. NULL when the
+--    schedule has no such shift.
+-- ─────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.next_shift_key(p_branch_id uuid, p_shift text)
+RETURNS text
+LANGUAGE sql STABLE AS $$
+  WITH sch AS (
+    -- The branch schedule wins over the default one
+    SELECT shifts, weekday_overrides FROM public.shift_schedules
+    WHERE is_active AND (branch_id IS NULL OR branch_id = p_branch_id)
+    ORDER BY branch_id NULLS LAST
+    LIMIT 1
+  ),
+  all_shifts AS (
+    SELECT s, 0 AS list_order FROM sch, jsonb_array_elements(sch.shifts) s
+    UNION ALL
+    SELECT s, 1 FROM sch, jsonb_each(sch.weekday_overrides) o, jsonb_array_elements(o.value) s
+    UNION ALL
+    SELECT s, 2
+    FROM jsonb_array_elements('[{"key": "morning", "start_time": "10:00"}, {"key": "night", "start_time": "22:00"}]') s
+    WHERE NOT EXISTS (SELECT 1 FROM sch)
+  ),
+  definitions AS (
+    SELECT DISTINCT ON (s ->> 'key') s ->> 'key' AS key, (s ->> 'start_time')::time AS start_time
+    FROM all_shifts
+    ORDER BY s ->> 'key', list_order
+  ),
+  ordered AS (
+    SELECT key,
+           lead(key) OVER (ORDER BY start_time) AS next_key,
+           first_value(key) OVER (ORDER BY start_time) AS first_key
+    FROM definitions
+  )
+  SELECT coalesce(next_key, first_key) FROM ordered WHERE key = p_shift;
+$$;
+
+-- ─────────────────────────────────────────
+-- 3. Recording a carry-over
+--    p_items: [{"bread_type_id", "disposition", "quantity", "unit_price"}]
+--    unit_price is only read for discounted loaves. A bread type cannot
+--    be given more loaves than the branch has in stock. Returns the new
+--    stock_carryovers id.
+-- ─────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.record_stock_carryover(
+  p_from_shift text,
+  p_carryover_date date,
+  p_items jsonb,
+  p_notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_branch_id uuid := public.current_user_branch_id();
+  v_to_shift text;
+  v_id uuid;
+  v_item jsonb;
+  v_bread_type_id uuid;
+  v_disposition text;
+  v_quantity integer;
+  v_full_price numeric(12,2);
+  v_price numeric(12,2);
+  v_bread_type_name text;
+  v_in_stock integer;
+BEGIN
+  IF NOT public.has_permission('inventory.carry_over') THEN
+    RAISE EXCEPTION 'You do not have permission to carry stock over';
+  END IF;
+  v_to_shift := public.next_shift_key(v_branch_id, p_from_shift);
+  IF v_to_shift IS NULL THEN
+    RAISE EXCEPTION 'Unknown shift: %', p_from_shift;
+  END IF;
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Items must be a list';
+  END IF;
+
+  -- Every disposition comes out of the branch's stock, so together they
+  -- cannot be more than it holds
+  SELECT bt.name, i.total, coalesce(st.quantity, 0)
+  INTO v_bread_type_name, v_quantity, v_in_stock
+  FROM (
+    SELECT (value ->> 'bread_type_id')::uuid AS bread_type_id,
+           sum(greatest(coalesce((value ->> 'quantity')::integer, 0), 0)) AS total
+    FROM jsonb_array_elements(p_items)
+    GROUP BY 1
+  ) i
+  JOIN public.bread_types bt ON bt.id = i.bread_type_id
+  LEFT JOIN public.available_stock st
+    ON st.bread_type_id = i.bread_type_id AND st.branch_id IS NOT DISTINCT FROM v_branch_id
+  WHERE i.total > coalesce(st.quantity, 0)
+  LIMIT 1;
+  IF FOUND THEN
+    RAISE EXCEPTION '% loaves of % were counted but only % are in stock', v_quantity, v_bread_type_name, v_in_stock;
+  END IF;
+
+  INSERT INTO public.stock_carryovers (branch_id, carryover_date, from_shift, to_shift, recorded_by, notes)
+  VALUES (v_branch_id, p_carryover_date, p_from_shift, v_to_shift, v_caller, NULLIF(btrim(p_notes), ''))
+  RETURNING id INTO v_id;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(p_items) LOOP
+    v_bread_type_id := (v_item->>'bread_type_id')::uuid;
+    v_disposition := v_item->>'disposition';
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_disposition IS NULL OR v_disposition NOT IN ('carried', 'discounted', 'stale', 'discarded') THEN
+      RAISE EXCEPTION 'Unknown disposition: %', v_disposition;
+    END IF;
+    CONTINUE WHEN coalesce(v_quantity, 0) <= 0;
+
+    SELECT coalesce(bp.unit_price, bt.unit_price) INTO v_full_price
+    FROM public.bread_types bt
+    LEFT JOIN public.branch_prices bp
+      ON bp.bread_type_id = bt.id AND bp.branch_id IS NOT DISTINCT FROM v_branch_id
+    WHERE bt.id = v_bread_type_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Bread type not found';
+    END IF;
+
+    v_price := v_full_price;
+    IF v_disposition = 'discounted' THEN
+      v_price := (v_item->>'unit_price')::numeric;
+      IF v_price IS NULL OR v_price < 0 OR v_price >= v_full_price THEN
+        RAISE EXCEPTION 'The discounted price must be below %', v_full_price;
+      END IF;
+    END IF;
+
+    INSERT INTO public.stock_carryover_items (carryover_id, bread_type_id, disposition, quantity, unit_price)
+    VALUES (v_id, v_bread_type_id, v_disposition, v_quantity, v_price);
+
+    IF v_disposition IN ('carried', 'discounted') THEN
+      -- Moved, not sold: out of one shift and into the next, stock unchanged
+      INSERT INTO public.inventory_logs (
+        branch_id, bread_type_id, quantity_change, reason, reference_id, shift, user_id, notes
+      ) VALUES
+        (v_branch_id, v_bread_type_id, -v_quantity, 'carry_over_out', v_id, p_from_shift, v_caller,
+         CASE WHEN v_disposition = 'discounted' THEN 'Discounted to ' || v_price END),
+        (v_branch_id, v_bread_type_id, v_quantity, 'carry_over_in', v_id, v_to_shift, v_caller,
+         CASE WHEN v_disposition = 'discounted' THEN 'Discounted to ' || v_price END);
+    ELSE
+      INSERT INTO public.inventory_logs (
+        branch_id, bread_type_id, quantity_change, reason, reference_id, shift, user_id, notes
+      ) VALUES (
+        v_branch_id, v_bread_type_id, -v_quantity, 'carry_over_' || v_disposition, v_id, p_from_shift, v_caller,
+        NULLIF(btrim(p_notes), '')
+      );
+
+      PERFORM public.adjust_available_stock(v_branch_id, v_bread_type_id, -v_quantity);
+    END IF;
+  END LOOP;
+
+  -- remaining_bread now holds what the next shift starts with
+  DELETE FROM public.remaining_bread WHERE branch_id IS NOT DISTINCT FROM v_branch_id;
+
+  INSERT INTO public.remaining_bread (
+    branch_id, bread_type_id, bread_type, quantity, unit_price, shift, record_date, recorded_by
+  )
+  SELECT v_branch_id, i.bread_type_id, bt.name, sum(i.quantity),
+         coalesce(bp.unit_price, bt.unit_price), p_from_shift, p_carryover_date, v_caller
+  FROM public.stock_carryover_items i
+  JOIN public.bread_types bt ON bt.id = i.bread_type_id
+  LEFT JOIN public.branch_prices bp
+    ON bp.bread_type_id = bt.id AND bp.branch_id IS NOT DISTINCT FROM v_branch_id
+  WHERE i.carryover_id = v_id AND i.disposition IN ('carried', 'discounted')
+  GROUP BY i.bread_type_id, bt.name, bp.unit_price, bt.unit_price;
+
+  RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_stock_carryover(text, date, jsonb, text) TO authenticated;
+
+-- ─────────────────────────────────────────
+-- 4. RLS — rows are only written through record_stock_carryover();
+--    items follow their carry-over's branch.
+-- ─────────────────────────────────────────
+ALTER TABLE public.stock_carryovers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_carryover_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "stock_carryovers_read" ON public.stock_carryovers;
+CREATE POLICY "stock_carryovers_read" ON public.stock_carryovers
+  FOR SELECT TO authenticated
+  USING (
+    public.has_permission('inventory.view')
+    OR public.has_permission('batches.view')
+    OR public.has_permission('reports.view')
+  );
+
+DROP POLICY IF EXISTS branch_isolation ON public.stock_carryovers;
+CREATE POLICY branch_isolation ON public.stock_carryovers AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.is_owner(auth.uid()) OR branch_id = public.current_user_branch_id());
+
+DROP POLICY IF EXISTS "stock_carryover_items_read" ON public.stock_carryover_items;
+CREATE POLICY "stock_carryover_items_read" ON public.stock_carryover_items
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.stock_carryovers c WHERE c.id = carryover_id));
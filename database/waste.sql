@@ -0,0 +1,154 @@
+-- ─────────────────────────────────────────
+-- Waste and spoilage
+-- Loaves that leave stock without being sold: stale, burnt, damaged,
+-- eaten by staff or given away. Each entry is deducted from
+-- available_stock through inventory_logs and keeps the loaf's cost and
+-- price at the time, so reports can value waste both ways. Stale and
+-- discarded loaves from a carry-over are logged here too. Requires
+-- branches.sql, permissions.sql, shift-schedule.sql and
+-- stock-carryovers.sql.
+-- ─────────────────────────────────────────
+
+-- ─────────────────────────────────────────
+-- 1. Waste log
+--    unit_cost is null when the bread type had no cost yet.
+--    carryover_id links entries written by a carry-over.
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.waste_logs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid DEFAULT public.current_user_branch_id() REFERENCES public.branches(id),
+  bread_type_id uuid NOT NULL REFERENCES public.bread_types(id),
+  shift text NOT NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  reason text NOT NULL CHECK (reason IN ('stale', 'burnt', 'damaged', 'staff_meal', 'donation')),
+  unit_cost numeric(12,2) CHECK (unit_cost >= 0),
+  unit_price numeric(12,2) NOT NULL CHECK (unit_price >= 0),
+  notes text,
+  carryover_id uuid REFERENCES public.stock_carryovers(id) ON DELETE SET NULL,
+  recorded_by uuid NOT NULL REFERENCES public.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS waste_logs_created_idx
+  ON public.waste_logs (branch_id, created_at DESC);
+
+ALTER TABLE public.waste_logs DROP CONSTRAINT IF EXISTS waste_logs_shift_check;
+DROP TRIGGER IF EXISTS validate_shift_key ON public.waste_logs;
+CREATE TRIGGER validate_shift_key BEFORE INSERT OR UPDATE OF shift ON public.waste_logs
+  FOR EACH ROW EXECUTE FUNCTION public.validate_shift_key();
+
+-- ─────────────────────────────────────────
+-- 2. Recording waste
+--    p_unit_cost comes from the app, which knows recipe costs; the
+--    manual cost on bread_types is used when it is not given.
+--    Returns the new waste_logs id.
+-- ─────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.record_waste(
+  p_bread_type_id uuid,
+  p_shift text,
+  p_quantity integer,
+  p_reason text,
+  p_unit_cost numeric DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_branch_id uuid := public.current_user_branch_id();
+  v_price numeric(12,2);
+  v_cost numeric(12,2);
+  v_id uuid;
+BEGIN
+  IF NOT public.has_permission('waste.record') THEN
+    RAISE EXCEPTION 'You do not have permission to record waste';
+  END IF;
+  IF NOT (p_shift = ANY (public.active_shift_keys())) THEN
+    RAISE EXCEPTION 'Unknown shift: %', p_shift;
+  END IF;
+  IF coalesce(p_quantity, 0) <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be at least 1';
+  END IF;
+
+  SELECT coalesce(bp.unit_price, bt.unit_price), bt.unit_cost INTO v_price, v_cost
+  FROM public.bread_types bt
+  LEFT JOIN public.branch_prices bp
+    ON bp.bread_type_id = bt.id AND bp.branch_id IS NOT DISTINCT FROM v_branch_id
+  WHERE bt.id = p_bread_type_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bread type not found';
+  END IF;
+
+  INSERT INTO public.waste_logs (
+    branch_id, bread_type_id, shift, quantity, reason, unit_cost, unit_price, notes, recorded_by
+  ) VALUES (
+    v_branch_id, p_bread_type_id, p_shift, p_quantity, p_reason, coalesce(p_unit_cost, v_cost), v_price,
+    NULLIF(btrim(p_notes), ''), v_caller
+  )
+  RETURNING id INTO v_id;
+
+  INSERT INTO public.inventory_logs (
+    branch_id, bread_type_id, quantity_change, reason, reference_id, shift, user_id, notes
+  ) VALUES (
+    v_branch_id, p_bread_type_id, -p_quantity, 'waste', v_id, p_shift, v_caller,
+    initcap(replace(p_reason, '_', ' '))
+  );
+
+  PERFORM public.adjust_available_stock(v_branch_id, p_bread_type_id, -p_quantity);
+
+  RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_waste(uuid, text, integer, text, numeric, text) TO authenticated;
+
+-- ─────────────────────────────────────────
+-- 3. Carry-over write-offs
+--    record_stock_carryover() has already taken stale and discarded
+--    loaves out of stock, so this only adds them to the waste log.
+-- ─────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.log_carryover_waste()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF NEW.disposition NOT IN ('stale', 'discarded') THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.waste_logs (
+    branch_id, bread_type_id, shift, quantity, reason, unit_cost, unit_price, notes, carryover_id, recorded_by
+  )
+  SELECT c.branch_id, NEW.bread_type_id, c.from_shift, NEW.quantity, 'stale', bt.unit_cost, NEW.unit_price,
+         CASE WHEN NEW.disposition = 'discarded' THEN 'Discarded at carry-over' ELSE 'Stale at carry-over' END,
+         c.id, c.recorded_by
+  FROM public.stock_carryovers c
+  JOIN public.bread_types bt ON bt.id = NEW.bread_type_id
+  WHERE c.id = NEW.carryover_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stock_carryover_items_waste ON public.stock_carryover_items;
+CREATE TRIGGER stock_carryover_items_waste
+  AFTER INSERT ON public.stock_carryover_items
+  FOR EACH ROW EXECUTE FUNCTION public.log_carryover_waste();
+
+-- ─────────────────────────────────────────
+-- 4. RLS — rows are only written through record_waste() and the
+--    carry-over trigger.
+-- ─────────────────────────────────────────
+ALTER TABLE public.waste_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "waste_logs_read" ON public.waste_logs;
+CREATE POLICY "waste_logs_read" ON public.waste_logs
+  FOR SELECT TO authenticated
+  USING (
+    public.has_permission('waste.record')
+    OR public.has_permission('inventory.view')
+    OR public.has_permission('reports.view')
+  );
+
+DROP POLICY IF EXISTS branch_isolation ON public.waste_logs;
+CREATE POLICY branch_isolation ON public.waste_logs AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.is_owner(auth.uid()) OR branch_id = public.current_user_branch_id());
@@ -0,0 +1,90 @@
+-- ─────────────────────────────────────────
+-- Outbound webhooks
+-- Integrations (the accountant's bookkeeping, a WhatsApp bot) subscribe a
+-- URL to bakery events: sale.created, batch.completed, shift.ended and
+-- report.submitted. Every event is written to the delivery log before it
+-- is sent, signed with the subscription's secret, and retried with back-off
+-- by the five-minute job (/api/cron/webhooks) until the receiver answers
+-- 2xx. Requires permissions.sql.
+-- ─────────────────────────────────────────
+
+-- ─────────────────────────────────────────
+-- 1. Subscriptions
+--    secret signs every payload (HMAC-SHA256); the receiver keeps a copy
+--    to check the X-HomeBake-Signature header.
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.webhook_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 80),
+  url text NOT NULL CHECK (url ~* '^https?://'),
+  event_types text[] NOT NULL CHECK (
+    cardinality(event_types) > 0
+    AND event_types <@ ARRAY['sale.created', 'batch.completed', 'shift.ended', 'report.submitted']
+  ),
+  secret text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES public.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS webhook_subscriptions_active_idx
+  ON public.webhook_subscriptions (is_active);
+
+-- ─────────────────────────────────────────
+-- 2. Delivery log, one row per event per subscription
+--    A pending row is sent once next_attempt_at has passed. Senders claim
+--    rows by moving them to 'sending' first, so the job, a replay and the
+--    request that raised the event never send the same row twice. Replays
+--    are new rows with the same event_id, so receivers can drop duplicates.
+-- ─────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid NOT NULL REFERENCES public.webhook_subscriptions(id) ON DELETE CASCADE,
+  event_type text NOT NULL,
+  event_id uuid NOT NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'delivered', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 6,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_status_code integer,
+  last_error text,
+  -- The start of the receiver's last answer, for the owner to read
+  response_body text,
+  delivered_at timestamptz,
+  replay_of uuid REFERENCES public.webhook_deliveries(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.webhook_deliveries DROP CONSTRAINT IF EXISTS webhook_deliveries_status_check;
+ALTER TABLE public.webhook_deliveries
+  ADD CONSTRAINT webhook_deliveries_status_check
+  CHECK (status IN ('pending', 'sending', 'delivered', 'failed'));
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_due_idx
+  ON public.webhook_deliveries (next_attempt_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS webhook_deliveries_created_at_idx
+  ON public.webhook_deliveries (created_at DESC);
+CREATE INDEX IF NOT EXISTS webhook_deliveries_subscription_idx
+  ON public.webhook_deliveries (subscription_id, created_at DESC);
+
+-- ─────────────────────────────────────────
+-- 3. RLS — owners (or anyone granted webhooks.manage) manage subscriptions
+--    and read the log; events are queued and sent with the service role
+-- ─────────────────────────────────────────
+ALTER TABLE public.webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "webhook_managers_manage_webhook_subscriptions" ON public.webhook_subscriptions;
+CREATE POLICY "webhook_managers_manage_webhook_subscriptions" ON public.webhook_subscriptions
+  FOR ALL TO authenticated
+  USING (public.has_permission('webhooks.manage'))
+  WITH CHECK (public.has_permission('webhooks.manage'));
+
+DROP POLICY IF EXISTS "webhook_managers_read_webhook_deliveries" ON public.webhook_deliveries;
+CREATE POLICY "webhook_managers_read_webhook_deliveries" ON public.webhook_deliveries
+  FOR SELECT TO authenticated
+  USING (public.has_permission('webhooks.manage'));
@@ -1,6 +1,22 @@
 import { updateSession } from '@/lib/supabase/middleware'
 import { type NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@supabase/ssr'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getRoutePermissions, type Permission } from '@/lib/auth/permissions'
+import type { Database } from '@/types/supabase'
+
+async function userHasAnyPermission(supabase: SupabaseClient<Database>, permissions: Permission[]) {
+  for (const permission of permissions) {
+    const { data, error } = await supabase.rpc('has_permission', { perm: permission })
+    // Can't tell whether the user has it - treat it as missing
+    if (error) {
+      console.error('Error checking permission in middleware:', error)
+      continue
+    }
+    if (data === true) return true
+  }
+  return false
+}
 
 export async function middleware(request: NextRequest) {
   try {
@@ -10,7 +26,7 @@ export async function middleware(request: NextRequest) {
     // Check if this is a protected dashboard route
     if (request.nextUrl.pathname.startsWith('/dashboard') || request.nextUrl.pathname.startsWith('/owner-dashboard')) {
       // Create Supabase client for middleware
-      const supabase = createServerClient(
+      const supabase = createServerClient<Database>(
         process.env.NEXT_PUBLIC_SUPABASE_URL!,
         process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
         {
@@ -38,11 +54,15 @@ export async function middleware(request: NextRequest) {
         return NextResponse.redirect(new URL('/login', request.url))
       }
 
-      // Simple route protection - let the dashboard page handle role-based redirects
-      // This eliminates role checking conflicts and race conditions
-      
-      // Only enforce authentication, not role-based access
-      // Role-based redirects are handled by individual dashboard pages
+      // Pages still handle role-based redirects to the right dashboard;
+      // here we only block pages that need a permission the user lacks
+      const permissions = getRoutePermissions(request.nextUrl.pathname)
+      if (permissions.length > 0 && !(await userHasAnyPermission(supabase, permissions))) {
+        // Not back to /dashboard: it may send the user straight here again
+        const deniedUrl = new URL('/access-denied', request.url)
+        deniedUrl.searchParams.set('permission', permissions[0])
+        return NextResponse.redirect(deniedUrl)
+      }
     }
 
     return response
@@ -12,6 +12,10 @@ const nextConfig = {
     ignoreDuringBuilds: true,
   },
 
+  // Report workbooks and scheduled report emails are built on the server;
+  // these load their own dependencies at runtime and stay out of the bundle
+  serverExternalPackages: ['exceljs', 'nodemailer'],
+
   // Experimental features for PWA support
   experimental: {
     // appDir is now stable in Next.js 15, no longer needed in experimental
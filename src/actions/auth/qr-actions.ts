@@ -1,18 +1,18 @@
 'use server';
 
 import { createServiceRoleClient } from '@/lib/supabase/server';
-import { requireAuth } from '@/lib/auth/auth-utils';
+import { requirePermission } from '@/lib/auth/auth-utils';
 import { revalidatePath } from 'next/cache';
 import type { UserRole } from '@/types';
 
 /**
  * Generate QR invite token - Production Grade
- * Only owners can generate invites
+ * Requires users.manage; the new staff member joins branchId
  */
-export async function generateInviteTokenAction(role: UserRole) {
+export async function generateInviteTokenAction(role: UserRole, branchId?: string | null) {
   try {
-    // Ensure user is authenticated and is owner
-    const currentUser = await requireAuth('owner');
+    // Ensure user is authenticated and can manage users
+    const currentUser = await requirePermission('users.manage');
     
     console.log(`🔐 Owner ${currentUser.name} generating ${role} invite`);
 
@@ -43,7 +43,8 @@ export async function generateInviteTokenAction(role: UserRole) {
         role,
         expires_at: expiresAt.toISOString(),
         created_by: currentUser.id,
-        is_used: false
+        is_used: false,
+        branch_id: branchId ?? null
       })
       .select()
       .single();
@@ -119,8 +120,8 @@ export async function generateInviteTokenAction(role: UserRole) {
  */
 export async function getQRInvites() {
   try {
-    // Ensure user is authenticated and is owner
-    await requireAuth('owner');
+    // Ensure user is authenticated and can manage users
+    await requirePermission('users.manage');
     
     const serviceSupabase = createServiceRoleClient();
     
@@ -152,8 +153,8 @@ export async function getQRInvites() {
  */
 export async function revokeQRInvite(inviteId: string) {
   try {
-    // Ensure user is authenticated and is owner
-    const currentUser = await requireAuth('owner');
+    // Ensure user is authenticated and can manage users
+    const currentUser = await requirePermission('users.manage');
     
     const serviceSupabase = createServiceRoleClient();
     
@@ -243,8 +244,8 @@ function generateSecureToken(): string {
  */
 export async function cleanupExpiredInvites() {
   try {
-    // Ensure user is authenticated and is owner
-    await requireAuth('owner');
+    // Ensure user is authenticated and can manage users
+    await requirePermission('users.manage');
     
     const serviceSupabase = createServiceRoleClient();
     
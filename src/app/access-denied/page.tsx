@@ -0,0 +1,39 @@
+import Link from 'next/link';
+import { ShieldX, Home } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { PERMISSIONS, isPermission } from '@/lib/auth/permissions';
+
+export default async function AccessDeniedPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ permission?: string }>;
+}) {
+  const { permission } = await searchParams;
+  const label = permission && isPermission(permission) ? PERMISSIONS[permission].label : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <Card className="max-w-md w-full p-8 text-center">
+        <div className="mx-auto w-24 h-24 bg-orange-100 rounded-full flex items-center justify-center mb-6">
+          <ShieldX className="h-12 w-12 text-orange-600" />
+        </div>
+
+        <h1 className="text-xl font-semibold text-gray-900 mb-2">Access denied</h1>
+        <p className="text-gray-600 mb-8">
+          {label
+            ? <>You need the &ldquo;{label}&rdquo; permission to open this page.</>
+            : 'You do not have permission to open this page.'}
+          {' '}Ask the owner if you think you should have access.
+        </p>
+
+        <Button asChild className="w-full bg-orange-600 hover:bg-orange-700">
+          <Link href="/dashboard" className="flex items-center justify-center">
+            <Home className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Link>
+        </Button>
+      </Card>
+    </div>
+  );
+}
@@ -1,5 +1,9 @@
 import { createServer } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
+import { deductIngredientsForBatch } from '@/lib/ingredients/actions';
+import { requireApiPermission } from '@/lib/auth/api-permissions';
+import { emitWebhookEvent } from '@/lib/webhooks/dispatch';
+import { batchCompletedData } from '@/lib/webhooks/events';
 
 // Force dynamic rendering for API routes that require authentication
 export const dynamic = 'force-dynamic';
@@ -21,6 +25,9 @@ export async function PUT(
       );
     }
 
+    const denied = await requireApiPermission('batches.update');
+    if (denied) return denied;
+
     const { batchId } = await params;
     const body = await request.json();
     const { status, actual_quantity, notes } = body;
@@ -48,6 +55,11 @@ export async function PUT(
       );
     }
 
+    if (status === 'completed') {
+      await deductIngredientsForBatch(batchId);
+      await emitWebhookEvent('batch.completed', batchCompletedData(batch, batch.bread_type?.name ?? null));
+    }
+
     return NextResponse.json({ data: batch });
   } catch (error) {
     console.error('Unexpected error updating batch:', error);
@@ -75,6 +87,9 @@ export async function DELETE(
       );
     }
 
+    const denied = await requireApiPermission('batches.delete');
+    if (denied) return denied;
+
     const { batchId } = await params;
 
     // Delete the batch
@@ -1,6 +1,9 @@
 import { createServer } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { logBatchActivity } from '@/lib/activities/server-activity-service';
+import { requireApiPermission } from '@/lib/auth/api-permissions';
+import { checkShiftKey } from '@/lib/shift-schedule/actions';
+import type { ShiftType } from '@/types';
 
 // Force dynamic rendering for API routes that require authentication
 export const dynamic = 'force-dynamic';
@@ -18,8 +21,12 @@ export async function POST(request: NextRequest) {
         { status: 401 }
       );
     }
+
+    const denied = await requireApiPermission('batches.create');
+    if (denied) return denied;
+
       const body = await request.json();
-      const { bread_type_id, actual_quantity, start_time, notes, status, shift } = body;
+      const { bread_type_id, actual_quantity, target_quantity, start_time, notes, status, shift } = body;
 
       // Validate required fields
       if (!bread_type_id || !actual_quantity) {
@@ -29,10 +36,19 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      // Validate shift
-      if (!shift || !['morning', 'night'].includes(shift)) {
+      if (target_quantity !== undefined && target_quantity !== null &&
+          !(Number.isInteger(target_quantity) && target_quantity > 0)) {
+        return NextResponse.json(
+          { error: 'Target quantity must be a positive whole number' },
+          { status: 400 }
+        );
+      }
+
+      // Validate shift against the branch's schedule
+      const shiftError = typeof shift === 'string' && shift ? await checkShiftKey(shift) : 'Shift is required';
+      if (shiftError) {
         return NextResponse.json(
-          { error: 'Valid shift (morning or night) is required' },
+          { error: shiftError },
           { status: 400 }
         );
       }
@@ -56,6 +72,18 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      // The insert trigger defaults the target to the starting quantity
+      if (target_quantity) {
+        const { error: targetError } = await supabase
+          .from('batches')
+          .update({ target_quantity })
+          .eq('id', data[0].id);
+
+        if (targetError) {
+          console.error('Error setting batch target:', targetError);
+        }
+      }
+
       // Log activity for batch creation (after successful RPC call)
       try {
         console.log('🎯 Starting activity logging for batch creation via API...');
@@ -77,8 +105,9 @@ export async function POST(request: NextRequest) {
           await logBatchActivity({
             user_id: user.id,
             user_name: userResult.data.name,
-            shift: shift as 'morning' | 'night',
+            shift: shift as ShiftType,
             bread_type: breadTypeResult.data.name,
+            bread_type_id,
             quantity: actual_quantity,
             batch_number: data[0].batch_number || `BATCH-${Date.now()}`
           });
@@ -120,6 +149,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const denied = await requireApiPermission('batches.view');
+    if (denied) return denied;
+
     // Get user role for role-based filtering
     const { data: userProfile } = await supabase
       .from('users')
@@ -158,8 +190,8 @@ export async function GET(request: NextRequest) {
     }
 
     // Apply shift filter if provided
-    if (shift && ['morning', 'night'].includes(shift)) {
-      query = query.eq('shift', shift as 'morning' | 'night');
+    if (shift) {
+      query = query.eq('shift', shift);
     }
 
     const { data, error } = await query;
@@ -1,5 +1,6 @@
 import { createServer } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
+import { requireApiPermission } from '@/lib/auth/api-permissions';
 
 // Force dynamic rendering for API routes that require authentication
 export const dynamic = 'force-dynamic';
@@ -18,6 +19,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const denied = await requireApiPermission('batches.view');
+    if (denied) return denied;
+
     const { searchParams } = new URL(request.url);
     const shift = searchParams.get('shift');
 
@@ -27,8 +31,8 @@ export async function GET(request: NextRequest) {
       .select('status, actual_quantity, created_at');
 
     // Add shift filtering if provided
-    if (shift && ['morning', 'night'].includes(shift)) {
-      query = query.eq('shift', shift as 'morning' | 'night');
+    if (shift) {
+      query = query.eq('shift', shift);
     }
 
     // Get batch statistics
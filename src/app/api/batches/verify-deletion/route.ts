@@ -1,5 +1,7 @@
 import { createServer } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
+import { requireApiPermission } from '@/lib/auth/api-permissions';
+import type { ShiftType } from '@/types';
 
 /**
  * PRODUCTION-READY: Batch deletion verification endpoint
@@ -11,11 +13,14 @@ export async function GET(request: NextRequest) {
   try {
     const supabase = await createServer();
     const { searchParams } = new URL(request.url);
-    const shift = searchParams.get('shift') as 'morning' | 'night' | null;
+    const shift = searchParams.get('shift') as ShiftType | null;
     const userId = searchParams.get('userId');
 
     console.log(`🔍 Verifying batch deletion for user ${userId}, shift: ${shift || 'all'}`);
 
+    const denied = await requireApiPermission('batches.view');
+    if (denied) return denied;
+
     // Get current user if not provided
     let currentUserId = userId;
     if (!currentUserId) {
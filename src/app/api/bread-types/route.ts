@@ -1,5 +1,7 @@
 import { createServer } from '@/lib/supabase/server';
+import { applyBranchPrices } from '@/lib/branches/pricing';
 import { NextResponse } from 'next/server';
+import { requireApiPermission } from '@/lib/auth/api-permissions';
 
 // Force dynamic rendering for API routes that require authentication
 export const dynamic = 'force-dynamic';
@@ -18,7 +20,10 @@ export async function GET() {
       );
     }
 
-    // Fetch bread types
+    const denied = await requireApiPermission('bread_types.view');
+    if (denied) return denied;
+
+    // Fetch bread types (RLS limits staff to shared + own-branch types)
     const { data, error } = await supabase
       .from('bread_types')
       .select('id, name, size, unit_price')
@@ -33,7 +38,13 @@ export async function GET() {
       );
     }
 
-    return NextResponse.json({ data });
+    const { data: profile } = await supabase
+      .from('users')
+      .select('branch_id')
+      .eq('id', user.id)
+      .single();
+
+    return NextResponse.json({ data: await applyBranchPrices(supabase, data || [], profile?.branch_id) });
   } catch (error) {
     console.error('Unexpected error:', error);
     return NextResponse.json(
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runNotificationOutbox } from '@/lib/push-notifications/outbox';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Five-minute job that sends closed notification digests and retries
+ * failed pushes. Vercel Cron calls it with Authorization: Bearer CRON_SECRET.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await runNotificationOutbox();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error running notification outbox:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to run notification outbox' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runDueReportSchedules } from '@/lib/scheduled-reports/runner';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Hourly job that mails the scheduled reports that are due.
+ * Vercel Cron calls it with Authorization: Bearer CRON_SECRET.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await runDueReportSchedules();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error running scheduled reports:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to run scheduled reports' },
+      { status: 500 }
+    );
+  }
+}
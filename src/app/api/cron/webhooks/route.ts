@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runDueWebhookDeliveries } from '@/lib/webhooks/dispatch';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Five-minute job that retries outbound webhooks whose back-off has
+ * passed. Vercel Cron calls it with Authorization: Bearer CRON_SECRET.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await runDueWebhookDeliveries();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error running webhook deliveries:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to run webhook deliveries' },
+      { status: 500 }
+    );
+  }
+}
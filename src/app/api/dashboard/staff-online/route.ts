@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServer } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/auth/auth-utils';
 
 /**
  * Production-grade API route for staff online count
@@ -36,12 +37,11 @@ export async function GET(request: NextRequest): Promise<NextResponse<StaffOnlin
     // Get user profile to check if they have permission to view staff data
     const { data: profile } = await supabase
       .from('users')
-      .select('role')
+      .select('role, branch_id')
       .eq('id', user.id)
       .single();
 
-    // Only owners and managers can view staff online data
-    if (!profile || (profile.role !== 'owner' && profile.role !== 'manager')) {
+    if (!profile || !(await hasPermission('staff.view'))) {
       return NextResponse.json({
         online: 0,
         total: 0,
@@ -53,8 +53,13 @@ export async function GET(request: NextRequest): Promise<NextResponse<StaffOnlin
     // Import the session management function
     const { getStaffOnlineCountFromSessions } = await import('@/lib/auth/session-management');
     
+    // Owners may pick a branch (or none for all branches); managers only see their own
+    const branchId = profile.role === 'owner'
+      ? new URL(request.url).searchParams.get('branch_id')
+      : profile.branch_id;
+
     // Get staff online count using production-grade session tracking
-    const result = await getStaffOnlineCountFromSessions();
+    const result = await getStaffOnlineCountFromSessions(branchId);
     
     return NextResponse.json({
       online: result.online,
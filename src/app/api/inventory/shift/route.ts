@@ -1,6 +1,10 @@
 import { createServer } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { getInventoryShiftInfo } from '@/lib/utils/inventory-shift-utils';
+import { requireApiPermission } from '@/lib/auth/api-permissions';
+import { shiftKeySchema } from '@/lib/validations';
+import { getCarryOverIntoShift } from '@/lib/stock-carryovers/queries';
+import { sellableQuantity } from '@/lib/stock-carryovers/carryover';
 
 // Force dynamic rendering for API routes that require authentication
 export const dynamic = 'force-dynamic';
@@ -29,6 +33,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const denied = await requireApiPermission('inventory.view');
+    if (denied) return denied;
+
     console.log('✅ API: User authenticated successfully');
 
     const { searchParams } = new URL(request.url);
@@ -45,9 +52,9 @@ export async function GET(request: NextRequest) {
     });
 
     // Validate shift parameter
-    if (!requestedShift || !['morning', 'night'].includes(requestedShift)) {
+    if (!requestedShift || !shiftKeySchema.safeParse(requestedShift).success) {
       return NextResponse.json(
-        { error: 'Valid shift (morning or night) is required' },
+        { error: 'A valid shift is required' },
         { status: 400 }
       );
     }
@@ -60,6 +67,15 @@ export async function GET(request: NextRequest) {
     console.log(`📅 Data fetch range: ${dataFetchRange.description}`);
     console.log(`🕒 Time range: ${dataFetchRange.startTime} - ${dataFetchRange.endTime}`);
 
+    // Stock carried over from the previous shift opens this one
+    const carryOver = await getCarryOverIntoShift(supabase, validatedShift, {
+      start: dataFetchRange.startTime,
+      end: dataFetchRange.endTime,
+    }).catch(error => {
+      console.error('❌ Carry-over query error:', error);
+      return null;
+    });
+
     // Query batches table with proper time range
     console.log(`🔍 Querying batches table for ${validatedShift} shift...`);
     
@@ -119,7 +135,7 @@ export async function GET(request: NextRequest) {
         dataSource = 'all_batches';
         totalArchivedBatches = allBatchesData.length;
         console.log(`✅ Found ${allBatchesData.length} archived batches`);
-      } else {
+      } else if (!carryOver || carryOver.total_carried === 0) {
         // No batches found - return empty state
         console.log(`📭 No batches found for current ${validatedShift} shift period`);
         return NextResponse.json({ 
@@ -127,6 +143,8 @@ export async function GET(request: NextRequest) {
           totalUnits: 0,
           totalBatches: 0,
           totalArchivedBatches: 0,
+          totalCarriedOver: 0,
+          carryOver,
           shift: validatedShift,
           source: 'batches',
           recordCount: 0,
@@ -166,6 +184,8 @@ export async function GET(request: NextRequest) {
           size: breadType.size,
           price: breadType.unit_price,
           quantity: 0,
+          produced: 0,
+          carriedOver: 0,
           batches: 0,
           archivedBatches: dataSource === 'all_batches' ? 0 : 0,
         });
@@ -173,6 +193,7 @@ export async function GET(request: NextRequest) {
 
       const item = inventoryMap.get(key);
       item.quantity += (batch as { actual_quantity?: number }).actual_quantity || 0;
+      item.produced += (batch as { actual_quantity?: number }).actual_quantity || 0;
       item.batches += 1;
       
       // Track archived batches
@@ -181,18 +202,52 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Carried-over loaves count towards this shift's stock alongside what it baked
+    const { data: carriedBreadTypes } = carryOver && carryOver.total_carried > 0
+      ? await supabase
+          .from('bread_types')
+          .select('id, name, size, unit_price')
+          .in('id', carryOver.lines.map(line => line.bread_type_id))
+      : { data: [] };
+
+    for (const line of carryOver?.lines || []) {
+      const carried = sellableQuantity(line);
+      if (carried === 0) continue;
+
+      if (!inventoryMap.has(line.bread_type_id)) {
+        const breadType = carriedBreadTypes?.find(type => type.id === line.bread_type_id);
+        inventoryMap.set(line.bread_type_id, {
+          id: line.bread_type_id,
+          name: breadType?.name || line.bread_type_name,
+          size: breadType?.size || null,
+          price: breadType?.unit_price || 0,
+          quantity: 0,
+          produced: 0,
+          carriedOver: 0,
+          batches: 0,
+          archivedBatches: 0,
+        });
+      }
+
+      const item = inventoryMap.get(line.bread_type_id);
+      item.quantity += carried;
+      item.carriedOver += carried;
+    }
+
     const inventory = Array.from(inventoryMap.values()).sort((a, b) => 
       a.name.localeCompare(b.name)
     );
 
     const totalUnits = inventory.reduce((sum, item) => sum + item.quantity, 0);
     const totalBatches = inventory.reduce((sum, item) => sum + item.batches, 0);
+    const totalCarriedOver = carryOver?.total_carried || 0;
 
     console.log(`📊 Final inventory result:`, {
       inventoryItems: inventory.length,
       totalUnits: totalUnits,
       totalBatches: totalBatches,
       totalArchivedBatches: totalArchivedBatches,
+      totalCarriedOver: totalCarriedOver,
       dataSource: dataSource,
       shift: validatedShift
     });
@@ -202,6 +257,8 @@ export async function GET(request: NextRequest) {
       totalUnits,
       totalBatches,
       totalArchivedBatches,
+      totalCarriedOver,
+      carryOver,
       shift: validatedShift,
       source: dataSource,
       recordCount: batchesData?.length || 0,
@@ -5,12 +5,16 @@ import {
   performHealthCheck,
   cleanupOldAttempts
 } from '@/lib/push-notifications/monitoring';
+import { requireApiPermission } from '@/lib/auth/api-permissions';
 
 /**
  * Get comprehensive push notification monitoring data
  */
 export async function GET(request: NextRequest) {
   try {
+    const denied = await requireApiPermission('notifications.monitor');
+    if (denied) return denied;
+
     const url = new URL(request.url);
     const action = url.searchParams.get('action') || 'metrics';
     
@@ -82,6 +86,9 @@ export async function POST(request: NextRequest) {
   }
   
   try {
+    const denied = await requireApiPermission('notifications.monitor');
+    if (denied) return denied;
+
     const body = await request.json().catch(() => ({}));
     const testType = body.test_type || 'basic';
     
@@ -1,32 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import webpush from 'web-push';
 import { createClient } from '@supabase/supabase-js';
-
-// Configure web-push with VAPID keys
-const vapidPublicKey = process.env.NEXT_PUBLIC_VAPID_KEY!;
-const vapidPrivateKey = process.env.VAPID_PRIVATE_KEY!;
-const vapidEmail = process.env.VAPID_EMAIL?.startsWith('mailto:') 
-  ? process.env.VAPID_EMAIL 
-  : `mailto:${process.env.VAPID_EMAIL || 'admin@homebake.com'}`;
-
-if (vapidPublicKey && vapidPrivateKey) {
-  webpush.setVapidDetails(vapidEmail, vapidPublicKey, vapidPrivateKey);
-}
-
-interface PushNotificationPayload {
-  title: string;
-  body: string;
-  activity_type: 'sale' | 'batch' | 'report' | 'login' | 'end_shift' | 'created';
-  user_name?: string;
-  metadata?: {
-    bread_type?: string;
-    quantity?: number;
-    revenue?: number;
-    batch_number?: string;
-    [key: string]: string | number | boolean | null | undefined;
-  };
-  url?: string;
-}
+import type { Database } from '@/types/supabase';
+import { resolvePushRecipients, type PushRecipient } from '@/lib/push-notifications/recipients';
+import { configureWebPush, deliverOutboxRows, enqueuePush } from '@/lib/push-notifications/outbox';
+import type { ShiftType } from '@/types';
 
 interface NotificationRequest {
   activity_type: string;
@@ -34,38 +11,41 @@ interface NotificationRequest {
   user_name: string;
   user_role: string;
   message: string;
+  shift?: ShiftType;
   metadata?: {
     bread_type?: string;
+    bread_type_id?: string;
     quantity?: number;
     revenue?: number;
     batch_number?: string;
     [key: string]: string | number | boolean | null | undefined;
   };
-}
-
-interface PushSubscriptionDB {
-  user_id: string;
-  endpoint: string;
-  p256dh_key: string;
-  auth_key: string;
-}
-
-
-interface WebPushError extends Error {
-  statusCode?: number;
-  message: string;
+  // Notify these users instead of the roles the activity is routed to
+  recipient_ids?: string[];
+  url?: string;
 }
 
 /**
- * Send push notifications to all active owner subscriptions
+ * Queue a push for everyone the activity is routed to, as narrowed by each
+ * recipient's notification preferences. recipient_ids is refused unless
+ * the request carries the service role key. Immediate pushes are sent now;
+ * digests and retries go out with the notification outbox job.
  */
 export async function POST(request: NextRequest) {
   try {
     console.log('🚀 Push notification API called');
     const body: NotificationRequest = await request.json();
     console.log('📝 Request body:', body);
+
+    // Only the server's own calls, which carry the service role key, may
+    // pick who is notified
+    const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    const fromServer = !!serviceKey && request.headers.get('authorization') === `Bearer ${serviceKey}`;
+    if (body.recipient_ids !== undefined && !fromServer) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
     
-    if (!vapidPublicKey || !vapidPrivateKey) {
+    if (!configureWebPush()) {
       console.error('❌ VAPID keys not configured');
       return NextResponse.json(
         { error: 'Push notifications not configured' }, 
@@ -74,7 +54,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Use service role client to bypass RLS
-    const supabase = createClient(
+    const supabase = createClient<Database>(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
       process.env.SUPABASE_SERVICE_ROLE_KEY!,
       {
@@ -84,33 +64,28 @@ export async function POST(request: NextRequest) {
         }
       }
     );
-    
-    
-    // Get all owner accounts with push notification subscriptions enabled
-    // Note: push_notification_preferences.user_id references auth.users.id
-    // profiles.id also references auth.users.id, so we can join them
-    const { data: subscriptions, error: subscriptionError } = await supabase
-      .from('push_notification_preferences')
-      .select(`
-        user_id,
-        endpoint,
-        p256dh_key,
-        auth_key
-      `)
-      .eq('enabled', true)
-      .not('endpoint', 'is', null);
 
-    if (subscriptionError) {
-      console.error('❌ Failed to fetch subscriptions:', subscriptionError);
+    let recipients: PushRecipient[];
+    try {
+      recipients = await resolvePushRecipients(supabase, {
+        activity_type: body.activity_type,
+        shift: body.shift,
+        bread_type_id: body.metadata?.bread_type_id,
+        revenue: body.metadata?.revenue,
+        actor_id: body.user_id,
+        recipient_ids: body.recipient_ids
+      });
+    } catch (recipientError) {
+      console.error('❌ Failed to resolve push recipients:', recipientError);
       return NextResponse.json(
-        { error: 'Failed to fetch subscriptions', details: subscriptionError.message }, 
+        { error: 'Failed to fetch subscriptions', details: recipientError instanceof Error ? recipientError.message : String(recipientError) }, 
         { status: 500 }
       );
     }
 
-    console.log('📋 Found subscriptions:', subscriptions?.length || 0);
+    console.log('📋 Found recipients:', recipients.length);
 
-    if (!subscriptions || subscriptions.length === 0) {
+    if (recipients.length === 0) {
       console.log('⚠️ No subscriptions found to notify');
       return NextResponse.json({ 
         success: true, 
@@ -119,100 +94,23 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Filter subscriptions to only include owners by checking profiles table
-    const userIds = subscriptions.map(sub => sub.user_id);
-    const { data: ownerProfiles, error: profileError } = await supabase
-      .from('profiles')
-      .select('id')
-      .in('id', userIds)
-      .eq('role', 'owner');
-
-    if (profileError) {
-      console.error('❌ Failed to fetch owner profiles:', profileError);
-      return NextResponse.json(
-        { error: 'Failed to fetch owner profiles', details: profileError.message }, 
-        { status: 500 }
-      );
-    }
-
-    const ownerIds = new Set((ownerProfiles || []).map(profile => profile.id));
-    const ownerSubscriptions = subscriptions.filter(sub => ownerIds.has(sub.user_id));
-
-    console.log('👑 Found owner subscriptions:', ownerSubscriptions.length);
-
-    if (ownerSubscriptions.length === 0) {
-      console.log('⚠️ No owner subscriptions found to notify');
-      return NextResponse.json({ 
-        success: true, 
-        message: 'No owner subscriptions to notify',
-        sent: 0 
-      });
-    }
-
-    // Create notification payload
-    const payload: PushNotificationPayload = {
+    const dueNow = await enqueuePush(supabase, recipients, {
+      activity_type: body.activity_type,
       title: getNotificationTitle(body.activity_type),
-      body: body.message,
-      activity_type: body.activity_type as 'sale' | 'batch' | 'report' | 'login' | 'end_shift' | 'created',
-      user_name: body.user_name,
-      metadata: body.metadata,
-      url: '/owner-dashboard'
-    };
-
-    // Send notifications to all owner subscriptions
-    const notifications = ownerSubscriptions.map(async (subscription: PushSubscriptionDB) => {
-      try {
-        const pushSubscription = {
-          endpoint: subscription.endpoint,
-          keys: {
-            p256dh: subscription.p256dh_key,
-            auth: subscription.auth_key
-          }
-        };
-
-        const options = {
-          TTL: 24 * 60 * 60, // 24 hours
-          urgency: 'normal' as const,
-          topic: `homebake-${body.activity_type}`
-        };
-
-        await webpush.sendNotification(
-          pushSubscription,
-          JSON.stringify(payload),
-          options
-        );
-
-        console.log('✅ Notification sent successfully to user:', subscription.user_id);
-        
-        return { success: true, user_id: subscription.user_id };
-      } catch (error: unknown) {
-        const webPushError = error as WebPushError;
-        console.error('❌ Failed to send notification to user:', subscription.user_id);
-        console.error('💥 Push error:', webPushError.message);
-        
-        // Remove invalid subscriptions
-        if (webPushError.statusCode === 410 || webPushError.statusCode === 404) {
-          console.log('🗑️ Removing invalid subscription for user:', subscription.user_id);
-          await supabase
-            .from('push_notification_preferences')
-            .update({ enabled: false, endpoint: null })
-            .eq('user_id', subscription.user_id);
-        }
-        
-        return { success: false, user_id: subscription.user_id, error: webPushError.message };
-      }
+      message: body.message,
+      url: body.url || '/owner-dashboard',
+      actor_name: body.user_name || null,
+      metadata: body.metadata || {}
     });
-
-    const results = await Promise.allSettled(notifications);
-    const successful = results.filter(result => 
-      result.status === 'fulfilled' && result.value.success
-    ).length;
+    const result = await deliverOutboxRows(supabase, dueNow);
 
     return NextResponse.json({
       success: true,
-      message: `Sent ${successful} of ${ownerSubscriptions.length} notifications`,
-      sent: successful,
-      total: ownerSubscriptions.length
+      message: `Sent ${result.sent} of ${dueNow.length} notifications, ${recipients.length - dueNow.length} held for digests`,
+      sent: result.sent,
+      failed: result.failed,
+      queued: recipients.length - dueNow.length,
+      total: recipients.length
     });
 
   } catch (error: unknown) {
@@ -234,7 +132,8 @@ function getNotificationTitle(activityType: string): string {
     report: '📊 Report Generated',
     login: '👤 Staff Login',
     end_shift: '🕐 Shift Ended',
-    created: '➕ New Staff Member'
+    created: '➕ New Staff Member',
+    low_stock: '⚠️ Low Stock'
   };
   return titles[activityType as keyof typeof titles] || '🔔 HomeBake Activity';
 }
\ No newline at end of file
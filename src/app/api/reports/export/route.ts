@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireApiPermission } from '@/lib/auth/api-permissions';
+import { reportExportSchema, formatValidationError } from '@/lib/validations';
+import { exportReport } from '@/lib/reports/export-service';
+
+// Force dynamic rendering for API routes that require authentication
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const denied = await requireApiPermission('reports.export');
+    if (denied) return denied;
+
+    const parsed = reportExportSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: formatValidationError(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const file = await exportReport(parsed.data);
+    if (!file) {
+      return NextResponse.json(
+        { error: 'Nothing to export for this report' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting report:', error);
+    return NextResponse.json(
+      { error: 'Failed to export report' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { createServer } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
+import { hasPermission } from '@/lib/auth/auth-utils';
 
 export async function GET(request: NextRequest) {
   try {
@@ -46,14 +47,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Check if user has permission to view this report (owner or the creator)
-    const { data: userProfile } = await supabase
-      .from('users')
-      .select('role')
-      .eq('id', user.id)
-      .single();
-
-    if (userProfile?.role !== 'owner' && shiftReport.user_id !== user.id) {
+    // Staff can always see their own reports; anyone else's needs reports.view
+    if (shiftReport.user_id !== user.id && !(await hasPermission('reports.view'))) {
       return NextResponse.json(
         { success: false, error: 'Permission denied' },
         { status: 403 }
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServer } from '@/lib/supabase/server';
+import { requireApiPermission } from '@/lib/auth/api-permissions';
+import { getCarryOverIntoShift } from '@/lib/stock-carryovers/queries';
+import type { ShiftType } from '@/types';
 
 interface Batch {
   id: string;
@@ -11,7 +14,7 @@ interface Batch {
   status: string;
   created_by: string;
   created_at: string;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   bread_types: {
     id: string;
     name: string;
@@ -78,7 +81,7 @@ function nigeriaToUTC(localYear: number, localMonth: number, localDay: number, l
 }
 
 // Get the correct date range for filtering based on shift and clearing times with precise Nigeria timezone
-function getDateRange(shift: 'morning' | 'night', nigeriaTime: Date) {
+function getDateRange(shift: ShiftType, nigeriaTime: Date) {
   const currentHour = nigeriaTime.getHours();
   const currentMinute = nigeriaTime.getMinutes();
   const currentSecond = nigeriaTime.getSeconds();
@@ -185,8 +188,13 @@ function getDateRange(shift: 'morning' | 'night', nigeriaTime: Date) {
 
 export async function GET(request: NextRequest) {
   try {
+    const denied = await requireApiPermission('batches.view');
+    if (denied) return denied;
+
     const { searchParams } = new URL(request.url);
-    const shift = searchParams.get('shift') as 'morning' | 'night';
+    const shift = searchParams.get('shift') as ShiftType;
+    // Owners can narrow to one branch; staff are already scoped to theirs by RLS
+    const branchId = searchParams.get('branch_id');
 
     if (!shift) {
       return NextResponse.json(
@@ -242,7 +250,7 @@ export async function GET(request: NextRequest) {
       status: ['active', 'completed']
     });
     
-    const { data: batches, error: batchesError } = await supabase
+    let batchesQuery = supabase
       .from('batches')
       .select(`
         *,
@@ -256,7 +264,13 @@ export async function GET(request: NextRequest) {
       .eq('shift', shift)
       .gte('created_at', dateRange.start)
       .lte('created_at', dateRange.end)
-      .in('status', ['active', 'completed'])
+      .in('status', ['active', 'completed']);
+
+    if (branchId) {
+      batchesQuery = batchesQuery.eq('branch_id', branchId);
+    }
+
+    const { data: batches, error: batchesError } = await batchesQuery
       .order('created_at', { ascending: false });
 
     console.log('🔍 Batches query result:', {
@@ -284,7 +298,7 @@ export async function GET(request: NextRequest) {
       
       // Fallback to all_batches table
       console.log('🔍 Querying all_batches table with same filters...');
-      const { data: allBatches, error: allBatchesError } = await supabase
+      let allBatchesQuery = supabase
         .from('all_batches')
         .select(`
           *,
@@ -298,7 +312,13 @@ export async function GET(request: NextRequest) {
         .eq('shift', shift)
         .gte('created_at', dateRange.start)
         .lte('created_at', dateRange.end)
-        .in('status', ['active', 'completed'])
+        .in('status', ['active', 'completed']);
+
+      if (branchId) {
+        allBatchesQuery = allBatchesQuery.eq('branch_id', branchId);
+      }
+
+      const { data: allBatches, error: allBatchesError } = await allBatchesQuery
         .order('created_at', { ascending: false });
 
       console.log('🔍 All_batches query result:', {
@@ -383,13 +403,19 @@ export async function GET(request: NextRequest) {
     });
 
     // Fetch sales data to calculate sold quantities
-    const { data: salesData, error: salesError } = await supabase
+    let salesQuery = supabase
       .from('sales_logs')
       .select('bread_type_id, quantity')
       .eq('shift', shift)
       .gte('created_at', dateRange.start)
       .lte('created_at', dateRange.end);
 
+    if (branchId) {
+      salesQuery = salesQuery.eq('branch_id', branchId);
+    }
+
+    const { data: salesData, error: salesError } = await salesQuery;
+
     if (salesError) {
       console.error('❌ Error fetching sales data:', salesError);
     }
@@ -431,6 +457,12 @@ export async function GET(request: NextRequest) {
     // Calculate total units
     const totalUnits = productionItems.reduce((sum: number, item: ProductionItem) => sum + item.quantity, 0);
 
+    // Leftovers the shift opened with, kept apart from what it produced
+    const carryOver = await getCarryOverIntoShift(supabase, shift, dateRange, branchId).catch(error => {
+      console.error('❌ Error fetching carry-over:', error);
+      return null;
+    });
+
     // Check if we have any production items
     const isEmpty = productionItems.length === 0;
 
@@ -446,6 +478,8 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       productionItems,
       totalUnits,
+      carryOver,
+      totalCarriedOver: carryOver?.total_carried || 0,
       source: dataSource,
       isEmpty,
       shift,
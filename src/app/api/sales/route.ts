@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServer } from '@/lib/supabase/server';
+import { requireApiPermission } from '@/lib/auth/api-permissions';
 import { salesEntrySchema } from '@/lib/validations/sales';
+import { checkShiftKey } from '@/lib/shift-schedule/actions';
 
 // Force dynamic rendering for API routes that require authentication
 export const dynamic = 'force-dynamic';
@@ -14,6 +16,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const denied = await requireApiPermission('sales.record');
+    if (denied) return denied;
+
     const body = await request.json();
     
     // Validate the request body
@@ -24,6 +29,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Can only record your own sales' }, { status: 403 });
     }
 
+    const shiftError = await checkShiftKey(validatedData.shift);
+    if (shiftError) {
+      return NextResponse.json({ error: shiftError }, { status: 400 });
+    }
+
     // Insert the sales log
     const { data, error } = await supabase
       .from('sales_logs')
@@ -76,8 +86,11 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const denied = await requireApiPermission('sales.record');
+    if (denied) return denied;
+
     const { searchParams } = new URL(request.url);
-    const shift = searchParams.get('shift') as 'morning' | 'night' | null;
+    const shift = searchParams.get('shift');
     const date = searchParams.get('date');
 
     let query = supabase
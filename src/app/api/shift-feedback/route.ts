@@ -1,11 +1,15 @@
 import { createServer } from '@/lib/supabase/server';
 import { NextRequest, NextResponse } from 'next/server';
+import { requireApiPermission } from '@/lib/auth/api-permissions';
 
 // Force dynamic rendering for API routes that require authentication
 export const dynamic = 'force-dynamic';
 
 export async function POST(request: NextRequest) {
   try {
+    const denied = await requireApiPermission('sales.record');
+    if (denied) return denied;
+
     const supabase = await createServer();
     const feedbackData = await request.json();
 
@@ -57,6 +61,9 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
+    const denied = await requireApiPermission('reports.view');
+    if (denied) return denied;
+
     const supabase = await createServer();
     const { searchParams } = new URL(request.url);
     
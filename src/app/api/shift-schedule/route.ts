@@ -0,0 +1,32 @@
+import { createServer } from '@/lib/supabase/server';
+import { NextResponse } from 'next/server';
+import { getShiftSchedule } from '@/lib/shift-schedule/actions';
+
+// Force dynamic rendering for API routes that require authentication
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const supabase = await createServer();
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const schedule = await getShiftSchedule();
+
+    return NextResponse.json({ success: true, data: schedule });
+  } catch (error) {
+    console.error('Unexpected error fetching shift schedule:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
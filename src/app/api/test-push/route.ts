@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { triggerPushNotification } from '@/lib/push-notifications/server';
+import { requireApiPermission } from '@/lib/auth/api-permissions';
 
 /**
  * Test endpoint to manually trigger push notifications
@@ -7,6 +8,9 @@ import { triggerPushNotification } from '@/lib/push-notifications/server';
  */
 export async function POST(request: NextRequest) {
   try {
+    const denied = await requireApiPermission('notifications.monitor');
+    if (denied) return denied;
+
     const body = await request.json();
     
     // Create test notification data
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { withApiKey } from '@/lib/api/authenticate';
+import { apiError, apiItem } from '@/lib/api/respond';
+import { BATCH_COLUMNS, toApiBatch } from '@/lib/api/batches';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withApiKey<{ batchId: string }>('batches.view', async (_request, { key, supabase }, { batchId }) => {
+  if (!z.string().uuid().safeParse(batchId).success) {
+    return apiError(404, 'not_found', 'Batch not found');
+  }
+
+  let builder = supabase.from('batches').select(BATCH_COLUMNS).eq('id', batchId);
+  if (key.branch_id) builder = builder.eq('branch_id', key.branch_id);
+
+  const { data, error } = await builder.maybeSingle();
+  if (error) throw error;
+  if (!data) return apiError(404, 'not_found', 'Batch not found');
+
+  return apiItem(toApiBatch(data));
+});
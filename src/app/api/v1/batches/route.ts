@@ -0,0 +1,30 @@
+import { branchFor, withApiKey } from '@/lib/api/authenticate';
+import { apiList, pageRange, parseQuery } from '@/lib/api/respond';
+import { apiBatchQuerySchema } from '@/lib/validations/api';
+import { BATCH_COLUMNS, toApiBatch } from '@/lib/api/batches';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withApiKey('batches.view', async (request, { key, supabase }) => {
+  const { data: query, response } = parseQuery(apiBatchQuerySchema, request.nextUrl.searchParams);
+  if (response) return response;
+
+  const branch = branchFor(key, query.branch_id);
+  if (branch.response) return branch.response;
+
+  let builder = supabase
+    .from('batches')
+    .select(BATCH_COLUMNS, { count: 'exact' })
+    .order('created_at', { ascending: false });
+  if (branch.branchId) builder = builder.eq('branch_id', branch.branchId);
+  if (query.status) builder = builder.eq('status', query.status);
+  if (query.shift) builder = builder.eq('shift', query.shift);
+  if (query.bread_type_id) builder = builder.eq('bread_type_id', query.bread_type_id);
+  if (query.created_after) builder = builder.gte('created_at', query.created_after);
+  if (query.created_before) builder = builder.lt('created_at', query.created_before);
+
+  const { data, count, error } = await builder.range(...pageRange(query.page, query.per_page));
+  if (error) throw error;
+
+  return apiList((data || []).map(toApiBatch), query.page, query.per_page, count ?? 0);
+});
@@ -0,0 +1,29 @@
+import { branchFor, withApiKey } from '@/lib/api/authenticate';
+import { apiList, pageRange, parseQuery } from '@/lib/api/respond';
+import { applyBranchPrices } from '@/lib/branches/pricing';
+import { apiBreadTypeQuerySchema, type ApiBreadType } from '@/lib/validations/api';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withApiKey('bread_types.view', async (request, { key, supabase }) => {
+  const { data: query, response } = parseQuery(apiBreadTypeQuerySchema, request.nextUrl.searchParams);
+  if (response) return response;
+
+  const branch = branchFor(key, query.branch_id);
+  if (branch.response) return branch.response;
+
+  let builder = supabase
+    .from('bread_types')
+    .select('id, name, size, unit_price, is_active, created_at', { count: 'exact' })
+    .order('name');
+  // Shared bread types plus the branch's own
+  if (branch.branchId) builder = builder.or(`branch_id.is.null,branch_id.eq.${branch.branchId}`);
+  if (query.is_active) builder = builder.eq('is_active', query.is_active === 'true');
+
+  const { data, count, error } = await builder.range(...pageRange(query.page, query.per_page));
+  if (error) throw error;
+
+  const breadTypes = await applyBranchPrices(supabase, data || [], branch.branchId);
+
+  return apiList<ApiBreadType>(breadTypes, query.page, query.per_page, count ?? 0);
+});
@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/api/openapi';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * The v1 OpenAPI document. Public, so API clients can be generated
+ * without a key.
+ */
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(`${request.nextUrl.origin}/api/v1`));
+}
@@ -0,0 +1,39 @@
+import { branchFor, withApiKey } from '@/lib/api/authenticate';
+import { apiList, pageRange, parseQuery } from '@/lib/api/respond';
+import { apiSaleQuerySchema, type ApiSale } from '@/lib/validations/api';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withApiKey('sales.view_all', async (request, { key, supabase }) => {
+  const { data: query, response } = parseQuery(apiSaleQuerySchema, request.nextUrl.searchParams);
+  if (response) return response;
+
+  const branch = branchFor(key, query.branch_id);
+  if (branch.response) return branch.response;
+
+  let builder = supabase
+    .from('sales_logs')
+    .select(
+      'id, bread_type_id, quantity, unit_price, discount, amount_paid, payment_method, returned, leftovers, shift, recorded_by, branch_id, promotion_id, created_at, bread_type:bread_types(name)',
+      { count: 'exact' }
+    )
+    .order('created_at', { ascending: false });
+  if (branch.branchId) builder = builder.eq('branch_id', branch.branchId);
+  if (query.shift) builder = builder.eq('shift', query.shift);
+  if (query.bread_type_id) builder = builder.eq('bread_type_id', query.bread_type_id);
+  if (query.recorded_by) builder = builder.eq('recorded_by', query.recorded_by);
+  if (query.created_after) builder = builder.gte('created_at', query.created_after);
+  if (query.created_before) builder = builder.lt('created_at', query.created_before);
+
+  const { data, count, error } = await builder.range(...pageRange(query.page, query.per_page));
+  if (error) throw error;
+
+  const sales: ApiSale[] = (data || []).map(({ bread_type, shift, ...sale }) => ({
+    ...sale,
+    shift: shift as ApiSale['shift'],
+    bread_type: bread_type?.name ?? null,
+    total: Math.max((sale.unit_price ?? 0) * sale.quantity - (sale.discount ?? 0), 0),
+  }));
+
+  return apiList(sales, query.page, query.per_page, count ?? 0);
+});
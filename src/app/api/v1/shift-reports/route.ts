@@ -0,0 +1,37 @@
+import { branchFor, withApiKey } from '@/lib/api/authenticate';
+import { apiList, pageRange, parseQuery } from '@/lib/api/respond';
+import { apiShiftReportQuerySchema, type ApiShiftReport } from '@/lib/validations/api';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withApiKey('reports.view', async (request, { key, supabase }) => {
+  const { data: query, response } = parseQuery(apiShiftReportQuerySchema, request.nextUrl.searchParams);
+  if (response) return response;
+
+  const branch = branchFor(key, query.branch_id);
+  if (branch.response) return branch.response;
+
+  let builder = supabase
+    .from('shift_reports')
+    .select(
+      'id, user_id, branch_id, shift, report_date, total_revenue, total_items_sold, total_remaining, total_voided, counted_cash, counted_transfer, cash_variance, transfer_variance, feedback, created_at, updated_at',
+      { count: 'exact' }
+    )
+    .order('report_date', { ascending: false })
+    .order('created_at', { ascending: false });
+  if (branch.branchId) builder = builder.eq('branch_id', branch.branchId);
+  if (query.shift) builder = builder.eq('shift', query.shift);
+  if (query.user_id) builder = builder.eq('user_id', query.user_id);
+  if (query.from_date) builder = builder.gte('report_date', query.from_date);
+  if (query.to_date) builder = builder.lte('report_date', query.to_date);
+
+  const { data, count, error } = await builder.range(...pageRange(query.page, query.per_page));
+  if (error) throw error;
+
+  const reports: ApiShiftReport[] = (data || []).map(report => ({
+    ...report,
+    shift: report.shift as ApiShiftReport['shift'],
+  }));
+
+  return apiList(reports, query.page, query.per_page, count ?? 0);
+});
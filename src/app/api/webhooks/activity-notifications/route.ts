@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import type { ShiftType } from '@/types';
 
 /**
  * Webhook endpoint for real-time activity-triggered notifications
@@ -14,7 +15,7 @@ interface WebhookActivityData {
     user_name: string;
     user_role: 'manager' | 'sales_rep';
     activity_type: 'sale' | 'batch' | 'report' | 'login' | 'end_shift' | 'created';
-    shift?: 'morning' | 'night';
+    shift?: ShiftType;
     message: string;
     metadata?: Record<string, unknown>;
     created_at: string;
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  verifyWebhookSignature,
+} from '@/lib/webhooks/signature';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Local webhook receiver for development
+ *
+ * Point a subscription at http://localhost:3000/api/webhooks/test-receiver
+ * and GET the same URL to see what arrived. With WEBHOOK_TEST_RECEIVER_SECRET
+ * set to the subscription's secret, signatures are checked too. Add
+ * ?status=500 (or any code) to the subscription URL to watch retries.
+ * Not available in production.
+ */
+
+interface ReceivedWebhook {
+  received_at: string;
+  event: string | null;
+  delivery: string | null;
+  signature: 'valid' | 'invalid' | 'unchecked';
+  signature_error?: string;
+  answered: number;
+  body: unknown;
+}
+
+const KEEP = 50;
+
+// Survives hot reloads in next dev
+const store = globalThis as typeof globalThis & { __homebakeWebhooks?: ReceivedWebhook[] };
+const received = () => (store.__homebakeWebhooks ??= []);
+
+const notFound = () => NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+export async function POST(request: NextRequest) {
+  if (process.env.NODE_ENV === 'production') return notFound();
+
+  const raw = await request.text();
+  const secret = process.env.WEBHOOK_TEST_RECEIVER_SECRET;
+  const check = secret
+    ? verifyWebhookSignature(raw, request.headers.get(WEBHOOK_SIGNATURE_HEADER), secret)
+    : null;
+
+  const requested = Number(request.nextUrl.searchParams.get('status'));
+  const status = check && !check.valid
+    ? 401
+    : Number.isInteger(requested) && requested >= 200 && requested <= 599 ? requested : 200;
+
+  let body: unknown = raw;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    // Kept as text
+  }
+
+  received().unshift({
+    received_at: new Date().toISOString(),
+    event: request.headers.get(WEBHOOK_EVENT_HEADER),
+    delivery: request.headers.get(WEBHOOK_DELIVERY_HEADER),
+    signature: check ? (check.valid ? 'valid' : 'invalid') : 'unchecked',
+    ...(check?.reason && { signature_error: check.reason }),
+    answered: status,
+    body,
+  });
+  received().splice(KEEP);
+
+  console.log(`🪝 Test receiver got ${request.headers.get(WEBHOOK_EVENT_HEADER)} (answered ${status})`);
+  return NextResponse.json({ received: status < 300, signature: check?.valid ?? null }, { status });
+}
+
+export async function GET() {
+  if (process.env.NODE_ENV === 'production') return notFound();
+  return NextResponse.json({ count: received().length, webhooks: received() });
+}
+
+export async function DELETE() {
+  if (process.env.NODE_ENV === 'production') return notFound();
+  received().splice(0);
+  return NextResponse.json({ success: true });
+}
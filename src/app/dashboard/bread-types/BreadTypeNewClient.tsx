@@ -11,13 +11,7 @@ interface BreadTypeFormData {
   unit_price: number;
 }
 
-interface User {
-  id: string;
-  email?: string;
-  role: string;
-}
-
-export default function BreadTypeNewClient({ initialValues, user }: { initialValues: Partial<BreadTypeFormData> | null; user: User }) {
+export default function BreadTypeNewClient({ initialValues }: { initialValues: Partial<BreadTypeFormData> | null }) {
   const [formLoading, setFormLoading] = useState(false);
   const { showNotification } = useMobileNotifications();
   const router = useRouter();
@@ -28,10 +22,10 @@ export default function BreadTypeNewClient({ initialValues, user }: { initialVal
     setFormLoading(true);
     try {
       if (id) {
-        await updateBreadTypeAction(user, id, data);
+        await updateBreadTypeAction(id, data);
         showNotification(NotificationHelpers.success('Success', 'Bread type updated!'));
       } else {
-        await createBreadTypeAction(user, data);
+        await createBreadTypeAction(data);
         showNotification(NotificationHelpers.success('Success', 'Bread type created!'));
       }
       router.push('/dashboard/bread-types');
@@ -11,14 +11,17 @@ import {
 } from './actions';
 import { useRouter } from 'next/navigation';
 import { BreadType } from '@/types/database';
+import type { Branch } from '@/types';
 import { 
   RefreshCw, Cookie, MoreVertical, Edit, Trash2, Loader2, Plus, DollarSign, 
-  Package, CheckCircle, XCircle, Power, PowerOff, Eye, EyeOff 
+  Package, CheckCircle, XCircle, Power, PowerOff, Eye, EyeOff, History, CalendarClock 
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { withRetry } from '@/lib/utils/error-handling';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { QUERY_KEYS } from '@/lib/react-query/config';
+import { getScheduledPriceChanges } from '@/lib/bread-types/price-actions';
+import { PriceHistoryModal, priceHistoryKeys } from '@/components/modals/PriceHistoryModal';
 
 interface User {
   id: string;
@@ -26,11 +29,19 @@ interface User {
   role: string;
 }
 
-export default function BreadTypesClient({ breadTypes: initialBreadTypes, user }: { breadTypes: BreadType[]; user: User }) {
+interface BreadTypesClientProps {
+  breadTypes: BreadType[];
+  user: User;
+  canEditPrices: boolean;
+  branches: Branch[];
+}
+
+export default function BreadTypesClient({ breadTypes: initialBreadTypes, user, canEditPrices, branches }: BreadTypesClientProps) {
   const [loadingId, setLoadingId] = useState<string | null>(null);
   const [loadingAction, setLoadingAction] = useState<string | null>(null);
   const [activeDropdownId, setActiveDropdownId] = useState<string | null>(null);
   const [showInactive, setShowInactive] = useState(false);
+  const [priceHistoryFor, setPriceHistoryFor] = useState<BreadType | null>(null);
   const router = useRouter();
   const { showNotification } = useMobileNotifications();
   const queryClient = useQueryClient();
@@ -47,6 +58,11 @@ export default function BreadTypesClient({ breadTypes: initialBreadTypes, user }
     refetchOnMount: true, // Refetch on mount to ensure fresh data
   });
   
+  const { data: scheduledPrices = [] } = useQuery({
+    queryKey: priceHistoryKeys.scheduled(),
+    queryFn: () => getScheduledPriceChanges(),
+  });
+
   // Filter bread types for display based on showInactive toggle
   const breadTypes = showInactive 
     ? allBreadTypes 
@@ -84,7 +100,7 @@ export default function BreadTypesClient({ breadTypes: initialBreadTypes, user }
     
     try {
       const result = await withRetry(async () => {
-        return await deactivateBreadTypeAction(user, breadType.id);
+        return await deactivateBreadTypeAction(breadType.id);
       }, 2, 1500);
       
       if (result?.success) {
@@ -115,7 +131,7 @@ export default function BreadTypesClient({ breadTypes: initialBreadTypes, user }
     
     try {
       const result = await withRetry(async () => {
-        return await reactivateBreadTypeAction(user, breadType.id);
+        return await reactivateBreadTypeAction(breadType.id);
       }, 2, 1500);
       
       if (result?.success) {
@@ -157,7 +173,7 @@ export default function BreadTypesClient({ breadTypes: initialBreadTypes, user }
     
     try {
       const result = await withRetry(async () => {
-        return await deleteBreadTypeAction(user, breadType.id);
+        return await deleteBreadTypeAction(breadType.id);
       }, 2, 1500);
       
       if (result?.success) {
@@ -219,6 +235,16 @@ export default function BreadTypesClient({ breadTypes: initialBreadTypes, user }
         },
         disabled: isLoading(breadType.id, 'edit'),
         className: 'text-blue-600 hover:bg-blue-50'
+      },
+      {
+        label: 'Price History',
+        icon: <History className="w-4 h-4" />,
+        onClick: () => {
+          setPriceHistoryFor(breadType);
+          setActiveDropdownId(null);
+        },
+        disabled: false,
+        className: 'text-gray-700 hover:bg-gray-50'
       }
     ];
 
@@ -541,6 +567,7 @@ export default function BreadTypesClient({ breadTypes: initialBreadTypes, user }
             ) : (
               breadTypes.map((breadType, index) => {
                 const isActive = breadType.is_active !== false;
+                const nextPrice = scheduledPrices.find(price => price.bread_type_id === breadType.id);
                 return (
                   <motion.div
                     key={breadType.id}
@@ -606,6 +633,14 @@ export default function BreadTypesClient({ breadTypes: initialBreadTypes, user }
                             <span className="text-xs md:text-sm font-semibold text-green-600 bg-green-50 px-2 py-1 rounded-full">
                               {formatPrice(breadType.unit_price)}
                             </span>
+                            {nextPrice && (
+                              <span className="inline-flex items-center text-xs md:text-sm text-amber-700 bg-amber-50 px-2 py-1 rounded-full">
+                                <CalendarClock className="w-3 h-3 mr-1" />
+                                {nextPrice.unit_price === null ? 'Standard price' : formatPrice(nextPrice.unit_price)}
+                                {nextPrice.branch_name && ` at ${nextPrice.branch_name}`}
+                                {` from ${new Date(nextPrice.effective_from).toLocaleDateString()}`}
+                              </span>
+                            )}
                           </div>
                           
                           {/* Status Badge */}
@@ -639,6 +674,13 @@ export default function BreadTypesClient({ breadTypes: initialBreadTypes, user }
           </motion.div>
         </AnimatePresence>
       </motion.div>
+
+      <PriceHistoryModal
+        breadType={priceHistoryFor}
+        canEdit={canEditPrices}
+        branches={branches}
+        onClose={() => setPriceHistoryFor(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
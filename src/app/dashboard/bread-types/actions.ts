@@ -7,19 +7,17 @@ import {
   reactivateBreadType,
   getBreadTypes 
 } from '@/lib/bread-types/actions';
+import { breadTypeSchema, breadTypeUpdateSchema, formatValidationError } from '@/lib/validations';
 import { revalidatePath } from 'next/cache';
-import { User } from '@/types/database';
 
-export async function createBreadTypeAction(user: unknown, input: unknown) {
+export async function createBreadTypeAction(input: unknown) {
+  const parsed = breadTypeSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: formatValidationError(parsed.error) };
+  }
+
   try {
-    // Convert User type from database.ts to rbac.ts format
-    const rbacUser = user as { id: string; email?: string | null; role: string };
-    const convertedUser = {
-      id: rbacUser.id,
-      email: rbacUser.email || undefined,
-      role: rbacUser.role as 'owner' | 'manager' | 'sales_rep'
-    };
-    await createBreadType(convertedUser, input as any);
+    await createBreadType(parsed.data);
     revalidatePath('/dashboard/bread-types');
     return { success: true };
   } catch {
@@ -27,16 +25,14 @@ export async function createBreadTypeAction(user: unknown, input: unknown) {
   }
 }
 
-export async function updateBreadTypeAction(user: unknown, id: string, input: unknown) {
+export async function updateBreadTypeAction(id: string, input: unknown) {
+  const parsed = breadTypeUpdateSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: formatValidationError(parsed.error) };
+  }
+
   try {
-    // Convert User type from database.ts to rbac.ts format
-    const rbacUser = user as { id: string; email?: string | null; role: string };
-    const convertedUser = {
-      id: rbacUser.id,
-      email: rbacUser.email || undefined,
-      role: rbacUser.role as 'owner' | 'manager' | 'sales_rep'
-    };
-    await updateBreadType(convertedUser, id, input as any);
+    await updateBreadType(id, parsed.data);
     revalidatePath('/dashboard/bread-types');
     return { success: true };
   } catch {
@@ -44,16 +40,9 @@ export async function updateBreadTypeAction(user: unknown, id: string, input: un
   }
 }
 
-export async function deleteBreadTypeAction(user: unknown, id: string) {
+export async function deleteBreadTypeAction(id: string) {
   try {
-    // Convert User type from database.ts to rbac.ts format
-    const rbacUser = user as { id: string; email?: string | null; role: string };
-    const convertedUser = {
-      id: rbacUser.id,
-      email: rbacUser.email || undefined,
-      role: rbacUser.role as 'owner' | 'manager' | 'sales_rep'
-    };
-    await deleteBreadType(convertedUser, id);
+    await deleteBreadType(id);
     revalidatePath('/dashboard/bread-types');
     return { success: true };
   } catch (error) {
@@ -73,16 +62,9 @@ export async function refetchBreadTypesAction(includeInactive: boolean = false)
 }
 
 // New server actions for soft delete operations
-export async function deactivateBreadTypeAction(user: unknown, id: string) {
+export async function deactivateBreadTypeAction(id: string) {
   try {
-    // Convert User type from database.ts to rbac.ts format
-    const rbacUser = user as { id: string; email?: string | null; role: string };
-    const convertedUser = {
-      id: rbacUser.id,
-      email: rbacUser.email || undefined,
-      role: rbacUser.role as 'owner' | 'manager' | 'sales_rep'
-    };
-    await deactivateBreadType(convertedUser, id);
+    await deactivateBreadType(id);
     revalidatePath('/dashboard/bread-types');
     return { success: true };
   } catch (error) {
@@ -92,16 +74,9 @@ export async function deactivateBreadTypeAction(user: unknown, id: string) {
   }
 }
 
-export async function reactivateBreadTypeAction(user: unknown, id: string) {
+export async function reactivateBreadTypeAction(id: string) {
   try {
-    // Convert User type from database.ts to rbac.ts format
-    const rbacUser = user as { id: string; email?: string | null; role: string };
-    const convertedUser = {
-      id: rbacUser.id,
-      email: rbacUser.email || undefined,
-      role: rbacUser.role as 'owner' | 'manager' | 'sales_rep'
-    };
-    await reactivateBreadType(convertedUser, id);
+    await reactivateBreadType(id);
     revalidatePath('/dashboard/bread-types');
     return { success: true };
   } catch (error) {
@@ -18,13 +18,7 @@ interface BreadType {
   unit_price: number;
 }
 
-interface User {
-  id: string;
-  email?: string;
-  role: string;
-}
-
-export default function BreadTypeNewClient({ initialValues, user }: { initialValues: BreadType | null; user: User }) {
+export default function BreadTypeNewClient({ initialValues }: { initialValues: BreadType | null }) {
   const [formLoading, setFormLoading] = useState(false);
   const toast = useToast();
   const router = useRouter();
@@ -42,7 +36,7 @@ export default function BreadTypeNewClient({ initialValues, user }: { initialVal
       if (id) {
         // Update existing bread type
         result = await withRetry(async () => {
-          return await updateBreadTypeAction(user, id, data);
+          return await updateBreadTypeAction(id, data);
         }, 2, 1500);
         
         if (result?.success) {
@@ -62,7 +56,7 @@ export default function BreadTypeNewClient({ initialValues, user }: { initialVal
       } else {
         // Create new bread type
         result = await withRetry(async () => {
-          return await createBreadTypeAction(user, data);
+          return await createBreadTypeAction(data);
         }, 2, 1500);
         
         if (result?.success) {
@@ -53,7 +53,7 @@ export default async function BreadTypeNewPage({ searchParams }: PageProps) {
   return (
     <OwnerPageWrapper displayName={displayName}>
       <Suspense fallback={<div>Loading...</div>}>
-        <BreadTypeNewClient initialValues={initialValues} user={user} />
+        <BreadTypeNewClient initialValues={initialValues} />
       </Suspense>
     </OwnerPageWrapper>
   );
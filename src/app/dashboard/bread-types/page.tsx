@@ -1,4 +1,6 @@
 import { getBreadTypes } from '@/lib/bread-types/actions';
+import { getBranches } from '@/lib/branches/actions';
+import { hasPermission } from '@/lib/auth/auth-utils';
 import { createServerComponentClient } from '@/lib/supabase/server';
 import { OwnerPageWrapper } from '@/components/layout/OwnerPageWrapper';
 import BreadTypesClient from './BreadTypesClient';
@@ -32,13 +34,17 @@ export default async function BreadTypesPage() {
     return <div className="p-8 text-center text-destructive">Access denied. Only owners and managers can access this page.</div>;
   }
 
-  const breadTypes = await getBreadTypes(true); // Include inactive for management view
+  const [breadTypes, canEditPrices, branches] = await Promise.all([
+    getBreadTypes(true), // Include inactive for management view
+    hasPermission('prices.edit'),
+    user.role === 'owner' ? getBranches() : Promise.resolve([]),
+  ]);
   const displayName = user.email?.split('@')[0] || 'Owner';
 
   return (
     <OwnerPageWrapper displayName={displayName}>
       <Suspense fallback={<div>Loading...</div>}>
-        <BreadTypesClient breadTypes={breadTypes} user={user} />
+        <BreadTypesClient breadTypes={breadTypes} user={user} canEditPrices={canEditPrices} branches={branches} />
       </Suspense>
     </OwnerPageWrapper>
   );
@@ -0,0 +1,421 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, BookUser, Plus, Loader2, Download, ChevronRight, Save } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Modal } from '@/components/ui/modal';
+import { formatCurrencyNGN } from '@/lib/utils/currency';
+import { exportCustomerStatementToCSV } from '@/lib/reports/export';
+import {
+  createCustomer,
+  updateCustomer,
+  recordCustomerPayment,
+  getCustomerStatement,
+} from '@/lib/customers/actions';
+import type { CustomerAccount } from '@/lib/customers/ledger';
+
+interface CustomersClientProps {
+  displayName: string;
+  customers: CustomerAccount[];
+  canViewDebtors: boolean;
+}
+
+interface CustomerAccountModalProps {
+  customer: CustomerAccount | null;
+  onClose: () => void;
+  onChanged: () => Promise<void>;
+}
+
+function CustomerAccountModal({ customer, onClose, onChanged }: CustomerAccountModalProps) {
+  const [payment, setPayment] = useState('');
+  const [paymentNote, setPaymentNote] = useState('');
+  const [isPaying, setIsPaying] = useState(false);
+  const [phone, setPhone] = useState('');
+  const [creditLimit, setCreditLimit] = useState('');
+  const [isActive, setIsActive] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  // Reset the form whenever a different customer is opened
+  useEffect(() => {
+    setPayment('');
+    setPaymentNote('');
+    setPhone(customer?.phone || '');
+    setCreditLimit(String(customer?.credit_limit ?? 0));
+    setIsActive(customer?.is_active ?? true);
+    setFrom('');
+    setTo('');
+  }, [customer?.id, customer?.phone, customer?.credit_limit, customer?.is_active]);
+
+  const { data: statement, isLoading: loadingStatement, refetch } = useQuery({
+    queryKey: ['customers', 'statement', customer?.id, from, to],
+    queryFn: () => getCustomerStatement({
+      customer_id: customer?.id,
+      from: from || undefined,
+      to: to || undefined,
+    }),
+    enabled: !!customer,
+  });
+
+  const handlePayment = async () => {
+    if (!customer) return;
+    setIsPaying(true);
+    try {
+      const result = await recordCustomerPayment({
+        customer_id: customer.id,
+        amount: Number(payment),
+        note: paymentNote || undefined,
+      });
+      if (result.success) {
+        toast.success(`Payment of ${formatCurrencyNGN(Number(payment))} recorded`);
+        setPayment('');
+        setPaymentNote('');
+        await refetch();
+        await onChanged();
+      } else {
+        toast.error(result.error || 'Failed to record payment');
+      }
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!customer) return;
+    setIsSaving(true);
+    try {
+      const result = await updateCustomer(customer.id, {
+        name: customer.name,
+        phone: phone || null,
+        credit_limit: Number(creditLimit),
+        is_active: isActive,
+      });
+      if (result.success) {
+        toast.success('Customer updated');
+        await onChanged();
+      } else {
+        toast.error(result.error || 'Failed to update customer');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isDirty = !!customer && (
+    phone !== (customer.phone || '') ||
+    Number(creditLimit) !== customer.credit_limit ||
+    isActive !== customer.is_active
+  );
+
+  return (
+    <Modal
+      isOpen={!!customer}
+      onClose={onClose}
+      title={customer ? customer.name : undefined}
+      footer={
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => statement && exportCustomerStatementToCSV(statement)}
+          disabled={!statement || statement.lines.length === 0}
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Export statement (CSV)
+        </Button>
+      }
+    >
+      {customer && (
+        <div className="space-y-5 text-sm">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="rounded-lg bg-orange-50 p-3">
+              <div className="text-xs text-gray-500">Owes</div>
+              <div className={`text-lg font-bold ${customer.balance > customer.credit_limit ? 'text-red-600' : 'text-gray-900'}`}>
+                {formatCurrencyNGN(customer.balance)}
+              </div>
+            </div>
+            <div className="rounded-lg bg-gray-50 p-3">
+              <div className="text-xs text-gray-500">Credit limit</div>
+              <div className="text-lg font-bold text-gray-900">{formatCurrencyNGN(customer.credit_limit)}</div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="font-semibold text-gray-900">Record a repayment</h3>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="Amount"
+                value={payment}
+                onChange={(e) => setPayment(e.target.value)}
+              />
+              <Button
+                onClick={handlePayment}
+                disabled={isPaying || !(Number(payment) > 0)}
+                className="flex-shrink-0"
+              >
+                {isPaying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Record
+              </Button>
+            </div>
+            <Input
+              placeholder="Note (optional), e.g. bank transfer"
+              maxLength={200}
+              value={paymentNote}
+              onChange={(e) => setPaymentNote(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="font-semibold text-gray-900">Account details</h3>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="customer-phone">Phone</Label>
+                <Input id="customer-phone" value={phone} onChange={(e) => setPhone(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="customer-limit">Credit limit</Label>
+                <Input
+                  id="customer-limit"
+                  type="number"
+                  min={0}
+                  step={100}
+                  value={creditLimit}
+                  onChange={(e) => setCreditLimit(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <Checkbox
+                checked={isActive}
+                onChange={(e) => setIsActive(e.target.checked)}
+                label={isActive ? 'Active' : 'Inactive (hidden when recording sales)'}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleSave}
+                disabled={!isDirty || isSaving || creditLimit === '' || Number(creditLimit) < 0}
+              >
+                {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="font-semibold text-gray-900">Statement</h3>
+            <div className="grid grid-cols-2 gap-2">
+              <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} aria-label="Statement from" />
+              <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} aria-label="Statement to" />
+            </div>
+            {loadingStatement ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-orange-500" />
+              </div>
+            ) : !statement || statement.lines.length === 0 ? (
+              <p className="text-gray-500 py-2">No transactions in this period</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                <li className="py-2 flex justify-between text-xs text-gray-500">
+                  <span>Opening balance</span>
+                  <span>{formatCurrencyNGN(statement.opening_balance)}</span>
+                </li>
+                {statement.lines.map((line, index) => (
+                  <li key={`${line.date}-${index}`} className="py-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="text-gray-900">{line.description}</div>
+                        <div className="text-xs text-gray-400">
+                          {new Date(line.date).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                          {' • '}{line.recorded_by}
+                        </div>
+                      </div>
+                      <div className="text-right flex-shrink-0">
+                        {line.charge > 0 && <div className="text-gray-900">+{formatCurrencyNGN(line.charge)}</div>}
+                        {line.credit > 0 && <div className="text-green-600">-{formatCurrencyNGN(line.credit)}</div>}
+                        <div className="text-xs text-gray-500">{formatCurrencyNGN(line.balance)}</div>
+                      </div>
+                    </div>
+                  </li>
+                ))}
+                <li className="py-2 flex justify-between font-semibold">
+                  <span>Closing balance</span>
+                  <span>{formatCurrencyNGN(statement.closing_balance)}</span>
+                </li>
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
+
+export default function CustomersClient({ displayName, customers, canViewDebtors }: CustomersClientProps) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [creditLimit, setCreditLimit] = useState('0');
+  const [isCreating, setIsCreating] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const selected = customers.find(customer => customer.id === selectedId) || null;
+  const totalOwed = customers.reduce((sum, customer) => sum + Math.max(customer.balance, 0), 0);
+
+  const refresh = async () => {
+    await queryClient.invalidateQueries({ queryKey: ['customers'] });
+    router.refresh();
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const result = await createCustomer({
+        name,
+        phone: phone || null,
+        credit_limit: Number(creditLimit),
+      });
+      if (result.success) {
+        toast.success('Customer added');
+        setName('');
+        setPhone('');
+        setCreditLimit('0');
+        await refresh();
+      } else {
+        toast.error(result.error || 'Failed to add customer');
+      }
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Mobile-First Header with Back Button */}
+      <div className="bg-gradient-to-r from-orange-500 to-amber-500 text-white">
+        <div className="px-3 sm:px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-2 sm:gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl touch-manipulation flex-shrink-0"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="bg-white/20 p-2 sm:p-3 rounded-xl flex-shrink-0">
+              <BookUser className="h-5 w-5 sm:h-6 sm:w-6" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg sm:text-2xl font-bold truncate">Customers</h1>
+              <p className="text-orange-100 text-xs sm:text-sm truncate">
+                Credit accounts & repayments • {displayName}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content Area - Full Screen Scrollable */}
+      <div className="flex-1 overflow-y-auto bg-gradient-to-b from-orange-50/30 to-amber-50/30">
+        <div className="px-3 sm:px-4 py-4 space-y-4 max-w-2xl mx-auto w-full">
+          <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+            <h2 className="font-semibold text-gray-900">Add customer</h2>
+            <Input placeholder="Name, e.g. Mama Ngozi Stores" value={name} onChange={(e) => setName(e.target.value)} />
+            <div className="grid grid-cols-2 gap-2">
+              <Input placeholder="Phone (optional)" value={phone} onChange={(e) => setPhone(e.target.value)} />
+              <Input
+                type="number"
+                min={0}
+                step={100}
+                placeholder="Credit limit"
+                value={creditLimit}
+                onChange={(e) => setCreditLimit(e.target.value)}
+                aria-label="Credit limit"
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              The credit limit is the most this customer may owe. Leave it at 0 for customers who always pay in full.
+            </p>
+            <Button
+              onClick={handleCreate}
+              disabled={isCreating || name.trim().length < 2 || creditLimit === '' || Number(creditLimit) < 0}
+              className="w-full"
+            >
+              {isCreating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Add customer
+            </Button>
+          </section>
+
+          {canViewDebtors && (
+            <Link
+              href="/dashboard/customers/debtors"
+              className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm flex items-center gap-3"
+            >
+              <div className="flex-1">
+                <div className="font-semibold text-gray-900">Debtors report</div>
+                <div className="text-xs text-gray-500">Who owes what, and for how long</div>
+              </div>
+              <span className="text-sm font-semibold text-red-600">{formatCurrencyNGN(totalOwed)}</span>
+              <ChevronRight className="h-4 w-4 text-gray-400" />
+            </Link>
+          )}
+
+          <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-2">
+            <h2 className="font-semibold text-gray-900">Accounts</h2>
+            {customers.length === 0 ? (
+              <p className="text-sm text-gray-500 py-2">No customers yet</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {customers.map(customer => (
+                  <li key={customer.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(customer.id)}
+                      className="w-full py-3 flex items-center justify-between gap-2 text-left text-sm"
+                    >
+                      <div className="min-w-0">
+                        <div className={`font-medium ${customer.is_active ? 'text-gray-900' : 'text-gray-400'}`}>
+                          {customer.name}{customer.is_active ? '' : ' (inactive)'}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {customer.phone || 'No phone'} • limit {formatCurrencyNGN(customer.credit_limit)}
+                        </div>
+                      </div>
+                      <div className="text-right flex-shrink-0">
+                        <div className={`font-semibold ${
+                          customer.balance > customer.credit_limit
+                            ? 'text-red-600'
+                            : customer.balance > 0 ? 'text-orange-600' : 'text-gray-500'
+                        }`}>
+                          {formatCurrencyNGN(customer.balance)}
+                        </div>
+                        <div className="text-xs text-gray-400">
+                          {customer.last_payment_at
+                            ? `Paid ${new Date(customer.last_payment_at).toLocaleDateString()}`
+                            : 'No payments yet'}
+                        </div>
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+
+      <CustomerAccountModal customer={selected} onClose={() => setSelectedId(null)} onChanged={refresh} />
+    </div>
+  );
+}
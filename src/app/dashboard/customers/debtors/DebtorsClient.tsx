@@ -0,0 +1,142 @@
+'use client';
+
+import React from 'react';
+import { ArrowLeft, HandCoins, Download, AlertTriangle } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { formatCurrencyNGN } from '@/lib/utils/currency';
+import { exportDebtorsToCSV } from '@/lib/reports/export';
+import type { Debtor } from '@/lib/customers/ledger';
+
+interface DebtorsClientProps {
+  displayName: string;
+  debtors: Debtor[];
+}
+
+const AGING_BUCKETS: { key: keyof Debtor['aging']; label: string }[] = [
+  { key: 'current', label: '0-7 days' },
+  { key: 'days_8_30', label: '8-30 days' },
+  { key: 'days_31_60', label: '31-60 days' },
+  { key: 'over_60', label: '60+ days' },
+];
+
+export default function DebtorsClient({ displayName, debtors }: DebtorsClientProps) {
+  const router = useRouter();
+
+  const totalOwed = debtors.reduce((sum, debtor) => sum + debtor.balance, 0);
+  const totals = AGING_BUCKETS.map(bucket => ({
+    ...bucket,
+    amount: debtors.reduce((sum, debtor) => sum + debtor.aging[bucket.key], 0),
+  }));
+  const overLimit = debtors.filter(debtor => debtor.over_limit).length;
+
+  const handleExport = () => {
+    try {
+      exportDebtorsToCSV(debtors);
+      toast.success('Debtors report exported');
+    } catch (error) {
+      console.error('Error exporting debtors report:', error);
+      toast.error('Failed to export debtors report');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Mobile-First Header with Back Button */}
+      <div className="bg-gradient-to-r from-orange-500 to-amber-500 text-white">
+        <div className="px-3 sm:px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-2 sm:gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl touch-manipulation flex-shrink-0"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="bg-white/20 p-2 sm:p-3 rounded-xl flex-shrink-0">
+              <HandCoins className="h-5 w-5 sm:h-6 sm:w-6" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg sm:text-2xl font-bold truncate">Debtors</h1>
+              <p className="text-orange-100 text-xs sm:text-sm truncate">
+                Outstanding customer balances • {displayName}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content Area - Full Screen Scrollable */}
+      <div className="flex-1 overflow-y-auto bg-gradient-to-b from-orange-50/30 to-amber-50/30">
+        <div className="px-3 sm:px-4 py-4 space-y-4 max-w-2xl mx-auto w-full">
+          <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-xs text-gray-500">Total outstanding</div>
+                <div className="text-2xl font-bold text-red-600">{formatCurrencyNGN(totalOwed)}</div>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleExport} disabled={debtors.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                CSV
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {totals.map(bucket => (
+                <div key={bucket.key} className="rounded-lg bg-gray-50 p-2">
+                  <div className="text-xs text-gray-500">{bucket.label}</div>
+                  <div className="text-sm font-semibold text-gray-900">{formatCurrencyNGN(bucket.amount)}</div>
+                </div>
+              ))}
+            </div>
+            {overLimit > 0 && (
+              <div className="flex items-center gap-2 text-sm text-red-700">
+                <AlertTriangle className="h-4 w-4" />
+                {overLimit} {overLimit === 1 ? 'customer is' : 'customers are'} over their credit limit
+              </div>
+            )}
+          </section>
+
+          <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-2">
+            <h2 className="font-semibold text-gray-900">Customers who owe</h2>
+            {debtors.length === 0 ? (
+              <p className="text-sm text-gray-500 py-2">Nobody owes anything right now</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {debtors.map(debtor => (
+                  <li key={debtor.customer_id} className="py-3 text-sm space-y-1">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="font-medium text-gray-900">{debtor.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {debtor.phone || 'No phone'} • limit {formatCurrencyNGN(debtor.credit_limit)}
+                          {debtor.over_limit && <span className="text-red-600"> • over limit</span>}
+                        </div>
+                      </div>
+                      <div className="text-right flex-shrink-0">
+                        <div className="font-semibold text-red-600">{formatCurrencyNGN(debtor.balance)}</div>
+                        <div className="text-xs text-gray-400">
+                          {debtor.last_payment_at
+                            ? `Last paid ${new Date(debtor.last_payment_at).toLocaleDateString()}`
+                            : 'Never paid'}
+                        </div>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-x-3 text-xs text-gray-500">
+                      {AGING_BUCKETS.filter(bucket => debtor.aging[bucket.key] > 0).map(bucket => (
+                        <span key={bucket.key} className={bucket.key === 'over_60' ? 'text-red-600' : ''}>
+                          {bucket.label}: {formatCurrencyNGN(debtor.aging[bucket.key])}
+                        </span>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { redirect } from 'next/navigation';
+import { getAuthenticatedUser, hasPermission } from '@/lib/auth/auth-utils';
+import { getDebtorsReport } from '@/lib/customers/actions';
+import DebtorsClient from './DebtorsClient';
+
+// Force dynamic rendering for authentication
+export const dynamic = 'force-dynamic';
+
+export default async function DebtorsPage() {
+  const user = await getAuthenticatedUser();
+
+  if (!user) {
+    return redirect('/login');
+  }
+
+  if (!(await hasPermission('reports.view'))) {
+    return redirect('/dashboard');
+  }
+
+  const debtors = await getDebtorsReport();
+
+  return <DebtorsClient displayName={user.name} debtors={debtors} />;
+}
@@ -0,0 +1,32 @@
+import { redirect } from 'next/navigation';
+import { getAuthenticatedUser, hasPermission } from '@/lib/auth/auth-utils';
+import { getCustomerAccounts } from '@/lib/customers/actions';
+import CustomersClient from './CustomersClient';
+
+// Force dynamic rendering for authentication
+export const dynamic = 'force-dynamic';
+
+export default async function CustomersPage() {
+  const user = await getAuthenticatedUser();
+
+  if (!user) {
+    return redirect('/login');
+  }
+
+  if (!(await hasPermission('customers.manage'))) {
+    return redirect('/dashboard');
+  }
+
+  const [customers, canViewReports] = await Promise.all([
+    getCustomerAccounts(true),
+    hasPermission('reports.view'),
+  ]);
+
+  return (
+    <CustomersClient
+      displayName={user.name}
+      customers={customers}
+      canViewDebtors={canViewReports}
+    />
+  );
+}
@@ -0,0 +1,372 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Wheat, Plus, Save, Loader2, AlertTriangle, Truck, BookOpen, SlidersHorizontal } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BranchSelector } from '@/components/dashboards/owner/branch-selector';
+import { ALL_BRANCHES } from '@/hooks/use-branches';
+import { lowIngredientKeys } from '@/hooks/use-low-ingredients';
+import { createIngredient, updateIngredient, adjustIngredientStock } from '@/lib/ingredients/actions';
+import { INGREDIENT_UNITS } from '@/lib/validations/ingredients';
+import { formatCurrencyNGN } from '@/lib/utils/currency';
+import type { Branch, Ingredient, IngredientUnit } from '@/types';
+
+interface IngredientsClientProps {
+  displayName: string;
+  isOwner: boolean;
+  ingredients: Ingredient[];
+  branches: Branch[];
+  branchId: string | null;
+}
+
+interface IngredientDraft {
+  name: string;
+  unit: IngredientUnit;
+  reorder_level: string;
+  cost_per_unit: string;
+  is_active: boolean;
+}
+
+const EMPTY_DRAFT: IngredientDraft = { name: '', unit: 'kg', reorder_level: '0', cost_per_unit: '', is_active: true };
+
+function toInput(draft: IngredientDraft) {
+  return {
+    name: draft.name,
+    unit: draft.unit,
+    reorder_level: Number(draft.reorder_level) || 0,
+    cost_per_unit: draft.cost_per_unit.trim() === '' ? null : Number(draft.cost_per_unit),
+    is_active: draft.is_active,
+  };
+}
+
+function IngredientFields({ draft, onChange }: { draft: IngredientDraft; onChange: (draft: IngredientDraft) => void }) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div className="col-span-2">
+        <Label className="text-xs text-gray-500">Name</Label>
+        <Input value={draft.name} placeholder="e.g. Flour" onChange={(e) => onChange({ ...draft, name: e.target.value })} />
+      </div>
+      <div>
+        <Label className="text-xs text-gray-500">Unit</Label>
+        <Select value={draft.unit} onValueChange={(value) => onChange({ ...draft, unit: value as IngredientUnit })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent side="bottom">
+            {INGREDIENT_UNITS.map(unit => (
+              <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label className="text-xs text-gray-500">Reorder level</Label>
+        <Input
+          type="number"
+          min={0}
+          value={draft.reorder_level}
+          onChange={(e) => onChange({ ...draft, reorder_level: e.target.value })}
+        />
+      </div>
+      <div className="col-span-2">
+        <Label className="text-xs text-gray-500">Cost per unit (optional)</Label>
+        <Input
+          type="number"
+          min={0}
+          value={draft.cost_per_unit}
+          placeholder="Set automatically when stock is received"
+          onChange={(e) => onChange({ ...draft, cost_per_unit: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
+
+interface IngredientRowProps {
+  ingredient: Ingredient;
+  canAdjust: boolean;
+  branchId: string | null;
+  onSaved: () => void;
+}
+
+function IngredientRow({ ingredient, canAdjust, branchId, onSaved }: IngredientRowProps) {
+  const [mode, setMode] = useState<'view' | 'edit' | 'adjust'>('view');
+  const [draft, setDraft] = useState<IngredientDraft>({
+    name: ingredient.name,
+    unit: ingredient.unit,
+    reorder_level: String(ingredient.reorder_level),
+    cost_per_unit: ingredient.cost_per_unit === null ? '' : String(ingredient.cost_per_unit),
+    is_active: ingredient.is_active,
+  });
+  const [change, setChange] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await updateIngredient(ingredient.id, toInput(draft));
+      if (result.success) {
+        toast.success('Ingredient updated');
+        setMode('view');
+        onSaved();
+      } else {
+        toast.error(result.error || 'Failed to update ingredient');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdjust = async () => {
+    setIsSaving(true);
+    try {
+      const result = await adjustIngredientStock({
+        ingredient_id: ingredient.id,
+        change: Number(change),
+        notes,
+        branch_id: branchId,
+      });
+      if (result.success) {
+        toast.success(`Stock is now ${result.newQuantity} ${ingredient.unit}`);
+        setChange('');
+        setNotes('');
+        setMode('view');
+        onSaved();
+      } else {
+        toast.error(result.error || 'Failed to adjust stock');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <li className={`py-3 space-y-2 ${ingredient.is_active ? '' : 'opacity-60'}`}>
+      <div className="flex items-center gap-2 text-sm">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-1 text-gray-900 truncate">
+            {ingredient.is_low && ingredient.is_active && <AlertTriangle className="h-4 w-4 text-red-500 flex-shrink-0" />}
+            {ingredient.name}
+          </div>
+          <div className="text-xs text-gray-500">
+            Reorder at {ingredient.reorder_level} {ingredient.unit}
+            {ingredient.cost_per_unit !== null && ` • ${formatCurrencyNGN(ingredient.cost_per_unit)}/${ingredient.unit}`}
+          </div>
+        </div>
+        <div className={`text-right font-semibold ${ingredient.is_low ? 'text-red-600' : 'text-gray-900'}`}>
+          {ingredient.stock} {ingredient.unit}
+        </div>
+        {canAdjust && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setMode(mode === 'adjust' ? 'view' : 'adjust')}
+            aria-label={`Adjust ${ingredient.name} stock`}
+          >
+            <SlidersHorizontal className="h-4 w-4" />
+          </Button>
+        )}
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => setMode(mode === 'edit' ? 'view' : 'edit')}
+        >
+          Edit
+        </Button>
+      </div>
+
+      {mode === 'edit' && (
+        <div className="space-y-2 bg-gray-50 rounded-lg p-3">
+          <IngredientFields draft={draft} onChange={setDraft} />
+          <Checkbox
+            checked={draft.is_active}
+            onChange={(e) => setDraft({ ...draft, is_active: e.target.checked })}
+            label={draft.is_active ? 'Active' : 'Inactive (hidden from recipes and alerts)'}
+          />
+          <Button type="button" size="sm" onClick={handleSave} disabled={isSaving} className="w-full">
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+            Save
+          </Button>
+        </div>
+      )}
+
+      {mode === 'adjust' && (
+        <div className="space-y-2 bg-gray-50 rounded-lg p-3">
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <Label className="text-xs text-gray-500">Change ({ingredient.unit})</Label>
+              <Input type="number" value={change} placeholder="-2.5" onChange={(e) => setChange(e.target.value)} />
+            </div>
+            <div className="col-span-2">
+              <Label className="text-xs text-gray-500">Reason</Label>
+              <Input value={notes} placeholder="e.g. Stock count, spillage" onChange={(e) => setNotes(e.target.value)} />
+            </div>
+          </div>
+          <Button
+            type="button"
+            size="sm"
+            onClick={handleAdjust}
+            disabled={isSaving || !change || Number(change) === 0 || !notes.trim()}
+            className="w-full"
+          >
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Record adjustment'}
+          </Button>
+        </div>
+      )}
+    </li>
+  );
+}
+
+export default function IngredientsClient({ displayName, isOwner, ingredients, branches, branchId }: IngredientsClientProps) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [newDraft, setNewDraft] = useState<IngredientDraft>(EMPTY_DRAFT);
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Stock can only be adjusted for a specific branch, not the all-branches total
+  const canAdjust = !isOwner || branchId !== null;
+  const lowCount = ingredients.filter(ingredient => ingredient.is_active && ingredient.is_low).length;
+  const branchQuery = branchId ? `?branch=${branchId}` : '';
+
+  const refresh = async () => {
+    await queryClient.invalidateQueries({ queryKey: lowIngredientKeys.all() });
+    router.refresh();
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const result = await createIngredient(toInput(newDraft));
+      if (result.success) {
+        toast.success('Ingredient added');
+        setNewDraft(EMPTY_DRAFT);
+        await refresh();
+      } else {
+        toast.error(result.error || 'Failed to add ingredient');
+      }
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Mobile-First Header with Back Button */}
+      <div className="bg-gradient-to-r from-orange-500 to-amber-500 text-white">
+        <div className="px-3 sm:px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-2 sm:gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl touch-manipulation flex-shrink-0"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="bg-white/20 p-2 sm:p-3 rounded-xl flex-shrink-0">
+              <Wheat className="h-5 w-5 sm:h-6 sm:w-6" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg sm:text-2xl font-bold truncate">Ingredients</h1>
+              <p className="text-orange-100 text-xs sm:text-sm truncate">
+                Raw materials & stock • {displayName}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content Area - Full Screen Scrollable */}
+      <div className="flex-1 overflow-y-auto bg-gradient-to-b from-orange-50/30 to-amber-50/30">
+        <div className="px-3 sm:px-4 py-4 space-y-4 max-w-2xl mx-auto w-full">
+
+          <div className="grid grid-cols-2 gap-3">
+            <Link href={`/dashboard/ingredients/receive${branchQuery}`}>
+              <Button variant="outline" className="w-full">
+                <Truck className="h-4 w-4 mr-2" />
+                Receive stock
+              </Button>
+            </Link>
+            <Link href="/dashboard/ingredients/recipes">
+              <Button variant="outline" className="w-full">
+                <BookOpen className="h-4 w-4 mr-2" />
+                Recipes
+              </Button>
+            </Link>
+          </div>
+
+          {isOwner && (
+            <BranchSelector
+              branches={branches}
+              value={branchId ?? ALL_BRANCHES}
+              onChange={(value) => router.push(
+                value === ALL_BRANCHES ? '/dashboard/ingredients' : `/dashboard/ingredients?branch=${value}`
+              )}
+              allLabel="All branches (total)"
+              className="bg-white"
+            />
+          )}
+
+          {lowCount > 0 && (
+            <div className="flex items-center gap-2 rounded-xl border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              {lowCount} ingredient{lowCount === 1 ? ' is' : 's are'} at or below the reorder level
+            </div>
+          )}
+
+          {/* Stock list */}
+          <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+            <div>
+              <h2 className="font-semibold text-gray-900">Stock</h2>
+              <p className="text-xs text-gray-500">
+                Completed batches use up ingredients automatically based on each recipe.
+              </p>
+            </div>
+            {ingredients.length === 0 ? (
+              <p className="text-sm text-gray-400 text-center py-2">No ingredients yet</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {ingredients.map(ingredient => (
+                  <IngredientRow
+                    key={ingredient.id}
+                    ingredient={ingredient}
+                    canAdjust={canAdjust}
+                    branchId={branchId}
+                    onSaved={refresh}
+                  />
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {/* New ingredient */}
+          <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+            <h2 className="font-semibold text-gray-900">New ingredient</h2>
+            <IngredientFields draft={newDraft} onChange={setNewDraft} />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleCreate}
+              disabled={newDraft.name.trim().length < 2 || isCreating}
+              className="w-full"
+            >
+              {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+              Add ingredient
+            </Button>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
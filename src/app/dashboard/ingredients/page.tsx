@@ -0,0 +1,44 @@
+import { redirect } from 'next/navigation';
+import { getAuthenticatedUser, hasPermission } from '@/lib/auth/auth-utils';
+import { getIngredients } from '@/lib/ingredients/actions';
+import { getBranches } from '@/lib/branches/actions';
+import IngredientsClient from './IngredientsClient';
+
+// Force dynamic rendering for authentication
+export const dynamic = 'force-dynamic';
+
+export default async function IngredientsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ branch?: string }>;
+}) {
+  const user = await getAuthenticatedUser();
+
+  if (!user) {
+    return redirect('/login');
+  }
+
+  if (!(await hasPermission('inventory.manage'))) {
+    return redirect('/dashboard');
+  }
+
+  // Owners can look at one branch or the total across branches; staff see their own
+  const { branch } = await searchParams;
+  const branchId = user.role === 'owner' ? branch || null : user.branch_id;
+
+  const [ingredients, branches] = await Promise.all([
+    getIngredients(branchId, true),
+    user.role === 'owner' ? getBranches() : Promise.resolve([]),
+  ]);
+
+  return (
+    <IngredientsClient
+      key={branchId ?? 'all'}
+      displayName={user.name}
+      isOwner={user.role === 'owner'}
+      ingredients={ingredients}
+      branches={branches}
+      branchId={branchId}
+    />
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowLeft, Truck, Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BranchSelector } from '@/components/dashboards/owner/branch-selector';
+import { lowIngredientKeys } from '@/hooks/use-low-ingredients';
+import { receiveIngredient } from '@/lib/ingredients/actions';
+import { formatCurrencyNGN } from '@/lib/utils/currency';
+import type { Branch, Ingredient, IngredientMovement } from '@/types';
+
+interface ReceiveClientProps {
+  displayName: string;
+  isOwner: boolean;
+  ingredients: Ingredient[];
+  purchases: IngredientMovement[];
+  branches: Branch[];
+  initialBranchId: string | null;
+}
+
+export default function ReceiveClient({
+  displayName,
+  isOwner,
+  ingredients,
+  purchases,
+  branches,
+  initialBranchId,
+}: ReceiveClientProps) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [branchId, setBranchId] = useState(initialBranchId);
+  const [ingredientId, setIngredientId] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [unitCost, setUnitCost] = useState('');
+  const [supplier, setSupplier] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selected = ingredients.find(ingredient => ingredient.id === ingredientId);
+  const branchNames = new Map(branches.map(branch => [branch.id, branch.name]));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const result = await receiveIngredient({
+        ingredient_id: ingredientId,
+        quantity: Number(quantity),
+        unit_cost: unitCost.trim() === '' ? null : Number(unitCost),
+        supplier: supplier || null,
+        notes: notes || null,
+        branch_id: branchId,
+      });
+      if (result.success) {
+        toast.success(`${selected?.name ?? 'Ingredient'} received — now ${result.newQuantity} ${selected?.unit ?? ''}`);
+        setIngredientId('');
+        setQuantity('');
+        setUnitCost('');
+        setNotes('');
+        await queryClient.invalidateQueries({ queryKey: lowIngredientKeys.all() });
+        router.refresh();
+      } else {
+        toast.error(result.error || 'Failed to record delivery');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Mobile-First Header with Back Button */}
+      <div className="bg-gradient-to-r from-orange-500 to-amber-500 text-white">
+        <div className="px-3 sm:px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-2 sm:gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl touch-manipulation flex-shrink-0"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="bg-white/20 p-2 sm:p-3 rounded-xl flex-shrink-0">
+              <Truck className="h-5 w-5 sm:h-6 sm:w-6" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg sm:text-2xl font-bold truncate">Receive Stock</h1>
+              <p className="text-orange-100 text-xs sm:text-sm truncate">
+                Supplier deliveries • {displayName}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content Area - Full Screen Scrollable */}
+      <div className="flex-1 overflow-y-auto bg-gradient-to-b from-orange-50/30 to-amber-50/30">
+        <div className="px-3 sm:px-4 py-4 space-y-4 max-w-2xl mx-auto w-full">
+
+          <form onSubmit={handleSubmit} className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+            <h2 className="font-semibold text-gray-900">New delivery</h2>
+
+            {isOwner && (
+              <div>
+                <Label className="text-xs text-gray-500">Receiving branch</Label>
+                <BranchSelector
+                  branches={branches}
+                  value={branchId ?? ''}
+                  onChange={setBranchId}
+                  allowAll={false}
+                />
+              </div>
+            )}
+
+            <div>
+              <Label className="text-xs text-gray-500">Ingredient</Label>
+              <Select value={ingredientId} onValueChange={setIngredientId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select ingredient" />
+                </SelectTrigger>
+                <SelectContent side="bottom">
+                  {ingredients.filter(ingredient => ingredient.is_active).map(ingredient => (
+                    <SelectItem key={ingredient.id} value={ingredient.id}>
+                      {ingredient.name} ({ingredient.unit})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label className="text-xs text-gray-500">Quantity{selected ? ` (${selected.unit})` : ''}</Label>
+                <Input type="number" min={0} step="any" value={quantity} onChange={(e) => setQuantity(e.target.value)} />
+              </div>
+              <div>
+                <Label className="text-xs text-gray-500">Cost per unit</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={unitCost}
+                  placeholder={selected?.cost_per_unit != null ? String(selected.cost_per_unit) : 'Optional'}
+                  onChange={(e) => setUnitCost(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label className="text-xs text-gray-500">Supplier</Label>
+              <Input value={supplier} placeholder="Optional" onChange={(e) => setSupplier(e.target.value)} />
+            </div>
+
+            <div>
+              <Label className="text-xs text-gray-500">Notes</Label>
+              <Textarea value={notes} rows={2} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isSaving || !ingredientId || !(Number(quantity) > 0) || (isOwner && !branchId)}
+            >
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Record delivery'}
+            </Button>
+          </form>
+
+          {/* Recent purchases */}
+          <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+            <h2 className="font-semibold text-gray-900">Recent deliveries</h2>
+            {purchases.length === 0 ? (
+              <p className="text-sm text-gray-400 text-center py-2">No deliveries recorded yet</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {purchases.map(purchase => (
+                  <li key={purchase.id} className="flex items-center gap-2 py-2 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-gray-900 truncate">
+                        {purchase.ingredient_name} • {purchase.change} {purchase.unit}
+                      </div>
+                      <div className="text-xs text-gray-500 truncate">
+                        {purchase.created_at && new Date(purchase.created_at).toLocaleDateString()}
+                        {purchase.supplier && ` • ${purchase.supplier}`}
+                        {isOwner && branchNames.get(purchase.branch_id) && ` • ${branchNames.get(purchase.branch_id)}`}
+                        {purchase.recorded_by_name && ` • ${purchase.recorded_by_name}`}
+                      </div>
+                    </div>
+                    {purchase.unit_cost !== null && (
+                      <div className="text-right text-gray-900">
+                        {formatCurrencyNGN(purchase.unit_cost * purchase.change)}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
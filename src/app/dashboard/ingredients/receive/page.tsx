@@ -0,0 +1,44 @@
+import { redirect } from 'next/navigation';
+import { getAuthenticatedUser, hasPermission } from '@/lib/auth/auth-utils';
+import { getIngredients, getIngredientMovements } from '@/lib/ingredients/actions';
+import { getBranches } from '@/lib/branches/actions';
+import ReceiveClient from './ReceiveClient';
+
+// Force dynamic rendering for authentication
+export const dynamic = 'force-dynamic';
+
+export default async function ReceiveIngredientsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ branch?: string }>;
+}) {
+  const user = await getAuthenticatedUser();
+
+  if (!user) {
+    return redirect('/login');
+  }
+
+  if (!(await hasPermission('inventory.manage'))) {
+    return redirect('/dashboard');
+  }
+
+  const { branch } = await searchParams;
+  const isOwner = user.role === 'owner';
+
+  const [ingredients, purchases, branches] = await Promise.all([
+    getIngredients(isOwner ? branch || null : user.branch_id),
+    getIngredientMovements({ reason: 'purchase', limit: 20 }),
+    isOwner ? getBranches() : Promise.resolve([]),
+  ]);
+
+  return (
+    <ReceiveClient
+      displayName={user.name}
+      isOwner={isOwner}
+      ingredients={ingredients}
+      purchases={purchases}
+      branches={branches}
+      initialBranchId={isOwner ? branch || branches[0]?.id || null : user.branch_id}
+    />
+  );
+}
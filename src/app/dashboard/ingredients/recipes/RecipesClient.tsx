@@ -0,0 +1,258 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowLeft, BookOpen, Plus, Trash2, Loader2, Save } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { saveRecipe, setBreadTypeUnitCost } from '@/lib/ingredients/actions';
+import { formatCurrencyNGN } from '@/lib/utils/currency';
+import type { BreadType, BreadTypeCost, Ingredient, RecipeItem } from '@/types';
+
+interface RecipesClientProps {
+  displayName: string;
+  breadTypes: BreadType[];
+  ingredients: Ingredient[];
+  recipes: Record<string, RecipeItem[]>;
+  costs: Record<string, BreadTypeCost>;
+}
+
+interface RecipeLine {
+  ingredient_id: string;
+  quantity: string;
+  per: RecipeItem['per'];
+}
+
+function toLines(items: RecipeItem[]): RecipeLine[] {
+  return items.map(item => ({ ingredient_id: item.ingredient_id, quantity: String(item.quantity), per: item.per }));
+}
+
+function manualCostDraft(cost: BreadTypeCost | undefined): string {
+  return cost?.source === 'manual' && cost.unitCost !== null ? String(cost.unitCost) : '';
+}
+
+export default function RecipesClient({ displayName, breadTypes, ingredients, recipes, costs }: RecipesClientProps) {
+  const router = useRouter();
+  const [breadTypeId, setBreadTypeId] = useState(breadTypes[0]?.id ?? '');
+  const [lines, setLines] = useState<RecipeLine[]>(toLines(recipes[breadTypes[0]?.id] ?? []));
+  const [isSaving, setIsSaving] = useState(false);
+  const [unitCost, setUnitCost] = useState(manualCostDraft(costs[breadTypes[0]?.id]));
+  const [isSavingCost, setIsSavingCost] = useState(false);
+
+  const cost = costs[breadTypeId];
+
+  const unitFor = (ingredientId: string) => ingredients.find(ingredient => ingredient.id === ingredientId)?.unit ?? '';
+
+  const selectBreadType = (id: string) => {
+    setBreadTypeId(id);
+    setLines(toLines(recipes[id] ?? []));
+    setUnitCost(manualCostDraft(costs[id]));
+  };
+
+  const handleCostSave = async () => {
+    setIsSavingCost(true);
+    try {
+      const result = await setBreadTypeUnitCost({
+        bread_type_id: breadTypeId,
+        unit_cost: unitCost.trim() === '' ? null : Number(unitCost),
+      });
+      if (result.success) {
+        toast.success(unitCost.trim() === '' ? 'Using recipe cost' : 'Unit cost saved');
+        router.refresh();
+      } else {
+        toast.error(result.error || 'Failed to save unit cost');
+      }
+    } finally {
+      setIsSavingCost(false);
+    }
+  };
+
+  const updateLine = (index: number, patch: Partial<RecipeLine>) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await saveRecipe(
+        breadTypeId,
+        lines.map(line => ({ ingredient_id: line.ingredient_id, quantity: Number(line.quantity), per: line.per }))
+      );
+      if (result.success) {
+        toast.success('Recipe saved');
+        router.refresh();
+      } else {
+        toast.error(result.error || 'Failed to save recipe');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Mobile-First Header with Back Button */}
+      <div className="bg-gradient-to-r from-orange-500 to-amber-500 text-white">
+        <div className="px-3 sm:px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-2 sm:gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl touch-manipulation flex-shrink-0"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="bg-white/20 p-2 sm:p-3 rounded-xl flex-shrink-0">
+              <BookOpen className="h-5 w-5 sm:h-6 sm:w-6" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg sm:text-2xl font-bold truncate">Recipes</h1>
+              <p className="text-orange-100 text-xs sm:text-sm truncate">
+                Ingredients per bread type • {displayName}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content Area - Full Screen Scrollable */}
+      <div className="flex-1 overflow-y-auto bg-gradient-to-b from-orange-50/30 to-amber-50/30">
+        <div className="px-3 sm:px-4 py-4 space-y-4 max-w-2xl mx-auto w-full">
+          {breadTypes.length === 0 || ingredients.length === 0 ? (
+            <div className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm text-sm text-gray-500 text-center">
+              Add bread types and ingredients before building recipes.
+            </div>
+          ) : (
+            <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+              <div>
+                <Label className="text-xs text-gray-500">Bread type</Label>
+                <Select value={breadTypeId} onValueChange={selectBreadType}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent side="bottom">
+                    {breadTypes.map(breadType => (
+                      <SelectItem key={breadType.id} value={breadType.id}>{breadType.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <p className="text-xs text-gray-500">
+                &quot;Per loaf&quot; quantities are multiplied by the loaves a batch actually produced;
+                &quot;per batch&quot; quantities are used once per batch.
+              </p>
+
+              {lines.length === 0 && (
+                <p className="text-sm text-gray-400 text-center py-2">No ingredients in this recipe</p>
+              )}
+
+              <ul className="space-y-2">
+                {lines.map((line, index) => (
+                  <li key={index} className="flex items-center gap-2">
+                    <Select value={line.ingredient_id} onValueChange={(value) => updateLine(index, { ingredient_id: value })}>
+                      <SelectTrigger className="flex-1 min-w-0">
+                        <SelectValue placeholder="Ingredient" />
+                      </SelectTrigger>
+                      <SelectContent side="bottom">
+                        {ingredients.map(ingredient => (
+                          <SelectItem key={ingredient.id} value={ingredient.id}>{ingredient.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="any"
+                      className="w-24"
+                      value={line.quantity}
+                      placeholder={unitFor(line.ingredient_id) || 'Qty'}
+                      onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                      aria-label="Quantity"
+                    />
+                    <Select value={line.per} onValueChange={(value) => updateLine(index, { per: value as RecipeItem['per'] })}>
+                      <SelectTrigger className="w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent side="bottom">
+                        <SelectItem value="loaf">per loaf</SelectItem>
+                        <SelectItem value="batch">per batch</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                      aria-label="Remove ingredient"
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setLines(prev => [...prev, { ingredient_id: '', quantity: '', per: 'loaf' }])}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add ingredient
+                </Button>
+                <Button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={isSaving || lines.some(line => !line.ingredient_id || !(Number(line.quantity) > 0))}
+                >
+                  {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+                  Save recipe
+                </Button>
+              </div>
+            </section>
+          )}
+
+          {/* Cost per loaf for margin reports */}
+          {breadTypes.length > 0 && (
+            <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+              <div>
+                <h2 className="font-semibold text-gray-900">Cost per loaf</h2>
+                <p className="text-xs text-gray-500">
+                  {cost?.recipeCost != null
+                    ? `Recipe cost ${formatCurrencyNGN(cost.recipeCost)} at the latest ingredient prices.`
+                    : 'The recipe cannot be priced until every ingredient has a cost.'}
+                  {' '}Set a manual cost to override it in reports.
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={unitCost}
+                  placeholder={cost?.recipeCost != null ? String(Math.round(cost.recipeCost * 100) / 100) : 'Manual cost'}
+                  onChange={(e) => setUnitCost(e.target.value)}
+                  aria-label="Manual cost per loaf"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleCostSave}
+                  disabled={isSavingCost || unitCost === manualCostDraft(cost)}
+                  className="flex-shrink-0"
+                >
+                  {isSavingCost ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                </Button>
+              </div>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
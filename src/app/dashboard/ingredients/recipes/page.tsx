@@ -0,0 +1,40 @@
+import { redirect } from 'next/navigation';
+import { getAuthenticatedUser, hasPermission } from '@/lib/auth/auth-utils';
+import { getIngredients, getRecipe, getBreadTypeCosts } from '@/lib/ingredients/actions';
+import { getBreadTypes } from '@/lib/bread-types/actions';
+import RecipesClient from './RecipesClient';
+
+// Force dynamic rendering for authentication
+export const dynamic = 'force-dynamic';
+
+export default async function RecipesPage() {
+  const user = await getAuthenticatedUser();
+
+  if (!user) {
+    return redirect('/login');
+  }
+
+  if (!(await hasPermission('inventory.manage'))) {
+    return redirect('/dashboard');
+  }
+
+  const [breadTypes, ingredients, costs] = await Promise.all([
+    getBreadTypes(),
+    getIngredients(),
+    getBreadTypeCosts(),
+  ]);
+
+  const recipes = Object.fromEntries(
+    await Promise.all(breadTypes.map(async breadType => [breadType.id, await getRecipe(breadType.id)] as const))
+  );
+
+  return (
+    <RecipesClient
+      displayName={user.name}
+      breadTypes={breadTypes}
+      ingredients={ingredients.filter(ingredient => ingredient.is_active)}
+      recipes={recipes}
+      costs={costs}
+    />
+  );
+}
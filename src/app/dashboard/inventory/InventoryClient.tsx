@@ -1,9 +1,10 @@
 "use client";
 
 import React from 'react';
+import Link from 'next/link';
 import { Card, CardContent } from '@/components/ui/card';
 import { BackButton } from '@/components/ui/back-button';
-import { Package, Clock, RefreshCw, Archive } from 'lucide-react';
+import { Package, Clock, RefreshCw, Archive, ArrowRightLeft, Trash2 } from 'lucide-react';
 import { ProductionLoading, ProductionError } from '@/components/ui/production-loading';
 import ErrorBoundary from '@/components/error/ErrorBoundary';
 import { useInventoryData } from '@/hooks/use-inventory-data';
@@ -15,15 +16,18 @@ interface InventoryItem {
   size?: string;
   price?: number;
   quantity: number;
+  carriedOver?: number;
   batches?: number;
   archivedBatches?: number;
 }
 
 interface InventoryClientProps {
   serverUser?: unknown;
+  canCarryOver?: boolean;
+  canRecordWaste?: boolean;
 }
 
-function InventoryClientInner({ serverUser }: InventoryClientProps) {
+function InventoryClientInner({ serverUser, canCarryOver = false, canRecordWaste = false }: InventoryClientProps) {
   const { user: clientUser } = useAuth();
 
   // Use server user if available, otherwise fall back to client user
@@ -65,6 +69,7 @@ function InventoryClientInner({ serverUser }: InventoryClientProps) {
       source: 'batches' as const,
       totalBatches: 0,
       totalArchivedBatches: 0,
+      totalCarriedOver: 0,
       recordCount: 0,
       timeUntilNextShift: 'calculating...',
       nextShiftTime: '10:00 AM/PM',
@@ -80,6 +85,7 @@ function InventoryClientInner({ serverUser }: InventoryClientProps) {
       ...inventoryResult.dataSourceInfo,
       totalBatches: Math.max(0, inventoryResult.dataSourceInfo.totalBatches || 0),
       totalArchivedBatches: Math.max(0, inventoryResult.dataSourceInfo.totalArchivedBatches || 0),
+      totalCarriedOver: Math.max(0, inventoryResult.dataSourceInfo.totalCarriedOver || 0),
       recordCount: Math.max(0, inventoryResult.dataSourceInfo.recordCount || 0),
     };
   }, [inventoryResult]);
@@ -162,7 +168,32 @@ function InventoryClientInner({ serverUser }: InventoryClientProps) {
           <h1 className="text-lg sm:text-xl md:text-2xl font-bold bg-gradient-to-r from-orange-600 to-amber-600 bg-clip-text text-transparent">
             Inventory
           </h1>
-          <div className="w-8"></div> {/* Spacer for centering */}
+          {canCarryOver || canRecordWaste ? (
+            <div className="flex items-center flex-shrink-0">
+              {canRecordWaste && (
+                <Link
+                  href="/dashboard/inventory/waste"
+                  className="w-8 h-8 flex items-center justify-center rounded-lg text-orange-600 hover:bg-orange-50"
+                  title="Record wasted bread"
+                  aria-label="Record wasted bread"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Link>
+              )}
+              {canCarryOver && (
+                <Link
+                  href="/dashboard/inventory/carry-over"
+                  className="w-8 h-8 flex items-center justify-center rounded-lg text-orange-600 hover:bg-orange-50"
+                  title="Carry stock over to the next shift"
+                  aria-label="Carry stock over to the next shift"
+                >
+                  <ArrowRightLeft className="w-4 h-4" />
+                </Link>
+              )}
+            </div>
+          ) : (
+            <div className="w-8"></div> /* Spacer for centering */
+          )}
         </div>
       </div>
 
@@ -231,6 +262,12 @@ function InventoryClientInner({ serverUser }: InventoryClientProps) {
                   <span className="text-gray-500"> archived</span>
                 </div>
               </div>
+              {dataSourceInfo.totalCarriedOver > 0 && (
+                <div className="mt-0.5 text-xs">
+                  <span className="font-semibold text-gray-700">{dataSourceInfo.totalCarriedOver}</span>
+                  <span className="text-gray-500"> carried over from the last shift</span>
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -284,6 +321,9 @@ function InventoryClientInner({ serverUser }: InventoryClientProps) {
                       <div className="text-lg sm:text-xl font-bold text-orange-600">
                         {item.quantity.toLocaleString()}
                       </div>
+                      {(item.carriedOver ?? 0) > 0 && (
+                        <div className="text-xs text-blue-500">{item.carriedOver} carried over</div>
+                      )}
                       {item.batches && item.batches > 0 && (
                         <div className="text-xs text-gray-400">
                           {item.batches}b{item.archivedBatches && item.archivedBatches > 0 && (
@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { UserRole } from '@/types';
 import { formatCurrencyNGN } from '@/lib/utils/currency';
+import { wastePercent } from '@/lib/waste/waste';
 // Removed debug component import for production optimization
 import { 
   Package, 
@@ -16,7 +17,8 @@ import {
   ArrowLeft, 
   RefreshCw, 
   Loader2,
-  Clock 
+  Clock,
+  Trash2
 } from 'lucide-react';
 import {
   useInventory,
@@ -24,6 +26,9 @@ import {
   useTodaysProduction,
   useManualRefresh
 } from '@/hooks/use-inventory';
+import { useShiftSchedule } from '@/hooks/use-shift-schedule';
+import { getAllShiftDefinitions, getShiftLabel, isScheduledShift } from '@/lib/shift-schedule/schedule';
+import type { ShiftType } from '@/types';
 
 interface InventoryDashboardClientProps {
   userRole: UserRole;
@@ -54,6 +59,7 @@ export default function InventoryDashboardClient({
   } = useTodaysProduction(60000); // Poll every 60 seconds
 
   const { refreshAll } = useManualRefresh();
+  const { schedule } = useShiftSchedule();
 
   // Disable auto-refresh to prevent potential infinite loops
   // useAutoRefresh(true);
@@ -77,6 +83,21 @@ export default function InventoryDashboardClient({
   const totalSold = inventoryItems.reduce((sum, item) => sum + item.total_sold, 0);
   const totalRemaining = inventoryItems.reduce((sum, item) => sum + item.current_stock, 0);
   const totalRevenue = inventoryItems.reduce((sum, item) => sum + (item.total_sold * item.unit_price), 0);
+  const totalWasted = inventoryItems.reduce((sum, item) => sum + item.total_wasted, 0);
+  const shiftWastePercent = (shift: ShiftType) => wastePercent(
+    inventoryItems.reduce((sum, item) => sum + (item.waste_by_shift[shift]?.wasted ?? 0), 0),
+    inventoryItems.reduce((sum, item) => sum + (item.waste_by_shift[shift]?.produced ?? 0), 0)
+  );
+
+  // Scheduled shifts in running order, then any the schedule no longer has
+  const loggedShifts = new Set(inventoryItems.flatMap(item => Object.keys(item.waste_by_shift)));
+  const wasteShifts = [
+    ...getAllShiftDefinitions(schedule).map(shift => shift.key).filter(key => loggedShifts.has(key)),
+    ...Array.from(loggedShifts).filter(key => !isScheduledShift(schedule, key)),
+  ];
+  const shiftWasteSummary = (percentOf: (shift: ShiftType) => number) => wasteShifts
+    .map(shift => `${getShiftLabel(schedule, shift)} ${percentOf(shift).toFixed(1)}%`)
+    .join(' • ');
 
   const getStatusColor = (stock: number, produced: number) => {
     if (stock <= 0) return 'text-red-600 bg-red-50 border-red-200';
@@ -192,7 +213,7 @@ export default function InventoryDashboardClient({
       </div>
 
       {/* Summary Cards */}
-      <div className="grid gap-4 md:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-5">
         <Card className="p-6">
           <div className="flex items-center justify-between">
             <div>
@@ -256,6 +277,27 @@ export default function InventoryDashboardClient({
             <TrendingUp className="h-8 w-8 text-green-500" />
           </div>
         </Card>
+
+        <Card className="p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">Wasted</p>
+              <p className="text-2xl font-bold">
+                {isLoading ? (
+                  <Loader2 className="h-6 w-6 animate-spin" />
+                ) : (
+                  `${wastePercent(totalWasted, totalProduced).toFixed(1)}%`
+                )}
+              </p>
+              {!isLoading && (
+                <p className="text-xs text-muted-foreground">
+                  {[`${totalWasted} loaves`, shiftWasteSummary(shiftWastePercent)].filter(Boolean).join(' • ')}
+                </p>
+              )}
+            </div>
+            <Trash2 className={`h-8 w-8 ${totalWasted > 0 ? 'text-red-500' : 'text-gray-500'}`} />
+          </div>
+        </Card>
       </div>
 
       {/* Inventory Table */}
@@ -284,6 +326,7 @@ export default function InventoryDashboardClient({
                     <th className="text-left p-2">Produced</th>
                     <th className="text-left p-2">Sold</th>
                     <th className="text-left p-2">Leftover</th>
+                    <th className="text-left p-2">Wasted</th>
                     <th className="text-left p-2">Current Stock</th>
                     <th className="text-left p-2">Revenue</th>
                     <th className="text-left p-2">Status</th>
@@ -298,6 +341,14 @@ export default function InventoryDashboardClient({
                       <td className="p-2">{item.total_produced}</td>
                       <td className="p-2">{item.total_sold}</td>
                       <td className="p-2">{item.total_leftover}</td>
+                      <td className="p-2">
+                        <div>{item.total_wasted} ({item.waste_percent.toFixed(1)}%)</div>
+                        {item.total_wasted > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            {shiftWasteSummary(shift => item.waste_by_shift[shift]?.waste_percent ?? 0)}
+                          </div>
+                        )}
+                      </td>
                       <td className="p-2 font-medium text-lg">{item.current_stock}</td>
                       <td className="p-2">{formatCurrencyNGN(item.total_sold * item.unit_price)}</td>
                       <td className="p-2">
@@ -350,7 +401,7 @@ export default function InventoryDashboardClient({
                     </div>
                   </div>
                   
-                  <div className="grid grid-cols-3 gap-2 text-sm">
+                  <div className="grid grid-cols-4 gap-2 text-sm">
                     <div className="text-center p-2 bg-gray-50 rounded">
                       <p className="text-xs text-muted-foreground">Produced</p>
                       <p className="font-medium">{item.total_produced}</p>
@@ -363,6 +414,11 @@ export default function InventoryDashboardClient({
                       <p className="text-xs text-muted-foreground">Leftover</p>
                       <p className="font-medium">{item.total_leftover}</p>
                     </div>
+                    <div className="text-center p-2 bg-gray-50 rounded">
+                      <p className="text-xs text-muted-foreground">Wasted</p>
+                      <p className="font-medium">{item.total_wasted}</p>
+                      <p className="text-[10px] text-muted-foreground">{item.waste_percent.toFixed(1)}%</p>
+                    </div>
                   </div>
                   
                   {(item.last_production || item.last_sale) && (
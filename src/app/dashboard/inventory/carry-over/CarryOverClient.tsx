@@ -0,0 +1,326 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, ArrowRightLeft, Loader2, Save } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatCurrencyNGN } from '@/lib/utils/currency';
+import { recordStockCarryOver } from '@/lib/stock-carryovers/actions';
+import {
+  getAdjacentShiftKey,
+  getAllShiftDefinitions,
+  getShiftLabel,
+  type ShiftSchedule,
+} from '@/lib/shift-schedule/schedule';
+import {
+  CARRY_OVER_DISPOSITIONS,
+  summarizeCarryOver,
+  type CarryOverDisposition,
+  type CarryOverDraftItem,
+  type StockCarryOver,
+} from '@/lib/stock-carryovers/carryover';
+import type { ShiftType } from '@/types';
+
+interface CarryOverClientProps {
+  displayName: string;
+  schedule: ShiftSchedule;
+  defaultShift: ShiftType;
+  draft: CarryOverDraftItem[];
+  carryOvers: StockCarryOver[];
+}
+
+type Counts = Record<CarryOverDisposition, string> & { discount_price: string };
+
+const EMPTY_COUNTS: Counts = { carried: '', discounted: '', discount_price: '', stale: '', discarded: '' };
+
+const DISPOSITION_COLUMNS: CarryOverDisposition[] = ['carried', 'discounted', 'stale', 'discarded'];
+
+const isWholeNumber = (value: string) => value === '' || (Number.isInteger(Number(value)) && Number(value) >= 0);
+
+const countOf = (value: string) => (value === '' ? 0 : Number(value));
+
+export default function CarryOverClient({ displayName, schedule, defaultShift, draft, carryOvers }: CarryOverClientProps) {
+  const router = useRouter();
+  const [fromShift, setFromShift] = useState<ShiftType>(defaultShift);
+  const shiftName = (shift: string) => getShiftLabel(schedule, shift);
+  const toShift = getAdjacentShiftKey(schedule, fromShift);
+  const [counts, setCounts] = useState<Record<string, Counts>>(
+    Object.fromEntries(draft.map(item => [
+      item.bread_type_id,
+      { ...EMPTY_COUNTS, carried: item.remaining > 0 ? String(item.remaining) : '' },
+    ]))
+  );
+  const [notes, setNotes] = useState('');
+  const [showAll, setShowAll] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const visible = showAll ? draft : draft.filter(item => item.remaining > 0);
+  const history = useMemo(
+    () => carryOvers.map(carryOver => ({ carryOver, summary: summarizeCarryOver(carryOver) })),
+    [carryOvers]
+  );
+
+  const setCount = (breadTypeId: string, changes: Partial<Counts>) => {
+    setCounts(prev => ({ ...prev, [breadTypeId]: { ...(prev[breadTypeId] ?? EMPTY_COUNTS), ...changes } }));
+  };
+
+  const problems = draft.flatMap(item => {
+    const count = counts[item.bread_type_id] ?? EMPTY_COUNTS;
+    if (!DISPOSITION_COLUMNS.every(disposition => isWholeNumber(count[disposition]))) {
+      return [`${item.bread_type_name}: counts must be whole loaves`];
+    }
+    if (countOf(count.discounted) > 0) {
+      const price = Number(count.discount_price);
+      if (count.discount_price === '' || Number.isNaN(price) || price < 0 || price >= item.unit_price) {
+        return [`${item.bread_type_name}: discounted price must be below ${formatCurrencyNGN(item.unit_price)}`];
+      }
+    }
+    return [];
+  });
+
+  const totals = DISPOSITION_COLUMNS.reduce((sum, disposition) => ({
+    ...sum,
+    [disposition]: draft.reduce((total, item) => total + countOf((counts[item.bread_type_id] ?? EMPTY_COUNTS)[disposition]), 0),
+  }), {} as Record<CarryOverDisposition, number>);
+  const counted = DISPOSITION_COLUMNS.reduce((total, disposition) => total + totals[disposition], 0);
+  const recorded = draft.reduce((total, item) => total + item.remaining, 0);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await recordStockCarryOver({
+        from_shift: fromShift,
+        items: draft.flatMap(item => {
+          const count = counts[item.bread_type_id] ?? EMPTY_COUNTS;
+          return DISPOSITION_COLUMNS
+            .filter(disposition => countOf(count[disposition]) > 0)
+            .map(disposition => ({
+              bread_type_id: item.bread_type_id,
+              disposition,
+              quantity: countOf(count[disposition]),
+              unit_price: disposition === 'discounted' ? Number(count.discount_price) : null,
+            }));
+        }),
+        notes: notes || null,
+      });
+      if (result.success) {
+        toast.success(`${shiftName(fromShift)} stock carried over to the ${shiftName(toShift).toLowerCase()} shift`);
+        router.refresh();
+      } else {
+        toast.error(result.error || 'Failed to carry stock over');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Mobile-First Header with Back Button */}
+      <div className="bg-gradient-to-r from-orange-500 to-amber-500 text-white">
+        <div className="px-3 sm:px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-2 sm:gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl touch-manipulation flex-shrink-0"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="bg-white/20 p-2 sm:p-3 rounded-xl flex-shrink-0">
+              <ArrowRightLeft className="h-5 w-5 sm:h-6 sm:w-6" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg sm:text-2xl font-bold truncate">Stock Carry-Over</h1>
+              <p className="text-orange-100 text-xs sm:text-sm truncate">
+                Move leftovers into the next shift • {displayName}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content Area - Full Screen Scrollable */}
+      <div className="flex-1 overflow-y-auto bg-gradient-to-b from-orange-50/30 to-amber-50/30">
+        <div className="px-3 sm:px-4 py-4 space-y-4 max-w-2xl mx-auto w-full">
+          <div>
+            <Label className="text-xs text-gray-500">Shift being closed</Label>
+            <Select value={fromShift} onValueChange={(value) => setFromShift(value as ShiftType)}>
+              <SelectTrigger className="bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent side="bottom">
+                {getAllShiftDefinitions(schedule).map(shift => (
+                  <SelectItem key={shift.key} value={shift.key}>
+                    {shift.label} → {shiftName(getAdjacentShiftKey(schedule, shift.key))}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {draft.length === 0 ? (
+            <div className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm text-sm text-gray-500 text-center">
+              Add bread types before carrying stock over.
+            </div>
+          ) : (
+            <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <h2 className="font-semibold text-gray-900">Leftovers</h2>
+                <button
+                  type="button"
+                  onClick={() => setShowAll(!showAll)}
+                  className="text-xs text-orange-600 hover:text-orange-800"
+                >
+                  {showAll ? 'Only bread with leftovers' : 'Show every bread type'}
+                </button>
+              </div>
+              <p className="text-xs text-gray-500">
+                Count what is left and say what happens to it. Carried and discounted loaves open the{' '}
+                {shiftName(toShift).toLowerCase()} shift; stale and discarded loaves come off stock.
+              </p>
+
+              {visible.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-2">No leftovers recorded for this shift.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {visible.map(item => {
+                    const count = counts[item.bread_type_id] ?? EMPTY_COUNTS;
+                    return (
+                      <li key={item.bread_type_id} className="py-3 space-y-2">
+                        <div className="flex items-center justify-between gap-3">
+                          <div className="min-w-0">
+                            <div className="text-sm text-gray-900 truncate">{item.bread_type_name}</div>
+                            <div className="text-xs text-gray-500">
+                              {item.size && `${item.size} • `}{formatCurrencyNGN(item.unit_price)}
+                            </div>
+                          </div>
+                          <span className="text-xs text-gray-500 flex-shrink-0">{item.remaining} left</span>
+                        </div>
+                        <div className="grid grid-cols-4 gap-2">
+                          {DISPOSITION_COLUMNS.map(disposition => (
+                            <div key={disposition}>
+                              <Label className="text-[11px] text-gray-500">{CARRY_OVER_DISPOSITIONS[disposition].label}</Label>
+                              <Input
+                                type="number"
+                                min={0}
+                                step={1}
+                                inputMode="numeric"
+                                className="text-right"
+                                value={count[disposition]}
+                                placeholder="0"
+                                onChange={(e) => setCount(item.bread_type_id, { [disposition]: e.target.value })}
+                                aria-label={`${CARRY_OVER_DISPOSITIONS[disposition].label} for ${item.bread_type_name}`}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                        {countOf(count.discounted) > 0 && (
+                          <div className="flex items-center justify-end gap-2">
+                            <Label className="text-xs text-gray-500">Discounted price</Label>
+                            <Input
+                              type="number"
+                              min={0}
+                              step="any"
+                              inputMode="decimal"
+                              className="w-28 text-right"
+                              value={count.discount_price}
+                              onChange={(e) => setCount(item.bread_type_id, { discount_price: e.target.value })}
+                              aria-label={`Discounted price for ${item.bread_type_name}`}
+                            />
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+
+              <div className="grid grid-cols-4 gap-2 text-center text-xs">
+                {DISPOSITION_COLUMNS.map(disposition => (
+                  <div key={disposition} className="rounded-lg bg-gray-50 py-2">
+                    <div className="font-semibold text-gray-900">{totals[disposition]}</div>
+                    <div className="text-gray-500">{CARRY_OVER_DISPOSITIONS[disposition].label}</div>
+                  </div>
+                ))}
+              </div>
+
+              {counted !== recorded && (
+                <p className="text-xs text-amber-700">
+                  Counted {counted} loaves; the end-of-shift records had {recorded}.
+                </p>
+              )}
+
+              <Textarea
+                label="Notes"
+                rows={2}
+                value={notes}
+                maxLength={1000}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Anything the next shift should know"
+              />
+
+              {problems.length > 0 && (
+                <ul className="text-xs text-red-600 space-y-0.5">
+                  {problems.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+              )}
+
+              <Button
+                type="button"
+                onClick={handleSave}
+                disabled={isSaving || problems.length > 0 || counted === 0}
+                className="w-full"
+              >
+                {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+                Carry over to {shiftName(toShift).toLowerCase()} shift
+              </Button>
+            </section>
+          )}
+
+          <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-2">
+            <h2 className="font-semibold text-gray-900">Recent carry-overs</h2>
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-500">No stock carried over yet</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {history.map(({ carryOver, summary }) => (
+                  <li key={carryOver.id} className="py-2 text-sm">
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="font-medium text-gray-900">
+                        {carryOver.carryover_date} • {shiftName(carryOver.from_shift)} → {shiftName(carryOver.to_shift)}
+                      </div>
+                      <span className="text-xs text-gray-500 flex-shrink-0">{carryOver.recorded_by_name}</span>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {summary.total_carried} carried • {summary.total_written_off} written off
+                    </div>
+                    {summary.lines.length > 0 && (
+                      <div className="text-xs text-gray-600 mt-1">
+                        {summary.lines.map(line => {
+                          const parts = DISPOSITION_COLUMNS
+                            .filter(disposition => line[disposition] > 0)
+                            .map(disposition => `${line[disposition]} ${CARRY_OVER_DISPOSITIONS[disposition].label.toLowerCase()}`);
+                          return <div key={line.bread_type_id}>{line.bread_type_name}: {parts.join(', ')}</div>;
+                        })}
+                      </div>
+                    )}
+                    {carryOver.notes && (
+                      <div className="text-xs text-gray-500 whitespace-pre-line mt-1">{carryOver.notes}</div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
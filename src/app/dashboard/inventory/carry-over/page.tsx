@@ -0,0 +1,42 @@
+import { redirect } from 'next/navigation';
+import { getAuthenticatedUser, hasPermission } from '@/lib/auth/auth-utils';
+import { getShiftSchedule } from '@/lib/shift-schedule/actions';
+import { getAllShiftDefinitions, getShiftWindowAt } from '@/lib/shift-schedule/schedule';
+import { getStockCarryOverDraft, getStockCarryOvers } from '@/lib/stock-carryovers/actions';
+import type { ShiftType } from '@/types';
+import CarryOverClient from './CarryOverClient';
+
+// Force dynamic rendering for authentication
+export const dynamic = 'force-dynamic';
+
+export default async function StockCarryOverPage() {
+  const user = await getAuthenticatedUser();
+
+  if (!user) {
+    return redirect('/login');
+  }
+
+  if (!(await hasPermission('inventory.carry_over'))) {
+    return redirect('/dashboard');
+  }
+
+  const [schedule, draft, carryOvers] = await Promise.all([
+    getShiftSchedule(user.branch_id),
+    getStockCarryOverDraft(),
+    getStockCarryOvers(),
+  ]);
+
+  // Default to closing the shift that is running now
+  const shift: ShiftType = getShiftWindowAt(schedule, new Date(), { ignoreClosures: true })?.key
+    ?? getAllShiftDefinitions(schedule)[0].key;
+
+  return (
+    <CarryOverClient
+      displayName={user.name}
+      schedule={schedule}
+      defaultShift={shift}
+      draft={draft}
+      carryOvers={carryOvers}
+    />
+  );
+}
@@ -4,13 +4,14 @@ import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import type { ProductionLogWithBreadType } from '@/types/database';
+import type { ShiftType } from '@/types';
 
 interface InventoryLogsClientProps {
   productionLogs: ProductionLogWithBreadType[];
 }
 
 export default function InventoryLogsClient({ productionLogs }: InventoryLogsClientProps) {
-  const [filter, setFilter] = useState<'all' | 'morning' | 'night'>('all');
+  const [filter, setFilter] = useState<'all' | ShiftType>('all');
 
   const filteredLogs = productionLogs.filter(log => {
     if (filter === 'all') return true;
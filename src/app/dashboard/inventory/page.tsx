@@ -1,5 +1,6 @@
 import { createServer } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
+import { hasPermission } from '@/lib/auth/auth-utils';
 import InventoryClient from './InventoryClient';
 
 export default async function InventoryPage() {
@@ -11,5 +12,10 @@ export default async function InventoryPage() {
     redirect('/login');
   }
 
-  return <InventoryClient serverUser={user} />;
+  const [canCarryOver, canRecordWaste] = await Promise.all([
+    hasPermission('inventory.carry_over'),
+    hasPermission('waste.record'),
+  ]);
+
+  return <InventoryClient serverUser={user} canCarryOver={canCarryOver} canRecordWaste={canRecordWaste} />;
 }
@@ -0,0 +1,255 @@
+'use client';
+
+import React, { useState } from 'react';
+import { AlertTriangle, ArrowLeft, BellRing, Loader2, Save } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BranchSelector } from '@/components/dashboards/owner/branch-selector';
+import { saveLowStockThresholds } from '@/lib/low-stock/actions';
+import { DEFAULT_LOW_STOCK_THRESHOLD, type LowStockItem, type LowStockThreshold } from '@/lib/low-stock/evaluate';
+import type { ShiftDefinition } from '@/lib/shift-schedule/schedule';
+import type { Branch, BreadType, ShiftType } from '@/types';
+
+interface ThresholdsClientProps {
+  displayName: string;
+  isOwner: boolean;
+  breadTypes: BreadType[];
+  branches: Branch[];
+  branchId: string | null;
+  shift: ShiftType;
+  shifts: ShiftDefinition[];
+  thresholds: LowStockThreshold[];
+  lowStock: LowStockItem[];
+}
+
+type Levels = Record<string, { threshold: string; critical: string }>;
+
+const isWholeNumber = (value: string) => value === '' || (Number.isInteger(Number(value)) && Number(value) >= 0);
+
+export default function ThresholdsClient({
+  displayName,
+  isOwner,
+  breadTypes,
+  branches,
+  branchId,
+  shift,
+  shifts,
+  thresholds,
+  lowStock,
+}: ThresholdsClientProps) {
+  const router = useRouter();
+  const shiftLabels = new Map(shifts.map(definition => [definition.key, definition.label]));
+  const [levels, setLevels] = useState<Levels>(
+    Object.fromEntries(thresholds.map(item => [
+      item.bread_type_id,
+      { threshold: String(item.threshold), critical: item.critical_level === null ? '' : String(item.critical_level) },
+    ]))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const invalid = Object.values(levels).some(level =>
+    !isWholeNumber(level.threshold) ||
+    !isWholeNumber(level.critical) ||
+    (level.critical !== '' && Number(level.critical) > (level.threshold === '' ? DEFAULT_LOW_STOCK_THRESHOLD : Number(level.threshold)))
+  );
+
+  const setLevel = (breadTypeId: string, changes: Partial<Levels[string]>) => {
+    setLevels(prev => ({
+      ...prev,
+      [breadTypeId]: { ...(prev[breadTypeId] ?? { threshold: '', critical: '' }), ...changes },
+    }));
+  };
+
+  const navigate = (changes: { shift?: ShiftType; branch?: string }) => {
+    const params = new URLSearchParams({ shift });
+    if (isOwner && branchId) params.set('branch', branchId);
+    Object.entries(changes).forEach(([key, value]) => value && params.set(key, value));
+    router.push(`/dashboard/inventory/thresholds?${params.toString()}`);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await saveLowStockThresholds({
+        shift,
+        branch_id: branchId,
+        items: breadTypes.map(breadType => {
+          const level = levels[breadType.id];
+          // A critical level alone still needs a threshold to sit under
+          const threshold = level?.threshold
+            ? Number(level.threshold)
+            : level?.critical ? DEFAULT_LOW_STOCK_THRESHOLD : null;
+          return {
+            bread_type_id: breadType.id,
+            threshold,
+            critical_level: level?.critical ? Number(level.critical) : null,
+          };
+        }),
+      });
+      if (result.success) {
+        toast.success('Low-stock levels saved');
+        router.refresh();
+      } else {
+        toast.error(result.error || 'Failed to save low-stock levels');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Mobile-First Header with Back Button */}
+      <div className="bg-gradient-to-r from-orange-500 to-amber-500 text-white">
+        <div className="px-3 sm:px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-2 sm:gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl touch-manipulation flex-shrink-0"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="bg-white/20 p-2 sm:p-3 rounded-xl flex-shrink-0">
+              <BellRing className="h-5 w-5 sm:h-6 sm:w-6" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg sm:text-2xl font-bold truncate">Low-Stock Alerts</h1>
+              <p className="text-orange-100 text-xs sm:text-sm truncate">
+                Alert levels per shift • {displayName}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content Area - Full Screen Scrollable */}
+      <div className="flex-1 overflow-y-auto bg-gradient-to-b from-orange-50/30 to-amber-50/30">
+        <div className="px-3 sm:px-4 py-4 space-y-4 max-w-2xl mx-auto w-full">
+          {isOwner && (
+            <BranchSelector
+              branches={branches}
+              value={branchId ?? ''}
+              onChange={(value) => navigate({ branch: value })}
+              allowAll={false}
+              className="bg-white"
+            />
+          )}
+
+          {lowStock.length > 0 && (
+            <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-2">
+              <h2 className="font-semibold text-gray-900">Low right now</h2>
+              <ul className="divide-y divide-gray-100">
+                {lowStock.map(item => (
+                  <li key={`${item.shift}-${item.bread_type_id}`} className="flex items-center justify-between gap-3 py-2">
+                    <div className="min-w-0">
+                      <div className="text-sm text-gray-900 truncate">{item.bread_type_name}</div>
+                      <div className="text-xs text-gray-500">{shiftLabels.get(item.shift) ?? item.shift} shift • alert at {item.threshold}</div>
+                    </div>
+                    <span
+                      className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${
+                        item.level === 'critical' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+                      }`}
+                    >
+                      <AlertTriangle className="h-3 w-3" />
+                      {item.available} left
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          <div>
+            <Label className="text-xs text-gray-500">Shift</Label>
+            <Select value={shift} onValueChange={(value) => navigate({ shift: value as ShiftType })}>
+              <SelectTrigger className="bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent side="bottom">
+                {shifts.map(definition => (
+                  <SelectItem key={definition.key} value={definition.key}>{definition.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!branchId ? (
+            <div className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm text-sm text-gray-500 text-center">
+              Add a branch before setting low-stock levels.
+            </div>
+          ) : breadTypes.length === 0 ? (
+            <div className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm text-sm text-gray-500 text-center">
+              Add bread types before setting low-stock levels.
+            </div>
+          ) : (
+            <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+              <div className="flex items-center justify-between">
+                <h2 className="font-semibold text-gray-900">Alert levels</h2>
+                <div className="flex gap-2 text-xs text-gray-500">
+                  <span className="w-20 text-right">Low at</span>
+                  <span className="w-20 text-right">Critical at</span>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                The manager on duty is notified when the loaves left fall to these levels. Empty levels use the
+                default of {DEFAULT_LOW_STOCK_THRESHOLD}; leave critical empty to only send low alerts.
+              </p>
+
+              <ul className="divide-y divide-gray-100">
+                {breadTypes.map(breadType => (
+                  <li key={breadType.id} className="flex items-center justify-between gap-3 py-2">
+                    <div className="min-w-0">
+                      <div className="text-sm text-gray-900 truncate">{breadType.name}</div>
+                      {breadType.size && <div className="text-xs text-gray-500">{breadType.size}</div>}
+                    </div>
+                    <div className="flex gap-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        step={1}
+                        inputMode="numeric"
+                        className="w-20 text-right"
+                        value={levels[breadType.id]?.threshold ?? ''}
+                        placeholder={String(DEFAULT_LOW_STOCK_THRESHOLD)}
+                        onChange={(e) => setLevel(breadType.id, { threshold: e.target.value })}
+                        aria-label={`Low-stock level for ${breadType.name}`}
+                      />
+                      <Input
+                        type="number"
+                        min={0}
+                        step={1}
+                        inputMode="numeric"
+                        className="w-20 text-right"
+                        value={levels[breadType.id]?.critical ?? ''}
+                        placeholder="—"
+                        onChange={(e) => setLevel(breadType.id, { critical: e.target.value })}
+                        aria-label={`Critical level for ${breadType.name}`}
+                      />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              {invalid && (
+                <p className="text-xs text-red-600">
+                  Levels must be whole numbers, and critical can&apos;t be above the low level.
+                </p>
+              )}
+
+              <Button type="button" onClick={handleSave} disabled={isSaving || invalid} className="w-full">
+                {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+                Save levels
+              </Button>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
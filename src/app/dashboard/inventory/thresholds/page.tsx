@@ -0,0 +1,59 @@
+import { redirect } from 'next/navigation';
+import { getAuthenticatedUser, hasPermission } from '@/lib/auth/auth-utils';
+import { getLowStock, getLowStockThresholds } from '@/lib/low-stock/actions';
+import { getBreadTypes } from '@/lib/bread-types/actions';
+import { getBranches } from '@/lib/branches/actions';
+import { getShiftSchedule } from '@/lib/shift-schedule/actions';
+import { getAllShiftDefinitions, isScheduledShift } from '@/lib/shift-schedule/schedule';
+import type { ShiftType } from '@/types';
+import ThresholdsClient from './ThresholdsClient';
+
+// Force dynamic rendering for authentication
+export const dynamic = 'force-dynamic';
+
+export default async function LowStockThresholdsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ shift?: string; branch?: string }>;
+}) {
+  const user = await getAuthenticatedUser();
+
+  if (!user) {
+    return redirect('/login');
+  }
+
+  if (!(await hasPermission('inventory.manage'))) {
+    return redirect('/dashboard');
+  }
+
+  const params = await searchParams;
+
+  // Thresholds belong to one branch; owners pick which one they are setting
+  const branches = user.role === 'owner' ? await getBranches() : [];
+  const branchId = user.role === 'owner' ? params.branch || branches[0]?.id || null : user.branch_id;
+
+  const schedule = await getShiftSchedule(branchId);
+  const shifts = getAllShiftDefinitions(schedule);
+  const shift: ShiftType = params.shift && isScheduledShift(schedule, params.shift) ? params.shift : shifts[0].key;
+
+  const [breadTypes, thresholds, lowStock] = await Promise.all([
+    getBreadTypes(false, branchId),
+    branchId ? getLowStockThresholds(branchId) : Promise.resolve([]),
+    branchId ? getLowStock(branchId) : Promise.resolve([]),
+  ]);
+
+  return (
+    <ThresholdsClient
+      key={`${branchId}-${shift}`}
+      displayName={user.name}
+      isOwner={user.role === 'owner'}
+      breadTypes={breadTypes}
+      branches={branches}
+      branchId={branchId}
+      shift={shift}
+      shifts={shifts}
+      thresholds={thresholds.filter(threshold => threshold.shift === shift)}
+      lowStock={lowStock}
+    />
+  );
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowLeft, Loader2, Save, Trash2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatCurrencyNGN } from '@/lib/utils/currency';
+import { getAllShiftDefinitions, getShiftLabel, type ShiftSchedule } from '@/lib/shift-schedule/schedule';
+import { recordWaste } from '@/lib/waste/actions';
+import { WASTE_REASONS, WASTE_REASON_KEYS, valueWaste, type WasteEntry, type WasteReason } from '@/lib/waste/waste';
+import type { ShiftType } from '@/types';
+
+interface WasteClientProps {
+  displayName: string;
+  schedule: ShiftSchedule;
+  defaultShift: ShiftType;
+  breadTypes: Array<{ id: string; name: string; size: string | null; unit_price: number }>;
+  entries: WasteEntry[];
+}
+
+export default function WasteClient({ displayName, schedule, defaultShift, breadTypes, entries }: WasteClientProps) {
+  const router = useRouter();
+  const shiftName = (key: string) => getShiftLabel(schedule, key);
+  const [breadTypeId, setBreadTypeId] = useState('');
+  const [shift, setShift] = useState<ShiftType>(defaultShift);
+  const [quantity, setQuantity] = useState('');
+  const [reason, setReason] = useState<WasteReason>('stale');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const count = Number(quantity);
+  const validCount = quantity !== '' && Number.isInteger(count) && count > 0;
+  const breadType = breadTypes.find(bread => bread.id === breadTypeId);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await recordWaste({
+        bread_type_id: breadTypeId,
+        shift,
+        quantity: count,
+        reason,
+        notes: notes || null,
+      });
+      if (result.success) {
+        toast.success(`${count} ${breadType?.name ?? 'loaves'} logged as ${WASTE_REASONS[reason].label.toLowerCase()}`);
+        setQuantity('');
+        setNotes('');
+        router.refresh();
+      } else {
+        toast.error(result.error || 'Failed to record waste');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Mobile-First Header with Back Button */}
+      <div className="bg-gradient-to-r from-orange-500 to-amber-500 text-white">
+        <div className="px-3 sm:px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-2 sm:gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl touch-manipulation flex-shrink-0"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="bg-white/20 p-2 sm:p-3 rounded-xl flex-shrink-0">
+              <Trash2 className="h-5 w-5 sm:h-6 sm:w-6" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg sm:text-2xl font-bold truncate">Waste Log</h1>
+              <p className="text-orange-100 text-xs sm:text-sm truncate">
+                Record bread that won&apos;t be sold • {displayName}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content Area - Full Screen Scrollable */}
+      <div className="flex-1 overflow-y-auto bg-gradient-to-b from-orange-50/30 to-amber-50/30">
+        <div className="px-3 sm:px-4 py-4 space-y-4 max-w-2xl mx-auto w-full">
+          {breadTypes.length === 0 ? (
+            <div className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm text-sm text-gray-500 text-center">
+              Add bread types before recording waste.
+            </div>
+          ) : (
+            <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+              <h2 className="font-semibold text-gray-900">Record waste</h2>
+              <p className="text-xs text-gray-500">
+                Wasted loaves come straight off stock. Stale and discarded loaves from a carry-over are logged
+                automatically.
+              </p>
+
+              <div>
+                <Label className="text-xs text-gray-500">Bread type</Label>
+                <Select value={breadTypeId} onValueChange={setBreadTypeId}>
+                  <SelectTrigger className="bg-white">
+                    <SelectValue placeholder="Choose a bread type" />
+                  </SelectTrigger>
+                  <SelectContent side="bottom">
+                    {breadTypes.map(bread => (
+                      <SelectItem key={bread.id} value={bread.id}>
+                        {bread.name}{bread.size ? ` (${bread.size})` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label className="text-xs text-gray-500">Loaves</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    step={1}
+                    inputMode="numeric"
+                    value={quantity}
+                    placeholder="0"
+                    onChange={(e) => setQuantity(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs text-gray-500">Shift</Label>
+                  <Select value={shift} onValueChange={(value) => setShift(value as ShiftType)}>
+                    <SelectTrigger className="bg-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent side="bottom">
+                      {getAllShiftDefinitions(schedule).map(definition => (
+                        <SelectItem key={definition.key} value={definition.key}>{definition.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div>
+                <Label className="text-xs text-gray-500">Reason</Label>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mt-1">
+                  {WASTE_REASON_KEYS.map(key => (
+                    <button
+                      key={key}
+                      type="button"
+                      onClick={() => setReason(key)}
+                      className={`rounded-lg border px-3 py-2 text-left text-sm ${
+                        reason === key
+                          ? 'border-orange-500 bg-orange-50 text-orange-900'
+                          : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className="font-medium">{WASTE_REASONS[key].label}</div>
+                      <div className="text-[11px] text-gray-500">{WASTE_REASONS[key].description}</div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <Textarea
+                label="Notes"
+                rows={2}
+                value={notes}
+                maxLength={500}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Optional, e.g. who the donation went to"
+              />
+
+              {breadType && validCount && (
+                <p className="text-xs text-gray-500">
+                  {formatCurrencyNGN(count * breadType.unit_price)} of bread at selling price
+                </p>
+              )}
+
+              <Button
+                type="button"
+                onClick={handleSave}
+                disabled={isSaving || !breadTypeId || !validCount}
+                className="w-full"
+              >
+                {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+                Record waste
+              </Button>
+            </section>
+          )}
+
+          <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-2">
+            <h2 className="font-semibold text-gray-900">Recent waste</h2>
+            {entries.length === 0 ? (
+              <p className="text-sm text-gray-500">No waste recorded yet</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {entries.map(entry => {
+                  const { cost, value } = valueWaste(entry);
+                  return (
+                    <li key={entry.id} className="py-2 text-sm">
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="font-medium text-gray-900 truncate">
+                          {entry.quantity} × {entry.bread_type_name}
+                        </div>
+                        <span className="text-xs bg-red-100 text-red-700 px-2 py-0.5 rounded flex-shrink-0">
+                          {WASTE_REASONS[entry.reason]?.label ?? entry.reason}
+                        </span>
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {new Date(entry.created_at).toLocaleString()} • {shiftName(entry.shift)} • {entry.recorded_by_name}
+                        {entry.from_carryover && ' • from carry-over'}
+                      </div>
+                      <div className="text-xs text-gray-600">
+                        {cost !== null ? `${formatCurrencyNGN(cost)} at cost • ` : ''}{formatCurrencyNGN(value)} at price
+                      </div>
+                      {entry.notes && <div className="text-xs text-gray-500 whitespace-pre-line">{entry.notes}</div>}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { redirect } from 'next/navigation';
+import { getAuthenticatedUser, hasPermission } from '@/lib/auth/auth-utils';
+import { getBreadTypes } from '@/lib/bread-types/actions';
+import { getShiftSchedule } from '@/lib/shift-schedule/actions';
+import { getAllShiftDefinitions, getShiftWindowAt } from '@/lib/shift-schedule/schedule';
+import { getWasteEntries } from '@/lib/waste/actions';
+import type { ShiftType } from '@/types';
+import WasteClient from './WasteClient';
+
+// Force dynamic rendering for authentication
+export const dynamic = 'force-dynamic';
+
+export default async function WastePage() {
+  const user = await getAuthenticatedUser();
+
+  if (!user) {
+    return redirect('/login');
+  }
+
+  if (!(await hasPermission('waste.record'))) {
+    return redirect('/dashboard');
+  }
+
+  const [schedule, breadTypes, entries] = await Promise.all([
+    getShiftSchedule(user.branch_id),
+    getBreadTypes(false, user.branch_id),
+    getWasteEntries(),
+  ]);
+
+  const shift: ShiftType = getShiftWindowAt(schedule, new Date(), { ignoreClosures: true })?.key
+    ?? getAllShiftDefinitions(schedule)[0].key;
+
+  return (
+    <WasteClient
+      displayName={user.name}
+      schedule={schedule}
+      defaultShift={shift}
+      breadTypes={breadTypes.map(breadType => ({
+        id: breadType.id,
+        name: breadType.name,
+        size: breadType.size || null,
+        unit_price: breadType.unit_price,
+      }))}
+      entries={entries}
+    />
+  );
+}
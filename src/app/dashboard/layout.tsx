@@ -3,6 +3,7 @@ import { getAuthenticatedUser } from '@/lib/auth/auth-utils';
 import { DashboardLayoutClient } from '@/components/layout/dashboard-layout-client';
 import { ShiftProvider } from '@/contexts/ShiftContext';
 import { OfflineSyncIndicator } from '@/components/offline-sync-indicator';
+import { OfflineIndicator } from '@/components/offline-indicator';
 import { DataProvider } from '@/contexts/DataContext';
 // ToastProvider removed - using MobileNotificationProvider from root layout
 
@@ -55,8 +56,12 @@ export default async function DashboardLayout({
           displayName={user.name}
           role={user.role}
         >
-          {/* Offline Sync Indicator */}
-          <OfflineSyncIndicator />
+          {/* Offline Sync Indicator - sales reps get the per-action log and conflict resolution */}
+          {user.role === 'sales_rep' ? (
+            <OfflineIndicator userId={user.id} showDetails />
+          ) : (
+            <OfflineSyncIndicator />
+          )}
           
           {/* Main Content */}
           <main className="flex-1 min-w-0 w-full max-w-full p-4 md:p-6 lg:p-8 overflow-x-hidden">
@@ -3,8 +3,10 @@
 import { useState } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { Plus, Clock, Package, FileText, LogOut, ChevronRight, Download, AlertTriangle } from 'lucide-react';
+import { Plus, Clock, Package, FileText, LogOut, ChevronRight, Download, AlertTriangle, Wheat, ClipboardList, Undo2, BookUser, BellRing } from 'lucide-react';
 import { CreateBatchModal } from '@/components/modals/CreateBatchModal';
+import { LowIngredientsAlert } from '@/components/ingredients/low-ingredients-alert';
+import { DemandForecastCard } from '@/components/forecasting/demand-forecast-card';
 import { useManagerDashboard } from '@/hooks/use-manager-dashboard';
 import { useShift } from '@/contexts/ShiftContext';
 import { useData } from '@/contexts/DataContext';
@@ -14,6 +16,7 @@ import { Modal } from '@/components/ui/modal';
 import { Button } from '@/components/ui/button';
 import { useMobileNotifications, NotificationHelpers } from '@/components/ui/mobile-notifications-fixed';
 import { useQueryClient } from '@tanstack/react-query';
+import type { ShiftType } from '@/types';
 // Removed unreliable performance scheduler imports
 
 interface RecentBatch {
@@ -23,7 +26,7 @@ interface RecentBatch {
   status: string;
   time: string;
   batchNumber: string;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
 }
 
 interface ManagerDashboardClientProps {
@@ -69,7 +72,7 @@ export default function ManagerDashboardClient({
     : 'Active';
 
   // Handler for shift toggle
-  const handleShiftToggle = (shift: 'morning' | 'night') => {
+  const handleShiftToggle = (shift: ShiftType) => {
     setCurrentShift(shift);
   };
 
@@ -153,7 +156,7 @@ export default function ManagerDashboardClient({
           user_id: userId,
           user_name: userName,
           user_role: 'manager',
-          shift: currentShift as 'morning' | 'night'
+          shift: currentShift as ShiftType
         });
       } catch (activityError) {
         console.error('Activity logging failed:', activityError);
@@ -192,7 +195,7 @@ export default function ManagerDashboardClient({
   };
 
   // Helper function to get shift label
-  const shiftLabel = (shift: 'morning' | 'night') => {
+  const shiftLabel = (shift: ShiftType) => {
     return shift === 'morning' ? '🌅 Morning Shift' : '🌙 Night Shift';
   };
 
@@ -356,8 +359,12 @@ export default function ManagerDashboardClient({
           </div>
         )}
 
+        <LowIngredientsAlert className="mb-6" />
+
+        <DemandForecastCard className="mb-6" />
+
         {/* Quick Actions */}
-        <div className="grid grid-cols-3 gap-3 mb-6">
+        <div className="grid grid-cols-2 gap-3 mb-6">
           <button
             onClick={handleViewAllBatches}
             className="bg-white rounded-xl p-4 shadow-sm flex flex-col items-center gap-2 hover:bg-gray-50 transition-colors"
@@ -376,6 +383,30 @@ export default function ManagerDashboardClient({
             <FileText size={24} className="text-purple-500" />
             <span className="text-sm font-medium text-gray-900">Reports</span>
           </Link>
+          <Link href="/dashboard/ingredients" className="bg-white rounded-xl p-4 shadow-sm flex flex-col items-center gap-2">
+            <Wheat size={24} className="text-amber-500" />
+            <span className="text-sm font-medium text-gray-900">Ingredients</span>
+          </Link>
+          <Link href="/dashboard/voids" className="col-span-2 bg-white rounded-xl p-4 shadow-sm flex items-center gap-3">
+            <Undo2 size={24} className="text-red-500" />
+            <span className="flex-1 text-sm font-medium text-gray-900">Voids & Refunds</span>
+            <ChevronRight size={18} className="text-gray-400" />
+          </Link>
+          <Link href="/dashboard/customers" className="col-span-2 bg-white rounded-xl p-4 shadow-sm flex items-center gap-3">
+            <BookUser size={24} className="text-blue-500" />
+            <span className="flex-1 text-sm font-medium text-gray-900">Customers & Credit</span>
+            <ChevronRight size={18} className="text-gray-400" />
+          </Link>
+          <Link href="/dashboard/production/plan" className="col-span-2 bg-white rounded-xl p-4 shadow-sm flex items-center gap-3">
+            <ClipboardList size={24} className="text-orange-500" />
+            <span className="flex-1 text-sm font-medium text-gray-900">Production Plan</span>
+            <ChevronRight size={18} className="text-gray-400" />
+          </Link>
+          <Link href="/dashboard/inventory/thresholds" className="col-span-2 bg-white rounded-xl p-4 shadow-sm flex items-center gap-3">
+            <BellRing size={24} className="text-amber-500" />
+            <span className="flex-1 text-sm font-medium text-gray-900">Low-Stock Alerts</span>
+            <ChevronRight size={18} className="text-gray-400" />
+          </Link>
         </div>
 
         {/* End Shift */}
@@ -14,6 +14,7 @@ import { ProductionLoading, ProductionError } from '@/components/ui/production-l
 import ErrorBoundary from '@/components/error/ErrorBoundary';
 import { formatCurrencyNGN } from '@/lib/utils/currency';
 import { motion } from 'framer-motion';
+import type { ShiftType } from '@/types';
 
 interface AllProductionBatchesClientProps {
   userId: string;
@@ -29,11 +30,12 @@ interface BatchWithDetails {
   end_time?: string;
   actual_quantity: number;
   status: 'active' | 'completed' | 'cancelled';
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   notes?: string;
   created_by: string;
   created_at: string;
   updated_at: string;
+  unit_price?: number | null;
   bread_type?: {
     name: string;
     unit_price: number;
@@ -43,6 +45,11 @@ interface BatchWithDetails {
   };
 }
 
+// Batches are valued at the price they were made at; older ones fall back to today's
+function batchUnitPrice(batch: BatchWithDetails): number {
+  return batch.unit_price ?? batch.bread_type?.unit_price ?? 0;
+}
+
 function AllProductionBatchesClientInner({ userName }: AllProductionBatchesClientProps) {
   const { currentShift } = useShift();
   const router = useRouter();
@@ -83,7 +90,7 @@ function AllProductionBatchesClientInner({ userName }: AllProductionBatchesClien
   }, [filteredBatches]);
   const totalValue = useMemo(() => {
     return filteredBatches.reduce((sum, batch) => {
-      const unitPrice = batch.bread_type?.unit_price || 0;
+      const unitPrice = batchUnitPrice(batch);
       const quantity = batch.actual_quantity || 0;
       return sum + (unitPrice * quantity);
     }, 0);
@@ -334,7 +341,7 @@ function AllProductionBatchesClientInner({ userName }: AllProductionBatchesClien
                     <div>
                       <p className="text-xs text-gray-500 mb-0.5">Value</p>
                       <p className="text-sm font-semibold text-green-600">
-                        {formatCurrencyNGN((batch.bread_type?.unit_price || 0) * (batch.actual_quantity || 0))}
+                        {formatCurrencyNGN(batchUnitPrice(batch) * (batch.actual_quantity || 0))}
                       </p>
                     </div>
                   </div>
@@ -4,7 +4,7 @@ import React, { useState, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { 
   ArrowLeft, Search, Package, Download, 
-  Share2, FileText, FileSpreadsheet, MessageSquare, Facebook, 
+  Share2, FileText, FileSpreadsheet, Sheet, MessageSquare, Facebook, 
   Twitter, Mail, Check, X, RefreshCw, CheckSquare
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -20,6 +20,7 @@ import ErrorBoundary from '@/components/error/ErrorBoundary';
 import { formatCurrencyNGN } from '@/lib/utils/currency';
 import { motion } from 'framer-motion';
 import { toast } from 'sonner';
+import { exportToPDF, exportToXLSX } from '@/lib/reports/export';
 
 interface ExportProductionBatchesClientProps {
   userId: string;
@@ -37,6 +38,11 @@ interface BatchWithDetails extends Batch {
   };
 }
 
+// Batches are valued at the price they were made at; older ones fall back to today's
+function batchUnitPrice(batch: BatchWithDetails): number {
+  return batch.unit_price ?? batch.bread_type?.unit_price ?? 0;
+}
+
 function ExportProductionBatchesClientInner({ userName }: ExportProductionBatchesClientProps) {
   const { currentShift } = useShift();
   const router = useRouter();
@@ -82,7 +88,7 @@ function ExportProductionBatchesClientInner({ userName }: ExportProductionBatche
     return filteredBatches
       .filter(batch => selectedBatches.includes(batch.id))
       .reduce((sum, batch) => {
-        const unitPrice = batch.bread_type?.unit_price || 0;
+        const unitPrice = batchUnitPrice(batch);
         const quantity = batch.actual_quantity || 0;
         return sum + (unitPrice * quantity);
       }, 0);
@@ -178,8 +184,8 @@ ${selectedBatchData.map(batch =>
         batch.batch_number,
         batch.bread_type?.name || 'Unknown',
         batch.actual_quantity || 0,
-        batch.bread_type?.unit_price || 0,
-        (batch.actual_quantity || 0) * (batch.bread_type?.unit_price || 0),
+        batchUnitPrice(batch),
+        (batch.actual_quantity || 0) * batchUnitPrice(batch),
         batch.status,
         batch.created_by_user?.name || 'Unknown',
         new Date(batch.created_at).toLocaleDateString(),
@@ -198,7 +204,8 @@ ${selectedBatchData.map(batch =>
     toast.success('CSV exported successfully!');
   };
 
-  const handleExportToPDF = async () => {
+  // PDF or XLSX of the selected batches, generated on the server
+  const handleServerExport = async (format: 'pdf' | 'xlsx') => {
     if (selectedBatches.length === 0) {
       toast.error('Please select batches to export');
       return;
@@ -206,12 +213,15 @@ ${selectedBatchData.map(batch =>
 
     setExporting(true);
     try {
-      // For now, just log the action - PDF export can be implemented later
-      console.log('Exporting to PDF:', selectedBatches);
-      toast.success('PDF export functionality coming soon!');
+      const exportFile = format === 'pdf' ? exportToPDF : exportToXLSX;
+      await exportFile(
+        { kind: 'batches', batchIds: selectedBatches },
+        { title: 'Production Batches', subtitle: `${currentShift === 'morning' ? 'Morning' : 'Night'} Shift • ${userName}` }
+      );
+      toast.success(`${format === 'pdf' ? 'PDF' : 'Excel'} exported successfully!`);
     } catch (error) {
-      console.error('Error exporting to PDF:', error);
-      toast.error('Failed to export PDF');
+      console.error(`Error exporting to ${format}:`, error);
+      toast.error(error instanceof Error ? error.message : `Failed to export ${format.toUpperCase()}`);
     } finally {
       setExporting(false);
     }
@@ -257,7 +267,7 @@ ${selectedBatchData.map(batch =>
 
 Production Details:
 ${selectedBatchData.map(batch => 
-  `• ${batch.bread_type?.name || 'Unknown'} - ${batch.actual_quantity} units (${batch.status}) - ${formatCurrencyNGN((batch.actual_quantity || 0) * (batch.bread_type?.unit_price || 0))}`
+  `• ${batch.bread_type?.name || 'Unknown'} - ${batch.actual_quantity} units (${batch.status}) - ${formatCurrencyNGN((batch.actual_quantity || 0) * batchUnitPrice(batch))}`
 ).join('\n')}
 
 Generated from HomeBake Bakery Management System`;
@@ -296,10 +306,17 @@ Generated from HomeBake Bakery Management System`;
     },
     { 
       icon: FileText, 
-      label: 'PDF (Soon)', 
-      color: 'bg-red-500 hover:bg-red-600 opacity-50 cursor-not-allowed', 
-      action: handleExportToPDF,
-      description: 'Coming soon'
+      label: 'PDF Report', 
+      color: 'bg-red-500 hover:bg-red-600', 
+      action: () => handleServerExport('pdf'),
+      description: 'Branded report with charts'
+    },
+    { 
+      icon: Sheet, 
+      label: 'Excel', 
+      color: 'bg-emerald-600 hover:bg-emerald-700', 
+      action: () => handleServerExport('xlsx'),
+      description: 'Workbook with a sheet per bread type'
     },
     { 
       icon: Facebook, 
@@ -464,7 +481,7 @@ Generated from HomeBake Bakery Management System`;
                     animate={{ opacity: 1, scale: 1 }}
                     transition={{ duration: 0.2, delay: index * 0.05 }}
                     onClick={option.action}
-                    disabled={option.label.includes('Soon') || exporting}
+                    disabled={exporting}
                     className={`flex flex-col items-center gap-2 p-3 rounded-xl text-white transition-all duration-200 touch-manipulation hover:scale-105 min-h-[80px] justify-center ${option.color}`}
                   >
                     <option.icon className="h-5 w-5" />
@@ -565,7 +582,7 @@ Generated from HomeBake Bakery Management System`;
                       <div className="flex justify-between items-center text-xs text-gray-600 w-full">
                         <span>{batch.actual_quantity || 0} units</span>
                         <span className="text-orange-600 font-medium truncate ml-2">
-                          {formatCurrencyNGN((batch.actual_quantity || 0) * (batch.bread_type?.unit_price || 0))}
+                          {formatCurrencyNGN((batch.actual_quantity || 0) * batchUnitPrice(batch))}
                         </span>
                       </div>
                     </div>
@@ -3,6 +3,7 @@ import { getRelativeTime } from '@/lib/utils/timezone';
 import { redirect } from 'next/navigation';
 import { Metadata } from 'next';
 import ManagerDashboardClient from './ManagerDashboardClient';
+import type { ShiftType } from '@/types';
 
 export const metadata: Metadata = {
   title: 'Manager Dashboard - HomeBake',
@@ -102,7 +103,7 @@ export default async function ManagerDashboardPage() {
           status: b.status || 'active',
           time: b.created_at ? getRelativeTime(b.created_at) : 'Unknown time',
           batchNumber: b.batch_number || 'N/A',
-          shift: (b.shift as 'morning' | 'night') || 'morning',
+          shift: (b.shift as ShiftType) || 'morning',
         };
       } catch (error) {
         console.error('Error processing batch:', error, b);
@@ -113,7 +114,7 @@ export default async function ManagerDashboardPage() {
           status: 'active',
           time: 'Unknown time',
           batchNumber: 'N/A',
-          shift: 'morning' as 'morning' | 'night',
+          shift: 'morning' as ShiftType,
         };
       }
     });
@@ -4,6 +4,7 @@ import React, { useEffect, useState } from "react";
 import { BarChart3, Package, Search, Filter, Download, Plus, Clock, User, Eye, Share2, Calendar } from "lucide-react";
 import { cn } from '@/lib/utils';
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import type { ShiftType } from '@/types';
 
 interface BatchData {
   id: string;
@@ -13,7 +14,7 @@ interface BatchData {
   end_time: string | null;
   actual_quantity: number;
   status: 'active' | 'completed' | 'cancelled';
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   created_by: string;
   notes?: string | null;
   bread_types: {
@@ -27,7 +28,7 @@ interface BatchData {
 interface GroupedReport {
   id: string;
   date: string;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   batches: BatchData[];
   manager: string;
   breadTypes: Set<string>;
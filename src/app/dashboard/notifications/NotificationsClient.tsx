@@ -0,0 +1,52 @@
+'use client';
+
+import React from 'react';
+import { ArrowLeft, Bell } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { NotificationInbox } from '@/components/notifications/NotificationInbox';
+import { useUnreadNotificationCount } from '@/hooks/use-notification-inbox';
+import type { UserRole } from '@/types';
+
+interface NotificationsClientProps {
+  displayName: string;
+  role: UserRole;
+}
+
+export default function NotificationsClient({ displayName, role }: NotificationsClientProps) {
+  const router = useRouter();
+  const { unreadCount } = useUnreadNotificationCount();
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Mobile-First Header with Back Button */}
+      <div className="bg-gradient-to-r from-orange-500 to-amber-500 text-white">
+        <div className="px-3 sm:px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-2 sm:gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl touch-manipulation flex-shrink-0"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="bg-white/20 p-2 sm:p-3 rounded-xl flex-shrink-0">
+              <Bell className="h-5 w-5 sm:h-6 sm:w-6" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg sm:text-2xl font-bold truncate">Notifications</h1>
+              <p className="text-orange-100 text-xs sm:text-sm truncate">
+                {unreadCount} unread • {displayName}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 px-3 sm:px-4 py-4 bg-gradient-to-b from-orange-50/30 to-amber-50/30">
+        <NotificationInbox role={role} />
+      </div>
+    </div>
+  );
+}
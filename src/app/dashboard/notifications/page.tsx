@@ -0,0 +1,20 @@
+import { redirect } from 'next/navigation';
+import { getAuthenticatedUser } from '@/lib/auth/auth-utils';
+import NotificationsClient from './NotificationsClient';
+
+// Force dynamic rendering for authentication
+export const dynamic = 'force-dynamic';
+
+export default async function NotificationsPage() {
+  const user = await getAuthenticatedUser();
+
+  if (!user) {
+    return redirect('/login');
+  }
+
+  if (user.role === 'owner') {
+    return redirect('/owner-dashboard/notifications');
+  }
+
+  return <NotificationsClient displayName={user.name} role={user.role} />;
+}
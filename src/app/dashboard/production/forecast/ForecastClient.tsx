@@ -0,0 +1,213 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, TrendingUp, RefreshCw } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BranchSelector } from '@/components/dashboards/owner/branch-selector';
+import { ALL_BRANCHES } from '@/hooks/use-branches';
+import { getForecastBacktest } from '@/lib/forecasting/actions';
+import type { Branch, ForecastAccuracyRow, ForecastBacktest } from '@/types';
+
+interface ForecastClientProps {
+  displayName: string;
+  isOwner: boolean;
+  branches: Branch[];
+  branchId: string | null;
+}
+
+const PERIODS = [
+  { value: '14', label: 'Last 14 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+];
+
+const formatPercent = (percent: number | null) => (percent === null ? '—' : `${percent.toFixed(1)}%`);
+
+const errorColor = (percent: number | null) =>
+  percent === null ? 'text-gray-400' : percent <= 10 ? 'text-green-600' : percent <= 25 ? 'text-amber-600' : 'text-red-600';
+
+function AccuracyTable({ title, rows }: { title: string; rows: ForecastAccuracyRow[] }) {
+  return (
+    <section className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50 text-xs text-gray-500">
+          <tr>
+            <th className="text-left font-medium px-3 py-2">{title}</th>
+            <th className="text-right font-medium px-3 py-2">Sold</th>
+            <th className="text-right font-medium px-3 py-2">Suggested</th>
+            <th className="text-right font-medium px-3 py-2">Baked</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {rows.map(row => (
+            <tr key={row.key}>
+              <td className="px-3 py-2">
+                <div className="text-gray-900">{row.label}</div>
+                <div className="text-xs text-gray-500">{row.shifts} shift{row.shifts === 1 ? '' : 's'}</div>
+              </td>
+              <td className="text-right px-3 py-2">{row.sold}</td>
+              <td className="text-right px-3 py-2">
+                <div>{row.forecast}</div>
+                <div className={`text-xs ${errorColor(row.forecastErrorPercent)}`}>
+                  ±{row.forecastError.toFixed(1)} • {formatPercent(row.forecastErrorPercent)}
+                </div>
+              </td>
+              <td className="text-right px-3 py-2">
+                <div>{row.produced}</div>
+                <div className={`text-xs ${errorColor(row.producedErrorPercent)}`}>
+                  ±{row.producedError.toFixed(1)} • {formatPercent(row.producedErrorPercent)}
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+export default function ForecastClient({ displayName, isOwner, branches, branchId }: ForecastClientProps) {
+  const router = useRouter();
+  const [period, setPeriod] = useState('30');
+  const [loading, setLoading] = useState(true);
+  const [backtest, setBacktest] = useState<ForecastBacktest | null>(null);
+
+  // Yesterday is the last complete day
+  const endDate = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const startDate = new Date(Date.now() - Number(period) * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+  const fetchBacktest = useCallback(async () => {
+    setLoading(true);
+    const result = await getForecastBacktest({ startDate, endDate, branchId });
+    if (result) {
+      setBacktest(result);
+    } else {
+      toast.error('Failed to load forecast accuracy');
+    }
+    setLoading(false);
+  }, [startDate, endDate, branchId]);
+
+  useEffect(() => {
+    fetchBacktest();
+  }, [fetchBacktest]);
+
+  const overall = backtest?.overall;
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Mobile-First Header with Back Button */}
+      <div className="bg-gradient-to-r from-orange-500 to-amber-500 text-white">
+        <div className="px-3 sm:px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-2 sm:gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl touch-manipulation flex-shrink-0"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="bg-white/20 p-2 sm:p-3 rounded-xl flex-shrink-0">
+              <TrendingUp className="h-5 w-5 sm:h-6 sm:w-6" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg sm:text-2xl font-bold truncate">Forecast Accuracy</h1>
+              <p className="text-orange-100 text-xs sm:text-sm truncate">
+                Suggested quantities vs sales • {displayName}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={fetchBacktest}
+              disabled={loading}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl flex-shrink-0"
+            >
+              <RefreshCw className={`h-5 w-5 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Content Area - Full Screen Scrollable */}
+      <div className="flex-1 overflow-y-auto bg-gradient-to-b from-orange-50/30 to-amber-50/30">
+        <div className="px-3 sm:px-4 py-4 space-y-4 max-w-2xl mx-auto w-full">
+          {isOwner && (
+            <BranchSelector
+              branches={branches}
+              value={branchId ?? ALL_BRANCHES}
+              onChange={(value) => router.push(
+                value === ALL_BRANCHES ? '/dashboard/production/forecast' : `/dashboard/production/forecast?branch=${value}`
+              )}
+              className="bg-white"
+            />
+          )}
+
+          <Select value={period} onValueChange={setPeriod}>
+            <SelectTrigger className="bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent side="bottom">
+              {PERIODS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <p className="text-xs text-gray-500">
+            Each past shift is forecast from the sales and leftovers before it, the same way suggestions are made
+            today. Errors are the average loaves per shift away from what sold, and the share of all loaves sold.
+          </p>
+
+          {loading && !backtest ? (
+            <div className="animate-pulse space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-16 bg-gray-100 rounded-xl" />
+              ))}
+            </div>
+          ) : overall && overall.shifts === 0 ? (
+            <div className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm text-sm text-gray-500 text-center">
+              Not enough sales history in this period to backtest.
+            </div>
+          ) : backtest && overall && (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-2 gap-3">
+                <div className="bg-white rounded-xl p-4 text-center border border-gray-100 shadow-sm">
+                  <div className={`text-lg font-bold ${errorColor(overall.forecastErrorPercent)}`}>
+                    {formatPercent(overall.forecastErrorPercent)}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">Suggestion error</div>
+                </div>
+                <div className="bg-white rounded-xl p-4 text-center border border-gray-100 shadow-sm">
+                  <div className={`text-lg font-bold ${errorColor(overall.producedErrorPercent)}`}>
+                    {formatPercent(overall.producedErrorPercent)}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">Actual baking error</div>
+                </div>
+                <div className="bg-white rounded-xl p-4 text-center border border-gray-100 shadow-sm">
+                  <div className="text-lg font-bold text-gray-900">{overall.shifts}</div>
+                  <div className="text-xs text-gray-500 mt-1">Shifts tested</div>
+                </div>
+                <div className="bg-white rounded-xl p-4 text-center border border-gray-100 shadow-sm">
+                  <div className="text-lg font-bold text-gray-900">
+                    {overall.forecastBias > 0 ? '+' : ''}{overall.forecastBias.toFixed(1)}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    Bias per shift ({overall.forecastBias >= 0 ? 'over' : 'under'})
+                  </div>
+                </div>
+              </div>
+
+              <AccuracyTable title="Bread type" rows={backtest.byBreadType} />
+              <AccuracyTable title="Shift" rows={backtest.byShift} />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
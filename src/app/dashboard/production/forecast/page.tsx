@@ -0,0 +1,38 @@
+import { redirect } from 'next/navigation';
+import { getAuthenticatedUser, hasPermission } from '@/lib/auth/auth-utils';
+import { getBranches } from '@/lib/branches/actions';
+import ForecastClient from './ForecastClient';
+
+// Force dynamic rendering for authentication
+export const dynamic = 'force-dynamic';
+
+export default async function ForecastAccuracyPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ branch?: string }>;
+}) {
+  const user = await getAuthenticatedUser();
+
+  if (!user) {
+    return redirect('/login');
+  }
+
+  if (!(await hasPermission('production.forecast'))) {
+    return redirect('/dashboard');
+  }
+
+  // Owners can backtest one branch or every branch combined; staff see their own
+  const { branch } = await searchParams;
+  const branchId = user.role === 'owner' ? branch || null : user.branch_id;
+  const branches = user.role === 'owner' ? await getBranches() : [];
+
+  return (
+    <ForecastClient
+      key={branchId ?? 'all'}
+      displayName={user.name}
+      isOwner={user.role === 'owner'}
+      branches={branches}
+      branchId={branchId}
+    />
+  );
+}
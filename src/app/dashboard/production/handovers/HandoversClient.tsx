@@ -0,0 +1,159 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowLeft, ChevronDown, ChevronUp, History } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { useShiftSchedule } from '@/hooks/use-shift-schedule';
+import { getShiftLabel } from '@/lib/shift-schedule/schedule';
+import type { ShiftHandover } from '@/lib/shift-handovers/handover';
+
+interface HandoversClientProps {
+  displayName: string;
+  handovers: ShiftHandover[];
+}
+
+const timeOf = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-NG', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export default function HandoversClient({ displayName, handovers }: HandoversClientProps) {
+  const router = useRouter();
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const { schedule } = useShiftSchedule();
+
+  const shiftName = (shift: string) => getShiftLabel(schedule, shift);
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Mobile-First Header with Back Button */}
+      <div className="bg-gradient-to-r from-orange-500 to-amber-500 text-white">
+        <div className="px-3 sm:px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-2 sm:gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl touch-manipulation flex-shrink-0"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="bg-white/20 p-2 sm:p-3 rounded-xl flex-shrink-0">
+              <History className="h-5 w-5 sm:h-6 sm:w-6" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg sm:text-2xl font-bold truncate">Shift Handovers</h1>
+              <p className="text-orange-100 text-xs sm:text-sm truncate">
+                Who handed over what, and who took it over • {displayName}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content Area - Full Screen Scrollable */}
+      <div className="flex-1 overflow-y-auto bg-gradient-to-b from-orange-50/30 to-amber-50/30">
+        <div className="px-3 sm:px-4 py-4 space-y-4 max-w-2xl mx-auto w-full">
+          {handovers.length === 0 ? (
+            <div className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm text-sm text-gray-500 text-center">
+              No handovers yet
+            </div>
+          ) : (
+            <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm">
+              <ul className="divide-y divide-gray-100">
+                {handovers.map(handover => {
+                  const isOpen = expanded === handover.id;
+                  return (
+                    <li key={handover.id} className="py-3 text-sm">
+                      <button
+                        type="button"
+                        onClick={() => setExpanded(isOpen ? null : handover.id)}
+                        className="w-full flex items-center gap-3 text-left"
+                      >
+                        <div className="flex-1 min-w-0">
+                          <div className="font-medium text-gray-900">
+                            {handover.handover_date} • {shiftName(handover.from_shift)} → {shiftName(handover.to_shift)}
+                          </div>
+                          <div className="text-xs text-gray-500 truncate">
+                            {handover.manager_name}
+                            {handover.acknowledged_by_name && ` → ${handover.acknowledged_by_name}`}
+                            {` • ${handover.total_production} units • ${handover.pending_batches} pending`}
+                            {handover.quality_issues.length > 0 && ` • ${handover.quality_issues.length} issues`}
+                          </div>
+                        </div>
+                        <span
+                          className={`text-xs font-medium px-2 py-0.5 rounded-full flex-shrink-0 ${
+                            handover.status === 'acknowledged' ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'
+                          }`}
+                        >
+                          {handover.status === 'acknowledged' ? 'Acknowledged' : 'Waiting'}
+                        </span>
+                        {isOpen ? <ChevronUp className="h-4 w-4 text-gray-400" /> : <ChevronDown className="h-4 w-4 text-gray-400" />}
+                      </button>
+
+                      {isOpen && (
+                        <div className="mt-3 space-y-2 text-xs text-gray-600">
+                          <div>Handed over {timeOf(handover.created_at)} with {handover.completed_batches} completed batches</div>
+
+                          {handover.pending_batch_details.length > 0 && (
+                            <div>
+                              <div className="font-medium text-gray-800">Batches in progress</div>
+                              <ul>
+                                {handover.pending_batch_details.map(batch => (
+                                  <li key={batch.batch_id}>
+                                    #{batch.batch_number} {batch.bread_type_name}
+                                    {batch.target_quantity !== null && ` • target ${batch.target_quantity}`}
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
+
+                          {handover.remaining_stock.length > 0 && (
+                            <div>
+                              <div className="font-medium text-gray-800">Stock handed over</div>
+                              <ul>
+                                {handover.remaining_stock.map(item => (
+                                  <li key={item.bread_type_id}>{item.bread_type_name}: {item.quantity}</li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
+
+                          {handover.quality_issues.length > 0 && (
+                            <div>
+                              <div className="font-medium text-red-700">Quality issues</div>
+                              <ul className="list-disc pl-5 text-red-700">
+                                {handover.quality_issues.map((issue, index) => <li key={index}>{issue}</li>)}
+                              </ul>
+                            </div>
+                          )}
+
+                          {handover.notes && (
+                            <div>
+                              <div className="font-medium text-gray-800">Notes</div>
+                              <div className="whitespace-pre-line">{handover.notes}</div>
+                            </div>
+                          )}
+
+                          {handover.acknowledged_at && (
+                            <div>
+                              Acknowledged {timeOf(handover.acknowledged_at)}
+                              {handover.acknowledged_by_name && ` by ${handover.acknowledged_by_name}`}
+                              {handover.acknowledgement_notes && (
+                                <div className="whitespace-pre-line">{handover.acknowledgement_notes}</div>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
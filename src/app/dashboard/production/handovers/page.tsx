@@ -0,0 +1,23 @@
+import { redirect } from 'next/navigation';
+import { getAuthenticatedUser, hasPermission } from '@/lib/auth/auth-utils';
+import { getShiftHandovers } from '@/lib/shift-handovers/actions';
+import HandoversClient from './HandoversClient';
+
+// Force dynamic rendering for authentication
+export const dynamic = 'force-dynamic';
+
+export default async function ShiftHandoversPage() {
+  const user = await getAuthenticatedUser();
+
+  if (!user) {
+    return redirect('/login');
+  }
+
+  if (!(await hasPermission('shifts.handover'))) {
+    return redirect('/dashboard');
+  }
+
+  const handovers = await getShiftHandovers();
+
+  return <HandoversClient displayName={user.name} handovers={handovers} />;
+}
@@ -6,6 +6,7 @@ import { Package, ArrowLeft } from 'lucide-react';
 import Link from 'next/link';
 import dynamic from 'next/dynamic';
 import React from 'react';
+import type { ShiftType } from '@/types';
 
 const ProfessionalHistoryFilters = dynamic(() => import('@/components/production/professional-history-filters'), {
   loading: () => <div className="w-full h-32 bg-gray-100 animate-pulse rounded-lg" />
@@ -27,7 +28,7 @@ interface ProductionLog {
   bread_type_id: string;
   bread_type_name: string;
   quantity: number;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   created_at: string;
   notes?: string;
 }
@@ -10,6 +10,7 @@ import { Suspense } from 'react';
 import LoadingSpinner from '@/components/ui/loading';
 import { Package, ArrowLeft } from 'lucide-react';
 import Link from 'next/link';
+import type { ShiftType } from '@/types';
 
 export default async function ProductionHistoryPage({ searchParams }: { searchParams: Promise<Record<string, string | string[] | undefined>> }) {
   const supabase = await createServer();
@@ -48,7 +49,7 @@ export default async function ProductionHistoryPage({ searchParams }: { searchPa
   // Parse filters from searchParams
   const params = await searchParams;
   const bread_type_id = typeof params?.bread_type_id === 'string' ? params.bread_type_id : undefined;
-  const shift = typeof params?.shift === 'string' ? params.shift as 'morning' | 'night' : undefined;
+  const shift = typeof params?.shift === 'string' ? params.shift as ShiftType : undefined;
   const date = typeof params?.date === 'string' ? params.date : undefined;
 
   const logs = await fetchProductionHistory({
@@ -0,0 +1,201 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowLeft, ClipboardList, Loader2, Save } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BranchSelector } from '@/components/dashboards/owner/branch-selector';
+import { saveProductionPlan } from '@/lib/production/plan-actions';
+import { productionPlanKeys } from '@/hooks/use-production-plan';
+import type { ShiftDefinition } from '@/lib/shift-schedule/schedule';
+import type { Branch, BreadType, ProductionPlanItem, ShiftType } from '@/types';
+
+interface PlanClientProps {
+  displayName: string;
+  isOwner: boolean;
+  breadTypes: BreadType[];
+  branches: Branch[];
+  branchId: string | null;
+  planDate: string;
+  shift: ShiftType;
+  shifts: ShiftDefinition[];
+  plan: ProductionPlanItem[];
+}
+
+export default function PlanClient({
+  displayName,
+  isOwner,
+  breadTypes,
+  branches,
+  branchId,
+  planDate,
+  shift,
+  shifts,
+  plan,
+}: PlanClientProps) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [quantities, setQuantities] = useState<Record<string, string>>(
+    Object.fromEntries(plan.map(item => [item.bread_type_id, String(item.planned_quantity)]))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const totalPlanned = Object.values(quantities).reduce((sum, value) => sum + (Number(value) || 0), 0);
+
+  const navigate = (changes: { date?: string; shift?: ShiftType; branch?: string }) => {
+    const params = new URLSearchParams({ date: planDate, shift });
+    if (isOwner && branchId) params.set('branch', branchId);
+    Object.entries(changes).forEach(([key, value]) => value && params.set(key, value));
+    router.push(`/dashboard/production/plan?${params.toString()}`);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await saveProductionPlan({
+        plan_date: planDate,
+        shift,
+        branch_id: branchId,
+        items: breadTypes.map(breadType => ({
+          bread_type_id: breadType.id,
+          planned_quantity: Number(quantities[breadType.id]) || 0,
+        })),
+      });
+      if (result.success) {
+        toast.success('Production plan saved');
+        queryClient.invalidateQueries({ queryKey: productionPlanKeys.all() });
+        router.refresh();
+      } else {
+        toast.error(result.error || 'Failed to save production plan');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Mobile-First Header with Back Button */}
+      <div className="bg-gradient-to-r from-orange-500 to-amber-500 text-white">
+        <div className="px-3 sm:px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-2 sm:gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl touch-manipulation flex-shrink-0"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="bg-white/20 p-2 sm:p-3 rounded-xl flex-shrink-0">
+              <ClipboardList className="h-5 w-5 sm:h-6 sm:w-6" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg sm:text-2xl font-bold truncate">Production Plan</h1>
+              <p className="text-orange-100 text-xs sm:text-sm truncate">
+                Planned loaves per shift • {displayName}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content Area - Full Screen Scrollable */}
+      <div className="flex-1 overflow-y-auto bg-gradient-to-b from-orange-50/30 to-amber-50/30">
+        <div className="px-3 sm:px-4 py-4 space-y-4 max-w-2xl mx-auto w-full">
+          {isOwner && (
+            <BranchSelector
+              branches={branches}
+              value={branchId ?? ''}
+              onChange={(value) => navigate({ branch: value })}
+              allowAll={false}
+              className="bg-white"
+            />
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label className="text-xs text-gray-500">Date</Label>
+              <Input
+                type="date"
+                value={planDate}
+                onChange={(e) => e.target.value && navigate({ date: e.target.value })}
+                className="bg-white"
+              />
+            </div>
+            <div>
+              <Label className="text-xs text-gray-500">Shift</Label>
+              <Select value={shift} onValueChange={(value) => navigate({ shift: value as ShiftType })}>
+                <SelectTrigger className="bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent side="bottom">
+                  {shifts.map(definition => (
+                    <SelectItem key={definition.key} value={definition.key}>{definition.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {!branchId ? (
+            <div className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm text-sm text-gray-500 text-center">
+              Add a branch before planning production.
+            </div>
+          ) : breadTypes.length === 0 ? (
+            <div className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm text-sm text-gray-500 text-center">
+              Add bread types before planning production.
+            </div>
+          ) : (
+            <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+              <div className="flex items-center justify-between">
+                <h2 className="font-semibold text-gray-900">Planned quantities</h2>
+                <span className="text-sm text-gray-500">{totalPlanned} loaves</span>
+              </div>
+              <p className="text-xs text-gray-500">
+                Leave a bread type empty to leave it out of the plan. New batches show the planned quantity as a hint.
+              </p>
+
+              <ul className="divide-y divide-gray-100">
+                {breadTypes.map(breadType => (
+                  <li key={breadType.id} className="flex items-center justify-between gap-3 py-2">
+                    <div className="min-w-0">
+                      <div className="text-sm text-gray-900 truncate">{breadType.name}</div>
+                      {breadType.size && <div className="text-xs text-gray-500">{breadType.size}</div>}
+                    </div>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={1}
+                      inputMode="numeric"
+                      className="w-24 text-right"
+                      value={quantities[breadType.id] ?? ''}
+                      placeholder="0"
+                      onChange={(e) => setQuantities(prev => ({ ...prev, [breadType.id]: e.target.value }))}
+                      aria-label={`Planned ${breadType.name}`}
+                    />
+                  </li>
+                ))}
+              </ul>
+
+              <Button
+                type="button"
+                onClick={handleSave}
+                disabled={isSaving || Object.values(quantities).some(value => value !== '' && !Number.isInteger(Number(value)))}
+                className="w-full"
+              >
+                {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+                Save plan
+              </Button>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
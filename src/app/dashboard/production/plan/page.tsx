@@ -0,0 +1,60 @@
+import { redirect } from 'next/navigation';
+import { getAuthenticatedUser, hasPermission } from '@/lib/auth/auth-utils';
+import { getProductionPlan } from '@/lib/production/plan-actions';
+import { getBreadTypes } from '@/lib/bread-types/actions';
+import { getBranches } from '@/lib/branches/actions';
+import { getShiftSchedule } from '@/lib/shift-schedule/actions';
+import { getAllShiftDefinitions, isScheduledShift } from '@/lib/shift-schedule/schedule';
+import type { ShiftType } from '@/types';
+import PlanClient from './PlanClient';
+
+// Force dynamic rendering for authentication
+export const dynamic = 'force-dynamic';
+
+export default async function ProductionPlanPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ date?: string; shift?: string; branch?: string }>;
+}) {
+  const user = await getAuthenticatedUser();
+
+  if (!user) {
+    return redirect('/login');
+  }
+
+  if (!(await hasPermission('production.plan'))) {
+    return redirect('/dashboard');
+  }
+
+  const params = await searchParams;
+  const planDate = params.date && /^\d{4}-\d{2}-\d{2}$/.test(params.date)
+    ? params.date
+    : new Date().toISOString().split('T')[0];
+  // Plans belong to one branch; owners pick which one they are planning for
+  const branches = user.role === 'owner' ? await getBranches() : [];
+  const branchId = user.role === 'owner' ? params.branch || branches[0]?.id || null : user.branch_id;
+
+  const schedule = await getShiftSchedule(branchId);
+  const shifts = getAllShiftDefinitions(schedule);
+  const shift: ShiftType = params.shift && isScheduledShift(schedule, params.shift) ? params.shift : shifts[0].key;
+
+  const [breadTypes, plan] = await Promise.all([
+    getBreadTypes(false, branchId),
+    branchId ? getProductionPlan(planDate, shift, branchId) : Promise.resolve([]),
+  ]);
+
+  return (
+    <PlanClient
+      key={`${branchId}-${planDate}-${shift}`}
+      displayName={user.name}
+      isOwner={user.role === 'owner'}
+      breadTypes={breadTypes}
+      branches={branches}
+      branchId={branchId}
+      planDate={planDate}
+      shift={shift}
+      shifts={shifts}
+      plan={plan}
+    />
+  );
+}
@@ -10,7 +10,6 @@ import { ReportSummary, ReportFilters } from '@/lib/reports/queries';
 import { fetchReportData } from '@/lib/reports/actions';
 import { useShift } from '@/contexts/ShiftContext';
 import { useToast } from '@/components/ui/ToastProvider';
-import { exportToCSV, exportToPDF } from '@/lib/reports/export';
 
 import ReportFiltersComponent from '@/components/reports/report-filters';
 import SummaryCards from '@/components/reports/summary-cards';
@@ -153,7 +152,7 @@ export default function ReportsClient({
             </Button>
             <ExportButtons
               reportData={reportData}
-              elementId="reports-dashboard"
+              report={{ kind: 'summary', filters }}
               title="HomeBake Business Report"
               subtitle={`Performance Report • ${new Date().toLocaleDateString()}`}
               disabled={loading}
@@ -93,7 +93,7 @@ export default function ShiftReportClient({
             </Badge>
                          <ExportButtons
                reportData={shiftData}
-               elementId="shift-report"
+               report={{ kind: 'shift', shiftId: shiftData.id }}
                title={`HomeBake Shift Report - ${formatDate(shiftData.date)}`}
                subtitle={`${shiftData.shift.charAt(0).toUpperCase() + shiftData.shift.slice(1)} Shift Performance`}
                disabled={false}
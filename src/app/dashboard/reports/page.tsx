@@ -13,6 +13,8 @@ import { useRouter } from 'next/navigation';
 import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from '@/components/ui/select';
 import ReportFiltersComponent from '@/components/reports/report-filters';
 import { getBreadTypesClient } from '@/lib/bread-types/client-actions';
+import { useAuth } from '@/hooks/use-auth';
+import { ProductionVariancePanel } from '@/components/production/production-variance-panel';
 import type { BreadType } from '@/types';
 import type { ReportFilters } from '@/lib/reports/queries';
 
@@ -101,6 +103,7 @@ function getName(val: unknown): string {
 
 function ReportsPageInner() {
   const router = useRouter();
+  const { isManager, isManagerOrAbove } = useAuth();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [groupedReports, setGroupedReports] = useState<GroupedReport[]>([]);
@@ -398,6 +401,12 @@ function ReportsPageInner() {
           loading={loading}
         />
       </Modal>
+      {/* Planned vs Actual */}
+      {isManagerOrAbove && (
+        <div className="p-2 sm:p-4 pb-0 sm:pb-0">
+          <ProductionVariancePanel hideManagerView={isManager} />
+        </div>
+      )}
       {/* Reports List */}
       <main className="flex-1 p-2 sm:p-4">
         {loading ? (
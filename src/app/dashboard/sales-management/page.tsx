@@ -2,6 +2,7 @@ import { createServer } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
 import { getSalesManagementData } from '@/lib/reports/actions';
 import { getCurrentShiftInfo } from '@/lib/utils/shift-utils';
+import { getShiftSchedule } from '@/lib/shift-schedule/actions';
 import SalesManagementClient from './SalesManagementClient';
 
 export default async function SalesManagementPage() {
@@ -25,7 +26,7 @@ export default async function SalesManagementPage() {
   }
 
   // Get current shift
-  const { currentShift } = getCurrentShiftInfo();
+  const { currentShift } = getCurrentShiftInfo(await getShiftSchedule());
 
   // Fetch initial sales management data
   const initialData = await getSalesManagementData(user.id, currentShift);
@@ -23,7 +23,9 @@ import { formatCurrencyNGN } from '@/lib/utils/currency';
 import { UserRole } from '@/types';
 import { toast } from 'sonner';
 import { FinalReportViewModal } from '@/components/modals/FinalReportViewModal';
+import type { ShiftCashUp } from '@/components/reports/cash-up-summary';
 import { getShiftReports } from '@/lib/reports/actions';
+import type { ShiftType } from '@/types';
 
 // Type for sales data items
 interface SalesDataItem {
@@ -46,7 +48,7 @@ interface RemainingBreadItem {
 interface ShiftReport {
   id: string;
   user_id: string;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   report_date: string;
   total_revenue: number;
   total_items_sold: number;
@@ -54,6 +56,11 @@ interface ShiftReport {
   feedback: string | null;
   sales_data: SalesDataItem[];
   remaining_breads: RemainingBreadItem[];
+  payment_totals?: ShiftCashUp['payment_totals'];
+  counted_cash?: number | null;
+  counted_transfer?: number | null;
+  cash_variance?: number | null;
+  transfer_variance?: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -78,6 +85,7 @@ interface ReportData {
   totalRemaining: number;
   shift?: string;
   feedback?: string;
+  cashUp?: ShiftCashUp;
 }
 
 interface SalesReportsHistoryClientProps {
@@ -237,7 +245,14 @@ export default function SalesReportsHistoryClient({ userId, userRole }: SalesRep
       totalItemsSold: report.total_items_sold,
       totalRemaining: report.total_remaining,
       shift: report.shift,
-      feedback: report.feedback || undefined
+      feedback: report.feedback || undefined,
+      cashUp: {
+        payment_totals: report.payment_totals,
+        counted_cash: report.counted_cash,
+        counted_transfer: report.counted_transfer,
+        cash_variance: report.cash_variance,
+        transfer_variance: report.transfer_variance
+      }
     };
   };
 
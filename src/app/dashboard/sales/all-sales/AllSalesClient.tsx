@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useMemo } from 'react';
-import { ArrowLeft, Search, TrendingUp, DollarSign, Package, Filter, ChevronDown } from 'lucide-react';
+import { ArrowLeft, Search, TrendingUp, DollarSign, Package, Filter, ChevronDown, Undo2, Receipt } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
@@ -16,6 +16,9 @@ import { formatCurrencyNGN } from '@/lib/utils/currency';
 import { useShift } from '@/contexts/ShiftContext';
 import { useRouter } from 'next/navigation';
 import { getAllSalesForShift } from '@/lib/dashboard/server-actions';
+import { SaleVoidModal, remainingVoidableQuantity } from '@/components/modals/SaleVoidModal';
+import { ReceiptModal } from '@/components/modals/ReceiptModal';
+import { Checkbox } from '@/components/ui/checkbox';
 
 interface AllSalesClientProps {
   userId: string;
@@ -40,8 +43,20 @@ interface SalesLogWithDetails {
   recorded_by_user: {
     name: string;
   };
+  sale_voids: {
+    kind: string;
+    quantity: number;
+    amount: number;
+    reason: string;
+  }[] | null;
 }
 
+// Money and loaves already given back through voids and refunds
+const voidedAmount = (sale: SalesLogWithDetails) =>
+  (sale.sale_voids || []).reduce((sum, entry) => sum + Number(entry.amount), 0);
+const voidedQuantity = (sale: SalesLogWithDetails) =>
+  (sale.sale_voids || []).reduce((sum, entry) => sum + entry.quantity, 0);
+
 export function AllSalesClient({ userId, userName }: AllSalesClientProps) {
   const { currentShift } = useShift();
   const router = useRouter();
@@ -49,6 +64,14 @@ export function AllSalesClient({ userId, userName }: AllSalesClientProps) {
   const [filterType, setFilterType] = useState('all');
   const [showFilterDropdown, setShowFilterDropdown] = useState(false);
   const [isNavigatingBack, setIsNavigatingBack] = useState(false);
+  const [voidingSale, setVoidingSale] = useState<SalesLogWithDetails | null>(null);
+  // Sales picked to go on one receipt together
+  const [selectedSaleIds, setSelectedSaleIds] = useState<string[]>([]);
+  const [receiptSaleIds, setReceiptSaleIds] = useState<string[] | null>(null);
+
+  const toggleSelected = (saleId: string, selected: boolean) => {
+    setSelectedSaleIds(prev => (selected ? [...prev, saleId] : prev.filter(id => id !== saleId)));
+  };
 
   // Optimized fetch for all sales with production-grade caching
   const {
@@ -85,6 +108,7 @@ export function AllSalesClient({ userId, userName }: AllSalesClientProps) {
       const matchesFilter = 
         filterType === 'all' ||
         (filterType === 'returned' && sale.returned) ||
+        (filterType === 'voided' && (sale.sale_voids || []).length > 0) ||
         (filterType === 'sold' && !sale.returned) ||
         (filterType === 'discounted' && sale.discount && sale.discount > 0) ||
         (filterType === 'high-value' && (sale.quantity * (sale.unit_price || 0)) > 1000);
@@ -96,26 +120,31 @@ export function AllSalesClient({ userId, userName }: AllSalesClientProps) {
   // Calculate total revenue
   const totalRevenue = useMemo(() => {
     return filteredSales.reduce((sum, sale) => {
-      const amount = (sale.quantity * (sale.unit_price || 0)) - (sale.discount || 0);
+      const amount = (sale.quantity * (sale.unit_price || 0)) - (sale.discount || 0) - voidedAmount(sale);
       return sum + amount;
     }, 0);
   }, [filteredSales]);
 
   // Calculate total items sold
   const totalItemsSold = useMemo(() => {
-    return filteredSales.reduce((sum, sale) => sum + sale.quantity, 0);
+    return filteredSales.reduce((sum, sale) => sum + sale.quantity - voidedQuantity(sale), 0);
   }, [filteredSales]);
 
-  // Get status color for returned items
-  const getStatusColor = (returned: boolean) => {
-    return returned 
+  // Get status color for returned, voided and refunded items
+  const getStatusColor = (sale: SalesLogWithDetails) => {
+    if ((sale.sale_voids || []).length > 0) return 'bg-gray-100 text-gray-700 border-gray-300';
+    return sale.returned 
       ? 'bg-red-100 text-red-700 border-red-200' 
       : 'bg-green-100 text-green-700 border-green-200';
   };
 
   // Get status display text
-  const getStatusDisplay = (returned: boolean) => {
-    return returned ? 'Returned' : 'Sold';
+  const getStatusDisplay = (sale: SalesLogWithDetails) => {
+    if ((sale.sale_voids || []).some(entry => entry.kind === 'void')) return 'Voided';
+    if ((sale.sale_voids || []).length > 0) {
+      return remainingVoidableQuantity(sale) === 0 ? 'Refunded' : `Refunded ${voidedQuantity(sale)}`;
+    }
+    return sale.returned ? 'Returned' : 'Sold';
   };
 
   // Utility function to get cookie value
@@ -234,6 +263,7 @@ export function AllSalesClient({ userId, userName }: AllSalesClientProps) {
                         { value: 'all', label: 'All Sales', icon: '📊' },
                         { value: 'sold', label: 'Sold Items', icon: '✅' },
                         { value: 'returned', label: 'Returned Items', icon: '↩️' },
+                        { value: 'voided', label: 'Voided & Refunded', icon: '🚫' },
                         { value: 'discounted', label: 'With Discount', icon: '💰' },
                         { value: 'high-value', label: 'High Value (>₦1,000)', icon: '⭐' }
                       ].map((filter) => (
@@ -347,8 +377,8 @@ export function AllSalesClient({ userId, userName }: AllSalesClientProps) {
                         {sale.bread_types.name}
                       </h3>
                     </div>
-                    <Badge className={`${getStatusColor(sale.returned)} px-2 py-0.5 text-xs flex-shrink-0`} variant="outline">
-                      {getStatusDisplay(sale.returned)}
+                    <Badge className={`${getStatusColor(sale)} px-2 py-0.5 text-xs flex-shrink-0`} variant="outline">
+                      {getStatusDisplay(sale)}
                     </Badge>
                   </div>
                   
@@ -379,12 +409,85 @@ export function AllSalesClient({ userId, userName }: AllSalesClientProps) {
                       )}
                     </div>
                   )}
+
+                  {/* Voids & refunds */}
+                  {(sale.sale_voids || []).map((entry, index) => (
+                    <div key={index} className="mt-2 pt-2 border-t border-gray-100 text-xs text-gray-600 flex justify-between gap-2">
+                      <span className="truncate">
+                        {entry.kind === 'void' ? 'Voided' : 'Refunded'} {entry.quantity} • {entry.reason}
+                      </span>
+                      <span className="text-red-600 font-medium flex-shrink-0">-{formatCurrencyNGN(Number(entry.amount))}</span>
+                    </div>
+                  ))}
+
+                  <div className="flex items-center justify-end gap-1 mt-2">
+                    <div className="mr-auto">
+                      <Checkbox
+                        checked={selectedSaleIds.includes(sale.id)}
+                        onChange={(e) => toggleSelected(sale.id, e.target.checked)}
+                        aria-label="Add to a combined receipt"
+                      />
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setReceiptSaleIds([sale.id])}
+                      className="h-8 px-2 text-xs text-gray-700 hover:bg-gray-50 touch-manipulation"
+                    >
+                      <Receipt className="h-3 w-3 mr-1" />
+                      Receipt
+                    </Button>
+                    {remainingVoidableQuantity(sale) > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setVoidingSale(sale)}
+                        className="h-8 px-2 text-xs text-red-600 hover:bg-red-50 touch-manipulation"
+                      >
+                        <Undo2 className="h-3 w-3 mr-1" />
+                        Void / Refund
+                      </Button>
+                    )}
+                  </div>
                 </div>
               ))}
             </div>
           </div>
         )}
       </div>
+
+      {selectedSaleIds.length > 1 && (
+        <div className="fixed bottom-0 inset-x-0 p-3 bg-white border-t border-gray-200 shadow-lg flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setSelectedSaleIds([])}
+            className="touch-manipulation min-h-[48px]"
+          >
+            Clear
+          </Button>
+          <Button
+            onClick={() => setReceiptSaleIds(selectedSaleIds)}
+            className="flex-1 touch-manipulation min-h-[48px]"
+          >
+            <Receipt className="h-4 w-4 mr-2" />
+            One receipt for {selectedSaleIds.length} sales
+          </Button>
+        </div>
+      )}
+
+      <ReceiptModal
+        saleIds={receiptSaleIds}
+        onClose={() => {
+          setReceiptSaleIds(null);
+          setSelectedSaleIds([]);
+        }}
+      />
+
+      <SaleVoidModal
+        sale={voidingSale}
+        onClose={() => setVoidingSale(null)}
+        onVoided={() => refetch()}
+      />
     </div>
   );
 }
\ No newline at end of file
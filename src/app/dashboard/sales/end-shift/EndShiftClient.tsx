@@ -14,8 +14,12 @@ import { getBreadTypesForSales, getSalesDataForShift, createShiftReport } from '
 import { getRemainingBread } from '@/lib/reports/actions';
 import { upsertSalesLogs } from '@/lib/sales/end-shift-actions';
 import { upsertRemainingBread } from '@/lib/remaining-bread/actions';
+import { summarizeShift } from '@/lib/reports/shift-report-summary';
+import { OfflineQueue } from '@/lib/offline/queue';
+import { OfflineStorage } from '@/lib/offline/storage';
 import { useRouter } from 'next/navigation';
 import { SimpleQuantityInput } from './SimpleQuantityInput';
+import type { ShiftType } from '@/types';
 
 interface EndShiftClientProps {
   userId: string;
@@ -41,7 +45,7 @@ interface SalesLog {
   discount: number | null;
   returned: boolean;
   leftover?: number | null;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   recorded_by: string;
   created_at: string;
   bread_types?: {
@@ -53,7 +57,7 @@ interface SalesLog {
 
 export function EndShiftClient({ userId, userName }: EndShiftClientProps) {
   // Add error boundary protection for useShift
-  let currentShift: 'morning' | 'night' | null = null;
+  let currentShift: ShiftType | null = null;
   try {
     const shiftContext = useShift();
     currentShift = shiftContext.currentShift;
@@ -72,6 +76,9 @@ export function EndShiftClient({ userId, userName }: EndShiftClientProps) {
   const [showConfirmationModal, setShowConfirmationModal] = useState(false);
   const [showFeedbackModal, setShowFeedbackModal] = useState(false);
   const [feedback, setFeedback] = useState('');
+  // Blind cash-up: the rep counts the till before seeing what was expected
+  const [countedCash, setCountedCash] = useState('');
+  const [countedTransfer, setCountedTransfer] = useState('');
   const [initialLoading, setInitialLoading] = useState(true);
   const [isNavigatingBack, setIsNavigatingBack] = useState(false);
   const [keyboardHeight, setKeyboardHeight] = useState(0);
@@ -85,6 +92,8 @@ export function EndShiftClient({ userId, userName }: EndShiftClientProps) {
   
   // Add flag to prevent data fetching during sales processing
   const [isProcessingSales, setIsProcessingSales] = useState(false);
+  // updated_at of each remaining bread record as loaded, to detect edits by others while offline
+  const [remainingVersions, setRemainingVersions] = useState<Record<string, string | null>>({});
   // Removed hasManualRemainingInput - not needed for simple inputs
 
   // Check if any modal is open
@@ -105,10 +114,20 @@ export function EndShiftClient({ userId, userName }: EndShiftClientProps) {
     
     setLoading(true);
     try {
+      if (!navigator.onLine) {
+        // Offline: end the shift from the bread types cached on the last online visit
+        const cachedBreadTypes = await OfflineStorage.getCachedBreadTypes();
+        setBreadTypes(cachedBreadTypes);
+        setQuickRecordItems(cachedBreadTypes.map(bt => ({ breadType: bt, quantity: 0 })));
+        setQuickRemainingItems(cachedBreadTypes.map(bt => ({ breadType: bt, quantity: 0 })));
+        return;
+      }
+
       // Fetch bread types using server action
       try {
         const breadTypesData = await getBreadTypesForSales();
         if (breadTypesData) {
+          await OfflineStorage.cacheBreadTypesForSale(breadTypesData);
           setBreadTypes(breadTypesData);
           setQuickRecordItems(breadTypesData.map((bt: any) => ({ breadType: bt, quantity: 0 })));
           
@@ -347,6 +366,9 @@ export function EndShiftClient({ userId, userName }: EndShiftClientProps) {
       const result = await getRemainingBread(userId);
       
       if (result.success && result.data && result.data.length > 0) {
+        setRemainingVersions(Object.fromEntries(
+          result.data.map(record => [record.bread_type_id, record.updated_at ?? record.created_at])
+        ));
         setQuickRemainingItems(prevItems => {
           const updatedItems = prevItems.map(item => {
             // Get all records for this bread type
@@ -412,6 +434,40 @@ export function EndShiftClient({ userId, userName }: EndShiftClientProps) {
     const remainingToSave = quickRemainingItems.filter(item => item.quantity > 0);
 
     try {
+      if (!navigator.onLine) {
+        // Offline: queue both and sync them in order once the connection is back
+        if (additionalSales.length > 0) {
+          await OfflineQueue.addShiftSalesAction({
+            items: additionalSales.map(item => ({
+              bread_type_id: item.breadType.id,
+              quantity: item.quantity,
+              unit_price: item.breadType.unit_price,
+              shift: currentShift!,
+              recorded_by: userId
+            }))
+          }, userId);
+          salesProcessed = true;
+        }
+        if (remainingToSave.length > 0) {
+          await OfflineQueue.addRemainingBreadAction({
+            items: remainingToSave.map(item => ({
+              bread_type_id: item.breadType.id,
+              bread_type: item.breadType.name,
+              quantity: item.quantity,
+              unit_price: item.breadType.unit_price,
+              shift: currentShift!,
+              recorded_by: userId,
+              base_version: remainingVersions[item.breadType.id] ?? null
+            }))
+          }, userId);
+          remainingProcessed = true;
+        }
+        if (salesProcessed || remainingProcessed) {
+          toast.success('Saved offline. It will sync when you are back online.');
+        }
+        return;
+      }
+
       // Step 1: Process Sales Data (if any)
       
       if (additionalSales.length > 0) {
@@ -574,7 +630,39 @@ export function EndShiftClient({ userId, userName }: EndShiftClientProps) {
 
 
   const handleSubmitWithFeedback = async () => {
+    if (countedCash === '' || countedTransfer === '') {
+      toast.error('Enter the cash and transfer amounts you counted');
+      return;
+    }
+    const counted = {
+      counted_cash: parseFloat(countedCash),
+      counted_transfer: parseFloat(countedTransfer)
+    };
+
     setSubmitting(true);
+
+    if (!navigator.onLine) {
+      // Offline: the report is totalled on the server once the queued sales have synced
+      try {
+        await OfflineQueue.addShiftReportAction({
+          user_id: userId,
+          shift: currentShift!,
+          report_date: new Date().toLocaleDateString('en-CA', { timeZone: 'Africa/Lagos' }),
+          feedback: feedback || undefined,
+          ...counted,
+          base_version: null
+        }, userId);
+        toast.success('Shift ended offline. The report will be submitted when you are back online.');
+        setShowFeedbackModal(false);
+        setShowConfirmationModal(false);
+        router.push('/dashboard/sales');
+      } catch (error) {
+        console.error('Error queueing shift report:', error);
+        toast.error('Failed to save the shift report offline');
+        setSubmitting(false);
+      }
+      return;
+    }
     
     try {
       // Show loading toast
@@ -593,68 +681,28 @@ export function EndShiftClient({ userId, userName }: EndShiftClientProps) {
       toast.dismiss('fetch-fresh');
       
       // Step 2: Calculate totals from FRESH database data
-      let totalRevenue = 0;
-      let totalItemsSold = 0;
-      
-      // Process FRESH sales data for shift report
-      const salesDataItems = (freshSalesData || []).map(sale => {
-        const revenue = sale.quantity * (sale.unit_price || 0);
-        totalRevenue += revenue;
-        totalItemsSold += sale.quantity;
-        
-        return {
-          breadType: sale.bread_types?.name || 'Unknown',
-          quantity: sale.quantity,
-          unitPrice: sale.unit_price || 0,
-          totalAmount: revenue,
-          timestamp: sale.created_at
-        };
-      });
-      
-      // Process FRESH remaining bread data for shift report (JSON summary)
-      // Group by bread_type_id and get latest record for each
-      const remainingBreadMap = new Map();
-      freshRemainingData.forEach(item => {
-        const existing = remainingBreadMap.get(item.bread_type_id);
-        if (!existing || new Date(item.created_at) > new Date(existing.created_at)) {
-          remainingBreadMap.set(item.bread_type_id, item);
-        }
-      });
-      
-      const remainingBreadItems = Array.from(remainingBreadMap.values())
-        .filter(item => item.quantity > 0)
-        .map(item => ({
-          breadType: item.bread_type,
-          quantity: item.quantity,
-          unitPrice: item.unit_price,
-          totalAmount: item.quantity * item.unit_price
-        }));
-      
-      const totalRemaining = remainingBreadItems.reduce((sum, item) => sum + item.quantity, 0);
+      const summary = summarizeShift(freshSalesData || [], freshRemainingData);
       
       // Step 3: Create/Update shift report with FRESH data (UPSERT logic)
       toast.loading('Creating shift report...', { id: 'create-report' });
       
       const reportData = {
+        ...summary, // FRESH sales and remaining bread data from database
         user_id: userId,
         shift: currentShift,
-        total_revenue: totalRevenue,
-        total_items_sold: totalItemsSold,
-        total_remaining: totalRemaining,
         feedback: feedback, // Include feedback note from modal
-        sales_data: salesDataItems, // FRESH sales data from database
-        remaining_breads: remainingBreadItems // FRESH remaining bread data from database
+        ...counted
       };
       
       console.log('📊 Creating shift report with FRESH data:', {
         user_id: reportData.user_id,
         shift: reportData.shift,
         feedback: reportData.feedback,
-        sales_count: salesDataItems.length,
-        remaining_count: remainingBreadItems.length,
-        total_revenue: totalRevenue,
-        total_items_sold: totalItemsSold,
-        total_remaining: totalRemaining
+        sales_count: summary.sales_data.length,
+        remaining_count: summary.remaining_breads.length,
+        total_revenue: summary.total_revenue,
+        total_items_sold: summary.total_items_sold,
+        total_remaining: summary.total_remaining
       });
       
       const shiftReport = await createShiftReport(reportData);
@@ -1235,10 +1283,10 @@ export function EndShiftClient({ userId, userName }: EndShiftClientProps) {
                 isKeyboardVisible 
                   ? 'text-base' // Smaller title when keyboard visible
                   : 'text-lg sm:text-xl md:text-2xl lg:text-3xl' // Full size when keyboard hidden
-              }`}>Add Feedback</h1>
+              }`}>Cash-up & Feedback</h1>
               {!isKeyboardVisible && (
                 <p className="text-blue-100 text-center mt-1 sm:mt-2 md:mt-3 text-xs sm:text-sm md:text-base lg:text-lg">
-                  Optional feedback for this shift
+                  Count the till and add any notes for this shift
                 </p>
               )}
             </div>
@@ -1254,11 +1302,46 @@ export function EndShiftClient({ userId, userName }: EndShiftClientProps) {
                 {!isKeyboardVisible && (
                   <div className="bg-blue-50 border border-blue-200 rounded-lg sm:rounded-xl md:rounded-2xl p-3 sm:p-4 md:p-6">
                     <p className="text-blue-800 text-center font-medium text-xs sm:text-sm md:text-base">
-                      Add any feedback or notes about this shift before generating the report.
+                      Enter the cash in the till and the transfers you received, then any notes about this shift.
                     </p>
                   </div>
                 )}
                 
+                <div className="grid grid-cols-2 gap-2 sm:gap-3">
+                  <div className="space-y-1">
+                    <label className="block text-sm sm:text-base font-semibold text-gray-900">
+                      Cash counted
+                    </label>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      min={0}
+                      step="0.01"
+                      value={countedCash}
+                      onChange={(e) => setCountedCash(e.target.value)}
+                      placeholder="0.00"
+                      className="w-full p-3 border-2 border-gray-300 rounded-lg sm:rounded-xl text-sm sm:text-base focus:border-blue-500 focus:ring-2 focus:ring-blue-200 focus:outline-none"
+                      aria-label="Cash counted in the till"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="block text-sm sm:text-base font-semibold text-gray-900">
+                      Transfers received
+                    </label>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      min={0}
+                      step="0.01"
+                      value={countedTransfer}
+                      onChange={(e) => setCountedTransfer(e.target.value)}
+                      placeholder="0.00"
+                      className="w-full p-3 border-2 border-gray-300 rounded-lg sm:rounded-xl text-sm sm:text-base focus:border-blue-500 focus:ring-2 focus:ring-blue-200 focus:outline-none"
+                      aria-label="Bank transfers received"
+                    />
+                  </div>
+                </div>
+
                 <div className="space-y-1 sm:space-y-2 md:space-y-3">
                   <label className="block text-sm sm:text-base md:text-lg font-semibold text-gray-900">
                     Shift Feedback
@@ -1311,7 +1394,7 @@ export function EndShiftClient({ userId, userName }: EndShiftClientProps) {
                 </Button>
                 <Button
                   onClick={handleSubmitWithFeedback}
-                  disabled={submitting}
+                  disabled={submitting || countedCash === '' || countedTransfer === ''}
                   className={`flex-1 rounded-lg sm:rounded-xl bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 touch-manipulation disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transition-all text-white font-semibold ${
                     isKeyboardVisible 
                       ? 'py-2 px-3 text-sm min-h-[44px]' // Compact when keyboard visible  
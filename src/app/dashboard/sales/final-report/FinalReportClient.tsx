@@ -9,6 +9,8 @@ import { toast } from 'sonner';
 import { useAuth } from '@/hooks/use-auth';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
+import { CashUpSummary, type ShiftCashUp } from '@/components/reports/cash-up-summary';
+import type { ShiftType } from '@/types';
 
 interface FinalReportClientProps {
   userId: string;
@@ -29,18 +31,28 @@ interface ReportData {
     unitPrice: number;
     totalAmount: number;
   }>;
+  voidRecords?: Array<{
+    breadType: string;
+    kind: 'void' | 'refund';
+    quantity: number;
+    amount: number;
+    reason: string;
+    timestamp?: string;
+  }>;
   totalRevenue: number;
   totalItemsSold: number;
   totalRemaining: number;
+  totalVoided?: number;
   shift?: string;
   feedback?: string;
   userId?: string;
+  cashUp?: ShiftCashUp;
 }
 
 interface ShiftFeedback {
   id: string;
   user_id: string;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   note: string | null;
   created_at: string;
   users?: {
@@ -52,7 +64,7 @@ interface ShiftFeedback {
 
 export function FinalReportClient({ userName }: FinalReportClientProps) {
   // Add error boundary protection for useShift
-  let currentShift: 'morning' | 'night' | null = null;
+  let currentShift: ShiftType | null = null;
   try {
     const shiftContext = useShift();
     currentShift = shiftContext.currentShift;
@@ -98,12 +110,21 @@ export function FinalReportClient({ userName }: FinalReportClientProps) {
       const reportData: ReportData = {
         salesRecords: shiftReport.sales_data || [],
         remainingBreads: shiftReport.remaining_breads || [],
+        voidRecords: shiftReport.voids_data || [],
         totalRevenue: shiftReport.total_revenue || 0,
         totalItemsSold: shiftReport.total_items_sold || 0,
         totalRemaining: shiftReport.total_remaining || 0,
+        totalVoided: Number(shiftReport.total_voided) || 0,
         shift: shiftReport.shift,
         feedback: shiftReport.feedback,
-        userId: shiftReport.user_id
+        userId: shiftReport.user_id,
+        cashUp: {
+          payment_totals: shiftReport.payment_totals,
+          counted_cash: shiftReport.counted_cash,
+          counted_transfer: shiftReport.counted_transfer,
+          cash_variance: shiftReport.cash_variance,
+          transfer_variance: shiftReport.transfer_variance
+        }
       };
       
       setReportData(reportData);
@@ -152,7 +173,7 @@ export function FinalReportClient({ userName }: FinalReportClientProps) {
     
     setLoadingFeedback(true);
     try {
-      const result = await getShiftFeedback(effectiveUserId, reportData.shift as 'morning' | 'night');
+      const result = await getShiftFeedback(effectiveUserId, reportData.shift as ShiftType);
       
       if (result.success && result.data) {
         setShiftFeedback(result.data);
@@ -180,13 +201,15 @@ export function FinalReportClient({ userName }: FinalReportClientProps) {
     try {
       const result = await createShiftReport({
         user_id: effectiveUserId,
-        shift: (reportData.shift || currentShift) as 'morning' | 'night',
+        shift: (reportData.shift || currentShift) as ShiftType,
         total_revenue: reportData.totalRevenue,
         total_items_sold: reportData.totalItemsSold,
         total_remaining: reportData.totalRemaining,
         feedback: reportData.feedback || null,
         sales_data: reportData.salesRecords,
         remaining_breads: reportData.remainingBreads,
+        total_voided: reportData.totalVoided || 0,
+        voids_data: reportData.voidRecords || [],
       });
 
       if (result.success) {
@@ -243,8 +266,13 @@ export function FinalReportClient({ userName }: FinalReportClientProps) {
       ['Bread Type', 'Quantity', 'Unit Price', 'Total Value'],
       ...reportData.remainingBreads.map(item => [item.breadType, item.quantity, item.unitPrice, item.totalAmount]),
       [''],
+      ['Voids & Refunds'],
+      ['Bread Type', 'Type', 'Quantity', 'Amount', 'Reason'],
+      ...(reportData.voidRecords || []).map(item => [item.breadType, item.kind, item.quantity, item.amount, `"${item.reason.replace(/"/g, '""')}"`]),
+      [''],
       ['Summary'],
       ['Total Revenue', reportData.totalRevenue],
+      ['Total Voided', reportData.totalVoided || 0],
       ['Total Items Sold', reportData.totalItemsSold],
       ['Total Remaining', reportData.totalRemaining]
     ].map(row => row.join(',')).join('\n');
@@ -441,6 +469,38 @@ export function FinalReportClient({ userName }: FinalReportClientProps) {
             </div>
           )}
 
+          {/* Voids & Refunds - kept apart from sales, already taken off revenue */}
+          {reportData.voidRecords && reportData.voidRecords.length > 0 && (
+            <div>
+              <div className="flex items-center gap-3 mb-4">
+                <div className="w-6 h-6 bg-gray-100 rounded flex items-center justify-center">
+                  <span className="text-sm">↩️</span>
+                </div>
+                <h2 className="text-xl font-bold text-gray-900">Voids & Refunds ({reportData.voidRecords.length})</h2>
+              </div>
+
+              <div className="bg-red-50 rounded-xl border border-red-200 overflow-hidden">
+                {reportData.voidRecords.map((item, index) => (
+                  <div key={index} className="flex justify-between items-center p-4 border-b border-red-100 last:border-b-0 touch-manipulation min-h-[72px]">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-base font-bold text-gray-900">{item.breadType}</div>
+                      <div className="text-sm text-red-600 mt-1 truncate">
+                        {item.kind === 'void' ? 'Voided' : 'Refunded'} {item.quantity} units • {item.reason}
+                      </div>
+                    </div>
+                    <div className="text-base font-bold text-red-700 ml-3">
+                      -{formatCurrencyNGN(item.amount)}
+                    </div>
+                  </div>
+                ))}
+                <div className="flex justify-between items-center p-4 bg-red-100/60 text-sm font-semibold text-red-800">
+                  <span>Total taken off revenue</span>
+                  <span>-{formatCurrencyNGN(reportData.totalVoided || 0)}</span>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Remaining Inventory */}
           <div>
             <div className="flex items-center gap-3 mb-4">
@@ -478,6 +538,8 @@ export function FinalReportClient({ userName }: FinalReportClientProps) {
             })()}
           </div>
 
+          {reportData.cashUp && <CashUpSummary cashUp={reportData.cashUp} />}
+
           {/* Shift Feedback */}
           {(shiftFeedback || reportData.feedback) && (
             <div>
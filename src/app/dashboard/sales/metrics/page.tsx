@@ -1,6 +1,7 @@
 import { createServer } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
 import { SalesMetrics } from '@/components/dashboards/sales/sales-metrics';
+import type { ShiftType } from '@/types';
 
 export default async function SalesMetricsPage() {
   const supabase = await createServer();
@@ -62,7 +63,7 @@ export default async function SalesMetricsPage() {
     averageOrderValue: 2500,
     customerCount: (salesData || []).length,
     topSellingBread: 'White Bread',
-    currentShift: shift as 'morning' | 'night',
+    currentShift: shift as ShiftType,
     previousDaySales: 45000,
     weeklyAverage: 48000,
     lastUpdate: new Date().toISOString(),
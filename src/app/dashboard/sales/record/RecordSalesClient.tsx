@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect, useRef } from 'react';
-import { ArrowLeft, Plus, Minus, ShoppingCart, Calculator, AlertCircle, Check } from 'lucide-react';
+import { ArrowLeft, Plus, Minus, ShoppingCart, Calculator, AlertCircle, Check, Tag } from 'lucide-react';
 import { LoadingButton } from '@/components/ui/loading-button';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -21,7 +21,18 @@ import {
 } from '@/lib/queries/sales-query-keys';
 import { toast } from 'sonner';
 import { usePerformanceMonitor } from '@/lib/monitoring/performance';
+import { useOfflineStatus } from '@/hooks/use-offline';
+import { useSalePromotion } from '@/hooks/use-promotions';
+import { OfflineQueue } from '@/lib/offline/queue';
+import { OfflineStorage } from '@/lib/offline/storage';
 import { useScreenReader } from '@/lib/accessibility/screen-reader';
+import {
+  CustomerPaymentSection,
+  WALK_IN_PAYMENT,
+  amountPaidNow,
+  paymentMethodFor,
+  type CustomerPayment
+} from '@/components/dashboards/sales/CustomerPaymentSection';
 
 interface RecordSalesClientProps {
   userId: string;
@@ -50,6 +61,7 @@ export function RecordSalesClient({ userId, userName }: RecordSalesClientProps)
   const { startTimer, endTimer, trackUserAction } = usePerformanceMonitor();
   const { announceLoading, announceDataLoaded, announceSuccess, announceValidationError } = useScreenReader();
   const queryClient = useQueryClient();
+  const { isOnline } = useOfflineStatus();
 
   // Optimized React Query for bread types with production-grade caching
   const {
@@ -64,8 +76,15 @@ export function RecordSalesClient({ userId, userName }: RecordSalesClientProps)
         try {
           startTimer('fetch_bread_types');
           announceLoading('bread types');
+          if (!navigator.onLine) {
+            // Offline: sell from the list cached on the last online visit
+            const cached = await OfflineStorage.getCachedBreadTypes();
+            endTimer('fetch_bread_types');
+            return cached;
+          }
           const data = await getBreadTypesForSalesRep();
           endTimer('fetch_bread_types');
+          await OfflineStorage.cacheBreadTypesForSale(data || []);
           
           if (!data || data.length === 0) {
             announceDataLoaded('No bread types found');
@@ -93,6 +112,19 @@ export function RecordSalesClient({ userId, userName }: RecordSalesClientProps)
     discount: 0,
     totalAmount: 0
   });
+  const [customerPayment, setCustomerPayment] = useState<CustomerPayment>(WALK_IN_PAYMENT);
+
+  // A running promotion replaces any discount typed in
+  const appliedPromotion = useSalePromotion({
+    breadTypeId: formData.breadTypeId,
+    quantity: formData.quantity,
+    unitPrice: formData.unitPrice,
+    shift: currentShift,
+  });
+  const saleDiscount = appliedPromotion ? appliedPromotion.discount : formData.discount;
+  const saleTotal = appliedPromotion
+    ? Math.max(0, formData.quantity * formData.unitPrice - appliedPromotion.discount)
+    : formData.totalAmount;
   // Removed: loading state now managed by React Query
   // Removed: submitting state now managed by React Query mutation
   const [isNavigatingBack, setIsNavigatingBack] = useState(false);
@@ -111,6 +143,7 @@ export function RecordSalesClient({ userId, userName }: RecordSalesClientProps)
       discount: 0,
       totalAmount: 0
     });
+    setCustomerPayment(WALK_IN_PAYMENT);
   };
 
   useEffect(() => {
@@ -122,6 +155,11 @@ export function RecordSalesClient({ userId, userName }: RecordSalesClientProps)
     mutationFn: async (saleData: any) => {
       try {
         startTimer('record_sale');
+        if (!isOnline) {
+          // Synced with its idempotency key once the connection is back
+          await OfflineQueue.addSalesAction(saleData, userId, `${formData.breadTypeName} x${formData.quantity}`);
+          return { success: true, queued: true };
+        }
         const result = await createSalesLog(saleData);
         
         // Check if result indicates failure
@@ -137,7 +175,9 @@ export function RecordSalesClient({ userId, userName }: RecordSalesClientProps)
     },
     onSuccess: (result) => {
       const duration = endTimer('record_sale');
-      const successMessage = `Sale recorded: ${formData.breadTypeName} x${formData.quantity} units`;
+      const successMessage = result && 'queued' in result
+        ? `Sale saved offline: ${formData.breadTypeName} x${formData.quantity} units. It will sync when you are back online.`
+        : `Sale recorded: ${formData.breadTypeName} x${formData.quantity} units`;
       toast.success(successMessage);
       announceSuccess(successMessage);
       
@@ -148,7 +188,7 @@ export function RecordSalesClient({ userId, userName }: RecordSalesClientProps)
         duration,
         metadata: { 
           breadType: formData.breadTypeName,
-          amount: formData.totalAmount,
+          amount: saleTotal,
           shift: currentShift 
         }
       });
@@ -254,9 +294,15 @@ export function RecordSalesClient({ userId, userName }: RecordSalesClientProps)
       bread_type_id: formData.breadTypeId,
       quantity: formData.quantity,
       unit_price: formData.unitPrice,
-      discount: formData.discount,
+      discount: saleDiscount,
+      ...(appliedPromotion && { promotion_id: appliedPromotion.promotion.id }),
       shift: currentShift,
-      recorded_by: userId
+      recorded_by: userId,
+      payment_method: paymentMethodFor(customerPayment),
+      ...(customerPayment.customerId && {
+        customer_id: customerPayment.customerId,
+        amount_paid: amountPaidNow(customerPayment, saleTotal)
+      })
     };
 
     console.log('Recording sale using React Query mutation:', saleData);
@@ -492,6 +538,12 @@ export function RecordSalesClient({ userId, userName }: RecordSalesClientProps)
                 {/* Discount Input */}
                 <div className="space-y-4">
                   <h3 className="text-xl font-bold text-gray-900">Discount (Optional)</h3>
+                  {appliedPromotion && (
+                    <p className="flex items-center gap-2 text-base font-medium text-green-700">
+                      <Tag className="h-5 w-5" />
+                      {appliedPromotion.promotion.name} applied
+                    </p>
+                  )}
                   <div className="relative">
                     <span className="absolute left-6 top-1/2 transform -translate-y-1/2 text-gray-500 font-bold text-2xl">
                       ₦
@@ -500,9 +552,10 @@ export function RecordSalesClient({ userId, userName }: RecordSalesClientProps)
                       type="number"
                       min="0"
                       step="0.01"
-                      value={formData.discount}
+                      value={saleDiscount}
                       onChange={(e) => handleDiscountChange(parseFloat(e.target.value) || 0)}
-                      className="w-full pl-16 pr-6 py-6 text-2xl border-2 border-gray-300 rounded-2xl focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-200 touch-manipulation"
+                      disabled={!!appliedPromotion}
+                      className="w-full disabled:bg-gray-100 disabled:text-gray-500 pl-16 pr-6 py-6 text-2xl border-2 border-gray-300 rounded-2xl focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-200 touch-manipulation"
                       placeholder="0.00"
                     />
                   </div>
@@ -517,14 +570,14 @@ export function RecordSalesClient({ userId, userName }: RecordSalesClientProps)
                   <div className="text-center">
                     <p className="text-sm text-gray-600 mb-2">Total Amount</p>
                     <p className="text-5xl font-bold text-green-600 mb-4">
-                      {formatCurrencyNGN(formData.totalAmount)}
+                      {formatCurrencyNGN(saleTotal)}
                     </p>
                     <div className="bg-white/70 rounded-xl p-4 inline-block">
                       <p className="text-base text-gray-600">
                         {formData.breadTypeName} × {formData.quantity} units
-                        {formData.discount > 0 && (
+                        {saleDiscount > 0 && (
                           <span className="block text-red-600 font-medium mt-1">
-                            - ₦{formData.discount.toFixed(2)} discount
+                            - ₦{saleDiscount.toFixed(2)} {appliedPromotion ? appliedPromotion.promotion.name : 'discount'}
                           </span>
                         )}
                       </p>
@@ -533,6 +586,15 @@ export function RecordSalesClient({ userId, userName }: RecordSalesClientProps)
                 </CardContent>
               </Card>
             )}
+
+            {/* Customer and Payment */}
+            {selectedBreadType && formData.quantity > 0 && (
+              <CustomerPaymentSection
+                value={customerPayment}
+                onChange={setCustomerPayment}
+                totalAmount={saleTotal}
+              />
+            )}
           </div>
         )}
       </div>
@@ -1,6 +1,7 @@
 'use server';
 
 import { createServer, createServiceRoleClient } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/auth/auth-utils';
 import type { User } from '@/types';
 
 // Enhanced role change with complete data consistency
@@ -9,7 +10,8 @@ export async function updateUserRoleAction(
   targetId: string, 
   newRole: 'owner' | 'manager' | 'sales_rep'
 ) {
-  if (user.role !== 'owner') {
+  // Checked against the session, not the user object the client passed in
+  if (!(await hasPermission('users.manage'))) {
     return { success: false, error: 'Insufficient permissions' };
   }
 
@@ -108,7 +110,7 @@ export async function updateUserRoleAction(
 
 // Complete deactivation with session termination
 export async function deactivateUserAction(user: User, targetId: string) {
-  if (user.role !== 'owner') {
+  if (!(await hasPermission('users.manage'))) {
     return { success: false, error: 'Insufficient permissions' };
   }
 
@@ -230,7 +232,7 @@ export async function deactivateUserAction(user: User, targetId: string) {
 
 // Reactivation function
 export async function reactivateUserAction(user: User, targetId: string) {
-  if (user.role !== 'owner') {
+  if (!(await hasPermission('users.manage'))) {
     return { success: false, error: 'Insufficient permissions' };
   }
 
@@ -292,7 +294,7 @@ export async function reactivateUserAction(user: User, targetId: string) {
 
 // Safe deletion using database function
 export async function deleteUserAction(user: User, targetId: string) {
-  if (user.role !== 'owner') {
+  if (!(await hasPermission('users.manage'))) {
     return { success: false, error: 'Insufficient permissions' };
   }
 
@@ -349,8 +351,8 @@ export async function deleteUserAction(user: User, targetId: string) {
 }
 
 // Enhanced user fetching with proper error handling
-export async function refetchUsersAction(user: User) {
-  if (user.role !== 'owner') {
+export async function refetchUsersAction() {
+  if (!(await hasPermission('users.manage'))) {
     return { success: false, error: 'Insufficient permissions' };
   }
 
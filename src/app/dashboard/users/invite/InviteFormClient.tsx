@@ -6,7 +6,8 @@ import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { QrModal } from '@/components/qr-modal';
 import { BackButton } from '@/components/ui/back-button';
-import { UserRole } from '@/types';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Branch, UserRole } from '@/types';
 
 interface InviteState {
   inviteUrl?: string;
@@ -16,8 +17,13 @@ interface InviteState {
 
 const initialState: InviteState = {};
 
-export default function InviteFormClient() {
+interface InviteFormClientProps {
+  branches: Branch[];
+}
+
+export default function InviteFormClient({ branches }: InviteFormClientProps) {
   const [state, setState] = React.useState<InviteState>(initialState);
+  const [branchId, setBranchId] = React.useState<string>(branches[0]?.id ?? '');
   const [isPending, setIsPending] = React.useState(false);
   const [isModalOpen, setIsModalOpen] = React.useState(false);
   const roleFromState = state?.role || '';
@@ -43,8 +49,13 @@ export default function InviteFormClient() {
       setIsPending(false);
       return;
     }
+    if (branches.length > 0 && !branchId) {
+      setState({ error: 'Please select a branch.' });
+      setIsPending(false);
+      return;
+    }
     try {
-      const result = await generateInviteTokenAction(role as 'manager' | 'sales_rep');
+      const result = await generateInviteTokenAction(role as 'manager' | 'sales_rep', branchId || null);
       setState({ inviteUrl: result.inviteUrl, role: result.role });
     } catch (err: unknown) {
       const error = err as Error;
@@ -92,6 +103,21 @@ export default function InviteFormClient() {
             </div>
           </RadioGroup>
         </div>
+        {branches.length > 1 && (
+          <div>
+            <Label className="mb-2 block text-sm font-medium">Branch</Label>
+            <Select value={branchId} onValueChange={setBranchId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select branch" />
+              </SelectTrigger>
+              <SelectContent side="bottom">
+                {branches.map(branch => (
+                  <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
         <Button type="submit" className="w-full" loading={isPending} disabled={isPending}>
           {isPending ? 'Generating Invite Code...' : 'Generate Invite Code'}
         </Button>
@@ -2,6 +2,7 @@ import { redirect } from 'next/navigation';
 import { getAuthenticatedUser } from '@/lib/auth/auth-utils';
 import { OwnerPageWrapper } from '@/components/layout/OwnerPageWrapper';
 import InviteFormClient from './InviteFormClient';
+import { getBranches } from '@/lib/branches/actions';
 
 export default async function InvitePage() {
   const user = await getAuthenticatedUser();
@@ -22,9 +23,11 @@ export default async function InvitePage() {
     );
   }
 
+  const branches = await getBranches();
+
   return (
     <OwnerPageWrapper displayName={user.name}>
-      <InviteFormClient />
+      <InviteFormClient branches={branches} />
     </OwnerPageWrapper>
   );
 }
\ No newline at end of file
@@ -0,0 +1,188 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowLeft, Undo2, KeyRound, Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { formatCurrencyNGN } from '@/lib/utils/currency';
+import {
+  setApprovalPin,
+  updateSaleVoidSettings,
+  type SaleVoidRecord,
+} from '@/lib/sales/void-actions';
+
+interface VoidsClientProps {
+  displayName: string;
+  isOwner: boolean;
+  voids: SaleVoidRecord[];
+  approvalThreshold: number;
+  hasPin: boolean;
+}
+
+export default function VoidsClient({ displayName, isOwner, voids, approvalThreshold, hasPin }: VoidsClientProps) {
+  const router = useRouter();
+  const [pin, setPin] = useState('');
+  const [pinSet, setPinSet] = useState(hasPin);
+  const [savingPin, setSavingPin] = useState(false);
+  const [threshold, setThreshold] = useState(String(approvalThreshold));
+  const [savingThreshold, setSavingThreshold] = useState(false);
+
+  const totalVoided = voids.reduce((sum, entry) => sum + entry.amount, 0);
+
+  const handleSavePin = async () => {
+    setSavingPin(true);
+    try {
+      const result = await setApprovalPin({ pin });
+      if (result.success) {
+        setPin('');
+        setPinSet(true);
+        toast.success('Approval PIN saved');
+      } else {
+        toast.error(result.error || 'Failed to set approval PIN');
+      }
+    } finally {
+      setSavingPin(false);
+    }
+  };
+
+  const handleSaveThreshold = async () => {
+    setSavingThreshold(true);
+    try {
+      const result = await updateSaleVoidSettings({ approval_threshold: Number(threshold) });
+      if (result.success) {
+        toast.success('Approval threshold updated');
+      } else {
+        toast.error(result.error || 'Failed to update approval threshold');
+      }
+    } finally {
+      setSavingThreshold(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Mobile-First Header with Back Button */}
+      <div className="bg-gradient-to-r from-orange-500 to-amber-500 text-white">
+        <div className="px-3 sm:px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-2 sm:gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl touch-manipulation flex-shrink-0"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="bg-white/20 p-2 sm:p-3 rounded-xl flex-shrink-0">
+              <Undo2 className="h-5 w-5 sm:h-6 sm:w-6" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg sm:text-2xl font-bold truncate">Voids & Refunds</h1>
+              <p className="text-orange-100 text-xs sm:text-sm truncate">
+                Approvals and audit trail • {displayName}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content Area - Full Screen Scrollable */}
+      <div className="flex-1 overflow-y-auto bg-gradient-to-b from-orange-50/30 to-amber-50/30">
+        <div className="px-3 sm:px-4 py-4 space-y-4 max-w-2xl mx-auto w-full">
+          <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+            <div className="flex items-center gap-2">
+              <KeyRound className="h-4 w-4 text-orange-500" />
+              <h2 className="font-semibold text-gray-900">Your approval PIN</h2>
+            </div>
+            <p className="text-xs text-gray-500">
+              Sales reps need a manager&apos;s PIN to void or refund more than{' '}
+              {formatCurrencyNGN(Number(threshold) || 0)}. {pinSet ? 'Your PIN is set.' : 'You have not set a PIN yet.'}
+            </p>
+            <div className="flex gap-2">
+              <Input
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                placeholder={pinSet ? 'New 4-6 digit PIN' : '4-6 digit PIN'}
+                maxLength={6}
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              />
+              <Button onClick={handleSavePin} disabled={savingPin || pin.length < 4} className="flex-shrink-0">
+                {savingPin && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {pinSet ? 'Change' : 'Set PIN'}
+              </Button>
+            </div>
+          </section>
+
+          {isOwner && (
+            <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+              <h2 className="font-semibold text-gray-900">Approval threshold</h2>
+              <p className="text-xs text-gray-500">
+                Voids and refunds above this amount need a manager&apos;s PIN. Set it to 0 to approve every one.
+              </p>
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  step={100}
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                />
+                <Button
+                  onClick={handleSaveThreshold}
+                  disabled={savingThreshold || threshold === '' || Number(threshold) < 0}
+                  className="flex-shrink-0"
+                >
+                  {savingThreshold && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save
+                </Button>
+              </div>
+            </section>
+          )}
+
+          <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-2">
+            <div className="flex items-center justify-between">
+              <h2 className="font-semibold text-gray-900">Recent voids & refunds</h2>
+              <span className="text-sm font-semibold text-red-600">-{formatCurrencyNGN(totalVoided)}</span>
+            </div>
+            {voids.length === 0 ? (
+              <p className="text-sm text-gray-500 py-2">No voids or refunds yet</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {voids.map(entry => (
+                  <li key={entry.id} className="py-2 text-sm">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="text-gray-900 font-medium">
+                          {entry.kind === 'void' ? 'Voided' : 'Refunded'} {entry.quantity}× {entry.bread_type}
+                        </div>
+                        <div className="text-xs text-gray-500">{entry.reason}</div>
+                        <div className="text-xs text-gray-400">
+                          Sold by {entry.sold_by} • recorded by {entry.recorded_by}
+                          {entry.approved_by ? ` • approved by ${entry.approved_by}` : ''}
+                          {entry.restocked ? '' : ' • not restocked'}
+                        </div>
+                      </div>
+                      <div className="text-right flex-shrink-0">
+                        <div className="font-semibold text-red-600">-{formatCurrencyNGN(entry.amount)}</div>
+                        <div className="text-xs text-gray-400">
+                          {entry.created_at
+                            ? new Date(entry.created_at).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })
+                            : ''}
+                          {' • '}{entry.shift}
+                        </div>
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { redirect } from 'next/navigation';
+import { getAuthenticatedUser, hasPermission } from '@/lib/auth/auth-utils';
+import { getSaleVoidOptions, getSaleVoids, hasApprovalPin } from '@/lib/sales/void-actions';
+import VoidsClient from './VoidsClient';
+
+// Force dynamic rendering for authentication
+export const dynamic = 'force-dynamic';
+
+export default async function VoidsPage() {
+  const user = await getAuthenticatedUser();
+
+  if (!user) {
+    return redirect('/login');
+  }
+
+  if (!(await hasPermission('sales.void'))) {
+    return redirect('/dashboard');
+  }
+
+  const [voids, options, pinSet] = await Promise.all([
+    getSaleVoids(),
+    getSaleVoidOptions(),
+    hasApprovalPin(),
+  ]);
+
+  return (
+    <VoidsClient
+      displayName={user.name}
+      isOwner={user.role === 'owner'}
+      voids={voids}
+      approvalThreshold={options.approvalThreshold}
+      hasPin={pinSet}
+    />
+  );
+}
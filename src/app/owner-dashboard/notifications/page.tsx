@@ -39,15 +39,15 @@ export default async function AllNotificationsPage() {
     }
   }
 
-  // Ensure only owners can access this route
+  // Managers and sales reps have their inbox inside the staff dashboard
   if (role !== 'owner') {
-    return redirect('/dashboard');
+    return redirect('/dashboard/notifications');
   }
 
   return (
     <AllNotificationsClient 
-      user={user}
       displayName={displayName}
+      role={role}
     />
   );
 }
\ No newline at end of file
@@ -17,6 +17,7 @@ import { formatCurrencyNGN } from '@/lib/utils/currency';
 import { ErrorBoundary } from '@/components/ui/error-boundary';
 import { ProductionTableSkeleton } from '@/components/ui/loading-skeleton';
 import { Pagination } from '@/components/ui/pagination';
+import { CarryOverSummary } from '@/components/dashboards/owner/carry-over-summary';
 import { useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { useRouter } from 'next/navigation';
@@ -87,6 +88,7 @@ export default function NightPerformanceClient({ user, displayName }: NightPerfo
   const reason = productionData?.reason;
   const nextClearTime = productionData?.nextClearTime;
   const isCleared = productionData?.source === 'cleared';
+  const carryOver = productionData?.carryOver ?? null;
   const isRealTimeActive = true;
 
   // Use production items directly since we're already filtering by night shift in the API
@@ -206,6 +208,9 @@ export default function NightPerformanceClient({ user, displayName }: NightPerfo
             )}
           </div>
 
+          {/* Leftovers this shift opened with */}
+          <CarryOverSummary carryOver={carryOver} className="border-purple-200/50" />
+
           {/* Controls - Mobile First Design */}
           <div className="bg-white/80 backdrop-blur-sm rounded-xl p-3 sm:p-4 border border-purple-200/50 shadow-sm">
             <div className="space-y-3">
@@ -1,7 +1,7 @@
 'use client';
 
 import React from 'react';
-import { ArrowLeft, FileText, UserCheck, TrendingUp } from 'lucide-react';
+import { ArrowLeft, FileText, UserCheck, TrendingUp, PieChart, Mail } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { useReportCounters } from '@/hooks/use-report-counters';
@@ -115,6 +115,54 @@ export default function OwnerReportsClient({ user, displayName }: OwnerReportsCl
               )}
             </button>
 
+            {/* Profit & Margins Card */}
+            <button
+              onClick={() => router.push('/owner-dashboard/reports/margins')}
+              className="w-full bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 text-white rounded-xl sm:rounded-2xl p-4 sm:p-6 flex items-center justify-between transition-all duration-300 ease-in-out transform hover:scale-[1.02] shadow-lg hover:shadow-xl touch-manipulation min-h-[64px] sm:min-h-[80px]"
+            >
+              <div className="flex items-center gap-3 sm:gap-4">
+                <div className="w-10 h-10 sm:w-12 sm:h-12 bg-white bg-opacity-20 rounded-full flex items-center justify-center flex-shrink-0">
+                  <PieChart size={20} />
+                </div>
+                <div className="text-left">
+                  <h3 className="font-semibold text-base sm:text-lg mb-1">Profit & Margins</h3>
+                  <p className="text-emerald-100 text-xs sm:text-sm opacity-90">Cost of goods, margin & waste</p>
+                </div>
+              </div>
+            </button>
+
+            {/* Forecast Accuracy Card */}
+            <button
+              onClick={() => router.push('/dashboard/production/forecast')}
+              className="w-full bg-gradient-to-r from-orange-500 to-amber-500 hover:from-orange-600 hover:to-amber-600 text-white rounded-xl sm:rounded-2xl p-4 sm:p-6 flex items-center justify-between transition-all duration-300 ease-in-out transform hover:scale-[1.02] shadow-lg hover:shadow-xl touch-manipulation min-h-[64px] sm:min-h-[80px]"
+            >
+              <div className="flex items-center gap-3 sm:gap-4">
+                <div className="w-10 h-10 sm:w-12 sm:h-12 bg-white bg-opacity-20 rounded-full flex items-center justify-center flex-shrink-0">
+                  <TrendingUp size={20} />
+                </div>
+                <div className="text-left">
+                  <h3 className="font-semibold text-base sm:text-lg mb-1">Forecast Accuracy</h3>
+                  <p className="text-orange-100 text-xs sm:text-sm opacity-90">Suggested vs baked vs sold</p>
+                </div>
+              </div>
+            </button>
+
+            {/* Scheduled Reports Card */}
+            <button
+              onClick={() => router.push('/owner-dashboard/reports/scheduled')}
+              className="w-full bg-gradient-to-r from-sky-500 to-indigo-600 hover:from-sky-600 hover:to-indigo-700 text-white rounded-xl sm:rounded-2xl p-4 sm:p-6 flex items-center justify-between transition-all duration-300 ease-in-out transform hover:scale-[1.02] shadow-lg hover:shadow-xl touch-manipulation min-h-[64px] sm:min-h-[80px]"
+            >
+              <div className="flex items-center gap-3 sm:gap-4">
+                <div className="w-10 h-10 sm:w-12 sm:h-12 bg-white bg-opacity-20 rounded-full flex items-center justify-center flex-shrink-0">
+                  <Mail size={20} />
+                </div>
+                <div className="text-left">
+                  <h3 className="font-semibold text-base sm:text-lg mb-1">Scheduled Reports</h3>
+                  <p className="text-sky-100 text-xs sm:text-sm opacity-90">Daily, weekly & monthly emails</p>
+                </div>
+              </div>
+            </button>
+
           </div>
 
         </div>
@@ -17,6 +17,7 @@ import {
   RefreshCw
 } from 'lucide-react';
 import { getManagerReports, type BatchData, type GroupedReport } from '@/lib/reports/manager-reports-server-actions';
+import { ProductionVariancePanel } from '@/components/production/production-variance-panel';
 import { cn } from '@/lib/utils';
 import { Logger } from '@/lib/utils/logger';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -328,6 +329,9 @@ export default function OwnerManagerReportsClient({ user, displayName }: OwnerMa
             </div>
           </div>
 
+          {/* Planned vs Actual */}
+          <ProductionVariancePanel />
+
           {/* Reports List */}
           {loading ? (
             <LoadingSkeleton />
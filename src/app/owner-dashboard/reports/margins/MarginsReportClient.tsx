@@ -0,0 +1,289 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, PieChart, Download, RefreshCw, AlertTriangle, FileText, Sheet, Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useShiftSchedule } from '@/hooks/use-shift-schedule';
+import { fetchReportData } from '@/lib/reports/actions';
+import { exportToCSV, exportToPDF, exportToXLSX } from '@/lib/reports/export';
+import type { ReportSummary } from '@/lib/reports/queries';
+import { formatCurrencyNGN } from '@/lib/utils/currency';
+import { Logger } from '@/lib/utils/logger';
+import { getAllShiftDefinitions, getShiftLabel, isScheduledShift } from '@/lib/shift-schedule/schedule';
+
+interface MarginsReportClientProps {
+  user: { id: string; email?: string };
+  displayName: string;
+}
+
+const PERIODS = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+];
+
+const marginColor = (percent: number) =>
+  percent >= 30 ? 'text-green-600' : percent >= 10 ? 'text-amber-600' : 'text-red-600';
+
+export default function MarginsReportClient({ displayName }: MarginsReportClientProps) {
+  const router = useRouter();
+  const [period, setPeriod] = useState('30');
+  const [loading, setLoading] = useState(true);
+  const [report, setReport] = useState<ReportSummary | null>(null);
+  const [exporting, setExporting] = useState<'pdf' | 'xlsx' | null>(null);
+  const { schedule } = useShiftSchedule();
+
+  const startDate = new Date(Date.now() - (Number(period) - 1) * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const endDate = new Date().toISOString().split('T')[0];
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await fetchReportData({ startDate, endDate });
+      if (result.success && result.data) {
+        setReport(result.data);
+      } else {
+        toast.error(result.error || 'Failed to load margins');
+      }
+    } catch (error) {
+      Logger.error('Error fetching margin report', error);
+    }
+    setLoading(false);
+  }, [startDate, endDate]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  // Scheduled shifts in running order, then any the schedule no longer has
+  const wasteShifts = report
+    ? [
+        ...getAllShiftDefinitions(schedule).map(shift => shift.key).filter(key => key in report.wasteByShift),
+        ...Object.keys(report.wasteByShift).filter(key => !isScheduledShift(schedule, key)),
+      ]
+    : [];
+
+  const handleExport = () => {
+    if (!report) return;
+    try {
+      exportToCSV(report, { filename: `homebake-margins-${startDate}-to-${endDate}.csv` });
+    } catch {
+      toast.error('Failed to export CSV');
+    }
+  };
+
+  const handleServerExport = async (format: 'pdf' | 'xlsx') => {
+    setExporting(format);
+    try {
+      const exportFile = format === 'pdf' ? exportToPDF : exportToXLSX;
+      await exportFile(
+        { kind: 'summary', filters: { startDate, endDate } },
+        { title: 'Gross Margin Report', subtitle: `${startDate} to ${endDate}` }
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to export ${format.toUpperCase()}`);
+    }
+    setExporting(null);
+  };
+
+  const unpriced = report?.breadTypeTotals.filter(bread => bread.unitCost === null) ?? [];
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Mobile-First Header with Back Button */}
+      <div className="bg-gradient-to-r from-emerald-500 to-teal-500 text-white">
+        <div className="px-3 sm:px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-2 sm:gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl touch-manipulation flex-shrink-0"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="bg-white/20 p-2 sm:p-3 rounded-xl flex-shrink-0">
+              <PieChart className="h-5 w-5 sm:h-6 sm:w-6" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg sm:text-2xl font-bold truncate">Profit & Margins</h1>
+              <p className="text-emerald-100 text-xs sm:text-sm truncate">
+                Cost of goods per bread type • {displayName}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={fetchReport}
+              disabled={loading}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl flex-shrink-0"
+            >
+              <RefreshCw className={`h-5 w-5 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Content Area - Full Screen Scrollable */}
+      <div className="flex-1 overflow-y-auto bg-gradient-to-b from-emerald-50/30 to-teal-50/30">
+        <div className="px-3 sm:px-4 py-4 space-y-4 max-w-3xl mx-auto w-full">
+
+          <div className="flex items-center gap-2">
+            <Select value={period} onValueChange={setPeriod}>
+              <SelectTrigger className="flex-1 bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent side="bottom">
+                {PERIODS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => handleServerExport('pdf')} disabled={!report || loading || !!exporting} className="bg-white">
+              {exporting === 'pdf' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+              PDF
+            </Button>
+            <Button variant="outline" onClick={() => handleServerExport('xlsx')} disabled={!report || loading || !!exporting} className="bg-white">
+              {exporting === 'xlsx' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sheet className="h-4 w-4 mr-2" />}
+              Excel
+            </Button>
+            <Button variant="outline" onClick={handleExport} disabled={!report || loading} className="bg-white">
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+          </div>
+
+          {loading && !report ? (
+            <div className="animate-pulse space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-16 bg-gray-100 rounded-xl" />
+              ))}
+            </div>
+          ) : report && (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-2 gap-3">
+                <div className="bg-white rounded-xl p-4 text-center border border-gray-100 shadow-sm">
+                  <div className="text-lg font-bold text-gray-900">{formatCurrencyNGN(report.totalRevenue)}</div>
+                  <div className="text-xs text-gray-500 mt-1">Revenue</div>
+                </div>
+                <div className="bg-white rounded-xl p-4 text-center border border-gray-100 shadow-sm">
+                  <div className="text-lg font-bold text-gray-900">{formatCurrencyNGN(report.totalCogs)}</div>
+                  <div className="text-xs text-gray-500 mt-1">Cost of Goods Sold</div>
+                </div>
+                <div className="bg-white rounded-xl p-4 text-center border border-gray-100 shadow-sm">
+                  <div className={`text-lg font-bold ${marginColor(report.marginPercent)}`}>
+                    {formatCurrencyNGN(report.totalGrossMargin)}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">Gross Margin ({report.marginPercent.toFixed(1)}%)</div>
+                </div>
+                <div className="bg-white rounded-xl p-4 text-center border border-gray-100 shadow-sm">
+                  <div className="text-lg font-bold text-red-600">{formatCurrencyNGN(report.totalWasteCost)}</div>
+                  <div className="text-xs text-gray-500 mt-1">Waste Cost ({report.wastePercent.toFixed(1)}%)</div>
+                </div>
+              </div>
+
+              {report.totalVoided > 0 && (
+                <Link
+                  href="/dashboard/voids"
+                  className="flex items-center justify-between rounded-xl border border-red-100 bg-red-50 p-3 text-sm text-red-700"
+                >
+                  <span>Voids & refunds, already taken off revenue</span>
+                  <span className="font-semibold">-{formatCurrencyNGN(report.totalVoided)}</span>
+                </Link>
+              )}
+
+              {unpriced.length > 0 && (
+                <Link
+                  href="/dashboard/ingredients/recipes"
+                  className="flex items-start gap-2 rounded-xl border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800"
+                >
+                  <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                  <span>
+                    No cost for {unpriced.map(bread => bread.breadTypeName).join(', ')}. Add a recipe or a manual cost
+                    per loaf so these count towards COGS.
+                  </span>
+                </Link>
+              )}
+
+              {/* Per bread type */}
+              <section className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-xs text-gray-500">
+                    <tr>
+                      <th className="text-left font-medium px-3 py-2">Bread type</th>
+                      <th className="text-right font-medium px-3 py-2">Sold</th>
+                      <th className="text-right font-medium px-3 py-2">Revenue</th>
+                      <th className="text-right font-medium px-3 py-2">COGS</th>
+                      <th className="text-right font-medium px-3 py-2">Margin</th>
+                      <th className="text-right font-medium px-3 py-2">Waste</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {report.breadTypeTotals.length === 0 ? (
+                      <tr>
+                        <td colSpan={6} className="text-center text-gray-400 py-4">No sales in this period</td>
+                      </tr>
+                    ) : report.breadTypeTotals.map(bread => (
+                      <tr key={bread.breadTypeId}>
+                        <td className="px-3 py-2">
+                          <div className="text-gray-900">{bread.breadTypeName}</div>
+                          <div className="text-xs text-gray-500">
+                            {bread.unitCost !== null ? `${formatCurrencyNGN(bread.unitCost)}/loaf` : 'No cost set'}
+                          </div>
+                        </td>
+                        <td className="text-right px-3 py-2">{bread.sold}</td>
+                        <td className="text-right px-3 py-2">{formatCurrencyNGN(bread.revenue)}</td>
+                        <td className="text-right px-3 py-2">{formatCurrencyNGN(bread.cogs)}</td>
+                        <td className="text-right px-3 py-2">
+                          <div className={marginColor(bread.marginPercent)}>{formatCurrencyNGN(bread.grossMargin)}</div>
+                          <div className="text-xs text-gray-500">{bread.marginPercent.toFixed(1)}%</div>
+                        </td>
+                        <td className="text-right px-3 py-2">
+                          <div>{bread.wasted} ({bread.wastePercent.toFixed(1)}%)</div>
+                          <div className="text-xs text-red-500">{formatCurrencyNGN(bread.wasteCost)}</div>
+                          <div className="text-xs text-gray-500">{formatCurrencyNGN(bread.wasteValue)} at price</div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+
+              {/* Waste by shift */}
+              <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-2">
+                <h2 className="font-semibold text-gray-900">Waste by shift</h2>
+                {wasteShifts.length === 0 && (
+                  <p className="text-sm text-gray-500">No shifts in this period</p>
+                )}
+                <div className="grid grid-cols-2 gap-3">
+                  {wasteShifts.map(shift => {
+                    const waste = report.wasteByShift[shift];
+                    return (
+                      <div key={shift} className="rounded-lg bg-gray-50 p-3 text-sm">
+                        <div className="flex items-baseline justify-between gap-2">
+                          <span className="font-medium text-gray-900">{getShiftLabel(schedule, shift)}</span>
+                          <span className="font-semibold text-red-600">{waste.wastePercent.toFixed(1)}%</span>
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          {waste.wasted} of {waste.produced} loaves
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {formatCurrencyNGN(waste.wasteCost)} at cost • {formatCurrencyNGN(waste.wasteValue)} at price
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -22,6 +22,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Modal } from '@/components/ui/modal';
 import { formatCurrencyNGN } from '@/lib/utils/currency';
 import { Button } from '@/components/ui/button';
+import { CashUpSummary, CashVarianceBadge } from '@/components/reports/cash-up-summary';
 import { motion } from 'framer-motion';
 import { useRouter } from 'next/navigation';
 
@@ -145,7 +146,24 @@ export default function OwnerSalesReportsClient({ user, displayName }: OwnerSale
         bread.quantity || 0,
         bread.unitPrice || 0,
         bread.totalAmount || 0
-      ])
+      ]),
+      [''],
+      ['Voids & Refunds', 'Total Voided', report.total_voided || 0],
+      ['Bread Type', 'Type', 'Quantity', 'Amount', 'Reason'],
+      ...(report.voids_data || []).map(item => [
+        item.breadType || 'N/A',
+        item.kind || 'void',
+        item.quantity || 0,
+        item.amount || 0,
+        item.reason || ''
+      ]),
+      [''],
+      ['Cash-up'],
+      ['Payment Method', 'Expected', 'Counted', 'Variance'],
+      ['Cash', report.payment_totals?.cash ?? 0, report.counted_cash ?? '', report.cash_variance ?? ''],
+      ['Bank transfer', report.payment_totals?.transfer ?? 0, report.counted_transfer ?? '', report.transfer_variance ?? ''],
+      ['POS card', report.payment_totals?.pos ?? 0, '', ''],
+      ['Credit', report.payment_totals?.credit ?? 0, '', '']
     ];
 
     const csvContent = csvRows.map(row => row.map(String).map(v => '"' + v.replace(/"/g, '""') + '"').join(',')).join('\n');
@@ -166,13 +184,15 @@ export default function OwnerSalesReportsClient({ user, displayName }: OwnerSale
 
     const csvRows = [
       ['Sales Reports Export'],
-      ['Date', 'Shift', 'Total Revenue', 'Items Sold', 'Remaining', 'Top Items'],
+      ['Date', 'Shift', 'Total Revenue', 'Items Sold', 'Remaining', 'Cash Variance', 'Transfer Variance', 'Top Items'],
       ...filtered.map(r => [
         r.report_date,
         r.shift,
         r.total_revenue,
         r.total_items_sold,
         r.total_remaining,
+        r.cash_variance ?? '',
+        r.transfer_variance ?? '',
         getTopItems(r.sales_data).join('; ')
       ])
     ];
@@ -392,6 +412,16 @@ export default function OwnerSalesReportsClient({ user, displayName }: OwnerSale
                     </div>
                   </div>
 
+                  {(report.total_voided || 0) > 0 && (
+                    <p className="mb-2 text-xs font-medium text-red-600">
+                      Voids & refunds: -{formatCurrencyNGN(report.total_voided || 0)}
+                    </p>
+                  )}
+
+                  <div className="mb-2 empty:hidden">
+                    <CashVarianceBadge cashUp={report} />
+                  </div>
+
                   {/* Top Items */}
                   <div className="mb-2">
                     <p className="text-xs text-gray-600 mb-1">Top Items:</p>
@@ -493,6 +523,30 @@ export default function OwnerSalesReportsClient({ user, displayName }: OwnerSale
                 </div>
               </div>
 
+              {/* Voids & Refunds - already taken off the revenue above */}
+              {(viewModalData.voids_data || []).length > 0 && (
+                <div>
+                  <h4 className="font-semibold text-gray-900 mb-2 text-sm">
+                    Voids & Refunds • -{formatCurrencyNGN(viewModalData.total_voided || 0)}
+                  </h4>
+                  <div className="space-y-2">
+                    {(viewModalData.voids_data || []).map((item, index) => (
+                      <div key={index} className="flex justify-between items-center p-2 bg-red-50 rounded-lg">
+                        <div className="min-w-0">
+                          <p className="font-medium text-gray-900 text-sm">{item.breadType || 'Unknown'}</p>
+                          <p className="text-xs text-gray-500 truncate">
+                            {item.kind === 'refund' ? 'Refunded' : 'Voided'} {item.quantity} • {item.reason}
+                          </p>
+                        </div>
+                        <p className="font-semibold text-red-600 text-sm">-{formatCurrencyNGN(item.amount || 0)}</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <CashUpSummary cashUp={viewModalData} />
+
               {/* Feedback */}
               {viewModalData.feedback && (
                 <div>
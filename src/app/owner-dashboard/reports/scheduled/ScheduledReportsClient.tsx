@@ -0,0 +1,379 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowLeft, Mail, Plus, Pencil, Trash2, Send, Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Modal } from '@/components/ui/modal';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  deleteReportSchedule,
+  getReportDeliveries,
+  getReportSchedules,
+  saveReportSchedule,
+  sendReportScheduleNow,
+  setReportScheduleActive,
+} from '@/lib/scheduled-reports/actions';
+import {
+  REPORT_ATTACHMENT_FORMATS,
+  REPORT_SCHEDULE_KINDS,
+  type ReportAttachmentFormat,
+  type ReportDelivery,
+  type ReportSchedule,
+  type ReportScheduleKind,
+} from '@/lib/scheduled-reports/schedule';
+
+interface ScheduledReportsClientProps {
+  displayName: string;
+  initialSchedules: ReportSchedule[];
+  initialDeliveries: ReportDelivery[];
+}
+
+interface ScheduleForm {
+  id?: string;
+  kind: ReportScheduleKind;
+  recipient_email: string;
+  recipient_name: string;
+  attachment_format: ReportAttachmentFormat;
+  send_hour: string;
+  is_active: boolean;
+}
+
+const EMPTY_FORM: ScheduleForm = {
+  kind: 'daily_shift_summary',
+  recipient_email: '',
+  recipient_name: '',
+  attachment_format: 'pdf',
+  send_hour: '7',
+  is_active: true,
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const hourLabel = (hour: number) => `${hour.toString().padStart(2, '0')}:00`;
+
+const sentAt = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-NG', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+function toForm(schedule: ReportSchedule): ScheduleForm {
+  return {
+    id: schedule.id,
+    kind: schedule.kind,
+    recipient_email: schedule.recipient_email,
+    recipient_name: schedule.recipient_name ?? '',
+    attachment_format: schedule.attachment_format,
+    send_hour: schedule.send_hour.toString(),
+    is_active: schedule.is_active,
+  };
+}
+
+export default function ScheduledReportsClient({ displayName, initialSchedules, initialDeliveries }: ScheduledReportsClientProps) {
+  const router = useRouter();
+  const [schedules, setSchedules] = useState(initialSchedules);
+  const [deliveries, setDeliveries] = useState(initialDeliveries);
+  const [form, setForm] = useState<ScheduleForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const updateForm = (changes: Partial<ScheduleForm>) => setForm(prev => (prev ? { ...prev, ...changes } : prev));
+
+  const refresh = async () => {
+    const [nextSchedules, nextDeliveries] = await Promise.all([getReportSchedules(), getReportDeliveries()]);
+    setSchedules(nextSchedules);
+    setDeliveries(nextDeliveries);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setSaving(true);
+    try {
+      const result = await saveReportSchedule({
+        id: form.id,
+        kind: form.kind,
+        recipient_email: form.recipient_email,
+        recipient_name: form.recipient_name || null,
+        attachment_format: form.attachment_format,
+        send_hour: Number(form.send_hour),
+        is_active: form.is_active,
+      });
+      if (result.success) {
+        toast.success(form.id ? 'Schedule updated' : 'Schedule created');
+        setForm(null);
+        await refresh();
+      } else {
+        toast.error(result.error || 'Failed to save the schedule');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (schedule: ReportSchedule, isActive: boolean) => {
+    setBusy(schedule.id);
+    try {
+      const result = await setReportScheduleActive(schedule.id, isActive);
+      if (result.success) {
+        await refresh();
+      } else {
+        toast.error(result.error || 'Failed to update the schedule');
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async (schedule: ReportSchedule) => {
+    if (!confirm(`Stop sending the ${REPORT_SCHEDULE_KINDS[schedule.kind].label.toLowerCase()} to ${schedule.recipient_email}?`)) return;
+    setBusy(schedule.id);
+    try {
+      const result = await deleteReportSchedule(schedule.id);
+      if (result.success) {
+        toast.success('Schedule deleted');
+        await refresh();
+      } else {
+        toast.error(result.error || 'Failed to delete the schedule');
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSendNow = async (schedule: ReportSchedule) => {
+    setBusy(schedule.id);
+    try {
+      const result = await sendReportScheduleNow(schedule.id);
+      if (result.success) {
+        toast.success(`Sent to ${schedule.recipient_email}`);
+      } else {
+        toast.error(result.error || 'Failed to send the report');
+      }
+      await refresh();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Mobile-First Header with Back Button */}
+      <div className="bg-gradient-to-r from-orange-500 to-amber-500 text-white">
+        <div className="px-3 sm:px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-2 sm:gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl touch-manipulation flex-shrink-0"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="bg-white/20 p-2 sm:p-3 rounded-xl flex-shrink-0">
+              <Mail className="h-5 w-5 sm:h-6 sm:w-6" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg sm:text-2xl font-bold truncate">Scheduled Reports</h1>
+              <p className="text-orange-100 text-xs sm:text-sm truncate">
+                Reports mailed on a schedule • {displayName}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content Area - Full Screen Scrollable */}
+      <div className="flex-1 overflow-y-auto bg-gradient-to-b from-orange-50/30 to-amber-50/30">
+        <div className="px-3 sm:px-4 py-4 space-y-4 max-w-2xl mx-auto w-full">
+          <Button type="button" className="w-full" onClick={() => setForm(EMPTY_FORM)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New schedule
+          </Button>
+
+          <p className="text-xs text-gray-500">
+            Each report covers the last full day, week (Monday to Sunday) or month and goes out from the hour you
+            pick. A report that fails to send is tried again the next hour.
+          </p>
+
+          {schedules.length === 0 ? (
+            <div className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm text-sm text-gray-500 text-center">
+              No scheduled reports yet
+            </div>
+          ) : (
+            <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm">
+              <ul className="divide-y divide-gray-100">
+                {schedules.map(schedule => (
+                  <li key={schedule.id} className="flex items-center gap-2 py-3 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <div className={`font-medium ${schedule.is_active ? 'text-gray-900' : 'text-gray-400'}`}>
+                        {REPORT_SCHEDULE_KINDS[schedule.kind].label}
+                      </div>
+                      <div className="text-xs text-gray-600 truncate">
+                        {schedule.recipient_name ? `${schedule.recipient_name} <${schedule.recipient_email}>` : schedule.recipient_email}
+                      </div>
+                      <div className="text-xs text-gray-400 truncate">
+                        From {hourLabel(schedule.send_hour)}
+                        {` • ${REPORT_ATTACHMENT_FORMATS[schedule.attachment_format]}`}
+                        {schedule.last_sent_at && ` • Last sent ${sentAt(schedule.last_sent_at)}`}
+                      </div>
+                    </div>
+                    {busy === schedule.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                    ) : (
+                      <>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleSendNow(schedule)}
+                          aria-label={`Send to ${schedule.recipient_email} now`}
+                        >
+                          <Send className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setForm(toForm(schedule))}
+                          aria-label={`Edit schedule for ${schedule.recipient_email}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(schedule)}
+                          aria-label={`Delete schedule for ${schedule.recipient_email}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                        <Checkbox
+                          checked={schedule.is_active}
+                          onChange={(e) => handleToggle(schedule, e.target.checked)}
+                          aria-label={`Schedule for ${schedule.recipient_email} switched on`}
+                        />
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm">
+            <h2 className="font-semibold text-gray-900 mb-2">Delivery log</h2>
+            {deliveries.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing sent yet</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {deliveries.map(delivery => (
+                  <li key={delivery.id} className="py-2 text-sm">
+                    <div className="flex items-center gap-2">
+                      <span
+                        className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+                          delivery.status === 'sent' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                        }`}
+                      >
+                        {delivery.status === 'sent' ? 'Sent' : 'Failed'}
+                      </span>
+                      <span className="flex-1 min-w-0 truncate text-gray-900">
+                        {REPORT_SCHEDULE_KINDS[delivery.kind]?.label ?? delivery.kind} • {delivery.period_key}
+                      </span>
+                      <span className="text-xs text-gray-400 flex-shrink-0">{sentAt(delivery.created_at)}</span>
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {delivery.recipient_email} • {delivery.transport}
+                      {delivery.manual && ' • sent manually'}
+                    </div>
+                    {delivery.error && <div className="text-xs text-red-600">{delivery.error}</div>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+
+      <Modal
+        isOpen={!!form}
+        onClose={() => setForm(null)}
+        title={form?.id ? 'Edit schedule' : 'New schedule'}
+        footer={
+          <Button type="button" className="w-full" onClick={handleSave} disabled={saving || !form?.recipient_email.trim()}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        }
+      >
+        {form && (
+          <div className="space-y-3 text-sm">
+            <Select value={form.kind} onValueChange={(value) => updateForm({ kind: value as ReportScheduleKind })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent side="bottom">
+                {(Object.keys(REPORT_SCHEDULE_KINDS) as ReportScheduleKind[]).map(kind => (
+                  <SelectItem key={kind} value={kind}>{REPORT_SCHEDULE_KINDS[kind].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">{REPORT_SCHEDULE_KINDS[form.kind].description}</p>
+
+            <Input
+              type="email"
+              placeholder="Recipient email"
+              value={form.recipient_email}
+              onChange={(e) => updateForm({ recipient_email: e.target.value })}
+            />
+            <Input
+              placeholder="Recipient name (optional)"
+              maxLength={80}
+              value={form.recipient_name}
+              onChange={(e) => updateForm({ recipient_name: e.target.value })}
+            />
+
+            <div className="grid grid-cols-2 gap-2">
+              <label className="space-y-1">
+                <span className="text-xs text-gray-500">Send from</span>
+                <Select value={form.send_hour} onValueChange={(value) => updateForm({ send_hour: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent side="bottom">
+                    {HOURS.map(hour => (
+                      <SelectItem key={hour} value={hour.toString()}>{hourLabel(hour)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-gray-500">Attachment</span>
+                <Select
+                  value={form.attachment_format}
+                  onValueChange={(value) => updateForm({ attachment_format: value as ReportAttachmentFormat })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent side="bottom">
+                    {(Object.keys(REPORT_ATTACHMENT_FORMATS) as ReportAttachmentFormat[]).map(format => (
+                      <SelectItem key={format} value={format}>{REPORT_ATTACHMENT_FORMATS[format]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </label>
+            </div>
+
+            <Checkbox
+              label="Switched on"
+              checked={form.is_active}
+              onChange={(e) => updateForm({ is_active: e.target.checked })}
+            />
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
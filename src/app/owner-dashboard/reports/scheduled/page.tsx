@@ -0,0 +1,32 @@
+import { redirect } from 'next/navigation';
+import { getAuthenticatedUser, hasPermission } from '@/lib/auth/auth-utils';
+import { getReportDeliveries, getReportSchedules } from '@/lib/scheduled-reports/actions';
+import ScheduledReportsClient from './ScheduledReportsClient';
+
+// Force dynamic rendering for authentication
+export const dynamic = 'force-dynamic';
+
+export default async function ScheduledReportsPage() {
+  const user = await getAuthenticatedUser();
+
+  if (!user) {
+    return redirect('/login');
+  }
+
+  if (!(await hasPermission('reports.schedule'))) {
+    return redirect('/dashboard');
+  }
+
+  const [schedules, deliveries] = await Promise.all([
+    getReportSchedules(),
+    getReportDeliveries(),
+  ]);
+
+  return (
+    <ScheduledReportsClient
+      displayName={user.name}
+      initialSchedules={schedules}
+      initialDeliveries={deliveries}
+    />
+  );
+}
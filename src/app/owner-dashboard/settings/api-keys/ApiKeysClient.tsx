@@ -0,0 +1,327 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowLeft, KeyRound, Plus, Ban, Loader2, Copy, FileJson } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Modal } from '@/components/ui/modal';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { createApiKey, getApiKeys, revokeApiKey } from '@/lib/api/actions';
+import { API_KEY_SCOPE_LABELS, apiKeyState, type ApiKey, type ApiKeyState } from '@/lib/api/keys';
+import { API_KEY_SCOPES, type ApiKeyScope } from '@/lib/validations/api';
+import type { Branch } from '@/types';
+
+interface ApiKeysClientProps {
+  displayName: string;
+  initialKeys: ApiKey[];
+  branches: Branch[];
+}
+
+interface KeyForm {
+  name: string;
+  scopes: ApiKeyScope[];
+  branch_id: string;
+  rate_limit_per_minute: string;
+  expires_on: string;
+}
+
+const ALL_BRANCHES = 'all';
+
+const EMPTY_FORM: KeyForm = {
+  name: '',
+  scopes: ['bread_types.view'],
+  branch_id: ALL_BRANCHES,
+  rate_limit_per_minute: '60',
+  expires_on: '',
+};
+
+const STATE_BADGES: Record<ApiKeyState, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-green-100 text-green-700' },
+  expired: { label: 'Expired', className: 'bg-gray-100 text-gray-600' },
+  revoked: { label: 'Revoked', className: 'bg-red-100 text-red-700' },
+};
+
+const shortDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-NG', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export default function ApiKeysClient({ displayName, initialKeys, branches }: ApiKeysClientProps) {
+  const router = useRouter();
+  const [keys, setKeys] = useState(initialKeys);
+  const [form, setForm] = useState<KeyForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  const branchNames = new Map(branches.map(branch => [branch.id, branch.name]));
+
+  const updateForm = (changes: Partial<KeyForm>) => setForm(prev => (prev ? { ...prev, ...changes } : prev));
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) =>
+    setForm(prev => prev && {
+      ...prev,
+      scopes: checked ? [...prev.scopes, scope] : prev.scopes.filter(existing => existing !== scope),
+    });
+
+  const refresh = async () => setKeys(await getApiKeys());
+
+  const handleCreate = async () => {
+    if (!form) return;
+    setSaving(true);
+    try {
+      const result = await createApiKey({
+        name: form.name,
+        scopes: form.scopes,
+        branch_id: form.branch_id === ALL_BRANCHES ? null : form.branch_id,
+        rate_limit_per_minute: Number(form.rate_limit_per_minute),
+        // The key works until the end of the chosen day
+        expires_at: form.expires_on ? new Date(`${form.expires_on}T23:59:59`).toISOString() : null,
+      });
+      if (result.success && result.key) {
+        setForm(null);
+        setCreatedKey(result.key);
+        await refresh();
+      } else {
+        toast.error(result.error || 'Failed to create the API key');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    if (!confirm(`Revoke ${key.name}? Anything using it will stop working straight away.`)) return;
+    setBusy(key.id);
+    try {
+      const result = await revokeApiKey(key.id);
+      if (result.success) {
+        toast.success('API key revoked');
+        await refresh();
+      } else {
+        toast.error(result.error || 'Failed to revoke the API key');
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCopy = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast.success('API key copied');
+    } catch {
+      toast.error('Could not copy the API key');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Mobile-First Header with Back Button */}
+      <div className="bg-gradient-to-r from-orange-500 to-amber-500 text-white">
+        <div className="px-3 sm:px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-2 sm:gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl touch-manipulation flex-shrink-0"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="bg-white/20 p-2 sm:p-3 rounded-xl flex-shrink-0">
+              <KeyRound className="h-5 w-5 sm:h-6 sm:w-6" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg sm:text-2xl font-bold truncate">API Keys</h1>
+              <p className="text-orange-100 text-xs sm:text-sm truncate">
+                Read access for internal tools • {displayName}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content Area - Full Screen Scrollable */}
+      <div className="flex-1 overflow-y-auto bg-gradient-to-b from-orange-50/30 to-amber-50/30">
+        <div className="px-3 sm:px-4 py-4 space-y-4 max-w-2xl mx-auto w-full">
+          <Button type="button" className="w-full" onClick={() => setForm(EMPTY_FORM)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New API key
+          </Button>
+
+          <p className="text-xs text-gray-500">
+            Tools call /api/v1 with Authorization: Bearer &lt;key&gt;. A key only reads what its scopes allow, only
+            its branch when it has one, and is refused with 429 once it goes over its requests per minute.
+          </p>
+          <a
+            href="/api/v1/openapi.json"
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-xs text-orange-600 hover:underline"
+          >
+            <FileJson className="h-3 w-3" />
+            OpenAPI document
+          </a>
+
+          {keys.length === 0 ? (
+            <div className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm text-sm text-gray-500 text-center">
+              No API keys yet
+            </div>
+          ) : (
+            <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm">
+              <ul className="divide-y divide-gray-100">
+                {keys.map(key => {
+                  const state = apiKeyState(key);
+                  return (
+                    <li key={key.id} className="flex items-center gap-2 py-3 text-sm">
+                      <div className="flex-1 min-w-0 space-y-0.5">
+                        <div className="flex items-center gap-2">
+                          <span className={`font-medium truncate ${state === 'active' ? 'text-gray-900' : 'text-gray-400'}`}>
+                            {key.name}
+                          </span>
+                          <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${STATE_BADGES[state].className}`}>
+                            {STATE_BADGES[state].label}
+                          </span>
+                        </div>
+                        <code className="block text-xs text-gray-600 truncate">{key.key_prefix}…</code>
+                        <div className="text-xs text-gray-500 truncate">
+                          {key.scopes.join(', ')}
+                        </div>
+                        <div className="text-xs text-gray-400 truncate">
+                          {key.branch_id ? branchNames.get(key.branch_id) ?? 'This branch' : 'All branches'}
+                          {` • ${key.rate_limit_per_minute}/min`}
+                          {key.expires_at && ` • expires ${shortDate(key.expires_at)}`}
+                          {` • ${key.last_used_at ? `last used ${shortDate(key.last_used_at)}` : 'never used'}`}
+                        </div>
+                      </div>
+                      {busy === key.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                      ) : (
+                        state !== 'revoked' && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRevoke(key)}
+                            aria-label={`Revoke ${key.name}`}
+                          >
+                            <Ban className="h-4 w-4" />
+                          </Button>
+                        )
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          )}
+        </div>
+      </div>
+
+      <Modal
+        isOpen={!!form}
+        onClose={() => setForm(null)}
+        title="New API key"
+        footer={
+          <Button
+            type="button"
+            className="w-full"
+            onClick={handleCreate}
+            disabled={saving || !form?.name.trim() || form.scopes.length === 0}
+          >
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create key
+          </Button>
+        }
+      >
+        {form && (
+          <div className="space-y-3 text-sm">
+            <Input
+              placeholder="Name, e.g. Stock dashboard"
+              maxLength={80}
+              value={form.name}
+              onChange={(e) => updateForm({ name: e.target.value })}
+            />
+
+            <div className="space-y-2">
+              <span className="text-xs text-gray-500">Scopes</span>
+              {API_KEY_SCOPES.map(scope => (
+                <Checkbox
+                  key={scope}
+                  label={`${API_KEY_SCOPE_LABELS[scope]} (${scope})`}
+                  checked={form.scopes.includes(scope)}
+                  onChange={(e) => toggleScope(scope, e.target.checked)}
+                />
+              ))}
+            </div>
+
+            {branches.length > 0 && (
+              <label className="block space-y-1">
+                <span className="text-xs text-gray-500">Branch</span>
+                <Select value={form.branch_id} onValueChange={(value) => updateForm({ branch_id: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent side="bottom">
+                    <SelectItem value={ALL_BRANCHES}>All branches</SelectItem>
+                    {branches.map(branch => (
+                      <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </label>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <label className="space-y-1">
+                <span className="text-xs text-gray-500">Requests per minute</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={form.rate_limit_per_minute}
+                  onChange={(e) => updateForm({ rate_limit_per_minute: e.target.value })}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-gray-500">Expires (optional)</span>
+                <Input
+                  type="date"
+                  value={form.expires_on}
+                  onChange={(e) => updateForm({ expires_on: e.target.value })}
+                />
+              </label>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      <Modal
+        isOpen={!!createdKey}
+        onClose={() => setCreatedKey(null)}
+        title="Your new API key"
+        footer={
+          <Button type="button" className="w-full" onClick={() => setCreatedKey(null)}>
+            Done
+          </Button>
+        }
+      >
+        {createdKey && (
+          <div className="space-y-3 text-sm">
+            <p className="text-gray-600">
+              Copy it now and keep it somewhere safe. It won&apos;t be shown again.
+            </p>
+            <div className="flex items-center gap-2 rounded-lg bg-gray-50 border border-gray-200 p-2">
+              <code className="flex-1 min-w-0 break-all text-xs">{createdKey}</code>
+              <Button type="button" variant="ghost" size="sm" onClick={() => handleCopy(createdKey)} aria-label="Copy API key">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
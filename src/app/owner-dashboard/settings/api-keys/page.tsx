@@ -0,0 +1,34 @@
+import { redirect } from 'next/navigation';
+import { getAuthenticatedUser, hasPermission } from '@/lib/auth/auth-utils';
+import { getApiKeys } from '@/lib/api/actions';
+import { getBranches } from '@/lib/branches/actions';
+import ApiKeysClient from './ApiKeysClient';
+
+// Force dynamic rendering for authentication
+export const dynamic = 'force-dynamic';
+
+export default async function ApiKeysPage() {
+  const user = await getAuthenticatedUser();
+
+  if (!user) {
+    return redirect('/login');
+  }
+
+  if (!(await hasPermission('api_keys.manage'))) {
+    return redirect('/dashboard');
+  }
+
+  const [keys, branches] = await Promise.all([
+    getApiKeys(),
+    // Only owners choose a key's branch; everyone else's keys get their own
+    user.role === 'owner' ? getBranches() : Promise.resolve([]),
+  ]);
+
+  return (
+    <ApiKeysClient
+      displayName={user.name}
+      initialKeys={keys}
+      branches={branches}
+    />
+  );
+}
@@ -0,0 +1,323 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowLeft, Store, Plus, Save, Loader2, Users } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BranchSelector } from '@/components/dashboards/owner/branch-selector';
+import { branchKeys } from '@/hooks/use-branches';
+import {
+  createBranch,
+  updateBranch,
+  assignUserToBranch,
+  setBranchPrice,
+} from '@/lib/branches/actions';
+import { formatCurrencyNGN } from '@/lib/utils/currency';
+import type { Branch, BreadType } from '@/types';
+
+interface StaffMember {
+  id: string;
+  name: string;
+  role: string;
+  branch_id: string | null;
+}
+
+interface BranchesClientProps {
+  displayName: string;
+  branches: Branch[];
+  breadTypes: BreadType[];
+  staff: StaffMember[];
+  prices: Record<string, Record<string, number>>;
+}
+
+interface BranchRowProps {
+  branch: Branch;
+  onSaved: () => void;
+}
+
+function BranchRow({ branch, onSaved }: BranchRowProps) {
+  const [name, setName] = useState(branch.name);
+  const [address, setAddress] = useState(branch.address || '');
+  const [isActive, setIsActive] = useState(branch.is_active);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isDirty = name !== branch.name || address !== (branch.address || '') || isActive !== branch.is_active;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await updateBranch(branch.id, { name, address: address || null, phone: branch.phone, is_active: isActive });
+      if (result.success) {
+        toast.success('Branch updated');
+        onSaved();
+      } else {
+        toast.error(result.error || 'Failed to update branch');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <li className="py-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <Input value={name} onChange={(e) => setName(e.target.value)} aria-label="Branch name" />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleSave}
+          disabled={!isDirty || isSaving}
+          className="flex-shrink-0"
+        >
+          {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+        </Button>
+      </div>
+      <Input
+        value={address}
+        placeholder="Address"
+        onChange={(e) => setAddress(e.target.value)}
+        aria-label="Branch address"
+      />
+      <Checkbox
+        checked={isActive}
+        onChange={(e) => setIsActive(e.target.checked)}
+        label={isActive ? 'Active' : 'Inactive (hidden from staff and dashboards)'}
+      />
+    </li>
+  );
+}
+
+export default function BranchesClient({ displayName, branches, breadTypes, staff, prices }: BranchesClientProps) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [newBranchName, setNewBranchName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [priceBranchId, setPriceBranchId] = useState(branches[0]?.id ?? '');
+  const [priceDrafts, setPriceDrafts] = useState<Record<string, string>>({});
+  const [savingPriceFor, setSavingPriceFor] = useState<string | null>(null);
+
+  const refresh = async () => {
+    await queryClient.invalidateQueries({ queryKey: branchKeys.all() });
+    router.refresh();
+  };
+
+  const handleCreate = async () => {
+    if (!newBranchName.trim()) return;
+    setIsCreating(true);
+    try {
+      const result = await createBranch({ name: newBranchName });
+      if (result.success) {
+        toast.success('Branch created');
+        setNewBranchName('');
+        await refresh();
+      } else {
+        toast.error(result.error || 'Failed to create branch');
+      }
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const branchPrices = prices[priceBranchId] || {};
+
+  const handlePriceSave = async (breadTypeId: string) => {
+    const draft = priceDrafts[breadTypeId];
+    if (draft === undefined) return;
+
+    setSavingPriceFor(breadTypeId);
+    try {
+      const result = await setBranchPrice({
+        branch_id: priceBranchId,
+        bread_type_id: breadTypeId,
+        unit_price: draft.trim() === '' ? null : Number(draft),
+      });
+      if (result.success) {
+        toast.success(draft.trim() === '' ? 'Branch price cleared' : 'Branch price saved');
+        setPriceDrafts(prev => {
+          const next = { ...prev };
+          delete next[breadTypeId];
+          return next;
+        });
+        router.refresh();
+      } else {
+        toast.error(result.error || 'Failed to save branch price');
+      }
+    } finally {
+      setSavingPriceFor(null);
+    }
+  };
+
+  const handleAssign = async (userId: string, branchId: string) => {
+    const result = await assignUserToBranch(userId, branchId);
+    if (result.success) {
+      toast.success('Staff member moved');
+      router.refresh();
+    } else {
+      toast.error(result.error || 'Failed to assign branch');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Mobile-First Header with Back Button */}
+      <div className="bg-gradient-to-r from-orange-500 to-amber-500 text-white">
+        <div className="px-3 sm:px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-2 sm:gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl touch-manipulation flex-shrink-0"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="bg-white/20 p-2 sm:p-3 rounded-xl flex-shrink-0">
+              <Store className="h-5 w-5 sm:h-6 sm:w-6" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg sm:text-2xl font-bold truncate">Branches</h1>
+              <p className="text-orange-100 text-xs sm:text-sm truncate">
+                Outlets, prices & staff • {displayName}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content Area - Full Screen Scrollable */}
+      <div className="flex-1 overflow-y-auto bg-gradient-to-b from-orange-50/30 to-amber-50/30">
+        <div className="px-3 sm:px-4 py-4 space-y-4 max-w-2xl mx-auto w-full">
+
+          {/* Branch list */}
+          <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+            <div>
+              <h2 className="font-semibold text-gray-900">Branches</h2>
+              <p className="text-xs text-gray-500">Each branch has its own production, sales and stock.</p>
+            </div>
+            <ul className="divide-y divide-gray-100">
+              {branches.map(branch => (
+                <BranchRow key={branch.id} branch={branch} onSaved={refresh} />
+              ))}
+            </ul>
+            <div className="flex items-end gap-2">
+              <div className="flex-1 min-w-0">
+                <Label htmlFor="new-branch" className="text-xs text-gray-500">New branch</Label>
+                <Input
+                  id="new-branch"
+                  value={newBranchName}
+                  placeholder="e.g. Ikeja Outlet"
+                  onChange={(e) => setNewBranchName(e.target.value)}
+                />
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleCreate}
+                disabled={!newBranchName.trim() || isCreating}
+                className="flex-shrink-0"
+              >
+                {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              </Button>
+            </div>
+          </section>
+
+          {/* Branch prices */}
+          {branches.length > 0 && (
+            <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+              <div>
+                <h2 className="font-semibold text-gray-900">Branch prices</h2>
+                <p className="text-xs text-gray-500">Leave blank to use the standard price.</p>
+              </div>
+              <BranchSelector
+                branches={branches}
+                value={priceBranchId}
+                onChange={(value) => {
+                  setPriceBranchId(value);
+                  setPriceDrafts({});
+                }}
+                allowAll={false}
+              />
+              <ul className="divide-y divide-gray-100">
+                {breadTypes.map(breadType => {
+                  const override = branchPrices[breadType.id];
+                  const draft = priceDrafts[breadType.id];
+                  return (
+                    <li key={breadType.id} className="flex items-center gap-2 py-2 text-sm">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-gray-900 truncate">{breadType.name}</div>
+                        <div className="text-xs text-gray-500">Standard {formatCurrencyNGN(breadType.unit_price)}</div>
+                      </div>
+                      <Input
+                        type="number"
+                        min={0}
+                        className="w-28"
+                        placeholder="Standard"
+                        value={draft ?? (override !== undefined ? String(override) : '')}
+                        onChange={(e) => setPriceDrafts(prev => ({ ...prev, [breadType.id]: e.target.value }))}
+                        aria-label={`${breadType.name} price`}
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handlePriceSave(breadType.id)}
+                        disabled={draft === undefined || savingPriceFor === breadType.id}
+                        className="flex-shrink-0"
+                      >
+                        {savingPriceFor === breadType.id
+                          ? <Loader2 className="h-4 w-4 animate-spin" />
+                          : <Save className="h-4 w-4" />}
+                      </Button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          )}
+
+          {/* Staff assignment */}
+          <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+            <div>
+              <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                <Users className="h-4 w-4 text-gray-500" />
+                Staff
+              </h2>
+              <p className="text-xs text-gray-500">Managers and sales reps only see their own branch.</p>
+            </div>
+            {staff.length === 0 ? (
+              <p className="text-sm text-gray-400 text-center py-2">No staff yet</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {staff.map(member => (
+                  <li key={member.id} className="flex items-center gap-2 py-2 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-gray-900 truncate">{member.name}</div>
+                      <div className="text-xs text-gray-500">{member.role === 'sales_rep' ? 'Sales Rep' : 'Manager'}</div>
+                    </div>
+                    <Select value={member.branch_id ?? undefined} onValueChange={(value) => handleAssign(member.id, value)}>
+                      <SelectTrigger className="w-44">
+                        <SelectValue placeholder="Unassigned" />
+                      </SelectTrigger>
+                      <SelectContent side="bottom">
+                        {branches.filter(branch => branch.is_active).map(branch => (
+                          <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
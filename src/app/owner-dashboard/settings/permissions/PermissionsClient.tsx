@@ -0,0 +1,310 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowLeft, ShieldCheck, RotateCcw, Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ALL_PERMISSIONS,
+  CONFIGURABLE_ROLES,
+  DEFAULT_ROLE_PERMISSIONS,
+  PERMISSIONS,
+  resolvePermissions,
+  type Permission,
+} from '@/lib/auth/permissions';
+import {
+  setRolePermission,
+  resetRolePermissions,
+  setUserPermissionOverride,
+  type PermissionSettings,
+} from '@/lib/auth/permission-actions';
+
+type ConfigurableRole = (typeof CONFIGURABLE_ROLES)[number];
+type OverrideValue = 'default' | 'allow' | 'deny';
+
+interface PermissionsClientProps {
+  displayName: string;
+  initialSettings: PermissionSettings | null;
+}
+
+const ROLE_LABELS: Record<ConfigurableRole, string> = {
+  manager: 'Managers',
+  sales_rep: 'Sales Reps',
+};
+
+// Permissions in catalog order, grouped for display
+const PERMISSION_GROUPS = ALL_PERMISSIONS.reduce<Array<{ group: string; permissions: Permission[] }>>((groups, permission) => {
+  const { group } = PERMISSIONS[permission];
+  const existing = groups.find(entry => entry.group === group);
+  if (existing) {
+    existing.permissions.push(permission);
+  } else {
+    groups.push({ group, permissions: [permission] });
+  }
+  return groups;
+}, []);
+
+export default function PermissionsClient({ displayName, initialSettings }: PermissionsClientProps) {
+  const router = useRouter();
+  const [settings, setSettings] = useState(initialSettings);
+  const [view, setView] = useState<'roles' | 'staff'>('roles');
+  const [role, setRole] = useState<ConfigurableRole>('manager');
+  const [staffId, setStaffId] = useState<string | undefined>(initialSettings?.staff[0]?.id);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [isResetting, setIsResetting] = useState(false);
+
+  const member = settings?.staff.find(entry => entry.id === staffId);
+  const memberRole = member && member.role !== 'owner' ? member.role : null;
+  const memberRolePermissions = memberRole && settings ? settings.rolePermissions[memberRole] : [];
+  const memberEffective = member
+    ? resolvePermissions(member.role, memberRolePermissions, member.overrides)
+    : [];
+
+  const handleRoleToggle = async (permission: Permission, granted: boolean) => {
+    if (!settings) return;
+    setSaving(`${role}:${permission}`);
+    try {
+      const result = await setRolePermission({ role, permission, granted });
+      if (result.success) {
+        const current = settings.rolePermissions[role];
+        setSettings({
+          ...settings,
+          rolePermissions: {
+            ...settings.rolePermissions,
+            [role]: granted ? [...current, permission] : current.filter(entry => entry !== permission),
+          },
+        });
+      } else {
+        toast.error(result.error || 'Failed to update role permission');
+      }
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleReset = async () => {
+    setIsResetting(true);
+    try {
+      const result = await resetRolePermissions();
+      if (result.success && settings) {
+        setSettings({
+          ...settings,
+          rolePermissions: {
+            manager: DEFAULT_ROLE_PERMISSIONS.manager,
+            sales_rep: DEFAULT_ROLE_PERMISSIONS.sales_rep,
+          },
+        });
+        toast.success('Role permissions reset to defaults');
+      } else {
+        toast.error(result.error || 'Failed to reset role permissions');
+      }
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  const handleOverride = async (permission: Permission, value: OverrideValue) => {
+    if (!settings || !member) return;
+    const granted = value === 'default' ? null : value === 'allow';
+    setSaving(`${member.id}:${permission}`);
+    try {
+      const result = await setUserPermissionOverride({ user_id: member.id, permission, granted });
+      if (result.success) {
+        const others = member.overrides.filter(entry => entry.permission !== permission);
+        const overrides = granted === null ? others : [...others, { permission, granted }];
+        setSettings({
+          ...settings,
+          staff: settings.staff.map(entry => (entry.id === member.id ? { ...entry, overrides } : entry)),
+        });
+      } else {
+        toast.error(result.error || 'Failed to update user permission');
+      }
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Mobile-First Header with Back Button */}
+      <div className="bg-gradient-to-r from-orange-500 to-amber-500 text-white">
+        <div className="px-3 sm:px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-2 sm:gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl touch-manipulation flex-shrink-0"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="bg-white/20 p-2 sm:p-3 rounded-xl flex-shrink-0">
+              <ShieldCheck className="h-5 w-5 sm:h-6 sm:w-6" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg sm:text-2xl font-bold truncate">Permissions</h1>
+              <p className="text-orange-100 text-xs sm:text-sm truncate">
+                What each role and staff member can do • {displayName}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content Area - Full Screen Scrollable */}
+      <div className="flex-1 overflow-y-auto bg-gradient-to-b from-orange-50/30 to-amber-50/30">
+        <div className="px-3 sm:px-4 py-4 space-y-4 max-w-2xl mx-auto w-full">
+          {!settings ? (
+            <div className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm text-sm text-gray-500 text-center">
+              Permissions could not be loaded. Make sure the permissions migration has been applied.
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  type="button"
+                  variant={view === 'roles' ? 'default' : 'outline'}
+                  onClick={() => setView('roles')}
+                >
+                  Roles
+                </Button>
+                <Button
+                  type="button"
+                  variant={view === 'staff' ? 'default' : 'outline'}
+                  onClick={() => setView('staff')}
+                >
+                  Staff
+                </Button>
+              </div>
+
+              {view === 'roles' ? (
+                <>
+                  <div className="flex items-center gap-2">
+                    <Select value={role} onValueChange={(value) => setRole(value as ConfigurableRole)}>
+                      <SelectTrigger className="bg-white flex-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent side="bottom">
+                        {CONFIGURABLE_ROLES.map(entry => (
+                          <SelectItem key={entry} value={entry}>{ROLE_LABELS[entry]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={handleReset}
+                      disabled={isResetting}
+                      className="flex-shrink-0 bg-white"
+                    >
+                      {isResetting ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                      <span className="ml-2">Defaults</span>
+                    </Button>
+                  </div>
+
+                  <p className="text-xs text-gray-500">
+                    Changes apply to everyone with this role, except where a staff member has their own override.
+                    Owners always have every permission.
+                  </p>
+
+                  {PERMISSION_GROUPS.map(({ group, permissions }) => (
+                    <section key={group} className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-2">
+                      <h2 className="font-semibold text-gray-900">{group}</h2>
+                      <ul className="divide-y divide-gray-100">
+                        {permissions.map(permission => (
+                          <li key={permission} className="flex items-center gap-2 py-2 text-sm">
+                            <div className="flex-1 min-w-0">
+                              <div className="text-gray-900">{PERMISSIONS[permission].label}</div>
+                              <div className="text-xs text-gray-400 font-mono">{permission}</div>
+                            </div>
+                            {saving === `${role}:${permission}` ? (
+                              <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                            ) : (
+                              <Checkbox
+                                checked={settings.rolePermissions[role].includes(permission)}
+                                onChange={(e) => handleRoleToggle(permission, e.target.checked)}
+                                aria-label={PERMISSIONS[permission].label}
+                              />
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </section>
+                  ))}
+                </>
+              ) : settings.staff.length === 0 ? (
+                <div className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm text-sm text-gray-500 text-center">
+                  No staff yet
+                </div>
+              ) : (
+                <>
+                  <Select value={staffId} onValueChange={setStaffId}>
+                    <SelectTrigger className="bg-white">
+                      <SelectValue placeholder="Choose a staff member" />
+                    </SelectTrigger>
+                    <SelectContent side="bottom">
+                      {settings.staff.map(entry => (
+                        <SelectItem key={entry.id} value={entry.id}>
+                          {entry.name} • {entry.role === 'sales_rep' ? 'Sales Rep' : 'Manager'}
+                          {entry.is_active ? '' : ' (inactive)'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  <p className="text-xs text-gray-500">
+                    Overrides apply to this person only and win over their role&apos;s permissions.
+                  </p>
+
+                  {member && PERMISSION_GROUPS.map(({ group, permissions }) => (
+                    <section key={group} className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-2">
+                      <h2 className="font-semibold text-gray-900">{group}</h2>
+                      <ul className="divide-y divide-gray-100">
+                        {permissions.map(permission => {
+                          const override = member.overrides.find(entry => entry.permission === permission);
+                          const value: OverrideValue = !override ? 'default' : override.granted ? 'allow' : 'deny';
+                          const fromRole = memberRolePermissions.includes(permission);
+                          const allowed = memberEffective.includes(permission);
+                          return (
+                            <li key={permission} className="flex items-center gap-2 py-2 text-sm">
+                              <div className="flex-1 min-w-0">
+                                <div className="text-gray-900">{PERMISSIONS[permission].label}</div>
+                                <div className={`text-xs ${allowed ? 'text-green-600' : 'text-gray-400'}`}>
+                                  {allowed ? 'Allowed' : 'Not allowed'}
+                                  {override ? ' • overridden' : ''}
+                                </div>
+                              </div>
+                              {saving === `${member.id}:${permission}` && (
+                                <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                              )}
+                              <Select
+                                value={value}
+                                onValueChange={(next) => handleOverride(permission, next as OverrideValue)}
+                              >
+                                <SelectTrigger className="w-40">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent side="bottom">
+                                  <SelectItem value="default">Role ({fromRole ? 'yes' : 'no'})</SelectItem>
+                                  <SelectItem value="allow">Always allow</SelectItem>
+                                  <SelectItem value="deny">Never allow</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </section>
+                  ))}
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
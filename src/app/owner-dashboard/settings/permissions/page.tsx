@@ -0,0 +1,28 @@
+import { redirect } from 'next/navigation';
+import { getAuthenticatedUser, hasPermission } from '@/lib/auth/auth-utils';
+import { getPermissionSettings } from '@/lib/auth/permission-actions';
+import PermissionsClient from './PermissionsClient';
+
+// Force dynamic rendering for authentication
+export const dynamic = 'force-dynamic';
+
+export default async function PermissionsPage() {
+  const user = await getAuthenticatedUser();
+
+  if (!user) {
+    return redirect('/login');
+  }
+
+  if (!(await hasPermission('permissions.manage'))) {
+    return redirect('/dashboard');
+  }
+
+  const settings = await getPermissionSettings();
+
+  return (
+    <PermissionsClient
+      displayName={user.name}
+      initialSettings={settings}
+    />
+  );
+}
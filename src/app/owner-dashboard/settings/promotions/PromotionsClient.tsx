@@ -0,0 +1,432 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowLeft, Tag, Plus, Pencil, Trash2, Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Modal } from '@/components/ui/modal';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getPromotions, savePromotion, setPromotionActive } from '@/lib/promotions/actions';
+import { PROMOTION_KINDS, describePromotion, type Promotion, type PromotionKind } from '@/lib/promotions/evaluate';
+import { promotionKeys } from '@/hooks/use-promotions';
+import { useShiftSchedule } from '@/hooks/use-shift-schedule';
+import { getAllShiftDefinitions, getShiftLabel } from '@/lib/shift-schedule/schedule';
+import type { Branch, BreadType } from '@/types';
+
+const ANY = 'any';
+
+interface PromotionsClientProps {
+  displayName: string;
+  initialPromotions: Promotion[];
+  breadTypes: BreadType[];
+  // Empty for managers, who only set up promotions for their own branch
+  branches: Branch[];
+}
+
+interface PromotionForm {
+  id?: string;
+  name: string;
+  kind: PromotionKind;
+  branch_id: string;
+  bread_type_id: string;
+  buy_quantity: string;
+  free_quantity: string;
+  percent_off: string;
+  tiers: Array<{ min_quantity: string; unit_price: string }>;
+  shift: string;
+  start_time: string;
+  end_time: string;
+  valid_from: string;
+  valid_to: string;
+  is_active: boolean;
+}
+
+const EMPTY_FORM: PromotionForm = {
+  name: '',
+  kind: 'percent_off',
+  branch_id: ANY,
+  bread_type_id: ANY,
+  buy_quantity: '',
+  free_quantity: '',
+  percent_off: '',
+  tiers: [{ min_quantity: '', unit_price: '' }],
+  shift: ANY,
+  start_time: '',
+  end_time: '',
+  valid_from: '',
+  valid_to: '',
+  is_active: true,
+};
+
+function toForm(promotion: Promotion): PromotionForm {
+  return {
+    id: promotion.id,
+    name: promotion.name,
+    kind: promotion.kind,
+    branch_id: promotion.branch_id ?? ANY,
+    bread_type_id: promotion.bread_type_id ?? ANY,
+    buy_quantity: promotion.buy_quantity?.toString() ?? '',
+    free_quantity: promotion.free_quantity?.toString() ?? '',
+    percent_off: promotion.percent_off?.toString() ?? '',
+    tiers: promotion.tiers.length > 0
+      ? promotion.tiers.map(tier => ({ min_quantity: tier.min_quantity.toString(), unit_price: tier.unit_price.toString() }))
+      : EMPTY_FORM.tiers,
+    shift: promotion.shift ?? ANY,
+    start_time: promotion.start_time ?? '',
+    end_time: promotion.end_time ?? '',
+    valid_from: promotion.valid_from ?? '',
+    valid_to: promotion.valid_to ?? '',
+    is_active: promotion.is_active,
+  };
+}
+
+const optionalNumber = (value: string) => (value === '' ? null : Number(value));
+
+export default function PromotionsClient({ displayName, initialPromotions, breadTypes, branches }: PromotionsClientProps) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { schedule } = useShiftSchedule();
+  const [promotions, setPromotions] = useState(initialPromotions);
+  const [form, setForm] = useState<PromotionForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [toggling, setToggling] = useState<string | null>(null);
+
+  const breadTypeName = (id: string | null) =>
+    id ? breadTypes.find(breadType => breadType.id === id)?.name ?? 'Bread type' : 'All bread';
+  const branchName = (id: string | null) =>
+    id ? branches.find(branch => branch.id === id)?.name ?? 'This branch' : 'All branches';
+
+  const updateForm = (changes: Partial<PromotionForm>) => setForm(prev => (prev ? { ...prev, ...changes } : prev));
+
+  const refresh = async () => {
+    setPromotions(await getPromotions());
+    queryClient.invalidateQueries({ queryKey: promotionKeys.all() });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setSaving(true);
+    try {
+      const result = await savePromotion({
+        id: form.id,
+        name: form.name,
+        kind: form.kind,
+        branch_id: form.branch_id === ANY ? null : form.branch_id,
+        bread_type_id: form.bread_type_id === ANY ? null : form.bread_type_id,
+        buy_quantity: optionalNumber(form.buy_quantity),
+        free_quantity: optionalNumber(form.free_quantity),
+        percent_off: optionalNumber(form.percent_off),
+        tiers: form.tiers
+          .filter(tier => tier.min_quantity !== '' && tier.unit_price !== '')
+          .map(tier => ({ min_quantity: Number(tier.min_quantity), unit_price: Number(tier.unit_price) })),
+        shift: form.shift === ANY ? null : form.shift,
+        start_time: form.start_time || null,
+        end_time: form.end_time || null,
+        valid_from: form.valid_from || null,
+        valid_to: form.valid_to || null,
+        is_active: form.is_active,
+      });
+      if (result.success) {
+        toast.success(form.id ? 'Promotion updated' : 'Promotion created');
+        setForm(null);
+        await refresh();
+      } else {
+        toast.error(result.error || 'Failed to save the promotion');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (promotion: Promotion, isActive: boolean) => {
+    setToggling(promotion.id);
+    try {
+      const result = await setPromotionActive(promotion.id, isActive);
+      if (result.success) {
+        await refresh();
+      } else {
+        toast.error(result.error || 'Failed to update the promotion');
+      }
+    } finally {
+      setToggling(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Mobile-First Header with Back Button */}
+      <div className="bg-gradient-to-r from-orange-500 to-amber-500 text-white">
+        <div className="px-3 sm:px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-2 sm:gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl touch-manipulation flex-shrink-0"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="bg-white/20 p-2 sm:p-3 rounded-xl flex-shrink-0">
+              <Tag className="h-5 w-5 sm:h-6 sm:w-6" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg sm:text-2xl font-bold truncate">Promotions</h1>
+              <p className="text-orange-100 text-xs sm:text-sm truncate">
+                Offers applied automatically at the till • {displayName}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content Area - Full Screen Scrollable */}
+      <div className="flex-1 overflow-y-auto bg-gradient-to-b from-orange-50/30 to-amber-50/30">
+        <div className="px-3 sm:px-4 py-4 space-y-4 max-w-2xl mx-auto w-full">
+          <Button type="button" className="w-full" onClick={() => setForm(EMPTY_FORM)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New promotion
+          </Button>
+
+          <p className="text-xs text-gray-500">
+            When more than one promotion fits a sale, the one that takes the most off is used. Switched-off
+            promotions stay here so past sales keep their promotion in reports.
+          </p>
+
+          {promotions.length === 0 ? (
+            <div className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm text-sm text-gray-500 text-center">
+              No promotions yet
+            </div>
+          ) : (
+            <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm">
+              <ul className="divide-y divide-gray-100">
+                {promotions.map(promotion => (
+                  <li key={promotion.id} className="flex items-center gap-3 py-3 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <div className={`font-medium ${promotion.is_active ? 'text-gray-900' : 'text-gray-400'}`}>
+                        {promotion.name}
+                      </div>
+                      <div className="text-xs text-gray-600">{describePromotion(promotion)}</div>
+                      <div className="text-xs text-gray-400 truncate">
+                        {breadTypeName(promotion.bread_type_id)}
+                        {` • ${branchName(promotion.branch_id)}`}
+                        {promotion.shift && ` • ${getShiftLabel(schedule, promotion.shift)} shift`}
+                        {promotion.start_time && ` • ${promotion.start_time}–${promotion.end_time}`}
+                        {(promotion.valid_from || promotion.valid_to) &&
+                          ` • ${promotion.valid_from ?? '…'} to ${promotion.valid_to ?? '…'}`}
+                      </div>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setForm(toForm(promotion))}
+                      aria-label={`Edit ${promotion.name}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    {toggling === promotion.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                    ) : (
+                      <Checkbox
+                        checked={promotion.is_active}
+                        onChange={(e) => handleToggle(promotion, e.target.checked)}
+                        aria-label={`${promotion.name} switched on`}
+                      />
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </div>
+      </div>
+
+      <Modal
+        isOpen={!!form}
+        onClose={() => setForm(null)}
+        title={form?.id ? 'Edit promotion' : 'New promotion'}
+        footer={
+          <Button type="button" className="w-full" onClick={handleSave} disabled={saving || !form?.name.trim()}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        }
+      >
+        {form && (
+          <div className="space-y-3 text-sm">
+            <Input
+              placeholder="Name, e.g. Night clearance"
+              maxLength={80}
+              value={form.name}
+              onChange={(e) => updateForm({ name: e.target.value })}
+            />
+
+            <Select value={form.kind} onValueChange={(value) => updateForm({ kind: value as PromotionKind })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent side="bottom">
+                {(Object.keys(PROMOTION_KINDS) as PromotionKind[]).map(kind => (
+                  <SelectItem key={kind} value={kind}>{PROMOTION_KINDS[kind].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">{PROMOTION_KINDS[form.kind].description}</p>
+
+            {form.kind === 'buy_x_get_y' && (
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  inputMode="numeric"
+                  placeholder="Buy"
+                  value={form.buy_quantity}
+                  onChange={(e) => updateForm({ buy_quantity: e.target.value })}
+                  aria-label="Loaves to buy"
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  inputMode="numeric"
+                  placeholder="Get free"
+                  value={form.free_quantity}
+                  onChange={(e) => updateForm({ free_quantity: e.target.value })}
+                  aria-label="Loaves free"
+                />
+              </div>
+            )}
+
+            {(form.kind === 'percent_off' || form.kind === 'clearance') && (
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                step="0.5"
+                inputMode="decimal"
+                placeholder="Percentage off"
+                value={form.percent_off}
+                onChange={(e) => updateForm({ percent_off: e.target.value })}
+              />
+            )}
+
+            {form.kind === 'bulk_tier' && (
+              <div className="space-y-2">
+                {form.tiers.map((tier, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min={2}
+                      inputMode="numeric"
+                      placeholder="From (loaves)"
+                      value={tier.min_quantity}
+                      onChange={(e) => updateForm({
+                        tiers: form.tiers.map((entry, i) => (i === index ? { ...entry, min_quantity: e.target.value } : entry)),
+                      })}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      inputMode="decimal"
+                      placeholder="Price each"
+                      value={tier.unit_price}
+                      onChange={(e) => updateForm({
+                        tiers: form.tiers.map((entry, i) => (i === index ? { ...entry, unit_price: e.target.value } : entry)),
+                      })}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateForm({ tiers: form.tiers.filter((_, i) => i !== index) })}
+                      disabled={form.tiers.length === 1}
+                      aria-label="Remove tier"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateForm({ tiers: [...form.tiers, { min_quantity: '', unit_price: '' }] })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add tier
+                </Button>
+              </div>
+            )}
+
+            <Select value={form.bread_type_id} onValueChange={(value) => updateForm({ bread_type_id: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent side="bottom">
+                <SelectItem value={ANY}>All bread</SelectItem>
+                {breadTypes.map(breadType => (
+                  <SelectItem key={breadType.id} value={breadType.id}>{breadType.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {branches.length > 0 && (
+              <Select value={form.branch_id} onValueChange={(value) => updateForm({ branch_id: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent side="bottom">
+                  <SelectItem value={ANY}>All branches</SelectItem>
+                  {branches.map(branch => (
+                    <SelectItem key={branch.id} value={branch.id}>{branch.name} only</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <Select value={form.shift} onValueChange={(value) => updateForm({ shift: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent side="bottom">
+                <SelectItem value={ANY}>Every shift</SelectItem>
+                {getAllShiftDefinitions(schedule).map(shift => (
+                  <SelectItem key={shift.key} value={shift.key}>{shift.label} shift</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <div className="grid grid-cols-2 gap-2">
+              <label className="space-y-1">
+                <span className="text-xs text-gray-500">From time{form.kind === 'clearance' ? '' : ' (optional)'}</span>
+                <Input type="time" value={form.start_time} onChange={(e) => updateForm({ start_time: e.target.value })} />
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-gray-500">Until time</span>
+                <Input type="time" value={form.end_time} onChange={(e) => updateForm({ end_time: e.target.value })} />
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-gray-500">Starts on (optional)</span>
+                <Input type="date" value={form.valid_from} onChange={(e) => updateForm({ valid_from: e.target.value })} />
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-gray-500">Ends on (optional)</span>
+                <Input type="date" value={form.valid_to} onChange={(e) => updateForm({ valid_to: e.target.value })} />
+              </label>
+            </div>
+
+            <Checkbox
+              label="Switched on"
+              checked={form.is_active}
+              onChange={(e) => updateForm({ is_active: e.target.checked })}
+            />
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
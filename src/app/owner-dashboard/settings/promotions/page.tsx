@@ -0,0 +1,37 @@
+import { redirect } from 'next/navigation';
+import { getAuthenticatedUser, hasPermission } from '@/lib/auth/auth-utils';
+import { getPromotions } from '@/lib/promotions/actions';
+import { getBreadTypes } from '@/lib/bread-types/actions';
+import { getBranches } from '@/lib/branches/actions';
+import PromotionsClient from './PromotionsClient';
+
+// Force dynamic rendering for authentication
+export const dynamic = 'force-dynamic';
+
+export default async function PromotionsPage() {
+  const user = await getAuthenticatedUser();
+
+  if (!user) {
+    return redirect('/login');
+  }
+
+  if (!(await hasPermission('promotions.manage'))) {
+    return redirect('/dashboard');
+  }
+
+  const [promotions, breadTypes, branches] = await Promise.all([
+    getPromotions(),
+    getBreadTypes(false, null),
+    // Only owners choose which branch a promotion runs at
+    user.role === 'owner' ? getBranches() : Promise.resolve([]),
+  ]);
+
+  return (
+    <PromotionsClient
+      displayName={user.name}
+      initialPromotions={promotions}
+      breadTypes={breadTypes}
+      branches={branches}
+    />
+  );
+}
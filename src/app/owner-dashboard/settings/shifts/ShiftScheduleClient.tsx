@@ -0,0 +1,380 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, Clock, Plus, Trash2, CalendarOff, Save, Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { saveShiftSchedule } from '@/lib/shift-schedule/actions';
+import {
+  WEEKDAY_NAMES,
+  type ShiftDefinition,
+  type ShiftSchedule,
+  type Weekday,
+} from '@/lib/shift-schedule/schedule';
+import { getCurrentShiftInfo } from '@/lib/utils/shift-utils';
+import { shiftScheduleKeys } from '@/hooks/use-shift-schedule';
+import { BranchSelector } from '@/components/dashboards/owner/branch-selector';
+import { ALL_BRANCHES } from '@/hooks/use-branches';
+import type { Branch } from '@/types';
+
+interface ShiftScheduleClientProps {
+  displayName: string;
+  initialSchedule: ShiftSchedule;
+  branches: Branch[];
+  branchId: string | null;
+}
+
+const COMMON_TIMEZONES = [
+  'Africa/Lagos',
+  'Africa/Accra',
+  'Africa/Nairobi',
+  'Africa/Johannesburg',
+  'Europe/London',
+  'America/New_York',
+  'America/Los_Angeles',
+];
+
+function toShiftKey(label: string): string {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+interface ShiftListEditorProps {
+  shifts: ShiftDefinition[];
+  onChange: (shifts: ShiftDefinition[]) => void;
+}
+
+function ShiftListEditor({ shifts, onChange }: ShiftListEditorProps) {
+  const updateShift = (index: number, changes: Partial<ShiftDefinition>) => {
+    onChange(shifts.map((shift, i) => (i === index ? { ...shift, ...changes } : shift)));
+  };
+
+  const addShift = () => {
+    onChange([...shifts, { key: '', label: '', start_time: '06:00' }]);
+  };
+
+  const removeShift = (index: number) => {
+    onChange(shifts.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      {shifts.map((shift, index) => (
+        <div key={index} className="flex items-end gap-2">
+          <div className="flex-1 min-w-0">
+            <Label className="text-xs text-gray-500">Name</Label>
+            <Input
+              value={shift.label}
+              placeholder="e.g. Afternoon"
+              onChange={(e) => {
+                const label = e.target.value;
+                // Keep the key in step with the name until it has been saved once
+                const key = !shift.key || shift.key === toShiftKey(shift.label) ? toShiftKey(label) : shift.key;
+                updateShift(index, { label, key });
+              }}
+            />
+          </div>
+          <div className="w-28 flex-shrink-0">
+            <Label className="text-xs text-gray-500">Starts</Label>
+            <Input
+              type="time"
+              value={shift.start_time}
+              onChange={(e) => updateShift(index, { start_time: e.target.value })}
+            />
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => removeShift(index)}
+            disabled={shifts.length <= 1}
+            className="h-10 w-10 p-0 text-red-500 hover:bg-red-50 flex-shrink-0"
+            title="Remove shift"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={addShift} className="w-full">
+        <Plus className="h-4 w-4 mr-1" /> Add shift
+      </Button>
+    </div>
+  );
+}
+
+export default function ShiftScheduleClient({ displayName, initialSchedule, branches, branchId }: ShiftScheduleClientProps) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [schedule, setSchedule] = useState<ShiftSchedule>(initialSchedule);
+  const [newClosureDate, setNewClosureDate] = useState('');
+  const [newClosureReason, setNewClosureReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const preview = useMemo(() => {
+    try {
+      return getCurrentShiftInfo(schedule);
+    } catch {
+      return null;
+    }
+  }, [schedule]);
+
+  const setOverride = (weekday: Weekday, shifts: ShiftDefinition[] | null) => {
+    setSchedule(prev => {
+      const overrides = { ...prev.weekday_overrides };
+      if (shifts) {
+        overrides[weekday] = shifts;
+      } else {
+        delete overrides[weekday];
+      }
+      return { ...prev, weekday_overrides: overrides };
+    });
+  };
+
+  const addClosure = () => {
+    if (!newClosureDate) return;
+    if (schedule.closures.some(closure => closure.date === newClosureDate)) {
+      toast.error('That date is already marked as closed');
+      return;
+    }
+    setSchedule(prev => ({
+      ...prev,
+      closures: [...prev.closures, { date: newClosureDate, reason: newClosureReason || null }]
+        .sort((a, b) => a.date.localeCompare(b.date)),
+    }));
+    setNewClosureDate('');
+    setNewClosureReason('');
+  };
+
+  const removeClosure = (date: string) => {
+    setSchedule(prev => ({ ...prev, closures: prev.closures.filter(closure => closure.date !== date) }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await saveShiftSchedule({
+        name: schedule.name,
+        timezone: schedule.timezone,
+        shifts: schedule.shifts,
+        weekday_overrides: Object.fromEntries(
+          Object.entries(schedule.weekday_overrides).map(([day, shifts]) => [String(day), shifts])
+        ),
+        closures: schedule.closures,
+      }, branchId);
+
+      if (result.success) {
+        toast.success('Shift schedule saved');
+        await queryClient.invalidateQueries({ queryKey: shiftScheduleKeys.all() });
+      } else {
+        toast.error(result.error || 'Failed to save shift schedule');
+      }
+    } catch (error) {
+      console.error('Error saving shift schedule:', error);
+      toast.error('Failed to save shift schedule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // A branch without its own schedule is shown the shared one until it is saved
+  const inheritsShared = branchId !== null && (initialSchedule.branch_id ?? null) !== branchId;
+
+  const handleBranchChange = (value: string) => {
+    router.push(value === ALL_BRANCHES
+      ? '/owner-dashboard/settings/shifts'
+      : `/owner-dashboard/settings/shifts?branch=${value}`);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Mobile-First Header with Back Button */}
+      <div className="bg-gradient-to-r from-indigo-500 to-purple-500 text-white">
+        <div className="px-3 sm:px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-2 sm:gap-4 mb-2 sm:mb-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl touch-manipulation flex-shrink-0"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="bg-white/20 p-2 sm:p-3 rounded-xl flex-shrink-0">
+              <Clock className="h-5 w-5 sm:h-6 sm:w-6" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg sm:text-2xl font-bold truncate">Shift Schedule</h1>
+              <p className="text-indigo-100 text-xs sm:text-sm truncate">
+                Shifts, weekday hours & closures • {displayName}
+              </p>
+            </div>
+          </div>
+
+          {preview && (
+            <div className="bg-white/10 rounded-lg p-3 backdrop-blur-sm text-sm">
+              {preview.isClosed ? (
+                <span className="text-white/90">Closed today{preview.closureReason ? ` • ${preview.closureReason}` : ''}</span>
+              ) : (
+                <span className="text-white/90">
+                  Now: <strong>{preview.currentShiftLabel}</strong> • {preview.shiftStartTime} – {preview.nextShiftTime}
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Content Area - Full Screen Scrollable */}
+      <div className="flex-1 overflow-y-auto bg-gradient-to-b from-indigo-50/30 to-purple-50/30">
+        <div className="px-3 sm:px-4 py-4 space-y-4 max-w-2xl mx-auto w-full">
+
+          {branches.length > 1 && (
+            <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-2">
+              <Label className="text-xs text-gray-500">Branch</Label>
+              <BranchSelector
+                branches={branches}
+                value={branchId ?? ALL_BRANCHES}
+                onChange={handleBranchChange}
+                allLabel="Shared schedule (all branches)"
+              />
+              {inheritsShared && (
+                <p className="text-xs text-amber-600">
+                  This branch uses the shared schedule. Saving gives it its own.
+                </p>
+              )}
+            </section>
+          )}
+
+          {/* General */}
+          <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+            <h2 className="font-semibold text-gray-900">General</h2>
+            <div>
+              <Label htmlFor="schedule-name" className="text-xs text-gray-500">Schedule name</Label>
+              <Input
+                id="schedule-name"
+                value={schedule.name}
+                onChange={(e) => setSchedule(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="schedule-timezone" className="text-xs text-gray-500">Bakery timezone</Label>
+              <Input
+                id="schedule-timezone"
+                list="shift-timezones"
+                value={schedule.timezone}
+                onChange={(e) => setSchedule(prev => ({ ...prev, timezone: e.target.value }))}
+              />
+              <datalist id="shift-timezones">
+                {COMMON_TIMEZONES.map(timezone => <option key={timezone} value={timezone} />)}
+              </datalist>
+            </div>
+          </section>
+
+          {/* Default shifts */}
+          <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+            <div>
+              <h2 className="font-semibold text-gray-900">Daily shifts</h2>
+              <p className="text-xs text-gray-500">Each shift runs until the next one starts.</p>
+            </div>
+            <ShiftListEditor
+              shifts={schedule.shifts}
+              onChange={(shifts) => setSchedule(prev => ({ ...prev, shifts }))}
+            />
+          </section>
+
+          {/* Weekday overrides */}
+          <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+            <div>
+              <h2 className="font-semibold text-gray-900">Weekday overrides</h2>
+              <p className="text-xs text-gray-500">Use different shifts on specific days of the week.</p>
+            </div>
+            {WEEKDAY_NAMES.map((dayName, day) => {
+              const weekday = day as Weekday;
+              const override = schedule.weekday_overrides[weekday];
+              return (
+                <div key={dayName} className="border border-gray-100 rounded-lg p-3 space-y-2">
+                  <label className="flex items-center gap-2 text-sm font-medium text-gray-800">
+                    <input
+                      type="checkbox"
+                      checked={!!override}
+                      onChange={(e) => setOverride(weekday, e.target.checked ? [...schedule.shifts] : null)}
+                    />
+                    {dayName}
+                    {!override && <span className="text-xs text-gray-400 font-normal">uses daily shifts</span>}
+                  </label>
+                  {override && (
+                    <ShiftListEditor shifts={override} onChange={(shifts) => setOverride(weekday, shifts)} />
+                  )}
+                </div>
+              );
+            })}
+          </section>
+
+          {/* Closures */}
+          <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3">
+            <div>
+              <h2 className="font-semibold text-gray-900">Holiday closures</h2>
+              <p className="text-xs text-gray-500">No shifts run on these dates.</p>
+            </div>
+            <div className="flex items-end gap-2">
+              <div className="w-40 flex-shrink-0">
+                <Label className="text-xs text-gray-500">Date</Label>
+                <Input type="date" value={newClosureDate} onChange={(e) => setNewClosureDate(e.target.value)} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <Label className="text-xs text-gray-500">Reason</Label>
+                <Input
+                  value={newClosureReason}
+                  placeholder="e.g. Christmas Day"
+                  onChange={(e) => setNewClosureReason(e.target.value)}
+                />
+              </div>
+              <Button type="button" variant="outline" onClick={addClosure} disabled={!newClosureDate} className="flex-shrink-0">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            {schedule.closures.length === 0 ? (
+              <p className="text-sm text-gray-400 text-center py-2">No closures scheduled</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {schedule.closures.map(closure => (
+                  <li key={closure.date} className="flex items-center justify-between py-2 text-sm">
+                    <span className="flex items-center gap-2 text-gray-700">
+                      <CalendarOff className="h-4 w-4 text-gray-400" />
+                      {closure.date}
+                      {closure.reason && <span className="text-gray-500">• {closure.reason}</span>}
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeClosure(closure.date)}
+                      className="h-8 w-8 p-0 text-red-500 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+
+      {/* Save footer */}
+      <div className="bg-white border-t border-gray-200 px-3 sm:px-4 py-3 flex-shrink-0">
+        <Button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="w-full bg-indigo-500 hover:bg-indigo-600 text-white rounded-xl touch-manipulation min-h-[44px]"
+        >
+          {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          Save schedule
+        </Button>
+      </div>
+    </div>
+  );
+}
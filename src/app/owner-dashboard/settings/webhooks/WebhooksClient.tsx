@@ -0,0 +1,418 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  ArrowLeft,
+  Webhook,
+  Plus,
+  Pencil,
+  Trash2,
+  Send,
+  Loader2,
+  Copy,
+  Eye,
+  EyeOff,
+  KeyRound,
+  RotateCcw,
+} from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Modal } from '@/components/ui/modal';
+import {
+  deleteWebhookSubscription,
+  getWebhookDeliveries,
+  getWebhookSubscriptions,
+  replayWebhook,
+  rotateWebhookSecret,
+  saveWebhookSubscription,
+  sendWebhookTestNow,
+  setWebhookSubscriptionActive,
+} from '@/lib/webhooks/actions';
+import {
+  WEBHOOK_EVENT_KEYS,
+  WEBHOOK_EVENT_TYPES,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookEventType,
+  type WebhookSubscription,
+} from '@/lib/webhooks/events';
+
+interface WebhooksClientProps {
+  displayName: string;
+  initialSubscriptions: WebhookSubscription[];
+  initialDeliveries: WebhookDelivery[];
+}
+
+interface SubscriptionForm {
+  id?: string;
+  name: string;
+  url: string;
+  event_types: WebhookEventType[];
+  is_active: boolean;
+}
+
+const EMPTY_FORM: SubscriptionForm = {
+  name: '',
+  url: '',
+  event_types: ['sale.created'],
+  is_active: true,
+};
+
+const STATUS_BADGES: Record<WebhookDeliveryStatus, { label: string; className: string }> = {
+  delivered: { label: 'Delivered', className: 'bg-green-100 text-green-700' },
+  pending: { label: 'Retrying', className: 'bg-amber-100 text-amber-700' },
+  sending: { label: 'Sending', className: 'bg-blue-100 text-blue-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700' },
+};
+
+const sentAt = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-NG', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const eventLabel = (type: string) => WEBHOOK_EVENT_TYPES[type as WebhookEventType]?.label ?? type;
+
+const maskSecret = (secret: string) => `${secret.slice(0, 10)}${'•'.repeat(12)}`;
+
+function toForm(subscription: WebhookSubscription): SubscriptionForm {
+  return {
+    id: subscription.id,
+    name: subscription.name,
+    url: subscription.url,
+    event_types: subscription.event_types,
+    is_active: subscription.is_active,
+  };
+}
+
+export default function WebhooksClient({ displayName, initialSubscriptions, initialDeliveries }: WebhooksClientProps) {
+  const router = useRouter();
+  const [subscriptions, setSubscriptions] = useState(initialSubscriptions);
+  const [deliveries, setDeliveries] = useState(initialDeliveries);
+  const [form, setForm] = useState<SubscriptionForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [revealed, setRevealed] = useState<string | null>(null);
+
+  const subscriptionNames = new Map(subscriptions.map(subscription => [subscription.id, subscription.name]));
+
+  const updateForm = (changes: Partial<SubscriptionForm>) => setForm(prev => (prev ? { ...prev, ...changes } : prev));
+
+  const toggleEvent = (type: WebhookEventType, checked: boolean) =>
+    setForm(prev => prev && {
+      ...prev,
+      event_types: checked ? [...prev.event_types, type] : prev.event_types.filter(existing => existing !== type),
+    });
+
+  const refresh = async () => {
+    const [nextSubscriptions, nextDeliveries] = await Promise.all([getWebhookSubscriptions(), getWebhookDeliveries()]);
+    setSubscriptions(nextSubscriptions);
+    setDeliveries(nextDeliveries);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setSaving(true);
+    try {
+      const result = await saveWebhookSubscription(form);
+      if (result.success) {
+        toast.success(form.id ? 'Webhook updated' : 'Webhook created');
+        setForm(null);
+        await refresh();
+      } else {
+        toast.error(result.error || 'Failed to save the webhook');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Runs an action against one subscription or delivery, then reloads both lists
+  const run = async (id: string, action: () => Promise<{ success: boolean; error?: string }>, success: string, failure: string) => {
+    setBusy(id);
+    try {
+      const result = await action();
+      if (result.success) {
+        if (success) toast.success(success);
+      } else {
+        toast.error(result.error || failure);
+      }
+      await refresh();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = (subscription: WebhookSubscription) => {
+    if (!confirm(`Stop sending events to ${subscription.name}? Its delivery log is deleted too.`)) return;
+    return run(subscription.id, () => deleteWebhookSubscription(subscription.id), 'Webhook deleted', 'Failed to delete the webhook');
+  };
+
+  const handleRotate = (subscription: WebhookSubscription) => {
+    if (!confirm(`Give ${subscription.name} a new secret? The receiver will reject deliveries until it has the new one.`)) return;
+    return run(subscription.id, () => rotateWebhookSecret(subscription.id), 'Secret rotated', 'Failed to rotate the secret');
+  };
+
+  const handleCopy = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      toast.success('Secret copied');
+    } catch {
+      toast.error('Could not copy the secret');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Mobile-First Header with Back Button */}
+      <div className="bg-gradient-to-r from-orange-500 to-amber-500 text-white">
+        <div className="px-3 sm:px-4 py-4 sm:py-6">
+          <div className="flex items-center gap-2 sm:gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.back()}
+              className="h-10 w-10 p-0 text-white hover:bg-white/20 rounded-xl touch-manipulation flex-shrink-0"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="bg-white/20 p-2 sm:p-3 rounded-xl flex-shrink-0">
+              <Webhook className="h-5 w-5 sm:h-6 sm:w-6" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-lg sm:text-2xl font-bold truncate">Webhooks</h1>
+              <p className="text-orange-100 text-xs sm:text-sm truncate">
+                Send bakery events to other apps • {displayName}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content Area - Full Screen Scrollable */}
+      <div className="flex-1 overflow-y-auto bg-gradient-to-b from-orange-50/30 to-amber-50/30">
+        <div className="px-3 sm:px-4 py-4 space-y-4 max-w-2xl mx-auto w-full">
+          <Button type="button" className="w-full" onClick={() => setForm(EMPTY_FORM)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New webhook
+          </Button>
+
+          <p className="text-xs text-gray-500">
+            Each event is POSTed as JSON and signed with the webhook&apos;s secret in the X-HomeBake-Signature header
+            (t=timestamp,v1=HMAC-SHA256 of &quot;timestamp.body&quot;). Anything the receiver does not answer with a
+            2xx is tried again after 1 minute, 5 minutes, 30 minutes, 2 hours and 12 hours.
+          </p>
+
+          {subscriptions.length === 0 ? (
+            <div className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm text-sm text-gray-500 text-center">
+              No webhooks yet
+            </div>
+          ) : (
+            <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm">
+              <ul className="divide-y divide-gray-100">
+                {subscriptions.map(subscription => (
+                  <li key={subscription.id} className="py-3 text-sm space-y-1">
+                    <div className="flex items-center gap-2">
+                      <div className="flex-1 min-w-0">
+                        <div className={`font-medium ${subscription.is_active ? 'text-gray-900' : 'text-gray-400'}`}>
+                          {subscription.name}
+                        </div>
+                        <div className="text-xs text-gray-600 truncate">{subscription.url}</div>
+                      </div>
+                      {busy === subscription.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                      ) : (
+                        <>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => run(subscription.id, () => sendWebhookTestNow(subscription.id), `Test delivered to ${subscription.name}`, 'The test was not delivered')}
+                            aria-label={`Send a test event to ${subscription.name}`}
+                          >
+                            <Send className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setForm(toForm(subscription))}
+                            aria-label={`Edit ${subscription.name}`}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(subscription)}
+                            aria-label={`Delete ${subscription.name}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                          <Checkbox
+                            checked={subscription.is_active}
+                            onChange={(e) => run(subscription.id, () => setWebhookSubscriptionActive(subscription.id, e.target.checked), '', 'Failed to update the webhook')}
+                            aria-label={`${subscription.name} switched on`}
+                          />
+                        </>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {subscription.event_types.map(type => (
+                        <span key={type} className="text-xs px-2 py-0.5 rounded-full bg-orange-50 text-orange-700">
+                          {type}
+                        </span>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-1 text-xs text-gray-500">
+                      <KeyRound className="h-3 w-3 flex-shrink-0" />
+                      <code className="flex-1 min-w-0 truncate">
+                        {revealed === subscription.id ? subscription.secret : maskSecret(subscription.secret)}
+                      </code>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setRevealed(revealed === subscription.id ? null : subscription.id)}
+                        aria-label={revealed === subscription.id ? 'Hide secret' : 'Show secret'}
+                      >
+                        {revealed === subscription.id ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleCopy(subscription.secret)}
+                        aria-label={`Copy the secret for ${subscription.name}`}
+                      >
+                        <Copy className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRotate(subscription)}
+                        disabled={busy === subscription.id}
+                      >
+                        Rotate
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          <section className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm">
+            <h2 className="font-semibold text-gray-900 mb-2">Delivery log</h2>
+            {deliveries.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing sent yet</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {deliveries.map(delivery => (
+                  <li key={delivery.id} className="py-2 text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${STATUS_BADGES[delivery.status].className}`}>
+                        {STATUS_BADGES[delivery.status].label}
+                      </span>
+                      <span className="flex-1 min-w-0 truncate text-gray-900">
+                        {eventLabel(delivery.event_type)} • {subscriptionNames.get(delivery.subscription_id) ?? 'Deleted webhook'}
+                      </span>
+                      {delivery.created_at && (
+                        <span className="text-xs text-gray-400 flex-shrink-0">{sentAt(delivery.created_at)}</span>
+                      )}
+                      {busy === delivery.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                      ) : (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => run(delivery.id, () => replayWebhook(delivery.id), 'Delivery replayed', 'The replay was not delivered')}
+                          disabled={delivery.status === 'pending' || delivery.status === 'sending'}
+                          aria-label={`Replay ${eventLabel(delivery.event_type)}`}
+                          title="Send again"
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {delivery.attempts} of {delivery.max_attempts} attempts
+                      {delivery.last_status_code !== null && ` • HTTP ${delivery.last_status_code}`}
+                      {delivery.status === 'pending' && ` • next try ${sentAt(delivery.next_attempt_at)}`}
+                      {delivery.replay_of && ' • replay'}
+                    </div>
+                    {delivery.last_error && <div className="text-xs text-red-600">{delivery.last_error}</div>}
+                    {delivery.response_body && delivery.status !== 'delivered' && (
+                      <div className="text-xs text-gray-400 truncate font-mono">{delivery.response_body}</div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+
+      <Modal
+        isOpen={!!form}
+        onClose={() => setForm(null)}
+        title={form?.id ? 'Edit webhook' : 'New webhook'}
+        footer={
+          <Button
+            type="button"
+            className="w-full"
+            onClick={handleSave}
+            disabled={saving || !form?.name.trim() || !form?.url.trim() || form.event_types.length === 0}
+          >
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        }
+      >
+        {form && (
+          <div className="space-y-3 text-sm">
+            <Input
+              placeholder="Name, e.g. Accountant"
+              maxLength={80}
+              value={form.name}
+              onChange={(e) => updateForm({ name: e.target.value })}
+            />
+            <Input
+              type="url"
+              placeholder="https://example.com/homebake-webhook"
+              value={form.url}
+              onChange={(e) => updateForm({ url: e.target.value })}
+            />
+
+            <div className="space-y-2">
+              <span className="text-xs text-gray-500">Events</span>
+              {WEBHOOK_EVENT_KEYS.map(type => (
+                <div key={type}>
+                  <Checkbox
+                    label={`${WEBHOOK_EVENT_TYPES[type].label} (${type})`}
+                    checked={form.event_types.includes(type)}
+                    onChange={(e) => toggleEvent(type, e.target.checked)}
+                  />
+                  <p className="text-xs text-gray-500 ml-6">{WEBHOOK_EVENT_TYPES[type].description}</p>
+                </div>
+              ))}
+            </div>
+
+            {!form.id && (
+              <p className="text-xs text-gray-500">A signing secret is created when you save. Give it to the receiver.</p>
+            )}
+
+            <Checkbox
+              label="Switched on"
+              checked={form.is_active}
+              onChange={(e) => updateForm({ is_active: e.target.checked })}
+            />
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { redirect } from 'next/navigation';
+import { getAuthenticatedUser, hasPermission } from '@/lib/auth/auth-utils';
+import { getWebhookDeliveries, getWebhookSubscriptions } from '@/lib/webhooks/actions';
+import WebhooksClient from './WebhooksClient';
+
+// Force dynamic rendering for authentication
+export const dynamic = 'force-dynamic';
+
+export default async function WebhooksPage() {
+  const user = await getAuthenticatedUser();
+
+  if (!user) {
+    return redirect('/login');
+  }
+
+  if (!(await hasPermission('webhooks.manage'))) {
+    return redirect('/dashboard');
+  }
+
+  const [subscriptions, deliveries] = await Promise.all([
+    getWebhookSubscriptions(),
+    getWebhookDeliveries(),
+  ]);
+
+  return (
+    <WebhooksClient
+      displayName={user.name}
+      initialSubscriptions={subscriptions}
+      initialDeliveries={deliveries}
+    />
+  );
+}
@@ -20,6 +20,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '../shared/Card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import type { ShiftType } from '@/types';
 
 interface ProductionBatch {
   id: string;
@@ -39,7 +40,7 @@ interface ProductionTarget {
   targetQuantity: number;
   currentQuantity: number;
   completion: number;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
 }
 
 interface ManagerDashboardProps {
@@ -55,7 +56,7 @@ interface ManagerDashboardProps {
       averageProductionTime: number;
       qualityScore: number;
       staffUtilization: number;
-      currentShift: 'morning' | 'night';
+      currentShift: ShiftType;
     };
     alerts: {
       activeBatches: number;
@@ -24,9 +24,10 @@ import {
 import { useBatches } from '@/hooks/use-batches';
 import { Batch as BatchType } from '@/lib/batches/actions';
 import { useMobileNotifications, NotificationHelpers } from '@/components/ui/mobile-notifications-fixed';
+import type { ShiftType } from '@/types';
 
 interface BatchSystemProps {
-  currentShift: 'morning' | 'night';
+  currentShift: ShiftType;
   managerId: string;
   breadTypes: Array<{ id: string; name: string; unit_price: number }>;
 }
@@ -9,8 +9,10 @@ import {
 import { motion } from 'framer-motion';
 import { useMemo } from 'react';
 import { MetricCard } from '@/components/ui/card';
+import { ProductionVariancePanel } from '@/components/production/production-variance-panel';
 import { formatNigeriaDate, getRelativeTime } from '@/lib/utils/timezone';
 import { cn } from '@/lib/utils';
+import type { ShiftType } from '@/types';
 
 interface ProductionBatch {
   id: string;
@@ -29,7 +31,7 @@ interface ProductionTarget {
   targetQuantity: number;
   currentQuantity: number;
   completion: number;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
 }
 
 interface ManagerProductionOverviewProps {
@@ -40,7 +42,7 @@ interface ManagerProductionOverviewProps {
     averageProductionTime: number; // in minutes
     qualityScore: number; // percentage
     staffUtilization: number; // percentage
-    currentShift: 'morning' | 'night';
+    currentShift: ShiftType;
     targets: ProductionTarget[];
     lastUpdate: string;
   };
@@ -346,6 +348,11 @@ export function ManagerProductionOverview({ data, loading = false }: ManagerProd
           ))}
         </div>
       </motion.div>
+
+      {/* Planned vs Actual */}
+      <motion.div variants={itemVariants} initial="hidden" animate="visible">
+        <ProductionVariancePanel defaultDays={7} hideManagerView />
+      </motion.div>
     </div>
   );
 }
@@ -19,6 +19,7 @@ import { motion } from 'framer-motion';
 import { useState } from 'react';
 import Link from 'next/link';
 import { cn } from '@/lib/utils';
+import type { ShiftType } from '@/types';
 
 interface ManagerQuickActionsProps {
   alerts?: {
@@ -27,7 +28,7 @@ interface ManagerQuickActionsProps {
     staffIssues: number;
     inventoryAlerts: number;
   };
-  currentShift?: 'morning' | 'night';
+  currentShift?: ShiftType;
 }
 
 export function ManagerQuickActions({ alerts, currentShift = 'morning' }: ManagerQuickActionsProps) {
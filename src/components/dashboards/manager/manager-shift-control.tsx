@@ -1,14 +1,24 @@
 "use client";
 
 import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { useShift } from '@/contexts/ShiftContext';
 import { useData } from '@/contexts/DataContext';
-import { nigeriaTime, formatNigeriaDate } from '@/lib/utils/timezone';
+import { useShiftHandover } from '@/hooks/use-shift-handover';
+import { useShiftSchedule } from '@/hooks/use-shift-schedule';
+import { formatNigeriaDate } from '@/lib/utils/timezone';
+import { getCurrentShiftInfo } from '@/lib/utils/shift-utils';
+import { getAdjacentShiftKey, getAllShiftDefinitions, getShiftLabel } from '@/lib/shift-schedule/schedule';
+import { acknowledgeShiftHandover, getShiftHandoverDraft, submitShiftHandover } from '@/lib/shift-handovers/actions';
+import type { ShiftHandoverDraft } from '@/lib/shift-handovers/handover';
+import type { ShiftType } from '@/types';
 import { 
   Clock, 
   RotateCcw, 
@@ -17,7 +27,9 @@ import {
   AlertCircle,
   CheckCircle,
   TrendingUp,
-  Users
+  Users,
+  History,
+  Loader2
 } from 'lucide-react';
 
 interface ManagerShiftControlProps {
@@ -25,7 +37,7 @@ interface ManagerShiftControlProps {
 }
 
 interface ShiftSummary {
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   date: string;
   totalProduction: number;
   completedBatches: number;
@@ -35,12 +47,27 @@ interface ShiftSummary {
   staffCount: number;
 }
 
-export function ManagerShiftControl({ }: ManagerShiftControlProps) {
-  const { currentShift, toggleShift } = useShift();
+export function ManagerShiftControl({ currentUserId }: ManagerShiftControlProps) {
+  const router = useRouter();
+  const { currentShift, setCurrentShift } = useShift();
+  const { schedule } = useShiftSchedule();
   const { productionLogs } = useData();
+  const { latest: latestHandover, switchState, refetch: refetchHandover } = useShiftHandover(currentShift);
   const [showHandover, setShowHandover] = useState(false);
   const [handoverNotes, setHandoverNotes] = useState('');
+  const [handoverDraft, setHandoverDraft] = useState<ShiftHandoverDraft | null>(null);
+  const [stockCounts, setStockCounts] = useState<Record<string, string>>({});
+  const [qualityIssues, setQualityIssues] = useState('');
+  const [confirmedBatches, setConfirmedBatches] = useState(false);
+  const [confirmedStock, setConfirmedStock] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [acknowledgementNotes, setAcknowledgementNotes] = useState('');
+  const [acknowledging, setAcknowledging] = useState(false);
   const [previousShiftSummary, setPreviousShiftSummary] = useState<ShiftSummary | null>(null);
+  const pendingHandover = latestHandover?.status === 'pending' ? latestHandover : null;
+  const shiftName = (shift: ShiftType) => getShiftLabel(schedule, shift);
+  const followingShift = getAdjacentShiftKey(schedule, currentShift);
+  const scheduledShift = getCurrentShiftInfo(schedule).currentShift;
 
   // Calculate current shift metrics
   const currentShiftData = React.useMemo(() => {
@@ -69,11 +96,11 @@ export function ManagerShiftControl({ }: ManagerShiftControlProps) {
       if (!productionLogs) return;
 
       const today = new Date().toISOString().split('T')[0];
-      const previousShift = currentShift === 'morning' ? 'night' : 'morning';
+      const previousShift = getAdjacentShiftKey(schedule, currentShift, -1);
       
-      // For morning shift, get previous night's data
-      // For night shift, get previous morning's data (same day)
-      const targetDate = currentShift === 'morning' 
+      // The day's first shift follows the last shift of the previous day;
+      // any other shift follows one from the same day
+      const targetDate = getAllShiftDefinitions(schedule)[0]?.key === currentShift
         ? new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0]
         : today;
 
@@ -85,29 +112,100 @@ export function ManagerShiftControl({ }: ManagerShiftControlProps) {
         const totalProduction = previousShiftLogs.reduce((sum: number, log) => sum + log.quantity, 0);
       const completedBatches = previousShiftLogs.length;
 
+      // The handover this shift was started from, if there was one
+      const handover = latestHandover?.to_shift === currentShift ? latestHandover : null;
+
       setPreviousShiftSummary({
         shift: previousShift,
         date: targetDate,
         totalProduction,
         completedBatches,
-        pendingBatches: 0, // Would be calculated from actual batch status
-        notes: '', // Would be loaded from database
-        handoverTime: formatNigeriaDate(new Date().toISOString(), 'h:mm a'),
+        pendingBatches: handover?.pending_batches ?? 0,
+        notes: handover?.notes ?? '',
+        handoverTime: formatNigeriaDate(handover?.created_at ?? new Date().toISOString(), 'h:mm a'),
         staffCount: 3 // Simulated - would be actual staff count
       });
     };
 
     loadPreviousShiftSummary();
-  }, [productionLogs, currentShift]);
+  }, [productionLogs, currentShift, latestHandover, schedule]);
+
+  const openHandover = async () => {
+    setShowHandover(true);
+    setHandoverDraft(null);
+    setConfirmedBatches(false);
+    setConfirmedStock(false);
+    try {
+      const draft = await getShiftHandoverDraft(currentShift);
+      setHandoverDraft(draft);
+      setStockCounts(Object.fromEntries(draft.remaining_stock.map(item => [item.bread_type_id, String(item.quantity)])));
+    } catch (error) {
+      console.error('❌ Error loading handover:', error);
+      toast.error('Failed to load the shift for handover');
+      setShowHandover(false);
+    }
+  };
+
+  // Switching needs the current shift handed over and acknowledged first
+  const handleSwitchShift = () => {
+    if (switchState.allowed) {
+      setCurrentShift(followingShift);
+    } else if (switchState.reason === 'handover_required') {
+      toast.info(`Hand over the ${shiftName(currentShift)} shift before switching`);
+      openHandover();
+    }
+  };
+
+  const handleAcknowledge = async () => {
+    if (!pendingHandover) return;
+    setAcknowledging(true);
+    try {
+      const result = await acknowledgeShiftHandover({
+        handover_id: pendingHandover.id,
+        notes: acknowledgementNotes || null,
+      });
+      if (result.success) {
+        setAcknowledgementNotes('');
+        setCurrentShift(pendingHandover.to_shift);
+        await refetchHandover();
+      } else {
+        toast.error(result.error || 'Failed to acknowledge the handover');
+      }
+    } finally {
+      setAcknowledging(false);
+    }
+  };
 
   const handleShiftHandover = async () => {
+    if (!handoverDraft) return;
+    setSubmitting(true);
     try {
       // Import the necessary functions
       const { checkAndSaveBatchesToAllBatches, deleteAllBatches } = await import('@/lib/batches/actions');
       
       console.log(`🔄 Starting end shift process for ${currentShift} shift`);
+
+      // Step 1: Record the handover for the incoming manager
+      const handover = await submitShiftHandover({
+        from_shift: currentShift,
+        total_production: handoverDraft.total_production,
+        completed_batches: handoverDraft.completed_batches,
+        pending_batches: handoverDraft.pending_batches,
+        remaining_stock: handoverDraft.remaining_stock.map(item => ({
+          ...item,
+          quantity: Number(stockCounts[item.bread_type_id] || 0),
+        })),
+        quality_issues: qualityIssues.split('\n').map(issue => issue.trim()).filter(Boolean),
+        notes: handoverNotes || null,
+        confirmed_batches: confirmedBatches,
+        confirmed_stock: confirmedStock,
+      });
+      if (!handover.success) {
+        toast.error(handover.error || 'Failed to save the handover');
+        return;
+      }
       
-      // Step 1: Save batches to all_batches (with duplicate checking)
+      // Step 2: Save batches to all_batches (with duplicate checking)
       const saveResult = await checkAndSaveBatchesToAllBatches(currentShift);
       
       if (saveResult.needsSaving) {
@@ -116,24 +214,25 @@ export function ManagerShiftControl({ }: ManagerShiftControlProps) {
         console.log(`ℹ️ All ${currentShift} shift batches already saved to all_batches`);
       }
       
-      // Step 2: Clear batches for current shift using production-grade server action
+      // Step 3: Clear batches for current shift using production-grade server action
       await deleteAllBatches(currentShift);
       console.log(`🧹 Cleared ${currentShift} shift batches successfully`);
       
-      // Step 3: Clear form and close modal
+      // Step 4: Clear form and close modal
       setShowHandover(false);
       setHandoverNotes('');
+      setQualityIssues('');
       
-      // Step 4: Switch to next shift
-      toggleShift();
-      
-      // Show success feedback
-      console.log('✅ Shift handover completed successfully');
+      // Step 5: The shift switches once the incoming manager acknowledges
+      await refetchHandover();
+      toast.success(`${shiftName(currentShift)} shift handed over`);
+      console.log('✅ Shift handover submitted successfully');
       
     } catch (error) {
       console.error('❌ Error in shift handover:', error);
-      // In a real implementation, show error to user
-      // toast.error(error instanceof Error ? error.message : 'Failed to complete shift handover');
+      toast.error(error instanceof Error ? error.message : 'Failed to complete shift handover');
+    } finally {
+      setSubmitting(false);
     }
   };
 
@@ -150,7 +249,7 @@ export function ManagerShiftControl({ }: ManagerShiftControlProps) {
               <div>
                 <div className="flex items-center gap-2">
                   <h3 className="text-lg font-semibold">
-                    {currentShift === 'morning' ? 'Morning Shift' : 'Night Shift'}
+                    {shiftName(currentShift)} Shift
                   </h3>
                 </div>
                 <p className="text-sm text-muted-foreground">
@@ -164,7 +263,8 @@ export function ManagerShiftControl({ }: ManagerShiftControlProps) {
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setShowHandover(true)}
+              onClick={openHandover}
+              disabled={!!pendingHandover || switchState.allowed}
               className="flex items-center gap-2"
             >
               <FileText className="h-4 w-4" />
@@ -174,12 +274,24 @@ export function ManagerShiftControl({ }: ManagerShiftControlProps) {
             <Button
               variant="outline"
               size="sm"
-              onClick={toggleShift}
+              onClick={handleSwitchShift}
+              disabled={!!pendingHandover}
+              title={pendingHandover ? 'Waiting for the incoming manager to acknowledge the handover' : undefined}
               className="flex items-center gap-2"
             >
               <RotateCcw className="h-4 w-4" />
               Switch Shift
             </Button>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.push('/dashboard/production/handovers')}
+              className="flex items-center gap-2"
+            >
+              <History className="h-4 w-4" />
+              History
+            </Button>
           </div>
         </div>
 
@@ -208,10 +320,10 @@ export function ManagerShiftControl({ }: ManagerShiftControlProps) {
               </div>
               <div className="text-center">
                 <div className="text-2xl font-bold text-orange-600">
-                  {nigeriaTime.getCurrentShift() === currentShift ? 'Active' : 'Inactive'}
+                  {scheduledShift === currentShift ? 'Active' : 'Inactive'}
                 </div>
                 <div className="text-xs text-muted-foreground">
-                  {nigeriaTime.getCurrentShift() === currentShift ? 'On Schedule' : 'Off Schedule'}
+                  {scheduledShift === currentShift ? 'On Schedule' : 'Off Schedule'}
                 </div>
               </div>
             </div>
@@ -219,13 +331,94 @@ export function ManagerShiftControl({ }: ManagerShiftControlProps) {
         )}
       </Card>
 
+      {/* Handover waiting for the incoming manager */}
+      {pendingHandover && (
+        <Card className="p-6 border-amber-200 bg-amber-50">
+          <div className="flex items-center gap-2 mb-4">
+            <AlertCircle className="h-5 w-5 text-amber-600" />
+            <h3 className="text-lg font-semibold text-amber-900">
+              {shiftName(pendingHandover.from_shift)} shift handed over by {pendingHandover.manager_name}
+            </h3>
+          </div>
+
+          <div className="space-y-3 text-sm">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              <div>Total Production: <span className="font-medium">{pendingHandover.total_production} units</span></div>
+              <div>Completed Batches: <span className="font-medium">{pendingHandover.completed_batches}</span></div>
+              <div>Pending Batches: <span className="font-medium">{pendingHandover.pending_batches}</span></div>
+            </div>
+
+            {pendingHandover.pending_batch_details.length > 0 && (
+              <div className="bg-white p-3 rounded-md border">
+                <div className="font-medium mb-1">Batches still in progress:</div>
+                <ul className="text-muted-foreground space-y-0.5">
+                  {pendingHandover.pending_batch_details.map(batch => (
+                    <li key={batch.batch_id}>
+                      #{batch.batch_number} {batch.bread_type_name}
+                      {batch.target_quantity !== null && ` • target ${batch.target_quantity}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {pendingHandover.remaining_stock.length > 0 && (
+              <div className="bg-white p-3 rounded-md border">
+                <div className="font-medium mb-1">Stock handed over:</div>
+                <ul className="text-muted-foreground space-y-0.5">
+                  {pendingHandover.remaining_stock.map(item => (
+                    <li key={item.bread_type_id}>{item.bread_type_name}: {item.quantity}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {pendingHandover.quality_issues.length > 0 && (
+              <div className="bg-white p-3 rounded-md border border-red-200">
+                <div className="font-medium mb-1 text-red-700">Quality issues:</div>
+                <ul className="list-disc pl-5 text-red-700 space-y-0.5">
+                  {pendingHandover.quality_issues.map((issue, index) => <li key={index}>{issue}</li>)}
+                </ul>
+              </div>
+            )}
+
+            {pendingHandover.notes && (
+              <div className="bg-white p-3 rounded-md border">
+                <div className="font-medium mb-1">Handover Notes:</div>
+                <div className="text-muted-foreground whitespace-pre-line">{pendingHandover.notes}</div>
+              </div>
+            )}
+
+            {pendingHandover.manager_id === currentUserId && (
+              <p className="text-amber-800">
+                Waiting for the incoming manager to acknowledge. Only acknowledge it yourself if you are also running
+                the {shiftName(pendingHandover.to_shift)} shift.
+              </p>
+            )}
+
+            <Textarea
+              value={acknowledgementNotes}
+              onChange={(e) => setAcknowledgementNotes(e.target.value)}
+              placeholder="Anything you found different from the handover (optional)"
+              rows={2}
+              maxLength={1000}
+              className="w-full bg-white"
+            />
+            <Button onClick={handleAcknowledge} disabled={acknowledging} className="w-full">
+              {acknowledging && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Acknowledge & Start {shiftName(pendingHandover.to_shift)} Shift
+            </Button>
+          </div>
+        </Card>
+      )}
+
       {/* Previous Shift Summary */}
       {previousShiftSummary && (
         <Card className="p-6">
           <div className="flex items-center gap-2 mb-4">
             <TrendingUp className="h-5 w-5 text-muted-foreground" />
             <h3 className="text-lg font-semibold">
-              Previous {previousShiftSummary.shift === 'morning' ? 'Morning' : 'Night'} Shift Summary
+              Previous {shiftName(previousShiftSummary.shift)} Shift Summary
             </h3>
                          <Badge className="text-xs border border-border bg-background">
                {formatNigeriaDate(previousShiftSummary.date, 'MMM d')}
@@ -280,43 +473,118 @@ export function ManagerShiftControl({ }: ManagerShiftControlProps) {
             <h3 className="text-lg font-semibold text-orange-900">End Shift & Handover</h3>
           </div>
 
-          <div className="space-y-4">
-            <div>
-              <label className="text-sm font-medium mb-2 block">
-                Handover Notes for Next Shift:
-              </label>
-              <Textarea
-                value={handoverNotes}
-                onChange={(e) => setHandoverNotes(e.target.value)}
-                placeholder="Enter any important information for the next shift (pending batches, issues, special instructions...)"
-                rows={4}
-                className="w-full"
-              />
+          {!handoverDraft ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading shift…
             </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="bg-white p-4 rounded-md border space-y-2">
+                <h4 className="font-medium">Pending Batches:</h4>
+                {handoverDraft.pending_batches.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No batches in progress</p>
+                ) : (
+                  <ul className="text-sm text-muted-foreground space-y-0.5">
+                    {handoverDraft.pending_batches.map(batch => (
+                      <li key={batch.batch_id}>
+                        #{batch.batch_number} {batch.bread_type_name}
+                        {batch.target_quantity !== null && ` • target ${batch.target_quantity}`}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <Checkbox
+                  label="I have checked the batches still in progress"
+                  checked={confirmedBatches}
+                  onChange={(e) => setConfirmedBatches(e.target.checked)}
+                />
+              </div>
 
-            <div className="bg-white p-4 rounded-md border">
-              <h4 className="font-medium mb-2">Shift Summary:</h4>
-              <div className="grid grid-cols-2 gap-4 text-sm">
-                <div>Total Production: <span className="font-medium">{currentShiftData?.totalProduction || 0} units</span></div>
-                <div>Completed Batches: <span className="font-medium">{currentShiftData?.completedBatches || 0}</span></div>
-                                 <div>Shift Duration: <span className="font-medium">Active</span></div>
-                <div>Handover Time: <span className="font-medium">{formatNigeriaDate(new Date().toISOString(), 'h:mm a')}</span></div>
+              <div className="bg-white p-4 rounded-md border space-y-2">
+                <h4 className="font-medium">Remaining Stock:</h4>
+                {handoverDraft.remaining_stock.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No stock left</p>
+                ) : (
+                  <div className="space-y-2">
+                    {handoverDraft.remaining_stock.map(item => (
+                      <div key={item.bread_type_id} className="flex items-center gap-2 text-sm">
+                        <span className="flex-1 min-w-0 truncate">{item.bread_type_name}</span>
+                        <Input
+                          type="number"
+                          min={0}
+                          inputMode="numeric"
+                          value={stockCounts[item.bread_type_id] ?? ''}
+                          onChange={(e) => setStockCounts(prev => ({ ...prev, [item.bread_type_id]: e.target.value }))}
+                          className="w-24"
+                          aria-label={`${item.bread_type_name} counted`}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <Checkbox
+                  label="I have counted the stock being handed over"
+                  checked={confirmedStock}
+                  onChange={(e) => setConfirmedStock(e.target.checked)}
+                />
+              </div>
+
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  Quality Issues (one per line):
+                </label>
+                <Textarea
+                  value={qualityIssues}
+                  onChange={(e) => setQualityIssues(e.target.value)}
+                  placeholder="e.g. Oven 2 running hot, flour delivery short"
+                  rows={3}
+                  className="w-full"
+                />
               </div>
-            </div>
 
-            <div className="flex gap-2 pt-2">
-              <Button onClick={handleShiftHandover} className="flex-1">
-                Complete Handover & End Shift
-              </Button>
-              <Button 
-                variant="outline" 
-                onClick={() => setShowHandover(false)}
-                className="flex-1"
-              >
-                Cancel
-              </Button>
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  Handover Notes for Next Shift:
+                </label>
+                <Textarea
+                  value={handoverNotes}
+                  onChange={(e) => setHandoverNotes(e.target.value)}
+                  placeholder="Enter any important information for the next shift (pending batches, issues, special instructions...)"
+                  rows={4}
+                  className="w-full"
+                />
+              </div>
+
+              <div className="bg-white p-4 rounded-md border">
+                <h4 className="font-medium mb-2">Shift Summary:</h4>
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>Total Production: <span className="font-medium">{handoverDraft.total_production} units</span></div>
+                  <div>Completed Batches: <span className="font-medium">{handoverDraft.completed_batches}</span></div>
+                                   <div>Shift Duration: <span className="font-medium">Active</span></div>
+                  <div>Handover Time: <span className="font-medium">{formatNigeriaDate(new Date().toISOString(), 'h:mm a')}</span></div>
+                </div>
+              </div>
+
+              <div className="flex gap-2 pt-2">
+                <Button
+                  onClick={handleShiftHandover}
+                  disabled={submitting || !confirmedBatches || !confirmedStock}
+                  className="flex-1"
+                >
+                  {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Hand Over to {shiftName(followingShift)} Shift
+                </Button>
+                <Button 
+                  variant="outline" 
+                  onClick={() => setShowHandover(false)}
+                  className="flex-1"
+                >
+                  Cancel
+                </Button>
+              </div>
             </div>
-          </div>
+          )}
         </Card>
       )}
 
@@ -327,7 +595,8 @@ export function ManagerShiftControl({ }: ManagerShiftControlProps) {
           <span className="font-medium text-blue-900">Shift Management:</span>
         </div>
         <p className="mt-1 text-blue-800">
-          End Shift will save current batches to reports and clear only the current shift&apos;s batches.
+          End Shift hands the shift over to the next manager, saves current batches to reports and clears only the
+          current shift&apos;s batches. Switching shift waits until the handover is acknowledged.
         </p>
       </div>
     </div>
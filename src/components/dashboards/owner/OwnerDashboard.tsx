@@ -21,6 +21,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useData } from '@/contexts/DataContext';
 import { formatCurrency } from '@/lib/utils';
+import type { ShiftType } from '@/types';
 
 interface ActivityItem {
   id: string;
@@ -49,7 +50,7 @@ interface OwnerDashboardProps {
       lowStockItems: number;
       staffOnline: number;
       totalStaff: number;
-      currentShift: 'morning' | 'night';
+      currentShift: ShiftType;
       lastUpdate: string;
     };
     alerts: {
@@ -6,6 +6,9 @@ import { useSmartNavigation } from '@/hooks/use-smart-navigation';
 import { OwnerHeader } from '@/components/layout/owner-header';
 import { OwnerSidebar } from '@/components/layout/owner-sidebar';
 import { useOwnerDashboard } from '@/hooks/use-owner-dashboard';
+import { useBranches, useSelectedBranch } from '@/hooks/use-branches';
+import { BranchSelector } from './branch-selector';
+import { LowIngredientsAlert } from '@/components/ingredients/low-ingredients-alert';
 import { useReportCounters } from '@/hooks/use-report-counters';
 import { useActivities } from '@/hooks/use-live-activities';
 import { formatCurrencyNGN } from '@/lib/utils/currency';
@@ -20,33 +23,16 @@ interface OwnerDashboardClientProps {
 
 export default function OwnerDashboardClient({ displayName, user }: OwnerDashboardClientProps) {
   const { smartPush } = useSmartNavigation();
-  const { stats, isLoading, error, refetch } = useOwnerDashboard();
+  const { branches } = useBranches();
+  const { selectedBranch, branchId, setSelectedBranch } = useSelectedBranch();
+  const { stats, isLoading, error, refetch } = useOwnerDashboard(branchId);
+  const selectedBranchName = branches.find(branch => branch.id === branchId)?.name;
   const { totalCount } = useReportCounters();
   const { activities, isLoading: activitiesLoading, refetch: refetchActivities } = useActivities({
     pollingInterval: 30000, // Poll every 30 seconds
     enablePolling: true
   });
   
-  // Function to scroll to live activities section
-  const scrollToLiveActivities = () => {
-    const liveActivitiesElement = document.getElementById('live-activities');
-    if (liveActivitiesElement) {
-      liveActivitiesElement.scrollIntoView({
-        behavior: 'smooth',
-        block: 'start',
-        inline: 'nearest'
-      });
-      
-      // Add a subtle highlight effect after scrolling
-      setTimeout(() => {
-        liveActivitiesElement.classList.add('ring-2', 'ring-orange-300', 'ring-opacity-50', 'rounded-xl');
-        setTimeout(() => {
-          liveActivitiesElement.classList.remove('ring-2', 'ring-orange-300', 'ring-opacity-50', 'rounded-xl');
-        }, 2000);
-      }, 500);
-    }
-  };
-  
   // Removed complex push notification hook - using simple component instead
   
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -90,7 +76,6 @@ export default function OwnerDashboardClient({ displayName, user }: OwnerDashboa
       <OwnerHeader
         onMobileMenuToggle={() => setSidebarOpen(true)}
         isMobileMenuOpen={sidebarOpen}
-        onNotificationClick={scrollToLiveActivities}
       />
 
       {/* Main Content */}
@@ -98,7 +83,19 @@ export default function OwnerDashboardClient({ displayName, user }: OwnerDashboa
               {/* Welcome Section */}
               <div className="text-center py-4">
                 <h2 className="text-2xl font-bold text-gray-900 mb-2">Welcome back! 👋</h2>
-                <p className="text-gray-600">Here&apos;s your bakery overview</p>
+                <p className="text-gray-600">
+                  {selectedBranchName ? `Here's the ${selectedBranchName} overview` : 'Here\'s your bakery overview'}
+                </p>
+                {branches.length > 1 && (
+                  <div className="mt-3 max-w-xs mx-auto">
+                    <BranchSelector
+                      branches={branches}
+                      value={selectedBranch}
+                      onChange={setSelectedBranch}
+                      className="bg-white"
+                    />
+                  </div>
+                )}
                 {error && (
                   <div className="mt-2 text-sm text-red-600 bg-red-50 px-3 py-2 rounded-lg">
                     {error}
@@ -106,6 +103,8 @@ export default function OwnerDashboardClient({ displayName, user }: OwnerDashboa
                 )}
               </div>
 
+              <LowIngredientsAlert showBranch={branchId === null} />
+
               {/* Quick Stats */}
               <div className="grid grid-cols-2 gap-3">
                 <div className="bg-white rounded-xl p-4 text-center border border-gray-100 shadow-sm hover:shadow-md transition-shadow">
@@ -147,6 +146,23 @@ export default function OwnerDashboardClient({ displayName, user }: OwnerDashboa
                 </div>
               </div>
 
+              {/* Revenue by Branch - only while aggregating */}
+              {branchId === null && stats.revenueByBranch.length > 1 && (
+                <div className="bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-2">
+                  <div className="text-xs text-gray-500">Today&apos;s Revenue by Branch</div>
+                  {stats.revenueByBranch.map(branch => (
+                    <button
+                      key={branch.branchId}
+                      onClick={() => setSelectedBranch(branch.branchId)}
+                      className="w-full flex items-center justify-between text-sm hover:bg-gray-50 rounded-lg px-2 py-1 transition-colors"
+                    >
+                      <span className="text-gray-700">{branch.branchName}</span>
+                      <span className="font-semibold text-green-600">{formatCurrencyNGN(branch.revenue)}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+
               {/* Priority Action */}
               <div className="space-y-3">
                 <button 
@@ -238,7 +254,7 @@ export default function OwnerDashboardClient({ displayName, user }: OwnerDashboa
               </div>
 
               {/* New Push Notifications Component - Guaranteed Visible */}
-              <PushNotificationToggle userId={user.id} />
+              <PushNotificationToggle userId={user.id} canEditRouting />
 
               {/* Refresh Button */}
               <div className="text-center pt-4">
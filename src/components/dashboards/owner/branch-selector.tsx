@@ -0,0 +1,49 @@
+'use client';
+
+import React from 'react';
+import { Store } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ALL_BRANCHES } from '@/hooks/use-branches';
+import type { Branch } from '@/types';
+
+interface BranchSelectorProps {
+  branches: Branch[];
+  value: string;
+  onChange: (value: string) => void;
+  allowAll?: boolean;
+  allLabel?: string;
+  className?: string;
+}
+
+export function BranchSelector({
+  branches,
+  value,
+  onChange,
+  allowAll = true,
+  allLabel = 'All branches',
+  className,
+}: BranchSelectorProps) {
+  // Nothing to choose between with a single branch and no aggregate view
+  if (branches.length === 0 || (branches.length === 1 && !allowAll)) {
+    return null;
+  }
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className={className} aria-label="Select branch">
+        <div className="flex items-center gap-2 min-w-0">
+          <Store className="h-4 w-4 text-orange-500 flex-shrink-0" />
+          <SelectValue placeholder="Select branch" />
+        </div>
+      </SelectTrigger>
+      <SelectContent side="bottom">
+        {allowAll && <SelectItem value={ALL_BRANCHES}>{allLabel}</SelectItem>}
+        {branches.map(branch => (
+          <SelectItem key={branch.id} value={branch.id}>
+            {branch.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import React from 'react';
+import { ArrowRightLeft } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatCurrencyNGN } from '@/lib/utils/currency';
+import { useShiftSchedule } from '@/hooks/use-shift-schedule';
+import { getShiftLabel } from '@/lib/shift-schedule/schedule';
+import type { ShiftCarryOver } from '@/lib/stock-carryovers/carryover';
+
+interface CarryOverSummaryProps {
+  carryOver: ShiftCarryOver | null | undefined;
+  className?: string;
+}
+
+/**
+ * The leftovers a shift opened with, per bread type, and what was written off
+ */
+export function CarryOverSummary({ carryOver, className }: CarryOverSummaryProps) {
+  const { schedule } = useShiftSchedule();
+
+  if (!carryOver || carryOver.lines.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn('bg-white/80 backdrop-blur-sm rounded-xl p-3 sm:p-4 border shadow-sm space-y-2', className)}>
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+          <ArrowRightLeft className="h-4 w-4 text-gray-600" />
+          Carried over from the {getShiftLabel(schedule, carryOver.from_shift)} shift
+        </h3>
+        <span className="text-xs text-gray-500 flex-shrink-0">
+          {carryOver.total_carried} carried • {carryOver.total_written_off} written off
+        </span>
+      </div>
+      <ul className="divide-y divide-gray-100 text-xs">
+        {carryOver.lines.map(line => (
+          <li key={line.bread_type_id} className="flex items-center justify-between gap-2 py-1.5">
+            <span className="text-gray-900 truncate">{line.bread_type_name}</span>
+            <span className="flex flex-wrap justify-end gap-1 flex-shrink-0">
+              {line.carried > 0 && (
+                <span className="bg-blue-100 text-blue-800 px-2 py-0.5 rounded">{line.carried} carried</span>
+              )}
+              {line.discounted > 0 && (
+                <span className="bg-amber-100 text-amber-800 px-2 py-0.5 rounded">
+                  {line.discounted} at {formatCurrencyNGN(line.discount_price ?? 0)}
+                </span>
+              )}
+              {line.stale > 0 && (
+                <span className="bg-gray-100 text-gray-700 px-2 py-0.5 rounded">{line.stale} stale</span>
+              )}
+              {line.discarded > 0 && (
+                <span className="bg-red-100 text-red-700 px-2 py-0.5 rounded">{line.discarded} discarded</span>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import {
 import { getRelativeTime } from '@/lib/utils/timezone';
 import { motion } from 'framer-motion';
 import { useMemo } from 'react';
+import type { ShiftType } from '@/types';
 
 interface OwnerMetricsProps {
   data: {
@@ -24,13 +25,15 @@ interface OwnerMetricsProps {
     lowStockItems: number;
     staffOnline: number;
     totalStaff: number;
-    currentShift: 'morning' | 'night';
+    currentShift: ShiftType;
     lastUpdate: string;
   };
   loading?: boolean;
+  // Branch the figures belong to; omitted when aggregating all branches
+  branchName?: string | null;
 }
 
-export function OwnerMetrics({ data, loading = false }: OwnerMetricsProps) {
+export function OwnerMetrics({ data, loading = false, branchName }: OwnerMetricsProps) {
   // Calculate performance changes
   const revenueChange = useMemo(() => {
     if (data.yesterdayRevenue === 0) return null;
@@ -79,6 +82,7 @@ export function OwnerMetrics({ data, loading = false }: OwnerMetricsProps) {
         <div>
           <h2 className="text-2xl font-bold text-gray-900">Dashboard Overview</h2>
           <p className="text-sm text-gray-500 mt-1">
+            {branchName || 'All branches'} • 
             {data.currentShift.charAt(0).toUpperCase() + data.currentShift.slice(1)} Shift • 
             Last updated {getRelativeTime(data.lastUpdate)}
           </p>
@@ -0,0 +1,159 @@
+'use client';
+
+import React from 'react';
+import { AlertCircle, UserRound } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatCurrencyNGN } from '@/lib/utils/currency';
+import { getSaleCustomers } from '@/lib/customers/actions';
+import type { CustomerPaymentStatus } from '@/lib/customers/ledger';
+import { PAYMENT_METHODS, TENDER_METHODS, type PaymentMethod, type TenderMethod } from '@/lib/sales/payment-methods';
+
+const WALK_IN = 'walk-in';
+
+export interface CustomerPayment {
+  customerId: string | null;
+  paymentStatus: CustomerPaymentStatus;
+  amountPaid: number;
+  // How whatever is paid at the till was paid
+  method: TenderMethod;
+}
+
+export const WALK_IN_PAYMENT: CustomerPayment = { customerId: null, paymentStatus: 'paid', amountPaid: 0, method: 'cash' };
+
+/**
+ * Payment method to record on the sale; a sale paid nothing at the till is on credit
+ */
+export function paymentMethodFor(payment: CustomerPayment): PaymentMethod {
+  return payment.customerId && payment.paymentStatus === 'credit' ? 'credit' : payment.method;
+}
+
+/**
+ * What the customer pays at the till for a sale of `total`
+ */
+export function amountPaidNow(payment: CustomerPayment, total: number): number {
+  if (payment.paymentStatus === 'paid') return total;
+  if (payment.paymentStatus === 'credit') return 0;
+  return Math.min(Math.max(payment.amountPaid, 0), total);
+}
+
+interface CustomerPaymentSectionProps {
+  value: CustomerPayment;
+  onChange: (value: CustomerPayment) => void;
+  totalAmount: number;
+}
+
+const STATUS_OPTIONS: { value: CustomerPaymentStatus; label: string }[] = [
+  { value: 'paid', label: 'Paid' },
+  { value: 'partial', label: 'Part paid' },
+  { value: 'credit', label: 'On credit' },
+];
+
+export function CustomerPaymentSection({ value, onChange, totalAmount }: CustomerPaymentSectionProps) {
+  const { data: customers = [], isLoading } = useQuery({
+    queryKey: ['customers', 'for-sale'],
+    // Refetched each time the section opens so balances include the last sale
+    queryFn: () => getSaleCustomers(),
+  });
+
+  const customer = customers.find(entry => entry.id === value.customerId) || null;
+  const unpaid = totalAmount - amountPaidNow(value, totalAmount);
+  const available = customer ? Math.max(customer.credit_limit - customer.balance, 0) : 0;
+  const overLimit = !!customer && unpaid > 0 && unpaid > available;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="bg-orange-100 p-2 rounded-lg">
+          <UserRound className="h-5 w-5 text-orange-600" />
+        </div>
+        <h3 className="text-lg font-bold text-gray-900">Payment & Customer</h3>
+      </div>
+
+      {paymentMethodFor(value) !== 'credit' && (
+        <div className="grid grid-cols-3 gap-2">
+          {TENDER_METHODS.map(method => (
+            <Button
+              key={method}
+              type="button"
+              variant={value.method === method ? 'default' : 'outline'}
+              onClick={() => onChange({ ...value, method })}
+              className="rounded-xl"
+            >
+              {PAYMENT_METHODS[method]}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <Select
+        value={value.customerId ?? WALK_IN}
+        onValueChange={(id) => onChange(
+          id === WALK_IN ? { ...WALK_IN_PAYMENT, method: value.method } : { ...value, customerId: id }
+        )}
+        disabled={isLoading}
+      >
+        <SelectTrigger className="h-12 rounded-2xl border-2">
+          <SelectValue placeholder={isLoading ? 'Loading customers...' : 'Walk-in customer'} />
+        </SelectTrigger>
+        <SelectContent side="bottom">
+          <SelectItem value={WALK_IN}>Walk-in customer</SelectItem>
+          {customers.map(entry => (
+            <SelectItem key={entry.id} value={entry.id}>
+              {entry.name}{entry.balance > 0 ? ` • owes ${formatCurrencyNGN(entry.balance)}` : ''}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {customer && (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            {STATUS_OPTIONS.map(option => (
+              <Button
+                key={option.value}
+                type="button"
+                variant={value.paymentStatus === option.value ? 'default' : 'outline'}
+                onClick={() => onChange({ ...value, paymentStatus: option.value })}
+                className="rounded-xl"
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+
+          {value.paymentStatus === 'partial' && (
+            <div className="space-y-1">
+              <label className="text-sm font-medium text-gray-700">Amount paid now</label>
+              <Input
+                type="number"
+                min={0}
+                max={totalAmount}
+                step="0.01"
+                value={value.amountPaid === 0 ? '' : value.amountPaid}
+                onChange={(e) => onChange({ ...value, amountPaid: Math.max(parseFloat(e.target.value) || 0, 0) })}
+                placeholder="0.00"
+              />
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500">
+            Owes {formatCurrencyNGN(customer.balance)} • credit limit {formatCurrencyNGN(customer.credit_limit)}
+            {unpaid > 0 && ` • ${formatCurrencyNGN(unpaid)} goes on account`}
+          </p>
+
+          {overLimit && (
+            <div className="flex items-start gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>
+                Over the credit limit. {customer.name} can only owe {formatCurrencyNGN(available)} more.
+              </span>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ import { createShiftReport } from '@/lib/reports/actions';
 import { supabase } from '@/lib/supabase/client';
 import { toast } from 'sonner';
 import { useAuth } from '@/hooks/use-auth';
+import { CashUpSummary, type ShiftCashUp } from '@/components/reports/cash-up-summary';
+import type { ShiftType } from '@/types';
 
 interface ReportData {
   salesRecords: Array<{
@@ -29,12 +31,13 @@ interface ReportData {
   shift?: string;
   feedback?: string;
   userId?: string;
+  cashUp?: ShiftCashUp;
 }
 
 interface ShiftFeedback {
   id: string;
   user_id: string;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   note: string | null;
   created_at: string;
   users?: {
@@ -77,7 +80,7 @@ export function FinalReportModal({ isOpen, onClose, reportData, viewOnly = false
         .from('shift_feedback')
         .select('*') // Remove users join
         .eq('user_id', userId)
-        .eq('shift', reportData.shift as 'morning' | 'night')
+        .eq('shift', reportData.shift as ShiftType)
         .order('created_at', { ascending: false })
         .limit(1)
         .single();
@@ -139,7 +142,7 @@ export function FinalReportModal({ isOpen, onClose, reportData, viewOnly = false
       // Call server action without timeout - let it complete naturally
       const result = await createShiftReport({
         user_id: userId,
-        shift: (reportData.shift || currentShift) as 'morning' | 'night',
+        shift: (reportData.shift || currentShift) as ShiftType,
         total_revenue: reportData.totalRevenue,
         total_items_sold: reportData.totalItemsSold,
         total_remaining: reportData.totalRemaining,
@@ -498,6 +501,8 @@ export function FinalReportModal({ isOpen, onClose, reportData, viewOnly = false
               })()}
             </div>
 
+            {reportData.cashUp && <CashUpSummary cashUp={reportData.cashUp} />}
+
             {/* Shift Feedback */}
             {(shiftFeedback || reportData.feedback) && (
               <div>
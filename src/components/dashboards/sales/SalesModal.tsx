@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect, useRef } from 'react';
-import { X, Plus, Minus, ShoppingCart, Calculator, AlertCircle, Check } from 'lucide-react';
+import { X, Plus, Minus, ShoppingCart, Calculator, AlertCircle, Check, Tag, Receipt } from 'lucide-react';
 import { LoadingButton } from '@/components/ui/loading-button';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -9,12 +9,18 @@ import { supabase } from '@/lib/supabase/client';
 import { formatCurrencyNGN } from '@/lib/utils/currency';
 import { useMobileNotifications, NotificationHelpers } from '@/components/ui/mobile-notifications-fixed';
 import { createSalesLog } from '@/lib/sales/actions';
+import { OfflineQueue } from '@/lib/offline/queue';
+import { OfflineStorage } from '@/lib/offline/storage';
+import { useSalePromotion } from '@/hooks/use-promotions';
+import { ReceiptModal } from '@/components/modals/ReceiptModal';
+import { CustomerPaymentSection, WALK_IN_PAYMENT, amountPaidNow, paymentMethodFor, type CustomerPayment } from './CustomerPaymentSection';
+import type { ShiftType } from '@/types';
 
 interface SalesModalProps {
   isOpen: boolean;
   onClose: () => void;
   userId: string;
-  currentShift: 'morning' | 'night';
+  currentShift: ShiftType;
   onSalesRecorded: () => void;
 }
 
@@ -45,8 +51,24 @@ export function SalesModal({ isOpen, onClose, userId, currentShift, onSalesRecor
     discount: 0,
     totalAmount: 0
   });
+  const [customerPayment, setCustomerPayment] = useState<CustomerPayment>(WALK_IN_PAYMENT);
   const [loading, setLoading] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  // Set once an online sale is saved so a receipt can be printed for it
+  const [recordedSaleId, setRecordedSaleId] = useState<string | null>(null);
+  const [showReceipt, setShowReceipt] = useState(false);
+
+  // A running promotion replaces any discount typed in
+  const appliedPromotion = useSalePromotion({
+    breadTypeId: formData.breadTypeId,
+    quantity: formData.quantity,
+    unitPrice: formData.unitPrice,
+    shift: currentShift,
+  });
+  const saleDiscount = appliedPromotion ? appliedPromotion.discount : formData.discount;
+  const saleTotal = appliedPromotion
+    ? Math.max(0, formData.quantity * formData.unitPrice - appliedPromotion.discount)
+    : formData.totalAmount;
 
   // Ref for auto-scroll functionality
   const selectedBreadRef = useRef<HTMLDivElement>(null);
@@ -62,6 +84,9 @@ export function SalesModal({ isOpen, onClose, userId, currentShift, onSalesRecor
       discount: 0,
       totalAmount: 0
     });
+    setCustomerPayment(WALK_IN_PAYMENT);
+    setRecordedSaleId(null);
+    setShowReceipt(false);
   };
 
   useEffect(() => {
@@ -75,6 +100,12 @@ export function SalesModal({ isOpen, onClose, userId, currentShift, onSalesRecor
     try {
       setLoading(true);
       console.log('Fetching bread types...');
+
+      if (!navigator.onLine) {
+        // Offline: sell from the list cached on the last online visit
+        setBreadTypes(await OfflineStorage.getCachedBreadTypes());
+        return;
+      }
       
       // Use the correct RLS policy - bread_types_select_all should allow all authenticated users
       const { data, error } = await supabase
@@ -107,6 +138,7 @@ export function SalesModal({ isOpen, onClose, userId, currentShift, onSalesRecor
       }
 
       setBreadTypes(data || []);
+      await OfflineStorage.cacheBreadTypesForSale(data || []);
     } catch (error) {
       console.error('Error fetching bread types:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -199,21 +231,42 @@ export function SalesModal({ isOpen, onClose, userId, currentShift, onSalesRecor
         bread_type_id: formData.breadTypeId,
         quantity: formData.quantity,
         unit_price: formData.unitPrice,
-        discount: formData.discount,
+        discount: saleDiscount,
+        promotion_id: appliedPromotion?.promotion.id,
         shift: currentShift,
         recorded_by: userId
       });
 
-      await createSalesLog({
+      const saleData = {
         bread_type_id: formData.breadTypeId,
         quantity: formData.quantity,
         unit_price: formData.unitPrice,
-        discount: formData.discount,
+        discount: saleDiscount,
+        ...(appliedPromotion && { promotion_id: appliedPromotion.promotion.id }),
         shift: currentShift,
-        recorded_by: userId
-      });
-
-      toast.saleRecorded(formData.breadTypeName, formData.quantity);
+        recorded_by: userId,
+        payment_method: paymentMethodFor(customerPayment),
+        ...(customerPayment.customerId && {
+          customer_id: customerPayment.customerId,
+          amount_paid: amountPaidNow(customerPayment, saleTotal)
+        })
+      };
+
+      if (navigator.onLine) {
+        const result = await createSalesLog(saleData);
+        toast.saleRecorded(formData.breadTypeName, formData.quantity);
+        onSalesRecorded();
+        // Stay open so the rep can print or share the receipt
+        setRecordedSaleId(result.saleId);
+        return;
+      } else {
+        // Synced with its idempotency key once the connection is back
+        await OfflineQueue.addSalesAction(saleData, userId, `${formData.breadTypeName} x${formData.quantity}`);
+        showNotification(NotificationHelpers.success(
+          'Sale Saved Offline',
+          `${formData.breadTypeName} x${formData.quantity} will sync when you are back online.`
+        ));
+      }
       
       // Call the callback immediately to refresh dashboard
       onSalesRecorded();
@@ -226,6 +279,10 @@ export function SalesModal({ isOpen, onClose, userId, currentShift, onSalesRecor
       
     } catch (error) {
       console.error('Error recording sales:', error);
+      showNotification(NotificationHelpers.error(
+        'Sale Not Recorded',
+        error instanceof Error ? error.message : 'Failed to record sale'
+      ));
     } finally {
       setSubmitting(false);
     }
@@ -387,6 +444,12 @@ export function SalesModal({ isOpen, onClose, userId, currentShift, onSalesRecor
                     {/* Discount Input */}
                     <div className="space-y-4">
                       <h4 className="text-lg font-bold text-gray-900">Discount (Optional)</h4>
+                      {appliedPromotion && (
+                        <p className="flex items-center gap-2 text-sm font-medium text-green-700">
+                          <Tag className="h-4 w-4" />
+                          {appliedPromotion.promotion.name} applied
+                        </p>
+                      )}
                       <div className="relative">
                         <span className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-500 font-bold text-xl">
                           ₦
@@ -395,9 +458,10 @@ export function SalesModal({ isOpen, onClose, userId, currentShift, onSalesRecor
                           type="number"
                           min="0"
                           step="0.01"
-                          value={formData.discount}
+                          value={saleDiscount}
                           onChange={(e) => handleDiscountChange(parseFloat(e.target.value) || 0)}
-                          className="w-full pl-12 pr-4 py-4 text-xl border-2 border-gray-300 rounded-2xl focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-200"
+                          disabled={!!appliedPromotion}
+                          className="w-full disabled:bg-gray-100 disabled:text-gray-500 pl-12 pr-4 py-4 text-xl border-2 border-gray-300 rounded-2xl focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-200"
                           placeholder="0.00"
                         />
                       </div>
@@ -412,14 +476,14 @@ export function SalesModal({ isOpen, onClose, userId, currentShift, onSalesRecor
                       <div className="text-center">
                         <p className="text-sm text-gray-600 mb-2">Total Amount</p>
                         <p className="text-4xl font-bold text-green-600 mb-4">
-                          {formatCurrencyNGN(formData.totalAmount)}
+                          {formatCurrencyNGN(saleTotal)}
                         </p>
                         <div className="bg-white/70 rounded-xl p-4 inline-block">
                           <p className="text-sm text-gray-600">
                             {formData.breadTypeName} × {formData.quantity} units
-                            {formData.discount > 0 && (
+                            {saleDiscount > 0 && (
                               <span className="block text-red-600 font-medium">
-                                - ₦{formData.discount.toFixed(2)} discount
+                                - ₦{saleDiscount.toFixed(2)} {appliedPromotion ? appliedPromotion.promotion.name : 'discount'}
                               </span>
                             )}
                           </p>
@@ -428,6 +492,15 @@ export function SalesModal({ isOpen, onClose, userId, currentShift, onSalesRecor
                     </CardContent>
                   </Card>
                 )}
+
+                {/* Customer and Payment */}
+                {selectedBreadType && formData.quantity > 0 && (
+                  <CustomerPaymentSection
+                    value={customerPayment}
+                    onChange={setCustomerPayment}
+                    totalAmount={saleTotal}
+                  />
+                )}
               </div>
             )}
           </div>
@@ -442,23 +515,39 @@ export function SalesModal({ isOpen, onClose, userId, currentShift, onSalesRecor
                 className="flex-1 py-4 rounded-2xl border-2 hover:border-orange-400 transition-all duration-200 text-sm md:text-base font-semibold"
                 size="lg"
               >
-                <span className="text-sm md:text-base font-semibold">Cancel</span>
-              </LoadingButton>
-              <LoadingButton
-                onClick={handleSubmit}
-                isLoading={submitting}
-                loadingText="Recording Sale..."
-                icon={ShoppingCart}
-                disabled={!formData.breadTypeId || formData.quantity <= 0}
-                className="flex-1 py-4 rounded-2xl bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 transition-all duration-200 text-sm md:text-base font-semibold"
-                size="lg"
-              >
-                <span className="text-sm md:text-base font-semibold">Record Sale</span>
+                <span className="text-sm md:text-base font-semibold">{recordedSaleId ? 'Done' : 'Cancel'}</span>
               </LoadingButton>
+              {recordedSaleId ? (
+                <Button
+                  onClick={() => setShowReceipt(true)}
+                  className="flex-1 py-4 rounded-2xl bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 transition-all duration-200 text-sm md:text-base font-semibold"
+                  size="lg"
+                >
+                  <Receipt className="h-5 w-5 mr-2" />
+                  <span className="text-sm md:text-base font-semibold">Print / Share Receipt</span>
+                </Button>
+              ) : (
+                <LoadingButton
+                  onClick={handleSubmit}
+                  isLoading={submitting}
+                  loadingText="Recording Sale..."
+                  icon={ShoppingCart}
+                  disabled={!formData.breadTypeId || formData.quantity <= 0}
+                  className="flex-1 py-4 rounded-2xl bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 transition-all duration-200 text-sm md:text-base font-semibold"
+                  size="lg"
+                >
+                  <span className="text-sm md:text-base font-semibold">Record Sale</span>
+                </LoadingButton>
+              )}
             </div>
           </div>
         </div>
       </div>
+
+      <ReceiptModal
+        saleIds={showReceipt && recordedSaleId ? [recordedSaleId] : null}
+        onClose={() => setShowReceipt(false)}
+      />
     </div>
   );
 }
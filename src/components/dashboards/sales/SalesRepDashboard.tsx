@@ -28,6 +28,7 @@ import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 import ShiftToggle from '@/components/shift/shift-toggle';
 import { NavigationTransitionOverlay } from '@/components/navigation/NavigationTransition';
+import type { ShiftType } from '@/types';
 
 interface SalesRepDashboardProps {
   userId: string;
@@ -64,7 +65,7 @@ interface SalesLog {
   unit_price: number | null;
   discount: number | null;
   returned: boolean;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   recorded_by: string;
   created_at: string;
   bread_types?: {
@@ -322,7 +323,7 @@ export function SalesRepDashboard({ userId, userName }: SalesRepDashboardProps)
     try {
       // Use server action for proper authentication and RLS
       console.log('🗑️ Calling server action to clear sales logs...');
-      const result = await clearSalesLogsAction(currentShift as 'morning' | 'night');
+      const result = await clearSalesLogsAction(currentShift as ShiftType);
       
       if (!result.success) {
         console.error('❌ Server action failed:', result.error);
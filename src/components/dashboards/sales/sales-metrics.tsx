@@ -15,6 +15,7 @@ import { motion } from 'framer-motion';
 import { useMemo } from 'react';
 import { MetricCard } from '@/components/ui/card';
 import { getRelativeTime } from '@/lib/utils/timezone';
+import type { ShiftType } from '@/types';
 
 interface SalesRecord {
   id: string;
@@ -40,7 +41,7 @@ interface SalesMetricsProps {
     averageOrderValue: number;
     customerCount: number;
     topSellingBread: string;
-    currentShift: 'morning' | 'night';
+    currentShift: ShiftType;
     previousDaySales: number;
     weeklyAverage: number;
     lastUpdate: string;
@@ -17,6 +17,7 @@ import {
 import { motion } from 'framer-motion';
 import { useState } from 'react';
 import Link from 'next/link';
+import type { ShiftType } from '@/types';
 
 interface SalesQuickActionsProps {
   salesData?: {
@@ -26,7 +27,7 @@ interface SalesQuickActionsProps {
     customerCount: number;
     averageOrderValue: number;
   };
-  currentShift?: 'morning' | 'night';
+  currentShift?: ShiftType;
   alerts?: {
     lowStock: number;
     targetBehind: boolean;
@@ -4,6 +4,7 @@ import React, { useState, useEffect } from 'react';
 import { useShift } from '@/contexts/ShiftContext';
 import { cn } from '@/lib/utils';
 import { ModernCard } from './ModernCard';
+import type { ShiftType } from '@/types';
 
 interface EnhancedShiftToggleProps {
   className?: string;
@@ -99,7 +100,7 @@ export function EnhancedShiftToggle({
     setProgress(getShiftProgress());
   }, [currentTime, currentShift]);
 
-  const getShiftTimes = (shift: 'morning' | 'night') => {
+  const getShiftTimes = (shift: ShiftType) => {
     return shift === 'morning' ? '8:00 AM - 6:00 PM' : '8:00 PM - 7:00 AM';
   };
 
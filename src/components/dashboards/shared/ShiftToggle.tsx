@@ -4,14 +4,15 @@ import { useState, useEffect } from 'react';
 import { Sun, Moon, Clock } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from './Card';
 import { cn } from '@/lib/utils';
+import type { ShiftType } from '@/types';
 
 interface ShiftToggleProps {
-  onShiftChange?: (shift: 'morning' | 'night') => void;
-  currentShift?: 'morning' | 'night';
+  onShiftChange?: (shift: ShiftType) => void;
+  currentShift?: ShiftType;
 }
 
 export const ShiftToggle = ({ onShiftChange, currentShift }: ShiftToggleProps) => {
-  const [shift, setShift] = useState<'morning' | 'night'>(currentShift || 'morning');
+  const [shift, setShift] = useState<ShiftType>(currentShift || 'morning');
   const [currentTime, setCurrentTime] = useState(new Date());
 
   // Auto-detect shift based on time
@@ -34,7 +35,7 @@ export const ShiftToggle = ({ onShiftChange, currentShift }: ShiftToggleProps) =
     return () => clearInterval(timer);
   }, []);
 
-  const handleShiftChange = (newShift: 'morning' | 'night') => {
+  const handleShiftChange = (newShift: ShiftType) => {
     setShift(newShift);
     onShiftChange?.(newShift);
   };
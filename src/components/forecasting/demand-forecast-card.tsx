@@ -0,0 +1,80 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { TrendingUp, ChevronRight } from 'lucide-react';
+import { useShiftForecast } from '@/hooks/use-demand-forecast';
+
+interface DemandForecastCardProps {
+  className?: string;
+}
+
+/**
+ * Suggested quantities for the next shift from recent sales and leftovers,
+ * less what is carried in from the shift before.
+ */
+export function DemandForecastCard({ className }: DemandForecastCardProps) {
+  const { forecast, isLoading } = useShiftForecast();
+
+  const items = (forecast?.items ?? [])
+    .filter(item => item.basis !== 'none' && item.suggestedQuantity > 0)
+    .sort((a, b) => b.suggestedQuantity - a.suggestedQuantity);
+  const total = items.reduce((sum, item) => sum + item.suggestedQuantity, 0);
+
+  return (
+    <div className={`bg-white rounded-xl p-4 shadow-sm ${className || ''}`}>
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <TrendingUp size={20} className="text-orange-500 flex-shrink-0" />
+          <div className="min-w-0">
+            <h3 className="font-semibold text-gray-900 truncate">
+              Suggested for {forecast ? `${forecast.shiftLabel.toLowerCase()} shift` : 'next shift'}
+            </h3>
+            {forecast && (
+              <p className="text-xs text-gray-500">
+                {new Date(`${forecast.shiftDate}T12:00:00Z`).toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'short' })}
+                {total > 0 && ` • ${total} loaves`}
+              </p>
+            )}
+          </div>
+        </div>
+        <Link
+          href="/dashboard/production/forecast"
+          className="flex items-center text-xs font-medium text-orange-600 hover:text-orange-700 flex-shrink-0"
+        >
+          Accuracy
+          <ChevronRight size={14} />
+        </Link>
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-2">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-5 bg-gray-100 rounded" />
+          ))}
+        </div>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-2">Not enough sales history to suggest quantities yet</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {items.map(item => (
+            <li key={item.breadTypeId} className="flex items-center justify-between py-2 text-sm">
+              <div className="min-w-0">
+                <div className="text-gray-900 truncate">{item.breadTypeName}</div>
+                {item.carriedIn > 0 && (
+                  <div className="text-xs text-gray-500">{item.carriedIn} carried in</div>
+                )}
+                {item.soldOutSamples > 0 && (
+                  <div className="text-xs text-amber-600">
+                    Sold out {item.soldOutSamples} of {item.samples} times
+                  </div>
+                )}
+              </div>
+              <span className="font-semibold text-gray-900">{item.suggestedQuantity}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { AlertTriangle, ChevronRight } from 'lucide-react';
+import { useLowIngredients } from '@/hooks/use-low-ingredients';
+
+interface LowIngredientsAlertProps {
+  showBranch?: boolean;
+  className?: string;
+}
+
+/**
+ * Banner listing ingredients that need reordering. Renders nothing when stock is fine.
+ */
+export function LowIngredientsAlert({ showBranch = false, className }: LowIngredientsAlertProps) {
+  const { lowIngredients } = useLowIngredients();
+
+  if (lowIngredients.length === 0) {
+    return null;
+  }
+
+  const shown = lowIngredients.slice(0, 3);
+  const remaining = lowIngredients.length - shown.length;
+
+  return (
+    <Link
+      href="/dashboard/ingredients"
+      className={`flex items-start gap-3 rounded-xl border border-red-200 bg-red-50 p-3 text-sm text-red-700 hover:bg-red-100 transition-colors ${className || ''}`}
+    >
+      <AlertTriangle className="h-5 w-5 flex-shrink-0 mt-0.5" />
+      <div className="flex-1 min-w-0">
+        <div className="font-semibold">Low ingredients</div>
+        <ul className="text-xs space-y-0.5 mt-1">
+          {shown.map(item => (
+            <li key={`${item.ingredient_id}-${item.branch_id}`} className="truncate">
+              {item.name}: {item.quantity} {item.unit} left
+              {showBranch && item.branch_name && ` • ${item.branch_name}`}
+            </li>
+          ))}
+          {remaining > 0 && <li>+{remaining} more</li>}
+        </ul>
+      </div>
+      <ChevronRight className="h-4 w-4 flex-shrink-0 mt-0.5" />
+    </Link>
+  );
+}
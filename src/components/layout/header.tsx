@@ -1,8 +1,11 @@
 'use client';
 
 import { useState } from 'react';
+import { useRouter } from 'next/navigation';
 import { UserRole } from '@/types';
 import { ConnectionStatus } from '@/components/ui/connection-status';
+import { NotificationBell } from '@/components/ui/notification-bell';
+import { useUnreadNotificationCount } from '@/hooks/use-notification-inbox';
 
 interface HeaderProps {
   user: {
@@ -21,6 +24,8 @@ interface HeaderProps {
 
 export function Header({ displayName, role, onMobileMenuToggle, isMobileMenuOpen }: HeaderProps) {
   const [isSigningOut, setIsSigningOut] = useState(false);
+  const router = useRouter();
+  const { unreadCount, isLoading: unreadLoading } = useUnreadNotificationCount();
 
   const handleSignOut = async () => {
     setIsSigningOut(true);
@@ -121,6 +126,13 @@ export function Header({ displayName, role, onMobileMenuToggle, isMobileMenuOpen
 
           {/* Right side: User info (logout moved to sidebar for manager/sales_rep) */}
           <div className="flex items-center space-x-2 sm:space-x-3">
+            <NotificationBell
+              unreadCount={unreadCount}
+              hasNewActivities={unreadCount > 0}
+              isLoading={unreadLoading}
+              onClick={() => router.push(role === 'owner' ? '/owner-dashboard/notifications' : '/dashboard/notifications')}
+            />
+
             {/* Desktop User Info */}
             <div className="hidden sm:flex items-center space-x-3 lg:space-x-4">
               <div className="text-right">
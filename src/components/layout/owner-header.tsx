@@ -1,38 +1,23 @@
 'use client';
 
 import { Menu, X } from 'lucide-react';
-import { useActivities } from '@/hooks/use-live-activities';
-import { useNotificationCounter } from '@/hooks/use-notification-counter';
+import { useRouter } from 'next/navigation';
+import { useUnreadNotificationCount } from '@/hooks/use-notification-inbox';
 import { NotificationBell } from '@/components/ui/notification-bell';
 
 interface OwnerHeaderProps {
   onMobileMenuToggle?: () => void;
   isMobileMenuOpen?: boolean;
-  onNotificationClick?: () => void;
 }
 
-export function OwnerHeader({ onMobileMenuToggle, isMobileMenuOpen, onNotificationClick }: OwnerHeaderProps) {
-  // Use existing live activities system
-  const { activities, isLoading } = useActivities({
-    pollingInterval: 30000, // 30 seconds
-    enablePolling: true
-  });
+export function OwnerHeader({ onMobileMenuToggle, isMobileMenuOpen }: OwnerHeaderProps) {
+  const router = useRouter();
 
-  // Use notification counter hook for unread logic
-  const { unreadCount, markAllAsRead, hasNewActivities } = useNotificationCounter({
-    activities,
-    isLoading
-  });
+  // Unread inbox entries, counted server-side
+  const { unreadCount, isLoading } = useUnreadNotificationCount();
 
   const handleNotificationClick = () => {
-    markAllAsRead();
-    
-    // Scroll to live activities section if callback is provided
-    if (onNotificationClick) {
-      onNotificationClick();
-    }
-    
-    console.log('[OwnerHeader] Notifications marked as read, scrolling to live activities');
+    router.push('/owner-dashboard/notifications');
   };
 
   return (
@@ -63,7 +48,7 @@ export function OwnerHeader({ onMobileMenuToggle, isMobileMenuOpen, onNotificati
           </div>
           <NotificationBell
             unreadCount={unreadCount}
-            hasNewActivities={hasNewActivities}
+            hasNewActivities={unreadCount > 0}
             isLoading={isLoading}
             onClick={handleNotificationClick}
           />
@@ -3,7 +3,7 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { Home, Users, Package, FileText, LogOut } from 'lucide-react';
+import { Home, Users, Package, FileText, Clock, Store, Wheat, ShieldCheck, Undo2, BookUser, BellRing, Tag, Webhook, KeyRound, LogOut } from 'lucide-react';
 import { createSmartLinkProps, useLayoutAwareNavigation } from '@/hooks/use-smart-navigation';
 import { supabase } from '@/lib/supabase/client';
 
@@ -63,13 +63,73 @@ export function OwnerSidebar({ isMobileOpen = false, onMobileClose, displayName
       name: 'Inventory',
       href: '/dashboard/inventory',
       icon: Package,
-      active: pathname.startsWith('/dashboard/inventory')
+      active: pathname.startsWith('/dashboard/inventory') && !pathname.startsWith('/dashboard/inventory/thresholds')
+    },
+    {
+      name: 'Low-Stock Alerts',
+      href: '/dashboard/inventory/thresholds',
+      icon: BellRing,
+      active: pathname.startsWith('/dashboard/inventory/thresholds')
+    },
+    {
+      name: 'Ingredients',
+      href: '/dashboard/ingredients',
+      icon: Wheat,
+      active: pathname.startsWith('/dashboard/ingredients')
     },
     {
       name: 'Reports',
       href: '/owner-dashboard/reports',
       icon: FileText,
       active: pathname.startsWith('/owner-dashboard/reports')
+    },
+    {
+      name: 'Voids & Refunds',
+      href: '/dashboard/voids',
+      icon: Undo2,
+      active: pathname.startsWith('/dashboard/voids')
+    },
+    {
+      name: 'Customers',
+      href: '/dashboard/customers',
+      icon: BookUser,
+      active: pathname.startsWith('/dashboard/customers')
+    },
+    {
+      name: 'Promotions',
+      href: '/owner-dashboard/settings/promotions',
+      icon: Tag,
+      active: pathname.startsWith('/owner-dashboard/settings/promotions')
+    },
+    {
+      name: 'Shift Schedule',
+      href: '/owner-dashboard/settings/shifts',
+      icon: Clock,
+      active: pathname.startsWith('/owner-dashboard/settings/shifts')
+    },
+    {
+      name: 'Branches',
+      href: '/owner-dashboard/settings/branches',
+      icon: Store,
+      active: pathname.startsWith('/owner-dashboard/settings/branches')
+    },
+    {
+      name: 'Permissions',
+      href: '/owner-dashboard/settings/permissions',
+      icon: ShieldCheck,
+      active: pathname.startsWith('/owner-dashboard/settings/permissions')
+    },
+    {
+      name: 'Webhooks',
+      href: '/owner-dashboard/settings/webhooks',
+      icon: Webhook,
+      active: pathname.startsWith('/owner-dashboard/settings/webhooks')
+    },
+    {
+      name: 'API Keys',
+      href: '/owner-dashboard/settings/api-keys',
+      icon: KeyRound,
+      active: pathname.startsWith('/owner-dashboard/settings/api-keys')
     }
   ];
 
@@ -10,6 +10,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { useBatchMutations } from '@/hooks/use-batches-query';
 import { useAuth } from '@/hooks/use-auth';
 import { useShift } from '@/contexts/ShiftContext';
+import { useProductionPlan } from '@/hooks/use-production-plan';
+import { useShiftForecast } from '@/hooks/use-demand-forecast';
+import { useShiftSchedule } from '@/hooks/use-shift-schedule';
+import { getShiftLabel } from '@/lib/shift-schedule/schedule';
+import type { ShiftType } from '@/types';
 import { motion, AnimatePresence } from 'framer-motion';
 import { LoadingButton } from '@/components/ui/loading-button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -29,12 +34,13 @@ interface CreateBatchModalProps {
   isOpen: boolean;
   onClose: () => void;
   onBatchCreated?: () => void;
-  currentShift?: 'morning' | 'night';
+  currentShift?: ShiftType;
 }
 
 interface FormData {
   breadTypeId: string;
   quantity: string;
+  targetQuantity: string;
   notes: string;
 }
 
@@ -42,6 +48,7 @@ export function CreateBatchModal({ isOpen, onClose, onBatchCreated, currentShift
   const { createBatch } = useBatchMutations();
   const { user } = useAuth();
   const { currentShift: contextShift } = useShift();
+  const { schedule } = useShiftSchedule();
   const { showNotification } = useMobileNotifications();
   
   // Use prop currentShift or fallback to context
@@ -55,9 +62,14 @@ export function CreateBatchModal({ isOpen, onClose, onBatchCreated, currentShift
   const [formData, setFormData] = useState<FormData>({
     breadTypeId: '',
     quantity: '',
+    targetQuantity: '',
     notes: ''
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { plan } = useProductionPlan(new Date().toISOString().split('T')[0], shift, isOpen);
+  const plannedQuantity = plan.find(item => item.bread_type_id === formData.breadTypeId)?.planned_quantity;
+  const { forecast } = useShiftForecast(shift, isOpen);
+  const suggestion = forecast?.items.find(item => item.breadTypeId === formData.breadTypeId && item.basis !== 'none');
 
   // Fetch bread types when modal opens
   useEffect(() => {
@@ -130,6 +142,7 @@ export function CreateBatchModal({ isOpen, onClose, onBatchCreated, currentShift
     setFormData({
       breadTypeId: '',
       quantity: '',
+      targetQuantity: '',
       notes: ''
     });
     setIsSubmitting(false);
@@ -159,6 +172,13 @@ export function CreateBatchModal({ isOpen, onClose, onBatchCreated, currentShift
       return;
     }
 
+    // The target defaults to the starting quantity when left empty
+    const targetQuantity = formData.targetQuantity ? parseInt(formData.targetQuantity) : undefined;
+    if (targetQuantity !== undefined && (isNaN(targetQuantity) || targetQuantity <= 0)) {
+      showNotification(NotificationHelpers.error('Validation Error', 'Please enter a valid target quantity'));
+      return;
+    }
+
     try {
       setIsSubmitting(true);
       console.log('⏳ Setting submitting state to true');
@@ -178,6 +198,7 @@ export function CreateBatchModal({ isOpen, onClose, onBatchCreated, currentShift
       const newBatch = await createBatch({
         bread_type_id: formData.breadTypeId,
         actual_quantity: quantity,
+        target_quantity: targetQuantity,
         notes: formData.notes || undefined,
         shift: shift,
         // Pass bread type info for optimistic updates
@@ -312,7 +333,7 @@ export function CreateBatchModal({ isOpen, onClose, onBatchCreated, currentShift
                         </div>
                         <div>
                           <p className="text-sm font-medium text-blue-900">
-                            {shift === 'morning' ? '🌅 Morning' : '🌙 Night'} Shift
+                            {getShiftLabel(schedule, shift)} Shift
                           </p>
                           <p className="text-xs text-blue-700">Creating batch for current shift</p>
                         </div>
@@ -410,6 +431,51 @@ export function CreateBatchModal({ isOpen, onClose, onBatchCreated, currentShift
                       <Plus size={18} />
                     </button>
                   </div>
+                  {suggestion && (
+                    <div className="flex items-center justify-between gap-2 rounded-xl bg-orange-50 px-4 py-2 text-sm text-orange-800">
+                      <span>
+                        Suggested: <span className="font-semibold">{suggestion.suggestedQuantity}</span> loaves
+                        <span className="block text-xs text-orange-600">
+                          {suggestion.basis === 'weekday'
+                            ? `From the last ${suggestion.samples} ${forecast?.shiftLabel.toLowerCase()} shifts on this weekday`
+                            : `From the last ${suggestion.samples} ${forecast?.shiftLabel.toLowerCase()} shifts`}
+                          {suggestion.carriedIn > 0 && `, less ${suggestion.carriedIn} carried in`}
+                        </span>
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => handleQuantityChange(suggestion.suggestedQuantity)}
+                        className="px-3 py-1.5 rounded-lg bg-orange-500 text-white text-xs font-semibold hover:bg-orange-600 transition-colors"
+                      >
+                        Use
+                      </button>
+                    </div>
+                  )}
+                </motion.div>
+
+                {/* Target Quantity */}
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.35 }}
+                  className="space-y-3"
+                >
+                  <label className="block text-sm font-semibold text-gray-700">
+                    Target Quantity <span className="text-gray-400">(Optional)</span>
+                  </label>
+                  <input
+                    type="number"
+                    value={formData.targetQuantity}
+                    onChange={(e) => setFormData(prev => ({ ...prev, targetQuantity: e.target.value }))}
+                    min="1"
+                    className="w-full h-12 px-4 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-orange-500 focus:border-orange-500 text-center text-lg font-semibold transition-colors"
+                    placeholder={formData.quantity || '0'}
+                    inputMode="numeric"
+                  />
+                  <p className="text-xs text-gray-500">
+                    {plannedQuantity ? `${plannedQuantity} planned for this shift. ` : ''}
+                    Defaults to the actual quantity; yield is measured against it when the batch completes.
+                  </p>
                 </motion.div>
 
                 {/* Notes */}
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { X, Download, Share2, FileText, FileSpreadsheet, MessageCircle, Facebook, Twitter, Mail, Calendar, Clock, User, Package, Check } from 'lucide-react';
+import { X, Download, Share2, FileText, FileSpreadsheet, Sheet, MessageCircle, Facebook, Twitter, Mail, Calendar, Clock, User, Package, Check } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -12,11 +12,13 @@ import { Batch } from '@/lib/batches/actions';
 import { toast } from 'sonner';
 import { supabase } from '@/lib/supabase/client';
 import { formatCurrencyNGN } from '@/lib/utils/currency';
+import { exportToPDF, exportToXLSX } from '@/lib/reports/export';
+import type { ShiftType } from '@/types';
 
 interface ExportAllBatchesModalProps {
   isOpen: boolean;
   onClose: () => void;
-  currentShift: 'morning' | 'night';
+  currentShift: ShiftType;
 }
 
 interface BatchWithDetails extends Batch {
@@ -142,6 +144,12 @@ export function ExportAllBatchesModal({ isOpen, onClose, currentShift }: ExportA
       color: 'bg-red-500', 
       action: () => handleExportToPDF() 
     },
+    { 
+      icon: Sheet, 
+      label: 'Excel', 
+      color: 'bg-emerald-600', 
+      action: () => handleExportToXLSX() 
+    },
     { 
       icon: FileSpreadsheet, 
       label: 'CSV', 
@@ -191,27 +199,33 @@ ${selectedBatchData.map(batch =>
     toast.success('Opening WhatsApp...');
   };
 
-  // Export to PDF
-  const handleExportToPDF = async () => {
+  // PDF or XLSX of the selected batches, generated on the server
+  const handleServerExport = async (format: 'pdf' | 'xlsx') => {
     if (selectedBatches.length === 0) {
       toast.error('Please select batches to export');
       return;
     }
 
-    console.log('📄 Exporting to PDF:', selectedBatches);
     setExporting(true);
     try {
-      // For now, just log the action - PDF export can be implemented later
-      console.log('Exporting to PDF:', selectedBatches);
-      toast.success('PDF export functionality coming soon!');
+      const exportFile = format === 'pdf' ? exportToPDF : exportToXLSX;
+      await exportFile(
+        { kind: 'batches', batchIds: selectedBatches },
+        { title: 'Production Batches', subtitle: `${currentShift === 'morning' ? 'Morning' : 'Night'} Shift` }
+      );
+      toast.success(`${format === 'pdf' ? 'PDF' : 'Excel'} exported successfully!`);
     } catch (error) {
-      console.error('Error exporting to PDF:', error);
-      toast.error('Failed to export PDF');
+      console.error(`Error exporting to ${format}:`, error);
+      toast.error(error instanceof Error ? error.message : `Failed to export ${format.toUpperCase()}`);
     } finally {
       setExporting(false);
     }
   };
 
+  const handleExportToPDF = () => handleServerExport('pdf');
+
+  const handleExportToXLSX = () => handleServerExport('xlsx');
+
   // Export to CSV
   const handleExportToCSV = () => {
     if (selectedBatches.length === 0) {
@@ -331,6 +345,7 @@ Generated from HomeBake Bakery Management System`;
             start_time: batch.start_time,
             end_time: batch.end_time,
             actual_quantity: batch.actual_quantity,
+            target_quantity: batch.target_quantity,
             status: batch.status,
             notes: batch.notes,
             created_by: batch.created_by,
@@ -557,11 +572,20 @@ Generated from HomeBake Bakery Management System`;
                 </button>
                 <button
                   onClick={handleExportToPDF}
-                  className="flex items-center gap-2 px-3 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors text-sm"
+                  disabled={exporting}
+                  className="flex items-center gap-2 px-3 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors text-sm disabled:opacity-50"
                 >
                   <FileText className="w-4 h-4" />
                   PDF
                 </button>
+                <button
+                  onClick={handleExportToXLSX}
+                  disabled={exporting}
+                  className="flex items-center gap-2 px-3 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors text-sm disabled:opacity-50"
+                >
+                  <Sheet className="w-4 h-4" />
+                  Excel
+                </button>
                 <button
                   onClick={handleShareToWhatsApp}
                   className="flex items-center gap-2 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm"
@@ -3,6 +3,7 @@
 import React from 'react';
 import { X, MessageSquare } from 'lucide-react';
 import { formatCurrencyNGN } from '@/lib/utils/currency';
+import { CashUpSummary, type ShiftCashUp } from '@/components/reports/cash-up-summary';
 
 interface ReportData {
   salesRecords: Array<{
@@ -23,6 +24,7 @@ interface ReportData {
   totalRemaining: number;
   shift?: string;
   feedback?: string;
+  cashUp?: ShiftCashUp;
 }
 
 interface FinalReportViewModalProps {
@@ -195,6 +197,8 @@ export function FinalReportViewModal({
                 })()}
               </div>
 
+              {reportData.cashUp && <CashUpSummary cashUp={reportData.cashUp} />}
+
               {/* Feedback */}
               {reportData.feedback && (
                 <div>
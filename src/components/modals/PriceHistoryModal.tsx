@@ -0,0 +1,224 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowDownRight, ArrowUpRight, CalendarClock, Loader2, X } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Modal } from '@/components/ui/modal';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatCurrencyNGN } from '@/lib/utils/currency';
+import {
+  cancelScheduledPriceChange,
+  getPriceHistory,
+  schedulePriceChange,
+} from '@/lib/bread-types/price-actions';
+import type { Branch, BreadType, BreadTypePrice } from '@/types';
+
+const STANDARD = 'standard';
+
+export const priceHistoryKeys = {
+  all: () => ['bread-type-prices'] as const,
+  history: (breadTypeId: string) => ['bread-type-prices', breadTypeId] as const,
+  scheduled: () => ['bread-type-prices', 'scheduled'] as const,
+};
+
+interface PriceHistoryModalProps {
+  breadType: BreadType | null;
+  canEdit: boolean;
+  // Owners can schedule branch prices as well as the standard one
+  branches: Branch[];
+  onClose: () => void;
+}
+
+/**
+ * The price before this one for the same branch (or the standard price)
+ */
+function previousPrice(history: BreadTypePrice[], index: number): BreadTypePrice | undefined {
+  return history.slice(index + 1).find(entry => entry.branch_id === history[index].branch_id);
+}
+
+export function PriceHistoryModal({ breadType, canEdit, branches, onClose }: PriceHistoryModalProps) {
+  const queryClient = useQueryClient();
+  const [price, setPrice] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [branchId, setBranchId] = useState(STANDARD);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const { data: history = [], isLoading } = useQuery({
+    queryKey: priceHistoryKeys.history(breadType?.id ?? ''),
+    queryFn: () => getPriceHistory(breadType!.id),
+    enabled: !!breadType,
+  });
+
+  const now = Date.now();
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: priceHistoryKeys.all() });
+
+  const handleSchedule = async () => {
+    if (!breadType) return;
+    setSaving(true);
+    try {
+      const result = await schedulePriceChange({
+        bread_type_id: breadType.id,
+        branch_id: branchId === STANDARD ? null : branchId,
+        unit_price: Number(price),
+        // datetime-local has no zone; the browser's is the bakery's
+        effective_from: effectiveFrom ? new Date(effectiveFrom).toISOString() : '',
+        note: note || undefined,
+      });
+      if (result.success) {
+        toast.success('Price change scheduled');
+        setPrice('');
+        setEffectiveFrom('');
+        setNote('');
+        refresh();
+      } else {
+        toast.error(result.error || 'Failed to schedule the price change');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async (entry: BreadTypePrice) => {
+    setCancellingId(entry.id);
+    try {
+      const result = await cancelScheduledPriceChange(entry.id);
+      if (result.success) {
+        toast.success('Scheduled price change cancelled');
+        refresh();
+      } else {
+        toast.error(result.error || 'Failed to cancel the price change');
+      }
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={!!breadType}
+      onClose={onClose}
+      title={breadType ? `Price history • ${breadType.name}` : undefined}
+    >
+      {breadType && (
+        <div className="space-y-4 text-sm">
+          {canEdit && (
+            <div className="rounded-lg border border-gray-200 p-3 space-y-2">
+              <div className="flex items-center gap-2 font-medium text-gray-900">
+                <CalendarClock className="h-4 w-4 text-orange-500" />
+                Schedule a price change
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  inputMode="decimal"
+                  placeholder="New price"
+                  value={price}
+                  onChange={(e) => setPrice(e.target.value)}
+                  aria-label="New price"
+                />
+                <Input
+                  type="datetime-local"
+                  value={effectiveFrom}
+                  onChange={(e) => setEffectiveFrom(e.target.value)}
+                  aria-label="Starts"
+                />
+              </div>
+              {branches.length > 0 && (
+                <Select value={branchId} onValueChange={setBranchId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent side="bottom">
+                    <SelectItem value={STANDARD}>Standard price (all branches)</SelectItem>
+                    {branches.map(branch => (
+                      <SelectItem key={branch.id} value={branch.id}>{branch.name} only</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Input
+                placeholder="Note (optional)"
+                maxLength={200}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+              <Button
+                type="button"
+                className="w-full"
+                onClick={handleSchedule}
+                disabled={saving || price === '' || Number(price) < 0 || !effectiveFrom}
+              >
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Schedule
+              </Button>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          ) : history.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">No price changes recorded yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {history.map((entry, index) => {
+                const scheduled = new Date(entry.effective_from).getTime() > now;
+                const previous = previousPrice(history, index);
+                const change = entry.unit_price !== null && previous?.unit_price != null
+                  ? entry.unit_price - previous.unit_price
+                  : 0;
+
+                return (
+                  <li key={entry.id} className="flex items-center justify-between gap-3 py-2">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold text-gray-900">
+                          {entry.unit_price === null ? 'Standard price' : formatCurrencyNGN(entry.unit_price)}
+                        </span>
+                        {change > 0 && <ArrowUpRight className="h-4 w-4 text-red-500" />}
+                        {change < 0 && <ArrowDownRight className="h-4 w-4 text-green-600" />}
+                        {scheduled && (
+                          <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-700">
+                            Scheduled
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {scheduled ? 'From ' : 'Since '}
+                        {new Date(entry.effective_from).toLocaleString()}
+                        {` • ${entry.branch_id ? entry.branch_name || 'Branch' : 'All branches'}`}
+                        {entry.created_by_name && ` • ${entry.created_by_name}`}
+                      </div>
+                      {entry.note && <div className="text-xs text-gray-500 truncate">{entry.note}</div>}
+                    </div>
+                    {scheduled && canEdit && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleCancel(entry)}
+                        disabled={cancellingId === entry.id}
+                        aria-label="Cancel scheduled price change"
+                      >
+                        {cancellingId === entry.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+                      </Button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,146 @@
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import { Loader2, Printer, Share2, Receipt as ReceiptIcon } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Modal } from '@/components/ui/modal';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getReceipt } from '@/lib/receipts/actions';
+import { receiptText, type PaperWidth } from '@/lib/receipts/receipt';
+import { renderReceiptHtml } from '@/lib/receipts/html';
+import { renderReceiptEscPos } from '@/lib/receipts/escpos';
+
+const PAPER_WIDTH_KEY = 'receipt_paper_width';
+
+export const receiptKeys = {
+  all: () => ['receipts'] as const,
+  sales: (saleIds: string[]) => ['receipts', [...saleIds].sort().join(',')] as const,
+};
+
+interface ReceiptModalProps {
+  // One sale, or several sold together; null closes the modal
+  saleIds: string[] | null;
+  onClose: () => void;
+}
+
+function storedPaperWidth(): PaperWidth {
+  if (typeof window === 'undefined') return 58;
+  return window.localStorage.getItem(PAPER_WIDTH_KEY) === '80' ? 80 : 58;
+}
+
+export function ReceiptModal({ saleIds, onClose }: ReceiptModalProps) {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const [width, setWidth] = useState<PaperWidth>(storedPaperWidth);
+
+  const { data, isLoading } = useQuery({
+    queryKey: receiptKeys.sales(saleIds ?? []),
+    queryFn: () => getReceipt(saleIds ?? []),
+    enabled: !!saleIds && saleIds.length > 0,
+  });
+
+  const receipt = data?.receipt;
+  const html = useMemo(() => (receipt ? renderReceiptHtml(receipt, width) : ''), [receipt, width]);
+
+  const handleWidthChange = (value: string) => {
+    const next: PaperWidth = value === '80' ? 80 : 58;
+    setWidth(next);
+    window.localStorage.setItem(PAPER_WIDTH_KEY, String(next));
+  };
+
+  const handlePrint = () => {
+    frameRef.current?.contentWindow?.print();
+  };
+
+  const handleShare = async () => {
+    if (!receipt) return;
+    const text = receiptText(receipt, width);
+    if (typeof navigator.share === 'function') {
+      try {
+        await navigator.share({ title: `Receipt ${receipt.receipt_number}`, text });
+      } catch (error) {
+        console.error('Error sharing receipt:', error);
+      }
+    } else {
+      await navigator.clipboard.writeText(text);
+      toast.success('Receipt copied');
+    }
+  };
+
+  // Raw bytes for printer apps such as RawBT, or a download to send on
+  const handleThermalPrint = async () => {
+    if (!receipt) return;
+    const bytes = renderReceiptEscPos(receipt, width);
+    const file = new File([bytes], `receipt-${receipt.receipt_number}.bin`, { type: 'application/octet-stream' });
+
+    if (navigator.canShare?.({ files: [file] })) {
+      try {
+        await navigator.share({ files: [file], title: `Receipt ${receipt.receipt_number}` });
+        return;
+      } catch (error) {
+        console.error('Error sending receipt to printer app:', error);
+      }
+    }
+
+    const url = URL.createObjectURL(file);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.name;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Modal
+      isOpen={!!saleIds}
+      onClose={onClose}
+      title={receipt ? `Receipt ${receipt.receipt_number}` : 'Receipt'}
+      footer={receipt && (
+        <div className="grid grid-cols-3 gap-2">
+          <Button type="button" variant="outline" onClick={handleShare}>
+            <Share2 className="h-4 w-4 mr-1" />
+            Share
+          </Button>
+          <Button type="button" variant="outline" onClick={handleThermalPrint}>
+            <ReceiptIcon className="h-4 w-4 mr-1" />
+            Thermal
+          </Button>
+          <Button type="button" onClick={handlePrint}>
+            <Printer className="h-4 w-4 mr-1" />
+            Print
+          </Button>
+        </div>
+      )}
+    >
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : !receipt ? (
+        <p className="text-sm text-gray-500 text-center py-4">{data?.error || 'This receipt could not be loaded.'}</p>
+      ) : (
+        <div className="space-y-3">
+          <Select value={String(width)} onValueChange={handleWidthChange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent side="bottom">
+              <SelectItem value="58">58mm paper</SelectItem>
+              <SelectItem value="80">80mm paper</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="flex justify-center rounded-lg bg-gray-100 p-3">
+            <iframe
+              ref={frameRef}
+              srcDoc={html}
+              title={`Receipt ${receipt.receipt_number}`}
+              className="bg-white shadow-sm h-96"
+              style={{ width: `${width}mm` }}
+            />
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
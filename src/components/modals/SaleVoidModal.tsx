@@ -0,0 +1,229 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Modal } from '@/components/ui/modal';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatCurrencyNGN } from '@/lib/utils/currency';
+import { getSaleVoidOptions, voidSale } from '@/lib/sales/void-actions';
+
+export interface VoidableSale {
+  id: string;
+  quantity: number;
+  unit_price: number | null;
+  discount: number | null;
+  bread_types: { name: string } | null;
+  sale_voids?: { quantity: number }[] | null;
+}
+
+interface SaleVoidModalProps {
+  sale: VoidableSale | null;
+  onClose: () => void;
+  onVoided: () => void;
+}
+
+/**
+ * Loaves of a sale that have not been voided or refunded yet
+ */
+export function remainingVoidableQuantity(sale: VoidableSale): number {
+  const voided = (sale.sale_voids || []).reduce((sum, entry) => sum + entry.quantity, 0);
+  return Math.max(sale.quantity - voided, 0);
+}
+
+export function SaleVoidModal({ sale, onClose, onVoided }: SaleVoidModalProps) {
+  const [kind, setKind] = useState<'void' | 'refund'>('void');
+  const [quantity, setQuantity] = useState(1);
+  const [reason, setReason] = useState('');
+  const [restock, setRestock] = useState(true);
+  const [approverId, setApproverId] = useState<string | undefined>();
+  const [pin, setPin] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const { data: options, isLoading: loadingOptions } = useQuery({
+    queryKey: ['sale-voids', 'options'],
+    queryFn: () => getSaleVoidOptions(),
+    enabled: !!sale,
+    staleTime: 60000,
+  });
+
+  const remaining = sale ? remainingVoidableQuantity(sale) : 0;
+
+  // Reset the form whenever a different sale is opened
+  useEffect(() => {
+    setKind('void');
+    setQuantity(1);
+    setReason('');
+    setRestock(true);
+    setApproverId(undefined);
+    setPin('');
+  }, [sale?.id]);
+
+  const amount = useMemo(() => {
+    if (!sale || sale.quantity === 0) return 0;
+    const net = sale.quantity * (sale.unit_price || 0) - (sale.discount || 0);
+    const affected = kind === 'void' ? remaining : Math.min(quantity, remaining);
+    return Math.round((net * affected / sale.quantity) * 100) / 100;
+  }, [sale, kind, quantity, remaining]);
+
+  const needsApproval = !!options && !options.canApprove && amount > options.approvalThreshold;
+
+  const handleSubmit = async () => {
+    if (!sale) return;
+    if (needsApproval && (!approverId || !pin)) {
+      toast.error('A manager needs to approve this with their PIN');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const result = await voidSale({
+        sale_id: sale.id,
+        kind,
+        quantity: kind === 'refund' ? quantity : undefined,
+        reason,
+        restock: kind === 'void' || restock,
+        approver_id: needsApproval ? approverId : undefined,
+        approver_pin: needsApproval ? pin : undefined,
+      });
+
+      if (result.success) {
+        toast.success(kind === 'void' ? 'Sale voided' : 'Refund recorded');
+        onVoided();
+        onClose();
+      } else {
+        toast.error(result.error || `Failed to ${kind} sale`);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={!!sale}
+      onClose={onClose}
+      title={sale ? `Void or refund • ${sale.bread_types?.name || 'Sale'}` : undefined}
+      footer={
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            className="flex-1 bg-red-600 hover:bg-red-700 text-white"
+            onClick={handleSubmit}
+            disabled={submitting || loadingOptions || remaining === 0 || reason.trim().length < 3}
+          >
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {kind === 'void' ? 'Void sale' : 'Refund'} {formatCurrencyNGN(amount)}
+          </Button>
+        </div>
+      }
+    >
+      {sale && (
+        <div className="space-y-4 text-sm">
+          {remaining === 0 ? (
+            <p className="text-gray-500">This sale has already been fully voided or refunded.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  type="button"
+                  variant={kind === 'void' ? 'default' : 'outline'}
+                  onClick={() => setKind('void')}
+                >
+                  Void
+                </Button>
+                <Button
+                  type="button"
+                  variant={kind === 'refund' ? 'default' : 'outline'}
+                  onClick={() => setKind('refund')}
+                >
+                  Refund
+                </Button>
+              </div>
+
+              <p className="text-xs text-gray-500">
+                {kind === 'void'
+                  ? `Cancels the remaining ${remaining} units of a sale recorded by mistake and puts them back in stock.`
+                  : 'Gives money back for some of the loaves in this sale.'}
+              </p>
+
+              {kind === 'refund' && (
+                <>
+                  <div className="space-y-1">
+                    <label className="text-xs font-medium text-gray-700">Quantity (max {remaining})</label>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={remaining}
+                      value={quantity}
+                      onChange={(e) => setQuantity(Math.min(Math.max(parseInt(e.target.value) || 1, 1), remaining))}
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 text-gray-700">
+                    <Checkbox checked={restock} onChange={(e) => setRestock(e.target.checked)} />
+                    Returned loaves can be sold again
+                  </label>
+                </>
+              )}
+
+              <div className="space-y-1">
+                <label className="text-xs font-medium text-gray-700">Reason</label>
+                <Textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder={kind === 'void' ? 'e.g. Wrong bread type entered' : 'e.g. Customer returned stale loaves'}
+                  rows={2}
+                  maxLength={500}
+                />
+              </div>
+
+              {needsApproval && options && (
+                <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 space-y-2">
+                  <div className="flex items-center gap-2 text-amber-800 font-medium">
+                    <ShieldCheck className="h-4 w-4" />
+                    Manager approval needed above {formatCurrencyNGN(options.approvalThreshold)}
+                  </div>
+                  {options.approvers.length === 0 ? (
+                    <p className="text-xs text-amber-700">
+                      No manager has set an approval PIN yet. Ask a manager to record this for you.
+                    </p>
+                  ) : (
+                    <>
+                      <Select value={approverId} onValueChange={setApproverId}>
+                        <SelectTrigger className="bg-white">
+                          <SelectValue placeholder="Approving manager" />
+                        </SelectTrigger>
+                        <SelectContent side="bottom">
+                          {options.approvers.map(approver => (
+                            <SelectItem key={approver.id} value={approver.id}>{approver.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="password"
+                        inputMode="numeric"
+                        autoComplete="off"
+                        placeholder="Manager PIN"
+                        maxLength={6}
+                        value={pin}
+                        onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                        className="bg-white"
+                      />
+                    </>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+}
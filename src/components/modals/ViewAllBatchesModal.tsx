@@ -7,11 +7,12 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { useQuery } from '@tanstack/react-query';
 import { getAllBatchesWithDetails } from '@/lib/batches/api-actions';
+import type { ShiftType } from '@/types';
 
 interface ViewAllBatchesModalProps {
   isOpen: boolean;
   onClose: () => void;
-  currentShift?: 'morning' | 'night';
+  currentShift?: ShiftType;
 }
 
 interface BatchWithDetails {
@@ -22,7 +23,7 @@ interface BatchWithDetails {
   end_time?: string;
   actual_quantity: number;
   status: 'active' | 'completed' | 'cancelled';
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   notes?: string;
   created_by: string;
   created_at: string;
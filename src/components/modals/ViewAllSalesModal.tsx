@@ -1,18 +1,20 @@
 'use client';
 
 import React, { useState, useMemo } from 'react';
-import { X, Search, TrendingUp, Calendar, DollarSign, Package } from 'lucide-react';
+import { X, Search, TrendingUp, Calendar, DollarSign, Package, Undo2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase/client';
 import { formatCurrencyNGN } from '@/lib/utils/currency';
+import { SaleVoidModal, remainingVoidableQuantity } from './SaleVoidModal';
+import type { ShiftType } from '@/types';
 
 interface ViewAllSalesModalProps {
   isOpen: boolean;
   onClose: () => void;
-  currentShift?: 'morning' | 'night';
+  currentShift?: ShiftType;
   userId: string;
 }
 
@@ -34,8 +36,20 @@ interface SalesLogWithDetails {
   recorded_by_user: {
     name: string;
   };
+  sale_voids: {
+    kind: string;
+    quantity: number;
+    amount: number;
+    reason: string;
+  }[] | null;
 }
 
+// Money and loaves already given back through voids and refunds
+const voidedAmount = (sale: SalesLogWithDetails) =>
+  (sale.sale_voids || []).reduce((sum, entry) => sum + Number(entry.amount), 0);
+const voidedQuantity = (sale: SalesLogWithDetails) =>
+  (sale.sale_voids || []).reduce((sum, entry) => sum + entry.quantity, 0);
+
 export function ViewAllSalesModal({ 
   isOpen, 
   onClose, 
@@ -43,6 +57,7 @@ export function ViewAllSalesModal({
   userId 
 }: ViewAllSalesModalProps) {
   const [searchTerm, setSearchTerm] = useState('');
+  const [voidingSale, setVoidingSale] = useState<SalesLogWithDetails | null>(null);
 
   // Fetch all sales for the current day and user
   const {
@@ -63,6 +78,12 @@ export function ViewAllSalesModal({
           ),
           recorded_by_user:users!sales_logs_recorded_by_fkey (
             name
+          ),
+          sale_voids (
+            kind,
+            quantity,
+            amount,
+            reason
           )
         `)
         .eq('shift', currentShift)
@@ -94,14 +115,14 @@ export function ViewAllSalesModal({
   // Calculate total revenue
   const totalRevenue = useMemo(() => {
     return filteredSales.reduce((sum, sale) => {
-      const amount = (sale.quantity * (sale.unit_price || 0)) - (sale.discount || 0);
+      const amount = (sale.quantity * (sale.unit_price || 0)) - (sale.discount || 0) - voidedAmount(sale);
       return sum + amount;
     }, 0);
   }, [filteredSales]);
 
   // Calculate total items sold
   const totalItemsSold = useMemo(() => {
-    return filteredSales.reduce((sum, sale) => sum + sale.quantity, 0);
+    return filteredSales.reduce((sum, sale) => sum + sale.quantity - voidedQuantity(sale), 0);
   }, [filteredSales]);
 
   // Handle modal close
@@ -111,16 +132,21 @@ export function ViewAllSalesModal({
   };
 
 
-  // Get status color for returned items
-  const getStatusColor = (returned: boolean) => {
-    return returned 
+  // Get status color for returned, voided and refunded items
+  const getStatusColor = (sale: SalesLogWithDetails) => {
+    if ((sale.sale_voids || []).length > 0) return 'bg-gray-100 text-gray-700 border-gray-300';
+    return sale.returned 
       ? 'bg-red-100 text-red-700 border-red-200' 
       : 'bg-green-100 text-green-700 border-green-200';
   };
 
   // Get status display text
-  const getStatusDisplay = (returned: boolean) => {
-    return returned ? 'Returned' : 'Sold';
+  const getStatusDisplay = (sale: SalesLogWithDetails) => {
+    if ((sale.sale_voids || []).some(entry => entry.kind === 'void')) return 'Voided';
+    if ((sale.sale_voids || []).length > 0) {
+      return remainingVoidableQuantity(sale) === 0 ? 'Refunded' : `Refunded ${voidedQuantity(sale)}`;
+    }
+    return sale.returned ? 'Returned' : 'Sold';
   };
 
   if (!isOpen) return null;
@@ -261,8 +287,8 @@ export function ViewAllSalesModal({
                           {sale.bread_types.name}
                         </h4>
                       </div>
-                      <Badge className={getStatusColor(sale.returned)} variant="outline">
-                        {getStatusDisplay(sale.returned)}
+                      <Badge className={getStatusColor(sale)} variant="outline">
+                        {getStatusDisplay(sale)}
                       </Badge>
                     </div>
                     
@@ -305,8 +331,29 @@ export function ViewAllSalesModal({
                         {sale.leftover && sale.leftover > 0 && (
                           <span className="text-yellow-600">{sale.leftover} left</span>
                         )}
+                        {remainingVoidableQuantity(sale) > 0 && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setVoidingSale(sale)}
+                            className="h-7 px-2 text-xs text-red-600 hover:bg-red-50"
+                          >
+                            <Undo2 className="h-3 w-3 mr-1" />
+                            Void / Refund
+                          </Button>
+                        )}
                       </div>
                     </div>
+
+                    {/* Voids & refunds */}
+                    {(sale.sale_voids || []).map((entry, index) => (
+                      <div key={index} className="mt-2 pt-2 border-t border-gray-100 text-xs text-gray-600 flex justify-between gap-2">
+                        <span className="truncate">
+                          {entry.kind === 'void' ? 'Voided' : 'Refunded'} {entry.quantity} • {entry.reason}
+                        </span>
+                        <span className="text-red-600 font-medium flex-shrink-0">-{formatCurrencyNGN(Number(entry.amount))}</span>
+                      </div>
+                    ))}
                   </div>
                 ))}
               </div>
@@ -315,6 +362,12 @@ export function ViewAllSalesModal({
         </div>
 
       </div>
+
+      <SaleVoidModal
+        sale={voidingSale}
+        onClose={() => setVoidingSale(null)}
+        onVoided={() => refetch()}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,206 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import {
+  Archive,
+  ArchiveRestore,
+  Bell,
+  CheckCheck,
+  ChevronRight,
+  Circle,
+  FileText,
+  LogIn,
+  LogOut,
+  Package,
+  RefreshCw,
+  ShoppingCart,
+  TriangleAlert,
+  User,
+  UserPlus,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useNotificationInbox } from '@/hooks/use-notification-inbox';
+import {
+  INBOX_VIEWS,
+  INBOX_VIEW_KEYS,
+  isUnread,
+  notificationLink,
+  type InboxNotification,
+  type InboxView,
+} from '@/lib/notifications/inbox';
+import type { UserRole } from '@/types';
+
+interface NotificationInboxProps {
+  role: UserRole;
+}
+
+const ICONS: Record<string, React.ReactNode> = {
+  sale: <ShoppingCart size={16} />,
+  batch: <Package size={16} />,
+  report: <FileText size={16} />,
+  login: <LogIn size={16} />,
+  end_shift: <LogOut size={16} />,
+  created: <UserPlus size={16} />,
+  low_stock: <TriangleAlert size={16} />,
+};
+
+const BADGES: Record<string, string> = {
+  sale: 'bg-green-100 text-green-700',
+  batch: 'bg-blue-100 text-blue-700',
+  report: 'bg-yellow-100 text-yellow-700',
+  login: 'bg-purple-100 text-purple-700',
+  end_shift: 'bg-red-100 text-red-700',
+  created: 'bg-indigo-100 text-indigo-700',
+  low_stock: 'bg-orange-100 text-orange-700',
+};
+
+const formatWhen = (timestamp: string) => {
+  const date = new Date(timestamp);
+  const today = new Date();
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: true });
+  if (date.toDateString() === today.toDateString()) return time;
+  return `${date.toLocaleDateString([], { month: 'short', day: 'numeric' })}, ${time}`;
+};
+
+/**
+ * The signed-in user's notifications with unread / all / archived views.
+ * Opening one marks it read and follows its link.
+ */
+export function NotificationInbox({ role }: NotificationInboxProps) {
+  const [view, setView] = useState<InboxView>('unread');
+  const {
+    notifications,
+    isLoading,
+    isFetching,
+    refetch,
+    markRead,
+    markAllRead,
+    archive,
+    isUpdating,
+  } = useNotificationInbox(view);
+
+  const unread = notifications.filter(isUnread);
+
+  const handleOpen = (notification: InboxNotification) => {
+    if (isUnread(notification)) markRead([notification.id]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex rounded-xl bg-white border border-gray-200 p-1">
+          {INBOX_VIEW_KEYS.map(key => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => setView(key)}
+              className={`px-3 py-1.5 text-sm rounded-lg font-medium transition-colors touch-manipulation ${
+                view === key ? 'bg-orange-500 text-white' : 'text-gray-600 hover:bg-orange-50'
+              }`}
+            >
+              {INBOX_VIEWS[key].label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => refetch()}
+            disabled={isFetching}
+            title="Refresh notifications"
+          >
+            <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+          </Button>
+          {view !== 'archived' && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => markAllRead()}
+              disabled={isUpdating || unread.length === 0}
+            >
+              <CheckCheck className="h-4 w-4 mr-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex flex-col items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-10 w-10 border-4 border-orange-500 border-t-transparent"></div>
+          <p className="mt-4 text-gray-600 text-sm">Loading notifications...</p>
+        </div>
+      ) : notifications.length === 0 ? (
+        <div className="bg-white rounded-xl p-8 text-center border border-gray-200 shadow-sm">
+          <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Bell className="w-8 h-8 text-gray-400" />
+          </div>
+          <p className="font-medium text-gray-700">
+            {view === 'unread' ? "You're all caught up" : view === 'archived' ? 'Nothing archived' : 'No notifications yet'}
+          </p>
+          <p className="text-sm mt-1 text-gray-500">Activity routed to you will appear here</p>
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {notifications.map(notification => {
+            const unreadEntry = isUnread(notification);
+            const archived = notification.archived_at !== null;
+            return (
+              <li
+                key={notification.id}
+                className={`rounded-xl border p-3 flex items-start gap-3 transition-colors ${
+                  unreadEntry ? 'bg-orange-50/60 border-orange-200' : 'bg-white border-gray-200'
+                }`}
+              >
+                <span className={`p-2 rounded-lg flex-shrink-0 ${BADGES[notification.activity_type] ?? 'bg-gray-100 text-gray-700'}`}>
+                  {ICONS[notification.activity_type] ?? <User size={16} />}
+                </span>
+                <Link
+                  href={notificationLink(notification, role)}
+                  onClick={() => handleOpen(notification)}
+                  className="flex-1 min-w-0 group"
+                >
+                  <p className={`text-sm text-gray-900 ${unreadEntry ? 'font-semibold' : ''}`}>
+                    {notification.message}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-0.5 flex flex-wrap items-center gap-x-2">
+                    {notification.actor_name && <span>by {notification.actor_name}</span>}
+                    {notification.shift && <span className="capitalize">{notification.shift} shift</span>}
+                    <span>{formatWhen(notification.created_at)}</span>
+                    <ChevronRight className="h-3 w-3 text-gray-400 group-hover:translate-x-0.5 transition-transform" />
+                  </p>
+                </Link>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {!archived && (
+                    <button
+                      type="button"
+                      onClick={() => markRead([notification.id], !unreadEntry)}
+                      disabled={isUpdating}
+                      className="p-2 rounded-lg text-gray-400 hover:text-orange-600 hover:bg-orange-50"
+                      title={unreadEntry ? 'Mark read' : 'Mark unread'}
+                      aria-label={unreadEntry ? 'Mark read' : 'Mark unread'}
+                    >
+                      <Circle className={`h-3 w-3 ${unreadEntry ? 'fill-orange-500 text-orange-500' : ''}`} />
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => archive([notification.id], !archived)}
+                    disabled={isUpdating}
+                    className="p-2 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100"
+                    title={archived ? 'Move back to inbox' : 'Archive'}
+                    aria-label={archived ? 'Move back to inbox' : 'Archive'}
+                  >
+                    {archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
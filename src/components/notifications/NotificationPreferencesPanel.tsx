@@ -0,0 +1,288 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Layers, Loader2, Moon, Route, Save, SlidersHorizontal } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  getNotificationSettings,
+  updateMyNotificationPreferences,
+  updateNotificationRoute,
+} from '@/lib/push-notifications/routing-actions';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_ACTIVITY_TYPES,
+  NOTIFICATION_ACTIVITY_TYPE_KEYS,
+  type NotificationActivityType,
+  type NotificationPreferences,
+  type NotificationRoute,
+} from '@/lib/push-notifications/routing';
+import { DIGEST_CADENCES } from '@/lib/push-notifications/digest';
+import { getAllShiftDefinitions } from '@/lib/shift-schedule/schedule';
+import { useShiftSchedule } from '@/hooks/use-shift-schedule';
+import type { UserRole } from '@/types';
+
+interface NotificationPreferencesPanelProps {
+  canEditRouting?: boolean;
+}
+
+const ROLES: Array<{ value: UserRole; label: string }> = [
+  { value: 'owner', label: 'Owner' },
+  { value: 'manager', label: 'Managers' },
+  { value: 'sales_rep', label: 'Sales reps' },
+];
+
+// Toggle one value in a "null means all" list
+function toggleIn<T>(selected: T[] | null, all: T[], value: T): T[] | null {
+  const current = selected ?? all;
+  const next = current.includes(value) ? current.filter(item => item !== value) : [...current, value];
+  return next.length === all.length ? null : next;
+}
+
+/**
+ * What reaches this user's device, and for owners which roles each
+ * activity goes to
+ */
+export function NotificationPreferencesPanel({ canEditRouting = false }: NotificationPreferencesPanelProps) {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [routes, setRoutes] = useState<NotificationRoute[]>([]);
+  const [breadTypes, setBreadTypes] = useState<Array<{ id: string; name: string }>>([]);
+  const [minSale, setMinSale] = useState('');
+  const { schedule } = useShiftSchedule();
+
+  const shifts = getAllShiftDefinitions(schedule);
+  const shiftKeys = shifts.map(shift => shift.key);
+
+  useEffect(() => {
+    let active = true;
+    getNotificationSettings()
+      .then(settings => {
+        if (!active) return;
+        setPreferences(settings.preferences);
+        setRoutes(settings.routes);
+        setBreadTypes(settings.breadTypes);
+        setMinSale(settings.preferences.min_sale_revenue !== null ? String(settings.preferences.min_sale_revenue) : '');
+      })
+      .catch(() => toast.error('Failed to load notification settings'))
+      .finally(() => active && setLoading(false));
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const update = (changes: Partial<NotificationPreferences>) => setPreferences(prev => ({ ...prev, ...changes }));
+
+  const quietHours = preferences.quiet_hours_start !== null;
+  const minSaleValue = minSale === '' ? null : Number(minSale);
+  const minSaleInvalid = minSaleValue !== null && (Number.isNaN(minSaleValue) || minSaleValue < 0);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const result = await updateMyNotificationPreferences({ ...preferences, min_sale_revenue: minSaleValue });
+      if (result.success) {
+        toast.success('Notification preferences saved');
+      } else {
+        toast.error(result.error || 'Failed to save notification preferences');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRouteChange = async (activityType: NotificationActivityType, role: UserRole) => {
+    const route = routes.find(candidate => candidate.activity_type === activityType);
+    if (!route) return;
+
+    const roles = route.roles.includes(role) ? route.roles.filter(item => item !== role) : [...route.roles, role];
+    if (roles.length === 0) {
+      toast.error('Send this to at least one role');
+      return;
+    }
+
+    const previous = routes;
+    setRoutes(routes.map(candidate => (candidate.activity_type === activityType ? { ...candidate, roles } : candidate)));
+    const result = await updateNotificationRoute({ activity_type: activityType, roles });
+    if (!result.success) {
+      setRoutes(previous);
+      toast.error(result.error || 'Failed to save notification routing');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 flex items-center justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-orange-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-6 space-y-5">
+      <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+        <SlidersHorizontal className="h-4 w-4 text-orange-500" />
+        What you get notified about
+      </h3>
+
+      <div className="space-y-2">
+        <Label className="text-xs text-gray-500">Activity</Label>
+        <div className="grid grid-cols-2 gap-2">
+          {NOTIFICATION_ACTIVITY_TYPE_KEYS.map(activityType => (
+            <Checkbox
+              key={activityType}
+              label={NOTIFICATION_ACTIVITY_TYPES[activityType].label}
+              title={NOTIFICATION_ACTIVITY_TYPES[activityType].description}
+              checked={!preferences.activity_types || preferences.activity_types.includes(activityType)}
+              onChange={() => update({
+                activity_types: toggleIn<string>(preferences.activity_types, NOTIFICATION_ACTIVITY_TYPE_KEYS, activityType),
+              })}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs text-gray-500">Shifts</Label>
+        <div className="flex flex-wrap gap-4">
+          {shifts.map(shift => (
+            <Checkbox
+              key={shift.key}
+              label={shift.label}
+              checked={!preferences.shifts || preferences.shifts.includes(shift.key)}
+              onChange={() => update({
+                // Keys the schedule no longer has are dropped on the next change
+                shifts: toggleIn(preferences.shifts?.filter(key => shiftKeys.includes(key)) ?? null, shiftKeys, shift.key),
+              })}
+            />
+          ))}
+        </div>
+      </div>
+
+      {breadTypes.length > 0 && (
+        <div className="space-y-2">
+          <Label className="text-xs text-gray-500">Bread types</Label>
+          <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto">
+            {breadTypes.map(breadType => (
+              <Checkbox
+                key={breadType.id}
+                label={breadType.name}
+                checked={!preferences.bread_type_ids || preferences.bread_type_ids.includes(breadType.id)}
+                onChange={() => update({
+                  bread_type_ids: toggleIn(preferences.bread_type_ids, breadTypes.map(bread => bread.id), breadType.id),
+                })}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-500">Only sales worth at least (₦)</Label>
+        <Input
+          type="number"
+          min={0}
+          step="any"
+          inputMode="decimal"
+          value={minSale}
+          placeholder="Every sale"
+          onChange={(e) => setMinSale(e.target.value)}
+        />
+        {minSaleInvalid && <p className="text-xs text-red-600">Enter an amount of 0 or more</p>}
+      </div>
+
+      <div className="space-y-2">
+        <Checkbox
+          label="Quiet hours"
+          checked={quietHours}
+          onChange={() => update(quietHours
+            ? { quiet_hours_start: null, quiet_hours_end: null }
+            : { quiet_hours_start: '22:00', quiet_hours_end: '06:00' })}
+        />
+        {quietHours && (
+          <div className="flex items-center gap-2">
+            <Moon className="h-4 w-4 text-gray-400 flex-shrink-0" />
+            <Input
+              type="time"
+              value={preferences.quiet_hours_start ?? ''}
+              onChange={(e) => update({ quiet_hours_start: e.target.value || null })}
+              aria-label="Quiet hours start"
+            />
+            <span className="text-xs text-gray-500">to</span>
+            <Input
+              type="time"
+              value={preferences.quiet_hours_end ?? ''}
+              onChange={(e) => update({ quiet_hours_end: e.target.value || null })}
+              aria-label="Quiet hours end"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-500 flex items-center gap-1">
+          <Layers className="h-3 w-3" />
+          Delivery
+        </Label>
+        <Select
+          value={preferences.digest_minutes !== null ? String(preferences.digest_minutes) : 'immediate'}
+          onValueChange={(value) => update({ digest_minutes: value === 'immediate' ? null : Number(value) })}
+        >
+          <SelectTrigger className="bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent side="bottom">
+            <SelectItem value="immediate">As it happens</SelectItem>
+            {DIGEST_CADENCES.map(cadence => (
+              <SelectItem key={cadence.minutes} value={String(cadence.minutes)}>
+                {cadence.label} as one summary
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {preferences.digest_minutes !== null && (
+          <p className="text-xs text-gray-500">Low-stock alerts still arrive straight away.</p>
+        )}
+      </div>
+
+      <Button type="button" onClick={handleSave} disabled={saving || minSaleInvalid} className="w-full">
+        {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+        Save preferences
+      </Button>
+
+      {canEditRouting && routes.length > 0 && (
+        <div className="space-y-2 pt-4 border-t border-gray-100">
+          <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+            <Route className="h-4 w-4 text-orange-500" />
+            Who hears about what
+          </h3>
+          <p className="text-xs text-gray-500">
+            Managers and sales reps only hear about their own branch. Changes save straight away.
+          </p>
+          <ul className="divide-y divide-gray-100">
+            {routes.map(route => (
+              <li key={route.activity_type} className="py-2 flex flex-wrap items-center justify-between gap-2">
+                <span className="text-sm text-gray-900">{NOTIFICATION_ACTIVITY_TYPES[route.activity_type].label}</span>
+                <span className="flex gap-3">
+                  {ROLES.map(role => (
+                    <Checkbox
+                      key={role.value}
+                      label={role.label}
+                      checked={route.roles.includes(role.value)}
+                      onChange={() => handleRouteChange(route.activity_type, role.value)}
+                    />
+                  ))}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
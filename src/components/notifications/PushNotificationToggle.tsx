@@ -5,15 +5,19 @@ import { Bell, BellOff, Loader2, AlertCircle, CheckCircle, X } from 'lucide-reac
 import { usePushNotifications } from '@/hooks/use-push-notifications';
 import { motion, AnimatePresence } from 'framer-motion';
 import Switch from 'react-switch';
+import { NotificationPreferencesPanel } from './NotificationPreferencesPanel';
 
 interface PushNotificationToggleProps {
   userId: string;
   className?: string;
+  // Owners also decide which roles each activity goes to
+  canEditRouting?: boolean;
 }
 
 export function PushNotificationToggle({ 
   userId, 
-  className = ''
+  className = '',
+  canEditRouting = false
 }: PushNotificationToggleProps) {
   const {
     isSupported,
@@ -272,13 +276,16 @@ export function PushNotificationToggle({
               <div>
                 <p className="font-medium text-green-800">Notifications Active</p>
                 <p className="text-sm text-green-700">
-                  You&apos;ll receive updates for sales, batches, and important alerts
+                  You&apos;ll receive the updates chosen below
                 </p>
               </div>
             </div>
           </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Preferences and routing */}
+      {isEnabled && <NotificationPreferencesPanel canEditRouting={canEditRouting} />}
     </div>
   );
 }
\ No newline at end of file
@@ -15,9 +15,27 @@ import {
   X,
   ChevronDown,
   ChevronUp,
-  Loader2
+  Loader2,
+  GitMerge
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { SyncLogEntry } from '@/lib/offline/queue';
+
+// Keep the indicator up for a while after a sync so its outcome can be read
+const RECENT_ACTIVITY_MS = 5 * 60 * 1000;
+
+const LOG_STATUS: Record<SyncLogEntry['status'], { label: string; className: string }> = {
+  queued: { label: 'Saved offline', className: 'text-gray-600' },
+  synced: { label: 'Synced', className: 'text-green-700' },
+  duplicate: { label: 'Already synced', className: 'text-green-700' },
+  conflict: { label: 'Conflict', className: 'text-amber-700' },
+  failed: { label: 'Failed', className: 'text-red-600' },
+  resolved: { label: 'Kept yours', className: 'text-blue-700' },
+  discarded: { label: 'Kept theirs', className: 'text-gray-600' },
+};
+
+const formatTime = (timestamp: number | string) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 
 interface OfflineIndicatorProps {
   userId?: string;
@@ -32,6 +50,7 @@ export function OfflineIndicator({
 }: OfflineIndicatorProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [isRetrying, setIsRetrying] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
   
   const {
     isOnline,
@@ -41,14 +60,20 @@ export function OfflineIndicator({
     syncStatus,
     pendingCount,
     failedCount,
+    conflictCount,
+    conflicts,
+    syncLog,
     lastSyncTime,
     syncHealth,
     sync,
-    retryFailedActions
+    retryFailedActions,
+    resolveConflict
   } = useOffline(userId);
 
+  const hasRecentActivity = syncLog.length > 0 && Date.now() - syncLog[0].at < RECENT_ACTIVITY_MS;
+
   // Don't render anything if we're online and have no offline data
-  if (isOnline && !hasOfflineData && !isSyncing) {
+  if (isOnline && !hasOfflineData && !isSyncing && !hasRecentActivity) {
     return null;
   }
 
@@ -75,6 +100,17 @@ export function OfflineIndicator({
     }
   };
 
+  const handleResolve = async (actionId: string, resolution: 'keep_mine' | 'use_theirs') => {
+    setResolvingId(actionId);
+    try {
+      await resolveConflict(actionId, resolution);
+    } catch (error) {
+      console.error('Resolving conflict failed:', error);
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
   const getStatusIcon = () => {
     if (isSyncing) {
       return <Loader2 className="h-4 w-4 animate-spin text-blue-600" />;
@@ -84,6 +120,10 @@ export function OfflineIndicator({
       return <WifiOff className="h-4 w-4 text-red-600" />;
     }
     
+    if (conflictCount > 0) {
+      return <GitMerge className="h-4 w-4 text-amber-600" />;
+    }
+    
     if (failedCount > 0) {
       return <AlertCircle className="h-4 w-4 text-yellow-600" />;
     }
@@ -105,6 +145,10 @@ export function OfflineIndicator({
       return 'Offline';
     }
     
+    if (conflictCount > 0) {
+      return `${conflictCount} conflict${conflictCount === 1 ? '' : 's'} to resolve`;
+    }
+    
     if (failedCount > 0) {
       return `${failedCount} failed items`;
     }
@@ -119,6 +163,7 @@ export function OfflineIndicator({
   const getStatusColor = () => {
     if (isSyncing) return 'bg-blue-50 border-blue-200';
     if (!isOnline) return 'bg-red-50 border-red-200';
+    if (conflictCount > 0) return 'bg-amber-50 border-amber-200';
     if (failedCount > 0) return 'bg-yellow-50 border-yellow-200';
     if (hasOfflineData) return 'bg-orange-50 border-orange-200';
     return 'bg-green-50 border-green-200';
@@ -190,7 +235,7 @@ export function OfflineIndicator({
             )}
 
             {/* Show details button */}
-            {showDetails && (hasOfflineData || failedCount > 0) && (
+            {showDetails && (hasOfflineData || failedCount > 0 || syncLog.length > 0) && (
               <Button
                 variant="ghost"
                 size="sm"
@@ -209,7 +254,52 @@ export function OfflineIndicator({
 
         {/* Expanded details */}
         {isExpanded && showDetails && (
-          <div className="mt-3 pt-3 border-t space-y-2">
+          <div className="mt-3 pt-3 border-t space-y-2 max-h-[60vh] overflow-y-auto">
+            {/* Conflicts: someone else changed what was edited offline */}
+            {conflicts.map(action => (
+              <div key={action.id} className="rounded-lg border border-amber-200 bg-white p-2 space-y-2">
+                <div className="text-xs font-medium text-amber-800">
+                  {action.label || action.type}: {action.lastError}
+                </div>
+                {(action.conflicts || []).map(conflict => (
+                  <div key={conflict.key} className="text-xs space-y-0.5">
+                    <div className="font-medium text-gray-900">{conflict.label}</div>
+                    <div className="flex justify-between gap-2">
+                      <span className="text-gray-600">Yours</span>
+                      <span className="text-right">{conflict.yours}</span>
+                    </div>
+                    <div className="flex justify-between gap-2">
+                      <span className="text-gray-600">
+                        {conflict.changedBy ? `${conflict.changedBy}'s` : 'Theirs'}
+                        {conflict.changedAt && ` (${formatTime(conflict.changedAt)})`}
+                      </span>
+                      <span className="text-right">{conflict.theirs}</span>
+                    </div>
+                  </div>
+                ))}
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleResolve(action.id, 'keep_mine')}
+                    disabled={resolvingId === action.id || isSyncing}
+                    className="flex-1 text-xs"
+                  >
+                    Keep mine
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleResolve(action.id, 'use_theirs')}
+                    disabled={resolvingId === action.id || isSyncing}
+                    className="flex-1 text-xs"
+                  >
+                    Use theirs
+                  </Button>
+                </div>
+              </div>
+            ))}
+
             {/* Sync progress */}
             {isSyncing && (
               <div className="space-y-1">
@@ -258,6 +348,27 @@ export function OfflineIndicator({
               </div>
             )}
 
+            {/* Per-action sync log */}
+            {syncLog.length > 0 && (
+              <div className="space-y-1">
+                <div className="text-xs font-medium text-gray-700">Sync log</div>
+                {syncLog.slice(0, 10).map(entry => (
+                  <div key={entry.id} className="flex items-start justify-between gap-2 text-xs">
+                    <div className="min-w-0">
+                      <div className="truncate text-gray-900">{entry.label}</div>
+                      {entry.message && (
+                        <div className="truncate text-gray-500">{entry.message}</div>
+                      )}
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <div className={LOG_STATUS[entry.status].className}>{LOG_STATUS[entry.status].label}</div>
+                      <div className="text-gray-400">{formatTime(entry.at)}</div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* Action buttons */}
             <div className="flex gap-2 pt-2">
               {failedCount > 0 && (
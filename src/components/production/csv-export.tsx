@@ -1,7 +1,10 @@
 "use client";
-import React from 'react';
+import React, { useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
-import { Download } from 'lucide-react';
+import { Download, FileText, Loader2, Sheet } from 'lucide-react';
+import { exportToPDF, exportToXLSX } from '@/lib/reports/export';
 
 interface CSVExportProps {
   logs: any[];
@@ -9,6 +12,9 @@ interface CSVExportProps {
 }
 
 export default function CSVExport({ logs, filename = 'production-logs' }: CSVExportProps) {
+  const searchParams = useSearchParams();
+  const [exporting, setExporting] = useState<'pdf' | 'xlsx' | null>(null);
+
   const generateCSV = (logs: any[]) => {
     const headers = ['Date', 'Bread Type', 'Quantity', 'Shift', 'Time', 'Notes'];
     const rows = logs.map(log => [
@@ -40,19 +46,62 @@ export default function CSVExport({ logs, filename = 'production-logs' }: CSVExp
     }
   };
 
+  // The server reloads the same entries from the filters in the URL
+  const handleServerExport = async (format: 'pdf' | 'xlsx') => {
+    setExporting(format);
+    try {
+      const exportFile = format === 'pdf' ? exportToPDF : exportToXLSX;
+      await exportFile({
+        kind: 'production',
+        filters: {
+          bread_type_id: searchParams.get('bread_type_id') || undefined,
+          shift: searchParams.get('shift') || undefined,
+          date: searchParams.get('date') || undefined,
+        },
+      });
+    } catch (error) {
+      console.error('Export failed:', error);
+      toast.error(error instanceof Error ? error.message : `Failed to export ${format.toUpperCase()}`);
+    } finally {
+      setExporting(null);
+    }
+  };
+
   if (logs.length === 0) {
     return null;
   }
 
   return (
-    <Button 
-      onClick={handleExport}
-      variant="outline"
-      size="sm"
-      className="w-full sm:w-auto"
-    >
-      <Download className="h-4 w-4 mr-2" />
-      Export CSV ({logs.length} entries)
-    </Button>
+    <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+      <Button
+        onClick={handleExport}
+        variant="outline"
+        size="sm"
+        className="w-full sm:w-auto"
+      >
+        <Download className="h-4 w-4 mr-2" />
+        Export CSV ({logs.length} entries)
+      </Button>
+      <Button
+        onClick={() => handleServerExport('pdf')}
+        disabled={exporting !== null}
+        variant="outline"
+        size="sm"
+        className="w-full sm:w-auto"
+      >
+        {exporting === 'pdf' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+        PDF
+      </Button>
+      <Button
+        onClick={() => handleServerExport('xlsx')}
+        disabled={exporting !== null}
+        variant="outline"
+        size="sm"
+        className="w-full sm:w-auto"
+      >
+        {exporting === 'xlsx' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sheet className="h-4 w-4 mr-2" />}
+        Excel
+      </Button>
+    </div>
   );
-} 
\ No newline at end of file
+}
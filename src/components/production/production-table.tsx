@@ -3,12 +3,13 @@ import { Badge } from '@/components/ui/badge';
 import { Card } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Package, Clock, Calendar, MessageSquare } from 'lucide-react';
+import type { ShiftType } from '@/types';
 
 interface ProductionLog {
   id: string;
   bread_type_id: string;
   quantity: number;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   created_at: string;
   feedback?: string;
   bread_types?: { name: string };
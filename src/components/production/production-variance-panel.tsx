@@ -0,0 +1,155 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Target, ChevronRight } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useProductionVariance } from '@/hooks/use-production-plan';
+import { cn } from '@/lib/utils';
+import type { ProductionVarianceReport, ProductionVarianceRow } from '@/types';
+
+type VarianceView = keyof ProductionVarianceReport;
+
+const VIEWS: { value: VarianceView; label: string }[] = [
+  { value: 'byBreadType', label: 'Bread type' },
+  { value: 'byManager', label: 'Manager' },
+  { value: 'byShift', label: 'Shift' },
+  { value: 'byDate', label: 'Day' },
+  { value: 'planAttainment', label: 'Daily plan' },
+];
+
+const PERIODS = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+];
+
+interface ProductionVariancePanelProps {
+  defaultDays?: number;
+  hideManagerView?: boolean;
+  className?: string;
+}
+
+const yieldColor = (percent: number | null) =>
+  percent === null ? 'text-gray-400'
+    : percent >= 95 ? 'text-green-600'
+    : percent >= 85 ? 'text-amber-600'
+    : 'text-red-600';
+
+function totalsOf(rows: ProductionVarianceRow[]) {
+  const planned = rows.reduce((sum, row) => sum + row.planned, 0);
+  const actual = rows.reduce((sum, row) => sum + row.actual, 0);
+  return { planned, actual, yieldPercent: planned > 0 ? (actual / planned) * 100 : null };
+}
+
+/**
+ * Planned vs actual production with yield per bread type, manager, shift and day.
+ */
+export function ProductionVariancePanel({ defaultDays = 30, hideManagerView = false, className }: ProductionVariancePanelProps) {
+  const [period, setPeriod] = useState(String(defaultDays));
+  const [view, setView] = useState<VarianceView>('byBreadType');
+
+  const startDate = new Date(Date.now() - (Number(period) - 1) * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const endDate = new Date().toISOString().split('T')[0];
+  const { variance, isLoading } = useProductionVariance({ startDate, endDate });
+
+  const rows = variance?.[view] ?? [];
+  const overall = totalsOf(variance?.byShift ?? []);
+  const views = hideManagerView ? VIEWS.filter(option => option.value !== 'byManager') : VIEWS;
+
+  return (
+    <section className={cn('bg-white rounded-xl p-4 border border-gray-100 shadow-sm space-y-3', className)}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <Target className="h-5 w-5 text-orange-500 flex-shrink-0" />
+          <div className="min-w-0">
+            <h3 className="font-semibold text-gray-900 truncate">Planned vs Actual</h3>
+            <p className="text-xs text-gray-500">
+              {overall.yieldPercent !== null
+                ? `${overall.actual} of ${overall.planned} planned loaves • ${overall.yieldPercent.toFixed(1)}% yield`
+                : 'Completed batches against their targets'}
+            </p>
+          </div>
+        </div>
+        <Select value={period} onValueChange={setPeriod}>
+          <SelectTrigger className="w-36 flex-shrink-0">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent side="bottom">
+            {PERIODS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex gap-1 overflow-x-auto">
+        {views.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => setView(option.value)}
+            className={cn(
+              'px-3 py-1.5 rounded-lg text-xs font-medium whitespace-nowrap transition-colors',
+              view === option.value ? 'bg-orange-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-2">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-8 bg-gray-100 rounded-lg" />
+          ))}
+        </div>
+      ) : rows.length === 0 ? (
+        view === 'planAttainment' ? (
+          <Link
+            href="/dashboard/production/plan"
+            className="flex items-center justify-between rounded-lg bg-gray-50 p-3 text-sm text-gray-500 hover:bg-gray-100"
+          >
+            No production plans in this period
+            <ChevronRight className="h-4 w-4" />
+          </Link>
+        ) : (
+          <p className="text-sm text-gray-400 text-center py-4">No completed batches with a target in this period</p>
+        )
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-gray-500">
+              <tr>
+                <th className="text-left font-medium py-2">{views.find(option => option.value === view)?.label}</th>
+                <th className="text-right font-medium py-2">Planned</th>
+                <th className="text-right font-medium py-2">Actual</th>
+                <th className="text-right font-medium py-2">Variance</th>
+                <th className="text-right font-medium py-2">Yield</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(row => (
+                <tr key={row.key}>
+                  <td className="py-2 pr-2">
+                    <div className="text-gray-900">{row.label}</div>
+                    <div className="text-xs text-gray-500">{row.batches} batch{row.batches === 1 ? '' : 'es'}</div>
+                  </td>
+                  <td className="text-right py-2">{row.planned}</td>
+                  <td className="text-right py-2">{row.actual}</td>
+                  <td className={cn('text-right py-2', row.variance < 0 ? 'text-red-600' : 'text-green-600')}>
+                    {row.variance > 0 ? `+${row.variance}` : row.variance}
+                  </td>
+                  <td className={cn('text-right py-2 font-medium', yieldColor(row.yieldPercent))}>
+                    {row.yieldPercent !== null ? `${row.yieldPercent.toFixed(1)}%` : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { AlertTriangle, Wallet } from 'lucide-react';
+import { formatCurrencyNGN } from '@/lib/utils/currency';
+import { PAYMENT_METHODS, type PaymentMethod } from '@/lib/sales/payment-methods';
+import type { CashUp, PaymentTotals } from '@/lib/reports/shift-report-summary';
+
+export interface ShiftCashUp extends Partial<CashUp> {
+  payment_totals?: Partial<PaymentTotals> | null;
+}
+
+const PAYMENT_ORDER: PaymentMethod[] = ['cash', 'transfer', 'pos', 'credit'];
+
+/**
+ * Whether the rep's count differs from what the shift's sales expected
+ */
+export function hasCashVariance(cashUp: ShiftCashUp): boolean {
+  return !!cashUp.cash_variance || !!cashUp.transfer_variance;
+}
+
+function varianceText(variance: number): string {
+  if (variance < 0) return `${formatCurrencyNGN(-variance)} short`;
+  if (variance > 0) return `${formatCurrencyNGN(variance)} over`;
+  return 'Balanced';
+}
+
+function varianceColor(variance: number | null | undefined): string {
+  if (!variance) return 'text-green-700';
+  return variance < 0 ? 'text-red-600' : 'text-amber-600';
+}
+
+/**
+ * Short / over badge for report lists; nothing when the count balanced
+ */
+export function CashVarianceBadge({ cashUp }: { cashUp: ShiftCashUp }) {
+  if (!hasCashVariance(cashUp)) return null;
+
+  // A shortage anywhere is what the owner needs to see first
+  const variances = [Number(cashUp.cash_variance || 0), Number(cashUp.transfer_variance || 0)];
+  const short = variances.some(variance => variance < 0);
+  const amount = variances
+    .filter(variance => (short ? variance < 0 : variance > 0))
+    .reduce((sum, variance) => sum + Math.abs(variance), 0);
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${
+        short ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+      }`}
+    >
+      <AlertTriangle className="h-3 w-3" />
+      {short ? 'Cash-up short' : 'Cash-up over'}
+      {` ${formatCurrencyNGN(amount)}`}
+    </span>
+  );
+}
+
+/**
+ * Takings by payment method with the counted cash and transfers against
+ * what was expected
+ */
+export function CashUpSummary({ cashUp }: { cashUp: ShiftCashUp }) {
+  const totals = cashUp.payment_totals || {};
+  const counted = cashUp.counted_cash !== null && cashUp.counted_cash !== undefined;
+  if (!counted && Object.keys(totals).length === 0) return null;
+
+  const rows = [
+    { label: 'Cash', expected: totals.cash ?? 0, counted: cashUp.counted_cash, variance: cashUp.cash_variance },
+    {
+      label: 'Transfers',
+      expected: totals.transfer ?? 0,
+      counted: cashUp.counted_transfer,
+      variance: cashUp.transfer_variance,
+    },
+  ];
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-3">
+        <Wallet className="w-5 h-5 text-gray-600" />
+        <h3 className="text-base font-bold text-gray-900">Cash-up</h3>
+        <CashVarianceBadge cashUp={cashUp} />
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 p-3 border-b border-gray-100">
+          {PAYMENT_ORDER.map(method => (
+            <div key={method}>
+              <div className="text-xs text-gray-500">{PAYMENT_METHODS[method]}</div>
+              <div className="text-sm font-semibold text-gray-900">{formatCurrencyNGN(totals[method] ?? 0)}</div>
+            </div>
+          ))}
+        </div>
+
+        {counted ? (
+          rows.map(row => (
+            <div key={row.label} className="flex justify-between items-center p-3 border-b border-gray-100 last:border-b-0">
+              <div>
+                <div className="text-sm font-bold text-gray-900">{row.label}</div>
+                <div className="text-xs text-gray-500 mt-1">
+                  Expected {formatCurrencyNGN(row.expected)} • counted {formatCurrencyNGN(row.counted ?? 0)}
+                </div>
+              </div>
+              <div className={`text-sm font-bold ml-3 ${varianceColor(row.variance)}`}>
+                {varianceText(Number(row.variance ?? 0))}
+              </div>
+            </div>
+          ))
+        ) : (
+          <div className="p-3 text-xs text-gray-500">No cash-up was entered for this shift</div>
+        )}
+      </div>
+    </div>
+  );
+}
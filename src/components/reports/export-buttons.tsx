@@ -4,103 +4,88 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/components/ui/ToastProvider';
 import { ReportSummary, ShiftSummary } from '@/lib/reports/queries';
-import { exportToPDF, exportToCSV, ExportOptions } from '@/lib/reports/export';
-import { Download, FileText, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { exportToPDF, exportToXLSX, exportToCSV, ExportOptions } from '@/lib/reports/export';
+import type { ReportExportTarget } from '@/lib/validations';
+import { Download, FileText, FileSpreadsheet, Sheet, Loader2 } from 'lucide-react';
 
 interface ExportButtonsProps {
   reportData: ReportSummary | ShiftSummary;
-  elementId: string;
+  // What the server should load for the PDF and XLSX versions
+  report: ReportExportTarget;
   title?: string;
   subtitle?: string;
   disabled?: boolean;
 }
 
-export default function ExportButtons({
-  reportData,
-  elementId,
-  title,
-  subtitle,
-  disabled = false
-}: ExportButtonsProps) {
-  const [exportingPDF, setExportingPDF] = useState(false);
-  const [exportingCSV, setExportingCSV] = useState(false);
+type ExportKind = 'pdf' | 'xlsx' | 'csv';
+
+const EXPORT_LABELS: Record<ExportKind, string> = { pdf: 'PDF', xlsx: 'Excel', csv: 'CSV' };
+
+function useReportExport({ reportData, report, title, subtitle }: ExportButtonsProps) {
+  const [exporting, setExporting] = useState<ExportKind | null>(null);
   const toast = useToast();
 
-  const handlePDFExport = async () => {
+  const handleExport = async (kind: ExportKind) => {
     try {
-      setExportingPDF(true);
-      
+      setExporting(kind);
+
       const options: ExportOptions = {
         title: title || 'HomeBake Report',
         subtitle: subtitle || 'Business Performance Report',
-        filename: `homebake-report-${new Date().toISOString().split('T')[0]}.pdf`
       };
 
-      await exportToPDF(elementId, reportData, options);
-      
-      toast.success('PDF report exported successfully!');
+      if (kind === 'pdf') {
+        await exportToPDF(report, options);
+      } else if (kind === 'xlsx') {
+        await exportToXLSX(report, options);
+      } else {
+        exportToCSV(reportData, { filename: `homebake-report-${new Date().toISOString().split('T')[0]}.csv` });
+      }
+
+      toast.success(`${EXPORT_LABELS[kind]} report exported successfully!`);
     } catch (error) {
-      console.error('Error exporting PDF:', error);
-      toast.error('Failed to export PDF. Please try again.');
+      console.error(`Error exporting ${kind}:`, error);
+      toast.error(error instanceof Error && kind !== 'csv'
+        ? error.message
+        : `Failed to export ${EXPORT_LABELS[kind]}. Please try again.`);
     } finally {
-      setExportingPDF(false);
+      setExporting(null);
     }
   };
 
-  const handleCSVExport = () => {
-    try {
-      setExportingCSV(true);
-      
-      const options: ExportOptions = {
-        filename: `homebake-report-${new Date().toISOString().split('T')[0]}.csv`
-      };
+  return { exporting, handleExport };
+}
 
-      exportToCSV(reportData, options);
-      
-      toast.success('CSV report exported successfully!');
-    } catch (error) {
-      console.error('Error exporting CSV:', error);
-      toast.error('Failed to export CSV. Please try again.');
-    } finally {
-      setExportingCSV(false);
-    }
-  };
+const EXPORT_ICONS = { pdf: FileText, xlsx: Sheet, csv: FileSpreadsheet };
 
-  const isLoading = exportingPDF || exportingCSV;
+export default function ExportButtons(props: ExportButtonsProps) {
+  const { disabled = false } = props;
+  const { exporting, handleExport } = useReportExport(props);
 
   return (
     <div className="flex items-center gap-2 flex-wrap">
-      <Button
-        onClick={handlePDFExport}
-        disabled={disabled || isLoading}
-        variant="outline"
-        size="sm"
-        className="flex items-center gap-2"
-      >
-        {exportingPDF ? (
-          <Loader2 className="h-4 w-4 animate-spin" />
-        ) : (
-          <FileText className="h-4 w-4" />
-        )}
-        {exportingPDF ? 'Exporting...' : 'Export PDF'}
-      </Button>
-
-      <Button
-        onClick={handleCSVExport}
-        disabled={disabled || isLoading}
-        variant="outline"
-        size="sm"
-        className="flex items-center gap-2"
-      >
-        {exportingCSV ? (
-          <Loader2 className="h-4 w-4 animate-spin" />
-        ) : (
-          <FileSpreadsheet className="h-4 w-4" />
-        )}
-        {exportingCSV ? 'Exporting...' : 'Export CSV'}
-      </Button>
-
-      {isLoading && (
+      {(['pdf', 'xlsx', 'csv'] as const).map(kind => {
+        const Icon = EXPORT_ICONS[kind];
+        return (
+          <Button
+            key={kind}
+            onClick={() => handleExport(kind)}
+            disabled={disabled || exporting !== null}
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+          >
+            {exporting === kind ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Icon className="h-4 w-4" />
+            )}
+            {exporting === kind ? 'Exporting...' : `Export ${EXPORT_LABELS[kind]}`}
+          </Button>
+        );
+      })}
+
+      {exporting && (
         <span className="text-xs text-gray-500 flex items-center gap-1">
           <Loader2 className="h-3 w-3 animate-spin" />
           Processing export...
@@ -111,102 +96,44 @@ export default function ExportButtons({
 }
 
 // Alternative component for multiple export options
-export function ExportDropdown({
-  reportData,
-  elementId,
-  title,
-  subtitle,
-  disabled = false
-}: ExportButtonsProps) {
+export function ExportDropdown(props: ExportButtonsProps) {
+  const { disabled = false } = props;
   const [isOpen, setIsOpen] = useState(false);
-  const [exportingPDF, setExportingPDF] = useState(false);
-  const [exportingCSV, setExportingCSV] = useState(false);
-  const toast = useToast();
-
-  const handlePDFExport = async () => {
-    try {
-      setExportingPDF(true);
-      setIsOpen(false);
-      
-      const options: ExportOptions = {
-        title: title || 'HomeBake Report',
-        subtitle: subtitle || 'Business Performance Report',
-        filename: `homebake-report-${new Date().toISOString().split('T')[0]}.pdf`
-      };
-
-      await exportToPDF(elementId, reportData, options);
-      
-      toast.success('PDF report exported successfully!');
-    } catch (error) {
-      console.error('Error exporting PDF:', error);
-      toast.error('Failed to export PDF. Please try again.');
-    } finally {
-      setExportingPDF(false);
-    }
-  };
-
-  const handleCSVExport = () => {
-    try {
-      setExportingCSV(true);
-      setIsOpen(false);
-      
-      const options: ExportOptions = {
-        filename: `homebake-report-${new Date().toISOString().split('T')[0]}.csv`
-      };
-
-      exportToCSV(reportData, options);
-      
-      toast.success('CSV report exported successfully!');
-    } catch (error) {
-      console.error('Error exporting CSV:', error);
-      toast.error('Failed to export CSV. Please try again.');
-    } finally {
-      setExportingCSV(false);
-    }
-  };
-
-  const isLoading = exportingPDF || exportingCSV;
+  const { exporting, handleExport } = useReportExport(props);
 
   return (
     <div className="relative">
       <Button
         onClick={() => setIsOpen(!isOpen)}
-        disabled={disabled || isLoading}
+        disabled={disabled || exporting !== null}
         variant="outline"
         size="sm"
         className="flex items-center gap-2"
       >
-        <Download className="h-4 w-4" />
+        {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
         Export Report
       </Button>
 
       {isOpen && (
         <div className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg border border-gray-200 z-50">
           <div className="py-1">
-            <button
-              onClick={handlePDFExport}
-              disabled={isLoading}
-              className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
-            >
-              {exportingPDF ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : (
-                <FileText className="h-4 w-4" />
-              )}
-              {exportingPDF ? 'Exporting PDF...' : 'Export as PDF'}
-            </button>
-            <button
-              onClick={handleCSVExport}
-              disabled={isLoading}
-              className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
-            >
-              {exportingCSV ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : (
-                <FileSpreadsheet className="h-4 w-4" />
-              )}
-              {exportingCSV ? 'Exporting CSV...' : 'Export as CSV'}
-            </button>
+            {(['pdf', 'xlsx', 'csv'] as const).map(kind => {
+              const Icon = EXPORT_ICONS[kind];
+              return (
+                <button
+                  key={kind}
+                  onClick={() => {
+                    setIsOpen(false);
+                    handleExport(kind);
+                  }}
+                  disabled={exporting !== null}
+                  className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
+                >
+                  <Icon className="h-4 w-4" />
+                  Export as {EXPORT_LABELS[kind]}
+                </button>
+              );
+            })}
           </div>
         </div>
       )}
@@ -220,4 +147,4 @@ export function ExportDropdown({
       )}
     </div>
   );
-}
\ No newline at end of file
+}
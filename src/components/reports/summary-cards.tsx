@@ -3,6 +3,7 @@
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ReportSummary } from '@/lib/reports/queries';
+import { PROMOTION_KINDS, type PromotionKind } from '@/lib/promotions/evaluate';
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -13,7 +14,8 @@ import {
   BarChart3,
   Target,
   Clock,
-  Award
+  Award,
+  Tag
 } from 'lucide-react';
 
 interface SummaryCardsProps {
@@ -54,6 +56,10 @@ export default function SummaryCards({ reportData, loading = false }: SummaryCar
     );
   }
 
+  // Loaves per sale shows whether a promotion gets customers to buy more
+  const loavesPerSale = (loaves: number, sales: number) => (sales > 0 ? loaves / sales : 0).toFixed(1);
+  const promotionDiscounts = reportData.promotions.reduce((sum, promotion) => sum + promotion.discount, 0);
+
   const cards = [
     {
       title: 'Total Revenue',
@@ -107,7 +113,9 @@ export default function SummaryCards({ reportData, loading = false }: SummaryCar
       bgColor: 'bg-yellow-100',
       iconColor: 'text-yellow-600',
       textColor: 'text-yellow-800',
-      subtitle: 'Given to customers'
+      subtitle: promotionDiscounts > 0
+        ? `${formatCurrency(promotionDiscounts)} from promotions`
+        : 'Given to customers'
     },
     {
       title: 'Best Bread Type',
@@ -164,6 +172,54 @@ export default function SummaryCards({ reportData, loading = false }: SummaryCar
         ))}
       </div>
 
+      {/* Promotions */}
+      {reportData.promotions.length > 0 && (
+        <Card className="p-6">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="flex items-center justify-center w-8 h-8 rounded-full bg-yellow-100">
+              <Tag className="h-4 w-4 text-yellow-600" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Promotions</h3>
+              <p className="text-xs text-gray-500">
+                Without a promotion: {formatNumber(reportData.salesWithoutPromotion.sales)} sales,{' '}
+                {loavesPerSale(reportData.salesWithoutPromotion.loaves, reportData.salesWithoutPromotion.sales)} loaves per sale
+              </p>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-4 font-medium">Promotion</th>
+                  <th className="py-2 pr-4 font-medium text-right">Sales</th>
+                  <th className="py-2 pr-4 font-medium text-right">Loaves per sale</th>
+                  <th className="py-2 pr-4 font-medium text-right">Discount</th>
+                  <th className="py-2 font-medium text-right">Revenue</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reportData.promotions.map(promotion => (
+                  <tr key={promotion.promotionId} className="border-b last:border-0">
+                    <td className="py-2 pr-4">
+                      <div className="font-medium text-gray-900">{promotion.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {PROMOTION_KINDS[promotion.kind as PromotionKind]?.label ?? promotion.kind}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-4 text-right">{formatNumber(promotion.sales)}</td>
+                    <td className="py-2 pr-4 text-right">{loavesPerSale(promotion.loaves, promotion.sales)}</td>
+                    <td className="py-2 pr-4 text-right text-yellow-700">{formatCurrency(promotion.discount)}</td>
+                    <td className="py-2 text-right font-medium text-green-700">{formatCurrency(promotion.revenue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
       {/* Quick Insights */}
       <Card className="p-6">
         <div className="flex items-center gap-3 mb-4">
@@ -3,6 +3,7 @@
 import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
 import { supabase } from '@/lib/supabase/client';
 import type { Database } from '@/types/supabase';
+import type { ShiftType } from '@/types';
 
 type Tables = Database['public']['Tables'];
 
@@ -38,7 +39,7 @@ interface DataContextType {
   refreshData: () => Promise<void>;
   refreshProduction: () => Promise<void>;
   refreshSales: () => Promise<void>;
-  refreshBatches: (shift?: 'morning' | 'night') => Promise<void>;
+  refreshBatches: (shift?: ShiftType) => Promise<void>;
 }
 
 const DataContext = createContext<DataContextType | undefined>(undefined);
@@ -186,7 +187,7 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
   }, [withRetry]);
 
   // Add batch fetching function with shift filtering
-  const fetchBatches = useCallback(async (shift?: 'morning' | 'night') => {
+  const fetchBatches = useCallback(async (shift?: ShiftType) => {
     try {
       console.log(`🔄 Fetching batches${shift ? ` for ${shift} shift` : ''}...`);
       setConnectionStatus('connecting');
@@ -454,7 +455,7 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
     refreshData: () => refreshData(true),
     refreshProduction: fetchProductionLogs,
     refreshSales: fetchSalesLogs,
-    refreshBatches: (shift?: 'morning' | 'night') => fetchBatches(shift)
+    refreshBatches: (shift?: ShiftType) => fetchBatches(shift)
   };
 
   return (
@@ -1,9 +1,12 @@
 "use client";
 import React, { createContext, useContext, useState, useEffect, ReactNode, startTransition } from 'react';
 import { toast } from 'sonner';
+import { getAdjacentShiftKey, getShiftLabel } from '@/lib/shift-schedule/schedule';
+import { getActiveShiftSchedule } from '@/lib/utils/shift-utils';
+import type { ShiftType } from '@/types';
 // Removed unreliable performance scheduler import
 
-export type ShiftType = 'morning' | 'night';
+export type { ShiftType };
 
 interface ShiftContextType {
   currentShift: ShiftType;
@@ -18,8 +21,7 @@ const SHIFT_STORAGE_KEY = 'homebake-current-shift';
 function getStoredShift(): ShiftType | null {
   if (typeof window === 'undefined') return null;
   const stored = localStorage.getItem(SHIFT_STORAGE_KEY);
-  if (stored === 'morning' || stored === 'night') return stored;
-  return null;
+  return stored || null;
 }
 
 function setStoredShift(shift: ShiftType) {
@@ -72,16 +74,17 @@ export function ShiftProvider({ children }: { children: ReactNode }) {
     if (!isInitialLoad) {
       setTimeout(() => {
         try {
-          toast.success(`Shift switched to ${shift === 'morning' ? 'Morning' : 'Night'}`);
+          toast.success(`Shift switched to ${getShiftLabel(getActiveShiftSchedule(), shift)}`);
         } catch (error) {
-          console.log(`Shift switched to ${shift === 'morning' ? 'Morning' : 'Night'}`);
+          console.log(`Shift switched to ${getShiftLabel(getActiveShiftSchedule(), shift)}`);
         }
       }, 0);
     }
   };
 
+  // Moves on to the next shift in the schedule loaded by useShiftSchedule
   const toggleShift = () => {
-    const next = currentShift === 'morning' ? 'night' : 'morning';
+    const next = getAdjacentShiftKey(getActiveShiftSchedule(), currentShift);
     handleSetCurrentShift(next);
   };
 
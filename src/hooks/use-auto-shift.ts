@@ -1,62 +1,60 @@
 import { useEffect, useState } from 'react';
 import { getCurrentShiftInfo, ShiftType } from '@/lib/utils/shift-utils';
+import { useShiftSchedule } from './use-shift-schedule';
 
 interface AutoShiftState {
   currentShift: ShiftType;
+  currentShiftLabel: string;
   shiftStartTime: string;
   nextShiftTime: string;
   shiftStartDateTime: Date;
   shiftEndDateTime: Date;
+  isClosed: boolean;
   isLoading: boolean;
 }
 
 export function useAutoShift(): AutoShiftState {
+  const { schedule, isLoading: scheduleLoading } = useShiftSchedule();
+
   const [shiftState, setShiftState] = useState<AutoShiftState>(() => {
-    const shiftInfo = getCurrentShiftInfo();
+    const shiftInfo = getCurrentShiftInfo(schedule);
     console.log('🔄 useAutoShift: Initial shift info:', shiftInfo);
     return {
       currentShift: shiftInfo.currentShift,
+      currentShiftLabel: shiftInfo.currentShiftLabel,
       shiftStartTime: shiftInfo.shiftStartTime,
       nextShiftTime: shiftInfo.nextShiftTime,
       shiftStartDateTime: shiftInfo.shiftStartDateTime,
       shiftEndDateTime: shiftInfo.shiftEndDateTime,
-      isLoading: false,
+      isClosed: shiftInfo.isClosed,
+      isLoading: true,
     };
   });
 
   useEffect(() => {
     const updateShift = () => {
-      const shiftInfo = getCurrentShiftInfo();
+      const shiftInfo = getCurrentShiftInfo(schedule);
       console.log('🔄 useAutoShift: Updated shift info:', shiftInfo);
       setShiftState(prevState => ({
         ...prevState,
         currentShift: shiftInfo.currentShift,
+        currentShiftLabel: shiftInfo.currentShiftLabel,
         shiftStartTime: shiftInfo.shiftStartTime,
         nextShiftTime: shiftInfo.nextShiftTime,
         shiftStartDateTime: shiftInfo.shiftStartDateTime,
         shiftEndDateTime: shiftInfo.shiftEndDateTime,
-        isLoading: false,
+        isClosed: shiftInfo.isClosed,
+        isLoading: scheduleLoading,
       }));
     };
 
-    // Update immediately
+    // Update immediately (and whenever the schedule changes)
     updateShift();
 
-    // Calculate time until next shift change
-    const now = new Date();
-    const shiftInfo = getCurrentShiftInfo();
-    const timeUntilNextShift = shiftInfo.shiftEndDateTime.getTime() - now.getTime();
-
-    // Set up timer for next shift change
-    const shiftTimer = setTimeout(() => {
-      updateShift();
-      
-      // After shift change, set up 24-hour interval
-      const dailyTimer = setInterval(updateShift, 24 * 60 * 60 * 1000);
-      
-      // Clean up daily timer when component unmounts
-      return () => clearInterval(dailyTimer);
-    }, timeUntilNextShift);
+    // Set up timer for the next shift change from the schedule
+    const shiftInfo = getCurrentShiftInfo(schedule);
+    const timeUntilNextShift = Math.max(shiftInfo.shiftEndDateTime.getTime() - Date.now(), 0);
+    const shiftTimer = setTimeout(updateShift, timeUntilNextShift);
 
     // Also check every minute for edge cases
     const minuteTimer = setInterval(updateShift, 60 * 1000);
@@ -65,7 +63,7 @@ export function useAutoShift(): AutoShiftState {
       clearTimeout(shiftTimer);
       clearInterval(minuteTimer);
     };
-  }, []);
+  }, [schedule, scheduleLoading]);
 
   return shiftState;
 }
@@ -1,16 +1,17 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { getBatches, getActiveBatches, createBatch, updateBatch, completeBatch, cancelBatch, deleteBatch, getBatchStats, generateNextBatchNumber } from '@/lib/batches/api-actions';
+import type { ShiftType } from '@/types';
 
 // Query keys for batches
 export const batchQueryKeys = {
   all: ['batches'] as const,
-  active: (shift?: 'morning' | 'night') => [...batchQueryKeys.all, 'active', shift] as const,
-  stats: (shift?: 'morning' | 'night') => [...batchQueryKeys.all, 'stats', shift] as const,
+  active: (shift?: ShiftType) => [...batchQueryKeys.all, 'active', shift] as const,
+  stats: (shift?: ShiftType) => [...batchQueryKeys.all, 'stats', shift] as const,
   byId: (id: string) => [...batchQueryKeys.all, id] as const,
 };
 
 // Hook for all batches with production-optimized polling
-export function useBatches(pollingInterval = 30000, shift?: 'morning' | 'night') {
+export function useBatches(pollingInterval = 30000, shift?: ShiftType) {
   return useQuery({
     queryKey: [...batchQueryKeys.all, shift],
     queryFn: async () => {
@@ -27,7 +28,7 @@ export function useBatches(pollingInterval = 30000, shift?: 'morning' | 'night')
 }
 
 // Hook for active batches with production-optimized polling
-export function useActiveBatches(pollingInterval = 15000, shift?: 'morning' | 'night') {
+export function useActiveBatches(pollingInterval = 15000, shift?: ShiftType) {
   return useQuery({
     queryKey: batchQueryKeys.active(shift),
     queryFn: async () => {
@@ -46,7 +47,7 @@ export function useActiveBatches(pollingInterval = 15000, shift?: 'morning' | 'n
 }
 
 // Hook for batch statistics with polling
-export function useBatchStats(pollingInterval = 60000, shift?: 'morning' | 'night') {
+export function useBatchStats(pollingInterval = 60000, shift?: ShiftType) {
   return useQuery({
     queryKey: batchQueryKeys.stats(shift),
     queryFn: async () => {
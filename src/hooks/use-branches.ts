@@ -0,0 +1,67 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getBranches } from '@/lib/branches/actions';
+import type { Branch } from '@/types';
+
+const SELECTED_BRANCH_KEY = 'owner_selected_branch';
+
+// 'all' aggregates every branch on the owner dashboard
+export const ALL_BRANCHES = 'all';
+
+export const branchKeys = {
+  all: () => ['branches'] as const,
+  list: (includeInactive: boolean) => [...branchKeys.all(), 'list', includeInactive] as const,
+};
+
+export function useBranches(includeInactive: boolean = false) {
+  const query = useQuery({
+    queryKey: branchKeys.list(includeInactive),
+    queryFn: () => getBranches(includeInactive),
+    staleTime: 5 * 60 * 1000, // Branches change rarely
+    refetchOnWindowFocus: false,
+  });
+
+  return {
+    branches: query.data ?? ([] as Branch[]),
+    isLoading: query.isLoading,
+    error: query.error ? (query.error as Error).message : null,
+    refetch: query.refetch,
+  };
+}
+
+/**
+ * Branch the owner is currently looking at, remembered across visits.
+ * Returns ALL_BRANCHES or a branch id; `branchId` is null when aggregating.
+ */
+export function useSelectedBranch() {
+  const [selectedBranch, setSelectedBranchState] = useState<string>(ALL_BRANCHES);
+
+  // Load the last selection from localStorage on mount
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(SELECTED_BRANCH_KEY);
+      if (stored) {
+        setSelectedBranchState(stored);
+      }
+    } catch (error) {
+      console.error('Error loading selected branch:', error);
+    }
+  }, []);
+
+  const setSelectedBranch = useCallback((branch: string) => {
+    setSelectedBranchState(branch);
+    try {
+      localStorage.setItem(SELECTED_BRANCH_KEY, branch);
+    } catch (error) {
+      console.error('Error saving selected branch:', error);
+    }
+  }, []);
+
+  return {
+    selectedBranch,
+    branchId: selectedBranch === ALL_BRANCHES ? null : selectedBranch,
+    setSelectedBranch,
+  };
+}
@@ -0,0 +1,28 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { getShiftForecast } from '@/lib/forecasting/actions';
+
+export const demandForecastKeys = {
+  all: () => ['demand-forecast'] as const,
+  shift: (shift?: string) => [...demandForecastKeys.all(), shift ?? 'next'] as const,
+};
+
+/**
+ * Suggested production per bread type.
+ * Pass a shift key for its current or next run; omit it for the next shift.
+ */
+export function useShiftForecast(shift?: string, enabled: boolean = true) {
+  const query = useQuery({
+    queryKey: demandForecastKeys.shift(shift),
+    queryFn: () => getShiftForecast({ shift }),
+    enabled,
+    staleTime: 15 * 60 * 1000, // History only changes as the shift sells
+    refetchOnWindowFocus: false,
+  });
+
+  return {
+    forecast: query.data ?? null,
+    isLoading: query.isLoading,
+  };
+}
@@ -6,6 +6,7 @@ import { useRealtimeBatches } from '@/hooks/use-realtime-batches';
 import { useEffect, useState } from 'react';
 import { useAuth } from '@/hooks/use-auth';
 import React from 'react'; // Added missing import for React
+import type { ShiftType } from '@/types';
 
 interface InventoryItem {
   id: string;
@@ -13,6 +14,8 @@ interface InventoryItem {
   size: string | null;
   price: number;
   quantity: number;
+  produced?: number;
+  carriedOver?: number; // loaves carried over from the previous shift, included in quantity
   batches?: number;
   archivedBatches?: number;
 }
@@ -22,6 +25,7 @@ interface ShiftInventoryData {
   totalUnits: number;
   totalBatches: number;
   totalArchivedBatches: number;
+  totalCarriedOver: number;
   source: 'batches' | 'all_batches' | 'archived';
   recordCount: number;
   shiftContext: {
@@ -31,7 +35,7 @@ interface ShiftInventoryData {
 }
 
 // Fetch inventory data from the enhanced API endpoint
-async function fetchShiftInventory(shift: 'morning' | 'night', date?: string): Promise<ShiftInventoryData> {
+async function fetchShiftInventory(shift: ShiftType, date?: string): Promise<ShiftInventoryData> {
   // Use current date if no date provided, or use the provided date
   const targetDate = date || new Date().toISOString().split('T')[0];
   
@@ -58,6 +62,7 @@ async function fetchShiftInventory(shift: 'morning' | 'night', date?: string): P
     totalUnits: result.totalUnits || 0,
     totalBatches: result.totalBatches || 0,
     totalArchivedBatches: result.totalArchivedBatches || 0,
+    totalCarriedOver: result.totalCarriedOver || 0,
     source: result.source || 'batches',
     recordCount: result.recordCount || 0,
     shiftContext: result.shiftContext || {
@@ -134,6 +139,7 @@ export function useInventoryData(user?: any) {
       totalUnits: 0, 
       totalBatches: 0,
       totalArchivedBatches: 0,
+      totalCarriedOver: 0,
       source: 'batches' as const, 
       recordCount: 0,
       shiftContext: {
@@ -184,6 +190,7 @@ export function useInventoryData(user?: any) {
     source: inventoryData?.source || 'batches',
     totalBatches: typeof inventoryData?.totalBatches === 'number' ? inventoryData.totalBatches : 0,
     totalArchivedBatches: typeof inventoryData?.totalArchivedBatches === 'number' ? inventoryData.totalArchivedBatches : 0,
+    totalCarriedOver: typeof inventoryData?.totalCarriedOver === 'number' ? inventoryData.totalCarriedOver : 0,
     recordCount: typeof inventoryData?.recordCount === 'number' ? inventoryData.recordCount : 0,
     timeUntilNextShift: timeUntilNextShift,
     nextShiftTime: currentShift === 'morning' ? '10:00 PM' : '10:00 AM',
@@ -6,6 +6,8 @@ import { queryKeys } from '@/lib/react-query/query-client';
 import { toast } from 'sonner';
 import { useEffect } from 'react';
 import type { Database } from '@/types/supabase';
+import type { ShiftType } from '@/types';
+import { wastePercent } from '@/lib/waste/waste';
 
 type BreadType = Database['public']['Tables']['bread_types']['Row'];
 type ProductionLog = Database['public']['Tables']['production_logs']['Row'];
@@ -19,6 +21,9 @@ export interface InventoryItem {
   total_produced: number;
   total_sold: number;
   total_leftover: number;
+  total_wasted: number;
+  waste_percent: number; // of produced
+  waste_by_shift: Record<string, { produced: number; wasted: number; waste_percent: number }>; // keyed by the shifts in the logs
   current_stock: number;
   last_production: string | null;
   last_sale: string | null;
@@ -86,17 +91,35 @@ async function fetchCurrentInventory(): Promise<InventoryItem[]> {
     throw new Error('Failed to fetch sales logs');
   }
 
+  const { data: wasteLogs, error: wasteError } = await supabase
+    .from('waste_logs')
+    .select('bread_type_id, shift, quantity')
+    .gte('created_at', thirtyDaysAgo.toISOString())
+    .limit(1000);
+
+  if (wasteError) {
+    throw new Error('Failed to fetch waste logs');
+  }
+
   // Calculate inventory for each bread type - ALWAYS show ALL bread types
   const inventory: InventoryItem[] = breadTypes.map(breadType => {
     const production = productionLogs?.filter(log => log.bread_type_id === breadType.id) || [];
     const sales = salesLogs?.filter(log => log.bread_type_id === breadType.id) || [];
+    const waste = wasteLogs?.filter(log => log.bread_type_id === breadType.id) || [];
 
     const totalProduced = production.reduce((sum, log) => sum + log.quantity, 0);
     const totalSold = sales.reduce((sum, log) => sum + log.quantity, 0);
     const totalLeftover = sales.reduce((sum, log) => sum + (log.leftover || 0), 0);
-    
-    // Current stock = produced - sold + leftover
-    const currentStock = totalProduced - totalSold + totalLeftover;
+    const totalWasted = waste.reduce((sum, log) => sum + log.quantity, 0);
+
+    // Current stock = produced - sold + leftover - wasted
+    const currentStock = totalProduced - totalSold + totalLeftover - totalWasted;
+
+    const shiftWaste = (shift: ShiftType) => {
+      const produced = production.filter(log => log.shift === shift).reduce((sum, log) => sum + log.quantity, 0);
+      const wasted = waste.filter(log => log.shift === shift).reduce((sum, log) => sum + log.quantity, 0);
+      return { produced, wasted, waste_percent: wastePercent(wasted, produced) };
+    };
 
     // Get last production and sale times
     const lastProduction = production.length > 0 
@@ -115,6 +138,11 @@ async function fetchCurrentInventory(): Promise<InventoryItem[]> {
       total_produced: totalProduced,
       total_sold: totalSold,
       total_leftover: totalLeftover,
+      total_wasted: totalWasted,
+      waste_percent: wastePercent(totalWasted, totalProduced),
+      waste_by_shift: Object.fromEntries(
+        Array.from(new Set([...production, ...waste].map(log => log.shift))).map(shift => [shift, shiftWaste(shift)])
+      ),
       current_stock: Math.max(0, currentStock), // Ensure non-negative
       last_production: lastProduction,
       last_sale: lastSale,
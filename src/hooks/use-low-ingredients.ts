@@ -0,0 +1,30 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { getLowIngredients } from '@/lib/ingredients/actions';
+import type { LowIngredient } from '@/types';
+
+export const lowIngredientKeys = {
+  all: () => ['low-ingredients'] as const,
+};
+
+/**
+ * Ingredients at or below their reorder level.
+ * Owners get every branch; managers only their own (RLS).
+ */
+export function useLowIngredients(enabled: boolean = true) {
+  const query = useQuery({
+    queryKey: lowIngredientKeys.all(),
+    queryFn: () => getLowIngredients(),
+    enabled,
+    staleTime: 60 * 1000,
+    refetchInterval: 5 * 60 * 1000, // Stock only drops when batches complete
+    refetchIntervalInBackground: false,
+  });
+
+  return {
+    lowIngredients: query.data ?? ([] as LowIngredient[]),
+    isLoading: query.isLoading,
+    refetch: query.refetch,
+  };
+}
@@ -2,23 +2,24 @@
 
 import { useQuery } from '@tanstack/react-query';
 import { Logger } from '@/lib/utils/logger';
+import { getLowStock } from '@/lib/low-stock/actions';
+import type { LowStockItem, LowStockLevel } from '@/lib/low-stock/evaluate';
+
+interface LowStockTrackerItem {
+  id: string;
+  name: string;
+  available: number;
+  produced: number;
+  level: LowStockLevel;
+}
 
 interface LowStockData {
   total: number;
   morningCount: number;
   nightCount: number;
-  morningItems: Array<{
-    id: string;
-    name: string;
-    available: number;
-    produced: number;
-  }>;
-  nightItems: Array<{
-    id: string;
-    name: string;
-    available: number;
-    produced: number;
-  }>;
+  criticalCount: number;
+  morningItems: LowStockTrackerItem[];
+  nightItems: LowStockTrackerItem[];
   lastUpdated: string;
 }
 
@@ -30,68 +31,33 @@ interface UseLowStockTrackerReturn {
 }
 
 /**
- * Real-time low stock tracker that monitors both performance pages
- * This replaces the complex database-based tracking with direct monitoring
+ * Real-time low stock tracker for both shifts, polling the server-side
+ * low-stock evaluator
  */
-export function useLowStockTracker(): UseLowStockTrackerReturn {
+export function useLowStockTracker(branchId?: string | null): UseLowStockTrackerReturn {
   
   const fetchLowStockData = async (): Promise<LowStockData> => {
     try {
-      const nigeriaTime = new Date(new Date().toLocaleString("en-US", {timeZone: "Africa/Lagos"}));
-      const currentDate = nigeriaTime.toISOString().split('T')[0];
-      
-      // Fetch data from both performance pages in parallel
-      const [morningResponse, nightResponse] = await Promise.all([
-        fetch(`/api/sales-rep/production?shift=morning&date=${currentDate}`, {
-          headers: {
-            'Cache-Control': 'no-cache',
-            'Pragma': 'no-cache',
-          },
-          cache: 'no-store',
-        }),
-        fetch(`/api/sales-rep/production?shift=night&date=${currentDate}`, {
-          headers: {
-            'Cache-Control': 'no-cache',
-            'Pragma': 'no-cache',
-          },
-          cache: 'no-store',
-        })
-      ]);
-
-      if (!morningResponse.ok || !nightResponse.ok) {
-        throw new Error('Failed to fetch production data');
-      }
-
-      const [morningData, nightData] = await Promise.all([
-        morningResponse.json(),
-        nightResponse.json()
-      ]);
+      // Evaluated on the server against each bread type's threshold for the shift
+      const items = await getLowStock(branchId);
+      const toItem = (item: LowStockItem) => ({
+        id: item.bread_type_id,
+        name: item.bread_type_name,
+        available: item.available,
+        produced: item.produced,
+        level: item.level
+      });
 
-      // Filter items with low stock (available <= 5 and available > 0)
-      const morningLowStock = (morningData.productionItems || []).filter((item: any) => 
-        item.available <= 5 && item.available > 0
-      );
-      
-      const nightLowStock = (nightData.productionItems || []).filter((item: any) => 
-        item.available <= 5 && item.available > 0
-      );
+      const morningLowStock = items.filter(item => item.shift === 'morning');
+      const nightLowStock = items.filter(item => item.shift === 'night');
 
       const result: LowStockData = {
-        total: morningLowStock.length + nightLowStock.length,
+        total: items.length,
         morningCount: morningLowStock.length,
         nightCount: nightLowStock.length,
-        morningItems: morningLowStock.map((item: any) => ({
-          id: item.id,
-          name: item.name,
-          available: item.available,
-          produced: item.produced
-        })),
-        nightItems: nightLowStock.map((item: any) => ({
-          id: item.id,
-          name: item.name,
-          available: item.available,
-          produced: item.produced
-        })),
+        criticalCount: items.filter(item => item.level === 'critical').length,
+        morningItems: morningLowStock.map(toItem),
+        nightItems: nightLowStock.map(toItem),
         lastUpdated: new Date().toISOString()
       };
 
@@ -111,6 +77,7 @@ export function useLowStockTracker(): UseLowStockTrackerReturn {
         total: 0,
         morningCount: 0,
         nightCount: 0,
+        criticalCount: 0,
         morningItems: [],
         nightItems: [],
         lastUpdated: new Date().toISOString()
@@ -125,7 +92,7 @@ export function useLowStockTracker(): UseLowStockTrackerReturn {
     error,
     refetch
   } = useQuery({
-    queryKey: ['low-stock-tracker'],
+    queryKey: ['low-stock-tracker', branchId ?? 'all'],
     queryFn: fetchLowStockData,
     staleTime: 5 * 1000, // 5 seconds
     gcTime: 30 * 1000, // 30 seconds
@@ -141,6 +108,7 @@ export function useLowStockTracker(): UseLowStockTrackerReturn {
     total: 0,
     morningCount: 0,
     nightCount: 0,
+    criticalCount: 0,
     morningItems: [],
     nightItems: [],
     lastUpdated: new Date().toISOString()
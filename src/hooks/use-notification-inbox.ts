@@ -0,0 +1,82 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  getInbox,
+  getUnreadNotificationCount,
+  markAllNotificationsRead,
+  setNotificationsArchived,
+  setNotificationsRead,
+} from '@/lib/notifications/actions';
+import type { InboxNotification, InboxView } from '@/lib/notifications/inbox';
+
+export const notificationInboxKeys = {
+  all: () => ['notification-inbox'] as const,
+  unreadCount: () => [...notificationInboxKeys.all(), 'unread-count'] as const,
+  list: (view: InboxView) => [...notificationInboxKeys.all(), 'list', view] as const,
+};
+
+/**
+ * Unread inbox entries for the bell, counted by the database. Polled so
+ * new activity shows up without a reload.
+ */
+export function useUnreadNotificationCount() {
+  const query = useQuery({
+    queryKey: notificationInboxKeys.unreadCount(),
+    queryFn: getUnreadNotificationCount,
+    refetchInterval: 30 * 1000,
+    refetchIntervalInBackground: false,
+  });
+
+  return {
+    unreadCount: query.data ?? 0,
+    isLoading: query.isLoading,
+  };
+}
+
+/**
+ * One view of the signed-in user's inbox, with read and archive actions
+ * that refresh the list and the badge
+ */
+export function useNotificationInbox(view: InboxView) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: notificationInboxKeys.list(view),
+    queryFn: () => getInbox(view),
+    refetchInterval: 30 * 1000,
+    refetchIntervalInBackground: false,
+  });
+
+  const settle = (result: { success: boolean; error?: string }, failure: string) => {
+    if (!result.success) toast.error(result.error || failure);
+    return queryClient.invalidateQueries({ queryKey: notificationInboxKeys.all() });
+  };
+
+  const markRead = useMutation({
+    mutationFn: ({ ids, read }: { ids: string[]; read: boolean }) => setNotificationsRead({ ids }, read),
+    onSuccess: result => settle(result, 'Failed to update notifications'),
+  });
+
+  const markAllRead = useMutation({
+    mutationFn: markAllNotificationsRead,
+    onSuccess: result => settle(result, 'Failed to mark notifications read'),
+  });
+
+  const archive = useMutation({
+    mutationFn: ({ ids, archived }: { ids: string[]; archived: boolean }) => setNotificationsArchived({ ids, archived }),
+    onSuccess: result => settle(result, 'Failed to archive notifications'),
+  });
+
+  return {
+    notifications: query.data ?? ([] as InboxNotification[]),
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    refetch: query.refetch,
+    markRead: (ids: string[], read: boolean = true) => markRead.mutateAsync({ ids, read }),
+    markAllRead: () => markAllRead.mutateAsync(),
+    archive: (ids: string[], archived: boolean = true) => archive.mutateAsync({ ids, archived }),
+    isUpdating: markRead.isPending || markAllRead.isPending || archive.isPending,
+  };
+}
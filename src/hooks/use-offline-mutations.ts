@@ -7,6 +7,7 @@ import { OfflineStorage } from '@/lib/offline/storage';
 import { useInventoryMutations } from './use-inventory';
 import { toast } from 'sonner';
 import type { Database } from '@/types/supabase';
+import type { ShiftType } from '@/types';
 
 type SalesLogInsert = Database['public']['Tables']['sales_logs']['Insert'];
 type ProductionLogInsert = Database['public']['Tables']['production_logs']['Insert'];
@@ -31,8 +32,15 @@ export function useOfflineSalesMutation(userId: string) {
           created_at: new Date().toISOString()
         };
 
-        // Add to offline queue
-        await OfflineQueue.addSalesLog(salesData, userId);
+        // Add to offline queue; synced once per idempotency key
+        await OfflineQueue.addSalesAction({
+          bread_type_id: salesData.bread_type_id,
+          quantity: salesData.quantity,
+          unit_price: salesData.unit_price ?? 0,
+          discount: salesData.discount ?? undefined,
+          shift: salesData.shift as ShiftType,
+          recorded_by: salesData.recorded_by
+        }, userId);
 
         // Cache locally with optimistic data
         await OfflineStorage.cacheSalesLog({
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { OfflineSync, SyncResult, SyncStatus } from '@/lib/offline/sync';
-import { OfflineQueue, queueEvents, QueueEvent } from '@/lib/offline/queue';
+import { OfflineQueue, queueEvents, QueueEvent, type QueuedAction, type SyncLogEntry } from '@/lib/offline/queue';
 import { OfflineStorage, initializeOfflineDB } from '@/lib/offline/storage';
 import { toast } from 'sonner';
 
@@ -14,6 +14,9 @@ export interface OfflineState {
   syncStatus: SyncStatus;
   pendingCount: number;
   failedCount: number;
+  conflictCount: number;
+  conflicts: QueuedAction[];
+  syncLog: SyncLogEntry[];
   lastSyncTime?: number;
   syncHealth: {
     isHealthy: boolean;
@@ -26,6 +29,7 @@ export interface OfflineActions {
   retryFailedActions: () => Promise<SyncResult>;
   clearOfflineData: () => Promise<void>;
   getQueueStats: () => Promise<any>;
+  resolveConflict: (actionId: string, resolution: 'keep_mine' | 'use_theirs') => Promise<void>;
 }
 
 export function useOffline(userId?: string): OfflineState & OfflineActions {
@@ -40,6 +44,9 @@ export function useOffline(userId?: string): OfflineState & OfflineActions {
     },
     pendingCount: 0,
     failedCount: 0,
+    conflictCount: 0,
+    conflicts: [],
+    syncLog: [],
     syncHealth: {
       isHealthy: true,
       issues: []
@@ -65,10 +72,12 @@ export function useOffline(userId?: string): OfflineState & OfflineActions {
   // Update state from storage
   const updateState = useCallback(async () => {
     try {
-      const [stats, health, syncStatus] = await Promise.all([
+      const [stats, health, syncStatus, conflicts, syncLog] = await Promise.all([
         OfflineQueue.getQueueStats(),
         OfflineSync.getSyncHealth(),
-        Promise.resolve(OfflineSync.getCurrentStatus())
+        Promise.resolve(OfflineSync.getCurrentStatus()),
+        OfflineQueue.getConflictActions(),
+        OfflineQueue.getSyncLog()
       ]);
 
       setState(prev => ({
@@ -78,6 +87,9 @@ export function useOffline(userId?: string): OfflineState & OfflineActions {
         syncStatus,
         pendingCount: stats.pending,
         failedCount: stats.failed,
+        conflictCount: stats.conflicts,
+        conflicts,
+        syncLog,
         lastSyncTime: health.lastSyncTime,
         syncHealth: {
           isHealthy: health.isHealthy,
@@ -171,6 +183,16 @@ export function useOffline(userId?: string): OfflineState & OfflineActions {
     }
   }, [updateState]);
 
+  // Keep this device's version or the other one, then sync what is left
+  const resolveConflict = useCallback(async (actionId: string, resolution: 'keep_mine' | 'use_theirs') => {
+    await OfflineQueue.resolveConflict(actionId, resolution);
+    await updateState();
+
+    if (resolution === 'keep_mine' && navigator.onLine && !syncInProgress.current) {
+      await triggerSync(true);
+    }
+  }, [updateState, triggerSync]);
+
   // Get queue statistics
   const getQueueStats = useCallback(async () => {
     return await OfflineQueue.getQueueStats();
@@ -192,6 +214,13 @@ export function useOffline(userId?: string): OfflineState & OfflineActions {
             console.warn('Action failed:', event.error);
           }
           break;
+        case 'action_conflict':
+          updateState();
+          toast.warning('Someone else changed data you edited offline. Open the sync panel to resolve it.');
+          break;
+        case 'sync_log_updated':
+          updateState();
+          break;
         case 'sync_started':
           setState(prev => ({ ...prev, isSyncing: true }));
           break;
@@ -206,6 +235,8 @@ export function useOffline(userId?: string): OfflineState & OfflineActions {
     queueEvents.on('action_added', handleQueueEvent);
     queueEvents.on('action_completed', handleQueueEvent);
     queueEvents.on('action_failed', handleQueueEvent);
+    queueEvents.on('action_conflict', handleQueueEvent);
+    queueEvents.on('sync_log_updated', handleQueueEvent);
     queueEvents.on('sync_started', handleQueueEvent);
     queueEvents.on('sync_completed', handleQueueEvent);
 
@@ -213,6 +244,8 @@ export function useOffline(userId?: string): OfflineState & OfflineActions {
       queueEvents.off('action_added', handleQueueEvent);
       queueEvents.off('action_completed', handleQueueEvent);
       queueEvents.off('action_failed', handleQueueEvent);
+      queueEvents.off('action_conflict', handleQueueEvent);
+      queueEvents.off('sync_log_updated', handleQueueEvent);
       queueEvents.off('sync_started', handleQueueEvent);
       queueEvents.off('sync_completed', handleQueueEvent);
     };
@@ -290,7 +323,8 @@ export function useOffline(userId?: string): OfflineState & OfflineActions {
     sync: triggerSync,
     retryFailedActions,
     clearOfflineData,
-    getQueueStats
+    getQueueStats,
+    resolveConflict
   };
 }
 
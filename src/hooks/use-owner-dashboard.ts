@@ -2,7 +2,7 @@
 
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase/client';
-import { getTodayRevenue, getTodayBatchCount, getTodayRevenueByShift } from '@/lib/dashboard/server-actions';
+import { getTodayRevenue, getTodayBatchCount, getTodayRevenueByShift, getTodayRevenueByBranch } from '@/lib/dashboard/server-actions';
 import { useLowStockTracker } from './use-low-stock-tracker';
 import { useTodayBatchesTracker } from './use-today-batches-tracker';
 
@@ -19,6 +19,7 @@ interface OwnerDashboardStats {
   lowStockMorning: number;
   lowStockNight: number;
   lowStockRealTime: boolean;
+  revenueByBranch: Array<{ branchId: string; branchName: string; revenue: number }>;
   lastUpdate: string;
 }
 
@@ -30,15 +31,19 @@ interface UseOwnerDashboardReturn {
 }
 
 // Owner dashboard query keys
+// branchId null = all branches aggregated
 const ownerDashboardKeys = {
   all: () => ['ownerDashboard'] as const,
-  stats: () => [...ownerDashboardKeys.all(), 'stats'] as const,
-  staffOnline: () => [...ownerDashboardKeys.all(), 'staffOnline'] as const,
+  stats: (branchId: string | null) => [...ownerDashboardKeys.all(), 'stats', branchId ?? 'all'] as const,
+  staffOnline: (branchId: string | null) => [...ownerDashboardKeys.all(), 'staffOnline', branchId ?? 'all'] as const,
+  revenueByShift: (branchId: string | null) => [...ownerDashboardKeys.all(), 'revenueByShift', branchId ?? 'all'] as const,
+  revenueByBranch: () => [...ownerDashboardKeys.all(), 'revenueByBranch'] as const,
 };
 
 // API fetcher for staff online count
-const fetchStaffOnlineCount = async (): Promise<{ online: number; total: number }> => {
-  const response = await fetch('/api/dashboard/staff-online', {
+const fetchStaffOnlineCount = async (branchId: string | null): Promise<{ online: number; total: number }> => {
+  const query = branchId ? `?branch_id=${branchId}` : '';
+  const response = await fetch(`/api/dashboard/staff-online${query}`, {
     method: 'GET',
     headers: {
       'Content-Type': 'application/json',
@@ -61,14 +66,14 @@ const fetchStaffOnlineCount = async (): Promise<{ online: number; total: number
   };
 };
 
-export function useOwnerDashboard(): UseOwnerDashboardReturn {
+export function useOwnerDashboard(branchId: string | null = null): UseOwnerDashboardReturn {
   // Real-time low stock tracking hook
   const { 
     lowStockData, 
     isLoading: lowStockLoading, 
     error: lowStockError,
     refetch: refreshLowStock 
-  } = useLowStockTracker();
+  } = useLowStockTracker(branchId);
 
   // Real-time today batches tracking hook
   const { 
@@ -76,12 +81,12 @@ export function useOwnerDashboard(): UseOwnerDashboardReturn {
     isLoading: todayBatchesLoading, 
     error: todayBatchesError,
     refetch: refreshTodayBatches 
-  } = useTodayBatchesTracker();
+  } = useTodayBatchesTracker(branchId);
 
   // React Query for staff online count with 15-second polling (same as active batches)
   const { data: staffData, error: staffError, refetch: refetchStaff } = useQuery({
-    queryKey: ownerDashboardKeys.staffOnline(),
-    queryFn: fetchStaffOnlineCount,
+    queryKey: ownerDashboardKeys.staffOnline(branchId),
+    queryFn: () => fetchStaffOnlineCount(branchId),
     refetchInterval: 15000, // 15 seconds - same as active batches for staff responsiveness
     refetchIntervalInBackground: false,
     refetchOnWindowFocus: true,
@@ -93,8 +98,8 @@ export function useOwnerDashboard(): UseOwnerDashboardReturn {
 
   // React Query for revenue with shift breakdown - 30-second polling (less critical)
   const { data: revenueData, error: revenueError, refetch: refetchRevenue } = useQuery({
-    queryKey: [...ownerDashboardKeys.all(), 'revenueByShift'],
-    queryFn: getTodayRevenueByShift,
+    queryKey: ownerDashboardKeys.revenueByShift(branchId),
+    queryFn: () => getTodayRevenueByShift(branchId),
     refetchInterval: 30000, // 30 seconds for revenue
     refetchIntervalInBackground: false,
     refetchOnWindowFocus: true,
@@ -104,6 +109,18 @@ export function useOwnerDashboard(): UseOwnerDashboardReturn {
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 10000),
   });
 
+  // Per-branch revenue split, only needed while aggregating all branches
+  const { data: branchRevenueData, refetch: refetchBranchRevenue } = useQuery({
+    queryKey: ownerDashboardKeys.revenueByBranch(),
+    queryFn: getTodayRevenueByBranch,
+    enabled: branchId === null,
+    refetchInterval: 30000,
+    refetchIntervalInBackground: false,
+    refetchOnWindowFocus: true,
+    staleTime: 20000,
+    retry: 2,
+  });
+
   // Combine all data into stats format
   const stats: OwnerDashboardStats = {
     todayRevenue: revenueData?.total || 0,
@@ -118,6 +135,7 @@ export function useOwnerDashboard(): UseOwnerDashboardReturn {
     lowStockMorning: lowStockData?.morningCount || 0,
     lowStockNight: lowStockData?.nightCount || 0,
     lowStockRealTime: (lowStockData?.total || 0) > 0,
+    revenueByBranch: branchId === null ? branchRevenueData || [] : [],
     lastUpdate: new Date().toISOString()
   };
 
@@ -127,6 +145,7 @@ export function useOwnerDashboard(): UseOwnerDashboardReturn {
   const refetch = () => {
     refetchStaff();
     refetchRevenue();
+    if (branchId === null) refetchBranchRevenue();
     refreshLowStock();
     refreshTodayBatches();
   };
@@ -0,0 +1,53 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { getProductionPlan, getProductionVariance } from '@/lib/production/plan-actions';
+import type { ProductionPlanItem, ShiftType } from '@/types';
+
+interface VarianceFilters {
+  startDate: string;
+  endDate: string;
+  shift?: ShiftType;
+  branchId?: string | null;
+}
+
+export const productionPlanKeys = {
+  all: () => ['production-plan'] as const,
+  plan: (date: string, shift: ShiftType) => [...productionPlanKeys.all(), 'plan', date, shift] as const,
+  variance: (filters: VarianceFilters) => [...productionPlanKeys.all(), 'variance', filters] as const,
+};
+
+/**
+ * Planned quantities for the user's branch on a date and shift.
+ */
+export function useProductionPlan(date: string, shift: ShiftType, enabled: boolean = true) {
+  const query = useQuery({
+    queryKey: productionPlanKeys.plan(date, shift),
+    queryFn: () => getProductionPlan(date, shift),
+    enabled,
+    staleTime: 5 * 60 * 1000, // Plans are filled in ahead of the shift
+  });
+
+  return {
+    plan: query.data ?? ([] as ProductionPlanItem[]),
+    isLoading: query.isLoading,
+  };
+}
+
+/**
+ * Planned vs actual production over a date range.
+ */
+export function useProductionVariance(filters: VarianceFilters, enabled: boolean = true) {
+  const query = useQuery({
+    queryKey: productionPlanKeys.variance(filters),
+    queryFn: () => getProductionVariance(filters),
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return {
+    variance: query.data,
+    isLoading: query.isLoading,
+    refetch: query.refetch,
+  };
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getActivePromotions } from '@/lib/promotions/actions';
+import { bestPromotion, type AppliedPromotion, type Promotion } from '@/lib/promotions/evaluate';
+import type { ShiftType } from '@/types';
+import { useShiftSchedule } from './use-shift-schedule';
+
+export const promotionKeys = {
+  all: () => ['promotions'] as const,
+  active: () => [...promotionKeys.all(), 'active'] as const,
+  list: () => [...promotionKeys.all(), 'list'] as const,
+};
+
+export function useActivePromotions() {
+  const query = useQuery({
+    queryKey: promotionKeys.active(),
+    queryFn: getActivePromotions,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return {
+    promotions: query.data ?? ([] as Promotion[]),
+    isLoading: query.isLoading,
+  };
+}
+
+/**
+ * The promotion the sales form should apply to what has been entered so
+ * far, or null. Recomputed as the quantity changes; the server checks it
+ * again when the sale is saved.
+ */
+export function useSalePromotion(sale: {
+  breadTypeId: string;
+  quantity: number;
+  unitPrice: number;
+  shift: ShiftType;
+}): AppliedPromotion | null {
+  const { promotions } = useActivePromotions();
+  const { schedule } = useShiftSchedule();
+
+  return useMemo(() => {
+    if (!sale.breadTypeId || sale.quantity <= 0) return null;
+    return bestPromotion(promotions, {
+      bread_type_id: sale.breadTypeId,
+      quantity: sale.quantity,
+      unit_price: sale.unitPrice,
+      shift: sale.shift,
+      at: new Date(),
+      timeZone: schedule.timezone,
+    });
+  }, [promotions, schedule.timezone, sale.breadTypeId, sale.quantity, sale.unitPrice, sale.shift]);
+}
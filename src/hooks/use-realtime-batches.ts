@@ -4,10 +4,11 @@ import { useEffect, useRef, useCallback } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase/client';
 import { batchQueryKeys } from './use-batches-query';
+import type { ShiftType } from '@/types';
 
 interface UseRealtimeBatchesOptions {
   enabled?: boolean;
-  shift?: 'morning' | 'night';
+  shift?: ShiftType;
   onBatchChange?: (event: 'INSERT' | 'UPDATE' | 'DELETE', payload: any) => void;
 }
 
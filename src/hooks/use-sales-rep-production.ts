@@ -5,6 +5,7 @@ import { useEffect, useCallback } from 'react';
 import { useShift } from '@/contexts/ShiftContext';
 import { supabase } from '@/lib/supabase/client';
 import { RealtimeChannel } from '@supabase/supabase-js';
+import type { ShiftType } from '@/types';
 
 interface ProductionItem {
   id: string;
@@ -27,7 +28,7 @@ interface SalesRepProductionData {
   totalUnits: number;
   source: 'batches' | 'all_batches' | 'cleared';
   isEmpty: boolean;
-  shift?: 'morning' | 'night';
+  shift?: ShiftType;
   currentTime?: string;
   currentHour?: number;
   reason?: string;
@@ -36,7 +37,7 @@ interface SalesRepProductionData {
 
 // Fetch production items for sales rep via API
 async function fetchSalesRepProduction(
-  shift: 'morning' | 'night'
+  shift: ShiftType
 ): Promise<SalesRepProductionData> {
   // Always use current Nigeria date for clearing logic
   const nigeriaTime = new Date(new Date().toLocaleString("en-US", {timeZone: "Africa/Lagos"}));
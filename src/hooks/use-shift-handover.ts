@@ -0,0 +1,31 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { getLatestShiftHandover } from '@/lib/shift-handovers/actions';
+import { shiftSwitchState } from '@/lib/shift-handovers/handover';
+import type { ShiftType } from '@/types';
+
+export const shiftHandoverKeys = {
+  all: () => ['shift-handovers'] as const,
+  latest: () => [...shiftHandoverKeys.all(), 'latest'] as const,
+};
+
+/**
+ * The branch's latest handover and whether the dashboard may move on from
+ * the shift it is showing. Polled so the outgoing manager sees the
+ * acknowledgement without reloading.
+ */
+export function useShiftHandover(currentShift: ShiftType) {
+  const query = useQuery({
+    queryKey: shiftHandoverKeys.latest(),
+    queryFn: getLatestShiftHandover,
+    refetchInterval: 60 * 1000,
+  });
+
+  return {
+    latest: query.data ?? null,
+    switchState: shiftSwitchState(currentShift, query.data ?? null),
+    isLoading: query.isLoading,
+    refetch: query.refetch,
+  };
+}
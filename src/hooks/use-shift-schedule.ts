@@ -0,0 +1,54 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { DEFAULT_SHIFT_SCHEDULE, type ShiftSchedule } from '@/lib/shift-schedule/schedule';
+import { setActiveShiftSchedule } from '@/lib/utils/shift-utils';
+
+export const shiftScheduleKeys = {
+  all: () => ['shiftSchedule'] as const,
+};
+
+const fetchShiftSchedule = async (): Promise<ShiftSchedule> => {
+  const response = await fetch('/api/shift-schedule', {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch shift schedule: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.data as ShiftSchedule;
+};
+
+/**
+ * Load the owner-configured shift schedule and make it the default for the
+ * synchronous helpers in shift-utils (getCurrentShiftInfo etc.)
+ */
+export function useShiftSchedule() {
+  const query = useQuery({
+    queryKey: shiftScheduleKeys.all(),
+    queryFn: fetchShiftSchedule,
+    staleTime: 10 * 60 * 1000, // Schedule changes rarely
+    refetchOnWindowFocus: false,
+  });
+
+  const schedule = query.data ?? DEFAULT_SHIFT_SCHEDULE;
+
+  useEffect(() => {
+    if (query.data) {
+      setActiveShiftSchedule(query.data);
+    }
+  }, [query.data]);
+
+  return {
+    schedule,
+    isLoading: query.isLoading,
+    error: query.error ? (query.error as Error).message : null,
+    refetch: query.refetch,
+  };
+}
@@ -35,23 +35,24 @@ interface UseTodayBatchesTrackerReturn {
  * Real-time today batches tracker that monitors both shifts
  * This follows the exact same pattern as useLowStockTracker
  */
-export function useTodayBatchesTracker(): UseTodayBatchesTrackerReturn {
+export function useTodayBatchesTracker(branchId?: string | null): UseTodayBatchesTrackerReturn {
   
   const fetchTodayBatchesData = async (): Promise<TodayBatchesData> => {
     try {
       const nigeriaTime = new Date(new Date().toLocaleString("en-US", {timeZone: "Africa/Lagos"}));
       const currentDate = nigeriaTime.toISOString().split('T')[0];
+      const branchParam = branchId ? `&branch_id=${branchId}` : '';
       
       // Fetch data from both performance pages in parallel
       const [morningResponse, nightResponse] = await Promise.all([
-        fetch(`/api/sales-rep/production?shift=morning&date=${currentDate}`, {
+        fetch(`/api/sales-rep/production?shift=morning&date=${currentDate}${branchParam}`, {
           headers: {
             'Cache-Control': 'no-cache',
             'Pragma': 'no-cache',
           },
           cache: 'no-store',
         }),
-        fetch(`/api/sales-rep/production?shift=night&date=${currentDate}`, {
+        fetch(`/api/sales-rep/production?shift=night&date=${currentDate}${branchParam}`, {
           headers: {
             'Cache-Control': 'no-cache',
             'Pragma': 'no-cache',
@@ -124,7 +125,7 @@ export function useTodayBatchesTracker(): UseTodayBatchesTrackerReturn {
     error,
     refetch
   } = useQuery({
-    queryKey: ['today-batches-tracker'],
+    queryKey: ['today-batches-tracker', branchId ?? 'all'],
     queryFn: fetchTodayBatchesData,
     staleTime: 5 * 1000, // 5 seconds
     gcTime: 30 * 1000, // 30 seconds
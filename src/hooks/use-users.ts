@@ -45,7 +45,7 @@ export function useUsers(currentUser: AuthUser) {
     queryKey: USER_QUERY_KEYS.users.all(),
     queryFn: async () => {
       console.log('🔄 Fetching fresh users data...');
-      const result = await refetchUsersAction(currentUser);
+      const result = await refetchUsersAction();
       
       if (!result.success || !result.users) {
         throw new Error(result.error || 'Failed to fetch users');
@@ -1,13 +1,14 @@
 'use client';
 
 import { supabase } from '@/lib/supabase/client';
+import type { ShiftType } from '@/types';
 
 export interface ActivityData {
   user_id: string;
   user_name: string;
   user_role: 'manager' | 'sales_rep';
   activity_type: 'sale' | 'batch' | 'report' | 'login' | 'end_shift' | 'created';
-  shift?: 'morning' | 'night';
+  shift?: ShiftType;
   message: string;
   metadata?: {
     bread_type?: string;
@@ -131,7 +132,7 @@ class ActivityService {
   async logSaleActivity(data: {
     user_id: string;
     user_name: string;
-    shift: 'morning' | 'night';
+    shift: ShiftType;
     bread_type: string;
     quantity: number;
     revenue: number;
@@ -157,7 +158,7 @@ class ActivityService {
   async logBatchActivity(data: {
     user_id: string;
     user_name: string;
-    shift: 'morning' | 'night';
+    shift: ShiftType;
     bread_type: string;
     quantity: number;
     batch_number: string;
@@ -184,7 +185,7 @@ class ActivityService {
     user_id: string;
     user_name: string;
     user_role: 'manager' | 'sales_rep';
-    shift: 'morning' | 'night';
+    shift: ShiftType;
     report_type: string;
   }): Promise<void> {
     await this.logActivity({
@@ -224,7 +225,7 @@ class ActivityService {
     user_id: string;
     user_name: string;
     user_role: 'manager' | 'sales_rep';
-    shift: 'morning' | 'night';
+    shift: ShiftType;
   }): Promise<void> {
     await this.logActivity({
       user_id: data.user_id,
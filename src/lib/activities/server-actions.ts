@@ -2,6 +2,7 @@
 
 import { createServer } from '@/lib/supabase/server'
 import { Activity } from './activity-service'
+import type { ShiftType } from '@/types';
 
 /**
  * Get recent activities with role-based filtering (Server Action)
@@ -62,7 +63,7 @@ export async function logActivity(data: {
   user_name: string
   user_role: 'manager' | 'sales_rep'
   activity_type: 'sale' | 'batch' | 'report' | 'login' | 'end_shift' | 'created'
-  shift?: 'morning' | 'night'
+  shift?: ShiftType
   message: string
   metadata?: any
 }): Promise<void> {
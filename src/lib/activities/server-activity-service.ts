@@ -2,14 +2,15 @@
 
 import { createServer } from '@/lib/supabase/server';
 import { triggerPushNotification } from '@/lib/push-notifications/server';
-import { withRetry } from '@/lib/push-notifications/monitoring';
+import { emitWebhookEvent } from '@/lib/webhooks/dispatch';
+import type { ShiftType } from '@/types';
 
 export interface ActivityData {
   user_id: string;
   user_name: string;
   user_role: 'manager' | 'sales_rep';
   activity_type: 'sale' | 'batch' | 'report' | 'login' | 'end_shift' | 'created';
-  shift?: 'morning' | 'night';
+  shift?: ShiftType;
   message: string;
   metadata?: {
     bread_type?: string;
@@ -63,28 +64,18 @@ async function logActivity(data: ActivityData): Promise<void> {
     
     console.log('✅ Activity logged successfully:', insertResult);
     
-    // Trigger push notification to owners with retry logic (async, don't await)
-    withRetry(
-      () => triggerPushNotification({
-        activity_type: data.activity_type,
-        user_id: data.user_id,
-        user_name: data.user_name,
-        user_role: data.user_role,
-        message: data.message,
-        metadata: data.metadata
-      }),
-      {
-        maxAttempts: 3,
-        baseDelay: 1000,
-        exponentialBackoff: true
-      },
-      {
-        activity_type: data.activity_type,
-        user_name: data.user_name,
-        message: data.message
-      }
-    ).catch(error => {
-      console.error('🔔 Push notification failed after retries (non-blocking):', error);
+    // Trigger push notification (async, don't await). Delivery, digests and
+    // retries are tracked in the notification outbox.
+    triggerPushNotification({
+      activity_type: data.activity_type,
+      user_id: data.user_id,
+      user_name: data.user_name,
+      user_role: data.user_role,
+      message: data.message,
+      shift: data.shift,
+      metadata: data.metadata
+    }).catch(error => {
+      console.error('🔔 Push notification failed (non-blocking):', error);
     });
     
   } catch (error) {
@@ -116,8 +107,9 @@ export async function logLogoutActivity(data: {
 export async function logSaleActivity(data: {
   user_id: string;
   user_name: string;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   bread_type: string;
+  bread_type_id?: string;
   quantity: number;
   revenue: number;
 }): Promise<void> {
@@ -130,20 +122,55 @@ export async function logSaleActivity(data: {
     message: `Recorded sale: ${data.quantity}x ${data.bread_type}`,
     metadata: {
       bread_type: data.bread_type,
+      bread_type_id: data.bread_type_id,
       quantity: data.quantity,
       revenue: data.revenue
     }
   });
 }
 
+/**
+ * Log when a sale is voided or refunded
+ */
+export async function logSaleVoidActivity(data: {
+  user_id: string;
+  user_name: string;
+  user_role: 'manager' | 'sales_rep';
+  shift: ShiftType;
+  kind: 'void' | 'refund';
+  bread_type: string;
+  quantity: number;
+  amount: number;
+  reason: string;
+  approved_by?: string;
+}): Promise<void> {
+  await logActivity({
+    user_id: data.user_id,
+    user_name: data.user_name,
+    user_role: data.user_role,
+    activity_type: 'sale', // Voids and refunds show up alongside the sales they reverse
+    shift: data.shift,
+    message: `${data.kind === 'void' ? 'Voided sale' : 'Refunded'}: ${data.quantity}x ${data.bread_type} (${data.reason})`,
+    metadata: {
+      bread_type: data.bread_type,
+      quantity: data.quantity,
+      revenue: -data.amount,
+      adjustment: data.kind,
+      reason: data.reason,
+      approved_by: data.approved_by
+    }
+  });
+}
+
 /**
  * Log when a manager records a batch
  */
 export async function logBatchActivity(data: {
   user_id: string;
   user_name: string;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   bread_type: string;
+  bread_type_id?: string;
   quantity: number;
   batch_number: string;
 }): Promise<void> {
@@ -156,6 +183,7 @@ export async function logBatchActivity(data: {
     message: `Created batch: ${data.quantity}x ${data.bread_type}`,
     metadata: {
       bread_type: data.bread_type,
+      bread_type_id: data.bread_type_id,
       quantity: data.quantity,
       batch_number: data.batch_number
     }
@@ -169,7 +197,7 @@ export async function logReportActivity(data: {
   user_id: string;
   user_name: string;
   user_role: 'manager' | 'sales_rep';
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   report_type: string;
 }): Promise<void> {
   await logActivity({
@@ -209,7 +237,7 @@ export async function logEndShiftActivity(data: {
   user_id: string;
   user_name: string;
   user_role: 'manager' | 'sales_rep';
-  shift: 'morning' | 'night';
+  shift: ShiftType;
 }): Promise<void> {
   await logActivity({
     user_id: data.user_id,
@@ -219,6 +247,14 @@ export async function logEndShiftActivity(data: {
     shift: data.shift,
     message: `${data.user_name} ended ${data.shift} shift`
   });
+
+  await emitWebhookEvent('shift.ended', {
+    user_id: data.user_id,
+    user_name: data.user_name,
+    user_role: data.user_role,
+    shift: data.shift,
+    ended_at: new Date().toISOString(),
+  });
 }
 
 /**
@@ -0,0 +1,111 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createServer } from '@/lib/supabase/server';
+import { getUserPermissions, requirePermission } from '@/lib/auth/auth-utils';
+import { apiKeySchema, formatValidationError } from '@/lib/validations';
+import { API_KEY_COLUMNS, type ApiKey } from './keys';
+import { generateApiKey } from './key-secret';
+
+type ActionResult = { success: boolean; error?: string };
+
+const API_KEYS_PATH = '/owner-dashboard/settings/api-keys';
+
+/**
+ * Every API key, newest first; revoked keys stay listed
+ */
+export async function getApiKeys(): Promise<ApiKey[]> {
+  try {
+    await requirePermission('api_keys.manage');
+    const supabase = await createServer();
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select(API_KEY_COLUMNS)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as ApiKey[];
+  } catch (error) {
+    console.error('Error fetching API keys:', error);
+    return [];
+  }
+}
+
+/**
+ * Create a key. The key itself is returned this once and only its hash is
+ * kept. A key cannot be given a scope its creator does not have, and only
+ * owners choose its branch; anyone else's keys are limited to their own.
+ */
+export async function createApiKey(input: unknown): Promise<ActionResult & { key?: string }> {
+  try {
+    const user = await requirePermission('api_keys.manage');
+
+    const parsed = apiKeySchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const granted = await getUserPermissions();
+    const missing = parsed.data.scopes.filter(scope => !granted.includes(scope));
+    if (missing.length > 0) {
+      return { success: false, error: `You can't give a key permissions you don't have: ${missing.join(', ')}` };
+    }
+
+    const branchId = user.role === 'owner' ? parsed.data.branch_id || null : user.branch_id;
+    if (!branchId && user.role !== 'owner') {
+      return { success: false, error: 'You need to belong to a branch to create API keys' };
+    }
+
+    const { key, prefix, hash } = generateApiKey();
+    const supabase = await createServer();
+    const { error } = await supabase.from('api_keys').insert({
+      name: parsed.data.name,
+      scopes: parsed.data.scopes,
+      branch_id: branchId,
+      rate_limit_per_minute: parsed.data.rate_limit_per_minute,
+      expires_at: parsed.data.expires_at || null,
+      key_prefix: prefix,
+      key_hash: hash,
+      created_by: user.id,
+    });
+
+    if (error) {
+      console.error('Error creating API key:', error);
+      return { success: false, error: 'Failed to create the API key' };
+    }
+
+    revalidatePath(API_KEYS_PATH);
+    return { success: true, key };
+  } catch (error) {
+    console.error('Error in createApiKey:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to create the API key' };
+  }
+}
+
+/**
+ * Revoke a key; requests with it are refused straight away
+ */
+export async function revokeApiKey(id: string): Promise<ActionResult> {
+  try {
+    await requirePermission('api_keys.manage');
+    const supabase = await createServer();
+
+    const { error } = await supabase
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('revoked_at', null);
+
+    if (error) {
+      console.error('Error revoking API key:', error);
+      return { success: false, error: 'Failed to revoke the API key' };
+    }
+
+    revalidatePath(API_KEYS_PATH);
+    return { success: true };
+  } catch (error) {
+    console.error('Error in revokeApiKey:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to revoke the API key' };
+  }
+}
@@ -0,0 +1,115 @@
+import type { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import type { Database } from '@/types/supabase';
+import type { ApiKeyScope } from '@/lib/validations/api';
+import { apiKeyState } from './keys';
+import { hashApiKey, looksLikeApiKey } from './key-secret';
+import { apiError } from './respond';
+
+/**
+ * API key authentication for /api/v1
+ *
+ * Routes are wrapped in withApiKey(scope, handler). The key comes in as
+ * Authorization: Bearer hbk_...; it must exist, not be revoked or expired,
+ * belong to an active user, carry the route's scope and be under its
+ * per-minute limit. Handlers then read with the service role, so they must
+ * apply the key's branch themselves (see branchFor).
+ */
+
+export interface ApiKeyContext {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  branch_id: string | null;
+}
+
+export interface ApiContext {
+  key: ApiKeyContext;
+  supabase: SupabaseClient<Database>;
+}
+
+type ApiHandler<P> = (request: NextRequest, context: ApiContext, params: P) => Promise<NextResponse>;
+
+const bearer = (request: NextRequest) => {
+  const header = request.headers.get('authorization') || '';
+  return header.toLowerCase().startsWith('bearer ') ? header.slice(7).trim() : '';
+};
+
+function rateLimitHeaders(limit: number, remaining: number, resetAt: string): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(limit),
+    'X-RateLimit-Remaining': String(remaining),
+    'X-RateLimit-Reset': String(Math.ceil(new Date(resetAt).getTime() / 1000)),
+  };
+}
+
+export function withApiKey<P = Record<string, never>>(scope: ApiKeyScope, handler: ApiHandler<P>) {
+  return async (request: NextRequest, route: { params: Promise<P> }): Promise<NextResponse> => {
+    const presented = bearer(request);
+    if (!presented || !looksLikeApiKey(presented)) {
+      return apiError(401, 'unauthorized', 'Send an API key as Authorization: Bearer <key>');
+    }
+
+    try {
+      const supabase = createServiceRoleClient();
+
+      const { data: key, error } = await supabase
+        .from('api_keys')
+        .select('id, name, scopes, branch_id, expires_at, revoked_at, creator:users!api_keys_created_by_fkey(is_active)')
+        .eq('key_hash', hashApiKey(presented))
+        .maybeSingle();
+      if (error) throw error;
+
+      if (!key || apiKeyState(key) !== 'active' || key.creator?.is_active === false) {
+        return apiError(401, 'unauthorized', 'This API key is not valid');
+      }
+
+      const { data: usage, error: usageError } = await supabase.rpc('consume_api_rate_limit', { p_key_id: key.id });
+      if (usageError) throw usageError;
+
+      const window = usage?.[0];
+      const headers = window ? rateLimitHeaders(window.request_limit, window.remaining, window.reset_at) : {};
+      if (window && !window.allowed) {
+        const retryAfter = Math.max(Math.ceil((new Date(window.reset_at).getTime() - Date.now()) / 1000), 1);
+        return apiError(429, 'rate_limited', `Rate limit of ${window.request_limit} requests a minute reached`, undefined, {
+          ...headers,
+          'Retry-After': String(retryAfter),
+        });
+      }
+
+      if (!key.scopes.includes(scope)) {
+        return apiError(403, 'forbidden', `This API key does not have the ${scope} scope`, undefined, headers);
+      }
+
+      const response = await handler(
+        request,
+        {
+          key: { id: key.id, name: key.name, scopes: key.scopes as ApiKeyScope[], branch_id: key.branch_id },
+          supabase,
+        },
+        await route.params
+      );
+      Object.entries(headers).forEach(([name, value]) => response.headers.set(name, value));
+      return response;
+    } catch (error) {
+      console.error('Error in public API request:', error);
+      return apiError(500, 'internal_error', 'Something went wrong handling this request');
+    }
+  };
+}
+
+/**
+ * The branch a query must be limited to: the key's own branch when it has
+ * one, otherwise the requested branch, if any. Asking a branch key for
+ * another branch is a 403.
+ */
+export function branchFor(
+  key: ApiKeyContext,
+  requested: string | undefined
+): { branchId: string | null; response?: undefined } | { branchId?: undefined; response: NextResponse } {
+  if (key.branch_id && requested && requested !== key.branch_id) {
+    return { response: apiError(403, 'forbidden', 'This API key is limited to another branch') };
+  }
+  return { branchId: key.branch_id ?? requested ?? null };
+}
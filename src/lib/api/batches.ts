@@ -0,0 +1,18 @@
+import type { ApiBatch } from '@/lib/validations/api';
+
+/**
+ * Batch rows as the public API returns them, shared by the list and the
+ * single-batch endpoints
+ */
+
+export const BATCH_COLUMNS =
+  'id, batch_number, bread_type_id, shift, status, target_quantity, actual_quantity, start_time, end_time, branch_id, created_by, created_at, bread_type:bread_types(name)';
+
+interface BatchRow extends Omit<ApiBatch, 'bread_type' | 'shift'> {
+  shift: string;
+  bread_type: { name: string } | null;
+}
+
+export function toApiBatch({ bread_type, shift, ...batch }: BatchRow): ApiBatch {
+  return { ...batch, shift: shift as ApiBatch['shift'], bread_type: bread_type?.name ?? null };
+}
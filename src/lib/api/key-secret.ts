@@ -0,0 +1,25 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+/**
+ * API key material
+ *
+ * Keys look like hbk_<43 url-safe characters>. Only their SHA-256 hash is
+ * stored, so a leaked database cannot be used to call the API; the first
+ * characters are kept as a prefix for telling keys apart.
+ */
+
+const KEY_PREFIX = 'hbk_';
+const SHOWN_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return { key, prefix: key.slice(0, SHOWN_PREFIX_LENGTH), hash: hashApiKey(key) };
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function looksLikeApiKey(value: string): boolean {
+  return value.startsWith(KEY_PREFIX) && value.length > SHOWN_PREFIX_LENGTH;
+}
@@ -0,0 +1,40 @@
+/**
+ * Public API keys
+ *
+ * What an API key may read (its scopes, named after the permissions the
+ * matching pages need) and how keys are listed for the owner. The key
+ * itself is never stored or shown again after it is created.
+ *
+ * Everything here is pure (no Supabase, no React).
+ */
+
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { API_KEY_SCOPES, type ApiKeyScope } from '@/lib/validations/api';
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = Object.fromEntries(
+  API_KEY_SCOPES.map(scope => [scope, PERMISSIONS[scope].label])
+) as Record<ApiKeyScope, string>;
+
+export const API_KEY_COLUMNS =
+  'id, name, key_prefix, scopes, branch_id, rate_limit_per_minute, expires_at, revoked_at, last_used_at, created_at';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  branch_id: string | null;
+  rate_limit_per_minute: number;
+  expires_at: string | null;
+  revoked_at: string | null;
+  last_used_at: string | null;
+  created_at: string | null;
+}
+
+export type ApiKeyState = 'active' | 'expired' | 'revoked';
+
+export function apiKeyState(key: Pick<ApiKey, 'expires_at' | 'revoked_at'>, now: Date = new Date()): ApiKeyState {
+  if (key.revoked_at) return 'revoked';
+  if (key.expires_at && new Date(key.expires_at).getTime() <= now.getTime()) return 'expired';
+  return 'active';
+}
@@ -0,0 +1,279 @@
+import { z } from 'zod';
+import {
+  apiBatchQuerySchema,
+  apiBatchSchema,
+  apiBreadTypeQuerySchema,
+  apiBreadTypeSchema,
+  apiSaleQuerySchema,
+  apiSaleSchema,
+  apiShiftReportQuerySchema,
+  apiShiftReportSchema,
+  type ApiKeyScope,
+} from '@/lib/validations/api';
+
+/**
+ * OpenAPI document for /api/v1
+ *
+ * Built from the same zod schemas the routes parse their query strings
+ * with (src/lib/validations/api.ts), so the document cannot drift from
+ * what the API accepts. Served at /api/v1/openapi.json.
+ */
+
+type JsonSchema = { [key: string]: unknown };
+
+interface ApiOperation {
+  method: 'get';
+  path: string;
+  summary: string;
+  scope: ApiKeyScope;
+  query?: z.AnyZodObject;
+  pathParams?: Array<{ name: string; description: string }>;
+  // Name under components.schemas
+  resource: string;
+  list: boolean;
+}
+
+const RESOURCES: Record<string, z.ZodTypeAny> = {
+  BreadType: apiBreadTypeSchema,
+  Batch: apiBatchSchema,
+  Sale: apiSaleSchema,
+  ShiftReport: apiShiftReportSchema,
+};
+
+export const API_V1_OPERATIONS: ApiOperation[] = [
+  {
+    method: 'get',
+    path: '/bread-types',
+    summary: 'List bread types',
+    scope: 'bread_types.view',
+    query: apiBreadTypeQuerySchema,
+    resource: 'BreadType',
+    list: true,
+  },
+  {
+    method: 'get',
+    path: '/batches',
+    summary: 'List production batches, newest first',
+    scope: 'batches.view',
+    query: apiBatchQuerySchema,
+    resource: 'Batch',
+    list: true,
+  },
+  {
+    method: 'get',
+    path: '/batches/{batchId}',
+    summary: 'Get one production batch',
+    scope: 'batches.view',
+    pathParams: [{ name: 'batchId', description: 'Batch id' }],
+    resource: 'Batch',
+    list: false,
+  },
+  {
+    method: 'get',
+    path: '/sales',
+    summary: 'List sales, newest first',
+    scope: 'sales.view_all',
+    query: apiSaleQuerySchema,
+    resource: 'Sale',
+    list: true,
+  },
+  {
+    method: 'get',
+    path: '/shift-reports',
+    summary: 'List submitted shift reports, newest first',
+    scope: 'reports.view',
+    query: apiShiftReportQuerySchema,
+    resource: 'ShiftReport',
+    list: true,
+  },
+];
+
+const withDescription = (schema: JsonSchema, description: string | undefined): JsonSchema =>
+  description ? { ...schema, description } : schema;
+
+/**
+ * JSON Schema (OpenAPI 3.1 flavour) for the zod types the API schemas use
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const description = schema.description;
+
+  if (schema instanceof z.ZodOptional) {
+    return withDescription(zodToJsonSchema(schema.unwrap()), description);
+  }
+  if (schema instanceof z.ZodDefault) {
+    return withDescription({ ...zodToJsonSchema(schema._def.innerType), default: schema._def.defaultValue() }, description);
+  }
+  if (schema instanceof z.ZodEffects) {
+    return withDescription(zodToJsonSchema(schema.innerType()), description);
+  }
+  if (schema instanceof z.ZodNullable) {
+    const inner = zodToJsonSchema(schema.unwrap());
+    const nullable = typeof inner.type === 'string'
+      ? { ...inner, type: [inner.type, 'null'] }
+      : { anyOf: [inner, { type: 'null' }] };
+    return withDescription(nullable, description);
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.keys(shape).filter(key => !shape[key].isOptional());
+    return withDescription({
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, zodToJsonSchema(value)])),
+      ...(required.length > 0 && { required }),
+    }, description);
+  }
+  if (schema instanceof z.ZodArray) {
+    return withDescription({
+      type: 'array',
+      items: zodToJsonSchema(schema.element),
+      ...(schema._def.minLength && { minItems: schema._def.minLength.value }),
+      ...(schema._def.maxLength && { maxItems: schema._def.maxLength.value }),
+    }, description);
+  }
+  if (schema instanceof z.ZodString) {
+    const result: JsonSchema = { type: 'string' };
+    schema._def.checks.forEach(check => {
+      if (check.kind === 'min') result.minLength = check.value;
+      if (check.kind === 'max') result.maxLength = check.value;
+      if (check.kind === 'uuid') result.format = 'uuid';
+      if (check.kind === 'email') result.format = 'email';
+      if (check.kind === 'url') result.format = 'uri';
+      if (check.kind === 'datetime') result.format = 'date-time';
+      if (check.kind === 'regex') result.pattern = check.regex.source;
+    });
+    return withDescription(result, description);
+  }
+  if (schema instanceof z.ZodNumber) {
+    const result: JsonSchema = { type: 'number' };
+    schema._def.checks.forEach(check => {
+      if (check.kind === 'int') result.type = 'integer';
+      if (check.kind === 'min') result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+      if (check.kind === 'max') result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+    });
+    return withDescription(result, description);
+  }
+  if (schema instanceof z.ZodBoolean) return withDescription({ type: 'boolean' }, description);
+  if (schema instanceof z.ZodEnum) {
+    return withDescription({ type: 'string', enum: schema.options as string[] }, description);
+  }
+  if (schema instanceof z.ZodLiteral) return withDescription({ const: schema.value }, description);
+  if (schema instanceof z.ZodUnion) {
+    return withDescription({ anyOf: (schema.options as z.ZodTypeAny[]).map(zodToJsonSchema) }, description);
+  }
+  if (schema instanceof z.ZodRecord) {
+    return withDescription({ type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema) }, description);
+  }
+
+  return withDescription({}, description);
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref('Error') } },
+});
+
+function queryParameters(query: z.AnyZodObject) {
+  const shape = query.shape as Record<string, z.ZodTypeAny>;
+  return Object.entries(shape).map(([name, value]) => {
+    const { description, ...schema } = zodToJsonSchema(value);
+    return { name, in: 'query', required: !value.isOptional(), ...(description ? { description } : {}), schema };
+  });
+}
+
+export function buildOpenApiDocument(serverUrl: string) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  API_V1_OPERATIONS.forEach(operation => {
+    const data = operation.list ? { type: 'array', items: ref(operation.resource) } : ref(operation.resource);
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [operation.method]: {
+        summary: operation.summary,
+        description: `Requires the \`${operation.scope}\` scope.`,
+        tags: [operation.resource],
+        parameters: [
+          ...(operation.pathParams || []).map(param => ({
+            name: param.name,
+            in: 'path',
+            required: true,
+            description: param.description,
+            schema: { type: 'string', format: 'uuid' },
+          })),
+          ...(operation.query ? queryParameters(operation.query) : []),
+        ],
+        responses: {
+          200: {
+            description: operation.list ? 'One page of results' : 'The item',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: { data, ...(operation.list && { meta: ref('PageMeta') }) },
+                  required: operation.list ? ['data', 'meta'] : ['data'],
+                },
+              },
+            },
+          },
+          400: errorResponse('The query string is not valid'),
+          401: errorResponse('No API key, or the key is revoked, expired or unknown'),
+          403: errorResponse('The key lacks the scope, or is limited to another branch'),
+          ...(!operation.list && { 404: errorResponse('Not found') }),
+          429: errorResponse('Rate limit reached; see Retry-After'),
+        },
+      },
+    };
+  });
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'HomeBake API',
+      version: '1.0.0',
+      description:
+        'Read-only access to bakery data for internal tools. Authenticate with an API key created under ' +
+        'Settings → API keys. Every key has a per-minute limit, reported in the X-RateLimit-* headers.',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ apiKey: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        apiKey: { type: 'http', scheme: 'bearer', description: 'Authorization: Bearer hbk_...' },
+      },
+      schemas: {
+        ...Object.fromEntries(Object.entries(RESOURCES).map(([name, schema]) => [name, zodToJsonSchema(schema)])),
+        PageMeta: {
+          type: 'object',
+          properties: {
+            page: { type: 'integer' },
+            per_page: { type: 'integer' },
+            total: { type: 'integer' },
+            total_pages: { type: 'integer' },
+          },
+          required: ['page', 'per_page', 'total', 'total_pages'],
+        },
+        Error: {
+          type: 'object',
+          properties: {
+            error: {
+              type: 'object',
+              properties: {
+                code: {
+                  type: 'string',
+                  enum: ['unauthorized', 'forbidden', 'invalid_request', 'not_found', 'rate_limited', 'internal_error'],
+                },
+                message: { type: 'string' },
+                details: { description: 'Field errors for invalid_request' },
+              },
+              required: ['code', 'message'],
+            },
+          },
+          required: ['error'],
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import type { z } from 'zod';
+import { formatValidationError } from '@/lib/validations';
+
+/**
+ * Public API responses
+ *
+ * Every /api/v1 response uses one of three shapes:
+ *   lists   { data: [...], meta: { page, per_page, total, total_pages } }
+ *   items   { data: {...} }
+ *   errors  { error: { code, message, details? } }
+ */
+
+export type ApiErrorCode =
+  | 'unauthorized'
+  | 'forbidden'
+  | 'invalid_request'
+  | 'not_found'
+  | 'rate_limited'
+  | 'internal_error';
+
+export interface ApiPageMeta {
+  page: number;
+  per_page: number;
+  total: number;
+  total_pages: number;
+}
+
+export function apiError(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  details?: unknown,
+  headers?: HeadersInit
+): NextResponse {
+  return NextResponse.json(
+    { error: { code, message, ...(details !== undefined && { details }) } },
+    { status, headers }
+  );
+}
+
+export function apiItem<T>(data: T): NextResponse {
+  return NextResponse.json({ data });
+}
+
+export function apiList<T>(data: T[], page: number, perPage: number, total: number): NextResponse {
+  const meta: ApiPageMeta = {
+    page,
+    per_page: perPage,
+    total,
+    total_pages: Math.max(Math.ceil(total / perPage), 1),
+  };
+  return NextResponse.json({ data, meta });
+}
+
+/**
+ * The inclusive row range for a page, as Supabase's range() wants it
+ */
+export function pageRange(page: number, perPage: number): [number, number] {
+  const from = (page - 1) * perPage;
+  return [from, from + perPage - 1];
+}
+
+/**
+ * Parse the query string with a v1 query schema; unknown parameters are
+ * ignored. Returns the 400 to send when it does not match.
+ */
+export function parseQuery<T extends z.ZodTypeAny>(
+  schema: T,
+  searchParams: URLSearchParams
+): { data: z.infer<T>; response?: undefined } | { data?: undefined; response: NextResponse } {
+  const parsed = schema.safeParse(Object.fromEntries(searchParams.entries()));
+  if (!parsed.success) {
+    return {
+      response: apiError(400, 'invalid_request', formatValidationError(parsed.error), parsed.error.flatten().fieldErrors),
+    };
+  }
+  return { data: parsed.data };
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser, getUserPermissions } from './auth-utils';
+import type { Permission } from './permissions';
+
+/**
+ * Permission check for API routes. Returns the error response to send when
+ * the caller is signed out (401) or lacks the permission (403), or null when
+ * the request may go ahead.
+ */
+export async function requireApiPermission(permission: Permission | Permission[]): Promise<NextResponse | null> {
+  const user = await getAuthenticatedUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const granted = await getUserPermissions();
+  const missing = (Array.isArray(permission) ? permission : [permission])
+    .filter(required => !granted.includes(required));
+
+  if (missing.length > 0) {
+    return NextResponse.json(
+      { error: `Access denied. Missing permission: ${missing.join(', ')}` },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
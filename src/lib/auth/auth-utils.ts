@@ -3,6 +3,7 @@
 import { createServer, createServiceRoleClient } from '@/lib/supabase/server';
 import { cache } from 'react';
 import type { UserRole } from '@/types';
+import { DEFAULT_ROLE_PERMISSIONS, isPermission, type Permission } from './permissions';
 
 export interface AuthUser {
   id: string;
@@ -11,6 +12,7 @@ export interface AuthUser {
   role: UserRole;
   is_active: boolean;
   created_at: string;
+  branch_id: string | null;
 }
 
 /**
@@ -31,7 +33,7 @@ export const getAuthenticatedUser = cache(async (): Promise<AuthUser | null> =>
     // Get user profile from database (authoritative source)
     const { data: userProfile, error: profileError } = await supabase
       .from('users')
-      .select('id, email, name, role, is_active, created_at')
+      .select('id, email, name, role, is_active, created_at, branch_id')
       .eq('id', authUser.id)
       .single(); // Remove .eq('is_active', true) to check status explicitly
     
@@ -59,7 +61,8 @@ export const getAuthenticatedUser = cache(async (): Promise<AuthUser | null> =>
       name: userProfile.name,
       role: userProfile.role as UserRole,
       is_active: userProfile.is_active,
-      created_at: userProfile.created_at
+      created_at: userProfile.created_at,
+      branch_id: userProfile.branch_id
     };
     
   } catch (error) {
@@ -135,6 +138,53 @@ export async function requireAuth(requiredRole?: UserRole | UserRole[]): Promise
   return user;
 }
 
+/**
+ * Effective permissions of the signed-in user - cached per request.
+ * Falls back to the role defaults when the permission tables can't be read.
+ */
+export const getUserPermissions = cache(async (): Promise<Permission[]> => {
+  const user = await getAuthenticatedUser();
+  if (!user) {
+    return [];
+  }
+
+  try {
+    const supabase = await createServer();
+    const { data, error } = await supabase.rpc('current_user_permissions');
+    if (error) throw error;
+
+    return (data || []).filter(isPermission);
+  } catch (error) {
+    console.error('Error loading permissions, using role defaults:', error);
+    return DEFAULT_ROLE_PERMISSIONS[user.role] || [];
+  }
+});
+
+/**
+ * Check if the signed-in user has a permission
+ */
+export async function hasPermission(permission: Permission): Promise<boolean> {
+  const permissions = await getUserPermissions();
+  return permissions.includes(permission);
+}
+
+/**
+ * Ensure user is authenticated and has every listed permission
+ * Throws error if not authorized
+ */
+export async function requirePermission(permission: Permission | Permission[]): Promise<AuthUser> {
+  const user = await requireAuth();
+  const granted = await getUserPermissions();
+  const missing = (Array.isArray(permission) ? permission : [permission])
+    .filter(required => !granted.includes(required));
+
+  if (missing.length > 0) {
+    throw new Error(`Access denied. Missing permission: ${missing.join(', ')}`);
+  }
+
+  return user;
+}
+
 /**
  * Get user by ID (admin function)
  */
@@ -147,7 +197,7 @@ export async function getUserById(userId: string): Promise<AuthUser | null> {
     
     const { data: user, error } = await serviceSupabase
       .from('users')
-      .select('id, email, name, role, is_active, created_at')
+      .select('id, email, name, role, is_active, created_at, branch_id')
       .eq('id', userId)
       .single();
     
@@ -161,7 +211,8 @@ export async function getUserById(userId: string): Promise<AuthUser | null> {
       name: user.name,
       role: user.role as UserRole,
       is_active: user.is_active,
-      created_at: user.created_at
+      created_at: user.created_at,
+      branch_id: user.branch_id
     };
     
   } catch (error) {
@@ -175,8 +226,8 @@ export async function getUserById(userId: string): Promise<AuthUser | null> {
  */
 export async function updateUserRole(userId: string, newRole: UserRole): Promise<{ success: boolean; error?: string }> {
   try {
-    // Ensure caller is owner
-    await requireAuth('owner');
+    // Ensure caller can manage users
+    await requirePermission('users.manage');
     
     const serviceSupabase = createServiceRoleClient();
     
@@ -216,8 +267,8 @@ export async function updateUserRole(userId: string, newRole: UserRole): Promise
  */
 export async function deactivateUser(userId: string): Promise<{ success: boolean; error?: string }> {
   try {
-    // Ensure caller is owner
-    await requireAuth('owner');
+    // Ensure caller can manage users
+    await requirePermission('users.manage');
     
     const serviceSupabase = createServiceRoleClient();
     
@@ -254,14 +305,20 @@ export async function deactivateUser(userId: string): Promise<{ success: boolean
 export async function getAllUsers(): Promise<AuthUser[]> {
   try {
     // Ensure caller is authorized
-    await requireAuth(['owner', 'manager']);
+    const currentUser = await requireAuth(['owner', 'manager']);
     
     const serviceSupabase = createServiceRoleClient();
     
-    const { data: users, error } = await serviceSupabase
+    let query = serviceSupabase
       .from('users')
-      .select('id, email, name, role, is_active, created_at')
-      .order('created_at', { ascending: false });
+      .select('id, email, name, role, is_active, created_at, branch_id');
+
+    // Managers only see staff from their own branch
+    if (currentUser.role !== 'owner' && currentUser.branch_id) {
+      query = query.eq('branch_id', currentUser.branch_id);
+    }
+
+    const { data: users, error } = await query.order('created_at', { ascending: false });
     
     if (error) {
       throw new Error(`Failed to fetch users: ${error.message}`);
@@ -273,7 +330,8 @@ export async function getAllUsers(): Promise<AuthUser[]> {
       name: user.name,
       role: user.role as UserRole,
       is_active: user.is_active,
-      created_at: user.created_at
+      created_at: user.created_at,
+      branch_id: user.branch_id
     }));
     
   } catch (error) {
@@ -0,0 +1,205 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createServer } from '@/lib/supabase/server';
+import { requirePermission } from './auth-utils';
+import { CONFIGURABLE_ROLES, DEFAULT_ROLE_PERMISSIONS, isPermission, type Permission } from './permissions';
+import {
+  rolePermissionSchema,
+  userPermissionOverrideSchema,
+  formatValidationError,
+} from '@/lib/validations';
+import type { UserRole } from '@/types';
+
+type ActionResult = { success: boolean; error?: string };
+
+export interface PermissionOverride {
+  permission: Permission;
+  granted: boolean;
+}
+
+export interface StaffPermissions {
+  id: string;
+  name: string;
+  role: UserRole;
+  is_active: boolean;
+  overrides: PermissionOverride[];
+}
+
+export interface PermissionSettings {
+  rolePermissions: Record<(typeof CONFIGURABLE_ROLES)[number], Permission[]>;
+  staff: StaffPermissions[];
+}
+
+/**
+ * Role defaults and per-user overrides for the permissions settings page
+ */
+export async function getPermissionSettings(): Promise<PermissionSettings | null> {
+  try {
+    await requirePermission('permissions.manage');
+    const supabase = await createServer();
+
+    const [rolesResult, usersResult, overridesResult] = await Promise.all([
+      supabase.from('role_permissions').select('role, permission'),
+      supabase.from('users').select('id, name, role, is_active').neq('role', 'owner').order('name'),
+      supabase.from('user_permission_overrides').select('user_id, permission, granted'),
+    ]);
+
+    if (rolesResult.error) throw rolesResult.error;
+    if (usersResult.error) throw usersResult.error;
+    if (overridesResult.error) throw overridesResult.error;
+
+    const rolePermissions = Object.fromEntries(
+      CONFIGURABLE_ROLES.map(role => [
+        role,
+        (rolesResult.data || [])
+          .filter(row => row.role === role)
+          .map(row => row.permission)
+          .filter(isPermission),
+      ])
+    ) as PermissionSettings['rolePermissions'];
+
+    const staff = (usersResult.data || []).map(user => ({
+      id: user.id,
+      name: user.name,
+      role: user.role as UserRole,
+      is_active: user.is_active !== false,
+      overrides: (overridesResult.data || []).flatMap(row =>
+        row.user_id === user.id && isPermission(row.permission)
+          ? [{ permission: row.permission, granted: row.granted }]
+          : []
+      ),
+    }));
+
+    return { rolePermissions, staff };
+  } catch (error) {
+    console.error('Error fetching permission settings:', error);
+    return null;
+  }
+}
+
+/**
+ * Give a permission to, or take it from, everyone with a role
+ */
+export async function setRolePermission(input: unknown): Promise<ActionResult> {
+  try {
+    await requirePermission('permissions.manage');
+
+    const parsed = rolePermissionSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const { role, permission, granted } = parsed.data;
+    const supabase = await createServer();
+
+    const { error } = granted
+      ? await supabase
+          .from('role_permissions')
+          .upsert({ role, permission }, { onConflict: 'role,permission', ignoreDuplicates: true })
+      : await supabase
+          .from('role_permissions')
+          .delete()
+          .eq('role', role)
+          .eq('permission', permission);
+
+    if (error) {
+      console.error('Error updating role permission:', error);
+      return { success: false, error: 'Failed to update role permission' };
+    }
+
+    revalidatePath('/owner-dashboard/settings/permissions');
+    return { success: true };
+  } catch (error) {
+    console.error('Error in setRolePermission:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to update role permission' };
+  }
+}
+
+/**
+ * Put every role back to the permissions it had before they were configurable
+ */
+export async function resetRolePermissions(): Promise<ActionResult> {
+  try {
+    await requirePermission('permissions.manage');
+    const supabase = await createServer();
+
+    const { error: deleteError } = await supabase
+      .from('role_permissions')
+      .delete()
+      .in('role', [...CONFIGURABLE_ROLES]);
+
+    if (deleteError) throw deleteError;
+
+    const { error: insertError } = await supabase
+      .from('role_permissions')
+      .insert(CONFIGURABLE_ROLES.flatMap(role =>
+        DEFAULT_ROLE_PERMISSIONS[role].map(permission => ({ role, permission }))
+      ));
+
+    if (insertError) throw insertError;
+
+    revalidatePath('/owner-dashboard/settings/permissions');
+    return { success: true };
+  } catch (error) {
+    console.error('Error resetting role permissions:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to reset role permissions' };
+  }
+}
+
+/**
+ * Grant or deny one permission for a single user, or clear the override
+ */
+export async function setUserPermissionOverride(input: unknown): Promise<ActionResult> {
+  try {
+    const currentUser = await requirePermission('permissions.manage');
+
+    const parsed = userPermissionOverrideSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const { user_id, permission, granted } = parsed.data;
+    const supabase = await createServer();
+
+    const { data: target, error: targetError } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user_id)
+      .single();
+
+    if (targetError || !target) {
+      return { success: false, error: 'User not found' };
+    }
+    if (target.role === 'owner') {
+      return { success: false, error: 'Owners always have every permission' };
+    }
+
+    const { error } = granted === null
+      ? await supabase
+          .from('user_permission_overrides')
+          .delete()
+          .eq('user_id', user_id)
+          .eq('permission', permission)
+      : await supabase
+          .from('user_permission_overrides')
+          .upsert({
+            user_id,
+            permission,
+            granted,
+            updated_by: currentUser.id,
+            updated_at: new Date().toISOString(),
+          }, { onConflict: 'user_id,permission' });
+
+    if (error) {
+      console.error('Error updating permission override:', error);
+      return { success: false, error: 'Failed to update user permission' };
+    }
+
+    revalidatePath('/owner-dashboard/settings/permissions');
+    return { success: true };
+  } catch (error) {
+    console.error('Error in setUserPermissionOverride:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to update user permission' };
+  }
+}
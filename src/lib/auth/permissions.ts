@@ -0,0 +1,165 @@
+import type { UserRole } from '@/types';
+
+/**
+ * Every permission the app checks. Keys match rows in public.permissions
+ * (database/permissions.sql) — add new ones in both places.
+ */
+export const PERMISSIONS = {
+  'batches.view': { label: 'View production batches', group: 'Production' },
+  'batches.create': { label: 'Record production batches', group: 'Production' },
+  'batches.update': { label: 'Edit production batches', group: 'Production' },
+  'batches.delete': { label: 'Delete production batches', group: 'Production' },
+  'production.plan': { label: 'Set daily production plans', group: 'Production' },
+  'production.forecast': { label: 'View demand forecasts', group: 'Production' },
+  'shifts.handover': { label: 'Hand over and take over production shifts', group: 'Production' },
+  'inventory.view': { label: 'View bread inventory', group: 'Inventory' },
+  'inventory.manage': { label: 'Manage ingredients, recipes and stock', group: 'Inventory' },
+  'inventory.carry_over': { label: 'Carry leftover stock over to the next shift', group: 'Inventory' },
+  'waste.record': { label: 'Record wasted and spoiled bread', group: 'Inventory' },
+  'bread_types.view': { label: 'View bread types', group: 'Bread types' },
+  'bread_types.manage': { label: 'Create and edit bread types', group: 'Bread types' },
+  'bread_types.delete': { label: 'Delete bread types', group: 'Bread types' },
+  'prices.edit': { label: 'Change bread prices', group: 'Bread types' },
+  'sales.record': { label: 'Record sales and end shifts', group: 'Sales' },
+  'sales.view_all': { label: 'View sales by all staff', group: 'Sales' },
+  'sales.void': { label: 'Void and refund sales', group: 'Sales' },
+  'customers.manage': { label: 'Manage customers, credit limits and repayments', group: 'Sales' },
+  'promotions.manage': { label: 'Create and edit promotions', group: 'Sales' },
+  'reports.view': { label: 'View staff shift reports', group: 'Reports' },
+  'reports.export': { label: 'Export reports', group: 'Reports' },
+  'reports.schedule': { label: 'Schedule report emails', group: 'Reports' },
+  'staff.view': { label: 'See which staff are on shift', group: 'Staff' },
+  'users.manage': { label: 'Invite, edit and remove users', group: 'Staff' },
+  'shifts.manage': { label: 'Edit the shift schedule', group: 'Settings' },
+  'branches.manage': { label: 'Manage branches and branch prices', group: 'Settings' },
+  'permissions.manage': { label: 'Edit role and user permissions', group: 'Settings' },
+  'notifications.monitor': { label: 'Monitor push notification delivery', group: 'Settings' },
+  'webhooks.manage': { label: 'Manage outbound webhooks for integrations', group: 'Settings' },
+  'api_keys.manage': { label: 'Manage API keys for the public API', group: 'Settings' },
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+// Roles whose permissions can be edited; owners always have every permission
+export const CONFIGURABLE_ROLES = ['manager', 'sales_rep'] as const satisfies readonly UserRole[];
+
+/**
+ * What each role could do before permissions were configurable. Seeded into
+ * public.role_permissions and used when that table can't be read.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  owner: ALL_PERMISSIONS,
+  manager: [
+    'batches.view',
+    'batches.create',
+    'batches.update',
+    'batches.delete',
+    'production.plan',
+    'production.forecast',
+    'shifts.handover',
+    'inventory.view',
+    'inventory.manage',
+    'inventory.carry_over',
+    'waste.record',
+    'bread_types.view',
+    'bread_types.manage',
+    'prices.edit',
+    'sales.view_all',
+    'sales.void',
+    'customers.manage',
+    'reports.view',
+    'reports.export',
+    'staff.view',
+  ],
+  sales_rep: [
+    'batches.view',
+    'inventory.view',
+    'waste.record',
+    'bread_types.view',
+    'sales.record',
+  ],
+};
+
+export function isPermission(value: string): value is Permission {
+  return value in PERMISSIONS;
+}
+
+/**
+ * Effective permissions for a user: their role's permissions with their own
+ * grants added and revocations removed. Owners always have every permission.
+ */
+export function resolvePermissions(
+  role: UserRole,
+  rolePermissions: readonly string[],
+  overrides: readonly { permission: string; granted: boolean }[]
+): Permission[] {
+  if (role === 'owner') return ALL_PERMISSIONS;
+
+  const effective = new Set(rolePermissions.filter(isPermission));
+  overrides.forEach(override => {
+    if (!isPermission(override.permission)) return;
+    if (override.granted) {
+      effective.add(override.permission);
+    } else {
+      effective.delete(override.permission);
+    }
+  });
+
+  return ALL_PERMISSIONS.filter(permission => effective.has(permission));
+}
+
+/**
+ * Permission needed to open each page; with a list, any one of them will do.
+ * The longest matching prefix wins, so nested pages can ask for something
+ * different from their parent.
+ */
+export const ROUTE_PERMISSIONS: Record<string, Permission | Permission[]> = {
+  '/dashboard/bread-types': 'bread_types.manage',
+  '/dashboard/customers': 'customers.manage',
+  '/dashboard/customers/debtors': 'reports.view',
+  '/dashboard/ingredients': 'inventory.manage',
+  '/dashboard/inventory': 'inventory.view',
+  '/dashboard/inventory/carry-over': 'inventory.carry_over',
+  '/dashboard/inventory/logs': 'inventory.manage',
+  '/dashboard/inventory/thresholds': 'inventory.manage',
+  '/dashboard/inventory/waste': 'waste.record',
+  '/dashboard/manager/all-production-batches': 'batches.view',
+  '/dashboard/manager/export-production-batches': 'reports.export',
+  '/dashboard/production': 'batches.create',
+  '/dashboard/production/history': 'batches.view',
+  '/dashboard/production/plan': 'production.plan',
+  '/dashboard/production/forecast': 'production.forecast',
+  '/dashboard/production/handovers': 'shifts.handover',
+  '/dashboard/reports': 'reports.view',
+  '/dashboard/sales': 'sales.record',
+  // Sales reps record sales here; managers oversee the shift's sales
+  '/dashboard/sales-management': ['sales.record', 'sales.view_all'],
+  '/dashboard/users': 'users.manage',
+  '/dashboard/voids': 'sales.void',
+  '/owner-dashboard/reports': 'reports.view',
+  '/owner-dashboard/reports/scheduled': 'reports.schedule',
+  '/owner-dashboard/settings/shifts': 'shifts.manage',
+  '/owner-dashboard/settings/branches': 'branches.manage',
+  '/owner-dashboard/settings/permissions': 'permissions.manage',
+  '/owner-dashboard/settings/webhooks': 'webhooks.manage',
+  '/owner-dashboard/settings/api-keys': 'api_keys.manage',
+  '/owner-dashboard/settings/promotions': 'promotions.manage',
+};
+
+/**
+ * Permissions that each open a page on their own; empty when the page needs none
+ */
+export function getRoutePermissions(pathname: string): Permission[] {
+  let match: string | null = null;
+  for (const route of Object.keys(ROUTE_PERMISSIONS)) {
+    const matches = pathname === route || pathname.startsWith(`${route}/`);
+    if (matches && (!match || route.length > match.length)) {
+      match = route;
+    }
+  }
+  if (!match) return [];
+  const required = ROUTE_PERMISSIONS[match];
+  return Array.isArray(required) ? required : [required];
+}
@@ -1,8 +1,12 @@
+import { DEFAULT_ROLE_PERMISSIONS, type Permission } from './permissions';
+
 export type Role = 'owner' | 'manager' | 'sales_rep';
 export interface User {
   id: string;
   email?: string;
   role: Role;
+  // Effective permissions when loaded; otherwise the role's defaults apply
+  permissions?: Permission[];
 }
 
 export function isOwner(user?: User) {
@@ -14,14 +18,17 @@ export function isManager(user?: User) {
 export function isSalesRep(user?: User) {
   return user?.role === 'sales_rep';
 }
+export function can(user: User | undefined, permission: Permission) {
+  if (!user) return false;
+  if (isOwner(user)) return true;
+  return (user.permissions ?? DEFAULT_ROLE_PERMISSIONS[user.role]).includes(permission);
+}
 export function canViewUsers(user?: User) {
-  // Only owners can view users
-  return isOwner(user);
+  return can(user, 'users.manage');
 }
 export function canEditUser(user?: User) {
-  // Only owners can edit users
-  return isOwner(user);
+  return can(user, 'users.manage');
 }
 export function canInvite(user?: User) {
-  return isOwner(user);
-} 
\ No newline at end of file
+  return can(user, 'users.manage');
+}
@@ -118,9 +118,10 @@ export async function deleteUserSession(userId: string): Promise<SessionResult>
 
 /**
  * Get staff online count by querying active sessions
- * Uses service role client to bypass RLS and see all sessions
+ * Uses service role client to bypass RLS and see all sessions,
+ * so branch scoping has to be applied here explicitly
  */
-export async function getStaffOnlineCountFromSessions(): Promise<StaffOnlineResult> {
+export async function getStaffOnlineCountFromSessions(branchId?: string | null): Promise<StaffOnlineResult> {
   const serviceClient = createServiceRoleClient();
   
   try {
@@ -162,12 +163,18 @@ export async function getStaffOnlineCountFromSessions(): Promise<StaffOnlineResu
     }> = [];
     
     if (activeUserIds.length > 0) {
-      const { data: userDetails, error: usersError } = await serviceClient
+      let usersQuery = serviceClient
         .from('users')
         .select('id, name, role')
         .in('id', activeUserIds)
         .neq('role', 'owner') // Exclude owners from staff count
         .eq('is_active', true);
+
+      if (branchId) {
+        usersQuery = usersQuery.eq('branch_id', branchId);
+      }
+
+      const { data: userDetails, error: usersError } = await usersQuery;
       
       if (usersError) {
         console.warn('⚠️ [SESSION] Failed to fetch user details for active sessions:', usersError);
@@ -192,11 +199,17 @@ export async function getStaffOnlineCountFromSessions(): Promise<StaffOnlineResu
     }
     
     // Get total staff count (all active managers and sales_reps)
-    const { data: totalStaffData, error: totalError, count: totalStaffCount } = await serviceClient
+    let totalStaffQuery = serviceClient
       .from('users')
       .select('id, name, role', { count: 'exact' })
       .neq('role', 'owner')
       .eq('is_active', true);
+
+    if (branchId) {
+      totalStaffQuery = totalStaffQuery.eq('branch_id', branchId);
+    }
+
+    const { data: totalStaffData, error: totalError, count: totalStaffCount } = await totalStaffQuery;
     
     if (totalError) {
       console.warn('⚠️ [SESSION] Failed to fetch total staff count:', totalError);
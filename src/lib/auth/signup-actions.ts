@@ -118,6 +118,18 @@ export async function signup(prevState: { error?: { _form?: string } }, formData
 
     console.log('✅ User and profile records created successfully');
 
+    // Staff join the branch they were invited to
+    if (invite.branch_id) {
+      const { error: branchError } = await serviceSupabase
+        .from('users')
+        .update({ branch_id: invite.branch_id })
+        .eq('id', user.id);
+
+      if (branchError) {
+        console.warn('⚠️ Failed to assign invited user to branch:', branchError);
+      }
+    }
+
     // Mark invite as used
     const { error: updateInviteError } = await serviceSupabase
       .from('qr_invites')
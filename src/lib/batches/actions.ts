@@ -4,6 +4,12 @@ import { createServer } from '@/lib/supabase/server';
 import { createClient } from '@supabase/supabase-js';
 import { revalidatePath } from 'next/cache';
 import { logBatchActivity, logReportActivity } from '@/lib/activities/server-activity-service';
+import { deductIngredientsForBatch } from '@/lib/ingredients/actions';
+import { requirePermission } from '@/lib/auth/auth-utils';
+import { emitWebhookEvent } from '@/lib/webhooks/dispatch';
+import { batchCompletedData } from '@/lib/webhooks/events';
+import { checkShiftKey } from '@/lib/shift-schedule/actions';
+import type { ShiftType } from '@/types';
 
 export interface Batch {
   id: string;
@@ -12,12 +18,15 @@ export interface Batch {
   start_time: string;
   end_time?: string | null;
   actual_quantity: number;
+  target_quantity?: number | null;
+  // Price in effect when the batch was started
+  unit_price?: number | null;
   status: 'active' | 'completed' | 'cancelled';
   notes?: string | null;
   created_by: string;
   created_at: string;
   updated_at: string;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   bread_type?: {
     name: string;
     unit_price: number;
@@ -31,8 +40,9 @@ export interface CreateBatchData {
   bread_type_id: string;
   batch_number: string;
   actual_quantity: number;
+  target_quantity?: number;
   notes?: string;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
 }
 
 export interface UpdateBatchData {
@@ -54,6 +64,13 @@ export async function createBatch(data: Omit<CreateBatchData, 'batch_number'>) {
     throw new Error('Authentication required');
   }
 
+  const creator = await requirePermission('batches.create');
+
+  const shiftError = await checkShiftKey(data.shift, creator.branch_id);
+  if (shiftError) {
+    throw new Error(shiftError);
+  }
+
   // Use RPC function to handle creation safely (avoids materialized view permission issues)
   const { data: batchId, error } = await supabase.rpc('create_user_batch', {
     p_bread_type_id: data.bread_type_id,
@@ -68,6 +85,18 @@ export async function createBatch(data: Omit<CreateBatchData, 'batch_number'>) {
     throw new Error(`Failed to create batch: ${error.message}`);
   }
 
+  // The insert trigger defaults the target to the starting quantity
+  if (data.target_quantity) {
+    const { error: targetError } = await supabase
+      .from('batches')
+      .update({ target_quantity: data.target_quantity })
+      .eq('id', batchId);
+
+    if (targetError) {
+      console.error('Error setting batch target:', targetError);
+    }
+  }
+
   // Get the created batch with full details
   const { data: batch, error: selectError } = await supabase
     .from('batches')
@@ -102,6 +131,7 @@ export async function createBatch(data: Omit<CreateBatchData, 'batch_number'>) {
         user_name: userResult.data.name,
         shift: data.shift,
         bread_type: breadTypeResult.data.name,
+        bread_type_id: data.bread_type_id,
         quantity: data.actual_quantity,
         batch_number: batchNumber
       });
@@ -216,6 +246,8 @@ export async function getActiveBatches() {
 
 // Update a batch
 export async function updateBatch(batchId: string, data: UpdateBatchData) {
+  await requirePermission('batches.update');
+
   const supabase = await createServer();
   
   const { data: batch, error } = await supabase
@@ -236,6 +268,8 @@ export async function updateBatch(batchId: string, data: UpdateBatchData) {
 
 // Complete a batch
 export async function completeBatch(batchId: string, actualQuantity: number) {
+  await requirePermission('batches.update');
+
   const supabase = await createServer();
   
   const { data: batch, error } = await supabase
@@ -246,7 +280,7 @@ export async function completeBatch(batchId: string, actualQuantity: number) {
       end_time: new Date().toISOString()
     })
     .eq('id', batchId)
-    .select()
+    .select('*, bread_type:bread_types(name)')
     .single();
 
   if (error) {
@@ -254,12 +288,19 @@ export async function completeBatch(batchId: string, actualQuantity: number) {
     throw new Error('Failed to complete batch');
   }
 
+  // Take the recipe's ingredients out of stock for the loaves actually produced
+  await deductIngredientsForBatch(batchId);
+
+  await emitWebhookEvent('batch.completed', batchCompletedData(batch, batch.bread_type?.name ?? null));
+
   revalidatePath('/dashboard');
   return batch;
 }
 
 // Cancel a batch
 export async function cancelBatch(batchId: string) {
+  await requirePermission('batches.update');
+
   const supabase = await createServer();
   
   const { data: batch, error } = await supabase
@@ -283,6 +324,8 @@ export async function cancelBatch(batchId: string) {
 
 // Delete a batch
 export async function deleteBatch(batchId: string): Promise<void> {
+  await requirePermission('batches.delete');
+
   const supabase = await createServer();
   
   const { error } = await supabase
@@ -299,7 +342,7 @@ export async function deleteBatch(batchId: string): Promise<void> {
 }
 
 // PRODUCTION-READY: Save batches to all_batches with proper duplicate checking
-export async function checkAndSaveBatchesToAllBatches(shift?: 'morning' | 'night'): Promise<{ needsSaving: boolean; savedCount?: number }> {
+export async function checkAndSaveBatchesToAllBatches(shift?: ShiftType): Promise<{ needsSaving: boolean; savedCount?: number }> {
   const supabase = await createServer();
   
   try {
@@ -396,6 +439,7 @@ export async function checkAndSaveBatchesToAllBatches(shift?: 'morning' | 'night
         start_time: batch.start_time,
         end_time: batch.end_time,
         actual_quantity: batch.actual_quantity || 0,
+        target_quantity: batch.target_quantity,
         status: batch.status || 'active',
         shift: batch.shift,
         notes: batch.notes,
@@ -434,7 +478,7 @@ export async function checkAndSaveBatchesToAllBatches(shift?: 'morning' | 'night
           user_id: user.id,
           user_name: userData.name,
           user_role: userData.role as 'manager' | 'sales_rep',
-          shift: shift as 'morning' | 'night',
+          shift: shift as ShiftType,
           report_type: `${validBatches.length} batch${validBatches.length !== 1 ? 'es' : ''} saved to reports`
         });
       }
@@ -451,7 +495,7 @@ export async function checkAndSaveBatchesToAllBatches(shift?: 'morning' | 'night
 }
 
 // PRODUCTION-READY: Delete all batches for current user and shift
-export async function deleteAllBatches(shift?: 'morning' | 'night'): Promise<void> {
+export async function deleteAllBatches(shift?: ShiftType): Promise<void> {
   const supabase = await createServer();
   
   try {
@@ -461,20 +505,7 @@ export async function deleteAllBatches(shift?: 'morning' | 'night'): Promise<voi
       throw new Error('Authentication required');
     }
 
-    // Role authorization check
-    const { data: userData, error: userError } = await supabase
-      .from('users')
-      .select('role')
-      .eq('id', user.id)
-      .single();
-
-    if (userError || !userData) {
-      throw new Error('User not found');
-    }
-
-    if (userData.role !== 'manager' && userData.role !== 'owner') {
-      throw new Error('Unauthorized: Only managers and owners can delete batches');
-    }
+    await requirePermission('batches.delete');
 
     console.log(`🗑️ Deleting ${shift || 'all'} shift batches for current user...`);
 
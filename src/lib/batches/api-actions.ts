@@ -1,6 +1,7 @@
 'use client';
 
 import { Batch, CreateBatchData, UpdateBatchData } from './actions';
+import type { ShiftType } from '@/types';
 
 // Create a new batch using server API
 export async function createBatch(data: Omit<CreateBatchData, 'batch_number'> & { breadTypeInfo?: any }): Promise<Batch> {
@@ -25,7 +26,7 @@ export async function createBatch(data: Omit<CreateBatchData, 'batch_number'> &
 }
 
 // Fetch all batches using server API
-export async function getBatches(shift?: 'morning' | 'night'): Promise<Batch[]> {
+export async function getBatches(shift?: ShiftType): Promise<Batch[]> {
   const params = new URLSearchParams();
   if (shift) {
     params.append('shift', shift);
@@ -42,7 +43,7 @@ export async function getBatches(shift?: 'morning' | 'night'): Promise<Batch[]>
 }
 
 // Fetch all batches with detailed information for the modal
-export async function getAllBatchesWithDetails(shift?: 'morning' | 'night'): Promise<Batch[]> {
+export async function getAllBatchesWithDetails(shift?: ShiftType): Promise<Batch[]> {
   const params = new URLSearchParams();
   params.append('include', 'details');
   if (shift) {
@@ -60,7 +61,7 @@ export async function getAllBatchesWithDetails(shift?: 'morning' | 'night'): Pro
 }
 
 // Fetch active batches using server API
-export async function getActiveBatches(shift?: 'morning' | 'night'): Promise<Batch[]> {
+export async function getActiveBatches(shift?: ShiftType): Promise<Batch[]> {
   const params = new URLSearchParams();
   params.append('status', 'active');
   if (shift) {
@@ -124,7 +125,7 @@ export async function deleteBatch(batchId: string): Promise<void> {
 }
 
 // Get batch statistics
-export async function getBatchStats(shift?: 'morning' | 'night') {
+export async function getBatchStats(shift?: ShiftType) {
   const params = new URLSearchParams();
   if (shift) {
     params.append('shift', shift);
@@ -0,0 +1,247 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createServer, createServiceRoleClient } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/auth/auth-utils';
+import { branchSchema, branchPriceSchema, formatValidationError } from '@/lib/validations';
+import type { Branch } from '@/types';
+
+type ActionResult = { success: boolean; error?: string };
+
+/**
+ * Resolve the signed-in user and confirm they can manage branches
+ */
+async function requireBranchManager() {
+  const supabase = await createServer();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { supabase, user: null, error: 'Authentication required' };
+  }
+
+  if (!(await hasPermission('branches.manage'))) {
+    return { supabase, user: null, error: 'You do not have permission to manage branches' };
+  }
+
+  return { supabase, user, error: null };
+}
+
+/**
+ * Get branches visible to the current user.
+ * RLS limits staff to their own branch; owners see all of them.
+ */
+export async function getBranches(includeInactive: boolean = false): Promise<Branch[]> {
+  const supabase = await createServer();
+
+  try {
+    let query = supabase
+      .from('branches')
+      .select('id, name, address, phone, is_active, created_at')
+      .order('name');
+
+    if (!includeInactive) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching branches:', error);
+    return [];
+  }
+}
+
+/**
+ * Branch of the signed-in user. Owners usually have none, meaning all branches.
+ */
+export async function getCurrentUserBranchId(): Promise<string | null> {
+  const supabase = await createServer();
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const { data: profile } = await supabase
+      .from('users')
+      .select('branch_id')
+      .eq('id', user.id)
+      .single();
+
+    return profile?.branch_id ?? null;
+  } catch (error) {
+    console.error('Error fetching current user branch:', error);
+    return null;
+  }
+}
+
+export async function createBranch(input: unknown): Promise<ActionResult> {
+  try {
+    const { supabase, user, error } = await requireBranchManager();
+    if (!user) return { success: false, error: error ?? 'Unauthorized' };
+
+    const parsed = branchSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const { error: insertError } = await supabase
+      .from('branches')
+      .insert({ ...parsed.data, created_by: user.id });
+
+    if (insertError) {
+      console.error('Error creating branch:', insertError);
+      return {
+        success: false,
+        error: insertError.code === '23505' ? 'A branch with this name already exists' : 'Failed to create branch',
+      };
+    }
+
+    console.log(`✅ Branch "${parsed.data.name}" created`);
+    revalidatePath('/owner-dashboard/settings/branches');
+    return { success: true };
+  } catch (error) {
+    console.error('Error in createBranch:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to create branch' };
+  }
+}
+
+export async function updateBranch(id: string, input: unknown): Promise<ActionResult> {
+  try {
+    const { supabase, user, error } = await requireBranchManager();
+    if (!user) return { success: false, error: error ?? 'Unauthorized' };
+
+    const parsed = branchSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const { error: updateError } = await supabase
+      .from('branches')
+      .update({ ...parsed.data, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (updateError) {
+      console.error('Error updating branch:', updateError);
+      return {
+        success: false,
+        error: updateError.code === '23505' ? 'A branch with this name already exists' : 'Failed to update branch',
+      };
+    }
+
+    revalidatePath('/owner-dashboard/settings/branches');
+    return { success: true };
+  } catch (error) {
+    console.error('Error in updateBranch:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to update branch' };
+  }
+}
+
+/**
+ * Move a staff member to a branch. Their existing records stay with the old branch.
+ */
+export async function assignUserToBranch(userId: string, branchId: string | null): Promise<ActionResult> {
+  try {
+    const { user, error } = await requireBranchManager();
+    if (!user) return { success: false, error: error ?? 'Unauthorized' };
+
+    // Service role: user rows are otherwise only writable through the user management RPCs
+    const serviceSupabase = createServiceRoleClient();
+
+    const { data: target, error: targetError } = await serviceSupabase
+      .from('users')
+      .select('id, name, role')
+      .eq('id', userId)
+      .single();
+
+    if (targetError || !target) {
+      return { success: false, error: 'User not found' };
+    }
+
+    if (target.role !== 'owner' && !branchId) {
+      return { success: false, error: 'Managers and sales reps must belong to a branch' };
+    }
+
+    const { error: updateError } = await serviceSupabase
+      .from('users')
+      .update({ branch_id: branchId })
+      .eq('id', userId);
+
+    if (updateError) {
+      console.error('Error assigning user to branch:', updateError);
+      return { success: false, error: 'Failed to assign user to branch' };
+    }
+
+    console.log(`✅ ${target.name} assigned to branch ${branchId ?? '(all)'}`);
+    revalidatePath('/owner-dashboard/settings/branches');
+    revalidatePath('/dashboard/users');
+    return { success: true };
+  } catch (error) {
+    console.error('Error in assignUserToBranch:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to assign user to branch' };
+  }
+}
+
+/**
+ * Price overrides for one branch, keyed by bread type id
+ */
+export async function getBranchPrices(branchId: string): Promise<Record<string, number>> {
+  const supabase = await createServer();
+
+  try {
+    const { data, error } = await supabase
+      .from('branch_prices')
+      .select('bread_type_id, unit_price')
+      .eq('branch_id', branchId);
+
+    if (error) throw error;
+
+    return Object.fromEntries((data || []).map(price => [price.bread_type_id, price.unit_price]));
+  } catch (error) {
+    console.error('Error fetching branch prices:', error);
+    return {};
+  }
+}
+
+/**
+ * Set or clear (unit_price: null) a branch price override
+ */
+export async function setBranchPrice(input: unknown): Promise<ActionResult> {
+  try {
+    const { supabase, user, error } = await requireBranchManager();
+    if (!user) return { success: false, error: error ?? 'Unauthorized' };
+
+    const parsed = branchPriceSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const { branch_id, bread_type_id, unit_price } = parsed.data;
+
+    const { error: saveError } = unit_price === null
+      ? await supabase
+          .from('branch_prices')
+          .delete()
+          .eq('branch_id', branch_id)
+          .eq('bread_type_id', bread_type_id)
+      : await supabase
+          .from('branch_prices')
+          .upsert(
+            { branch_id, bread_type_id, unit_price, updated_by: user.id, updated_at: new Date().toISOString() },
+            { onConflict: 'branch_id,bread_type_id' }
+          );
+
+    if (saveError) {
+      console.error('Error saving branch price:', saveError);
+      return { success: false, error: 'Failed to save branch price' };
+    }
+
+    revalidatePath('/owner-dashboard/settings/branches');
+    revalidatePath('/dashboard/bread-types');
+    return { success: true };
+  } catch (error) {
+    console.error('Error in setBranchPrice:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save branch price' };
+  }
+}
@@ -0,0 +1,31 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/database';
+
+/**
+ * Replace each bread type's base unit_price with the branch override, if any.
+ * Without a branch (owners viewing all branches) the base prices are kept.
+ */
+export async function applyBranchPrices<T extends { id: string; unit_price: number }>(
+  supabase: SupabaseClient<Database>,
+  breadTypes: T[],
+  branchId: string | null | undefined
+): Promise<T[]> {
+  if (!branchId || breadTypes.length === 0) return breadTypes;
+
+  const { data: prices, error } = await supabase
+    .from('branch_prices')
+    .select('bread_type_id, unit_price')
+    .eq('branch_id', branchId);
+
+  if (error) {
+    console.error('Error fetching branch prices:', error);
+    return breadTypes;
+  }
+
+  const priceByBreadType = new Map((prices || []).map(price => [price.bread_type_id, price.unit_price]));
+
+  return breadTypes.map(breadType => ({
+    ...breadType,
+    unit_price: priceByBreadType.get(breadType.id) ?? breadType.unit_price,
+  }));
+}
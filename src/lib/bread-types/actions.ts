@@ -1,7 +1,9 @@
 import { createServer, createServiceRoleClient } from '@/lib/supabase/server';
 import { breadTypeSchema, breadTypeUpdateSchema, breadTypeStatusSchema } from '@/lib/validations/bread-types';
-import { isOwner, isManager, User } from '@/lib/auth/rbac';
+import { hasPermission, requirePermission } from '@/lib/auth/auth-utils';
 import { BreadType } from '@/types';
+import { getCurrentUserBranchId } from '@/lib/branches/actions';
+import { applyBranchPrices } from '@/lib/branches/pricing';
 
 interface BreadTypeInput {
   name: string;
@@ -11,19 +13,32 @@ interface BreadTypeInput {
 }
 
 // Enhanced getBreadTypes with soft delete support
-export async function getBreadTypes(includeInactive: boolean = false): Promise<BreadType[]> {
+// branchId defaults to the current user's branch; null means every branch at base prices
+export async function getBreadTypes(includeInactive: boolean = false, branchId?: string | null): Promise<BreadType[]> {
   try {
     const supabase = createServiceRoleClient();
+    const scopeBranchId = branchId === undefined ? await getCurrentUserBranchId() : branchId;
+
+    // Scheduled price changes are copied onto bread_types once they are due
+    const { error: applyError } = await supabase.rpc('apply_due_bread_prices');
+    if (applyError) {
+      console.error('Error applying scheduled prices:', applyError);
+    }
     
     let query = supabase
       .from('bread_types')
-      .select('id, name, size, unit_price, created_by, created_at, is_active')
+      .select('id, name, size, unit_price, created_by, created_at, is_active, branch_id')
       .order('name');
     
     // By default, only show active bread types
     if (!includeInactive) {
       query = query.eq('is_active', true);
     }
+
+    // Service role bypasses RLS, so apply branch scoping here: shared + own branch
+    if (scopeBranchId) {
+      query = query.or(`branch_id.is.null,branch_id.eq.${scopeBranchId}`);
+    }
     
     const { data, error } = await query.limit(50); // Increased limit for better UX
     
@@ -36,8 +51,10 @@ export async function getBreadTypes(includeInactive: boolean = false): Promise<B
       return [];
     }
     
+    const priced = await applyBranchPrices(supabase, data, scopeBranchId);
+
     // Enhanced transformation with soft delete support
-    return data.map(item => ({
+    return priced.map(item => ({
       id: item.id,
       name: item.name,
       size: item.size || undefined,
@@ -45,6 +62,7 @@ export async function getBreadTypes(includeInactive: boolean = false): Promise<B
       created_by: item.created_by || undefined,
       created_at: item.created_at,
       is_active: item.is_active !== false, // Default to true for backwards compatibility
+      branch_id: item.branch_id,
     }));
   } catch (error) {
     console.error('Error in getBreadTypes:', error);
@@ -52,10 +70,8 @@ export async function getBreadTypes(includeInactive: boolean = false): Promise<B
   }
 }
 
-export async function createBreadType(currentUser: User, input: BreadTypeInput) {
-  if (!isOwner(currentUser) && !isManager(currentUser)) {
-    throw new Error('Unauthorized: Only owners and managers can create bread types');
-  }
+export async function createBreadType(input: BreadTypeInput) {
+  const currentUser = await requirePermission('bread_types.manage');
   
   const parsed = breadTypeSchema.safeParse(input);
   if (!parsed.success) {
@@ -64,13 +80,17 @@ export async function createBreadType(currentUser: User, input: BreadTypeInput)
   }
   
   const supabase = createServiceRoleClient();
+
+  // Owners create shared bread types; a manager's bread types belong to their branch
+  const branchId = currentUser.role === 'owner' ? null : await getCurrentUserBranchId();
   
   const { data, error } = await supabase.from('bread_types').insert([{
     name: parsed.data.name,
     size: parsed.data.size,
     unit_price: parsed.data.unit_price,
     is_active: parsed.data.is_active !== undefined ? parsed.data.is_active : true,
-    created_by: currentUser.id
+    created_by: currentUser.id,
+    branch_id: branchId
   }]).select('id, name, is_active');
   
   if (error) {
@@ -88,10 +108,8 @@ export async function createBreadType(currentUser: User, input: BreadTypeInput)
   return true;
 }
 
-export async function updateBreadType(currentUser: User, id: string, input: BreadTypeInput) {
-  if (!isOwner(currentUser) && !isManager(currentUser)) {
-    throw new Error('Unauthorized: Only owners and managers can update bread types');
-  }
+export async function updateBreadType(id: string, input: BreadTypeInput) {
+  await requirePermission('bread_types.manage');
   
   const parsed = breadTypeUpdateSchema.safeParse(input);
   if (!parsed.success) {
@@ -111,6 +129,10 @@ export async function updateBreadType(currentUser: User, id: string, input: Brea
   if (fetchError || !currentBreadType) {
     throw new Error('Bread type not found');
   }
+
+  if (parsed.data.unit_price !== currentBreadType.unit_price) {
+    await requirePermission('prices.edit');
+  }
   
   // Use the working bypass function
   const { data, error } = await supabase.rpc('update_bread_type_with_manual_refresh', {
@@ -150,10 +172,8 @@ export async function updateBreadType(currentUser: User, id: string, input: Brea
 }
 
 // New function: Soft delete (deactivate)
-export async function deactivateBreadType(currentUser: User, id: string): Promise<boolean> {
-  if (!isOwner(currentUser) && !isManager(currentUser)) {
-    throw new Error('Unauthorized: Only owners and managers can deactivate bread types');
-  }
+export async function deactivateBreadType(id: string): Promise<boolean> {
+  await requirePermission('bread_types.manage');
   
   const supabase = createServiceRoleClient();
   
@@ -197,10 +217,8 @@ export async function deactivateBreadType(currentUser: User, id: string): Promis
 }
 
 // New function: Reactivate bread type
-export async function reactivateBreadType(currentUser: User, id: string): Promise<boolean> {
-  if (!isOwner(currentUser) && !isManager(currentUser)) {
-    throw new Error('Unauthorized: Only owners and managers can reactivate bread types');
-  }
+export async function reactivateBreadType(id: string): Promise<boolean> {
+  await requirePermission('bread_types.manage');
   
   const supabase = createServiceRoleClient();
   
@@ -244,10 +262,10 @@ export async function reactivateBreadType(currentUser: User, id: string): Promis
 }
 
 // Enhanced deleteBreadType - now even more restrictive since we have soft delete
-export async function deleteBreadType(currentUser: User, id: string) {
-  // Only owners can perform HARD deletes
-  if (!isOwner(currentUser)) {
-    throw new Error('Unauthorized: Only owners can permanently delete bread types. Consider deactivating instead.');
+export async function deleteBreadType(id: string) {
+  // HARD deletes need their own permission; deactivating only needs bread_types.manage
+  if (!(await hasPermission('bread_types.delete'))) {
+    throw new Error('Unauthorized: You cannot permanently delete bread types. Consider deactivating instead.');
   }
   
   const supabase = createServiceRoleClient();
@@ -0,0 +1,158 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createServer } from '@/lib/supabase/server';
+import { requireAuth, requirePermission } from '@/lib/auth/auth-utils';
+import { scheduledPriceSchema, formatValidationError } from '@/lib/validations';
+import type { BreadTypePrice } from '@/types';
+
+type ActionResult = { success: boolean; error?: string };
+
+const PRICE_COLUMNS = `
+  id, bread_type_id, branch_id, unit_price, effective_from, note,
+  branches ( name ),
+  users:created_by ( name )
+`;
+
+type PriceRow = {
+  id: string;
+  bread_type_id: string;
+  branch_id: string | null;
+  unit_price: number | null;
+  effective_from: string;
+  note: string | null;
+  branches: { name: string } | null;
+  users: { name: string } | null;
+};
+
+function toBreadTypePrice(row: PriceRow): BreadTypePrice {
+  return {
+    id: row.id,
+    bread_type_id: row.bread_type_id,
+    branch_id: row.branch_id,
+    branch_name: row.branches?.name ?? null,
+    unit_price: row.unit_price === null ? null : Number(row.unit_price),
+    effective_from: row.effective_from,
+    note: row.note,
+    created_by_name: row.users?.name ?? null,
+  };
+}
+
+/**
+ * Every price a bread type has had or is scheduled to have, newest first.
+ * Managers only see their own branch's prices alongside the standard ones.
+ */
+export async function getPriceHistory(breadTypeId: string): Promise<BreadTypePrice[]> {
+  try {
+    await requireAuth();
+    const supabase = await createServer();
+
+    const { data, error } = await supabase
+      .from('bread_type_prices')
+      .select(PRICE_COLUMNS)
+      .eq('bread_type_id', breadTypeId)
+      .order('effective_from', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toBreadTypePrice);
+  } catch (error) {
+    console.error('Error fetching price history:', error);
+    return [];
+  }
+}
+
+/**
+ * Price changes that have not taken effect yet, soonest first
+ */
+export async function getScheduledPriceChanges(): Promise<BreadTypePrice[]> {
+  try {
+    await requireAuth();
+    const supabase = await createServer();
+
+    const { data, error } = await supabase
+      .from('bread_type_prices')
+      .select(PRICE_COLUMNS)
+      .gt('effective_from', new Date().toISOString())
+      .order('effective_from', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(toBreadTypePrice);
+  } catch (error) {
+    console.error('Error fetching scheduled price changes:', error);
+    return [];
+  }
+}
+
+/**
+ * Schedule a new price for a bread type. Only owners set branch prices,
+ * as with branch_prices itself.
+ */
+export async function schedulePriceChange(input: unknown): Promise<ActionResult> {
+  try {
+    const user = await requirePermission('prices.edit');
+
+    const parsed = scheduledPriceSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    if (parsed.data.branch_id && user.role !== 'owner') {
+      return { success: false, error: 'Only owners can schedule branch prices' };
+    }
+
+    const supabase = await createServer();
+    const { error } = await supabase.from('bread_type_prices').insert({
+      bread_type_id: parsed.data.bread_type_id,
+      branch_id: parsed.data.branch_id ?? null,
+      unit_price: parsed.data.unit_price,
+      effective_from: parsed.data.effective_from,
+      note: parsed.data.note || null,
+      created_by: user.id,
+    });
+
+    if (error) {
+      console.error('Error scheduling price change:', error);
+      if (error.code === '23505') {
+        return { success: false, error: 'A price change is already scheduled for that time' };
+      }
+      return { success: false, error: 'Failed to schedule the price change' };
+    }
+
+    revalidatePath('/dashboard/bread-types');
+    return { success: true };
+  } catch (error) {
+    console.error('Error in schedulePriceChange:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to schedule the price change' };
+  }
+}
+
+/**
+ * Drop a scheduled change before it takes effect; past prices stay on record
+ */
+export async function cancelScheduledPriceChange(id: string): Promise<ActionResult> {
+  try {
+    await requirePermission('prices.edit');
+    const supabase = await createServer();
+
+    const { data, error } = await supabase
+      .from('bread_type_prices')
+      .delete()
+      .eq('id', id)
+      .gt('effective_from', new Date().toISOString())
+      .select('id');
+
+    if (error) {
+      console.error('Error cancelling price change:', error);
+      return { success: false, error: 'Failed to cancel the price change' };
+    }
+    if (!data || data.length === 0) {
+      return { success: false, error: 'This price change has already taken effect' };
+    }
+
+    revalidatePath('/dashboard/bread-types');
+    return { success: true };
+  } catch (error) {
+    console.error('Error in cancelScheduledPriceChange:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to cancel the price change' };
+  }
+}
@@ -0,0 +1,380 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createServer } from '@/lib/supabase/server';
+import { hasPermission, requireAuth } from '@/lib/auth/auth-utils';
+import {
+  customerSchema,
+  customerPaymentSchema,
+  customerStatementSchema,
+  formatValidationError,
+} from '@/lib/validations';
+import {
+  ageDebt,
+  buildStatement,
+  summarizeAccount,
+  type CustomerAccount,
+  type CustomerStatement,
+  type CustomerTransaction,
+  type Debtor,
+} from './ledger';
+
+type ActionResult = { success: boolean; error?: string };
+
+export interface SaleCustomer {
+  id: string;
+  name: string;
+  phone: string | null;
+  credit_limit: number;
+  balance: number;
+}
+
+const TRANSACTION_COLUMNS = `
+  id, customer_id, kind, created_at, amount, amount_paid, balance_change, payment_status, quantity, note,
+  bread_types (name),
+  recorder:users!customer_transactions_recorded_by_fkey (name)
+`;
+
+type TransactionRow = {
+  id: string;
+  customer_id: string;
+  kind: string;
+  created_at: string | null;
+  amount: number;
+  amount_paid: number;
+  balance_change: number | null;
+  payment_status: string | null;
+  quantity: number | null;
+  note: string | null;
+  bread_types: { name: string } | null;
+  recorder: { name: string } | null;
+};
+
+function toTransaction(row: TransactionRow): CustomerTransaction {
+  return {
+    id: row.id,
+    kind: row.kind as CustomerTransaction['kind'],
+    created_at: row.created_at ?? new Date(0).toISOString(),
+    amount: Number(row.amount),
+    amount_paid: Number(row.amount_paid),
+    balance_change: Number(row.balance_change ?? 0),
+    payment_status: row.payment_status as CustomerTransaction['payment_status'],
+    bread_type: row.bread_types?.name ?? null,
+    quantity: row.quantity,
+    note: row.note,
+    recorded_by: row.recorder?.name || 'Unknown',
+  };
+}
+
+type LedgerEntry = Pick<CustomerTransaction, 'kind' | 'created_at' | 'balance_change'>;
+
+function groupByCustomer(
+  rows: { customer_id: string; kind: string; created_at: string | null; balance_change: number | null }[]
+): Map<string, LedgerEntry[]> {
+  const byCustomer = new Map<string, LedgerEntry[]>();
+  rows.forEach(row => {
+    const list = byCustomer.get(row.customer_id) || [];
+    list.push({
+      kind: row.kind as CustomerTransaction['kind'],
+      created_at: row.created_at ?? new Date(0).toISOString(),
+      balance_change: Number(row.balance_change ?? 0),
+    });
+    byCustomer.set(row.customer_id, list);
+  });
+  return byCustomer;
+}
+
+async function canViewAccounts(): Promise<boolean> {
+  const [canManage, canViewReports] = await Promise.all([
+    hasPermission('customers.manage'),
+    hasPermission('reports.view'),
+  ]);
+  return canManage || canViewReports;
+}
+
+/**
+ * Active customers and what they owe, for attaching a sale to an account
+ */
+export async function getSaleCustomers(): Promise<SaleCustomer[]> {
+  try {
+    await requireAuth();
+    const supabase = await createServer();
+    const { data, error } = await supabase.rpc('sale_customers');
+    if (error) throw error;
+
+    return (data || []).map(customer => ({
+      id: customer.id,
+      name: customer.name,
+      phone: customer.phone,
+      credit_limit: Number(customer.credit_limit),
+      balance: Number(customer.balance),
+    }));
+  } catch (error) {
+    console.error('Error fetching sale customers:', error);
+    return [];
+  }
+}
+
+/**
+ * Every customer with their balance, largest debts first
+ */
+export async function getCustomerAccounts(includeInactive: boolean = false): Promise<CustomerAccount[]> {
+  try {
+    if (!(await canViewAccounts())) {
+      throw new Error('Access denied. Missing permission: customers.manage');
+    }
+    const supabase = await createServer();
+
+    let customerQuery = supabase
+      .from('customers')
+      .select('id, name, phone, credit_limit, is_active')
+      .order('name');
+    if (!includeInactive) {
+      customerQuery = customerQuery.eq('is_active', true);
+    }
+
+    const [customersResult, transactionsResult] = await Promise.all([
+      customerQuery,
+      supabase.from('customer_transactions').select('customer_id, kind, created_at, balance_change'),
+    ]);
+
+    if (customersResult.error) throw customersResult.error;
+    if (transactionsResult.error) throw transactionsResult.error;
+
+    const byCustomer = groupByCustomer(transactionsResult.data || []);
+
+    return (customersResult.data || [])
+      .map(customer => ({
+        id: customer.id,
+        name: customer.name,
+        phone: customer.phone,
+        credit_limit: Number(customer.credit_limit),
+        is_active: customer.is_active,
+        ...summarizeAccount(byCustomer.get(customer.id) || []),
+      }))
+      .sort((a, b) => b.balance - a.balance || a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error fetching customer accounts:', error);
+    return [];
+  }
+}
+
+export async function createCustomer(input: unknown): Promise<ActionResult & { customerId?: string }> {
+  try {
+    const user = await requireAuth();
+    if (!(await hasPermission('customers.manage'))) {
+      return { success: false, error: 'You do not have permission to manage customers' };
+    }
+
+    const parsed = customerSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const supabase = await createServer();
+    const { data, error } = await supabase
+      .from('customers')
+      .insert({
+        name: parsed.data.name,
+        phone: parsed.data.phone || null,
+        credit_limit: parsed.data.credit_limit,
+        is_active: parsed.data.is_active,
+        created_by: user.id,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error creating customer:', error);
+      return {
+        success: false,
+        error: error.code === '23505' ? 'A customer with this name already exists' : 'Failed to create customer',
+      };
+    }
+
+    revalidatePath('/dashboard/customers');
+    return { success: true, customerId: data.id };
+  } catch (error) {
+    console.error('Error in createCustomer:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to create customer' };
+  }
+}
+
+export async function updateCustomer(id: string, input: unknown): Promise<ActionResult> {
+  try {
+    await requireAuth();
+    if (!(await hasPermission('customers.manage'))) {
+      return { success: false, error: 'You do not have permission to manage customers' };
+    }
+
+    const parsed = customerSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const supabase = await createServer();
+    const { error } = await supabase
+      .from('customers')
+      .update({
+        name: parsed.data.name,
+        phone: parsed.data.phone || null,
+        credit_limit: parsed.data.credit_limit,
+        is_active: parsed.data.is_active,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating customer:', error);
+      return {
+        success: false,
+        error: error.code === '23505' ? 'A customer with this name already exists' : 'Failed to update customer',
+      };
+    }
+
+    revalidatePath('/dashboard/customers');
+    return { success: true };
+  } catch (error) {
+    console.error('Error in updateCustomer:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to update customer' };
+  }
+}
+
+/**
+ * Record money a customer paid towards what they owe
+ */
+export async function recordCustomerPayment(input: unknown): Promise<ActionResult> {
+  try {
+    const user = await requireAuth();
+    if (!(await hasPermission('customers.manage'))) {
+      return { success: false, error: 'You do not have permission to record customer payments' };
+    }
+
+    const parsed = customerPaymentSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const supabase = await createServer();
+    const { data: customer, error: customerError } = await supabase
+      .from('customers')
+      .select('id, branch_id')
+      .eq('id', parsed.data.customer_id)
+      .single();
+
+    if (customerError || !customer) {
+      return { success: false, error: 'Customer not found' };
+    }
+
+    const { error } = await supabase.from('customer_transactions').insert({
+      // Follow the customer's branch so owners recording payments don't leave it empty
+      branch_id: customer.branch_id,
+      customer_id: customer.id,
+      kind: 'payment',
+      amount: parsed.data.amount,
+      note: parsed.data.note || null,
+      recorded_by: user.id,
+    });
+
+    if (error) {
+      console.error('Error recording customer payment:', error);
+      return { success: false, error: 'Failed to record payment' };
+    }
+
+    revalidatePath('/dashboard/customers');
+    revalidatePath('/dashboard/customers/debtors');
+    return { success: true };
+  } catch (error) {
+    console.error('Error in recordCustomerPayment:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to record payment' };
+  }
+}
+
+/**
+ * A customer's sales, payments and voids with a running balance
+ */
+export async function getCustomerStatement(input: unknown): Promise<CustomerStatement | null> {
+  try {
+    if (!(await canViewAccounts())) {
+      throw new Error('Access denied. Missing permission: customers.manage');
+    }
+
+    const parsed = customerStatementSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new Error(formatValidationError(parsed.error));
+    }
+
+    const supabase = await createServer();
+    const [customerResult, transactionsResult] = await Promise.all([
+      supabase
+        .from('customers')
+        .select('id, name, phone, credit_limit')
+        .eq('id', parsed.data.customer_id)
+        .single(),
+      supabase
+        .from('customer_transactions')
+        .select(TRANSACTION_COLUMNS)
+        .eq('customer_id', parsed.data.customer_id)
+        .order('created_at'),
+    ]);
+
+    if (customerResult.error) throw customerResult.error;
+    if (transactionsResult.error) throw transactionsResult.error;
+
+    const customer = customerResult.data;
+    return buildStatement(
+      { id: customer.id, name: customer.name, phone: customer.phone, credit_limit: Number(customer.credit_limit) },
+      ((transactionsResult.data || []) as TransactionRow[]).map(toTransaction),
+      parsed.data.from,
+      parsed.data.to
+    );
+  } catch (error) {
+    console.error('Error fetching customer statement:', error);
+    return null;
+  }
+}
+
+/**
+ * Customers who owe money, with their debt split by age
+ */
+export async function getDebtorsReport(): Promise<Debtor[]> {
+  try {
+    if (!(await canViewAccounts())) {
+      throw new Error('Access denied. Missing permission: reports.view');
+    }
+
+    const supabase = await createServer();
+    const [customersResult, transactionsResult] = await Promise.all([
+      supabase.from('customers').select('id, name, phone, credit_limit'),
+      supabase.from('customer_transactions').select('customer_id, kind, created_at, balance_change'),
+    ]);
+
+    if (customersResult.error) throw customersResult.error;
+    if (transactionsResult.error) throw transactionsResult.error;
+
+    const byCustomer = groupByCustomer(transactionsResult.data || []);
+
+    const now = new Date();
+    return (customersResult.data || [])
+      .map(customer => {
+        const transactions = byCustomer.get(customer.id) || [];
+        const account = summarizeAccount(transactions);
+        const creditLimit = Number(customer.credit_limit);
+        return {
+          customer_id: customer.id,
+          name: customer.name,
+          phone: customer.phone,
+          credit_limit: creditLimit,
+          balance: account.balance,
+          over_limit: account.balance > creditLimit,
+          last_payment_at: account.last_payment_at,
+          aging: ageDebt(transactions, now),
+        };
+      })
+      .filter(debtor => debtor.balance > 0)
+      .sort((a, b) => b.balance - a.balance);
+  } catch (error) {
+    console.error('Error fetching debtors report:', error);
+    return [];
+  }
+}
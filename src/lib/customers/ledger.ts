@@ -0,0 +1,202 @@
+export type CustomerTransactionKind = 'sale' | 'payment' | 'void';
+export type CustomerPaymentStatus = 'paid' | 'partial' | 'credit';
+
+export interface CustomerTransaction {
+  id: string;
+  kind: CustomerTransactionKind;
+  created_at: string;
+  amount: number;
+  amount_paid: number;
+  // What the row adds to the amount owed; negative for payments and voids
+  balance_change: number;
+  payment_status: CustomerPaymentStatus | null;
+  bread_type: string | null;
+  quantity: number | null;
+  note: string | null;
+  recorded_by: string;
+}
+
+export interface CustomerAccount {
+  id: string;
+  name: string;
+  phone: string | null;
+  credit_limit: number;
+  is_active: boolean;
+  balance: number;
+  last_sale_at: string | null;
+  last_payment_at: string | null;
+}
+
+export interface StatementLine {
+  date: string;
+  description: string;
+  charge: number;
+  credit: number;
+  balance: number;
+  recorded_by: string;
+}
+
+export interface CustomerStatement {
+  customer: Pick<CustomerAccount, 'id' | 'name' | 'phone' | 'credit_limit'>;
+  from: string | null;
+  to: string | null;
+  opening_balance: number;
+  closing_balance: number;
+  lines: StatementLine[];
+}
+
+export interface DebtAging {
+  current: number;
+  days_8_30: number;
+  days_31_60: number;
+  over_60: number;
+}
+
+export interface Debtor {
+  customer_id: string;
+  name: string;
+  phone: string | null;
+  credit_limit: number;
+  balance: number;
+  over_limit: boolean;
+  last_payment_at: string | null;
+  aging: DebtAging;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function describe(transaction: CustomerTransaction): string {
+  const item = transaction.bread_type
+    ? `${transaction.quantity ?? ''}× ${transaction.bread_type}`.trim()
+    : 'bread';
+
+  switch (transaction.kind) {
+    case 'sale':
+      if (transaction.payment_status === 'paid') return `Sale: ${item} (paid)`;
+      if (transaction.payment_status === 'partial') return `Sale: ${item} (part paid)`;
+      return `Sale on credit: ${item}`;
+    case 'void':
+      return `Void/refund: ${item}${transaction.note ? ` (${transaction.note})` : ''}`;
+    default:
+      return `Payment${transaction.note ? ` (${transaction.note})` : ''}`;
+  }
+}
+
+/**
+ * Balance and last activity for a customer from their ledger
+ */
+export function summarizeAccount(
+  transactions: Pick<CustomerTransaction, 'kind' | 'created_at' | 'balance_change'>[]
+): Pick<CustomerAccount, 'balance' | 'last_sale_at' | 'last_payment_at'> {
+  let balance = 0;
+  let lastSaleAt: string | null = null;
+  let lastPaymentAt: string | null = null;
+
+  transactions.forEach(transaction => {
+    balance += transaction.balance_change;
+    if (transaction.kind === 'sale' && (!lastSaleAt || transaction.created_at > lastSaleAt)) {
+      lastSaleAt = transaction.created_at;
+    }
+    if (transaction.kind === 'payment' && (!lastPaymentAt || transaction.created_at > lastPaymentAt)) {
+      lastPaymentAt = transaction.created_at;
+    }
+  });
+
+  return { balance: round2(balance), last_sale_at: lastSaleAt, last_payment_at: lastPaymentAt };
+}
+
+/**
+ * Statement lines with a running balance. Transactions before `from` are
+ * rolled into the opening balance; dates are YYYY-MM-DD and inclusive.
+ */
+export function buildStatement(
+  customer: CustomerStatement['customer'],
+  transactions: CustomerTransaction[],
+  from?: string,
+  to?: string
+): CustomerStatement {
+  const sorted = [...transactions].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  let balance = 0;
+  const lines: StatementLine[] = [];
+
+  sorted.forEach(transaction => {
+    const day = transaction.created_at.slice(0, 10);
+    if (to && day > to) return;
+
+    balance = round2(balance + transaction.balance_change);
+    if (from && day < from) return;
+
+    // A sale charges its full total; anything paid at the till shows as a credit on the same line
+    const charge = transaction.kind === 'sale' ? transaction.amount : 0;
+    const credit = transaction.kind === 'sale' ? transaction.amount_paid : transaction.amount;
+
+    lines.push({
+      date: transaction.created_at,
+      description: describe(transaction),
+      charge,
+      credit,
+      balance,
+      recorded_by: transaction.recorded_by,
+    });
+  });
+
+  const openingBalance = lines.length > 0
+    ? round2(lines[0].balance - lines[0].charge + lines[0].credit)
+    : balance;
+
+  return {
+    customer,
+    from: from ?? null,
+    to: to ?? null,
+    opening_balance: openingBalance,
+    closing_balance: balance,
+    lines,
+  };
+}
+
+/**
+ * Split what a customer owes by the age of the unpaid sales. Payments and
+ * voids settle the oldest unpaid sales first.
+ */
+export function ageDebt(
+  transactions: Pick<CustomerTransaction, 'created_at' | 'balance_change'>[],
+  now: Date = new Date()
+): DebtAging {
+  const sorted = [...transactions].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const unpaid: { created_at: string; amount: number }[] = [];
+  let credit = 0;
+
+  sorted.forEach(transaction => {
+    if (transaction.balance_change > 0) {
+      unpaid.push({ created_at: transaction.created_at, amount: transaction.balance_change });
+    } else {
+      credit += -transaction.balance_change;
+    }
+  });
+
+  const aging: DebtAging = { current: 0, days_8_30: 0, days_31_60: 0, over_60: 0 };
+
+  unpaid.forEach(charge => {
+    const settled = Math.min(credit, charge.amount);
+    credit -= settled;
+    const remaining = charge.amount - settled;
+    if (remaining <= 0) return;
+
+    const days = Math.floor((now.getTime() - new Date(charge.created_at).getTime()) / DAY_MS);
+    if (days <= 7) aging.current += remaining;
+    else if (days <= 30) aging.days_8_30 += remaining;
+    else if (days <= 60) aging.days_31_60 += remaining;
+    else aging.over_60 += remaining;
+  });
+
+  return {
+    current: round2(aging.current),
+    days_8_30: round2(aging.days_8_30),
+    days_31_60: round2(aging.days_31_60),
+    over_60: round2(aging.over_60),
+  };
+}
@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase/client';
+import { getLowStock } from '@/lib/low-stock/actions';
 
 /**
  * Get current Lagos date string (YYYY-MM-DD)
@@ -158,22 +159,12 @@ export const getStaffOnlineCount = async (): Promise<{ online: number; total: nu
 };
 
 /**
- * Get low stock count from available_stock
- * Matches the logic from sales-management: items with available <= 5 and > 0
+ * Get low stock count from the per-bread-type thresholds
  */
 export const getLowStockCount = async (): Promise<number> => {
-  const supabaseClient = supabase;
-  
   try {
-    const { data: stockData, error } = await supabaseClient
-      .from('available_stock')
-      .select('quantity')
-      .gt('quantity', 0)
-      .lte('quantity', 5);
-
-    if (error) throw error;
-
-    return stockData?.length || 0;
+    const items = await getLowStock();
+    return items.length;
   } catch (error) {
     console.error('Error fetching low stock count:', error);
     return 0;
@@ -1,6 +1,10 @@
 'use server'
 
 import { createServer } from '@/lib/supabase/server'
+import { getCurrentUserBranchId } from '@/lib/branches/actions'
+import { applyBranchPrices } from '@/lib/branches/pricing'
+import { getLowStock } from '@/lib/low-stock/actions'
+import type { ShiftType } from '@/types';
 
 /**
  * Get current Lagos date string (YYYY-MM-DD)
@@ -13,19 +17,26 @@ const getLagosDateString = (): string => {
 /**
  * Get today's revenue using Lagos timezone (Server Action)
  * Uses sales_logs as primary source, shift_reports as backup
+ * Pass a branchId to limit to one branch; omit it to aggregate all branches
  */
-export async function getTodayRevenue(): Promise<number> {
+export async function getTodayRevenue(branchId?: string | null): Promise<number> {
   const supabase = await createServer();
   const lagosDate = getLagosDateString();
   
   try {
     // First try sales_logs for today (Lagos time)
-    const { data: salesData, error: salesError } = await supabase
+    let salesQuery = supabase
       .from('sales_logs')
       .select('quantity, unit_price, discount')
       .gte('created_at', `${lagosDate}T00:00:00`)
       .lte('created_at', `${lagosDate}T23:59:59.999`);
 
+    if (branchId) {
+      salesQuery = salesQuery.eq('branch_id', branchId);
+    }
+
+    const { data: salesData, error: salesError } = await salesQuery;
+
     if (salesError) throw salesError;
 
     if (salesData && salesData.length > 0) {
@@ -36,11 +47,17 @@ export async function getTodayRevenue(): Promise<number> {
     }
 
     // Fallback to shift_reports for today
-    const { data: reportsData, error: reportsError } = await supabase
+    let reportsQuery = supabase
       .from('shift_reports')
       .select('total_revenue')
       .eq('report_date', lagosDate);
 
+    if (branchId) {
+      reportsQuery = reportsQuery.eq('branch_id', branchId);
+    }
+
+    const { data: reportsData, error: reportsError } = await reportsQuery;
+
     if (reportsError) throw reportsError;
 
     if (reportsData && reportsData.length > 0) {
@@ -59,7 +76,7 @@ export async function getTodayRevenue(): Promise<number> {
  * Uses sales_logs as primary source, shift_reports as backup
  * PRODUCTION-GRADE: Mirrors getTodayRevenue but with shift breakdown
  */
-export async function getTodayRevenueByShift(): Promise<{
+export async function getTodayRevenueByShift(branchId?: string | null): Promise<{
   total: number;
   morning: number;
   night: number;
@@ -69,12 +86,18 @@ export async function getTodayRevenueByShift(): Promise<{
   
   try {
     // First try sales_logs for today (Lagos time) with shift data
-    const { data: salesData, error: salesError } = await supabase
+    let salesQuery = supabase
       .from('sales_logs')
       .select('quantity, unit_price, discount, shift')
       .gte('created_at', `${lagosDate}T00:00:00`)
       .lte('created_at', `${lagosDate}T23:59:59.999`);
 
+    if (branchId) {
+      salesQuery = salesQuery.eq('branch_id', branchId);
+    }
+
+    const { data: salesData, error: salesError } = await salesQuery;
+
     if (salesError) throw salesError;
 
     if (salesData && salesData.length > 0) {
@@ -100,11 +123,17 @@ export async function getTodayRevenueByShift(): Promise<{
     }
 
     // Fallback to shift_reports for today with shift breakdown
-    const { data: reportsData, error: reportsError } = await supabase
+    let reportsQuery = supabase
       .from('shift_reports')
       .select('total_revenue, shift')
       .eq('report_date', lagosDate);
 
+    if (branchId) {
+      reportsQuery = reportsQuery.eq('branch_id', branchId);
+    }
+
+    const { data: reportsData, error: reportsError } = await reportsQuery;
+
     if (reportsError) throw reportsError;
 
     if (reportsData && reportsData.length > 0) {
@@ -132,22 +161,75 @@ export async function getTodayRevenueByShift(): Promise<{
   }
 }
 
+/**
+ * Get today's revenue per branch using Lagos timezone (Server Action)
+ * Used by the owner dashboard when all branches are aggregated
+ */
+export async function getTodayRevenueByBranch(): Promise<Array<{
+  branchId: string;
+  branchName: string;
+  revenue: number;
+}>> {
+  const supabase = await createServer();
+  const lagosDate = getLagosDateString();
+
+  try {
+    const [{ data: branches, error: branchesError }, { data: salesData, error: salesError }] = await Promise.all([
+      supabase
+        .from('branches')
+        .select('id, name')
+        .eq('is_active', true)
+        .order('name'),
+      supabase
+        .from('sales_logs')
+        .select('quantity, unit_price, discount, branch_id')
+        .gte('created_at', `${lagosDate}T00:00:00`)
+        .lte('created_at', `${lagosDate}T23:59:59.999`),
+    ]);
+
+    if (branchesError) throw branchesError;
+    if (salesError) throw salesError;
+
+    const revenueByBranch = new Map<string, number>();
+    (salesData || []).forEach(sale => {
+      if (!sale.branch_id) return;
+      const saleAmount = (sale.quantity * (sale.unit_price || 0)) - (sale.discount || 0);
+      revenueByBranch.set(sale.branch_id, (revenueByBranch.get(sale.branch_id) || 0) + saleAmount);
+    });
+
+    return (branches || []).map(branch => ({
+      branchId: branch.id,
+      branchName: branch.name,
+      revenue: revenueByBranch.get(branch.id) || 0,
+    }));
+  } catch (error) {
+    console.error('Error fetching today revenue by branch:', error);
+    return [];
+  }
+}
+
 /**
  * Get today's batch count using Lagos timezone (Server Action)
  * Uses batches as primary source, all_batches as backup
  */
-export async function getTodayBatchCount(): Promise<number> {
+export async function getTodayBatchCount(branchId?: string | null): Promise<number> {
   const supabase = await createServer();
   const lagosDate = getLagosDateString();
   
   try {
     // First try batches table for today (Lagos time)
-    const { data: batchesData, error: batchesError } = await supabase
+    let batchesQuery = supabase
       .from('batches')
       .select('id')
       .gte('created_at', `${lagosDate}T00:00:00`)
       .lte('created_at', `${lagosDate}T23:59:59.999`);
 
+    if (branchId) {
+      batchesQuery = batchesQuery.eq('branch_id', branchId);
+    }
+
+    const { data: batchesData, error: batchesError } = await batchesQuery;
+
     if (batchesError) throw batchesError;
 
     if (batchesData && batchesData.length > 0) {
@@ -155,12 +237,18 @@ export async function getTodayBatchCount(): Promise<number> {
     }
 
     // Fallback to all_batches for today
-    const { data: allBatchesData, error: allBatchesError } = await supabase
+    let allBatchesQuery = supabase
       .from('all_batches')
       .select('id')
       .gte('created_at', `${lagosDate}T00:00:00`)
       .lte('created_at', `${lagosDate}T23:59:59.999`);
 
+    if (branchId) {
+      allBatchesQuery = allBatchesQuery.eq('branch_id', branchId);
+    }
+
+    const { data: allBatchesData, error: allBatchesError } = await allBatchesQuery;
+
     if (allBatchesError) throw allBatchesError;
 
     return allBatchesData?.length || 0;
@@ -174,11 +262,11 @@ export async function getTodayBatchCount(): Promise<number> {
  * Get staff online count using PROFESSIONAL sessions-based approach
  * Uses the sessions table - PRODUCTION STANDARD
  */
-export async function getStaffOnlineCount(): Promise<{ online: number; total: number }> {
+export async function getStaffOnlineCount(branchId?: string | null): Promise<{ online: number; total: number }> {
   const { getStaffOnlineCountFromSessions } = await import('@/lib/auth/session-management');
   
   try {
-    const result = await getStaffOnlineCountFromSessions();
+    const result = await getStaffOnlineCountFromSessions(branchId);
     return {
       online: result.online,
       total: result.total
@@ -190,26 +278,12 @@ export async function getStaffOnlineCount(): Promise<{ online: number; total: nu
 }
 
 /**
- * Get low stock count from real-time tracking system (Server Action)
- * Uses the new daily_low_stock_counts table with automatic triggers
- * Falls back to available_stock table if real-time tracking is unavailable
+ * Get low stock count from the per-bread-type thresholds (Server Action)
  */
-export async function getLowStockCount(): Promise<number> {
-  const supabase = await createServer();
-  const lagosDate = getLagosDateString();
-  
+export async function getLowStockCount(branchId?: string | null): Promise<number> {
   try {
-    // Use available_stock table (simplified approach - RPC functions may not exist)
-    // Direct query to available_stock table for low stock items
-    const { data: stockData, error: stockError } = await supabase
-      .from('available_stock')
-      .select('quantity')
-      .gt('quantity', 0)
-      .lte('quantity', 5);
-
-    if (stockError) throw stockError;
-
-    return stockData?.length || 0;
+    const items = await getLowStock(branchId);
+    return items.length;
   } catch (error) {
     console.error('Error fetching low stock count:', error);
     return 0;
@@ -219,7 +293,7 @@ export async function getLowStockCount(): Promise<number> {
 /**
  * Get all owner dashboard stats in one server action call
  */
-export async function getOwnerDashboardStats() {
+export async function getOwnerDashboardStats(branchId?: string | null) {
   try {
     const [
       todayRevenue,
@@ -227,10 +301,10 @@ export async function getOwnerDashboardStats() {
       staffCounts,
       lowStockCount
     ] = await Promise.all([
-      getTodayRevenue(),
-      getTodayBatchCount(),
-      getStaffOnlineCount(),
-      getLowStockCount()
+      getTodayRevenue(branchId),
+      getTodayBatchCount(branchId),
+      getStaffOnlineCount(branchId),
+      getLowStockCount(branchId)
     ]);
 
     return {
@@ -253,7 +327,7 @@ export async function getOwnerDashboardStats() {
  * 
  * PRODUCTION-GRADE: Always returns valid data structure, never undefined
  */
-export async function getSalesRepDashboardMetrics(userId: string, shift: 'morning' | 'night') {
+export async function getSalesRepDashboardMetrics(userId: string, shift: ShiftType) {
   const supabase = await createServer();
   
   // Default fallback structure - ALWAYS returned
@@ -401,7 +475,7 @@ export async function getSalesRepDashboardMetrics(userId: string, shift: 'mornin
  * Get all sales for a user/shift combination (NO DATE FILTERING)
  * Used for all-sales page where historical data is needed
  */
-export async function getAllSalesForShift(userId: string, shift: 'morning' | 'night') {
+export async function getAllSalesForShift(userId: string, shift: ShiftType) {
   const supabase = await createServer();
   
   try {
@@ -416,6 +490,12 @@ export async function getAllSalesForShift(userId: string, shift: 'morning' | 'ni
         ),
         recorded_by_user:users!sales_logs_recorded_by_fkey (
           name
+        ),
+        sale_voids (
+          kind,
+          quantity,
+          amount,
+          reason
         )
       `)
       .eq('recorded_by', userId)
@@ -446,7 +526,8 @@ export async function getBreadTypesForSalesRep() {
 
     if (error) throw error;
 
-    return data || [];
+    // Sales are recorded at the rep's branch price
+    return applyBranchPrices(supabase, data || [], await getCurrentUserBranchId());
   } catch (error) {
     console.error('Error fetching bread types:', error);
     throw error;
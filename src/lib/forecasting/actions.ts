@@ -0,0 +1,312 @@
+'use server';
+
+import { createServer } from '@/lib/supabase/server';
+import { requirePermission } from '@/lib/auth/auth-utils';
+import { getShiftSchedule } from '@/lib/shift-schedule/actions';
+import {
+  addDaysToDateString,
+  getScheduleDate,
+  getShiftLabel,
+  getShiftWindowAt,
+  getShiftWindowsForDate,
+  type ShiftSchedule,
+  type ShiftWindow,
+} from '@/lib/shift-schedule/schedule';
+import {
+  FORECAST_HISTORY_DAYS,
+  backtestDemand,
+  estimateDemand,
+  findForecastShift,
+  type BacktestPoint,
+  type DemandSample,
+} from './forecast';
+import type { ForecastAccuracyRow, ForecastBacktest, ShiftForecast } from '@/types';
+
+// PostgREST caps every response; history spans more rows than that
+const PAGE_SIZE = 1000;
+
+async function fetchAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Sold, left over and produced per shift date, shift and bread type since a date.
+ * Timestamps are attributed to the shift they fall in, so a night shift's
+ * after-midnight sales count towards the day it started.
+ */
+async function loadDemandHistory(
+  schedule: ShiftSchedule,
+  since: string,
+  branchId: string | null
+): Promise<DemandSample[]> {
+  const supabase = await createServer();
+  const sinceTime = `${since}T00:00:00.000Z`;
+
+  const [sales, leftovers, archived, active] = await Promise.all([
+    fetchAllPages((from, to) => {
+      let query = supabase
+        .from('sales_logs')
+        .select('bread_type_id, quantity, shift, created_at')
+        .gte('created_at', sinceTime)
+        .order('created_at')
+        .range(from, to);
+      if (branchId) query = query.eq('branch_id', branchId);
+      return query;
+    }),
+    fetchAllPages((from, to) => {
+      let query = supabase
+        .from('remaining_bread')
+        .select('bread_type_id, quantity, shift, record_date, created_at')
+        .gte('record_date', since)
+        .order('record_date')
+        .range(from, to);
+      if (branchId) query = query.eq('branch_id', branchId);
+      return query;
+    }),
+    fetchAllPages((from, to) => {
+      let query = supabase
+        .from('all_batches')
+        .select('id, bread_type_id, actual_quantity, shift, start_time')
+        .eq('status', 'completed')
+        .gte('start_time', sinceTime)
+        .order('start_time')
+        .range(from, to);
+      if (branchId) query = query.eq('branch_id', branchId);
+      return query;
+    }),
+    fetchAllPages((from, to) => {
+      let query = supabase
+        .from('batches')
+        .select('id, bread_type_id, actual_quantity, shift, start_time')
+        .eq('status', 'completed')
+        .gte('start_time', sinceTime)
+        .order('start_time')
+        .range(from, to);
+      if (branchId) query = query.eq('branch_id', branchId);
+      return query;
+    }),
+  ]);
+
+  const shiftDateOf = (timestamp: string) => {
+    const instant = new Date(timestamp);
+    return getShiftWindowAt(schedule, instant, { ignoreClosures: true })?.shiftDate
+      ?? getScheduleDate(schedule, instant);
+  };
+
+  const samples = new Map<string, DemandSample>();
+  const sampleFor = (date: string, shift: string, breadTypeId: string) => {
+    const key = `${date}|${shift}|${breadTypeId}`;
+    let sample = samples.get(key);
+    if (!sample) {
+      sample = { date, shift, bread_type_id: breadTypeId, sold: 0, leftover: null, produced: 0 };
+      samples.set(key, sample);
+    }
+    return sample;
+  };
+
+  sales.forEach(log => {
+    if (!log.created_at) return;
+    sampleFor(shiftDateOf(log.created_at), log.shift, log.bread_type_id).sold += log.quantity;
+  });
+
+  leftovers.forEach(record => {
+    const date = record.created_at ? shiftDateOf(record.created_at) : record.record_date;
+    const sample = sampleFor(date, record.shift, record.bread_type_id);
+    sample.leftover = (sample.leftover || 0) + record.quantity;
+  });
+
+  // Batches are copied to all_batches at the end of a shift; count each once
+  const seenBatches = new Set<string>();
+  [...archived, ...active].forEach(batch => {
+    if (seenBatches.has(batch.id) || !batch.start_time) return;
+    seenBatches.add(batch.id);
+    sampleFor(shiftDateOf(batch.start_time), batch.shift, batch.bread_type_id).produced += batch.actual_quantity || 0;
+  });
+
+  return Array.from(samples.values());
+}
+
+/**
+ * Loaves per bread type left at the end of the shift before a window, which
+ * is what gets carried into it. Nothing is counted until that shift's
+ * leftovers (or its carry-over) are recorded.
+ */
+async function loadCarriedInStock(
+  schedule: ShiftSchedule,
+  window: ShiftWindow,
+  branchId: string | null
+): Promise<Map<string, number>> {
+  const previous = [
+    ...getShiftWindowsForDate(schedule, addDaysToDateString(window.shiftDate, -1)),
+    ...getShiftWindowsForDate(schedule, window.shiftDate),
+  ].find(candidate => candidate.end.getTime() === window.start.getTime());
+  if (!previous) return new Map();
+
+  const supabase = await createServer();
+  let query = supabase
+    .from('remaining_bread')
+    .select('bread_type_id, quantity, record_date, created_at')
+    .eq('shift', previous.key)
+    .gte('record_date', previous.shiftDate)
+    .lte('record_date', addDaysToDateString(previous.shiftDate, 1));
+  if (branchId) query = query.eq('branch_id', branchId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  // A night shift's leftovers can be recorded after midnight; keep only
+  // the records that fall in the previous shift's run
+  const carried = new Map<string, number>();
+  (data || []).forEach(record => {
+    const date = record.created_at
+      ? getShiftWindowAt(schedule, new Date(record.created_at), { ignoreClosures: true })?.shiftDate ?? record.record_date
+      : record.record_date;
+    if (date !== previous.shiftDate) return;
+    carried.set(record.bread_type_id, (carried.get(record.bread_type_id) || 0) + record.quantity);
+  });
+  return carried;
+}
+
+async function getActiveBreadTypeNames(): Promise<Map<string, string>> {
+  const supabase = await createServer();
+  const { data, error } = await supabase
+    .from('bread_types')
+    .select('id, name')
+    .eq('is_active', true)
+    .order('name');
+
+  if (error) throw error;
+  return new Map((data || []).map(breadType => [breadType.id, breadType.name]));
+}
+
+/**
+ * Suggested production per bread type for a shift, net of the stock carried
+ * into it. With a shift key the forecast is for its current or next run;
+ * without one it is for the shift after the current one. Owners without a
+ * branch get every branch combined.
+ */
+export async function getShiftForecast(options: {
+  shift?: string;
+  branchId?: string | null;
+} = {}): Promise<ShiftForecast | null> {
+  try {
+    const user = await requirePermission('production.forecast');
+    const branchId = user.branch_id ?? options.branchId ?? null;
+
+    const schedule = await getShiftSchedule(branchId);
+    const window = findForecastShift(schedule, { shift: options.shift });
+    if (!window) return null;
+
+    const [history, carriedIn, breadTypes] = await Promise.all([
+      loadDemandHistory(schedule, addDaysToDateString(window.shiftDate, -FORECAST_HISTORY_DAYS), branchId),
+      loadCarriedInStock(schedule, window, branchId),
+      getActiveBreadTypeNames(),
+    ]);
+
+    return {
+      shiftDate: window.shiftDate,
+      shift: window.key,
+      shiftLabel: window.label,
+      items: Array.from(breadTypes, ([breadTypeId, breadTypeName]) => {
+        const estimate = estimateDemand(history, {
+          date: window.shiftDate,
+          shift: window.key,
+          bread_type_id: breadTypeId,
+          carriedIn: carriedIn.get(breadTypeId) || 0,
+        });
+        return {
+          breadTypeId,
+          breadTypeName,
+          expectedDemand: estimate.expectedDemand,
+          carriedIn: estimate.carriedIn,
+          suggestedQuantity: estimate.suggested,
+          basis: estimate.basis,
+          samples: estimate.samples,
+          soldOutSamples: estimate.soldOutSamples,
+          averageLeftover: estimate.averageLeftover,
+        };
+      }),
+    };
+  } catch (error) {
+    console.error('Error building shift forecast:', error);
+    return null;
+  }
+}
+
+function toAccuracyRow(key: string, label: string, points: BacktestPoint[]): ForecastAccuracyRow {
+  const sum = (value: (point: BacktestPoint) => number) => points.reduce((total, point) => total + value(point), 0);
+  const sold = sum(point => point.actual);
+  const forecastAbsError = sum(point => Math.abs(point.forecast - point.actual));
+  const producedAbsError = sum(point => Math.abs(point.produced - point.actual));
+  const shifts = points.length;
+
+  return {
+    key,
+    label,
+    shifts,
+    sold,
+    forecast: sum(point => point.forecast),
+    produced: sum(point => point.produced),
+    forecastError: shifts > 0 ? forecastAbsError / shifts : 0,
+    forecastErrorPercent: sold > 0 ? (forecastAbsError / sold) * 100 : null,
+    forecastBias: shifts > 0 ? sum(point => point.forecast - point.actual) / shifts : 0,
+    producedError: shifts > 0 ? producedAbsError / shifts : 0,
+    producedErrorPercent: sold > 0 ? (producedAbsError / sold) * 100 : null,
+  };
+}
+
+function groupAccuracy(
+  points: BacktestPoint[],
+  keyOf: (point: BacktestPoint) => string,
+  labelOf: (key: string) => string
+): ForecastAccuracyRow[] {
+  const groups = new Map<string, BacktestPoint[]>();
+  points.forEach(point => {
+    const key = keyOf(point);
+    groups.set(key, [...(groups.get(key) || []), point]);
+  });
+  return Array.from(groups, ([key, group]) => toAccuracyRow(key, labelOf(key), group));
+}
+
+/**
+ * How close the suggestions would have been to actual sales over a date
+ * range, next to how close the quantities actually baked were.
+ */
+export async function getForecastBacktest(filters: {
+  startDate: string;
+  endDate: string;
+  branchId?: string | null;
+}): Promise<ForecastBacktest | null> {
+  try {
+    const user = await requirePermission('production.forecast');
+    const branchId = user.branch_id ?? filters.branchId ?? null;
+
+    const schedule = await getShiftSchedule(branchId);
+    const [history, breadTypes] = await Promise.all([
+      loadDemandHistory(schedule, addDaysToDateString(filters.startDate, -FORECAST_HISTORY_DAYS), branchId),
+      getActiveBreadTypeNames(),
+    ]);
+
+    const points = backtestDemand(history, filters.startDate, filters.endDate);
+
+    return {
+      startDate: filters.startDate,
+      endDate: filters.endDate,
+      overall: toAccuracyRow('all', 'All bread types', points),
+      byBreadType: groupAccuracy(points, point => point.bread_type_id, key => breadTypes.get(key) || 'Unknown')
+        .sort((a, b) => b.sold - a.sold),
+      byShift: groupAccuracy(points, point => point.shift, key => getShiftLabel(schedule, key)),
+    };
+  } catch (error) {
+    console.error('Error running forecast backtest:', error);
+    return null;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Demand forecasting for production suggestions
+ *
+ * History is one sample per shift date, shift and bread type: loaves sold,
+ * loaves left over at the end of the shift and loaves produced. The forecast
+ * for a shift is a recency-weighted average of demand on the same weekday and
+ * shift over recent weeks, falling back to recent days of the same shift when
+ * there are too few same-weekday samples.
+ *
+ * Everything here is pure (no Supabase, no React) so the backtest can replay
+ * the same model over history.
+ */
+
+import {
+  addDaysToDateString,
+  getShiftWindowAt,
+  getShiftWindowsForDate,
+  type ShiftSchedule,
+  type ShiftWindow,
+} from '@/lib/shift-schedule/schedule';
+
+export interface DemandSample {
+  date: string; // shift date, 'yyyy-MM-dd'
+  shift: string;
+  bread_type_id: string;
+  sold: number;
+  leftover: number | null; // null when no leftovers were recorded for the shift
+  produced: number;
+}
+
+export interface DemandEstimate {
+  expectedDemand: number;
+  carriedIn: number;
+  suggested: number; // expected demand less what is already carried in
+  basis: 'weekday' | 'recent' | 'none';
+  samples: number;
+  soldOutSamples: number;
+  averageLeftover: number | null;
+}
+
+// Same-weekday history window and the minimum samples to trust it
+const WEEKDAY_LOOKBACK_WEEKS = 8;
+const MIN_WEEKDAY_SAMPLES = 3;
+// Fallback: the same shift on any weekday over the last two weeks
+const RECENT_LOOKBACK_DAYS = 14;
+// Each older sample counts this much less than the next newer one
+const RECENCY_DECAY = 0.85;
+// A shift that sold out only tells us demand was at least what was sold
+const SOLD_OUT_UPLIFT = 1.1;
+
+/** Days of history the model reads for one forecast */
+export const FORECAST_HISTORY_DAYS = WEEKDAY_LOOKBACK_WEEKS * 7;
+
+function daysBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split('-').map(Number);
+  const [ty, tm, td] = to.split('-').map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / (24 * 60 * 60 * 1000));
+}
+
+function demandOf(sample: DemandSample): number {
+  return sample.leftover === 0 && sample.sold > 0 ? sample.sold * SOLD_OUT_UPLIFT : sample.sold;
+}
+
+function weightedAverage(samples: DemandSample[], age: (sample: DemandSample) => number): number {
+  let total = 0;
+  let weights = 0;
+  samples.forEach(sample => {
+    const weight = Math.pow(RECENCY_DECAY, age(sample));
+    total += demandOf(sample) * weight;
+    weights += weight;
+  });
+  return weights > 0 ? total / weights : 0;
+}
+
+/**
+ * Forecast demand for one bread type on a shift date using only samples
+ * from before that date. Loaves carried into the shift are taken off the
+ * suggestion, since they will be on the shelf before anything is baked.
+ */
+export function estimateDemand(
+  history: DemandSample[],
+  target: { date: string; shift: string; bread_type_id: string; carriedIn?: number }
+): DemandEstimate {
+  const earliest = addDaysToDateString(target.date, -FORECAST_HISTORY_DAYS);
+  const relevant = history.filter(sample =>
+    sample.bread_type_id === target.bread_type_id &&
+    sample.shift === target.shift &&
+    sample.date < target.date &&
+    sample.date >= earliest
+  );
+
+  const sameWeekday = relevant.filter(sample => daysBetween(sample.date, target.date) % 7 === 0);
+  const recent = relevant.filter(sample => daysBetween(sample.date, target.date) <= RECENT_LOOKBACK_DAYS);
+
+  let used: DemandSample[] = [];
+  let basis: DemandEstimate['basis'] = 'none';
+  let expectedDemand = 0;
+
+  if (sameWeekday.length >= MIN_WEEKDAY_SAMPLES) {
+    used = sameWeekday;
+    basis = 'weekday';
+    expectedDemand = weightedAverage(used, sample => daysBetween(sample.date, target.date) / 7 - 1);
+  } else if (recent.length > 0) {
+    used = recent;
+    basis = 'recent';
+    expectedDemand = weightedAverage(used, sample => daysBetween(sample.date, target.date) - 1);
+  }
+
+  const withLeftovers = used.filter(sample => sample.leftover !== null);
+  const carriedIn = target.carriedIn ?? 0;
+
+  return {
+    expectedDemand,
+    carriedIn,
+    suggested: Math.max(Math.ceil(expectedDemand) - carriedIn, 0),
+    basis,
+    samples: used.length,
+    soldOutSamples: used.filter(sample => sample.leftover === 0 && sample.sold > 0).length,
+    averageLeftover: withLeftovers.length > 0
+      ? withLeftovers.reduce((sum, sample) => sum + (sample.leftover || 0), 0) / withLeftovers.length
+      : null,
+  };
+}
+
+/**
+ * The shift a forecast is for: the next run of `shift` (the current one
+ * counts), or the shift after the current one when no shift is given.
+ * Closed days are skipped.
+ */
+export function findForecastShift(
+  schedule: ShiftSchedule,
+  options: { shift?: string; now?: Date } = {}
+): ShiftWindow | null {
+  const now = options.now ?? new Date();
+  const current = getShiftWindowAt(schedule, now);
+  const startDate = current?.shiftDate ?? getShiftWindowAt(schedule, now, { ignoreClosures: true })?.shiftDate;
+  if (!startDate) return null;
+
+  const upcoming: ShiftWindow[] = [];
+  for (let day = 0; day <= 7; day++) {
+    upcoming.push(...getShiftWindowsForDate(schedule, addDaysToDateString(startDate, day)));
+  }
+
+  if (options.shift) {
+    return upcoming.find(window => window.key === options.shift && window.end > now) ?? null;
+  }
+  return upcoming.find(window => window.start > now) ?? null;
+}
+
+export interface BacktestPoint {
+  date: string;
+  shift: string;
+  bread_type_id: string;
+  actual: number; // loaves sold
+  forecast: number; // what would have been suggested
+  produced: number; // what was actually baked
+}
+
+/**
+ * Replay the model over past shifts: each shift in the range is forecast from
+ * the history before it and compared with what was sold. Shifts the model had
+ * no history for are left out.
+ */
+export function backtestDemand(history: DemandSample[], startDate: string, endDate: string): BacktestPoint[] {
+  return history
+    .filter(sample => sample.date >= startDate && sample.date <= endDate)
+    .flatMap(sample => {
+      const estimate = estimateDemand(history, sample);
+      if (estimate.basis === 'none') return [];
+      return [{
+        date: sample.date,
+        shift: sample.shift,
+        bread_type_id: sample.bread_type_id,
+        actual: sample.sold,
+        forecast: estimate.suggested,
+        produced: sample.produced,
+      }];
+    });
+}
@@ -0,0 +1,434 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createServer, createServiceRoleClient } from '@/lib/supabase/server';
+import { requireAuth, requirePermission } from '@/lib/auth/auth-utils';
+import { getBreadTypeUnitCosts } from './costing';
+import {
+  breadTypeCostSchema,
+  ingredientSchema,
+  ingredientReceiptSchema,
+  ingredientAdjustmentSchema,
+  recipeSchema,
+  formatValidationError,
+} from '@/lib/validations';
+import type { BreadTypeCost, Ingredient, IngredientMovement, IngredientUnit, LowIngredient, RecipeItem } from '@/types';
+
+type ActionResult = { success: boolean; error?: string };
+
+function revalidateIngredientPages() {
+  revalidatePath('/dashboard/ingredients');
+  revalidatePath('/dashboard/ingredients/receive');
+  revalidatePath('/dashboard/ingredients/recipes');
+}
+
+/**
+ * Ingredients with stock for one branch.
+ * branchId defaults to the user's branch; owners without one get stock summed across branches.
+ */
+export async function getIngredients(branchId?: string | null, includeInactive: boolean = false): Promise<Ingredient[]> {
+  const supabase = await createServer();
+
+  try {
+    const user = await requireAuth();
+    const scopeBranchId = branchId === undefined ? user.branch_id : branchId;
+
+    let ingredientsQuery = supabase
+      .from('ingredients')
+      .select('id, name, unit, reorder_level, cost_per_unit, is_active')
+      .order('name');
+
+    if (!includeInactive) {
+      ingredientsQuery = ingredientsQuery.eq('is_active', true);
+    }
+
+    let stockQuery = supabase
+      .from('ingredient_stock')
+      .select('ingredient_id, branch_id, quantity');
+
+    if (scopeBranchId) {
+      stockQuery = stockQuery.eq('branch_id', scopeBranchId);
+    }
+
+    const [{ data: ingredients, error: ingredientsError }, { data: stock, error: stockError }] = await Promise.all([
+      ingredientsQuery,
+      stockQuery,
+    ]);
+
+    if (ingredientsError) throw ingredientsError;
+    if (stockError) throw stockError;
+
+    const stockByIngredient = new Map<string, number>();
+    (stock || []).forEach(row => {
+      stockByIngredient.set(row.ingredient_id, (stockByIngredient.get(row.ingredient_id) || 0) + row.quantity);
+    });
+
+    return (ingredients || []).map(ingredient => {
+      const quantity = stockByIngredient.get(ingredient.id) || 0;
+      return {
+        id: ingredient.id,
+        name: ingredient.name,
+        unit: ingredient.unit as IngredientUnit,
+        reorder_level: ingredient.reorder_level,
+        cost_per_unit: ingredient.cost_per_unit,
+        is_active: ingredient.is_active,
+        stock: quantity,
+        is_low: quantity <= ingredient.reorder_level,
+      };
+    });
+  } catch (error) {
+    console.error('Error fetching ingredients:', error);
+    return [];
+  }
+}
+
+export async function createIngredient(input: unknown): Promise<ActionResult> {
+  try {
+    const user = await requirePermission('inventory.manage');
+
+    const parsed = ingredientSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const supabase = await createServer();
+    const { error } = await supabase
+      .from('ingredients')
+      .insert({ ...parsed.data, created_by: user.id });
+
+    if (error) {
+      console.error('Error creating ingredient:', error);
+      return {
+        success: false,
+        error: error.code === '23505' ? 'An ingredient with this name already exists' : 'Failed to create ingredient',
+      };
+    }
+
+    console.log(`✅ Ingredient "${parsed.data.name}" created`);
+    revalidateIngredientPages();
+    return { success: true };
+  } catch (error) {
+    console.error('Error in createIngredient:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to create ingredient' };
+  }
+}
+
+export async function updateIngredient(id: string, input: unknown): Promise<ActionResult> {
+  try {
+    await requirePermission('inventory.manage');
+
+    const parsed = ingredientSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const supabase = await createServer();
+    const { error } = await supabase
+      .from('ingredients')
+      .update({ ...parsed.data, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating ingredient:', error);
+      return {
+        success: false,
+        error: error.code === '23505' ? 'An ingredient with this name already exists' : 'Failed to update ingredient',
+      };
+    }
+
+    revalidateIngredientPages();
+    return { success: true };
+  } catch (error) {
+    console.error('Error in updateIngredient:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to update ingredient' };
+  }
+}
+
+/**
+ * Record a delivery from a supplier. Also updates the ingredient's latest unit cost.
+ */
+export async function receiveIngredient(input: unknown): Promise<ActionResult & { newQuantity?: number }> {
+  try {
+    await requirePermission('inventory.manage');
+
+    const parsed = ingredientReceiptSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const supabase = await createServer();
+    const { data: newQuantity, error } = await supabase.rpc('record_ingredient_movement', {
+      p_ingredient_id: parsed.data.ingredient_id,
+      p_change: parsed.data.quantity,
+      p_reason: 'purchase',
+      p_branch_id: parsed.data.branch_id ?? undefined,
+      p_supplier: parsed.data.supplier || undefined,
+      p_unit_cost: parsed.data.unit_cost ?? undefined,
+      p_notes: parsed.data.notes || undefined,
+    });
+
+    if (error) {
+      console.error('Error receiving ingredient:', error);
+      return { success: false, error: error.message || 'Failed to record delivery' };
+    }
+
+    console.log(`✅ Received ${parsed.data.quantity} of ingredient ${parsed.data.ingredient_id}`);
+    revalidateIngredientPages();
+    return { success: true, newQuantity: newQuantity ?? undefined };
+  } catch (error) {
+    console.error('Error in receiveIngredient:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to record delivery' };
+  }
+}
+
+/**
+ * Correct stock after a physical count, spillage, etc.
+ */
+export async function adjustIngredientStock(input: unknown): Promise<ActionResult & { newQuantity?: number }> {
+  try {
+    await requirePermission('inventory.manage');
+
+    const parsed = ingredientAdjustmentSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const supabase = await createServer();
+    const { data: newQuantity, error } = await supabase.rpc('record_ingredient_movement', {
+      p_ingredient_id: parsed.data.ingredient_id,
+      p_change: parsed.data.change,
+      p_reason: 'adjustment',
+      p_branch_id: parsed.data.branch_id ?? undefined,
+      p_notes: parsed.data.notes,
+    });
+
+    if (error) {
+      console.error('Error adjusting ingredient stock:', error);
+      return { success: false, error: error.message || 'Failed to adjust stock' };
+    }
+
+    revalidateIngredientPages();
+    return { success: true, newQuantity: newQuantity ?? undefined };
+  } catch (error) {
+    console.error('Error in adjustIngredientStock:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to adjust stock' };
+  }
+}
+
+/**
+ * Recent stock movements, newest first. RLS limits staff to their branch.
+ */
+export async function getIngredientMovements(options: {
+  reason?: IngredientMovement['reason'];
+  branchId?: string | null;
+  limit?: number;
+} = {}): Promise<IngredientMovement[]> {
+  const supabase = await createServer();
+
+  try {
+    let query = supabase
+      .from('ingredient_movements')
+      .select(`
+        id, ingredient_id, branch_id, change, reason, supplier, unit_cost, notes, created_at,
+        ingredients ( name, unit ),
+        recorded_by_user:users!ingredient_movements_recorded_by_fkey ( name )
+      `)
+      .order('created_at', { ascending: false })
+      .limit(options.limit ?? 50);
+
+    if (options.reason) {
+      query = query.eq('reason', options.reason);
+    }
+    if (options.branchId) {
+      query = query.eq('branch_id', options.branchId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return (data || []).map(movement => ({
+      id: movement.id,
+      ingredient_id: movement.ingredient_id,
+      ingredient_name: movement.ingredients?.name || 'Unknown',
+      unit: (movement.ingredients?.unit || 'pcs') as IngredientUnit,
+      branch_id: movement.branch_id,
+      change: movement.change,
+      reason: movement.reason as IngredientMovement['reason'],
+      supplier: movement.supplier,
+      unit_cost: movement.unit_cost,
+      notes: movement.notes,
+      recorded_by_name: movement.recorded_by_user?.name ?? null,
+      created_at: movement.created_at,
+    }));
+  } catch (error) {
+    console.error('Error fetching ingredient movements:', error);
+    return [];
+  }
+}
+
+export async function getRecipe(breadTypeId: string): Promise<RecipeItem[]> {
+  const supabase = await createServer();
+
+  try {
+    const { data, error } = await supabase
+      .from('recipe_items')
+      .select('ingredient_id, quantity, per')
+      .eq('bread_type_id', breadTypeId);
+
+    if (error) throw error;
+
+    return (data || []).map(item => ({
+      ingredient_id: item.ingredient_id,
+      quantity: item.quantity,
+      per: item.per as RecipeItem['per'],
+    }));
+  } catch (error) {
+    console.error('Error fetching recipe:', error);
+    return [];
+  }
+}
+
+/**
+ * Replace a bread type's recipe with the submitted lines
+ */
+export async function saveRecipe(breadTypeId: string, items: unknown): Promise<ActionResult> {
+  try {
+    await requirePermission('inventory.manage');
+
+    const parsed = recipeSchema.safeParse(items);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const supabase = await createServer();
+
+    const { error: deleteError } = await supabase
+      .from('recipe_items')
+      .delete()
+      .eq('bread_type_id', breadTypeId);
+
+    if (deleteError) {
+      console.error('Error clearing recipe:', deleteError);
+      return { success: false, error: 'Failed to save recipe' };
+    }
+
+    if (parsed.data.length > 0) {
+      const { error: insertError } = await supabase
+        .from('recipe_items')
+        .insert(parsed.data.map(item => ({ ...item, bread_type_id: breadTypeId })));
+
+      if (insertError) {
+        console.error('Error saving recipe:', insertError);
+        return { success: false, error: 'Failed to save recipe' };
+      }
+    }
+
+    console.log(`✅ Recipe saved for bread type ${breadTypeId} (${parsed.data.length} ingredients)`);
+    revalidateIngredientPages();
+    return { success: true };
+  } catch (error) {
+    console.error('Error in saveRecipe:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save recipe' };
+  }
+}
+
+export async function getBreadTypeCosts(): Promise<Record<string, BreadTypeCost>> {
+  const supabase = await createServer();
+  return getBreadTypeUnitCosts(supabase);
+}
+
+/**
+ * Set or clear the manual cost per loaf used in margin reports
+ */
+export async function setBreadTypeUnitCost(input: unknown): Promise<ActionResult> {
+  try {
+    await requirePermission('inventory.manage');
+
+    const parsed = breadTypeCostSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    // bread_types is written through the service role, as in bread-types/actions
+    const supabase = createServiceRoleClient();
+    const { error } = await supabase
+      .from('bread_types')
+      .update({ unit_cost: parsed.data.unit_cost })
+      .eq('id', parsed.data.bread_type_id);
+
+    if (error) {
+      console.error('Error setting bread type unit cost:', error);
+      return { success: false, error: 'Failed to save unit cost' };
+    }
+
+    revalidateIngredientPages();
+    revalidatePath('/owner-dashboard/reports/margins');
+    return { success: true };
+  } catch (error) {
+    console.error('Error in setBreadTypeUnitCost:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save unit cost' };
+  }
+}
+
+/**
+ * Ingredients at or below their reorder level, per branch the user can see
+ */
+export async function getLowIngredients(): Promise<LowIngredient[]> {
+  const supabase = await createServer();
+
+  try {
+    const { data, error } = await supabase
+      .from('ingredient_stock')
+      .select(`
+        ingredient_id, branch_id, quantity,
+        ingredients!inner ( name, unit, reorder_level, is_active ),
+        branches ( name )
+      `)
+      .eq('ingredients.is_active', true);
+
+    if (error) throw error;
+
+    return (data || [])
+      .filter(row => row.quantity <= row.ingredients.reorder_level)
+      .map(row => ({
+        ingredient_id: row.ingredient_id,
+        name: row.ingredients.name,
+        unit: row.ingredients.unit as IngredientUnit,
+        branch_id: row.branch_id,
+        branch_name: row.branches?.name ?? null,
+        quantity: row.quantity,
+        reorder_level: row.ingredients.reorder_level,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error fetching low ingredients:', error);
+    return [];
+  }
+}
+
+/**
+ * Deduct a completed batch's recipe from ingredient stock.
+ * Never throws: a missing recipe or stock problem must not block batch completion.
+ */
+export async function deductIngredientsForBatch(batchId: string): Promise<Array<{ name: string; quantity: number; unit: string }>> {
+  try {
+    const supabase = await createServer();
+    const { data, error } = await supabase.rpc('deduct_batch_ingredients', { p_batch_id: batchId });
+
+    if (error) {
+      console.error('❌ Error deducting batch ingredients:', error);
+      return [];
+    }
+
+    const low = (Array.isArray(data) ? data : []) as Array<{ name: string; quantity: number; unit: string }>;
+    if (low.length > 0) {
+      console.warn(`⚠️ Low ingredients after batch ${batchId}:`, low.map(item => item.name).join(', '));
+    }
+
+    revalidateIngredientPages();
+    return low;
+  } catch (error) {
+    console.error('❌ Exception deducting batch ingredients:', error);
+    return [];
+  }
+}
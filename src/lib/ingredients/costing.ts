@@ -0,0 +1,85 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/database';
+import type { BreadTypeCost } from '@/types';
+
+// Recent completed batches used to spread per-batch recipe lines over loaves
+const BATCH_SIZE_SAMPLE = 200;
+
+/**
+ * Cost per loaf for each bread type.
+ * A manual bread_types.unit_cost wins; otherwise the recipe is priced at the
+ * ingredients' latest cost_per_unit. Per-batch lines are divided by the bread
+ * type's average completed batch size. Unknown costs come back as null.
+ */
+export async function getBreadTypeUnitCosts(
+  supabase: SupabaseClient<Database>,
+  breadTypeIds?: string[]
+): Promise<Record<string, BreadTypeCost>> {
+  let breadTypesQuery = supabase.from('bread_types').select('id, unit_cost');
+  let recipeQuery = supabase
+    .from('recipe_items')
+    .select('bread_type_id, quantity, per, ingredients ( cost_per_unit )');
+  let batchesQuery = supabase
+    .from('all_batches')
+    .select('bread_type_id, actual_quantity')
+    .eq('status', 'completed')
+    .gt('actual_quantity', 0)
+    .order('end_time', { ascending: false })
+    .limit(BATCH_SIZE_SAMPLE);
+
+  if (breadTypeIds) {
+    if (breadTypeIds.length === 0) return {};
+    breadTypesQuery = breadTypesQuery.in('id', breadTypeIds);
+    recipeQuery = recipeQuery.in('bread_type_id', breadTypeIds);
+    batchesQuery = batchesQuery.in('bread_type_id', breadTypeIds);
+  }
+
+  const [
+    { data: breadTypes, error: breadTypesError },
+    { data: recipeItems, error: recipeError },
+    { data: batches },
+  ] = await Promise.all([breadTypesQuery, recipeQuery, batchesQuery]);
+
+  if (breadTypesError || recipeError) {
+    console.error('Error fetching bread type costs:', breadTypesError || recipeError);
+    return {};
+  }
+
+  const batchTotals = new Map<string, { loaves: number; count: number }>();
+  (batches || []).forEach(batch => {
+    const totals = batchTotals.get(batch.bread_type_id) || { loaves: 0, count: 0 };
+    totals.loaves += batch.actual_quantity || 0;
+    totals.count += 1;
+    batchTotals.set(batch.bread_type_id, totals);
+  });
+
+  // null once any ingredient in the recipe has no known cost
+  const recipeCosts = new Map<string, number | null>();
+  (recipeItems || []).forEach(item => {
+    const current = recipeCosts.get(item.bread_type_id);
+    const costPerUnit = item.ingredients?.cost_per_unit;
+    if (current === null || costPerUnit == null) {
+      recipeCosts.set(item.bread_type_id, null);
+      return;
+    }
+
+    let lineCost = item.quantity * costPerUnit;
+    if (item.per === 'batch') {
+      const totals = batchTotals.get(item.bread_type_id);
+      if (!totals) {
+        recipeCosts.set(item.bread_type_id, null);
+        return;
+      }
+      lineCost = lineCost / (totals.loaves / totals.count);
+    }
+    recipeCosts.set(item.bread_type_id, (current || 0) + lineCost);
+  });
+
+  return Object.fromEntries((breadTypes || []).map(breadType => {
+    const recipeCost = recipeCosts.get(breadType.id) ?? null;
+    const cost: BreadTypeCost = breadType.unit_cost !== null
+      ? { unitCost: breadType.unit_cost, source: 'manual', recipeCost }
+      : { unitCost: recipeCost, source: recipeCost !== null ? 'recipe' : null, recipeCost };
+    return [breadType.id, cost];
+  }));
+}
@@ -1,4 +1,5 @@
 import { createServer } from '@/lib/supabase/server';
+import type { ShiftType } from '@/types';
 
 export interface InventorySummary {
   bread_type_id: string;
@@ -10,7 +11,7 @@ export interface InventorySummary {
   revenue: number;
 }
 
-export async function calculateInventoryForShift(shift: 'morning' | 'night') {
+export async function calculateInventoryForShift(shift: ShiftType) {
   const supabase = await createServer();
   const today = new Date();
   today.setHours(0,0,0,0);
@@ -33,6 +34,7 @@ export async function calculateInventoryForShift(shift: 'morning' | 'night') {
       bread_type_id, 
       quantity, 
       discount, 
+      unit_price,
       bread_types(name, unit_price)
     `)
     .eq('shift', shift)
@@ -58,7 +60,8 @@ export async function calculateInventoryForShift(shift: 'morning' | 'night') {
     const existing = inventoryMap.get(log.bread_type_id);
     if (existing) {
       const discountAmount = log.discount || 0;
-      const unitPrice = log.bread_types?.unit_price || 0;
+      // The price at the time of sale; older rows may not have one
+      const unitPrice = log.unit_price ?? log.bread_types?.unit_price ?? 0;
       const saleRevenue = log.quantity * (unitPrice - discountAmount);
       
       existing.total_sold += log.quantity;
@@ -71,7 +74,7 @@ export async function calculateInventoryForShift(shift: 'morning' | 'night') {
   return Array.from(inventoryMap.values());
 }
 
-export async function getShiftSummary(shift: 'morning' | 'night') {
+export async function getShiftSummary(shift: ShiftType) {
   const inventory = await calculateInventoryForShift(shift);
   
   const summary = {
@@ -86,7 +89,7 @@ export async function getShiftSummary(shift: 'morning' | 'night') {
   return summary;
 }
 
-export async function getUnsoldLoaves(shift: 'morning' | 'night') {
+export async function getUnsoldLoaves(shift: ShiftType) {
   const inventory = await calculateInventoryForShift(shift);
   return inventory.filter(item => item.unsold_loaves > 0);
 } 
\ No newline at end of file
@@ -0,0 +1,322 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createServer } from '@/lib/supabase/server';
+import { requireAuth, requirePermission } from '@/lib/auth/auth-utils';
+import { getStaffOnlineCountFromSessions } from '@/lib/auth/session-management';
+import { triggerPushNotification } from '@/lib/push-notifications/server';
+import { checkShiftKey, getShiftSchedule } from '@/lib/shift-schedule/actions';
+import { addDaysToDateString, getScheduleDate, getShiftWindowsForDate, type ShiftWindow } from '@/lib/shift-schedule/schedule';
+import { lowStockThresholdsSchema, formatValidationError } from '@/lib/validations';
+import type { ShiftType } from '@/types';
+import {
+  evaluateLowStock,
+  type LowStockItem,
+  type LowStockThreshold,
+  type StockPosition,
+} from './evaluate';
+
+type ActionResult = { success: boolean; error?: string };
+
+/**
+ * The running or most recently started window of each shift
+ */
+async function latestShiftWindows(branchId: string | null): Promise<Map<ShiftType, ShiftWindow>> {
+  const schedule = await getShiftSchedule(branchId);
+  const now = new Date();
+  const today = getScheduleDate(schedule, now);
+  const windows = new Map<ShiftType, ShiftWindow>();
+
+  [
+    ...getShiftWindowsForDate(schedule, addDaysToDateString(today, -1), { ignoreClosures: true }),
+    ...getShiftWindowsForDate(schedule, today, { ignoreClosures: true }),
+  ].forEach(window => {
+    const shift = window.key as ShiftType;
+    if (window.start > now) return;
+    const latest = windows.get(shift);
+    if (!latest || window.start > latest.start) windows.set(shift, window);
+  });
+
+  return windows;
+}
+
+/**
+ * Produced, sold and available per branch and bread type for one shift window
+ */
+async function getShiftPositions(
+  supabase: Awaited<ReturnType<typeof createServer>>,
+  shift: ShiftType,
+  window: ShiftWindow,
+  branchId: string | null
+): Promise<StockPosition[]> {
+  const start = window.start.toISOString();
+  const end = window.end.toISOString();
+  const columns = 'id, branch_id, bread_type_id, actual_quantity, bread_types ( name )';
+
+  let batchesQuery = supabase
+    .from('batches')
+    .select(columns)
+    .eq('shift', shift)
+    .in('status', ['active', 'completed'])
+    .gte('created_at', start)
+    .lt('created_at', end);
+  let archivedQuery = supabase
+    .from('all_batches')
+    .select(columns)
+    .eq('shift', shift)
+    .in('status', ['active', 'completed'])
+    .gte('created_at', start)
+    .lt('created_at', end);
+  let salesQuery = supabase
+    .from('sales_logs')
+    .select('branch_id, bread_type_id, quantity')
+    .eq('shift', shift)
+    .gte('created_at', start)
+    .lt('created_at', end);
+
+  if (branchId) {
+    batchesQuery = batchesQuery.eq('branch_id', branchId);
+    archivedQuery = archivedQuery.eq('branch_id', branchId);
+    salesQuery = salesQuery.eq('branch_id', branchId);
+  }
+
+  const [
+    { data: batches, error: batchesError },
+    { data: archived, error: archivedError },
+    { data: sales, error: salesError },
+  ] = await Promise.all([batchesQuery, archivedQuery, salesQuery]);
+
+  if (batchesError || archivedError || salesError) {
+    throw batchesError || archivedError || salesError;
+  }
+
+  const positions = new Map<string, StockPosition>();
+  const keyOf = (row: { branch_id: string | null; bread_type_id: string }) => `${row.branch_id}:${row.bread_type_id}`;
+
+  // Batches are copied to all_batches at the end of a shift; count each once
+  const seen = new Set<string>();
+  [...(batches || []), ...(archived || [])].forEach(batch => {
+    if (seen.has(batch.id)) return;
+    seen.add(batch.id);
+
+    const key = keyOf(batch);
+    const position = positions.get(key) || {
+      branch_id: batch.branch_id,
+      bread_type_id: batch.bread_type_id,
+      bread_type_name: batch.bread_types?.name || 'Unknown',
+      shift,
+      shift_date: window.shiftDate,
+      produced: 0,
+      sold: 0,
+      available: 0,
+    };
+    position.produced += batch.actual_quantity || 0;
+    positions.set(key, position);
+  });
+
+  (sales || []).forEach(sale => {
+    const position = positions.get(keyOf(sale));
+    if (position) position.sold += sale.quantity;
+  });
+
+  return Array.from(positions.values()).map(position => ({
+    ...position,
+    available: Math.max(0, position.produced - position.sold),
+  }));
+}
+
+/**
+ * Low-stock thresholds for a branch. branchId defaults to the user's branch;
+ * owners without one get every branch.
+ */
+export async function getLowStockThresholds(branchId?: string | null): Promise<LowStockThreshold[]> {
+  try {
+    const user = await requireAuth();
+    const scopeBranchId = branchId === undefined ? user.branch_id : branchId;
+    const supabase = await createServer();
+
+    let query = supabase
+      .from('low_stock_thresholds')
+      .select('branch_id, bread_type_id, shift, threshold, critical_level');
+    if (scopeBranchId) {
+      query = query.eq('branch_id', scopeBranchId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return (data || []).map(row => ({ ...row, shift: row.shift as ShiftType }));
+  } catch (error) {
+    console.error('Error fetching low-stock thresholds:', error);
+    return [];
+  }
+}
+
+/**
+ * Set the thresholds for one shift. Items without a threshold go back to
+ * the default. Managers always set their own branch; owners must pick one.
+ */
+export async function saveLowStockThresholds(input: unknown): Promise<ActionResult> {
+  try {
+    const user = await requirePermission('inventory.manage');
+
+    const parsed = lowStockThresholdsSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const { shift, items } = parsed.data;
+    const branchId = user.branch_id ?? parsed.data.branch_id;
+    if (!branchId) {
+      return { success: false, error: 'Choose a branch for these thresholds' };
+    }
+
+    const shiftError = await checkShiftKey(shift, branchId);
+    if (shiftError) {
+      return { success: false, error: shiftError };
+    }
+
+    const supabase = await createServer();
+    const configured = items.filter(item => item.threshold !== null);
+    const cleared = items.filter(item => item.threshold === null).map(item => item.bread_type_id);
+
+    if (configured.length > 0) {
+      const { error } = await supabase
+        .from('low_stock_thresholds')
+        .upsert(
+          configured.map(item => ({
+            branch_id: branchId,
+            bread_type_id: item.bread_type_id,
+            shift,
+            threshold: item.threshold as number,
+            critical_level: item.critical_level,
+            updated_by: user.id,
+            updated_at: new Date().toISOString(),
+          })),
+          { onConflict: 'branch_id,bread_type_id,shift' }
+        );
+
+      if (error) {
+        console.error('Error saving low-stock thresholds:', error);
+        return { success: false, error: 'Failed to save low-stock thresholds' };
+      }
+    }
+
+    if (cleared.length > 0) {
+      const { error } = await supabase
+        .from('low_stock_thresholds')
+        .delete()
+        .eq('branch_id', branchId)
+        .eq('shift', shift)
+        .in('bread_type_id', cleared);
+
+      if (error) {
+        console.error('Error clearing low-stock thresholds:', error);
+        return { success: false, error: 'Failed to update low-stock thresholds' };
+      }
+    }
+
+    revalidatePath('/dashboard/inventory/thresholds');
+    return { success: true };
+  } catch (error) {
+    console.error('Error in saveLowStockThresholds:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save low-stock thresholds' };
+  }
+}
+
+/**
+ * Bread types at or below their low-stock threshold in each shift's
+ * current window. This is the one place low stock is decided; dashboards,
+ * stock alerts and notifications all read it.
+ * branchId defaults to the user's branch; owners without one get every branch.
+ */
+export async function getLowStock(branchId?: string | null): Promise<LowStockItem[]> {
+  try {
+    const user = await requireAuth();
+    const scopeBranchId = branchId === undefined ? user.branch_id : branchId;
+    const supabase = await createServer();
+
+    const [windows, thresholds] = await Promise.all([
+      latestShiftWindows(scopeBranchId),
+      getLowStockThresholds(scopeBranchId),
+    ]);
+
+    const positions = await Promise.all(
+      Array.from(windows, ([shift, window]) => getShiftPositions(supabase, shift, window, scopeBranchId))
+    );
+
+    return evaluateLowStock(positions.flat(), thresholds);
+  } catch (error) {
+    console.error('Error evaluating low stock:', error);
+    return [];
+  }
+}
+
+/**
+ * Record and notify bread types that have newly crossed a threshold this
+ * shift. Goes to the managers signed in at the branch, or to the owners
+ * when none are. Never throws so it can follow a sale.
+ */
+export async function checkLowStockAlerts(breadTypeId?: string): Promise<void> {
+  try {
+    const user = await requireAuth();
+    const items = (await getLowStock(user.branch_id))
+      .filter(item => item.branch_id && (!breadTypeId || item.bread_type_id === breadTypeId));
+    if (items.length === 0) return;
+
+    const supabase = await createServer();
+    const { data: raised, error } = await supabase
+      .from('low_stock_alerts')
+      .upsert(
+        items.map(item => ({
+          branch_id: item.branch_id as string,
+          bread_type_id: item.bread_type_id,
+          shift: item.shift,
+          shift_date: item.shift_date,
+          level: item.level,
+          available: item.available,
+          threshold: item.threshold,
+        })),
+        { onConflict: 'branch_id,bread_type_id,shift,shift_date,level', ignoreDuplicates: true }
+      )
+      .select('branch_id, bread_type_id, shift, level');
+
+    if (error) throw error;
+    if (!raised || raised.length === 0) return;
+
+    const byBranch = new Map<string, LowStockItem[]>();
+    raised.forEach(alert => {
+      const item = items.find(candidate =>
+        candidate.branch_id === alert.branch_id &&
+        candidate.bread_type_id === alert.bread_type_id &&
+        candidate.shift === alert.shift &&
+        candidate.level === alert.level
+      );
+      if (!item) return;
+      byBranch.set(alert.branch_id, [...(byBranch.get(alert.branch_id) || []), item]);
+    });
+
+    await Promise.all(Array.from(byBranch, async ([branchId, branchItems]) => {
+      const { activeUsers } = await getStaffOnlineCountFromSessions(branchId);
+      const managerIds = activeUsers.filter(active => active.user_role === 'manager').map(active => active.user_id);
+
+      branchItems.forEach(item => {
+        triggerPushNotification({
+          activity_type: 'low_stock',
+          user_id: user.id,
+          user_name: user.name,
+          user_role: user.role,
+          message: `${item.bread_type_name} is ${item.level === 'critical' ? 'critically low' : 'running low'}: ${item.available} left for the ${item.shift} shift`,
+          shift: item.shift,
+          metadata: { bread_type: item.bread_type_name, bread_type_id: item.bread_type_id, quantity: item.available, level: item.level },
+          recipient_ids: managerIds,
+          url: managerIds.length > 0 ? '/dashboard/manager' : '/owner-dashboard',
+        }).catch(pushError => {
+          console.error('Low-stock notification failed (non-blocking):', pushError);
+        });
+      });
+    }));
+  } catch (error) {
+    console.error('Error checking low-stock alerts:', error);
+  }
+}
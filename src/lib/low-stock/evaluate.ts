@@ -0,0 +1,77 @@
+import type { ShiftType } from '@/types';
+
+// Level for bread types nobody has set a threshold for
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+export type LowStockLevel = 'low' | 'critical';
+
+export interface LowStockThreshold {
+  branch_id: string;
+  bread_type_id: string;
+  shift: ShiftType;
+  threshold: number;
+  critical_level: number | null;
+}
+
+export interface StockPosition {
+  branch_id: string | null;
+  bread_type_id: string;
+  bread_type_name: string;
+  shift: ShiftType;
+  shift_date: string;
+  produced: number;
+  sold: number;
+  available: number;
+}
+
+export interface LowStockItem extends StockPosition {
+  threshold: number;
+  critical_level: number | null;
+  level: LowStockLevel;
+}
+
+/**
+ * Threshold and critical level for a bread type in a shift, or the default
+ */
+export function findThreshold(
+  thresholds: LowStockThreshold[],
+  position: Pick<StockPosition, 'branch_id' | 'bread_type_id' | 'shift'>
+): Pick<LowStockThreshold, 'threshold' | 'critical_level'> {
+  const match = thresholds.find(threshold =>
+    threshold.bread_type_id === position.bread_type_id &&
+    threshold.shift === position.shift &&
+    threshold.branch_id === position.branch_id
+  );
+  return match
+    ? { threshold: match.threshold, critical_level: match.critical_level }
+    : { threshold: DEFAULT_LOW_STOCK_THRESHOLD, critical_level: null };
+}
+
+/**
+ * How low an amount is. Sold-out items are not low stock, so nothing at
+ * zero gets a level.
+ */
+export function stockLevel(available: number, threshold: number, criticalLevel: number | null): LowStockLevel | null {
+  if (available <= 0 || available > threshold) return null;
+  return criticalLevel !== null && available <= criticalLevel ? 'critical' : 'low';
+}
+
+/**
+ * Positions at or below their threshold, critical ones first then the
+ * fewest left
+ */
+export function evaluateLowStock(positions: StockPosition[], thresholds: LowStockThreshold[]): LowStockItem[] {
+  const items: LowStockItem[] = [];
+
+  positions.forEach(position => {
+    const { threshold, critical_level } = findThreshold(thresholds, position);
+    const level = stockLevel(position.available, threshold, critical_level);
+    if (level) {
+      items.push({ ...position, threshold, critical_level, level });
+    }
+  });
+
+  return items.sort((a, b) =>
+    (a.level === b.level ? 0 : a.level === 'critical' ? -1 : 1) || a.available - b.available
+  );
+}
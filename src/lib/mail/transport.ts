@@ -0,0 +1,106 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+/**
+ * Outgoing mail
+ *
+ * Mail goes out through a transport picked from the environment:
+ *   MAIL_TRANSPORT=smtp  SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE
+ *   MAIL_TRANSPORT=file  writes each message as an .eml file to MAIL_FILE_DIR
+ *                        (default .mail-outbox) for development and testing
+ * Without MAIL_TRANSPORT, SMTP is used when SMTP_HOST is set and files
+ * otherwise. MAIL_FROM sets the sender.
+ */
+
+export type MailTransportName = 'smtp' | 'file';
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
+export interface MailMessage {
+  to: string;
+  toName?: string | null;
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailTransport {
+  name: MailTransportName;
+  send(message: MailMessage): Promise<{ messageId: string }>;
+}
+
+const DEFAULT_FROM = 'HomeBake <no-reply@homebake.local>';
+
+function mailOptions(message: MailMessage): nodemailer.SendMailOptions {
+  return {
+    from: process.env.MAIL_FROM || DEFAULT_FROM,
+    to: message.toName ? { name: message.toName, address: message.to } : message.to,
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+    attachments: (message.attachments || []).map(attachment => ({
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      content: Buffer.from(attachment.content),
+    })),
+  };
+}
+
+export function createSmtpTransport(): MailTransport {
+  if (!process.env.SMTP_HOST) {
+    throw new Error('SMTP_HOST environment variable is not set');
+  }
+
+  const port = Number(process.env.SMTP_PORT || 587);
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const info = await transporter.sendMail(mailOptions(message));
+      return { messageId: info.messageId };
+    },
+  };
+}
+
+export function createFileTransport(directory = process.env.MAIL_FILE_DIR || '.mail-outbox'): MailTransport {
+  // Builds the full MIME message without sending it anywhere
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+  return {
+    name: 'file',
+    async send(message) {
+      const info = await transporter.sendMail(mailOptions(message));
+      const slug = message.subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+      const file = path.resolve(directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${slug}.eml`);
+
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, info.message as Buffer);
+      return { messageId: info.messageId || file };
+    },
+  };
+}
+
+export function getMailTransport(): MailTransport {
+  const name = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'file');
+
+  switch (name) {
+    case 'smtp':
+      return createSmtpTransport();
+    case 'file':
+      return createFileTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}"; use smtp or file`);
+  }
+}
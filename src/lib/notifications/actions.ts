@@ -0,0 +1,165 @@
+'use server';
+
+import { createServer } from '@/lib/supabase/server';
+import { requireAuth } from '@/lib/auth/auth-utils';
+import {
+  notificationArchiveSchema,
+  notificationIdsSchema,
+  formatValidationError,
+} from '@/lib/validations';
+import type { ShiftType } from '@/types';
+import type { InboxNotification, InboxView } from './inbox';
+
+type ActionResult = { success: boolean; error?: string };
+
+const INBOX_COLUMNS = `
+  id, activity_id, activity_type, message, actor_name, actor_role, shift,
+  metadata, read_at, archived_at, created_at
+`;
+
+/**
+ * The signed-in user's inbox, newest first
+ */
+export async function getInbox(view: InboxView = 'all', limit: number = 100): Promise<InboxNotification[]> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServer();
+
+    let query = supabase
+      .from('notifications')
+      .select(INBOX_COLUMNS)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (view === 'archived') {
+      query = query.not('archived_at', 'is', null);
+    } else {
+      query = query.is('archived_at', null);
+      if (view === 'unread') query = query.is('read_at', null);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      id: row.id,
+      activity_id: row.activity_id,
+      activity_type: row.activity_type,
+      message: row.message,
+      actor_name: row.actor_name,
+      actor_role: row.actor_role,
+      shift: row.shift as ShiftType | null,
+      metadata: (row.metadata ?? {}) as Record<string, unknown>,
+      read_at: row.read_at,
+      archived_at: row.archived_at,
+      created_at: row.created_at ?? new Date().toISOString(),
+    }));
+  } catch (error) {
+    console.error('Error fetching notification inbox:', error);
+    return [];
+  }
+}
+
+/**
+ * Unread, unarchived entries for the bell badge
+ */
+export async function getUnreadNotificationCount(): Promise<number> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServer();
+
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .is('read_at', null)
+      .is('archived_at', null);
+
+    if (error) throw error;
+    return count ?? 0;
+  } catch (error) {
+    console.error('Error counting unread notifications:', error);
+    return 0;
+  }
+}
+
+/**
+ * Mark some entries read, or unread again
+ */
+export async function setNotificationsRead(input: unknown, read: boolean = true): Promise<ActionResult> {
+  try {
+    await requireAuth();
+
+    const parsed = notificationIdsSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const supabase = await createServer();
+    const { error } = read
+      ? await supabase.rpc('mark_notifications_read', { p_ids: parsed.data.ids })
+      : await supabase.rpc('mark_notifications_unread', { p_ids: parsed.data.ids });
+
+    if (error) {
+      console.error('Error updating notification read state:', error);
+      return { success: false, error: error.message || 'Failed to update notifications' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in setNotificationsRead:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to update notifications' };
+  }
+}
+
+/**
+ * Mark everything in the inbox read
+ */
+export async function markAllNotificationsRead(): Promise<ActionResult & { count?: number }> {
+  try {
+    await requireAuth();
+    const supabase = await createServer();
+
+    const { data, error } = await supabase.rpc('mark_notifications_read', {});
+    if (error) {
+      console.error('Error marking all notifications read:', error);
+      return { success: false, error: error.message || 'Failed to mark notifications read' };
+    }
+
+    return { success: true, count: data ?? 0 };
+  } catch (error) {
+    console.error('Error in markAllNotificationsRead:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to mark notifications read' };
+  }
+}
+
+/**
+ * Archive entries out of the inbox, or bring them back
+ */
+export async function setNotificationsArchived(input: unknown): Promise<ActionResult> {
+  try {
+    await requireAuth();
+
+    const parsed = notificationArchiveSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const supabase = await createServer();
+    const { error } = await supabase.rpc('set_notifications_archived', {
+      p_ids: parsed.data.ids,
+      p_archived: parsed.data.archived,
+    });
+
+    if (error) {
+      console.error('Error archiving notifications:', error);
+      return { success: false, error: error.message || 'Failed to archive notifications' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in setNotificationsArchived:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to archive notifications' };
+  }
+}
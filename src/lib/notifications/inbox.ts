@@ -0,0 +1,87 @@
+/**
+ * In-app notification inbox
+ *
+ * Each user's copy of the activities routed to them, with its own read and
+ * archived state, and where tapping one should take them: the batch in
+ * production history, the shift report, or the sales list for their role.
+ *
+ * Everything here is pure (no Supabase, no React).
+ */
+
+import type { ShiftType, UserRole } from '@/types';
+
+export type InboxView = 'unread' | 'all' | 'archived';
+
+export const INBOX_VIEWS: Record<InboxView, { label: string }> = {
+  unread: { label: 'Unread' },
+  all: { label: 'All' },
+  archived: { label: 'Archived' },
+};
+
+export const INBOX_VIEW_KEYS = Object.keys(INBOX_VIEWS) as InboxView[];
+
+export interface InboxNotification {
+  id: string;
+  activity_id: string | null;
+  activity_type: string;
+  message: string;
+  actor_name: string | null;
+  actor_role: string | null;
+  shift: ShiftType | null;
+  metadata: Record<string, unknown>;
+  read_at: string | null;
+  archived_at: string | null;
+  created_at: string;
+}
+
+// 'yyyy-MM-dd' on the viewer's calendar
+const localDate = (timestamp: string) => new Date(timestamp).toLocaleDateString('en-CA');
+
+const SALES_LISTS: Record<UserRole, string> = {
+  owner: '/owner-dashboard/reports/sales',
+  manager: '/dashboard/sales-management',
+  sales_rep: '/dashboard/sales/all-sales',
+};
+
+const HOME: Record<UserRole, string> = {
+  owner: '/owner-dashboard',
+  manager: '/dashboard/manager',
+  sales_rep: '/dashboard/sales',
+};
+
+/**
+ * Where a notification leads for the viewer's role. Batches open production
+ * history filtered to that day, shift and bread; reports open the shift
+ * report; sales open the role's sales list.
+ */
+export function notificationLink(notification: InboxNotification, role: UserRole): string {
+  const date = localDate(notification.created_at);
+  const canSeeReports = role === 'owner' || role === 'manager';
+
+  switch (notification.activity_type) {
+    case 'sale':
+      return SALES_LISTS[role];
+    case 'batch': {
+      if (!canSeeReports) return HOME[role];
+      const params = new URLSearchParams({ date });
+      if (notification.shift) params.set('shift', notification.shift);
+      if (typeof notification.metadata.bread_type_id === 'string') {
+        params.set('bread_type_id', notification.metadata.bread_type_id);
+      }
+      return `/dashboard/production/history?${params.toString()}`;
+    }
+    case 'report':
+      if (!canSeeReports) return '/dashboard/sales-reports-history';
+      return notification.shift ? `/dashboard/reports/${date}-${notification.shift}` : '/dashboard/reports';
+    case 'low_stock':
+      return canSeeReports ? '/dashboard/inventory' : HOME[role];
+    case 'created':
+      return role === 'owner' ? '/dashboard/users' : HOME[role];
+    default:
+      return HOME[role];
+  }
+}
+
+export function isUnread(notification: InboxNotification): boolean {
+  return notification.read_at === null && notification.archived_at === null;
+}
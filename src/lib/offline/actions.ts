@@ -0,0 +1,301 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createServer } from '@/lib/supabase/server';
+import { requireAuth } from '@/lib/auth/auth-utils';
+import { createSalesLog } from '@/lib/sales/actions';
+import { upsertRemainingBread } from '@/lib/remaining-bread/actions';
+import { upsertSalesLogs } from '@/lib/sales/end-shift-actions';
+import { getRemainingBread } from '@/lib/reports/actions';
+import { createShiftReport, getSalesDataForShift } from '@/lib/reports/sales-reports-server-actions';
+import { summarizeShift } from '@/lib/reports/shift-report-summary';
+import { getShiftSchedule } from '@/lib/shift-schedule/actions';
+import { getShiftLabel } from '@/lib/shift-schedule/schedule';
+import {
+  offlineActionSchema,
+  formatValidationError,
+  type OfflineActionInput,
+  type OfflineRemainingBreadInput,
+  type OfflineShiftReportInput,
+} from '@/lib/validations';
+import type { Json } from '@/types/supabase';
+
+export interface OfflineSyncConflict {
+  key: string; // bread type id, or 'shift_report'
+  label: string;
+  yours: string;
+  theirs: string;
+  changedBy: string | null;
+  changedAt: string | null;
+}
+
+export interface OfflineSyncOutcome {
+  status: 'applied' | 'duplicate' | 'conflict' | 'failed';
+  message: string;
+  recordId?: string;
+  conflicts?: OfflineSyncConflict[];
+}
+
+// A claim younger than this is assumed to still be in flight on another request
+const CLAIM_TIMEOUT_MS = 60 * 1000;
+
+type ServerClient = Awaited<ReturnType<typeof createServer>>;
+
+interface Versioned {
+  updated_at: string | null;
+  created_at: string | null;
+}
+
+/**
+ * Whether a record was written after the version the device last saw.
+ * Without a known version, anything written after the action was queued
+ * is a change the device could not have seen.
+ */
+function changedSince(record: Versioned, baseVersion: string | null, queuedAt: number): boolean {
+  const version = record.updated_at ?? record.created_at;
+  if (!version) return false;
+  const base = baseVersion ? new Date(baseVersion).getTime() : queuedAt;
+  return new Date(version).getTime() > base;
+}
+
+async function getUserNames(supabase: ServerClient, userIds: string[]): Promise<Map<string, string>> {
+  if (userIds.length === 0) return new Map();
+  const { data } = await supabase.from('users').select('id, name').in('id', userIds);
+  return new Map((data || []).map(user => [user.id, user.name]));
+}
+
+async function findRemainingBreadConflicts(
+  supabase: ServerClient,
+  data: OfflineRemainingBreadInput,
+  queuedAt: number
+): Promise<OfflineSyncConflict[]> {
+  // Only a record for the same shift on the day the action was queued is
+  // one the device could have been looking at
+  const recordDate = new Date(queuedAt).toISOString().split('T')[0];
+  const { data: current, error } = await supabase
+    .from('remaining_bread')
+    .select('bread_type_id, quantity, shift, recorded_by, created_at, updated_at')
+    .in('bread_type_id', data.items.map(item => item.bread_type_id))
+    .in('shift', Array.from(new Set(data.items.map(item => item.shift))))
+    .eq('record_date', recordDate);
+
+  if (error) throw error;
+
+  const changed = data.items.flatMap(item => {
+    const record = (current || []).find(row => row.bread_type_id === item.bread_type_id && row.shift === item.shift);
+    if (!record || record.quantity === item.quantity) return [];
+    if (!changedSince(record, item.base_version, queuedAt)) return [];
+    return [{ item, record }];
+  });
+
+  const names = await getUserNames(supabase, Array.from(new Set(changed.map(({ record }) => record.recorded_by))));
+
+  return changed.map(({ item, record }) => ({
+    key: item.bread_type_id,
+    label: item.bread_type,
+    yours: `${item.quantity} left`,
+    theirs: `${record.quantity} left`,
+    changedBy: names.get(record.recorded_by) ?? null,
+    changedAt: record.updated_at ?? record.created_at,
+  }));
+}
+
+async function findShiftReportConflict(
+  supabase: ServerClient,
+  data: OfflineShiftReportInput,
+  queuedAt: number
+): Promise<OfflineSyncConflict | null> {
+  const { data: report, error } = await supabase
+    .from('shift_reports')
+    .select('id, total_items_sold, total_revenue, created_at, updated_at')
+    .eq('user_id', data.user_id)
+    .eq('shift', data.shift)
+    .eq('report_date', data.report_date)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!report || !changedSince(report, data.base_version, queuedAt)) return null;
+
+  const schedule = await getShiftSchedule();
+  return {
+    key: 'shift_report',
+    label: `${getShiftLabel(schedule, data.shift)} shift report`,
+    yours: data.feedback ? `Ended offline: "${data.feedback}"` : 'Ended offline',
+    theirs: `Already submitted: ${report.total_items_sold} sold, ₦${report.total_revenue.toLocaleString()}`,
+    changedBy: null,
+    changedAt: report.updated_at ?? report.created_at,
+  };
+}
+
+async function applyAction(
+  supabase: ServerClient,
+  userId: string,
+  action: OfflineActionInput
+): Promise<OfflineSyncOutcome> {
+  switch (action.type) {
+    case 'sales_log': {
+      if (action.data.recorded_by !== userId) throw new Error('Sales can only be synced by the user who recorded them');
+      // Promotions are checked against when the sale was made, not when it synced.
+      // The key goes onto the sale so a replay can never record it twice.
+      const sale = await createSalesLog({
+        ...action.data,
+        sold_at: new Date(action.queued_at).toISOString(),
+        idempotency_key: action.idempotency_key,
+      });
+      return { status: 'applied', message: `Sale of ${action.data.quantity} recorded`, recordId: sale.saleId };
+    }
+
+    case 'shift_sales': {
+      if (action.data.items.some(item => item.recorded_by !== userId)) {
+        throw new Error('Sales can only be synced by the user who recorded them');
+      }
+      const result = await upsertSalesLogs(action.data.items);
+      if (!result.success) throw new Error(result.error || 'Failed to save shift sales');
+      return { status: 'applied', message: `Sales saved for ${action.data.items.length} bread types` };
+    }
+
+    case 'remaining_bread': {
+      if (!action.force) {
+        const conflicts = await findRemainingBreadConflicts(supabase, action.data, action.queued_at);
+        if (conflicts.length > 0) {
+          return { status: 'conflict', message: 'Remaining bread was changed by someone else', conflicts };
+        }
+      }
+
+      const result = await upsertRemainingBread(
+        action.data.items.map(item => ({
+          bread_type_id: item.bread_type_id,
+          bread_type: item.bread_type,
+          quantity: item.quantity,
+          unit_price: item.unit_price,
+          shift: item.shift,
+          recorded_by: userId,
+        }))
+      );
+      if (!result.success) throw new Error(result.error || 'Failed to save remaining bread');
+      return { status: 'applied', message: `Remaining bread saved for ${action.data.items.length} bread types` };
+    }
+
+    case 'shift_report': {
+      if (action.data.user_id !== userId) throw new Error('Shift reports can only be synced by their owner');
+      if (!action.force) {
+        const conflict = await findShiftReportConflict(supabase, action.data, action.queued_at);
+        if (conflict) {
+          return { status: 'conflict', message: 'The shift report was changed since you ended the shift', conflicts: [conflict] };
+        }
+      }
+
+      // Totals come from the server so sales synced just before are included
+      const [sales, remaining] = await Promise.all([
+        getSalesDataForShift(userId, action.data.shift),
+        getRemainingBread(userId),
+      ]);
+      const report = await createShiftReport({
+        ...summarizeShift(sales || [], remaining.success ? remaining.data || [] : []),
+        user_id: userId,
+        shift: action.data.shift,
+        feedback: action.data.feedback,
+        counted_cash: action.data.counted_cash,
+        counted_transfer: action.data.counted_transfer,
+        report_date: action.data.report_date,
+      });
+      return { status: 'applied', message: 'Shift report submitted', recordId: report?.id };
+    }
+  }
+}
+
+/**
+ * Apply one action recorded while offline, at most once per idempotency key.
+ * Replays of an applied action return its stored outcome as a duplicate.
+ * Remaining bread and shift reports changed by someone else since the
+ * action was queued come back as a conflict unless `force` is set.
+ */
+export async function applyOfflineAction(input: OfflineActionInput): Promise<OfflineSyncOutcome> {
+  const validation = offlineActionSchema.safeParse(input);
+  if (!validation.success) {
+    return { status: 'failed', message: formatValidationError(validation.error) };
+  }
+  const action = validation.data;
+
+  let claimed = false;
+  const supabase = await createServer();
+
+  try {
+    const user = await requireAuth();
+
+    const { data: existing, error: lookupError } = await supabase
+      .from('offline_sync_actions')
+      .select('status, result')
+      .eq('idempotency_key', action.idempotency_key)
+      .maybeSingle();
+
+    if (lookupError) throw lookupError;
+
+    if (existing?.status === 'applied') {
+      const stored = (existing.result || {}) as { message?: string; recordId?: string };
+      return { status: 'duplicate', message: stored.message || 'Already synced', recordId: stored.recordId };
+    }
+
+    if (existing) {
+      // An earlier attempt died before finishing; take it over once it is
+      // stale. Only the request whose update matches the stale row gets it.
+      const { data: takenOver, error: takeOverError } = await supabase
+        .from('offline_sync_actions')
+        .update({ created_at: new Date().toISOString() })
+        .eq('idempotency_key', action.idempotency_key)
+        .eq('status', 'processing')
+        .lt('created_at', new Date(Date.now() - CLAIM_TIMEOUT_MS).toISOString())
+        .select('idempotency_key');
+
+      if (takeOverError) throw takeOverError;
+      if (!takenOver || takenOver.length === 0) {
+        return { status: 'failed', message: 'Still being synced from another request' };
+      }
+    } else {
+      const { error: claimError } = await supabase
+        .from('offline_sync_actions')
+        .insert({
+          idempotency_key: action.idempotency_key,
+          user_id: user.id,
+          action_type: action.type,
+          queued_at: new Date(action.queued_at).toISOString(),
+        });
+
+      if (claimError) {
+        if (claimError.code === '23505') {
+          return { status: 'failed', message: 'Still being synced from another request' };
+        }
+        throw claimError;
+      }
+    }
+    claimed = true;
+
+    const outcome = await applyAction(supabase, user.id, action);
+
+    if (outcome.status !== 'applied') {
+      // Release the key so the action can be retried once the conflict is resolved
+      await supabase.from('offline_sync_actions').delete().eq('idempotency_key', action.idempotency_key).eq('status', 'processing');
+      return outcome;
+    }
+
+    const { error: markError } = await supabase
+      .from('offline_sync_actions')
+      .update({
+        status: 'applied',
+        result: { message: outcome.message, recordId: outcome.recordId ?? null } as Json,
+        applied_at: new Date().toISOString(),
+      })
+      .eq('idempotency_key', action.idempotency_key);
+
+    if (markError) console.error('Error marking offline action as applied:', markError);
+
+    revalidatePath('/dashboard/sales');
+    return outcome;
+  } catch (error) {
+    console.error('Error applying offline action:', error);
+    if (claimed) {
+      await supabase.from('offline_sync_actions').delete().eq('idempotency_key', action.idempotency_key).eq('status', 'processing');
+    }
+    return { status: 'failed', message: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
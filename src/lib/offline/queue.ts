@@ -1,19 +1,16 @@
-import { OfflineStorage } from './storage';
-
-export interface QueuedAction {
-  id: string;
-  type: 'sales_log' | 'production_log' | 'shift_feedback' | 'bread_type';
-  action: 'insert' | 'update' | 'delete';
-  data: any;
-  userId: string;
-  timestamp: number;
-  retryCount: number;
-  lastError?: string;
-  status: 'pending' | 'syncing' | 'completed' | 'failed';
-}
+import { OfflineStorage, type QueuedAction, type SyncLogEntry } from './storage';
+import type { OfflineSyncConflict } from './actions';
+import type {
+  OfflineRemainingBreadInput,
+  OfflineSaleInput,
+  OfflineShiftReportInput,
+  OfflineShiftSalesInput,
+} from '@/lib/validations';
+
+export type { QueuedAction, SyncLogEntry } from './storage';
 
 export interface QueueEvent {
-  type: 'action_completed' | 'action_failed' | 'sync_started' | 'sync_completed';
+  type: 'action_added' | 'action_completed' | 'action_failed' | 'action_conflict' | 'sync_started' | 'sync_completed' | 'sync_log_updated';
   timestamp: number;
   actionId?: string;
   error?: string;
@@ -30,15 +27,62 @@ class OfflineQueueManager {
     return OfflineQueueManager.instance;
   }
 
-  async addSalesAction(salesData: any, userId: string): Promise<string> {
-    return await OfflineStorage.addToQueue({
+  async addSalesAction(salesData: OfflineSaleInput, userId: string, label?: string): Promise<string> {
+    return this.enqueue({
       type: 'sales_log',
       action: 'insert',
       data: salesData,
-      userId
+      userId,
+      label: label ?? `Sale of ${salesData.quantity}`
     });
   }
 
+  async addShiftSalesAction(salesData: OfflineShiftSalesInput, userId: string): Promise<string> {
+    return this.enqueue({
+      type: 'shift_sales',
+      action: 'update',
+      data: salesData,
+      userId,
+      label: `Shift sales (${salesData.items.length} types)`
+    });
+  }
+
+  async addRemainingBreadAction(remainingData: OfflineRemainingBreadInput, userId: string): Promise<string> {
+    return this.enqueue({
+      type: 'remaining_bread',
+      action: 'update',
+      data: remainingData,
+      userId,
+      label: `Remaining bread (${remainingData.items.length} types)`
+    });
+  }
+
+  async addShiftReportAction(reportData: OfflineShiftReportInput, userId: string): Promise<string> {
+    return this.enqueue({
+      type: 'shift_report',
+      action: 'insert',
+      data: reportData,
+      userId,
+      label: `End of ${reportData.shift} shift`
+    });
+  }
+
+  private async enqueue(action: Parameters<typeof OfflineStorage.addToQueue>[0]): Promise<string> {
+    const actionId = await OfflineStorage.addToQueue(action);
+    await this.log({ actionId, type: action.type, label: action.label || action.type, status: 'queued' });
+    this.emit('action_added', { type: 'action_added', timestamp: Date.now(), actionId });
+    return actionId;
+  }
+
+  async log(entry: Omit<SyncLogEntry, 'id' | 'at'>): Promise<void> {
+    await OfflineStorage.addSyncLogEntry(entry);
+    this.emit('sync_log_updated', { type: 'sync_log_updated', timestamp: Date.now(), actionId: entry.actionId });
+  }
+
+  async getSyncLog(): Promise<SyncLogEntry[]> {
+    return await OfflineStorage.getSyncLog();
+  }
+
   async addProductionAction(productionData: any, userId: string): Promise<string> {
     return await OfflineStorage.addToQueue({
       type: 'production_log',
@@ -130,6 +174,41 @@ class OfflineQueueManager {
     }
   }
 
+  async markActionAsConflict(actionId: string, conflicts: OfflineSyncConflict[], message: string): Promise<void> {
+    await OfflineStorage.updateQueuedAction(actionId, {
+      status: 'conflict',
+      conflicts,
+      lastError: message,
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Settle a conflict: keep this device's version (sync it again, overwriting
+   * the other change) or use theirs (drop the queued action).
+   */
+  async resolveConflict(actionId: string, resolution: 'keep_mine' | 'use_theirs'): Promise<void> {
+    const actions = await OfflineStorage.getQueuedActions();
+    const action = actions.find(a => a.id === actionId);
+    if (!action) return;
+
+    const label = action.label || action.type;
+    if (resolution === 'keep_mine') {
+      await OfflineStorage.updateQueuedAction(actionId, {
+        status: 'pending',
+        force: true,
+        conflicts: undefined,
+        lastError: undefined,
+        timestamp: Date.now()
+      });
+      await this.log({ actionId, type: action.type, label, status: 'resolved', message: 'Kept your version' });
+    } else {
+      await OfflineStorage.removeQueuedAction(actionId);
+      await this.log({ actionId, type: action.type, label, status: 'discarded', message: 'Kept the other version' });
+    }
+    this.emit('action_added', { type: 'action_added', timestamp: Date.now(), actionId });
+  }
+
   async markActionAsRetrying(actionId: string): Promise<void> {
     await OfflineStorage.updateQueuedAction(actionId, {
       status: 'pending',
@@ -142,7 +221,15 @@ class OfflineQueueManager {
   }
 
   async getPendingActions(): Promise<QueuedAction[]> {
-    return await OfflineStorage.getQueuedActions();
+    return await OfflineStorage.getQueuedActions('pending');
+  }
+
+  async getConflictActions(): Promise<QueuedAction[]> {
+    return await OfflineStorage.getQueuedActions('conflict');
+  }
+
+  async clearCompletedActions(): Promise<void> {
+    await OfflineStorage.clearCompletedActions();
   }
 
   async getFailedActions(): Promise<QueuedAction[]> {
@@ -154,17 +241,19 @@ class OfflineQueueManager {
     await this.markActionAsRetrying(actionId);
   }
 
-  async getQueueStats(): Promise<{ total: number; pending: number; failed: number; completed: number }> {
+  async getQueueStats(): Promise<{ total: number; pending: number; failed: number; completed: number; conflicts: number }> {
     const actions = await OfflineStorage.getQueuedActions();
     const pending = actions.filter(a => a.status === 'pending').length;
     const failed = actions.filter(a => a.status === 'failed').length;
     const completed = actions.filter(a => a.status === 'completed').length;
+    const conflicts = actions.filter(a => a.status === 'conflict').length;
     
     return {
       total: actions.length,
       pending,
       failed,
-      completed
+      completed,
+      conflicts
     };
   }
 
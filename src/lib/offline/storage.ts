@@ -2,18 +2,37 @@
 // Replaced Dexie (IndexedDB) for better serverless compatibility
 
 import type { Database } from '@/types/database';
+import type { OfflineSyncConflict } from './actions';
+import type { ShiftType } from '@/types';
 
 // Types for offline storage
 export interface QueuedAction {
   id: string;
-  type: 'sales_log' | 'production_log' | 'shift_feedback' | 'bread_type';
+  type: 'sales_log' | 'production_log' | 'shift_feedback' | 'bread_type' | 'shift_sales' | 'remaining_bread' | 'shift_report';
   action: 'insert' | 'update' | 'delete';
   data: any;
   userId: string;
   timestamp: number;
   retryCount: number;
   lastError?: string;
-  status: 'pending' | 'syncing' | 'completed' | 'failed';
+  status: 'pending' | 'syncing' | 'completed' | 'failed' | 'conflict';
+  // Sent with the action so the server applies it at most once
+  idempotencyKey?: string;
+  queuedAt?: number;
+  label?: string;
+  // Set when the user chose to keep their version over someone else's
+  force?: boolean;
+  conflicts?: OfflineSyncConflict[];
+}
+
+export interface SyncLogEntry {
+  id: string;
+  actionId: string;
+  type: QueuedAction['type'];
+  label: string;
+  status: 'queued' | 'synced' | 'duplicate' | 'conflict' | 'failed' | 'resolved' | 'discarded';
+  message?: string;
+  at: number;
 }
 
 export interface CachedSalesLog {
@@ -24,7 +43,7 @@ export interface CachedSalesLog {
   discount: number | null;
   returned: boolean;
   leftover: number | null;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   recorded_by: string;
   created_at: string;
   _offlineId?: string;
@@ -36,7 +55,7 @@ export interface CachedProductionLog {
   id: string;
   bread_type_id: string;
   quantity: number;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   recorded_by: string;
   created_at: string;
   _offlineId?: string;
@@ -47,7 +66,7 @@ export interface CachedProductionLog {
 export interface CachedShiftFeedback {
   id: string;
   user_id: string;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   note: string | null;
   created_at: string;
   _offlineId?: string;
@@ -81,8 +100,12 @@ const STORAGE_KEYS = {
   SHIFT_FEEDBACK: 'homebake_shift_feedback',
   BREAD_TYPES: 'homebake_bread_types',
   SYNC_METADATA: 'homebake_sync_metadata',
+  SYNC_LOG: 'homebake_sync_log',
 } as const;
 
+// Sync log entries kept on the device, newest first
+const SYNC_LOG_LIMIT = 50;
+
 // Storage utilities with localStorage backend
 export class OfflineStorage {
   
@@ -130,10 +153,13 @@ export class OfflineStorage {
   // Queue management
   static async addToQueue(action: Omit<QueuedAction, 'id' | 'timestamp' | 'retryCount' | 'status'>): Promise<string> {
     const actions = this.getFromStorage<QueuedAction>(STORAGE_KEYS.QUEUED_ACTIONS);
+    const now = Date.now();
     const newAction: QueuedAction = {
       ...action,
       id: this.generateOfflineId(),
-      timestamp: Date.now(),
+      idempotencyKey: action.idempotencyKey ?? this.generateIdempotencyKey(),
+      queuedAt: now,
+      timestamp: now,
       retryCount: 0,
       status: 'pending'
     };
@@ -175,6 +201,27 @@ export class OfflineStorage {
     this.saveToStorage(STORAGE_KEYS.QUEUED_ACTIONS, filtered);
   }
 
+  // Sync log
+  static async addSyncLogEntry(entry: Omit<SyncLogEntry, 'id' | 'at'>): Promise<SyncLogEntry> {
+    const log = this.getFromStorage<SyncLogEntry>(STORAGE_KEYS.SYNC_LOG);
+    const newEntry: SyncLogEntry = {
+      ...entry,
+      id: this.generateOfflineId(),
+      at: Date.now()
+    };
+
+    this.saveToStorage(STORAGE_KEYS.SYNC_LOG, [newEntry, ...log].slice(0, SYNC_LOG_LIMIT));
+    return newEntry;
+  }
+
+  static async getSyncLog(): Promise<SyncLogEntry[]> {
+    return this.getFromStorage<SyncLogEntry>(STORAGE_KEYS.SYNC_LOG);
+  }
+
+  static async clearSyncLog(): Promise<void> {
+    this.saveToStorage(STORAGE_KEYS.SYNC_LOG, []);
+  }
+
   // Sales logs
   static async cacheSalesLog(salesLog: Omit<CachedSalesLog, '_timestamp'>): Promise<void> {
     const logs = this.getFromStorage<CachedSalesLog>(STORAGE_KEYS.SALES_LOGS);
@@ -280,6 +327,23 @@ export class OfflineStorage {
     this.saveToStorage(STORAGE_KEYS.BREAD_TYPES, types);
   }
 
+  // Replace the cached list with the bread types currently on sale
+  static async cacheBreadTypesForSale(
+    breadTypes: Array<{ id: string; name: string; unit_price: number; size?: string | null }>
+  ): Promise<void> {
+    const now = Date.now();
+    this.saveToStorage<CachedBreadType>(STORAGE_KEYS.BREAD_TYPES, breadTypes.map(breadType => ({
+      id: breadType.id,
+      name: breadType.name,
+      size: breadType.size ?? null,
+      unit_price: breadType.unit_price,
+      created_by: '',
+      created_at: '',
+      _syncStatus: 'synced',
+      _timestamp: now
+    })));
+  }
+
   static async getCachedBreadTypes(): Promise<CachedBreadType[]> {
     const types = this.getFromStorage<CachedBreadType>(STORAGE_KEYS.BREAD_TYPES);
     return types.sort((a, b) => a.name.localeCompare(b.name));
@@ -317,7 +381,8 @@ export class OfflineStorage {
       productionLogs: this.getFromStorage<CachedProductionLog>(STORAGE_KEYS.PRODUCTION_LOGS).length,
       shiftFeedback: this.getFromStorage<CachedShiftFeedback>(STORAGE_KEYS.SHIFT_FEEDBACK).length,
       breadTypes: this.getFromStorage<CachedBreadType>(STORAGE_KEYS.BREAD_TYPES).length,
-      syncMetadata: Object.keys(this.getSingleFromStorage<Record<string, SyncMetadata>>(STORAGE_KEYS.SYNC_METADATA) || {}).length
+      syncMetadata: Object.keys(this.getSingleFromStorage<Record<string, SyncMetadata>>(STORAGE_KEYS.SYNC_METADATA) || {}).length,
+      syncLog: this.getFromStorage<SyncLogEntry>(STORAGE_KEYS.SYNC_LOG).length
     };
 
     const total = Object.values(tables).reduce((sum, count) => sum + count, 0);
@@ -329,6 +394,10 @@ export class OfflineStorage {
     return `offline_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  static generateIdempotencyKey(): string {
+    return crypto.randomUUID();
+  }
+
   // Check if ID is offline-generated
   static isOfflineId(id: string): boolean {
     return id.startsWith('offline_');
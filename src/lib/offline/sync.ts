@@ -1,6 +1,9 @@
 import { OfflineQueue } from './queue';
+import { OfflineStorage } from './storage';
+import { applyOfflineAction, type OfflineSyncOutcome } from './actions';
 import { supabase } from '@/lib/supabase/client';
 import type { QueuedAction } from './queue';
+import type { OfflineActionInput } from '@/lib/validations';
 
 export interface SyncResult {
   success: boolean;
@@ -24,6 +27,7 @@ export interface SyncOptions {
 class OfflineSyncManager {
   private static instance: OfflineSyncManager;
   private isSyncing = false;
+  private progress: SyncStatus['progress'] = { total: 0, completed: 0, failed: 0 };
   private statusListeners: Array<(status: SyncStatus) => void> = [];
 
   static getInstance(): OfflineSyncManager {
@@ -40,8 +44,7 @@ class OfflineSyncManager {
   async sync(options: SyncOptions = {}): Promise<SyncResult> {
     const {
       retryFailed = false,
-      maxRetries = 3,
-      batchSize = 10
+      maxRetries = 3
     } = options;
 
     if (this.isSyncing) {
@@ -62,43 +65,70 @@ class OfflineSyncManager {
       
       if (retryFailed) {
         const failedActions = await OfflineQueue.getFailedActions();
-        actions = [...actions, ...failedActions];
+        actions = [...actions, ...failedActions].sort((a, b) => (a.queuedAt ?? a.timestamp) - (b.queuedAt ?? b.timestamp));
       }
 
       // Filter out actions that have exceeded max retries
       actions = actions.filter(action => (action.retryCount || 0) < maxRetries);
 
-      // Process actions in batches
-      for (let i = 0; i < actions.length; i += batchSize) {
-        const batch = actions.slice(i, i + batchSize);
-        const batchResults = await Promise.allSettled(
-          batch.map(action => this.processAction(action))
-        );
+      this.setProgress({ total: actions.length, completed: 0, failed: 0 });
+      OfflineQueue.emit('sync_started', { type: 'sync_started', timestamp: Date.now() });
 
-        batchResults.forEach((batchResult, index) => {
-          const action = batch[i + index];
-          if (batchResult.status === 'fulfilled') {
-            result.syncedCount++;
-            OfflineQueue.emit('action_completed', { actionId: action.id });
+      // One at a time, in the order they were recorded: a shift report is
+      // totalled on the server from the sales synced before it
+      let blocked = false;
+      for (const action of actions) {
+        if (blocked && action.type === 'shift_report') continue;
+
+        try {
+          const outcome = await this.processAction(action);
+          if (outcome === 'conflict') {
+            blocked = true;
+            OfflineQueue.emit('action_conflict', { type: 'action_conflict', timestamp: Date.now(), actionId: action.id });
           } else {
-            result.failedCount++;
-            const errorMessage = batchResult.reason?.message || 'Unknown error';
-            result.errors.push({ actionId: action.id, error: errorMessage });
-            OfflineQueue.emit('action_failed', { actionId: action.id, error: errorMessage });
+            result.syncedCount++;
+            OfflineQueue.emit('action_completed', { type: 'action_completed', timestamp: Date.now(), actionId: action.id });
           }
+        } catch (error) {
+          blocked = true;
+          result.failedCount++;
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          result.errors.push({ actionId: action.id, error: errorMessage });
+          OfflineQueue.emit('action_failed', { type: 'action_failed', timestamp: Date.now(), actionId: action.id, error: errorMessage });
+        }
+
+        this.setProgress({
+          ...this.progress,
+          completed: result.syncedCount,
+          failed: result.failedCount
         });
       }
+
+      await OfflineQueue.clearCompletedActions();
+      if (actions.length > 0) {
+        await OfflineStorage.setSyncMetadata('queue', Date.now());
+      }
     } catch (error) {
       result.success = false;
       console.error('Sync error:', error);
     } finally {
       this.isSyncing = false;
+      this.setProgress(this.progress);
+      OfflineQueue.emit('sync_completed', { type: 'sync_completed', timestamp: Date.now() });
     }
 
     return result;
   }
 
-  private async processAction(action: QueuedAction): Promise<void> {
+  private setProgress(progress: SyncStatus['progress']): void {
+    this.progress = progress;
+    const status = this.getCurrentStatus();
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  private async processAction(action: QueuedAction): Promise<'synced' | 'conflict'> {
+    const label = action.label || action.type;
+
     try {
       // Mark as syncing
       await OfflineQueue.markActionAsSyncing(action.id);
@@ -106,8 +136,22 @@ class OfflineSyncManager {
       // Process based on action type
       switch (action.type) {
         case 'sales_log':
-          await this.processSalesAction(action);
-          break;
+        case 'shift_sales':
+        case 'remaining_bread':
+        case 'shift_report': {
+          const outcome = await this.processIdempotentAction(action);
+          if (outcome.status === 'conflict') {
+            await OfflineQueue.markActionAsConflict(action.id, outcome.conflicts || [], outcome.message);
+            await OfflineQueue.log({ actionId: action.id, type: action.type, label, status: 'conflict', message: outcome.message });
+            return 'conflict';
+          }
+          if (outcome.status === 'failed') {
+            throw new Error(outcome.message);
+          }
+          await OfflineQueue.markActionAsCompleted(action.id);
+          await OfflineQueue.log({ actionId: action.id, type: action.type, label, status: outcome.status === 'duplicate' ? 'duplicate' : 'synced', message: outcome.message });
+          return 'synced';
+        }
         case 'production_log':
           await this.processProductionAction(action);
           break;
@@ -123,22 +167,31 @@ class OfflineSyncManager {
 
       // Mark as completed
       await OfflineQueue.markActionAsCompleted(action.id);
+      await OfflineQueue.log({ actionId: action.id, type: action.type, label, status: 'synced' });
+      return 'synced';
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       await OfflineQueue.markActionAsFailed(action.id, errorMessage);
+      await OfflineQueue.log({ actionId: action.id, type: action.type, label, status: 'failed', message: errorMessage });
       throw error;
     }
   }
 
-  private async processSalesAction(action: QueuedAction): Promise<void> {
-    const { data } = action;
-    const { error } = await supabase
-      .from('sales_logs')
-      .insert(data)
-      .select()
-      .single();
+  private async processIdempotentAction(action: QueuedAction): Promise<OfflineSyncOutcome> {
+    // Actions queued before idempotency keys existed get one now, kept across retries
+    let idempotencyKey = action.idempotencyKey;
+    if (!idempotencyKey) {
+      idempotencyKey = OfflineStorage.generateIdempotencyKey();
+      await OfflineStorage.updateQueuedAction(action.id, { idempotencyKey });
+    }
 
-    if (error) throw error;
+    return await applyOfflineAction({
+      type: action.type,
+      data: action.data,
+      idempotency_key: idempotencyKey,
+      queued_at: action.queuedAt ?? action.timestamp,
+      force: action.force
+    } as OfflineActionInput);
   }
 
   private async processProductionAction(action: QueuedAction): Promise<void> {
@@ -194,7 +247,7 @@ class OfflineSyncManager {
   getCurrentStatus(): SyncStatus {
     return {
       isActive: this.isSyncing,
-      progress: { total: 0, completed: 0, failed: 0 }
+      progress: this.progress
     };
   }
 
@@ -210,13 +263,20 @@ class OfflineSyncManager {
 
   async getSyncHealth(): Promise<{ isHealthy: boolean; lastSyncTime?: number; issues: string[] }> {
     try {
-      const actions = await OfflineQueue.getPendingActions();
-      const failedActions = await OfflineQueue.getFailedActions();
+      const [failedActions, conflictActions, metadata] = await Promise.all([
+        OfflineQueue.getFailedActions(),
+        OfflineQueue.getConflictActions(),
+        OfflineStorage.getSyncMetadata('queue')
+      ]);
+      const issues = [
+        ...(failedActions.length > 0 ? [`${failedActions.length} failed actions`] : []),
+        ...(conflictActions.length > 0 ? [`${conflictActions.length} conflicts to resolve`] : [])
+      ];
       
       return {
-        isHealthy: failedActions.length === 0,
-        lastSyncTime: Date.now(),
-        issues: failedActions.length > 0 ? [`${failedActions.length} failed actions`] : []
+        isHealthy: issues.length === 0,
+        lastSyncTime: metadata?.lastSyncTimestamp,
+        issues
       };
     } catch (error) {
       return {
@@ -3,10 +3,12 @@
 import { createServer } from '@/lib/supabase/server';
 import { productionEntrySchema } from '@/lib/validations/production';
 import { revalidatePath } from 'next/cache';
+import { checkShiftKey } from '@/lib/shift-schedule/actions';
+import type { ShiftType } from '@/types';
 
 export async function saveFeedback({ user_id, shift, note }: {
   user_id: string;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   note: string;
 }) {
   const supabase = await createServer();
@@ -27,10 +29,15 @@ export async function saveFeedback({ user_id, shift, note }: {
 export async function createProductionLog(data: {
   bread_type_id: string;
   quantity: number;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   recorded_by: string;
 }) {
   const supabase = await createServer();
+
+  const shiftError = await checkShiftKey(data.shift);
+  if (shiftError) {
+    throw new Error(shiftError);
+  }
   
   const { error } = await supabase.from('production_logs').insert({
     bread_type_id: data.bread_type_id,
@@ -63,7 +70,7 @@ export async function fetchTodayProductionLogs(recorded_by: string) {
 export async function fetchProductionHistory({ recorded_by, bread_type_id, shift, date }: {
   recorded_by?: string;
   bread_type_id?: string;
-  shift?: 'morning' | 'night';
+  shift?: ShiftType;
   date?: string; // ISO date string (YYYY-MM-DD)
 }) {
   const supabase = await createServer();
@@ -0,0 +1,292 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createServer } from '@/lib/supabase/server';
+import { requireAuth, requirePermission } from '@/lib/auth/auth-utils';
+import { productionPlanSchema, formatValidationError } from '@/lib/validations';
+import { checkShiftKey } from '@/lib/shift-schedule/actions';
+import type { ProductionPlanItem, ProductionVarianceReport, ProductionVarianceRow, ShiftType } from '@/types';
+
+type ActionResult = { success: boolean; error?: string };
+
+interface VarianceBatch {
+  id: string;
+  bread_type_id: string;
+  bread_type_name: string;
+  created_by: string;
+  manager_name: string;
+  shift: ShiftType;
+  date: string;
+  actual: number;
+  target: number | null;
+}
+
+const SHIFT_LABELS: Record<ShiftType, string> = { morning: 'Morning', night: 'Night' };
+
+/**
+ * Planned quantities for one date and shift.
+ * branchId defaults to the user's branch; owners without one get plans summed across branches.
+ */
+export async function getProductionPlan(
+  planDate: string,
+  shift: ShiftType,
+  branchId?: string | null
+): Promise<ProductionPlanItem[]> {
+  const supabase = await createServer();
+
+  try {
+    const user = await requireAuth();
+    const scopeBranchId = branchId === undefined ? user.branch_id : branchId;
+
+    let query = supabase
+      .from('production_plans')
+      .select('bread_type_id, planned_quantity')
+      .eq('plan_date', planDate)
+      .eq('shift', shift);
+
+    if (scopeBranchId) {
+      query = query.eq('branch_id', scopeBranchId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const totals = new Map<string, number>();
+    (data || []).forEach(row => {
+      totals.set(row.bread_type_id, (totals.get(row.bread_type_id) || 0) + row.planned_quantity);
+    });
+
+    return Array.from(totals, ([bread_type_id, planned_quantity]) => ({ bread_type_id, planned_quantity }));
+  } catch (error) {
+    console.error('Error fetching production plan:', error);
+    return [];
+  }
+}
+
+/**
+ * Replace the plan for a date and shift. Items with a zero quantity are removed.
+ * Managers always plan for their own branch; owners must pick one.
+ */
+export async function saveProductionPlan(input: unknown): Promise<ActionResult> {
+  try {
+    const user = await requirePermission('production.plan');
+
+    const parsed = productionPlanSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const { plan_date, shift, items } = parsed.data;
+    const branchId = user.branch_id ?? parsed.data.branch_id;
+    if (!branchId) {
+      return { success: false, error: 'Choose a branch for this plan' };
+    }
+
+    const shiftError = await checkShiftKey(shift, branchId);
+    if (shiftError) {
+      return { success: false, error: shiftError };
+    }
+
+    const supabase = await createServer();
+    const planned = items.filter(item => item.planned_quantity > 0);
+    const cleared = items.filter(item => item.planned_quantity === 0).map(item => item.bread_type_id);
+
+    if (planned.length > 0) {
+      const { error } = await supabase
+        .from('production_plans')
+        .upsert(
+          planned.map(item => ({
+            branch_id: branchId,
+            plan_date,
+            shift,
+            bread_type_id: item.bread_type_id,
+            planned_quantity: item.planned_quantity,
+            created_by: user.id,
+            updated_at: new Date().toISOString(),
+          })),
+          { onConflict: 'branch_id,plan_date,shift,bread_type_id' }
+        );
+
+      if (error) {
+        console.error('Error saving production plan:', error);
+        return { success: false, error: 'Failed to save production plan' };
+      }
+    }
+
+    if (cleared.length > 0) {
+      const { error } = await supabase
+        .from('production_plans')
+        .delete()
+        .eq('branch_id', branchId)
+        .eq('plan_date', plan_date)
+        .eq('shift', shift)
+        .in('bread_type_id', cleared);
+
+      if (error) {
+        console.error('Error clearing production plan items:', error);
+        return { success: false, error: 'Failed to update production plan' };
+      }
+    }
+
+    console.log(`✅ Production plan saved for ${plan_date} ${shift} shift (${planned.length} items)`);
+    revalidatePath('/dashboard/production/plan');
+    return { success: true };
+  } catch (error) {
+    console.error('Error in saveProductionPlan:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save production plan' };
+  }
+}
+
+function toVarianceRow(key: string, label: string, planned: number, actual: number, batches: number): ProductionVarianceRow {
+  return {
+    key,
+    label,
+    planned,
+    actual,
+    variance: actual - planned,
+    yieldPercent: planned > 0 ? (actual / planned) * 100 : null,
+    batches,
+  };
+}
+
+function groupByTarget(
+  batches: VarianceBatch[],
+  keyOf: (batch: VarianceBatch) => [string, string]
+): ProductionVarianceRow[] {
+  const groups = new Map<string, { label: string; planned: number; actual: number; batches: number }>();
+  batches.forEach(batch => {
+    if (batch.target === null) return;
+    const [key, label] = keyOf(batch);
+    const group = groups.get(key) || { label, planned: 0, actual: 0, batches: 0 };
+    group.planned += batch.target;
+    group.actual += batch.actual;
+    group.batches += 1;
+    groups.set(key, group);
+  });
+
+  return Array.from(groups, ([key, group]) => toVarianceRow(key, group.label, group.planned, group.actual, group.batches));
+}
+
+/**
+ * Planned vs actual production over a date range from completed batches.
+ * Yield compares each batch's output to its target; managers only see their own batches.
+ * Plan attainment compares the daily plans to everything the branch produced in that shift.
+ */
+export async function getProductionVariance(filters: {
+  startDate: string;
+  endDate: string;
+  shift?: ShiftType;
+  branchId?: string | null;
+}): Promise<ProductionVarianceReport> {
+  const empty: ProductionVarianceReport = { byBreadType: [], byManager: [], byShift: [], byDate: [], planAttainment: [] };
+  const supabase = await createServer();
+
+  try {
+    const user = await requirePermission('reports.view');
+    const branchId = user.branch_id ?? filters.branchId ?? null;
+    const rangeStart = `${filters.startDate}T00:00:00.000Z`;
+    const rangeEnd = `${filters.endDate}T23:59:59.999Z`;
+    const columns = `
+      id, bread_type_id, shift, created_by, start_time, actual_quantity, target_quantity,
+      bread_types ( name ),
+      users ( name )
+    `;
+
+    let activeQuery = supabase
+      .from('batches')
+      .select(columns)
+      .eq('status', 'completed')
+      .gte('start_time', rangeStart)
+      .lte('start_time', rangeEnd);
+    let archivedQuery = supabase
+      .from('all_batches')
+      .select(columns)
+      .eq('status', 'completed')
+      .gte('start_time', rangeStart)
+      .lte('start_time', rangeEnd);
+    let plansQuery = supabase
+      .from('production_plans')
+      .select('plan_date, shift, bread_type_id, planned_quantity')
+      .gte('plan_date', filters.startDate)
+      .lte('plan_date', filters.endDate);
+
+    if (filters.shift) {
+      activeQuery = activeQuery.eq('shift', filters.shift);
+      archivedQuery = archivedQuery.eq('shift', filters.shift);
+      plansQuery = plansQuery.eq('shift', filters.shift);
+    }
+    if (branchId) {
+      activeQuery = activeQuery.eq('branch_id', branchId);
+      archivedQuery = archivedQuery.eq('branch_id', branchId);
+      plansQuery = plansQuery.eq('branch_id', branchId);
+    }
+
+    const [
+      { data: active, error: activeError },
+      { data: archived, error: archivedError },
+      { data: plans, error: plansError },
+    ] = await Promise.all([activeQuery, archivedQuery, plansQuery]);
+
+    if (activeError || archivedError || plansError) {
+      throw activeError || archivedError || plansError;
+    }
+
+    // Batches are copied to all_batches at the end of a shift; count each once
+    const batchesById = new Map<string, VarianceBatch>();
+    [...(archived || []), ...(active || [])].forEach(batch => {
+      if (batchesById.has(batch.id) || !batch.start_time) return;
+      batchesById.set(batch.id, {
+        id: batch.id,
+        bread_type_id: batch.bread_type_id,
+        bread_type_name: batch.bread_types?.name || 'Unknown',
+        created_by: batch.created_by,
+        manager_name: batch.users?.name || 'Unknown',
+        shift: batch.shift as ShiftType,
+        date: batch.start_time.split('T')[0],
+        actual: batch.actual_quantity || 0,
+        target: batch.target_quantity,
+      });
+    });
+
+    const branchBatches = Array.from(batchesById.values());
+    const ownBatches = user.role === 'manager'
+      ? branchBatches.filter(batch => batch.created_by === user.id)
+      : branchBatches;
+
+    const byDate = groupByTarget(ownBatches, batch => [batch.date, batch.date])
+      .sort((a, b) => a.key.localeCompare(b.key));
+
+    // Plan attainment per date and shift
+    const attainment = new Map<string, { planned: number; actual: number; batches: number }>();
+    (plans || []).forEach(plan => {
+      const key = `${plan.plan_date}:${plan.shift}`;
+      const group = attainment.get(key) || { planned: 0, actual: 0, batches: 0 };
+      group.planned += plan.planned_quantity;
+      attainment.set(key, group);
+    });
+    branchBatches.forEach(batch => {
+      const group = attainment.get(`${batch.date}:${batch.shift}`);
+      if (!group) return;
+      group.actual += batch.actual;
+      group.batches += 1;
+    });
+
+    const planAttainment = Array.from(attainment, ([key, group]) => {
+      const [date, shift] = key.split(':');
+      return toVarianceRow(key, `${date} • ${SHIFT_LABELS[shift as ShiftType]}`, group.planned, group.actual, group.batches);
+    }).sort((a, b) => b.key.localeCompare(a.key));
+
+    return {
+      byBreadType: groupByTarget(ownBatches, batch => [batch.bread_type_id, batch.bread_type_name])
+        .sort((a, b) => b.planned - a.planned),
+      byManager: groupByTarget(ownBatches, batch => [batch.created_by, batch.manager_name])
+        .sort((a, b) => a.label.localeCompare(b.label)),
+      byShift: groupByTarget(ownBatches, batch => [batch.shift, SHIFT_LABELS[batch.shift]]),
+      byDate,
+      planAttainment,
+    };
+  } catch (error) {
+    console.error('Error fetching production variance:', error);
+    return empty;
+  }
+}
@@ -0,0 +1,187 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createServer } from '@/lib/supabase/server';
+import { requireAuth, requirePermission } from '@/lib/auth/auth-utils';
+import { checkShiftKey } from '@/lib/shift-schedule/actions';
+import { promotionSchema, formatValidationError } from '@/lib/validations';
+import type { Json } from '@/types/supabase';
+import type { ShiftType } from '@/types';
+import type { PriceTier, Promotion, PromotionKind } from './evaluate';
+
+type ActionResult = { success: boolean; error?: string };
+
+const PROMOTION_COLUMNS = `
+  id, branch_id, name, kind, bread_type_id, buy_quantity, free_quantity,
+  percent_off, tiers, shift, start_time, end_time, valid_from, valid_to, is_active
+`;
+
+type PromotionRow = {
+  id: string;
+  branch_id: string | null;
+  name: string;
+  kind: string;
+  bread_type_id: string | null;
+  buy_quantity: number | null;
+  free_quantity: number | null;
+  percent_off: number | null;
+  tiers: Json;
+  shift: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  valid_from: string | null;
+  valid_to: string | null;
+  is_active: boolean;
+};
+
+function toPromotion(row: PromotionRow): Promotion {
+  const tiers = Array.isArray(row.tiers) ? (row.tiers as unknown as PriceTier[]) : [];
+  return {
+    ...row,
+    kind: row.kind as PromotionKind,
+    percent_off: row.percent_off === null ? null : Number(row.percent_off),
+    tiers: tiers.map(tier => ({ min_quantity: Number(tier.min_quantity), unit_price: Number(tier.unit_price) })),
+    shift: row.shift as ShiftType | null,
+    // Postgres time comes back as HH:mm:ss
+    start_time: row.start_time?.slice(0, 5) ?? null,
+    end_time: row.end_time?.slice(0, 5) ?? null,
+  };
+}
+
+/**
+ * Every promotion the user can manage, running ones first
+ */
+export async function getPromotions(): Promise<Promotion[]> {
+  try {
+    await requirePermission('promotions.manage');
+    const supabase = await createServer();
+
+    const { data, error } = await supabase
+      .from('promotions')
+      .select(PROMOTION_COLUMNS)
+      .order('is_active', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toPromotion);
+  } catch (error) {
+    console.error('Error fetching promotions:', error);
+    return [];
+  }
+}
+
+/**
+ * Switched-on promotions for the user's branch, including those for every
+ * branch. Whether one applies to a sale is decided by the evaluator.
+ */
+export async function getActivePromotions(): Promise<Promotion[]> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServer();
+
+    let query = supabase
+      .from('promotions')
+      .select(PROMOTION_COLUMNS)
+      .eq('is_active', true);
+    query = user.branch_id
+      ? query.or(`branch_id.is.null,branch_id.eq.${user.branch_id}`)
+      : query.is('branch_id', null);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(toPromotion);
+  } catch (error) {
+    console.error('Error fetching active promotions:', error);
+    return [];
+  }
+}
+
+/**
+ * Create a promotion, or update it when an id is given. Managers granted
+ * promotions.manage only set up promotions for their own branch.
+ */
+export async function savePromotion(input: unknown): Promise<ActionResult> {
+  try {
+    const user = await requirePermission('promotions.manage');
+
+    const parsed = promotionSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const { id, ...promotion } = parsed.data;
+    const branchId = user.role === 'owner' ? promotion.branch_id ?? null : user.branch_id;
+
+    if (promotion.shift) {
+      const shiftError = await checkShiftKey(promotion.shift, branchId);
+      if (shiftError) {
+        return { success: false, error: shiftError };
+      }
+    }
+
+    const isPercent = promotion.kind === 'percent_off' || promotion.kind === 'clearance';
+    const row = {
+      name: promotion.name,
+      kind: promotion.kind,
+      branch_id: branchId,
+      bread_type_id: promotion.bread_type_id ?? null,
+      // Only keep the settings the kind uses
+      buy_quantity: promotion.kind === 'buy_x_get_y' ? promotion.buy_quantity ?? null : null,
+      free_quantity: promotion.kind === 'buy_x_get_y' ? promotion.free_quantity ?? null : null,
+      percent_off: isPercent ? promotion.percent_off ?? null : null,
+      tiers: promotion.kind === 'bulk_tier'
+        ? [...promotion.tiers].sort((a, b) => a.min_quantity - b.min_quantity)
+        : [],
+      shift: promotion.shift ?? null,
+      start_time: promotion.start_time ?? null,
+      end_time: promotion.end_time ?? null,
+      valid_from: promotion.valid_from ?? null,
+      valid_to: promotion.valid_to ?? null,
+      is_active: promotion.is_active,
+      updated_at: new Date().toISOString(),
+    };
+
+    const supabase = await createServer();
+    const { error } = id
+      ? await supabase.from('promotions').update(row).eq('id', id)
+      : await supabase.from('promotions').insert({ ...row, created_by: user.id });
+
+    if (error) {
+      console.error('Error saving promotion:', error);
+      return { success: false, error: 'Failed to save the promotion' };
+    }
+
+    revalidatePath('/owner-dashboard/settings/promotions');
+    return { success: true };
+  } catch (error) {
+    console.error('Error in savePromotion:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save the promotion' };
+  }
+}
+
+/**
+ * Switch a promotion on or off. Promotions are never deleted so past sales
+ * keep the promotion they were priced with.
+ */
+export async function setPromotionActive(id: string, isActive: boolean): Promise<ActionResult> {
+  try {
+    await requirePermission('promotions.manage');
+    const supabase = await createServer();
+
+    const { error } = await supabase
+      .from('promotions')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating promotion:', error);
+      return { success: false, error: 'Failed to update the promotion' };
+    }
+
+    revalidatePath('/owner-dashboard/settings/promotions');
+    return { success: true };
+  } catch (error) {
+    console.error('Error in setPromotionActive:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to update the promotion' };
+  }
+}
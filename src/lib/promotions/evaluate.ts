@@ -0,0 +1,155 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import type { ShiftType } from '@/types';
+
+export type PromotionKind = 'buy_x_get_y' | 'percent_off' | 'bulk_tier' | 'clearance';
+
+export const PROMOTION_KINDS: Record<PromotionKind, { label: string; description: string }> = {
+  buy_x_get_y: { label: 'Buy N get free', description: 'Every N loaves bought, some more are free' },
+  percent_off: { label: 'Percentage off', description: 'A percentage off every loaf' },
+  bulk_tier: { label: 'Bulk price', description: 'A lower loaf price from a quantity upwards' },
+  clearance: { label: 'Clearance', description: 'A percentage off at a time of day, for leftovers' },
+};
+
+export interface PriceTier {
+  min_quantity: number;
+  unit_price: number;
+}
+
+export interface Promotion {
+  id: string;
+  branch_id: string | null;
+  name: string;
+  kind: PromotionKind;
+  bread_type_id: string | null;
+  buy_quantity: number | null;
+  free_quantity: number | null;
+  percent_off: number | null;
+  tiers: PriceTier[];
+  shift: ShiftType | null;
+  start_time: string | null; // 'HH:mm' in the bakery timezone
+  end_time: string | null;
+  valid_from: string | null; // 'yyyy-MM-dd'
+  valid_to: string | null;
+  is_active: boolean;
+}
+
+export interface PromotionSale {
+  bread_type_id: string;
+  quantity: number;
+  unit_price: number;
+  shift: ShiftType;
+  at: Date;
+  timeZone: string;
+}
+
+export interface AppliedPromotion {
+  promotion: Promotion;
+  discount: number;
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Discount a promotion gives on a quantity of loaves, never more than the
+ * sale itself
+ */
+export function promotionDiscount(promotion: Promotion, quantity: number, unitPrice: number): number {
+  if (quantity <= 0 || unitPrice <= 0) return 0;
+  let discount = 0;
+
+  switch (promotion.kind) {
+    case 'buy_x_get_y': {
+      const buy = promotion.buy_quantity ?? 0;
+      const free = promotion.free_quantity ?? 0;
+      if (buy > 0 && free > 0) {
+        discount = Math.floor(quantity / (buy + free)) * free * unitPrice;
+      }
+      break;
+    }
+    case 'percent_off':
+    case 'clearance':
+      discount = quantity * unitPrice * (promotion.percent_off ?? 0) / 100;
+      break;
+    case 'bulk_tier': {
+      const tier = promotion.tiers
+        .filter(candidate => quantity >= candidate.min_quantity)
+        .sort((a, b) => b.min_quantity - a.min_quantity)[0];
+      if (tier) {
+        discount = quantity * Math.max(unitPrice - tier.unit_price, 0);
+      }
+      break;
+    }
+  }
+
+  return Math.round(Math.min(discount, quantity * unitPrice) * 100) / 100;
+}
+
+/**
+ * Whether a promotion runs for this bread type, shift and moment. Dates and
+ * times are read in the bakery timezone.
+ */
+export function isPromotionLive(
+  promotion: Promotion,
+  sale: Pick<PromotionSale, 'bread_type_id' | 'shift' | 'at' | 'timeZone'>
+): boolean {
+  if (!promotion.is_active) return false;
+  if (promotion.bread_type_id && promotion.bread_type_id !== sale.bread_type_id) return false;
+  if (promotion.shift && promotion.shift !== sale.shift) return false;
+
+  const date = formatInTimeZone(sale.at, sale.timeZone, 'yyyy-MM-dd');
+  if (promotion.valid_from && date < promotion.valid_from) return false;
+  if (promotion.valid_to && date > promotion.valid_to) return false;
+
+  if (promotion.start_time && promotion.end_time) {
+    const now = minutesOf(formatInTimeZone(sale.at, sale.timeZone, 'HH:mm'));
+    const start = minutesOf(promotion.start_time);
+    const end = minutesOf(promotion.end_time);
+    const inWindow = start <= end
+      ? now >= start && now < end
+      // Runs past midnight, e.g. 21:00–02:00
+      : now >= start || now < end;
+    if (!inWindow) return false;
+  }
+
+  return true;
+}
+
+/**
+ * The live promotion that takes the most off this sale. Promotions don't
+ * stack; null when none of them give anything.
+ */
+export function bestPromotion(promotions: Promotion[], sale: PromotionSale): AppliedPromotion | null {
+  let best: AppliedPromotion | null = null;
+
+  promotions.forEach(promotion => {
+    if (!isPromotionLive(promotion, sale)) return;
+    const discount = promotionDiscount(promotion, sale.quantity, sale.unit_price);
+    if (discount > 0 && (!best || discount > best.discount)) {
+      best = { promotion, discount };
+    }
+  });
+
+  return best;
+}
+
+/**
+ * One-line summary of what a promotion gives, e.g. "Buy 5 get 1 free"
+ */
+export function describePromotion(promotion: Promotion): string {
+  switch (promotion.kind) {
+    case 'buy_x_get_y':
+      return `Buy ${promotion.buy_quantity} get ${promotion.free_quantity} free`;
+    case 'percent_off':
+      return `${promotion.percent_off}% off`;
+    case 'bulk_tier':
+      return [...promotion.tiers]
+        .sort((a, b) => a.min_quantity - b.min_quantity)
+        .map(tier => `${tier.min_quantity}+ at ₦${tier.unit_price.toLocaleString()}`)
+        .join(', ');
+    case 'clearance':
+      return `${promotion.percent_off}% off ${promotion.start_time}–${promotion.end_time}`;
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Notification digests
+ *
+ * Recipients on a digest cadence get one summary push per window instead
+ * of one push per activity ("12 sales, ₦48,500 in the last 30 minutes,
+ * top item: Agege"). Low-stock alerts are never held back.
+ *
+ * Everything here is pure (no Supabase, no web-push).
+ */
+
+import { formatCurrencyNGN } from '@/lib/utils/currency';
+
+export const DIGEST_CADENCES: Array<{ minutes: number; label: string }> = [
+  { minutes: 15, label: 'Every 15 minutes' },
+  { minutes: 30, label: 'Every 30 minutes' },
+  { minutes: 60, label: 'Every hour' },
+  { minutes: 120, label: 'Every 2 hours' },
+  { minutes: 240, label: 'Every 4 hours' },
+];
+
+export const DIGEST_MINUTES = DIGEST_CADENCES.map(cadence => cadence.minutes);
+
+// Sent straight away even when the recipient is on a digest
+export const IMMEDIATE_ACTIVITY_TYPES = ['low_stock'];
+
+export const OUTBOX_MAX_ATTEMPTS = 5;
+
+export interface DigestItem {
+  activity_type: string;
+  message: string;
+  bread_type: string | null;
+  quantity: number | null;
+  revenue: number | null;
+  created_at: string;
+}
+
+export interface DigestSummary {
+  title: string;
+  body: string;
+}
+
+const plural = (count: number, singular: string, pluralForm = `${singular}s`) =>
+  `${count} ${count === 1 ? singular : pluralForm}`;
+
+const ACTIVITY_NOUNS: Record<string, [string, string]> = {
+  sale: ['sale', 'sales'],
+  batch: ['batch', 'batches'],
+  report: ['report', 'reports'],
+  login: ['login', 'logins'],
+  end_shift: ['shift end', 'shift ends'],
+  created: ['new staff member', 'new staff members'],
+  low_stock: ['low-stock alert', 'low-stock alerts'],
+};
+
+export function shouldDigest(digestMinutes: number | null, activityType: string): boolean {
+  return digestMinutes !== null && digestMinutes > 0 && !IMMEDIATE_ACTIVITY_TYPES.includes(activityType);
+}
+
+/**
+ * When a digest item goes out: with the recipient's open digest if one is
+ * already waiting, otherwise at the end of a new window starting now
+ */
+export function digestDeliverAt(openDigestAt: string | null, now: Date, digestMinutes: number): string {
+  if (openDigestAt && new Date(openDigestAt) > now) return openDigestAt;
+  return new Date(now.getTime() + digestMinutes * 60 * 1000).toISOString();
+}
+
+/**
+ * Back-off before retrying a push that failed: 5, 10, 20, 40 minutes
+ */
+export function retryDelayMinutes(attempts: number): number {
+  return 5 * Math.pow(2, Math.max(attempts - 1, 0));
+}
+
+const windowLabel = (minutes: number) => {
+  if (minutes < 60) return `${minutes} minutes`;
+  return minutes === 60 ? 'hour' : `${minutes / 60} hours`;
+};
+
+/**
+ * One push for everything that happened in a window. Sales lead with their
+ * count, revenue and best seller; other activity is counted after.
+ */
+export function summarizeDigest(items: DigestItem[], windowMinutes: number): DigestSummary {
+  const sales = items.filter(item => item.activity_type === 'sale');
+  const others = items.filter(item => item.activity_type !== 'sale');
+  const parts: string[] = [];
+
+  if (sales.length > 0) {
+    const revenue = sales.reduce((sum, sale) => sum + (sale.revenue ?? 0), 0);
+    const loavesByBread = new Map<string, number>();
+    sales.forEach(sale => {
+      if (!sale.bread_type) return;
+      loavesByBread.set(sale.bread_type, (loavesByBread.get(sale.bread_type) || 0) + (sale.quantity ?? 0));
+    });
+    const topItem = Array.from(loavesByBread.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+
+    parts.push(`${plural(sales.length, 'sale')}, ${formatCurrencyNGN(revenue)}`);
+    if (topItem) parts.push(`top item: ${topItem}`);
+  }
+
+  const counts = new Map<string, number>();
+  others.forEach(item => counts.set(item.activity_type, (counts.get(item.activity_type) || 0) + 1));
+  counts.forEach((count, activityType) => {
+    const [singular, pluralForm] = ACTIVITY_NOUNS[activityType] ?? ['update', 'updates'];
+    parts.push(plural(count, singular, pluralForm));
+  });
+
+  const window = `in the last ${windowLabel(windowMinutes)}`;
+  if (items.length === 1) {
+    return { title: '🔔 HomeBake Digest', body: items[0].message };
+  }
+  return {
+    title: '🔔 HomeBake Digest',
+    body: sales.length > 0 && parts.length > 0
+      ? `${parts[0]} ${window}${parts.length > 1 ? `, ${parts.slice(1).join(', ')}` : ''}`
+      : `${parts.join(', ')} ${window}`,
+  };
+}
@@ -1,10 +1,16 @@
 'use server';
 
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import type { Database } from '@/types/supabase';
+
 /**
- * Production-grade monitoring and retry system for push notifications
- * Provides comprehensive error handling, retry logic, and health monitoring
+ * Monitoring for push notification delivery
+ * Reads the notification outbox, so attempts, retries and failures are
+ * reported across server restarts
  */
 
+type OutboxRow = Database['public']['Tables']['notification_outbox']['Row'];
+
 interface NotificationAttempt {
   id: string;
   activity_type: string;
@@ -18,18 +24,12 @@ interface NotificationAttempt {
   updated_at: Date;
 }
 
-interface RetryConfig {
-  maxAttempts: number;
-  baseDelay: number; // milliseconds
-  maxDelay: number; // milliseconds
-  exponentialBackoff: boolean;
-}
-
 interface MonitoringMetrics {
   total_attempts: number;
   successful_attempts: number;
   failed_attempts: number;
   abandoned_attempts: number;
+  queued_digests: number;
   success_rate: number;
   average_retry_count: number;
   last_24h_volume: number;
@@ -37,184 +37,108 @@ interface MonitoringMetrics {
   last_updated: Date;
 }
 
-// In-memory storage for notification attempts (in production, use Redis or database)
-const notificationAttempts = new Map<string, NotificationAttempt>();
-const metrics: MonitoringMetrics = {
-  total_attempts: 0,
-  successful_attempts: 0,
-  failed_attempts: 0,
-  abandoned_attempts: 0,
-  success_rate: 0,
-  average_retry_count: 0,
-  last_24h_volume: 0,
-  health_status: 'healthy',
-  last_updated: new Date()
-};
+// Sent is a success, given up is abandoned, and a pending row that has
+// already been tried is a failure still being retried
+function toAttempt(row: OutboxRow): NotificationAttempt {
+  let status: NotificationAttempt['status'] = 'pending';
+  if (row.status === 'sent') status = 'success';
+  else if (row.status === 'failed') status = 'abandoned';
+  else if (row.attempts > 0) status = 'failed';
 
-const DEFAULT_RETRY_CONFIG: RetryConfig = {
-  maxAttempts: 3,
-  baseDelay: 1000, // 1 second
-  maxDelay: 30000, // 30 seconds
-  exponentialBackoff: true
-};
-
-/**
- * Enhanced retry mechanism with exponential backoff
- */
-export async function withRetry<T>(
-  operation: () => Promise<T>,
-  config: Partial<RetryConfig> = {},
-  context: { activity_type: string; user_name: string; message: string } = {
-    activity_type: 'unknown',
-    user_name: 'unknown',
-    message: 'unknown operation'
-  }
-): Promise<T> {
-  const fullConfig = { ...DEFAULT_RETRY_CONFIG, ...config };
-  const attemptId = `${context.activity_type}_${context.user_name}_${Date.now()}`;
-  
-  // Track attempt
-  const attempt: NotificationAttempt = {
-    id: attemptId,
-    activity_type: context.activity_type,
-    user_name: context.user_name,
-    message: context.message,
-    attempt: 0,
-    max_attempts: fullConfig.maxAttempts,
-    status: 'pending',
-    created_at: new Date(),
-    updated_at: new Date()
+  return {
+    id: row.id,
+    activity_type: row.activity_type,
+    user_name: row.actor_name || 'unknown',
+    message: row.message,
+    attempt: row.attempts,
+    max_attempts: row.max_attempts,
+    status,
+    last_error: row.last_error ?? undefined,
+    created_at: new Date(row.created_at ?? row.updated_at ?? Date.now()),
+    updated_at: new Date(row.updated_at ?? row.created_at ?? Date.now()),
   };
-  
-  notificationAttempts.set(attemptId, attempt);
-  metrics.total_attempts++;
-  
-  let lastError: Error;
-  
-  for (let attemptNumber = 1; attemptNumber <= fullConfig.maxAttempts; attemptNumber++) {
-    try {
-      attempt.attempt = attemptNumber;
-      attempt.updated_at = new Date();
-      
-      console.log(`🔄 Attempt ${attemptNumber}/${fullConfig.maxAttempts} for ${context.activity_type} notification`);
-      
-      const result = await operation();
-      
-      // Success!
-      attempt.status = 'success';
-      attempt.updated_at = new Date();
-      metrics.successful_attempts++;
-      updateHealthMetrics();
-      
-      console.log(`✅ Notification attempt succeeded on try ${attemptNumber}`);
-      return result;
-      
-    } catch (error) {
-      lastError = error as Error;
-      attempt.last_error = lastError.message;
-      attempt.updated_at = new Date();
-      
-      console.warn(`❌ Attempt ${attemptNumber} failed:`, lastError.message);
-      
-      // If this was the last attempt, mark as failed
-      if (attemptNumber === fullConfig.maxAttempts) {
-        attempt.status = 'abandoned';
-        metrics.abandoned_attempts++;
-        updateHealthMetrics();
-        break;
-      }
-      
-      // Calculate delay for next attempt
-      let delay = fullConfig.baseDelay;
-      if (fullConfig.exponentialBackoff) {
-        delay = Math.min(
-          fullConfig.baseDelay * Math.pow(2, attemptNumber - 1),
-          fullConfig.maxDelay
-        );
-      }
-      
-      // Add jitter to prevent thundering herd
-      const jitter = Math.random() * 0.3 * delay;
-      const finalDelay = delay + jitter;
-      
-      console.log(`⏳ Waiting ${Math.round(finalDelay)}ms before retry...`);
-      await new Promise(resolve => setTimeout(resolve, finalDelay));
-    }
-  }
-  
-  metrics.failed_attempts++;
-  updateHealthMetrics();
-  
-  // All attempts exhausted
-  console.error(`💥 All ${fullConfig.maxAttempts} attempts failed for ${context.activity_type} notification`);
-  throw lastError!;
 }
 
-/**
- * Update health metrics based on recent performance
- */
-function updateHealthMetrics(): void {
-  const total = metrics.successful_attempts + metrics.failed_attempts + metrics.abandoned_attempts;
-  
-  if (total > 0) {
-    metrics.success_rate = (metrics.successful_attempts / total) * 100;
-    
-    // Calculate average retry count
-    const attempts = Array.from(notificationAttempts.values());
-    const totalRetries = attempts.reduce((sum, attempt) => sum + attempt.attempt, 0);
-    metrics.average_retry_count = attempts.length > 0 ? totalRetries / attempts.length : 0;
-    
-    // Determine health status
-    if (metrics.success_rate >= 95) {
-      metrics.health_status = 'healthy';
-    } else if (metrics.success_rate >= 80) {
-      metrics.health_status = 'degraded';
-    } else {
-      metrics.health_status = 'critical';
-    }
-  }
-  
-  metrics.last_updated = new Date();
+const healthOf = (successRate: number): MonitoringMetrics['health_status'] => {
+  if (successRate >= 95) return 'healthy';
+  if (successRate >= 80) return 'degraded';
+  return 'critical';
+};
+
+async function recentOutboxRows(since: Date): Promise<OutboxRow[]> {
+  const supabase = createServiceRoleClient();
+  const { data, error } = await supabase
+    .from('notification_outbox')
+    .select('*')
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
 }
 
 /**
- * Get current monitoring metrics
+ * Delivery metrics for the last 24 hours of the outbox
  */
 export async function getNotificationMetrics(): Promise<MonitoringMetrics> {
-  // Calculate last 24h volume
-  const last24h = new Date(Date.now() - 24 * 60 * 60 * 1000);
-  const recentAttempts = Array.from(notificationAttempts.values())
-    .filter(attempt => attempt.created_at > last24h);
-  
-  metrics.last_24h_volume = recentAttempts.length;
-  
-  return { ...metrics };
+  const rows = await recentOutboxRows(new Date(Date.now() - 24 * 60 * 60 * 1000));
+  const attempts = rows.map(toAttempt);
+  const tried = attempts.filter(attempt => attempt.attempt > 0);
+
+  const successful = attempts.filter(attempt => attempt.status === 'success').length;
+  const failed = attempts.filter(attempt => attempt.status === 'failed').length;
+  const abandoned = attempts.filter(attempt => attempt.status === 'abandoned').length;
+  const resolved = successful + failed + abandoned;
+  const successRate = resolved > 0 ? (successful / resolved) * 100 : 100;
+
+  return {
+    total_attempts: tried.reduce((sum, attempt) => sum + attempt.attempt, 0),
+    successful_attempts: successful,
+    failed_attempts: failed,
+    abandoned_attempts: abandoned,
+    queued_digests: rows.filter(row => row.status === 'pending' && row.digest_minutes !== null && row.attempts === 0).length,
+    success_rate: successRate,
+    average_retry_count: tried.length > 0
+      ? tried.reduce((sum, attempt) => sum + attempt.attempt, 0) / tried.length
+      : 0,
+    last_24h_volume: rows.length,
+    health_status: healthOf(successRate),
+    last_updated: new Date()
+  };
 }
 
 /**
- * Get failed attempts for debugging
+ * Pushes still being retried or given up on, newest first
  */
 export async function getFailedAttempts(): Promise<NotificationAttempt[]> {
-  return Array.from(notificationAttempts.values())
-    .filter(attempt => attempt.status === 'failed' || attempt.status === 'abandoned')
-    .sort((a, b) => b.updated_at.getTime() - a.updated_at.getTime());
+  const supabase = createServiceRoleClient();
+  const { data, error } = await supabase
+    .from('notification_outbox')
+    .select('*')
+    .or('status.eq.failed,and(status.eq.pending,attempts.gt.0)')
+    .order('updated_at', { ascending: false })
+    .limit(200);
+  if (error) throw error;
+
+  return (data || []).map(toAttempt);
 }
 
 /**
- * Clear old attempts to prevent memory leaks
- * In production, this would be handled by database TTL or scheduled cleanup
+ * Delete sent and abandoned outbox rows older than the threshold. Pending
+ * rows are never removed.
  */
 export async function cleanupOldAttempts(olderThanHours: number = 24): Promise<number> {
   const cutoff = new Date(Date.now() - olderThanHours * 60 * 60 * 1000);
-  let cleaned = 0;
-  
-  for (const [id, attempt] of notificationAttempts.entries()) {
-    if (attempt.updated_at < cutoff) {
-      notificationAttempts.delete(id);
-      cleaned++;
-    }
-  }
-  
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase
+    .from('notification_outbox')
+    .delete()
+    .in('status', ['sent', 'failed'])
+    .lt('updated_at', cutoff.toISOString())
+    .select('id');
+  if (error) throw error;
+
+  const cleaned = data?.length ?? 0;
   console.log(`🧹 Cleaned up ${cleaned} old notification attempts`);
   return cleaned;
 }
@@ -318,27 +242,44 @@ export async function performHealthCheck(): Promise<{
   }
   
   // Check VAPID configuration
-  const vapidConfigured = !!(process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY);
+  const vapidConfigured = !!(process.env.NEXT_PUBLIC_VAPID_KEY && process.env.VAPID_PRIVATE_KEY);
   if (!vapidConfigured) {
     recommendations.push('VAPID keys are not configured');
   }
   
-  // Database connection check would go here
-  const databaseConnection = true; // Placeholder
-  
-  // Get current metrics
-  const currentMetrics = getNotificationMetrics();
+  // The outbox doubles as the database check
+  let databaseConnection = true;
+  let currentMetrics: MonitoringMetrics;
+  let recentAttempts: NotificationAttempt[] = [];
+  try {
+    currentMetrics = await getNotificationMetrics();
+    recentAttempts = (await recentOutboxRows(new Date(Date.now() - 24 * 60 * 60 * 1000)))
+      .map(toAttempt)
+      .filter(attempt => attempt.attempt > 0)
+      .slice(0, 50);
+  } catch {
+    databaseConnection = false;
+    recommendations.push('The notification outbox could not be read');
+    currentMetrics = {
+      total_attempts: 0,
+      successful_attempts: 0,
+      failed_attempts: 0,
+      abandoned_attempts: 0,
+      queued_digests: 0,
+      success_rate: 0,
+      average_retry_count: 0,
+      last_24h_volume: 0,
+      health_status: 'critical',
+      last_updated: new Date()
+    };
+  }
   
   // Calculate recent success rate (last 50 attempts)
-  const recentAttempts = Array.from(notificationAttempts.values())
-    .sort((a, b) => b.created_at.getTime() - a.created_at.getTime())
-    .slice(0, 50);
-  
   const recentSuccesses = recentAttempts.filter(a => a.status === 'success').length;
   const recentSuccessRate = recentAttempts.length > 0 ? (recentSuccesses / recentAttempts.length) * 100 : 100;
   
   // Add recommendations based on metrics
-  if (currentMetrics.success_rate < 90) {
+  if (databaseConnection && currentMetrics.success_rate < 90) {
     recommendations.push(`Success rate is ${currentMetrics.success_rate.toFixed(1)}% - investigate common failure causes`);
   }
   
@@ -349,7 +290,7 @@ export async function performHealthCheck(): Promise<{
   // Determine overall status
   let overallStatus: 'healthy' | 'degraded' | 'critical' = 'healthy';
   
-  if (!apiReachable || !vapidConfigured || recentSuccessRate < 80) {
+  if (!apiReachable || !vapidConfigured || !databaseConnection || recentSuccessRate < 80) {
     overallStatus = 'critical';
   } else if (recentSuccessRate < 95 || currentMetrics.average_retry_count > 1.5) {
     overallStatus = 'degraded';
@@ -0,0 +1,349 @@
+import webpush from 'web-push';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import type { Database, Json } from '@/types/supabase';
+import type { PushRecipient } from './recipients';
+import {
+  OUTBOX_MAX_ATTEMPTS,
+  digestDeliverAt,
+  retryDelayMinutes,
+  shouldDigest,
+  summarizeDigest,
+  type DigestItem,
+} from './digest';
+
+/**
+ * Durable push delivery
+ *
+ * Every push is written to notification_outbox before anything is sent.
+ * Immediate pushes go out straight away; digest pushes wait for the end of
+ * the recipient's window. Failures are retried with back-off by the outbox
+ * job, so nothing is lost when the server restarts. Runs with the service
+ * role: pushes go to other users' subscriptions.
+ */
+
+type OutboxRow = Database['public']['Tables']['notification_outbox']['Row'];
+
+export interface OutboxNotification {
+  activity_type: string;
+  title: string;
+  message: string;
+  url: string;
+  actor_name: string | null;
+  metadata: Record<string, unknown>;
+}
+
+export interface OutboxRunResult {
+  checked: number;
+  sent: number;
+  failed: number;
+}
+
+interface PushPayload {
+  title: string;
+  body: string;
+  activity_type: string;
+  user_name?: string;
+  metadata?: Record<string, unknown>;
+  url: string;
+}
+
+interface WebPushError extends Error {
+  statusCode?: number;
+}
+
+// A claim older than this belongs to a run that stopped mid-send
+const CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+let vapidConfigured = false;
+
+/**
+ * Set the VAPID details once; false when the keys are missing
+ */
+export function configureWebPush(): boolean {
+  if (vapidConfigured) return true;
+
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return false;
+
+  const email = process.env.VAPID_EMAIL?.startsWith('mailto:')
+    ? process.env.VAPID_EMAIL
+    : `mailto:${process.env.VAPID_EMAIL || 'admin@homebake.com'}`;
+  webpush.setVapidDetails(email, publicKey, privateKey);
+  vapidConfigured = true;
+  return true;
+}
+
+/**
+ * Write one outbox row per recipient. Digest rows join the recipient's
+ * open digest, or start a new window. Returns the rows due right now.
+ */
+export async function enqueuePush(
+  supabase: SupabaseClient<Database>,
+  recipients: PushRecipient[],
+  notification: OutboxNotification,
+  now: Date = new Date()
+): Promise<OutboxRow[]> {
+  if (recipients.length === 0) return [];
+
+  const digestUserIds = recipients
+    .filter(recipient => shouldDigest(recipient.digest_minutes, notification.activity_type))
+    .map(recipient => recipient.user_id);
+
+  const openDigests = new Map<string, string>();
+  if (digestUserIds.length > 0) {
+    const { data, error } = await supabase
+      .from('notification_outbox')
+      .select('user_id, deliver_after')
+      .in('user_id', digestUserIds)
+      .eq('status', 'pending')
+      .not('digest_minutes', 'is', null)
+      .gt('deliver_after', now.toISOString())
+      .order('deliver_after', { ascending: true });
+    if (error) throw error;
+
+    (data || []).forEach(row => {
+      if (!openDigests.has(row.user_id)) openDigests.set(row.user_id, row.deliver_after);
+    });
+  }
+
+  const rows = recipients.map(recipient => {
+    const digest = shouldDigest(recipient.digest_minutes, notification.activity_type);
+    return {
+      user_id: recipient.user_id,
+      activity_type: notification.activity_type,
+      title: notification.title,
+      message: notification.message,
+      url: notification.url,
+      actor_name: notification.actor_name,
+      metadata: notification.metadata as Json,
+      digest_minutes: digest ? recipient.digest_minutes : null,
+      max_attempts: OUTBOX_MAX_ATTEMPTS,
+      deliver_after: digest
+        ? digestDeliverAt(openDigests.get(recipient.user_id) ?? null, now, recipient.digest_minutes as number)
+        : now.toISOString(),
+    };
+  });
+
+  const { data: inserted, error } = await supabase
+    .from('notification_outbox')
+    .insert(rows)
+    .select('*');
+  if (error) throw error;
+
+  return (inserted || []).filter(row => row.digest_minutes === null);
+}
+
+async function sendPush(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  payload: PushPayload
+): Promise<{ success: boolean; error?: string; permanent?: boolean }> {
+  const { data: subscription } = await supabase
+    .from('push_notification_preferences')
+    .select('endpoint, p256dh_key, auth_key')
+    .eq('user_id', userId)
+    .eq('enabled', true)
+    .maybeSingle();
+
+  if (!subscription?.endpoint) {
+    return { success: false, error: 'Push notifications are turned off', permanent: true };
+  }
+
+  try {
+    await webpush.sendNotification(
+      {
+        endpoint: subscription.endpoint,
+        keys: { p256dh: subscription.p256dh_key ?? '', auth: subscription.auth_key ?? '' },
+      },
+      JSON.stringify(payload),
+      { TTL: 24 * 60 * 60, urgency: 'normal', topic: `homebake-${payload.activity_type}` }
+    );
+    return { success: true };
+  } catch (error: unknown) {
+    const webPushError = error as WebPushError;
+
+    // The browser dropped the subscription; retrying cannot help
+    if (webPushError.statusCode === 410 || webPushError.statusCode === 404) {
+      await supabase
+        .from('push_notification_preferences')
+        .update({ enabled: false, endpoint: null })
+        .eq('user_id', userId);
+      return { success: false, error: webPushError.message, permanent: true };
+    }
+
+    return { success: false, error: webPushError.message || 'Push failed' };
+  }
+}
+
+async function markSent(supabase: SupabaseClient<Database>, rows: OutboxRow[], digestId: string | null, now: Date) {
+  const { error } = await supabase
+    .from('notification_outbox')
+    .update({
+      status: 'sent',
+      attempts: (rows[0]?.attempts ?? 0) + 1,
+      digest_id: digestId,
+      sent_at: now.toISOString(),
+      last_error: null,
+      updated_at: now.toISOString(),
+    })
+    .in('id', rows.map(row => row.id));
+  if (error) console.error('Error marking notifications sent:', error);
+}
+
+// Give up after max_attempts, otherwise try again after the back-off
+async function markFailed(
+  supabase: SupabaseClient<Database>,
+  rows: OutboxRow[],
+  failure: string,
+  permanent: boolean,
+  now: Date
+) {
+  await Promise.all(rows.map(async row => {
+    const attempts = row.attempts + 1;
+    const abandon = permanent || attempts >= row.max_attempts;
+    const { error } = await supabase
+      .from('notification_outbox')
+      .update({
+        status: abandon ? 'failed' : 'pending',
+        attempts,
+        last_error: failure,
+        deliver_after: abandon
+          ? row.deliver_after
+          : new Date(now.getTime() + retryDelayMinutes(attempts) * 60 * 1000).toISOString(),
+        updated_at: now.toISOString(),
+      })
+      .eq('id', row.id);
+    if (error) console.error('Error recording notification failure:', error);
+  }));
+}
+
+const payloadOf = (row: OutboxRow): PushPayload => ({
+  title: row.title,
+  body: row.message,
+  activity_type: row.activity_type,
+  user_name: row.actor_name ?? undefined,
+  metadata: (row.metadata ?? {}) as Record<string, unknown>,
+  url: row.url || '/owner-dashboard',
+});
+
+const digestItemOf = (row: OutboxRow): DigestItem => {
+  const metadata = (row.metadata ?? {}) as Record<string, unknown>;
+  return {
+    activity_type: row.activity_type,
+    message: row.message,
+    bread_type: typeof metadata.bread_type === 'string' ? metadata.bread_type : null,
+    quantity: typeof metadata.quantity === 'number' ? metadata.quantity : null,
+    revenue: typeof metadata.revenue === 'number' ? metadata.revenue : null,
+    created_at: row.created_at ?? '',
+  };
+};
+
+/**
+ * Move due rows from pending to sending and return the ones this run won.
+ * Rows another run has already claimed, sent or given up on are left out,
+ * so overlapping runs never send the same push twice.
+ */
+async function claimOutboxRows(
+  supabase: SupabaseClient<Database>,
+  rows: OutboxRow[],
+  now: Date
+): Promise<OutboxRow[]> {
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('notification_outbox')
+    .update({ status: 'sending', updated_at: now.toISOString() })
+    .in('id', rows.map(row => row.id))
+    .eq('status', 'pending')
+    .lte('deliver_after', now.toISOString())
+    .select('*');
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Send due outbox rows: one push per immediate row, one summary push per
+ * recipient for their digest rows. Only rows this call manages to claim
+ * are sent.
+ */
+export async function deliverOutboxRows(
+  supabase: SupabaseClient<Database>,
+  rows: OutboxRow[],
+  now: Date = new Date()
+): Promise<OutboxRunResult> {
+  const result: OutboxRunResult = { checked: rows.length, sent: 0, failed: 0 };
+  const claimed = await claimOutboxRows(supabase, rows, now);
+  if (claimed.length === 0) return result;
+
+  const groups: Array<{ rows: OutboxRow[]; payload: PushPayload; digest: boolean }> = [];
+  const digests = new Map<string, OutboxRow[]>();
+
+  claimed.forEach(row => {
+    if (row.digest_minutes === null) {
+      groups.push({ rows: [row], payload: payloadOf(row), digest: false });
+    } else {
+      digests.set(row.user_id, [...(digests.get(row.user_id) || []), row]);
+    }
+  });
+
+  digests.forEach(digestRows => {
+    if (digestRows.length === 1) {
+      groups.push({ rows: digestRows, payload: payloadOf(digestRows[0]), digest: false });
+      return;
+    }
+    const summary = summarizeDigest(digestRows.map(digestItemOf), digestRows[0].digest_minutes as number);
+    groups.push({
+      rows: digestRows,
+      payload: { title: summary.title, body: summary.body, activity_type: 'digest', url: '/owner-dashboard' },
+      digest: true,
+    });
+  });
+
+  for (const group of groups) {
+    const sent = await sendPush(supabase, group.rows[0].user_id, group.payload);
+    if (sent.success) {
+      await markSent(supabase, group.rows, group.digest ? crypto.randomUUID() : null, now);
+      result.sent += group.rows.length;
+    } else {
+      console.error('Failed to send push to user:', group.rows[0].user_id, sent.error);
+      await markFailed(supabase, group.rows, sent.error || 'Push failed', sent.permanent === true, now);
+      result.failed += group.rows.length;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Send everything in the outbox that is due: closed digest windows and
+ * retries whose back-off has passed
+ */
+export async function runNotificationOutbox(now: Date = new Date()): Promise<OutboxRunResult> {
+  if (!configureWebPush()) {
+    throw new Error('Push notifications not configured');
+  }
+
+  const supabase = createServiceRoleClient();
+
+  // Rows a stopped run left in sending go back in the queue
+  const { error: releaseError } = await supabase
+    .from('notification_outbox')
+    .update({ status: 'pending', updated_at: now.toISOString() })
+    .eq('status', 'sending')
+    .lt('updated_at', new Date(now.getTime() - CLAIM_TIMEOUT_MS).toISOString());
+  if (releaseError) throw releaseError;
+
+  const { data, error } = await supabase
+    .from('notification_outbox')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('deliver_after', now.toISOString())
+    .order('created_at', { ascending: true })
+    .limit(500);
+  if (error) throw error;
+
+  return deliverOutboxRows(supabase, data || [], now);
+}
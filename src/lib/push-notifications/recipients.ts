@@ -0,0 +1,133 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { formatInTimeZone } from 'date-fns-tz';
+import type { Database } from '@/types/supabase';
+import type { ShiftType, UserRole } from '@/types';
+import { normalizeShiftSchedule } from '@/lib/shift-schedule/schedule';
+import {
+  routedRoles,
+  wantsNotification,
+  type NotificationActivityType,
+  type NotificationEvent,
+  type NotificationRoute,
+} from './routing';
+
+/**
+ * Working out who a push goes to, for the push API route, which brings a
+ * service-role client
+ */
+
+export interface PushRecipient {
+  user_id: string;
+  endpoint: string;
+  p256dh_key: string;
+  auth_key: string;
+  digest_minutes: number | null;
+}
+
+export interface RecipientRequest extends NotificationEvent {
+  // Whoever caused the activity; they never get their own push
+  actor_id?: string | null;
+  // Explicit recipients take the place of role routing
+  recipient_ids?: string[];
+}
+
+async function bakeryLocalTime(supabase: SupabaseClient<Database>, now: Date): Promise<string> {
+  const { data } = await supabase
+    .from('shift_schedules')
+    .select('timezone')
+    .eq('is_active', true)
+    .is('branch_id', null)
+    .maybeSingle();
+
+  return formatInTimeZone(now, normalizeShiftSchedule(data).timezone, 'HH:mm');
+}
+
+/**
+ * Users the activity is routed to: owners everywhere, other roles only in
+ * the actor's branch
+ */
+async function routedUserIds(supabase: SupabaseClient<Database>, request: RecipientRequest): Promise<string[]> {
+  const { data: routeRows, error: routeError } = await supabase
+    .from('notification_routes')
+    .select('activity_type, roles');
+  if (routeError) throw routeError;
+
+  const routes: NotificationRoute[] = (routeRows || []).map(row => ({
+    activity_type: row.activity_type as NotificationActivityType,
+    roles: row.roles as UserRole[],
+  }));
+  const roles = routedRoles(routes, request.activity_type);
+
+  let branchId: string | null = null;
+  if (request.actor_id && roles.some(role => role !== 'owner')) {
+    const { data: actor } = await supabase
+      .from('users')
+      .select('branch_id')
+      .eq('id', request.actor_id)
+      .maybeSingle();
+    branchId = actor?.branch_id ?? null;
+  }
+
+  const { data: users, error } = await supabase
+    .from('users')
+    .select('id, role, branch_id')
+    .in('role', roles)
+    .neq('is_active', false);
+  if (error) throw error;
+
+  return (users || [])
+    .filter(user => user.role === 'owner' || (branchId !== null && user.branch_id === branchId))
+    .map(user => user.id);
+}
+
+/**
+ * Subscriptions that should get this push: routed (or named) recipients
+ * with push turned on whose preferences let it through right now
+ */
+export async function resolvePushRecipients(
+  supabase: SupabaseClient<Database>,
+  request: RecipientRequest,
+  now: Date = new Date()
+): Promise<PushRecipient[]> {
+  const userIds = request.recipient_ids && request.recipient_ids.length > 0
+    ? request.recipient_ids
+    : await routedUserIds(supabase, request);
+  const candidates = userIds.filter(id => id !== request.actor_id);
+  if (candidates.length === 0) return [];
+
+  const [{ data: subscriptions, error }, localTime] = await Promise.all([
+    supabase
+      .from('push_notification_preferences')
+      .select(`
+        user_id, endpoint, p256dh_key, auth_key,
+        activity_types, shifts, bread_type_ids, min_sale_revenue, quiet_hours_start, quiet_hours_end, digest_minutes
+      `)
+      .in('user_id', candidates)
+      .eq('enabled', true)
+      .not('endpoint', 'is', null),
+    bakeryLocalTime(supabase, now),
+  ]);
+  if (error) throw error;
+
+  return (subscriptions || [])
+    .filter(subscription => wantsNotification(
+      {
+        activity_types: subscription.activity_types,
+        shifts: subscription.shifts as ShiftType[] | null,
+        bread_type_ids: subscription.bread_type_ids,
+        min_sale_revenue: subscription.min_sale_revenue !== null ? Number(subscription.min_sale_revenue) : null,
+        quiet_hours_start: subscription.quiet_hours_start?.slice(0, 5) ?? null,
+        quiet_hours_end: subscription.quiet_hours_end?.slice(0, 5) ?? null,
+        digest_minutes: subscription.digest_minutes,
+      },
+      request,
+      localTime
+    ))
+    .map(subscription => ({
+      user_id: subscription.user_id,
+      endpoint: subscription.endpoint as string,
+      p256dh_key: subscription.p256dh_key ?? '',
+      auth_key: subscription.auth_key ?? '',
+      digest_minutes: subscription.digest_minutes,
+    }));
+}
@@ -0,0 +1,178 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createServer } from '@/lib/supabase/server';
+import { requireAuth } from '@/lib/auth/auth-utils';
+import {
+  notificationPreferencesSchema,
+  notificationRouteSchema,
+  formatValidationError,
+} from '@/lib/validations';
+import type { ShiftType, UserRole } from '@/types';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_ACTIVITY_TYPE_KEYS,
+  routedRoles,
+  type NotificationActivityType,
+  type NotificationPreferences,
+  type NotificationRoute,
+} from './routing';
+
+type ActionResult = { success: boolean; error?: string };
+
+// Postgres hands back 'HH:mm:ss'
+const toTimeOfDay = (time: string | null) => (time ? time.slice(0, 5) : null);
+
+/**
+ * The signed-in user's notification preferences; everything on until
+ * they narrow it down
+ */
+export async function getMyNotificationPreferences(): Promise<NotificationPreferences> {
+  try {
+    const user = await requireAuth();
+    const supabase = await createServer();
+
+    const { data, error } = await supabase
+      .from('push_notification_preferences')
+      .select('activity_types, shifts, bread_type_ids, min_sale_revenue, quiet_hours_start, quiet_hours_end, digest_minutes')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return DEFAULT_NOTIFICATION_PREFERENCES;
+
+    return {
+      activity_types: data.activity_types,
+      shifts: data.shifts as ShiftType[] | null,
+      bread_type_ids: data.bread_type_ids,
+      min_sale_revenue: data.min_sale_revenue !== null ? Number(data.min_sale_revenue) : null,
+      quiet_hours_start: toTimeOfDay(data.quiet_hours_start),
+      quiet_hours_end: toTimeOfDay(data.quiet_hours_end),
+      digest_minutes: data.digest_minutes,
+    };
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    return DEFAULT_NOTIFICATION_PREFERENCES;
+  }
+}
+
+/**
+ * Save the signed-in user's preferences next to their push subscription
+ */
+export async function updateMyNotificationPreferences(input: unknown): Promise<ActionResult> {
+  try {
+    const user = await requireAuth();
+
+    const parsed = notificationPreferencesSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const supabase = await createServer();
+    const { error } = await supabase
+      .from('push_notification_preferences')
+      .upsert(
+        { user_id: user.id, ...parsed.data, updated_at: new Date().toISOString() },
+        { onConflict: 'user_id' }
+      );
+
+    if (error) {
+      console.error('Error saving notification preferences:', error);
+      return { success: false, error: error.message || 'Failed to save notification preferences' };
+    }
+
+    revalidatePath('/owner-dashboard');
+    return { success: true };
+  } catch (error) {
+    console.error('Error in updateMyNotificationPreferences:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save notification preferences' };
+  }
+}
+
+/**
+ * Who hears about each activity type, one entry per type
+ */
+export async function getNotificationRoutes(): Promise<NotificationRoute[]> {
+  try {
+    await requireAuth();
+    const supabase = await createServer();
+
+    const { data, error } = await supabase
+      .from('notification_routes')
+      .select('activity_type, roles');
+
+    if (error) throw error;
+
+    const routes = (data || []).map(row => ({
+      activity_type: row.activity_type as NotificationActivityType,
+      roles: row.roles as UserRole[],
+    }));
+    return NOTIFICATION_ACTIVITY_TYPE_KEYS.map(activityType => ({
+      activity_type: activityType,
+      roles: routedRoles(routes, activityType),
+    }));
+  } catch (error) {
+    console.error('Error fetching notification routes:', error);
+    return [];
+  }
+}
+
+/**
+ * Everything the notification settings panel needs in one round trip
+ */
+export async function getNotificationSettings(): Promise<{
+  preferences: NotificationPreferences;
+  routes: NotificationRoute[];
+  breadTypes: Array<{ id: string; name: string }>;
+}> {
+  const supabase = await createServer();
+  const [preferences, routes, breadTypesResult] = await Promise.all([
+    getMyNotificationPreferences(),
+    getNotificationRoutes(),
+    supabase.from('bread_types').select('id, name').eq('is_active', true).order('name'),
+  ]);
+
+  if (breadTypesResult.error) {
+    console.error('Error fetching bread types for notification settings:', breadTypesResult.error);
+  }
+
+  return { preferences, routes, breadTypes: breadTypesResult.data || [] };
+}
+
+/**
+ * Route an activity type to a set of roles. Owners only.
+ */
+export async function updateNotificationRoute(input: unknown): Promise<ActionResult> {
+  try {
+    const user = await requireAuth('owner');
+
+    const parsed = notificationRouteSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const supabase = await createServer();
+    const { error } = await supabase
+      .from('notification_routes')
+      .upsert(
+        {
+          activity_type: parsed.data.activity_type,
+          roles: parsed.data.roles,
+          updated_by: user.id,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'activity_type' }
+      );
+
+    if (error) {
+      console.error('Error saving notification route:', error);
+      return { success: false, error: error.message || 'Failed to save notification routing' };
+    }
+
+    revalidatePath('/owner-dashboard');
+    return { success: true };
+  } catch (error) {
+    console.error('Error in updateNotificationRoute:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save notification routing' };
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Notification routing and per-user preferences
+ *
+ * An activity first goes to the roles its type is routed to, then each
+ * recipient's own preferences decide whether it reaches them: activity
+ * types, shifts, bread types, a minimum sale size and quiet hours.
+ *
+ * Everything here is pure (no Supabase, no React).
+ */
+
+import type { ShiftType, UserRole } from '@/types';
+
+export type NotificationActivityType =
+  | 'sale'
+  | 'batch'
+  | 'report'
+  | 'login'
+  | 'end_shift'
+  | 'created'
+  | 'low_stock';
+
+export const NOTIFICATION_ACTIVITY_TYPES: Record<NotificationActivityType, { label: string; description: string }> = {
+  sale: { label: 'Sales', description: 'Sales, voids and refunds' },
+  batch: { label: 'Batches', description: 'New production batches' },
+  report: { label: 'Reports', description: 'Shift reports submitted' },
+  login: { label: 'Logins', description: 'Staff signing in' },
+  end_shift: { label: 'Shift ends', description: 'Staff ending a shift or signing out' },
+  created: { label: 'New staff', description: 'Staff accounts created' },
+  low_stock: { label: 'Low stock', description: 'Bread running low for a shift' },
+};
+
+export const NOTIFICATION_ACTIVITY_TYPE_KEYS = Object.keys(NOTIFICATION_ACTIVITY_TYPES) as NotificationActivityType[];
+
+// Used for activity types the owner has not routed yet
+export const DEFAULT_NOTIFICATION_ROLES: UserRole[] = ['owner'];
+
+export interface NotificationRoute {
+  activity_type: NotificationActivityType;
+  roles: UserRole[];
+}
+
+// null means "all"
+export interface NotificationPreferences {
+  activity_types: string[] | null;
+  shifts: ShiftType[] | null;
+  bread_type_ids: string[] | null;
+  min_sale_revenue: number | null;
+  quiet_hours_start: string | null; // 'HH:mm' in the bakery timezone
+  quiet_hours_end: string | null;
+  // Not a filter: how often pushes are bundled, null for as they happen
+  digest_minutes: number | null;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  activity_types: null,
+  shifts: null,
+  bread_type_ids: null,
+  min_sale_revenue: null,
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  digest_minutes: null,
+};
+
+export interface NotificationEvent {
+  activity_type: string;
+  shift?: ShiftType | null;
+  bread_type_id?: string | null;
+  revenue?: number | null;
+}
+
+/**
+ * Roles an activity type is routed to
+ */
+export function routedRoles(routes: NotificationRoute[], activityType: string): UserRole[] {
+  return routes.find(route => route.activity_type === activityType)?.roles ?? DEFAULT_NOTIFICATION_ROLES;
+}
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+/**
+ * Whether a local 'HH:mm' time falls inside quiet hours. The window
+ * includes its start and excludes its end, and wraps past midnight when
+ * it ends earlier than it starts.
+ */
+export function isQuietTime(start: string | null, end: string | null, localTime: string): boolean {
+  if (!start || !end) return false;
+
+  const from = minutesOf(start);
+  const to = minutesOf(end);
+  const now = minutesOf(localTime);
+
+  if (from === to) return false;
+  return from < to ? now >= from && now < to : now >= from || now < to;
+}
+
+/**
+ * Whether a recipient wants to hear about an event right now. Events
+ * without a shift or bread type are never filtered out by those settings.
+ */
+export function wantsNotification(
+  preferences: NotificationPreferences,
+  event: NotificationEvent,
+  localTime: string
+): boolean {
+  if (preferences.activity_types && !preferences.activity_types.includes(event.activity_type)) {
+    return false;
+  }
+  if (preferences.shifts && event.shift && !preferences.shifts.includes(event.shift)) {
+    return false;
+  }
+  if (preferences.bread_type_ids && event.bread_type_id && !preferences.bread_type_ids.includes(event.bread_type_id)) {
+    return false;
+  }
+  if (
+    event.activity_type === 'sale' &&
+    preferences.min_sale_revenue !== null &&
+    typeof event.revenue === 'number' &&
+    Math.abs(event.revenue) < preferences.min_sale_revenue
+  ) {
+    return false;
+  }
+  return !isQuietTime(preferences.quiet_hours_start, preferences.quiet_hours_end, localTime);
+}
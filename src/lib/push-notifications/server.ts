@@ -1,5 +1,7 @@
 'use server';
 
+import type { ShiftType } from '@/types';
+
 /**
  * Production-ready server-side push notification helper
  * Triggers push notifications when activities are logged
@@ -11,7 +13,11 @@ interface NotificationData {
   user_name: string;
   user_role: string;
   message: string;
+  shift?: ShiftType;
   metadata?: any;
+  // Send to these users instead of the roles the activity is routed to
+  recipient_ids?: string[];
+  url?: string;
 }
 
 interface NotificationResponse {
@@ -28,12 +34,9 @@ interface NotificationResponse {
 export async function triggerPushNotification(data: NotificationData): Promise<void> {
   try {
     console.log('🚀 Push notification triggered for:', data.activity_type);
-    
-    // Only send notifications for non-owner activities
-    if (data.user_role === 'owner') {
-      console.log('⏭️ Skipping notification for owner activity');
-      return;
-    }
+
+    // Who gets it is decided by the API route: notification_routes picks the
+    // roles, each recipient's preferences filter it, and the actor is skipped
 
     // Production-grade solution: Use fetch to call our push notification API
     // This prevents server component crashes by using proper API architecture
@@ -55,9 +58,14 @@ export async function triggerPushNotification(data: NotificationData): Promise<v
         },
         body: JSON.stringify({
           activity_type: data.activity_type,
+          user_id: data.user_id,
           user_name: data.user_name,
+          user_role: data.user_role,
           message: data.message,
-          metadata: data.metadata || {}
+          shift: data.shift,
+          metadata: data.metadata || {},
+          recipient_ids: data.recipient_ids,
+          url: data.url
         }),
         signal: controller.signal
       });
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import type { ShiftType } from '@/types';
 
 export interface NotificationAction {
   action: string;
@@ -370,7 +371,7 @@ export function usePushNotifications() {
 
 // Predefined notification templates for bakery use cases
 export const NotificationTemplates = {
-  shiftReminder: (shiftType: 'morning' | 'night'): NotificationPayload => ({
+  shiftReminder: (shiftType: ShiftType): NotificationPayload => ({
     title: 'Shift Reminder',
     body: `Your ${shiftType} shift is starting soon`,
     icon: '/icons/icon-192x192.png',
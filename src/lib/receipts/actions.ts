@@ -0,0 +1,127 @@
+'use server';
+
+import { createServer } from '@/lib/supabase/server';
+import { requireAuth } from '@/lib/auth/auth-utils';
+import { getShiftSchedule } from '@/lib/shift-schedule/actions';
+import type { PaymentMethod } from '@/lib/sales/payment-methods';
+import type { Receipt, ReceiptPayment } from './receipt';
+
+type ReceiptResult = { success: boolean; error?: string; receipt?: Receipt };
+
+type ReceiptSaleRow = {
+  id: string;
+  quantity: number;
+  unit_price: number | null;
+  discount: number | null;
+  payment_method: string;
+  amount_paid: number | null;
+  created_at: string | null;
+  bread_types: { name: string; unit_price: number } | null;
+  promotions: { name: string } | null;
+  users: { name: string } | null;
+  sale_voids: { quantity: number; amount: number }[] | null;
+};
+
+/**
+ * The receipt for one sale or a group of sales, numbering it the first
+ * time. Reprints of a sale already on a receipt return that whole receipt.
+ */
+export async function getReceipt(saleIds: string[]): Promise<ReceiptResult> {
+  try {
+    await requireAuth();
+    if (saleIds.length === 0) {
+      return { success: false, error: 'Choose at least one sale' };
+    }
+
+    const supabase = await createServer();
+    const { data: receiptId, error: issueError } = await supabase.rpc('issue_receipt', { p_sale_ids: saleIds });
+    if (issueError || !receiptId) {
+      console.error('Error issuing receipt:', issueError);
+      return { success: false, error: issueError?.message || 'Failed to create the receipt' };
+    }
+
+    const [{ data: receipt, error: receiptError }, { data: sales, error: salesError }] = await Promise.all([
+      supabase
+        .from('receipts')
+        .select('receipt_number, branch_id, branches ( name, address, phone )')
+        .eq('id', receiptId)
+        .single(),
+      supabase
+        .from('sales_logs')
+        .select(`
+          id, quantity, unit_price, discount, payment_method, amount_paid, created_at,
+          bread_types ( name, unit_price ),
+          promotions ( name ),
+          users:recorded_by ( name ),
+          sale_voids ( quantity, amount )
+        `)
+        .eq('receipt_id', receiptId)
+        .order('created_at', { ascending: true }),
+    ]);
+
+    if (receiptError || salesError || !receipt) {
+      throw receiptError || salesError || new Error('Receipt not found');
+    }
+
+    const rows = (sales || []) as unknown as ReceiptSaleRow[];
+    const { data: customerSale } = await supabase
+      .from('customer_transactions')
+      .select('customers ( name )')
+      .eq('kind', 'sale')
+      .in('sale_id', rows.map(row => row.id))
+      .limit(1)
+      .maybeSingle();
+
+    const schedule = await getShiftSchedule(receipt.branch_id);
+
+    // What was paid by each method; whatever is left of a sale is on credit
+    const payments = new Map<PaymentMethod, number>();
+    const addPayment = (method: PaymentMethod, amount: number) => {
+      if (amount > 0) payments.set(method, (payments.get(method) || 0) + amount);
+    };
+
+    const items = rows.map(row => {
+      const unitPrice = Number(row.unit_price ?? row.bread_types?.unit_price ?? 0);
+      const discount = Number(row.discount || 0);
+      const voidedQuantity = (row.sale_voids || []).reduce((sum, entry) => sum + entry.quantity, 0);
+      const voidedAmount = (row.sale_voids || []).reduce((sum, entry) => sum + Number(entry.amount), 0);
+      const total = Math.max(row.quantity * unitPrice - discount - voidedAmount, 0);
+
+      const method = row.payment_method as PaymentMethod;
+      const paid = method === 'credit' ? 0 : Math.min(row.amount_paid === null ? total : Number(row.amount_paid), total);
+      if (method !== 'credit') addPayment(method, paid);
+      addPayment('credit', total - paid);
+
+      return {
+        name: row.bread_types?.name || 'Bread',
+        quantity: row.quantity,
+        unit_price: unitPrice,
+        discount,
+        promotion_name: row.promotions?.name ?? null,
+        voided_quantity: voidedQuantity,
+        voided_amount: voidedAmount,
+      };
+    });
+
+    const customer = (customerSale?.customers as { name: string } | null | undefined) ?? null;
+
+    return {
+      success: true,
+      receipt: {
+        receipt_number: receipt.receipt_number,
+        sold_at: rows[rows.length - 1]?.created_at ?? new Date().toISOString(),
+        time_zone: schedule.timezone,
+        branch_name: receipt.branches?.name ?? null,
+        branch_address: receipt.branches?.address ?? null,
+        branch_phone: receipt.branches?.phone ?? null,
+        rep_name: rows[0]?.users?.name || 'Staff',
+        customer_name: customer?.name ?? null,
+        items,
+        payments: Array.from(payments, ([method, amount]): ReceiptPayment => ({ method, amount })),
+      },
+    };
+  } catch (error) {
+    console.error('Error in getReceipt:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to load the receipt' };
+  }
+}
@@ -0,0 +1,43 @@
+import { receiptLines, type PaperWidth, type Receipt } from './receipt';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const INITIALIZE = [ESC, 0x40];
+const CODE_PAGE_PC437 = [ESC, 0x74, 0x00];
+const align = (center: boolean) => [ESC, 0x61, center ? 0x01 : 0x00];
+const bold = (on: boolean) => [ESC, 0x45, on ? 0x01 : 0x00];
+const size = (large: boolean) => [GS, 0x21, large ? 0x11 : 0x00];
+// Feed past the tear bar and cut where the printer has a cutter
+const FEED_AND_CUT = [GS, 0x56, 0x42, 0x03];
+
+/**
+ * Printable ASCII only; accents are dropped and anything else becomes '?'
+ */
+function encodeText(text: string): number[] {
+  return Array.from(text.normalize('NFKD').replace(/[\u0300-\u036f]/g, ''), char => {
+    const code = char.charCodeAt(0);
+    return code >= 0x20 && code < 0x7f ? code : 0x3f;
+  });
+}
+
+/**
+ * Raw ESC/POS bytes for a 58mm or 80mm thermal printer
+ */
+export function renderReceiptEscPos(receipt: Receipt, width: PaperWidth = 58): Uint8Array {
+  const bytes: number[] = [...INITIALIZE, ...CODE_PAGE_PC437];
+
+  receiptLines(receipt, width).forEach(line => {
+    bytes.push(
+      ...align(line.align === 'center'),
+      ...bold(!!line.bold),
+      ...size(!!line.large),
+      ...encodeText(line.text),
+      LF
+    );
+  });
+
+  bytes.push(...align(false), ...bold(false), ...size(false), LF, ...FEED_AND_CUT);
+  return Uint8Array.from(bytes);
+}
@@ -0,0 +1,45 @@
+import { receiptLines, type PaperWidth, type Receipt } from './receipt';
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * A complete HTML page for the receipt, sized to the paper roll so it can
+ * go to a thermal printer through the browser's print dialog
+ */
+export function renderReceiptHtml(receipt: Receipt, width: PaperWidth = 58): string {
+  const body = receiptLines(receipt, width)
+    .map(line => {
+      const classes = [
+        line.align === 'center' ? 'center' : '',
+        line.bold ? 'bold' : '',
+        line.large ? 'large' : '',
+      ].filter(Boolean).join(' ');
+      return `<div class="line ${classes}">${escapeHtml(line.text) || '&nbsp;'}</div>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Receipt ${escapeHtml(receipt.receipt_number)}</title>
+<style>
+  @page { size: ${width}mm auto; margin: 0; }
+  body { margin: 0; padding: 3mm; width: ${width - 6}mm; font-family: 'Courier New', monospace; font-size: ${width === 58 ? 10 : 11}px; color: #000; }
+  .line { white-space: pre; line-height: 1.35; overflow: hidden; }
+  .center { text-align: center; }
+  .bold { font-weight: bold; }
+  .large { font-size: 2em; line-height: 1.2; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
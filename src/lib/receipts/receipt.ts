@@ -0,0 +1,181 @@
+/**
+ * Receipt model and layout
+ *
+ * A receipt covers one sale or a group of sales rung up together. It is laid
+ * out once as fixed-width text lines that both the printable HTML and the
+ * ESC/POS output are drawn from, so the paper and the screen always match.
+ *
+ * Everything here is pure (no Supabase, no React) so it can run on the
+ * server and in the browser.
+ */
+
+import { formatInTimeZone } from 'date-fns-tz';
+import { PAYMENT_METHODS, type PaymentMethod } from '@/lib/sales/payment-methods';
+
+export const RECEIPT_BUSINESS_NAME = 'HomeBake';
+
+export type PaperWidth = 58 | 80;
+
+// Characters per line in the printer's standard font
+export const PAPER_COLUMNS: Record<PaperWidth, number> = { 58: 32, 80: 48 };
+
+export interface ReceiptItem {
+  name: string;
+  quantity: number;
+  unit_price: number;
+  discount: number;
+  promotion_name: string | null;
+  // Loaves and money already given back through voids and refunds
+  voided_quantity: number;
+  voided_amount: number;
+}
+
+export interface ReceiptPayment {
+  method: PaymentMethod;
+  amount: number;
+}
+
+export interface Receipt {
+  receipt_number: string;
+  sold_at: string;
+  time_zone: string;
+  branch_name: string | null;
+  branch_address: string | null;
+  branch_phone: string | null;
+  rep_name: string;
+  customer_name: string | null;
+  items: ReceiptItem[];
+  payments: ReceiptPayment[];
+}
+
+export interface ReceiptTotals {
+  subtotal: number;
+  discount: number;
+  voided: number;
+  total: number;
+}
+
+export interface ReceiptLine {
+  text: string;
+  align?: 'left' | 'center';
+  bold?: boolean;
+  // Double width and height; the line holds half as many characters
+  large?: boolean;
+}
+
+export function receiptTotals(receipt: Receipt): ReceiptTotals {
+  const subtotal = receipt.items.reduce((sum, item) => sum + item.quantity * item.unit_price, 0);
+  const discount = receipt.items.reduce((sum, item) => sum + item.discount, 0);
+  const voided = receipt.items.reduce((sum, item) => sum + item.voided_amount, 0);
+  return { subtotal, discount, voided, total: Math.max(subtotal - discount - voided, 0) };
+}
+
+/**
+ * Amounts without a currency sign; thermal printer code pages have no ₦
+ */
+export function formatReceiptAmount(amount: number): string {
+  return amount.toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function spread(left: string, right: string, columns: number): string {
+  const space = columns - right.length - 1;
+  const leftText = left.length > space ? left.slice(0, Math.max(space, 0)) : left;
+  return `${leftText}${' '.repeat(Math.max(columns - leftText.length - right.length, 1))}${right}`;
+}
+
+function wrap(text: string, columns: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    if (!current) {
+      current = word;
+    } else if (current.length + word.length + 1 <= columns) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+    while (current.length > columns) {
+      lines.push(current.slice(0, columns));
+      current = current.slice(columns);
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+}
+
+/**
+ * The receipt as lines for a paper width
+ */
+export function receiptLines(receipt: Receipt, width: PaperWidth): ReceiptLine[] {
+  const columns = PAPER_COLUMNS[width];
+  const rule: ReceiptLine = { text: '-'.repeat(columns) };
+  const totals = receiptTotals(receipt);
+  const lines: ReceiptLine[] = [];
+  const center = (text: string, options: Omit<ReceiptLine, 'text' | 'align'> = {}) =>
+    wrap(text, options.large ? Math.floor(columns / 2) : columns)
+      .forEach(part => lines.push({ text: part, align: 'center', ...options }));
+
+  center(RECEIPT_BUSINESS_NAME, { bold: true, large: true });
+  if (receipt.branch_name) center(receipt.branch_name, { bold: true });
+  if (receipt.branch_address) center(receipt.branch_address);
+  if (receipt.branch_phone) center(`Tel: ${receipt.branch_phone}`);
+  lines.push(rule);
+
+  lines.push({ text: spread('Receipt', receipt.receipt_number, columns) });
+  lines.push({ text: spread('Date', formatInTimeZone(new Date(receipt.sold_at), receipt.time_zone, 'dd MMM yyyy HH:mm'), columns) });
+  lines.push({ text: spread('Served by', receipt.rep_name, columns) });
+  if (receipt.customer_name) {
+    lines.push({ text: spread('Customer', receipt.customer_name, columns) });
+  }
+  lines.push(rule);
+
+  receipt.items.forEach(item => {
+    wrap(item.name, columns).forEach(part => lines.push({ text: part }));
+    lines.push({
+      text: spread(
+        `  ${item.quantity} x ${formatReceiptAmount(item.unit_price)}`,
+        formatReceiptAmount(item.quantity * item.unit_price),
+        columns
+      ),
+    });
+    if (item.discount > 0) {
+      lines.push({ text: spread(`  ${item.promotion_name || 'Discount'}`, `-${formatReceiptAmount(item.discount)}`, columns) });
+    }
+    if (item.voided_amount > 0) {
+      lines.push({ text: spread(`  Returned ${item.voided_quantity}`, `-${formatReceiptAmount(item.voided_amount)}`, columns) });
+    }
+  });
+  lines.push(rule);
+
+  if (totals.discount > 0 || totals.voided > 0) {
+    lines.push({ text: spread('Subtotal', formatReceiptAmount(totals.subtotal), columns) });
+  }
+  if (totals.discount > 0) {
+    lines.push({ text: spread('Discounts', `-${formatReceiptAmount(totals.discount)}`, columns) });
+  }
+  if (totals.voided > 0) {
+    lines.push({ text: spread('Returns', `-${formatReceiptAmount(totals.voided)}`, columns) });
+  }
+  lines.push({ text: spread('TOTAL NGN', formatReceiptAmount(totals.total), columns), bold: true });
+  receipt.payments.forEach(payment => {
+    lines.push({ text: spread(PAYMENT_METHODS[payment.method], formatReceiptAmount(payment.amount), columns) });
+  });
+  lines.push(rule);
+
+  center('Thank you for your patronage!');
+  return lines;
+}
+
+/**
+ * Plain-text receipt for sharing in a message
+ */
+export function receiptText(receipt: Receipt, width: PaperWidth = 58): string {
+  const columns = PAPER_COLUMNS[width];
+  return receiptLines(receipt, width)
+    .map(line => {
+      if (line.align !== 'center') return line.text;
+      return `${' '.repeat(Math.max(Math.floor((columns - line.text.length) / 2), 0))}${line.text}`;
+    })
+    .join('\n');
+}
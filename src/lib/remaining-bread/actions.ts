@@ -1,13 +1,15 @@
 'use server';
 
 import { createServer } from '@/lib/supabase/server';
+import { requirePermission } from '@/lib/auth/auth-utils';
+import type { ShiftType } from '@/types';
 
 export interface RemainingBreadData {
   bread_type_id: string;
   bread_type: string;
   quantity: number;
   unit_price: number;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   recorded_by: string;
 }
 
@@ -51,6 +53,8 @@ export async function upsertRemainingBread(
   remainingData: RemainingBreadData[]
 ): Promise<RemainingBreadResult> {
   try {
+    await requirePermission('sales.record');
+
     const supabase = await createServer();
     const results = [];
     const today = new Date().toISOString().split('T')[0];
@@ -108,7 +112,7 @@ export async function upsertRemainingBread(
           record_date: today,
           updated_at: new Date().toISOString()
         }, {
-          onConflict: 'bread_type_id', // Use existing UNIQUE constraint
+          onConflict: 'branch_id,bread_type_id', // One record per bread type per branch
           ignoreDuplicates: false // Update on conflict instead of ignoring
         })
         .select()
@@ -154,7 +158,7 @@ export async function upsertRemainingBread(
  */
 export async function getRemainingBreadForToday(
   userId: string, // Keep for backwards compatibility but don't use for filtering
-  shift: 'morning' | 'night'
+  shift: ShiftType
 ) {
   try {
     const supabase = await createServer();
@@ -185,7 +189,7 @@ export async function getRemainingBreadForToday(
  * USER-AGNOSTIC: Returns all remaining bread for the specified parameters
  */
 export async function getRemainingBreadData(
-  shift: 'morning' | 'night',
+  shift: ShiftType,
   recordDate?: string
 ) {
   try {
@@ -4,6 +4,10 @@ import { getReportData, getShiftDetails, getBreadTypes, ReportFilters } from './
 import { revalidatePath } from 'next/cache';
 import { createServer } from '@/lib/supabase/server';
 import { logReportActivity } from '@/lib/activities/server-activity-service';
+import { emitWebhookEvent } from '@/lib/webhooks/dispatch';
+import type { Database } from '@/types/supabase';
+import type { ShiftType } from '@/lib/utils/shift-utils';
+import { cashUp } from './shift-report-summary';
 
 export async function fetchReportData(filters: ReportFilters) {
   try {
@@ -87,6 +91,13 @@ export async function createShiftReport(reportData: any) {
       feedback: reportData.feedback || null,
       sales_data: reportData.sales_data ?? reportData.salesRecords ?? [],
       remaining_breads: reportData.remaining_breads ?? reportData.remainingBreads ?? [],
+      total_voided: reportData.total_voided ?? reportData.totalVoided ?? 0,
+      voids_data: reportData.voids_data ?? reportData.voidsData ?? [],
+      // Reports resubmitted without payment totals keep the cash-up already stored
+      ...(reportData.payment_totals && {
+        payment_totals: reportData.payment_totals,
+        ...cashUp(reportData.payment_totals, reportData),
+      }),
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     };
@@ -117,6 +128,15 @@ export async function createShiftReport(reportData: any) {
           feedback: payload.feedback,
           sales_data: payload.sales_data,
           remaining_breads: payload.remaining_breads,
+          total_voided: payload.total_voided,
+          voids_data: payload.voids_data,
+          ...(payload.payment_totals && {
+            payment_totals: payload.payment_totals,
+            counted_cash: payload.counted_cash,
+            counted_transfer: payload.counted_transfer,
+            cash_variance: payload.cash_variance,
+            transfer_variance: payload.transfer_variance,
+          }),
           updated_at: new Date().toISOString(),
         })
         .eq('id', existingReport.id)
@@ -129,7 +149,8 @@ export async function createShiftReport(reportData: any) {
       }
 
       // Log activity for report update
-      await logReportActivityHelper(supabase, payload.user_id, payload.shift as 'morning' | 'night', 'update');
+      await logReportActivityHelper(supabase, payload.user_id, payload.shift as ShiftType, 'update');
+      await emitWebhookEvent('report.submitted', reportSubmittedData(data, true));
 
       return { 
         success: true, 
@@ -162,7 +183,8 @@ export async function createShiftReport(reportData: any) {
     }
 
     // Log activity for new report
-    await logReportActivityHelper(supabase, payload.user_id, payload.shift as 'morning' | 'night', 'create');
+    await logReportActivityHelper(supabase, payload.user_id, payload.shift as ShiftType, 'create');
+    await emitWebhookEvent('report.submitted', reportSubmittedData(data, false));
 
     return { 
       success: true, 
@@ -202,7 +224,7 @@ export async function createShiftReport(reportData: any) {
 /**
  * Get shift feedback for a user and shift (Server Action)
  */
-export async function getShiftFeedback(userId: string, shift: 'morning' | 'night') {
+export async function getShiftFeedback(userId: string, shift: ShiftType) {
   try {
     const supabase = await createServer();
     
@@ -261,7 +283,7 @@ export async function getRemainingBread(userId: string) {
 /**
  * Update remaining bread record (Server Action)
  */
-export async function updateRemainingBread(breadTypeId: string, userId: string, shift: 'morning' | 'night', breadTypeName: string, quantity: number, unitPrice: number) {
+export async function updateRemainingBread(breadTypeId: string, userId: string, shift: ShiftType, breadTypeName: string, quantity: number, unitPrice: number) {
   try {
     const supabase = await createServer();
     
@@ -397,7 +419,7 @@ export async function getAvailableStock() {
 /**
  * Get sales management data for a user and shift (Server Action)
  */
-export async function getSalesManagementData(userId: string, shift: 'morning' | 'night') {
+export async function getSalesManagementData(userId: string, shift: ShiftType) {
   try {
     const supabase = await createServer();
     
@@ -486,7 +508,7 @@ export async function getSalesManagementData(userId: string, shift: 'morning' |
 }
 
 // Helper function to log report activity
-async function logReportActivityHelper(supabase: Awaited<ReturnType<typeof createServer>>, userId: string, shift: 'morning' | 'night', action: 'create' | 'update') {
+async function logReportActivityHelper(supabase: Awaited<ReturnType<typeof createServer>>, userId: string, shift: ShiftType, action: 'create' | 'update') {
   try {
     const { data: userData } = await supabase
       .from('users')
@@ -506,4 +528,26 @@ async function logReportActivityHelper(supabase: Awaited<ReturnType<typeof creat
   } catch (activityError) {
     console.error('Failed to log report activity:', activityError);
   }
-}
\ No newline at end of file
+}
+
+// report.submitted data; resubmitted when an existing report was updated
+function reportSubmittedData(report: Database['public']['Tables']['shift_reports']['Row'], resubmitted: boolean) {
+  return {
+    report_id: report.id,
+    user_id: report.user_id,
+    branch_id: report.branch_id,
+    shift: report.shift,
+    report_date: report.report_date,
+    total_revenue: report.total_revenue,
+    total_items_sold: report.total_items_sold,
+    total_remaining: report.total_remaining,
+    total_voided: report.total_voided,
+    payment_totals: report.payment_totals,
+    counted_cash: report.counted_cash,
+    counted_transfer: report.counted_transfer,
+    cash_variance: report.cash_variance,
+    transfer_variance: report.transfer_variance,
+    feedback: report.feedback,
+    resubmitted,
+  };
+}
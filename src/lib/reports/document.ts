@@ -0,0 +1,484 @@
+/**
+ * Report export documents
+ *
+ * Every exported report is first described as a ReportDocument: headline
+ * metrics, an optional chart, and a list of table sections. The PDF renderer
+ * draws the sections one after another with their charts; the XLSX renderer
+ * puts the metrics on a Summary sheet and each section on its own sheet.
+ *
+ * Everything here is pure (no Supabase, no React) so the builders can be
+ * reused by anything that needs a report in a file.
+ */
+
+import { formatInTimeZone } from 'date-fns-tz';
+import type { BreadTypeBreakdown, ReportSummary, ShiftSummary } from './queries';
+
+export const REPORT_BRAND_NAME = 'HomeBake';
+
+export type ReportExportFormat = 'pdf' | 'xlsx';
+
+export const REPORT_EXPORT_CONTENT_TYPES: Record<ReportExportFormat, string> = {
+  pdf: 'application/pdf',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export type ReportValueFormat = 'text' | 'number' | 'currency' | 'percent';
+
+export type ReportCell = string | number | null;
+
+export interface ReportColumn {
+  header: string;
+  format?: ReportValueFormat;
+  // Relative width; text columns default to 2, numbers to 1
+  width?: number;
+}
+
+export interface ReportMetric {
+  label: string;
+  value: string | number;
+  format?: ReportValueFormat;
+}
+
+export interface ReportChart {
+  title: string;
+  format?: ReportValueFormat;
+  bars: { label: string; value: number }[];
+}
+
+export interface ReportSection {
+  title: string;
+  columns: ReportColumn[];
+  rows: ReportCell[][];
+  totals?: ReportCell[];
+  chart?: ReportChart;
+}
+
+export interface ReportDocument {
+  title: string;
+  subtitle?: string;
+  generatedAt: string;
+  timeZone: string;
+  metrics: ReportMetric[];
+  chart?: ReportChart;
+  sections: ReportSection[];
+}
+
+export interface ReportDocumentMeta {
+  title?: string;
+  subtitle?: string;
+  generatedAt?: string;
+  timeZone: string;
+}
+
+/**
+ * A value as text. Currency is written as NGN because the PDF standard
+ * fonts have no naira sign.
+ */
+export function formatReportValue(value: ReportCell, format: ReportValueFormat = 'text'): string {
+  if (value === null || value === '') return '';
+  if (typeof value === 'string') return value;
+
+  switch (format) {
+    case 'currency':
+      return `NGN ${value.toLocaleString('en-NG', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+    case 'percent':
+      return `${value.toFixed(1)}%`;
+    default:
+      return value.toLocaleString('en-NG', { maximumFractionDigits: 2 });
+  }
+}
+
+/**
+ * Lowercase, dash-separated file name without an extension
+ */
+export function reportFileName(document: ReportDocument): string {
+  const slug = `${REPORT_BRAND_NAME} ${document.title}`.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug}-${formatInTimeZone(new Date(document.generatedAt), document.timeZone, 'yyyy-MM-dd')}`;
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const sum = <T>(items: T[], value: (item: T) => number) => items.reduce((total, item) => total + value(item), 0);
+
+const BREAD_COLUMNS: ReportColumn[] = [
+  { header: 'Bread Type', width: 2 },
+  { header: 'Produced', format: 'number' },
+  { header: 'Sold', format: 'number' },
+  { header: 'Leftover', format: 'number' },
+  { header: 'Revenue', format: 'currency', width: 1.3 },
+  { header: 'Discounts', format: 'currency', width: 1.3 },
+  { header: 'COGS', format: 'currency', width: 1.3 },
+  { header: 'Gross Margin', format: 'currency', width: 1.3 },
+  { header: 'Margin %', format: 'percent' },
+  { header: 'Wasted', format: 'number' },
+  { header: 'Waste %', format: 'percent' },
+  { header: 'Waste Cost', format: 'currency', width: 1.3 },
+  { header: 'Waste Value', format: 'currency', width: 1.3 },
+];
+
+function breadRow(bread: BreadTypeBreakdown): ReportCell[] {
+  return [
+    bread.breadTypeName,
+    bread.produced,
+    bread.sold,
+    bread.leftover,
+    bread.revenue,
+    bread.discounts,
+    bread.cogs,
+    bread.grossMargin,
+    bread.marginPercent,
+    bread.wasted,
+    bread.wastePercent,
+    bread.wasteCost,
+    bread.wasteValue,
+  ];
+}
+
+function breadTotals(breads: BreadTypeBreakdown[]): ReportCell[] {
+  const revenue = sum(breads, bread => bread.revenue);
+  const grossMargin = sum(breads, bread => bread.grossMargin);
+  const produced = sum(breads, bread => bread.produced);
+  const wasted = sum(breads, bread => bread.wasted);
+  return [
+    'Total',
+    produced,
+    sum(breads, bread => bread.sold),
+    sum(breads, bread => bread.leftover),
+    revenue,
+    sum(breads, bread => bread.discounts),
+    sum(breads, bread => bread.cogs),
+    grossMargin,
+    revenue > 0 ? (grossMargin / revenue) * 100 : 0,
+    wasted,
+    produced > 0 ? (wasted / produced) * 100 : 0,
+    sum(breads, bread => bread.wasteCost),
+    sum(breads, bread => bread.wasteValue),
+  ];
+}
+
+function breadSection(title: string, breads: BreadTypeBreakdown[], chart?: ReportChart): ReportSection {
+  return {
+    title,
+    columns: BREAD_COLUMNS,
+    rows: breads.map(breadRow),
+    totals: breads.length > 1 ? breadTotals(breads) : undefined,
+    chart,
+  };
+}
+
+function generatedAt(meta: ReportDocumentMeta): string {
+  return meta.generatedAt ?? new Date().toISOString();
+}
+
+/**
+ * Multi-shift report: totals, a sheet of bread type totals, a shift
+ * overview, promotions, then one section per shift
+ */
+export function summaryReportDocument(report: ReportSummary, meta: ReportDocumentMeta): ReportDocument {
+  const sections: ReportSection[] = [
+    breadSection('Bread Types', report.breadTypeTotals, {
+      title: 'Gross margin by bread type',
+      format: 'currency',
+      bars: report.breadTypeTotals.map(bread => ({ label: bread.breadTypeName, value: bread.grossMargin })),
+    }),
+    {
+      title: 'Shifts',
+      columns: [
+        { header: 'Date', width: 1.2 },
+        { header: 'Shift' },
+        { header: 'Produced', format: 'number' },
+        { header: 'Sold', format: 'number' },
+        { header: 'Revenue', format: 'currency', width: 1.3 },
+        { header: 'COGS', format: 'currency', width: 1.3 },
+        { header: 'Gross Margin', format: 'currency', width: 1.3 },
+        { header: 'Wasted', format: 'number' },
+        { header: 'Waste %', format: 'percent' },
+        { header: 'Waste Cost', format: 'currency', width: 1.3 },
+        { header: 'Recorded By', width: 1.5 },
+      ],
+      rows: report.shifts.map(shift => [
+        shift.date,
+        capitalize(shift.shift),
+        shift.totalProduced,
+        shift.totalSold,
+        shift.totalRevenue,
+        shift.totalCogs,
+        shift.totalGrossMargin,
+        shift.totalWasted,
+        shift.wastePercent,
+        shift.totalWasteCost,
+        shift.recordedBy,
+      ]),
+      chart: {
+        title: 'Revenue by shift',
+        format: 'currency',
+        bars: report.shifts.map(shift => ({ label: `${shift.date} ${capitalize(shift.shift)}`, value: shift.totalRevenue })),
+      },
+    },
+  ];
+
+  if (report.promotions.length > 0) {
+    sections.push({
+      title: 'Promotions',
+      columns: [
+        { header: 'Promotion', width: 2 },
+        { header: 'Sales', format: 'number' },
+        { header: 'Loaves', format: 'number' },
+        { header: 'Revenue', format: 'currency', width: 1.3 },
+        { header: 'Discount Given', format: 'currency', width: 1.3 },
+      ],
+      rows: [
+        ...report.promotions.map(promotion => [
+          promotion.name,
+          promotion.sales,
+          promotion.loaves,
+          promotion.revenue,
+          promotion.discount,
+        ]),
+        [
+          'No promotion',
+          report.salesWithoutPromotion.sales,
+          report.salesWithoutPromotion.loaves,
+          report.salesWithoutPromotion.revenue,
+          report.salesWithoutPromotion.discount,
+        ],
+      ],
+    });
+  }
+
+  report.shifts.forEach(shift => {
+    sections.push(breadSection(`${shift.date} ${capitalize(shift.shift)}`, shift.breadTypeBreakdown));
+  });
+
+  return {
+    title: meta.title ?? 'Business Report',
+    subtitle: meta.subtitle,
+    generatedAt: generatedAt(meta),
+    timeZone: meta.timeZone,
+    metrics: [
+      { label: 'Revenue', value: report.totalRevenue, format: 'currency' },
+      { label: 'Loaves Produced', value: report.totalProduced, format: 'number' },
+      { label: 'Loaves Sold', value: report.totalSold, format: 'number' },
+      { label: 'Leftover', value: report.totalLeftover, format: 'number' },
+      { label: 'Discounts', value: report.totalDiscounts, format: 'currency' },
+      { label: 'COGS', value: report.totalCogs, format: 'currency' },
+      { label: 'Gross Margin', value: report.totalGrossMargin, format: 'currency' },
+      { label: 'Margin', value: report.marginPercent, format: 'percent' },
+      { label: 'Waste', value: report.wastePercent, format: 'percent' },
+      { label: 'Waste Cost', value: report.totalWasteCost, format: 'currency' },
+      { label: 'Waste Value', value: report.totalWasteValue, format: 'currency' },
+      ...Object.entries(report.wasteByShift).map(([shift, waste]): ReportMetric => ({
+        label: `${capitalize(shift)} Waste`,
+        value: waste.wastePercent,
+        format: 'percent',
+      })),
+      { label: 'Average Daily Revenue', value: report.averageDailyRevenue, format: 'currency' },
+      { label: 'Best Bread Type', value: report.bestPerformingBreadType || '-' },
+      { label: 'Best Shift', value: capitalize(report.bestPerformingShift || '-') },
+    ],
+    chart: {
+      title: 'Revenue by bread type',
+      format: 'currency',
+      bars: report.breadTypeTotals.map(bread => ({ label: bread.breadTypeName, value: bread.revenue })),
+    },
+    sections,
+  };
+}
+
+/**
+ * One shift: its totals and the bread type breakdown
+ */
+export function shiftReportDocument(shift: ShiftSummary, meta: ReportDocumentMeta): ReportDocument {
+  const revenue = shift.totalRevenue;
+
+  return {
+    title: meta.title ?? `${capitalize(shift.shift)} Shift Report`,
+    subtitle: meta.subtitle ?? `${shift.date} • Recorded by ${shift.recordedBy}`,
+    generatedAt: generatedAt(meta),
+    timeZone: meta.timeZone,
+    metrics: [
+      { label: 'Revenue', value: revenue, format: 'currency' },
+      { label: 'Loaves Produced', value: shift.totalProduced, format: 'number' },
+      { label: 'Loaves Sold', value: shift.totalSold, format: 'number' },
+      { label: 'Leftover', value: shift.totalLeftover, format: 'number' },
+      { label: 'Discounts', value: shift.totalDiscounts, format: 'currency' },
+      { label: 'COGS', value: shift.totalCogs, format: 'currency' },
+      { label: 'Gross Margin', value: shift.totalGrossMargin, format: 'currency' },
+      { label: 'Margin', value: revenue > 0 ? (shift.totalGrossMargin / revenue) * 100 : 0, format: 'percent' },
+      { label: 'Wasted', value: shift.totalWasted, format: 'number' },
+      { label: 'Waste', value: shift.wastePercent, format: 'percent' },
+      { label: 'Waste Cost', value: shift.totalWasteCost, format: 'currency' },
+    ],
+    chart: {
+      title: 'Revenue by bread type',
+      format: 'currency',
+      bars: shift.breadTypeBreakdown.map(bread => ({ label: bread.breadTypeName, value: bread.revenue })),
+    },
+    sections: [breadSection('Bread Types', shift.breadTypeBreakdown)],
+  };
+}
+
+export interface ReportBatch {
+  batch_number: string;
+  bread_type_name: string;
+  actual_quantity: number;
+  target_quantity: number | null;
+  unit_price: number;
+  status: string;
+  shift: string;
+  created_by_name: string;
+  created_at: string;
+  notes: string | null;
+}
+
+export interface ReportProductionLog {
+  bread_type_name: string;
+  quantity: number;
+  shift: string;
+  created_at: string;
+}
+
+// Groups in first-seen order, keyed by bread type name
+function byBreadType<T>(items: T[], name: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    groups.set(name(item), [...(groups.get(name(item)) || []), item]);
+  });
+  return groups;
+}
+
+/**
+ * Production batches: an overview of every batch, then one section per
+ * bread type
+ */
+export function batchesReportDocument(batches: ReportBatch[], meta: ReportDocumentMeta): ReportDocument {
+  const when = (iso: string) => formatInTimeZone(new Date(iso), meta.timeZone, 'dd MMM yyyy HH:mm');
+  const value = (batch: ReportBatch) => batch.actual_quantity * batch.unit_price;
+  const columns = (withBreadType: boolean): ReportColumn[] => [
+    { header: 'Batch', width: 1.2 },
+    ...(withBreadType ? [{ header: 'Bread Type', width: 2 }] : []),
+    { header: 'Shift' },
+    { header: 'Quantity', format: 'number' },
+    { header: 'Target', format: 'number' },
+    { header: 'Unit Price', format: 'currency', width: 1.2 },
+    { header: 'Value', format: 'currency', width: 1.3 },
+    { header: 'Status' },
+    { header: 'Created By', width: 1.5 },
+    { header: 'Created', width: 1.5 },
+    { header: 'Notes', width: 2 },
+  ];
+  const row = (batch: ReportBatch, withBreadType: boolean): ReportCell[] => [
+    batch.batch_number,
+    ...(withBreadType ? [batch.bread_type_name] : []),
+    capitalize(batch.shift),
+    batch.actual_quantity,
+    batch.target_quantity,
+    batch.unit_price,
+    value(batch),
+    capitalize(batch.status),
+    batch.created_by_name,
+    when(batch.created_at),
+    batch.notes,
+  ];
+  const totals = (items: ReportBatch[], withBreadType: boolean): ReportCell[] => [
+    'Total',
+    ...(withBreadType ? [null] : []),
+    null,
+    sum(items, batch => batch.actual_quantity),
+    null,
+    null,
+    sum(items, value),
+    null,
+    null,
+    null,
+    null,
+  ];
+
+  const groups = byBreadType(batches, batch => batch.bread_type_name);
+
+  return {
+    title: meta.title ?? 'Production Batches',
+    subtitle: meta.subtitle,
+    generatedAt: generatedAt(meta),
+    timeZone: meta.timeZone,
+    metrics: [
+      { label: 'Batches', value: batches.length, format: 'number' },
+      { label: 'Units Produced', value: sum(batches, batch => batch.actual_quantity), format: 'number' },
+      { label: 'Production Value', value: sum(batches, value), format: 'currency' },
+      { label: 'Bread Types', value: groups.size, format: 'number' },
+    ],
+    chart: {
+      title: 'Units by bread type',
+      format: 'number',
+      bars: Array.from(groups, ([name, items]) => ({ label: name, value: sum(items, batch => batch.actual_quantity) })),
+    },
+    sections: [
+      {
+        title: 'All Batches',
+        columns: columns(true),
+        rows: batches.map(batch => row(batch, true)),
+        totals: totals(batches, true),
+      },
+      ...Array.from(groups, ([name, items]): ReportSection => ({
+        title: name,
+        columns: columns(false),
+        rows: items.map(batch => row(batch, false)),
+        totals: totals(items, false),
+      })),
+    ],
+  };
+}
+
+/**
+ * Production log entries: every entry, then one section per bread type
+ */
+export function productionReportDocument(logs: ReportProductionLog[], meta: ReportDocumentMeta): ReportDocument {
+  const columns: ReportColumn[] = [
+    { header: 'Date', width: 1.2 },
+    { header: 'Time' },
+    { header: 'Bread Type', width: 2 },
+    { header: 'Shift' },
+    { header: 'Quantity', format: 'number' },
+  ];
+  const row = (log: ReportProductionLog): ReportCell[] => [
+    formatInTimeZone(new Date(log.created_at), meta.timeZone, 'dd MMM yyyy'),
+    formatInTimeZone(new Date(log.created_at), meta.timeZone, 'HH:mm'),
+    log.bread_type_name,
+    capitalize(log.shift),
+    log.quantity,
+  ];
+  const totals = (items: ReportProductionLog[]): ReportCell[] =>
+    ['Total', null, null, null, sum(items, log => log.quantity)];
+
+  const groups = byBreadType(logs, log => log.bread_type_name);
+
+  return {
+    title: meta.title ?? 'Production History',
+    subtitle: meta.subtitle,
+    generatedAt: generatedAt(meta),
+    timeZone: meta.timeZone,
+    metrics: [
+      { label: 'Entries', value: logs.length, format: 'number' },
+      { label: 'Loaves Produced', value: sum(logs, log => log.quantity), format: 'number' },
+      ...Array.from(new Set(logs.map(log => log.shift)), (shift): ReportMetric => ({
+        label: capitalize(shift),
+        value: sum(logs.filter(log => log.shift === shift), log => log.quantity),
+        format: 'number',
+      })),
+    ],
+    chart: {
+      title: 'Loaves by bread type',
+      format: 'number',
+      bars: Array.from(groups, ([name, items]) => ({ label: name, value: sum(items, log => log.quantity) })),
+    },
+    sections: [
+      { title: 'All Entries', columns, rows: logs.map(row), totals: totals(logs) },
+      ...Array.from(groups, ([name, items]): ReportSection => ({
+        title: name,
+        columns,
+        rows: items.map(row),
+        totals: totals(items),
+      })),
+    ],
+  };
+}
@@ -0,0 +1,135 @@
+import { createServer } from '@/lib/supabase/server';
+import { getShiftSchedule } from '@/lib/shift-schedule/actions';
+import { fetchProductionHistory } from '@/lib/production/actions';
+import type { ReportExportInput, ReportExportTarget } from '@/lib/validations';
+import { getReportData, getShiftDetails } from './queries';
+import {
+  REPORT_EXPORT_CONTENT_TYPES,
+  batchesReportDocument,
+  productionReportDocument,
+  reportFileName,
+  shiftReportDocument,
+  summaryReportDocument,
+  type ReportBatch,
+  type ReportDocument,
+  type ReportDocumentMeta,
+} from './document';
+import { renderReportPdf } from './pdf';
+import { renderReportXlsx } from './xlsx';
+
+export interface ReportExportFile {
+  filename: string;
+  contentType: string;
+  body: Uint8Array;
+}
+
+type BatchExportRow = {
+  batch_number: string;
+  actual_quantity: number;
+  target_quantity: number | null;
+  unit_price: number | null;
+  status: string;
+  shift: string;
+  notes: string | null;
+  created_at: string;
+  bread_type: { name: string; unit_price: number } | null;
+  created_by_user: { name: string | null } | null;
+};
+
+type ProductionExportRow = {
+  quantity: number;
+  shift: string;
+  created_at: string;
+  bread_types: { name: string } | null;
+};
+
+async function loadBatches(batchIds: string[]): Promise<ReportBatch[]> {
+  const supabase = await createServer();
+  const { data, error } = await supabase
+    .from('batches')
+    .select(`
+      batch_number, actual_quantity, target_quantity, unit_price, status, shift, notes, created_at,
+      bread_type:bread_types ( name, unit_price ),
+      created_by_user:users!created_by ( name )
+    `)
+    .in('id', batchIds)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return ((data || []) as unknown as BatchExportRow[]).map(batch => ({
+    batch_number: batch.batch_number,
+    bread_type_name: batch.bread_type?.name || 'Unknown',
+    actual_quantity: batch.actual_quantity || 0,
+    target_quantity: batch.target_quantity,
+    // Batches are valued at the price they were made at; older ones fall back to today's
+    unit_price: Number(batch.unit_price ?? batch.bread_type?.unit_price ?? 0),
+    status: batch.status,
+    shift: batch.shift,
+    created_by_name: batch.created_by_user?.name || 'Unknown',
+    created_at: batch.created_at,
+    notes: batch.notes,
+  }));
+}
+
+/**
+ * Loads the data behind an export request and lays it out as a document.
+ * Returns null when the report it points at does not exist.
+ */
+export async function buildReportDocument(
+  target: ReportExportTarget,
+  options: Pick<ReportExportInput, 'title' | 'subtitle'> = {}
+): Promise<ReportDocument | null> {
+  const schedule = await getShiftSchedule();
+  const meta: ReportDocumentMeta = {
+    title: options.title,
+    subtitle: options.subtitle,
+    timeZone: schedule.timezone,
+  };
+
+  switch (target.kind) {
+    case 'summary': {
+      const report = await getReportData(target.filters);
+      return summaryReportDocument(report, meta);
+    }
+    case 'shift': {
+      const shift = await getShiftDetails(target.shiftId);
+      return shift ? shiftReportDocument(shift, meta) : null;
+    }
+    case 'batches': {
+      const batches = await loadBatches(target.batchIds);
+      return batches.length > 0 ? batchesReportDocument(batches, meta) : null;
+    }
+    case 'production': {
+      const logs = (await fetchProductionHistory(target.filters)) as unknown as ProductionExportRow[];
+      return productionReportDocument(
+        logs.map(log => ({
+          bread_type_name: log.bread_types?.name || 'Unknown',
+          quantity: log.quantity,
+          shift: log.shift,
+          created_at: log.created_at,
+        })),
+        meta
+      );
+    }
+  }
+}
+
+/**
+ * The single entry point every report screen exports through: a branded
+ * PDF or a multi-sheet XLSX workbook, generated on the server
+ */
+export async function exportReport(input: ReportExportInput): Promise<ReportExportFile | null> {
+  const document = await buildReportDocument(input.report, input);
+  if (!document) return null;
+
+  const body = input.format === 'pdf'
+    ? await renderReportPdf(document)
+    : await renderReportXlsx(document);
+
+  return {
+    filename: `${reportFileName(document)}.${input.format}`,
+    contentType: REPORT_EXPORT_CONTENT_TYPES[input.format],
+    body,
+  };
+}
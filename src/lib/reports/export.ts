@@ -1,9 +1,11 @@
 'use client';
 
-// Production-ready export utilities without heavy dependencies
-// Replaced jsPDF and html2canvas for better serverless compatibility
+// CSV, text and JSON are built in the browser; PDF and XLSX are generated
+// on the server by /api/reports/export
 
-import { ReportSummary, ShiftSummary } from './queries';
+import { BreadTypeBreakdown, ReportSummary, ShiftSummary } from './queries';
+import type { CustomerStatement, Debtor } from '@/lib/customers/ledger';
+import type { ReportExportInput, ReportExportTarget } from '@/lib/validations';
 
 export interface ExportOptions {
   filename?: string;
@@ -11,6 +13,70 @@ export interface ExportOptions {
   subtitle?: string;
 }
 
+// One CSV line per bread type per shift, including cost and margin
+function toCSVRow(shift: ShiftSummary, bread: BreadTypeBreakdown) {
+  return {
+    Date: shift.date,
+    Shift: shift.shift,
+    'Bread Type': bread.breadTypeName,
+    'Unit Price': bread.breadTypePrice,
+    Produced: bread.produced,
+    Sold: bread.sold,
+    Revenue: bread.revenue,
+    Leftover: bread.leftover,
+    Discounts: bread.discounts,
+    'Unit Cost': bread.unitCost ?? '',
+    COGS: bread.cogs,
+    'Gross Margin': bread.grossMargin,
+    'Margin %': bread.marginPercent.toFixed(1),
+    Wasted: bread.wasted,
+    'Waste %': bread.wastePercent.toFixed(1),
+    'Waste Cost': bread.wasteCost,
+    'Waste Value': bread.wasteValue
+  };
+}
+
+/**
+ * Customer statement as CSV: opening balance, every charge and credit with
+ * the running balance, then the closing balance
+ */
+export function exportCustomerStatementToCSV(statement: CustomerStatement, options: ExportOptions = {}): void {
+  const rows = [
+    { Date: statement.from ?? '', Description: 'Opening balance', Charge: '', Credit: '', Balance: statement.opening_balance, 'Recorded By': '' },
+    ...statement.lines.map(line => ({
+      Date: line.date.slice(0, 10),
+      Description: line.description,
+      Charge: line.charge || '',
+      Credit: line.credit || '',
+      Balance: line.balance,
+      'Recorded By': line.recorded_by
+    })),
+    { Date: statement.to ?? new Date().toISOString().split('T')[0], Description: 'Closing balance', Charge: '', Credit: '', Balance: statement.closing_balance, 'Recorded By': '' }
+  ];
+
+  const slug = statement.customer.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  const filename = options.filename || `statement-${slug}-${new Date().toISOString().split('T')[0]}.csv`;
+  downloadFile(convertToCSV(rows), filename, 'text/csv');
+}
+
+export function exportDebtorsToCSV(debtors: Debtor[], options: ExportOptions = {}): void {
+  const rows = debtors.map(debtor => ({
+    Customer: debtor.name,
+    Phone: debtor.phone ?? '',
+    'Credit Limit': debtor.credit_limit,
+    Balance: debtor.balance,
+    'Over Limit': debtor.over_limit ? 'Yes' : 'No',
+    '0-7 Days': debtor.aging.current,
+    '8-30 Days': debtor.aging.days_8_30,
+    '31-60 Days': debtor.aging.days_31_60,
+    'Over 60 Days': debtor.aging.over_60,
+    'Last Payment': debtor.last_payment_at ? debtor.last_payment_at.slice(0, 10) : ''
+  }));
+
+  const filename = options.filename || `debtors-${new Date().toISOString().split('T')[0]}.csv`;
+  downloadFile(convertToCSV(rows), filename, 'text/csv');
+}
+
 /**
  * Export data to CSV format using native JavaScript
  * More reliable than heavy dependencies in serverless environments
@@ -25,31 +91,11 @@ export function exportToCSV(
     if ('shifts' in reportData) {
       // Multi-shift report
       csvData = reportData.shifts.flatMap(shift => 
-        shift.breadTypeBreakdown.map(bread => ({
-          Date: shift.date,
-          Shift: shift.shift,
-          'Bread Type': bread.breadTypeName,
-          'Unit Price': bread.breadTypePrice,
-          Produced: bread.produced,
-          Sold: bread.sold,
-          Revenue: bread.revenue,
-          Leftover: bread.leftover,
-          Discounts: bread.discounts
-        }))
+        shift.breadTypeBreakdown.map(bread => toCSVRow(shift, bread))
       );
     } else {
       // Single shift report
-      csvData = reportData.breadTypeBreakdown.map(bread => ({
-        Date: reportData.date,
-        Shift: reportData.shift,
-        'Bread Type': bread.breadTypeName,
-        'Unit Price': bread.breadTypePrice,
-        Produced: bread.produced,
-        Sold: bread.sold,
-        Revenue: bread.revenue,
-        Leftover: bread.leftover,
-        Discounts: bread.discounts
-      }));
+      csvData = reportData.breadTypeBreakdown.map(bread => toCSVRow(reportData, bread));
     }
 
     // Convert to CSV manually for better control
@@ -93,7 +139,10 @@ export function exportToText(
              // Multi-shift report
        textContent += `Total Revenue: ₦${reportData.totalRevenue.toLocaleString()}\n`;
        textContent += `Total Production: ${reportData.totalProduced} items\n`;
-       textContent += `Total Sold: ${reportData.totalSold} items\n\n`;
+       textContent += `Total Sold: ${reportData.totalSold} items\n`;
+       textContent += `COGS: ₦${reportData.totalCogs.toLocaleString()}\n`;
+       textContent += `Gross Margin: ₦${reportData.totalGrossMargin.toLocaleString()} (${reportData.marginPercent.toFixed(1)}%)\n`;
+       textContent += `Waste: ${reportData.totalWasted} items (${reportData.wastePercent.toFixed(1)}%), ₦${reportData.totalWasteCost.toLocaleString()} at cost\n\n`;
 
        reportData.shifts.forEach(shift => {
          textContent += `${shift.shift.toUpperCase()} SHIFT - ${shift.date}\n`;
@@ -304,12 +353,47 @@ function downloadFile(content: string, filename: string, mimeType: string): void
   URL.revokeObjectURL(url);
 }
 
-// Legacy PDF export function - now redirects to print
-export async function exportToPDF(
-  elementId: string, 
-  reportData: ReportSummary | ShiftSummary,
-  options: ExportOptions = {}
-): Promise<void> {
-  console.warn('PDF export has been replaced with browser printing for better compatibility');
-  printReport(elementId, options);
-}
\ No newline at end of file
+/**
+ * Ask the server to generate a PDF or XLSX of a report and save it.
+ * The report is described by what to load, not by the data on screen.
+ */
+export async function downloadReportExport(input: ReportExportInput, options: ExportOptions = {}): Promise<void> {
+  const response = await fetch('/api/reports/export', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    const result = await response.json().catch(() => null);
+    throw new Error(result?.error || `Failed to export ${input.format.toUpperCase()}`);
+  }
+
+  const filename = options.filename
+    || response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1]
+    || `homebake-report-${new Date().toISOString().split('T')[0]}.${input.format}`;
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Branded PDF with summary, charts and tables, generated on the server
+ */
+export function exportToPDF(report: ReportExportTarget, options: ExportOptions = {}): Promise<void> {
+  return downloadReportExport({ format: 'pdf', report, title: options.title, subtitle: options.subtitle }, options);
+}
+
+/**
+ * XLSX workbook with a summary sheet and one sheet per shift or bread type
+ */
+export function exportToXLSX(report: ReportExportTarget, options: ExportOptions = {}): Promise<void> {
+  return downloadReportExport({ format: 'xlsx', report, title: options.title, subtitle: options.subtitle }, options);
+}
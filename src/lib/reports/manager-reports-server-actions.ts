@@ -1,6 +1,7 @@
 'use server'
 
 import { createServer } from '@/lib/supabase/server'
+import { loadManagerReports } from './report-loaders'
 
 export interface BatchData {
   id: string
@@ -30,19 +31,6 @@ export interface GroupedReport {
   latestEndTime: string
 }
 
-// Helper to safely extract name from possible array/object/null
-const getName = (val: unknown): string => {
-  if (!val) return 'Unknown'
-  if (Array.isArray(val)) {
-    if (val.length && typeof val[0]?.name === 'string') return val[0].name
-    return 'Unknown'
-  }
-  if (typeof val === 'object' && val !== null && 'name' in val && typeof val.name === 'string') {
-    return val.name
-  }
-  return 'Unknown'
-}
-
 /**
  * Fetch manager reports with role-based isolation (from all_batches table) - Server Action
  */
@@ -63,73 +51,9 @@ export async function getManagerReports(): Promise<GroupedReport[]> {
       .single()
 
     const userRole = userProfile?.role || 'sales_rep'
-    
-    let query = supabase
-      .from('all_batches')
-      .select(`
-        id, bread_type_id, batch_number, start_time, end_time, actual_quantity, 
-        status, shift, created_by, notes,
-        bread_types (name), 
-        users:created_by (name)
-      `)
 
     // Role-based filtering: Manager isolation, Owner/Sales Rep see all
-    if (userRole === 'manager') {
-      query = query.eq('created_by', user.id)
-    }
-    // Owner and sales_rep see all reports (no filter)
-
-    const { data: batches, error } = await query.order('start_time', { ascending: false })
-
-    if (error) {
-      console.error('Error fetching manager reports:', error)
-      return []
-    }
-
-    // Group by date+shift+manager to isolate reports per manager
-    const groups: Record<string, any> = {}
-    for (const batch of batches || []) {
-      const date = batch.start_time ? batch.start_time.split('T')[0] : 'unknown'
-      const shift = batch.shift
-      const key = `${date}-${shift}-${batch.created_by}`
-      
-      if (!groups[key]) {
-        groups[key] = {
-          id: key,
-          date,
-          shift,
-          batches: [],
-          manager: getName(batch.users),
-          breadTypes: new Set(),
-          totalUnits: 0,
-          endTimes: [],
-          statuses: []
-        }
-      }
-      
-      groups[key].batches.push(batch)
-      const breadTypeName = getName(batch.bread_types)
-      if (breadTypeName && breadTypeName !== 'Unknown') {
-        groups[key].breadTypes.add(breadTypeName)
-      }
-      if (batch.end_time) groups[key].endTimes.push(batch.end_time)
-      groups[key].statuses.push(batch.status)
-      groups[key].totalUnits += batch.actual_quantity || 0
-    }
-
-    // Convert to array with calculated fields
-    // Since all_batches contains historical/completed records, all should be marked as completed
-    const result = Object.values(groups).map((g: any) => {
-      return {
-        ...g,
-        totalBatches: g.batches.length,
-        status: 'Completed', // All records from all_batches are completed by definition
-        latestEndTime: g.endTimes.length > 0 ? g.endTimes.sort().slice(-1)[0] : '',
-        breadTypes: Array.from(g.breadTypes),
-      }
-    })
-
-    return result
+    return await loadManagerReports(supabase, userRole === 'manager' ? user.id : null)
   } catch (error) {
     console.error('Error fetching manager reports:', error)
     return []
@@ -0,0 +1,235 @@
+import { PDFDocument, StandardFonts, rgb, type Color, type PDFFont, type PDFPage } from 'pdf-lib';
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  REPORT_BRAND_NAME,
+  formatReportValue,
+  type ReportCell,
+  type ReportChart,
+  type ReportDocument,
+  type ReportMetric,
+  type ReportSection,
+} from './document';
+
+// A4 landscape so the bread type breakdown fits on one line
+const PAGE_WIDTH = 841.89;
+const PAGE_HEIGHT = 595.28;
+const MARGIN = 36;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 24;
+
+const BRAND = rgb(0.976, 0.451, 0.086);
+const BRAND_TINT = rgb(1, 0.969, 0.929);
+const TEXT = rgb(0.133, 0.133, 0.133);
+const MUTED = rgb(0.42, 0.447, 0.502);
+const RULE = rgb(0.898, 0.906, 0.922);
+const WHITE = rgb(1, 1, 1);
+
+const ROW_HEIGHT = 16;
+const TABLE_FONT_SIZE = 8;
+const METRICS_PER_ROW = 4;
+const CHART_MAX_BARS = 12;
+
+// Characters outside Latin-1 that the WinAnsi standard fonts can still draw
+const WIN_ANSI_EXTRAS = new Set(['•', '–', '—', '…', '‘', '’', '“', '”', '€']);
+
+/**
+ * Text the standard fonts can encode; accents are dropped and anything
+ * else (emoji, the naira sign) becomes '?'
+ */
+function pdfText(text: string): string {
+  return Array.from(text.normalize('NFKD').replace(/[\u0300-\u036f]/g, ''), char => {
+    const code = char.charCodeAt(0);
+    if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.has(char)) return char;
+    return '?';
+  }).join('');
+}
+
+function fitText(text: string, font: PDFFont, size: number, width: number): string {
+  const clean = pdfText(text);
+  if (font.widthOfTextAtSize(clean, size) <= width) return clean;
+  let end = clean.length;
+  while (end > 0 && font.widthOfTextAtSize(`${clean.slice(0, end)}...`, size) > width) end--;
+  return end > 0 ? `${clean.slice(0, end)}...` : '';
+}
+
+/**
+ * A branded PDF of the report: header band, metric cards, bar charts and
+ * tables that carry their header row over page breaks
+ */
+export async function renderReportPdf(report: ReportDocument): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`${REPORT_BRAND_NAME} ${report.title}`);
+  pdf.setAuthor(REPORT_BRAND_NAME);
+  pdf.setCreationDate(new Date(report.generatedAt));
+
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const generated = formatInTimeZone(new Date(report.generatedAt), report.timeZone, 'dd MMM yyyy HH:mm');
+
+  let page: PDFPage;
+  let y = 0;
+
+  const draw = (text: string, x: number, top: number, options: { size?: number; font?: PDFFont; color?: Color } = {}) => {
+    const size = options.size ?? 10;
+    page.drawText(pdfText(text), { x, y: top - size, size, font: options.font ?? font, color: options.color ?? TEXT });
+  };
+
+  const addPage = () => {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+
+    if (pdf.getPageCount() === 1) {
+      page.drawRectangle({ x: 0, y: PAGE_HEIGHT - 78, width: PAGE_WIDTH, height: 78, color: BRAND });
+      draw(REPORT_BRAND_NAME, MARGIN, PAGE_HEIGHT - 18, { size: 20, font: bold, color: WHITE });
+      draw(report.title, MARGIN, PAGE_HEIGHT - 46, { size: 13, color: WHITE });
+      y = PAGE_HEIGHT - 96;
+      if (report.subtitle) {
+        draw(report.subtitle, MARGIN, y, { size: 10, color: MUTED });
+        y -= 14;
+      }
+      draw(`Generated ${generated}`, MARGIN, y, { size: 9, color: MUTED });
+      y -= 24;
+    } else {
+      draw(`${REPORT_BRAND_NAME} • ${report.title}`, MARGIN, y, { size: 9, font: bold, color: BRAND });
+      y -= 14;
+      page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 1, color: BRAND });
+      y -= 14;
+    }
+  };
+
+  // Starts a new page unless the next block fits above the footer
+  const ensure = (height: number) => {
+    if (y - height < MARGIN + FOOTER_HEIGHT) addPage();
+  };
+
+  const heading = (text: string) => {
+    ensure(22 + ROW_HEIGHT * 2);
+    draw(text, MARGIN, y, { size: 12, font: bold });
+    y -= 20;
+  };
+
+  const drawMetrics = (metrics: ReportMetric[]) => {
+    const gap = 8;
+    const cardWidth = (CONTENT_WIDTH - gap * (METRICS_PER_ROW - 1)) / METRICS_PER_ROW;
+    const cardHeight = 42;
+
+    for (let start = 0; start < metrics.length; start += METRICS_PER_ROW) {
+      ensure(cardHeight + gap);
+      metrics.slice(start, start + METRICS_PER_ROW).forEach((metric, index) => {
+        const x = MARGIN + index * (cardWidth + gap);
+        page.drawRectangle({ x, y: y - cardHeight, width: cardWidth, height: cardHeight, color: BRAND_TINT, borderColor: RULE, borderWidth: 0.5 });
+        draw(fitText(metric.label, font, 8, cardWidth - 16), x + 8, y - 7, { size: 8, color: MUTED });
+        draw(fitText(formatReportValue(metric.value, metric.format), bold, 13, cardWidth - 16), x + 8, y - 20, { size: 13, font: bold });
+      });
+      y -= cardHeight + gap;
+    }
+    y -= 10;
+  };
+
+  // Horizontal bars, largest first
+  const drawChart = (chart: ReportChart) => {
+    const bars = chart.bars.filter(bar => bar.value !== 0).sort((a, b) => b.value - a.value).slice(0, CHART_MAX_BARS);
+    if (bars.length === 0) return;
+
+    const labelWidth = 160;
+    const valueWidth = 90;
+    const barArea = CONTENT_WIDTH - labelWidth - valueWidth;
+    const max = Math.max(...bars.map(bar => Math.abs(bar.value)));
+
+    ensure(20 + ROW_HEIGHT * Math.min(bars.length, 4));
+    draw(chart.title, MARGIN, y, { size: 10, font: bold, color: MUTED });
+    y -= 18;
+
+    bars.forEach(bar => {
+      ensure(ROW_HEIGHT);
+      const barWidth = max > 0 ? Math.max((Math.abs(bar.value) / max) * barArea, 1) : 1;
+      draw(fitText(bar.label, font, TABLE_FONT_SIZE, labelWidth - 8), MARGIN, y - 2, { size: TABLE_FONT_SIZE });
+      page.drawRectangle({
+        x: MARGIN + labelWidth,
+        y: y - ROW_HEIGHT + 4,
+        width: barWidth,
+        height: ROW_HEIGHT - 6,
+        color: bar.value < 0 ? rgb(0.863, 0.149, 0.149) : BRAND,
+      });
+      draw(formatReportValue(bar.value, chart.format), MARGIN + labelWidth + barWidth + 6, y - 2, { size: TABLE_FONT_SIZE, color: MUTED });
+      y -= ROW_HEIGHT;
+    });
+    y -= 12;
+  };
+
+  const drawTable = (section: ReportSection) => {
+    const weights = section.columns.map(column => column.width ?? (column.format && column.format !== 'text' ? 1 : 2));
+    const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+    const widths = weights.map(weight => (weight / totalWeight) * CONTENT_WIDTH);
+    const padding = 4;
+
+    const drawRow = (cells: ReportCell[], options: { header?: boolean; total?: boolean; shade?: boolean }) => {
+      const rowFont = options.header || options.total ? bold : font;
+      if (options.header) {
+        page.drawRectangle({ x: MARGIN, y: y - ROW_HEIGHT, width: CONTENT_WIDTH, height: ROW_HEIGHT, color: BRAND });
+      } else if (options.shade) {
+        page.drawRectangle({ x: MARGIN, y: y - ROW_HEIGHT, width: CONTENT_WIDTH, height: ROW_HEIGHT, color: BRAND_TINT });
+      }
+      if (options.total) {
+        page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 0.75, color: TEXT });
+      }
+
+      let x = MARGIN;
+      section.columns.forEach((column, index) => {
+        const width = widths[index];
+        const text = options.header
+          ? column.header
+          : formatReportValue(cells[index] ?? null, column.format);
+        const fitted = fitText(text, rowFont, TABLE_FONT_SIZE, width - padding * 2);
+        const numeric = column.format !== undefined && column.format !== 'text';
+        const textX = numeric
+          ? x + width - padding - rowFont.widthOfTextAtSize(fitted, TABLE_FONT_SIZE)
+          : x + padding;
+        draw(fitted, textX, y - 4, { size: TABLE_FONT_SIZE, font: rowFont, color: options.header ? WHITE : TEXT });
+        x += width;
+      });
+      y -= ROW_HEIGHT;
+    };
+
+    const header = () => drawRow([], { header: true });
+
+    header();
+    if (section.rows.length === 0) {
+      draw('No data for this period', MARGIN + padding, y - 4, { size: TABLE_FONT_SIZE, color: MUTED });
+      y -= ROW_HEIGHT;
+    }
+    section.rows.forEach((cells, index) => {
+      if (y - ROW_HEIGHT < MARGIN + FOOTER_HEIGHT) {
+        addPage();
+        header();
+      }
+      drawRow(cells, { shade: index % 2 === 1 });
+    });
+    if (section.totals) {
+      ensure(ROW_HEIGHT);
+      drawRow(section.totals, { total: true });
+    }
+    y -= 18;
+  };
+
+  addPage();
+  drawMetrics(report.metrics);
+  if (report.chart) drawChart(report.chart);
+
+  report.sections.forEach(section => {
+    heading(section.title);
+    if (section.chart) drawChart(section.chart);
+    drawTable(section);
+  });
+
+  const pages = pdf.getPages();
+  pages.forEach((footerPage, index) => {
+    page = footerPage;
+    page.drawLine({ start: { x: MARGIN, y: MARGIN + 14 }, end: { x: PAGE_WIDTH - MARGIN, y: MARGIN + 14 }, thickness: 0.5, color: RULE });
+    draw(`${REPORT_BRAND_NAME} Management System`, MARGIN, MARGIN + 8, { size: 8, color: MUTED });
+    const pageLabel = `Page ${index + 1} of ${pages.length}`;
+    draw(pageLabel, PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(pageLabel, 8), MARGIN + 8, { size: 8, color: MUTED });
+  });
+
+  return pdf.save();
+}
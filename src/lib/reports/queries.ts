@@ -2,6 +2,8 @@
 
 import { createServer } from '@/lib/supabase/server';
 import { BreadType, ShiftType } from '@/types';
+import { shiftKeySchema } from '@/lib/validations';
+import { loadReportData } from './report-loaders';
 
 export interface ReportFilters {
   startDate?: string;
@@ -20,6 +22,13 @@ export interface ShiftSummary {
   totalRevenue: number;
   totalLeftover: number;
   totalDiscounts: number;
+  totalVoided: number;
+  totalCogs: number;
+  totalGrossMargin: number;
+  totalWasted: number;
+  totalWasteCost: number;
+  totalWasteValue: number;
+  wastePercent: number;
   breadTypeBreakdown: BreadTypeBreakdown[];
   recordedBy: string;
   createdAt: Date;
@@ -34,6 +43,36 @@ export interface BreadTypeBreakdown {
   revenue: number;
   leftover: number;
   discounts: number;
+  voided: number; // loaves voided or refunded, already taken off sold
+  voidedAmount: number; // already taken off revenue
+  unitCost: number | null; // null when no manual cost or priced recipe exists
+  cogs: number;
+  grossMargin: number;
+  marginPercent: number;
+  wasted: number; // loaves in the waste log
+  wasteCost: number; // at cost per loaf
+  wasteValue: number; // at selling price
+  wastePercent: number; // of produced
+}
+
+// Waste across every run of one shift in the period
+export interface ShiftWaste {
+  produced: number;
+  wasted: number;
+  wasteCost: number;
+  wasteValue: number;
+  wastePercent: number;
+}
+
+// Sales priced by one promotion; revenue is after its discount and any voids
+export interface PromotionPerformance {
+  promotionId: string;
+  name: string;
+  kind: string;
+  sales: number;
+  loaves: number;
+  revenue: number;
+  discount: number;
 }
 
 export interface ReportSummary {
@@ -42,206 +81,31 @@ export interface ReportSummary {
   totalRevenue: number;
   totalLeftover: number;
   totalDiscounts: number;
+  totalVoided: number;
+  totalCogs: number;
+  totalGrossMargin: number;
+  marginPercent: number;
+  totalWasted: number;
+  totalWasteCost: number;
+  totalWasteValue: number;
+  wastePercent: number;
+  // Keyed by shift key; only shifts that ran in the period
+  wasteByShift: Record<string, ShiftWaste>;
   averageDailyRevenue: number;
   bestPerformingBreadType: string;
   bestPerformingShift: ShiftType;
+  breadTypeTotals: BreadTypeBreakdown[];
+  promotions: PromotionPerformance[];
+  // Sales without a promotion, to compare against
+  salesWithoutPromotion: { sales: number; loaves: number; revenue: number; discount: number };
   shifts: ShiftSummary[];
 }
 
+/**
+ * Report for a date range, as the signed-in user sees it
+ */
 export async function getReportData(filters: ReportFilters = {}): Promise<ReportSummary> {
-  const supabase = await createServer();
-  
-  // Set default date range (last 30 days)
-  const endDate = filters.endDate || new Date().toISOString().split('T')[0];
-  const startDate = filters.startDate || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-
-  // Build date range for queries
-  const startDateTime = new Date(startDate);
-  startDateTime.setHours(0, 0, 0, 0);
-  const endDateTime = new Date(endDate);
-  endDateTime.setHours(23, 59, 59, 999);
-
-  // Fetch production logs
-  let productionQuery = supabase
-    .from('production_logs')
-    .select(`
-      *,
-      bread_types (
-        id,
-        name,
-        unit_price
-      )
-    `)
-    .gte('created_at', startDateTime.toISOString())
-    .lte('created_at', endDateTime.toISOString())
-    .order('created_at', { ascending: false });
-
-  if (filters.shift) productionQuery = productionQuery.eq('shift', filters.shift);
-  if (filters.breadTypeId) productionQuery = productionQuery.eq('bread_type_id', filters.breadTypeId);
-  if (filters.recordedBy) productionQuery = productionQuery.eq('recorded_by', filters.recordedBy);
-
-  // Fetch sales logs
-  let salesQuery = supabase
-    .from('sales_logs')
-    .select(`
-      *,
-      bread_types (
-        id,
-        name,
-        unit_price
-      )
-    `)
-    .gte('created_at', startDateTime.toISOString())
-    .lte('created_at', endDateTime.toISOString())
-    .order('created_at', { ascending: false });
-
-  if (filters.shift) salesQuery = salesQuery.eq('shift', filters.shift);
-  if (filters.breadTypeId) salesQuery = salesQuery.eq('bread_type_id', filters.breadTypeId);
-  if (filters.recordedBy) salesQuery = salesQuery.eq('recorded_by', filters.recordedBy);
-
-  const [{ data: productionLogs = [] }, { data: salesLogs = [] }] = await Promise.all([
-    productionQuery,
-    salesQuery
-  ]);
-
-  // Group data by date and shift
-  const shifts = new Map<string, ShiftSummary>();
-
-  // Process production logs
-  (productionLogs || []).forEach((log: any) => {
-    const date = new Date(log.created_at).toISOString().split('T')[0];
-    const shiftKey = `${date}-${log.shift}`;
-    
-    if (!shifts.has(shiftKey)) {
-      shifts.set(shiftKey, {
-        id: shiftKey,
-        date,
-        shift: log.shift,
-        totalProduced: 0,
-        totalSold: 0,
-        totalRevenue: 0,
-        totalLeftover: 0,
-        totalDiscounts: 0,
-        breadTypeBreakdown: [],
-        recordedBy: log.recorded_by,
-        createdAt: new Date(log.created_at)
-      });
-    }
-
-    const shift = shifts.get(shiftKey)!;
-    shift.totalProduced += log.quantity;
-
-    // Update bread type breakdown
-    let breadTypeBreakdown = shift.breadTypeBreakdown.find(b => b.breadTypeId === log.bread_type_id);
-    if (!breadTypeBreakdown) {
-      breadTypeBreakdown = {
-        breadTypeId: log.bread_type_id,
-        breadTypeName: log.bread_types?.name || 'Unknown',
-        breadTypePrice: log.bread_types?.unit_price || 0,
-        produced: 0,
-        sold: 0,
-        revenue: 0,
-        leftover: 0,
-        discounts: 0
-      };
-      shift.breadTypeBreakdown.push(breadTypeBreakdown);
-    }
-    breadTypeBreakdown.produced += log.quantity;
-  });
-
-  // Process sales logs
-  (salesLogs || []).forEach((log: any) => {
-    const date = new Date(log.created_at).toISOString().split('T')[0];
-    const shiftKey = `${date}-${log.shift}`;
-    
-    if (!shifts.has(shiftKey)) {
-      shifts.set(shiftKey, {
-        id: shiftKey,
-        date,
-        shift: log.shift,
-        totalProduced: 0,
-        totalSold: 0,
-        totalRevenue: 0,
-        totalLeftover: 0,
-        totalDiscounts: 0,
-        breadTypeBreakdown: [],
-        recordedBy: log.recorded_by,
-        createdAt: new Date(log.created_at)
-      });
-    }
-
-    const shift = shifts.get(shiftKey)!;
-    shift.totalSold += log.quantity;
-    shift.totalRevenue += (log.quantity * (log.unit_price || log.bread_types?.unit_price || 0)) - (log.discount || 0);
-    shift.totalLeftover += log.leftover || 0;
-    shift.totalDiscounts += log.discount || 0;
-
-    // Update bread type breakdown
-    let breadTypeBreakdown = shift.breadTypeBreakdown.find(b => b.breadTypeId === log.bread_type_id);
-    if (!breadTypeBreakdown) {
-      breadTypeBreakdown = {
-        breadTypeId: log.bread_type_id,
-        breadTypeName: log.bread_types?.name || 'Unknown',
-        breadTypePrice: log.bread_types?.unit_price || 0,
-        produced: 0,
-        sold: 0,
-        revenue: 0,
-        leftover: 0,
-        discounts: 0
-      };
-      shift.breadTypeBreakdown.push(breadTypeBreakdown);
-    }
-    breadTypeBreakdown.sold += log.quantity;
-    breadTypeBreakdown.revenue += (log.quantity * (log.unit_price || log.bread_types?.unit_price || 0)) - (log.discount || 0);
-    breadTypeBreakdown.leftover += log.leftover || 0;
-    breadTypeBreakdown.discounts += log.discount || 0;
-  });
-
-  const shiftsArray = Array.from(shifts.values()).sort((a, b) => 
-    new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-  );
-
-  // Calculate summary totals
-  const totalProduced = shiftsArray.reduce((sum, shift) => sum + shift.totalProduced, 0);
-  const totalSold = shiftsArray.reduce((sum, shift) => sum + shift.totalSold, 0);
-  const totalRevenue = shiftsArray.reduce((sum, shift) => sum + shift.totalRevenue, 0);
-  const totalLeftover = shiftsArray.reduce((sum, shift) => sum + shift.totalLeftover, 0);
-  const totalDiscounts = shiftsArray.reduce((sum, shift) => sum + shift.totalDiscounts, 0);
-
-  const uniqueDays = new Set(shiftsArray.map(s => s.date)).size;
-  const averageDailyRevenue = uniqueDays > 0 ? totalRevenue / uniqueDays : 0;
-
-  // Find best performing bread type
-  const breadTypeRevenues = new Map<string, number>();
-  shiftsArray.forEach(shift => {
-    shift.breadTypeBreakdown.forEach(bread => {
-      const current = breadTypeRevenues.get(bread.breadTypeName) || 0;
-      breadTypeRevenues.set(bread.breadTypeName, current + bread.revenue);
-    });
-  });
-  const bestPerformingBreadType = Array.from(breadTypeRevenues.entries())
-    .sort((a, b) => b[1] - a[1])[0]?.[0] || 'N/A';
-
-  // Find best performing shift
-  const shiftRevenues = new Map<ShiftType, number>();
-  shiftsArray.forEach(shift => {
-    const current = shiftRevenues.get(shift.shift) || 0;
-    shiftRevenues.set(shift.shift, current + shift.totalRevenue);
-  });
-  const bestPerformingShift = Array.from(shiftRevenues.entries())
-    .sort((a, b) => b[1] - a[1])[0]?.[0] || 'morning';
-
-  return {
-    totalProduced,
-    totalSold,
-    totalRevenue,
-    totalLeftover,
-    totalDiscounts,
-    averageDailyRevenue,
-    bestPerformingBreadType,
-    bestPerformingShift,
-    shifts: shiftsArray
-  };
+  return loadReportData(await createServer(), filters);
 }
 
 /**
@@ -286,9 +150,21 @@ export async function getBatchReportsFromAllBatches(filters: ReportFilters = {})
       totalRevenue: 0,
       totalLeftover: 0,
       totalDiscounts: 0,
+      totalVoided: 0,
+      totalCogs: 0,
+      totalGrossMargin: 0,
+      marginPercent: 0,
+      totalWasted: 0,
+      totalWasteCost: 0,
+      totalWasteValue: 0,
+      wastePercent: 0,
+      wasteByShift: {},
       averageDailyRevenue: 0,
       bestPerformingBreadType: 'N/A',
       bestPerformingShift: 'morning',
+      breadTypeTotals: [],
+      promotions: [],
+      salesWithoutPromotion: { sales: 0, loaves: 0, revenue: 0, discount: 0 },
       shifts: []
     };
   }
@@ -328,12 +204,22 @@ export async function getBatchReportsFromAllBatches(filters: ReportFilters = {})
       group.breadTypeBreakdown.set(breadTypeId, {
         breadTypeId,
         breadTypeName: batch.bread_types?.name || 'Unknown',
-        breadTypePrice: batch.bread_types?.unit_price || 0,
+        breadTypePrice: batch.unit_price || batch.bread_types?.unit_price || 0,
         produced: 0,
         sold: 0,
         revenue: 0,
         leftover: 0,
         discounts: 0,
+        voided: 0,
+        voidedAmount: 0,
+        unitCost: null,
+        cogs: 0,
+        grossMargin: 0,
+        marginPercent: 0,
+        wasted: 0,
+        wasteCost: 0,
+        wasteValue: 0,
+        wastePercent: 0,
       });
     }
     const breadType = group.breadTypeBreakdown.get(breadTypeId);
@@ -355,6 +241,13 @@ export async function getBatchReportsFromAllBatches(filters: ReportFilters = {})
       totalRevenue: 0, // Not tracked in all_batches
       totalLeftover: 0, // Not tracked in all_batches
       totalDiscounts: 0, // Not tracked in all_batches
+      totalVoided: 0,
+      totalCogs: 0, // Not tracked in all_batches
+      totalGrossMargin: 0, // Not tracked in all_batches
+      totalWasted: 0, // Not tracked in all_batches
+      totalWasteCost: 0, // Not tracked in all_batches
+      totalWasteValue: 0, // Not tracked in all_batches
+      wastePercent: 0, // Not tracked in all_batches
       breadTypeBreakdown: Array.from(group.breadTypeBreakdown.values()),
       recordedBy: manager,
       createdAt: new Date(group.createdAts.sort()[0]),
@@ -385,18 +278,33 @@ export async function getBatchReportsFromAllBatches(filters: ReportFilters = {})
     totalRevenue: 0,
     totalLeftover: 0,
     totalDiscounts: 0,
+    totalVoided: 0,
+    totalCogs: 0,
+    totalGrossMargin: 0,
+    marginPercent: 0,
+    totalWasted: 0,
+    totalWasteCost: 0,
+    totalWasteValue: 0,
+    wastePercent: 0,
+    wasteByShift: {},
     averageDailyRevenue: 0,
     bestPerformingBreadType: 'N/A',
     bestPerformingShift: 'morning',
+    breadTypeTotals: [],
+    promotions: [],
+    salesWithoutPromotion: { sales: 0, loaves: 0, revenue: 0, discount: 0 },
     shifts: shiftsArray,
     // Optionally, add totalBatches if needed
   };
 }
 
 export async function getShiftDetails(shiftId: string): Promise<ShiftSummary | null> {
-  const [date, shift] = shiftId.split('-');
+  // Ids are `${date}-${shift}`, and the date has dashes of its own
+  const separator = shiftId.lastIndexOf('-');
+  const date = shiftId.slice(0, separator);
+  const shift = shiftId.slice(separator + 1);
   
-  if (!date || !shift || !['morning', 'night'].includes(shift)) {
+  if (!date || !shiftKeySchema.safeParse(shift).success) {
     return null;
   }
 
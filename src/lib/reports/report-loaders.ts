@@ -0,0 +1,530 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import type { ShiftType } from '@/types';
+import { getBreadTypeUnitCosts } from '@/lib/ingredients/costing';
+import { valueWaste, wastePercent } from '@/lib/waste/waste';
+import type {
+  BreadTypeBreakdown,
+  PromotionPerformance,
+  ReportFilters,
+  ReportSummary,
+  ShiftSummary,
+  ShiftWaste,
+} from './queries';
+import type {
+  RemainingBreadItem,
+  SalesDataItem,
+  SalesReport,
+  VoidDataItem,
+} from './sales-reports-server-actions';
+import type { PaymentTotals } from './shift-report-summary';
+import type { GroupedReport } from './manager-reports-server-actions';
+
+/**
+ * Report queries that run with whichever Supabase client they are given
+ *
+ * The server actions in queries.ts, sales-reports-server-actions.ts and
+ * manager-reports-server-actions.ts call these with the signed-in user's
+ * client. Scheduled report emails call them with the service role, which is
+ * why this is a plain module rather than 'use server': nothing here can be
+ * called from the browser.
+ */
+
+function emptyShiftSummary(id: string, date: string, shift: ShiftType, recordedBy: string, createdAt: string): ShiftSummary {
+  return {
+    id,
+    date,
+    shift,
+    totalProduced: 0,
+    totalSold: 0,
+    totalRevenue: 0,
+    totalLeftover: 0,
+    totalDiscounts: 0,
+    totalVoided: 0,
+    totalCogs: 0,
+    totalGrossMargin: 0,
+    totalWasted: 0,
+    totalWasteCost: 0,
+    totalWasteValue: 0,
+    wastePercent: 0,
+    breadTypeBreakdown: [],
+    recordedBy,
+    createdAt: new Date(createdAt)
+  };
+}
+
+function emptyBreadTypeBreakdown(breadTypeId: string, breadTypeName: string, breadTypePrice: number): BreadTypeBreakdown {
+  return {
+    breadTypeId,
+    breadTypeName,
+    breadTypePrice,
+    produced: 0,
+    sold: 0,
+    revenue: 0,
+    leftover: 0,
+    discounts: 0,
+    voided: 0,
+    voidedAmount: 0,
+    unitCost: null,
+    cogs: 0,
+    grossMargin: 0,
+    marginPercent: 0,
+    wasted: 0,
+    wasteCost: 0,
+    wasteValue: 0,
+    wastePercent: 0
+  };
+}
+
+function emptyShiftWaste(): ShiftWaste {
+  return { produced: 0, wasted: 0, wasteCost: 0, wasteValue: 0, wastePercent: 0 };
+}
+
+function marginPercent(grossMargin: number, revenue: number): number {
+  return revenue > 0 ? (grossMargin / revenue) * 100 : 0;
+}
+
+/**
+ * Sales, production, margins and waste for a date range
+ */
+export async function loadReportData(
+  supabase: SupabaseClient<Database>,
+  filters: ReportFilters = {}
+): Promise<ReportSummary> {  
+  // Set default date range (last 30 days)
+  const endDate = filters.endDate || new Date().toISOString().split('T')[0];
+  const startDate = filters.startDate || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+  // Build date range for queries
+  const startDateTime = new Date(startDate);
+  startDateTime.setHours(0, 0, 0, 0);
+  const endDateTime = new Date(endDate);
+  endDateTime.setHours(23, 59, 59, 999);
+
+  // Fetch production logs
+  let productionQuery = supabase
+    .from('production_logs')
+    .select(`
+      *,
+      bread_types (
+        id,
+        name,
+        unit_price
+      )
+    `)
+    .gte('created_at', startDateTime.toISOString())
+    .lte('created_at', endDateTime.toISOString())
+    .order('created_at', { ascending: false });
+
+  if (filters.shift) productionQuery = productionQuery.eq('shift', filters.shift);
+  if (filters.breadTypeId) productionQuery = productionQuery.eq('bread_type_id', filters.breadTypeId);
+  if (filters.recordedBy) productionQuery = productionQuery.eq('recorded_by', filters.recordedBy);
+
+  // Fetch sales logs with any voids and refunds against them
+  let salesQuery = supabase
+    .from('sales_logs')
+    .select(`
+      *,
+      bread_types (
+        id,
+        name,
+        unit_price
+      ),
+      sale_voids (
+        quantity,
+        amount
+      ),
+      promotions (
+        id,
+        name,
+        kind
+      )
+    `)
+    .gte('created_at', startDateTime.toISOString())
+    .lte('created_at', endDateTime.toISOString())
+    .order('created_at', { ascending: false });
+
+  if (filters.shift) salesQuery = salesQuery.eq('shift', filters.shift);
+  if (filters.breadTypeId) salesQuery = salesQuery.eq('bread_type_id', filters.breadTypeId);
+  if (filters.recordedBy) salesQuery = salesQuery.eq('recorded_by', filters.recordedBy);
+
+  // Fetch wasted loaves
+  let wasteQuery = supabase
+    .from('waste_logs')
+    .select('bread_type_id, shift, quantity, unit_cost, unit_price, recorded_by, created_at, bread_types ( name )')
+    .gte('created_at', startDateTime.toISOString())
+    .lte('created_at', endDateTime.toISOString());
+
+  if (filters.shift) wasteQuery = wasteQuery.eq('shift', filters.shift);
+  if (filters.breadTypeId) wasteQuery = wasteQuery.eq('bread_type_id', filters.breadTypeId);
+  if (filters.recordedBy) wasteQuery = wasteQuery.eq('recorded_by', filters.recordedBy);
+
+  const [{ data: productionLogs = [] }, { data: salesLogs = [] }, { data: wasteLogs = [] }, unitCosts] = await Promise.all([
+    productionQuery,
+    salesQuery,
+    wasteQuery,
+    getBreadTypeUnitCosts(supabase)
+  ]);
+
+  // Group data by date and shift
+  const shifts = new Map<string, ShiftSummary>();
+  const promotions = new Map<string, PromotionPerformance>();
+  const salesWithoutPromotion = { sales: 0, loaves: 0, revenue: 0, discount: 0 };
+
+  // Process production logs
+  (productionLogs || []).forEach((log) => {
+    const createdAt = log.created_at || new Date().toISOString();
+    const date = new Date(createdAt).toISOString().split('T')[0];
+    const shiftKey = `${date}-${log.shift}`;
+    
+    if (!shifts.has(shiftKey)) {
+      shifts.set(shiftKey, emptyShiftSummary(shiftKey, date, log.shift, log.recorded_by, createdAt));
+    }
+
+    const shift = shifts.get(shiftKey)!;
+    shift.totalProduced += log.quantity;
+
+    // Update bread type breakdown
+    let breadTypeBreakdown = shift.breadTypeBreakdown.find(b => b.breadTypeId === log.bread_type_id);
+    if (!breadTypeBreakdown) {
+      breadTypeBreakdown = emptyBreadTypeBreakdown(
+        log.bread_type_id,
+        log.bread_types?.name || 'Unknown',
+        log.unit_price || log.bread_types?.unit_price || 0
+      );
+      shift.breadTypeBreakdown.push(breadTypeBreakdown);
+    }
+    breadTypeBreakdown.produced += log.quantity;
+  });
+
+  // Process sales logs
+  (salesLogs || []).forEach((log) => {
+    const createdAt = log.created_at || new Date().toISOString();
+    const date = new Date(createdAt).toISOString().split('T')[0];
+    const shiftKey = `${date}-${log.shift}`;
+    
+    if (!shifts.has(shiftKey)) {
+      shifts.set(shiftKey, emptyShiftSummary(shiftKey, date, log.shift, log.recorded_by, createdAt));
+    }
+
+    const shift = shifts.get(shiftKey)!;
+    const voidedQuantity = (log.sale_voids || []).reduce((sum: number, v: { quantity: number }) => sum + v.quantity, 0);
+    const voidedAmount = (log.sale_voids || []).reduce((sum: number, v: { amount: number }) => sum + Number(v.amount), 0);
+    shift.totalSold += log.quantity - voidedQuantity;
+    shift.totalRevenue += (log.quantity * (log.unit_price || log.bread_types?.unit_price || 0)) - (log.discount || 0) - voidedAmount;
+    shift.totalLeftover += log.leftovers || 0;
+    shift.totalDiscounts += log.discount || 0;
+    shift.totalVoided += voidedAmount;
+
+    // Update bread type breakdown
+    let breadTypeBreakdown = shift.breadTypeBreakdown.find(b => b.breadTypeId === log.bread_type_id);
+    if (!breadTypeBreakdown) {
+      breadTypeBreakdown = emptyBreadTypeBreakdown(
+        log.bread_type_id,
+        log.bread_types?.name || 'Unknown',
+        log.unit_price || log.bread_types?.unit_price || 0
+      );
+      shift.breadTypeBreakdown.push(breadTypeBreakdown);
+    }
+    breadTypeBreakdown.sold += log.quantity - voidedQuantity;
+    breadTypeBreakdown.revenue += (log.quantity * (log.unit_price || log.bread_types?.unit_price || 0)) - (log.discount || 0) - voidedAmount;
+    breadTypeBreakdown.leftover += log.leftovers || 0;
+    breadTypeBreakdown.discounts += log.discount || 0;
+    breadTypeBreakdown.voided += voidedQuantity;
+    breadTypeBreakdown.voidedAmount += voidedAmount;
+
+    // Promotion effectiveness
+    const performance = log.promotions
+      ? promotions.get(log.promotions.id) || {
+          promotionId: log.promotions.id,
+          name: log.promotions.name,
+          kind: log.promotions.kind,
+          sales: 0,
+          loaves: 0,
+          revenue: 0,
+          discount: 0
+        }
+      : salesWithoutPromotion;
+    performance.sales += 1;
+    performance.loaves += log.quantity - voidedQuantity;
+    performance.revenue += (log.quantity * (log.unit_price || log.bread_types?.unit_price || 0)) - (log.discount || 0) - voidedAmount;
+    performance.discount += log.discount || 0;
+    if (log.promotions) promotions.set(log.promotions.id, performance as PromotionPerformance);
+  });
+
+  // Process wasted loaves, valued at the cost and price they had when logged
+  (wasteLogs || []).forEach((log) => {
+    const createdAt = log.created_at || new Date().toISOString();
+    const date = new Date(createdAt).toISOString().split('T')[0];
+    const shiftKey = `${date}-${log.shift}`;
+
+    if (!shifts.has(shiftKey)) {
+      shifts.set(shiftKey, emptyShiftSummary(shiftKey, date, log.shift as ShiftType, log.recorded_by, createdAt));
+    }
+
+    const shift = shifts.get(shiftKey)!;
+    let breadTypeBreakdown = shift.breadTypeBreakdown.find(b => b.breadTypeId === log.bread_type_id);
+    if (!breadTypeBreakdown) {
+      breadTypeBreakdown = emptyBreadTypeBreakdown(log.bread_type_id, log.bread_types?.name || 'Unknown', Number(log.unit_price));
+      shift.breadTypeBreakdown.push(breadTypeBreakdown);
+    }
+    const { cost, value } = valueWaste(
+      { quantity: log.quantity, unit_cost: log.unit_cost !== null ? Number(log.unit_cost) : null, unit_price: Number(log.unit_price) },
+      unitCosts[log.bread_type_id]?.unitCost ?? null
+    );
+    breadTypeBreakdown.wasted += log.quantity;
+    breadTypeBreakdown.wasteCost += cost ?? 0;
+    breadTypeBreakdown.wasteValue += value;
+  });
+
+  // Cost of goods sold at each bread type's cost per loaf
+  shifts.forEach(shift => {
+    shift.breadTypeBreakdown.forEach(bread => {
+      bread.unitCost = unitCosts[bread.breadTypeId]?.unitCost ?? null;
+      bread.cogs = bread.sold * (bread.unitCost ?? 0);
+      bread.grossMargin = bread.revenue - bread.cogs;
+      bread.marginPercent = marginPercent(bread.grossMargin, bread.revenue);
+      bread.wastePercent = wastePercent(bread.wasted, bread.produced);
+
+      shift.totalCogs += bread.cogs;
+      shift.totalGrossMargin += bread.grossMargin;
+      shift.totalWasted += bread.wasted;
+      shift.totalWasteCost += bread.wasteCost;
+      shift.totalWasteValue += bread.wasteValue;
+    });
+    shift.wastePercent = wastePercent(shift.totalWasted, shift.totalProduced);
+  });
+
+  const shiftsArray = Array.from(shifts.values()).sort((a, b) => 
+    new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+
+  // Calculate summary totals
+  const totalProduced = shiftsArray.reduce((sum, shift) => sum + shift.totalProduced, 0);
+  const totalSold = shiftsArray.reduce((sum, shift) => sum + shift.totalSold, 0);
+  const totalRevenue = shiftsArray.reduce((sum, shift) => sum + shift.totalRevenue, 0);
+  const totalLeftover = shiftsArray.reduce((sum, shift) => sum + shift.totalLeftover, 0);
+  const totalDiscounts = shiftsArray.reduce((sum, shift) => sum + shift.totalDiscounts, 0);
+  const totalVoided = shiftsArray.reduce((sum, shift) => sum + shift.totalVoided, 0);
+  const totalCogs = shiftsArray.reduce((sum, shift) => sum + shift.totalCogs, 0);
+  const totalGrossMargin = shiftsArray.reduce((sum, shift) => sum + shift.totalGrossMargin, 0);
+  const totalWasted = shiftsArray.reduce((sum, shift) => sum + shift.totalWasted, 0);
+  const totalWasteCost = shiftsArray.reduce((sum, shift) => sum + shift.totalWasteCost, 0);
+  const totalWasteValue = shiftsArray.reduce((sum, shift) => sum + shift.totalWasteValue, 0);
+
+  // Waste across every run of each shift, for whichever shifts ran
+  const wasteByShift: Record<string, ShiftWaste> = {};
+  shiftsArray.forEach(shift => {
+    if (!wasteByShift[shift.shift]) wasteByShift[shift.shift] = emptyShiftWaste();
+    const waste = wasteByShift[shift.shift];
+    waste.produced += shift.totalProduced;
+    waste.wasted += shift.totalWasted;
+    waste.wasteCost += shift.totalWasteCost;
+    waste.wasteValue += shift.totalWasteValue;
+  });
+  Object.values(wasteByShift).forEach(waste => {
+    waste.wastePercent = wastePercent(waste.wasted, waste.produced);
+  });
+
+  // Per bread type totals across the whole period
+  const breadTypeTotals = new Map<string, BreadTypeBreakdown>();
+  shiftsArray.forEach(shift => {
+    shift.breadTypeBreakdown.forEach(bread => {
+      const total = breadTypeTotals.get(bread.breadTypeId)
+        || { ...emptyBreadTypeBreakdown(bread.breadTypeId, bread.breadTypeName, bread.breadTypePrice), unitCost: bread.unitCost };
+      total.produced += bread.produced;
+      total.sold += bread.sold;
+      total.revenue += bread.revenue;
+      total.leftover += bread.leftover;
+      total.discounts += bread.discounts;
+      total.voided += bread.voided;
+      total.voidedAmount += bread.voidedAmount;
+      total.cogs += bread.cogs;
+      total.grossMargin += bread.grossMargin;
+      total.wasted += bread.wasted;
+      total.wasteCost += bread.wasteCost;
+      total.wasteValue += bread.wasteValue;
+      breadTypeTotals.set(bread.breadTypeId, total);
+    });
+  });
+  breadTypeTotals.forEach(total => {
+    total.marginPercent = marginPercent(total.grossMargin, total.revenue);
+    total.wastePercent = wastePercent(total.wasted, total.produced);
+  });
+
+  const uniqueDays = new Set(shiftsArray.map(s => s.date)).size;
+  const averageDailyRevenue = uniqueDays > 0 ? totalRevenue / uniqueDays : 0;
+
+  // Find best performing bread type
+  const breadTypeRevenues = new Map<string, number>();
+  shiftsArray.forEach(shift => {
+    shift.breadTypeBreakdown.forEach(bread => {
+      const current = breadTypeRevenues.get(bread.breadTypeName) || 0;
+      breadTypeRevenues.set(bread.breadTypeName, current + bread.revenue);
+    });
+  });
+  const bestPerformingBreadType = Array.from(breadTypeRevenues.entries())
+    .sort((a, b) => b[1] - a[1])[0]?.[0] || 'N/A';
+
+  // Find best performing shift
+  const shiftRevenues = new Map<ShiftType, number>();
+  shiftsArray.forEach(shift => {
+    const current = shiftRevenues.get(shift.shift) || 0;
+    shiftRevenues.set(shift.shift, current + shift.totalRevenue);
+  });
+  const bestPerformingShift = Array.from(shiftRevenues.entries())
+    .sort((a, b) => b[1] - a[1])[0]?.[0] || 'morning';
+
+  return {
+    totalProduced,
+    totalSold,
+    totalRevenue,
+    totalLeftover,
+    totalDiscounts,
+    totalVoided,
+    totalCogs,
+    totalGrossMargin,
+    marginPercent: marginPercent(totalGrossMargin, totalRevenue),
+    totalWasted,
+    totalWasteCost,
+    totalWasteValue,
+    wastePercent: wastePercent(totalWasted, totalProduced),
+    wasteByShift,
+    averageDailyRevenue,
+    bestPerformingBreadType,
+    bestPerformingShift,
+    breadTypeTotals: Array.from(breadTypeTotals.values()).sort((a, b) => b.grossMargin - a.grossMargin),
+    promotions: Array.from(promotions.values()).sort((a, b) => b.revenue - a.revenue),
+    salesWithoutPromotion,
+    shifts: shiftsArray
+  };
+}
+
+/**
+ * Every submitted shift report with who submitted it, newest first
+ */
+export async function loadSalesReports(supabase: SupabaseClient<Database>): Promise<SalesReport[]> {
+  const { data: reportsData, error } = await supabase
+    .from('shift_reports')
+    .select(`
+      *,
+      users!shift_reports_user_id_fkey (
+        name,
+        role
+      )
+    `)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching sales reports:', error);
+    return [];
+  }
+
+  // The json columns hold what createShiftReport wrote
+  return (reportsData || []).map(report => ({
+    ...report,
+    sales_data: (report.sales_data ?? []) as unknown as SalesDataItem[],
+    remaining_breads: (report.remaining_breads ?? []) as unknown as RemainingBreadItem[],
+    voids_data: (report.voids_data ?? []) as unknown as VoidDataItem[],
+    payment_totals: (report.payment_totals ?? {}) as unknown as Partial<PaymentTotals>,
+    created_at: report.created_at ?? report.report_date,
+    updated_at: report.updated_at ?? report.created_at ?? report.report_date,
+    users: report.users ?? undefined,
+  }));
+}
+
+// Helper to safely extract name from possible array/object/null
+const getName = (val: unknown): string => {
+  if (!val) return 'Unknown';
+  if (Array.isArray(val)) {
+    if (val.length && typeof val[0]?.name === 'string') return val[0].name;
+    return 'Unknown';
+  }
+  if (typeof val === 'object' && val !== null && 'name' in val && typeof val.name === 'string') {
+    return val.name;
+  }
+  return 'Unknown';
+};
+
+type ManagerReportGroup = Pick<GroupedReport, 'id' | 'date' | 'shift' | 'batches' | 'manager' | 'totalUnits'> & {
+  breadTypes: Set<string>;
+  endTimes: string[];
+  statuses: string[];
+};
+
+/**
+ * Batches from all_batches grouped by date, shift and manager. With a
+ * manager id only that manager's batches are included.
+ */
+export async function loadManagerReports(
+  supabase: SupabaseClient<Database>,
+  managerId: string | null
+): Promise<GroupedReport[]> {
+  let query = supabase
+    .from('all_batches')
+    .select(`
+      id, bread_type_id, batch_number, start_time, end_time, actual_quantity,
+      status, shift, created_by, notes,
+      bread_types (name),
+      users:created_by (name)
+    `);
+
+  if (managerId) {
+    query = query.eq('created_by', managerId);
+  }
+
+  const { data: batches, error } = await query.order('start_time', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching manager reports:', error);
+    return [];
+  }
+
+  // Group by date+shift+manager to isolate reports per manager
+  const groups: Record<string, ManagerReportGroup> = {};
+  for (const batch of batches || []) {
+    const date = batch.start_time ? batch.start_time.split('T')[0] : 'unknown';
+    const shift = batch.shift;
+    const key = `${date}-${shift}-${batch.created_by}`;
+
+    if (!groups[key]) {
+      groups[key] = {
+        id: key,
+        date,
+        shift,
+        batches: [],
+        manager: getName(batch.users),
+        breadTypes: new Set(),
+        totalUnits: 0,
+        endTimes: [],
+        statuses: []
+      };
+    }
+
+    const status = batch.status ?? 'completed'; // all_batches only holds finished batches
+    groups[key].batches.push({
+      ...batch,
+      start_time: batch.start_time ?? '',
+      end_time: batch.end_time ?? undefined,
+      actual_quantity: batch.actual_quantity ?? 0,
+      status,
+    });
+    const breadTypeName = getName(batch.bread_types);
+    if (breadTypeName && breadTypeName !== 'Unknown') {
+      groups[key].breadTypes.add(breadTypeName);
+    }
+    if (batch.end_time) groups[key].endTimes.push(batch.end_time);
+    groups[key].statuses.push(status);
+    groups[key].totalUnits += batch.actual_quantity || 0;
+  }
+
+  // Convert to array with calculated fields
+  // Since all_batches contains historical/completed records, all should be marked as completed
+  return Object.values(groups).map(g => ({
+    ...g,
+    totalBatches: g.batches.length,
+    status: 'Completed', // All records from all_batches are completed by definition
+    latestEndTime: g.endTimes.length > 0 ? g.endTimes.sort().slice(-1)[0] : '',
+    breadTypes: Array.from(g.breadTypes),
+  }));
+}
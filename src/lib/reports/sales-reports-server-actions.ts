@@ -1,7 +1,10 @@
 'use server'
 
 import { createServer } from '@/lib/supabase/server'
+import type { ShiftType } from '@/types'
 import { revalidatePath } from 'next/cache'
+import { cashUp, type PaymentTotals } from './shift-report-summary'
+import { loadSalesReports } from './report-loaders'
 
 export interface SalesDataItem {
   breadType?: string
@@ -18,6 +21,15 @@ export interface RemainingBreadItem {
   totalAmount?: number
 }
 
+export type VoidDataItem = {
+  breadType?: string
+  kind?: 'void' | 'refund'
+  quantity?: number
+  amount?: number
+  reason?: string
+  timestamp?: string
+}
+
 export interface SalesReport {
   id: string
   user_id: string
@@ -29,6 +41,13 @@ export interface SalesReport {
   feedback?: string | null
   sales_data: SalesDataItem[]
   remaining_breads: RemainingBreadItem[]
+  total_voided?: number
+  voids_data?: VoidDataItem[]
+  payment_totals?: Partial<PaymentTotals>
+  counted_cash?: number | null
+  counted_transfer?: number | null
+  cash_variance?: number | null
+  transfer_variance?: number | null
   created_at: string
   updated_at: string
   // User information from JOIN
@@ -45,23 +64,7 @@ export async function getSalesReports(): Promise<SalesReport[]> {
   const supabase = await createServer()
   
   try {
-    const { data: reportsData, error } = await supabase
-      .from('shift_reports')
-      .select(`
-        *,
-        users!shift_reports_user_id_fkey (
-          name,
-          role
-        )
-      `)
-      .order('created_at', { ascending: false })
-
-    if (error) {
-      console.error('Error fetching sales reports:', error)
-      return []
-    }
-
-    return reportsData || []
+    return await loadSalesReports(supabase)
   } catch (error) {
     console.error('Error fetching sales reports:', error)
     return []
@@ -71,14 +74,14 @@ export async function getSalesReports(): Promise<SalesReport[]> {
 /**
  * Get sales data for a specific user and shift
  */
-export async function getSalesDataForShift(userId: string, shift: 'morning' | 'night') {
+export async function getSalesDataForShift(userId: string, shift: ShiftType) {
   const supabase = await createServer()
   
   try {
-    // Get sales logs first
+    // Get sales logs first, with any voids and refunds against them
     const { data: salesData, error: salesError } = await supabase
       .from('sales_logs')
-      .select('*')
+      .select('*, sale_voids (kind, quantity, amount, reason, created_at)')
       .eq('recorded_by', userId)
       .eq('shift', shift)
       .order('created_at', { ascending: false })
@@ -201,20 +204,29 @@ export async function getBreadTypesForSales() {
  */
 export async function createShiftReport(reportData: {
   user_id: string
-  shift: 'morning' | 'night'
+  shift: ShiftType
   total_revenue: number
   total_items_sold: number
   total_remaining: number
   feedback?: string
   sales_data: SalesDataItem[]
   remaining_breads: RemainingBreadItem[]
+  total_voided?: number
+  voids_data?: VoidDataItem[]
+  payment_totals?: PaymentTotals
+  counted_cash?: number | null
+  counted_transfer?: number | null
+  report_date?: string // shifts ended offline keep the date they ended on
 }) {
   const supabase = await createServer()
   
   try {
     // Get current date in Nigeria timezone  
     const nigeriaTime = new Date(new Date().toLocaleString("en-US", {timeZone: "Africa/Lagos"}));
-    const reportDate = nigeriaTime.toISOString().split('T')[0];
+    const reportDate = reportData.report_date ?? nigeriaTime.toISOString().split('T')[0];
+    // Variances are worked out here so they always match the stored totals
+    const paymentTotals = reportData.payment_totals ?? {};
+    const cashUpData = cashUp(paymentTotals, reportData);
     
     console.log('📊 Creating shift report with data:', {
       user_id: reportData.user_id,
@@ -250,6 +262,10 @@ export async function createShiftReport(reportData: {
           feedback: reportData.feedback,
           sales_data: reportData.sales_data,
           remaining_breads: reportData.remaining_breads,
+          total_voided: reportData.total_voided ?? 0,
+          voids_data: reportData.voids_data ?? [],
+          payment_totals: paymentTotals,
+          ...cashUpData,
           updated_at: new Date().toISOString()
         })
         .eq('id', existingReport.id)
@@ -274,7 +290,11 @@ export async function createShiftReport(reportData: {
             total_remaining: reportData.total_remaining,
             feedback: reportData.feedback,
             sales_data: reportData.sales_data,
-            remaining_breads: reportData.remaining_breads
+            remaining_breads: reportData.remaining_breads,
+            total_voided: reportData.total_voided ?? 0,
+            voids_data: reportData.voids_data ?? [],
+            payment_totals: paymentTotals,
+            ...cashUpData
           }
         ])
         .select()
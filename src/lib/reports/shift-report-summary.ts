@@ -0,0 +1,171 @@
+import type { RemainingBreadItem, SalesDataItem, VoidDataItem } from './sales-reports-server-actions';
+import type { PaymentMethod } from '@/lib/sales/payment-methods';
+
+interface ShiftSaleVoid {
+  kind: string;
+  quantity: number;
+  amount: number;
+  reason: string;
+  created_at: string | null;
+}
+
+interface ShiftSale {
+  quantity: number;
+  unit_price: number | null;
+  discount?: number | null;
+  payment_method?: string | null;
+  amount_paid?: number | null;
+  created_at: string | null;
+  bread_types?: { name: string } | null;
+  sale_voids?: ShiftSaleVoid[] | null;
+}
+
+interface ShiftRemainingBread {
+  bread_type_id: string;
+  bread_type: string;
+  quantity: number;
+  unit_price: number;
+  created_at: string | null;
+}
+
+// What each payment method should have brought in during the shift
+export type PaymentTotals = Record<PaymentMethod, number>;
+
+export interface CashUp {
+  counted_cash: number | null;
+  counted_transfer: number | null;
+  cash_variance: number | null;
+  transfer_variance: number | null;
+}
+
+export interface ShiftReportSummary {
+  total_revenue: number;
+  total_items_sold: number;
+  total_remaining: number;
+  total_voided: number;
+  sales_data: SalesDataItem[];
+  remaining_breads: RemainingBreadItem[];
+  voids_data: VoidDataItem[];
+  payment_totals: PaymentTotals;
+}
+
+/**
+ * Totals and line items for a shift report from the shift's sales logs and
+ * the remaining bread records. Only the latest remaining bread record per
+ * bread type counts. Voids and refunds are listed on their own and taken
+ * off the revenue and items sold.
+ */
+export function summarizeShift(sales: ShiftSale[], remaining: ShiftRemainingBread[]): ShiftReportSummary {
+  let totalRevenue = 0;
+  let totalItemsSold = 0;
+  let totalVoided = 0;
+  const voidsData: VoidDataItem[] = [];
+  const paymentTotals: PaymentTotals = { cash: 0, transfer: 0, pos: 0, credit: 0 };
+
+  const salesData = sales.map(sale => {
+    const revenue = sale.quantity * (sale.unit_price || 0);
+    totalRevenue += revenue;
+    totalItemsSold += sale.quantity;
+    addPayment(paymentTotals, sale);
+
+    (sale.sale_voids || []).forEach(saleVoid => {
+      totalVoided += Number(saleVoid.amount);
+      totalItemsSold -= saleVoid.quantity;
+      voidsData.push({
+        breadType: sale.bread_types?.name || 'Unknown',
+        kind: saleVoid.kind === 'refund' ? 'refund' : 'void',
+        quantity: saleVoid.quantity,
+        amount: Number(saleVoid.amount),
+        reason: saleVoid.reason,
+        timestamp: saleVoid.created_at || undefined
+      });
+    });
+
+    return {
+      breadType: sale.bread_types?.name || 'Unknown',
+      quantity: sale.quantity,
+      unitPrice: sale.unit_price || 0,
+      totalAmount: revenue,
+      timestamp: sale.created_at || undefined
+    };
+  });
+
+  const latestRemaining = new Map<string, ShiftRemainingBread>();
+  remaining.forEach(item => {
+    const existing = latestRemaining.get(item.bread_type_id);
+    if (!existing || new Date(item.created_at || 0) > new Date(existing.created_at || 0)) {
+      latestRemaining.set(item.bread_type_id, item);
+    }
+  });
+
+  const remainingBreads = Array.from(latestRemaining.values())
+    .filter(item => item.quantity > 0)
+    .map(item => ({
+      breadType: item.bread_type,
+      quantity: item.quantity,
+      unitPrice: item.unit_price,
+      totalAmount: item.quantity * item.unit_price
+    }));
+
+  return {
+    total_revenue: totalRevenue - totalVoided,
+    total_items_sold: totalItemsSold,
+    total_remaining: remainingBreads.reduce((sum, item) => sum + item.quantity, 0),
+    total_voided: totalVoided,
+    sales_data: salesData,
+    remaining_breads: remainingBreads,
+    voids_data: voidsData,
+    payment_totals: roundTotals(paymentTotals)
+  };
+}
+
+/**
+ * Split a sale between the method it was paid with and credit. Voids and
+ * refunds come off the unpaid part first, the rest is handed back from
+ * the till.
+ */
+function addPayment(totals: PaymentTotals, sale: ShiftSale) {
+  const net = Math.max(sale.quantity * (sale.unit_price || 0) - (sale.discount || 0), 0);
+  const method = (sale.payment_method || 'cash') as PaymentMethod;
+  const paid = method === 'credit' ? 0 : Math.min(sale.amount_paid ?? net, net);
+  const voided = (sale.sale_voids || []).reduce((sum, saleVoid) => sum + Number(saleVoid.amount), 0);
+
+  const unpaid = net - paid;
+  const voidedFromCredit = Math.min(voided, unpaid);
+  const voidedFromTill = Math.min(voided - voidedFromCredit, paid);
+
+  totals.credit += unpaid - voidedFromCredit;
+  if (method !== 'credit') {
+    totals[method] += paid - voidedFromTill;
+  }
+}
+
+function roundTotals(totals: PaymentTotals): PaymentTotals {
+  return {
+    cash: Math.round(totals.cash * 100) / 100,
+    transfer: Math.round(totals.transfer * 100) / 100,
+    pos: Math.round(totals.pos * 100) / 100,
+    credit: Math.round(totals.credit * 100) / 100
+  };
+}
+
+/**
+ * Counted minus expected for cash and transfers; negative means short.
+ * Amounts that were not counted have no variance.
+ */
+export function cashUp(
+  totals: Partial<PaymentTotals>,
+  counted: { counted_cash?: number | null; counted_transfer?: number | null }
+): CashUp {
+  const variance = (countedAmount: number | null | undefined, expected = 0) =>
+    countedAmount === null || countedAmount === undefined
+      ? null
+      : Math.round((countedAmount - expected) * 100) / 100;
+
+  return {
+    counted_cash: counted.counted_cash ?? null,
+    counted_transfer: counted.counted_transfer ?? null,
+    cash_variance: variance(counted.counted_cash, totals.cash),
+    transfer_variance: variance(counted.counted_transfer, totals.transfer)
+  };
+}
@@ -0,0 +1,134 @@
+import ExcelJS from 'exceljs';
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  REPORT_BRAND_NAME,
+  type ReportCell,
+  type ReportDocument,
+  type ReportValueFormat,
+} from './document';
+
+const BRAND = 'FFF97316';
+const BRAND_TINT = 'FFFFF7ED';
+const MUTED = 'FF6B7280';
+
+const NUMBER_FORMATS: Record<ReportValueFormat, string | undefined> = {
+  text: undefined,
+  number: '#,##0',
+  currency: '"₦"#,##0.00',
+  // Percentages are stored as 0-100, not as fractions
+  percent: '0.0"%"',
+};
+
+// Sheet names are at most 31 characters, unique, and without : \ / ? * [ ]
+function sheetName(title: string, used: Set<string>): string {
+  const base = title.replace(/[:\\/?*[\]]/g, ' ').trim().slice(0, 31) || 'Sheet';
+  let name = base;
+  for (let copy = 2; used.has(name.toLowerCase()); copy++) {
+    const suffix = ` (${copy})`;
+    name = `${base.slice(0, 31 - suffix.length)}${suffix}`;
+  }
+  used.add(name.toLowerCase());
+  return name;
+}
+
+function addTitle(sheet: ExcelJS.Worksheet, title: string, lines: string[], span: number) {
+  const titleRow = sheet.addRow([`${REPORT_BRAND_NAME} • ${title}`]);
+  titleRow.font = { bold: true, size: 14, color: { argb: BRAND } };
+  sheet.mergeCells(titleRow.number, 1, titleRow.number, Math.max(span, 1));
+
+  lines.forEach(line => {
+    const row = sheet.addRow([line]);
+    row.font = { color: { argb: MUTED } };
+    sheet.mergeCells(row.number, 1, row.number, Math.max(span, 1));
+  });
+  sheet.addRow([]);
+}
+
+function styleHeader(row: ExcelJS.Row) {
+  row.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  row.eachCell(cell => {
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: BRAND } };
+  });
+}
+
+/**
+ * A workbook with the headline figures on a Summary sheet and every section
+ * of the report on its own sheet
+ */
+export async function renderReportXlsx(report: ReportDocument): Promise<Uint8Array> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = REPORT_BRAND_NAME;
+  workbook.created = new Date(report.generatedAt);
+
+  const used = new Set<string>();
+  const generated = `Generated ${formatInTimeZone(new Date(report.generatedAt), report.timeZone, 'dd MMM yyyy HH:mm')}`;
+  const introLines = [report.subtitle, generated].filter((line): line is string => !!line);
+
+  const summary = workbook.addWorksheet(sheetName('Summary', used));
+  summary.columns = [{ width: 28 }, { width: 22 }];
+  addTitle(summary, report.title, introLines, 2);
+
+  styleHeader(summary.addRow(['Metric', 'Value']));
+  report.metrics.forEach(metric => {
+    const row = summary.addRow([metric.label, metric.value]);
+    const format = NUMBER_FORMATS[metric.format ?? 'text'];
+    if (format && typeof metric.value === 'number') row.getCell(2).numFmt = format;
+  });
+
+  if (report.chart && report.chart.bars.length > 0) {
+    summary.addRow([]);
+    summary.addRow([report.chart.title]).font = { bold: true };
+    const format = NUMBER_FORMATS[report.chart.format ?? 'number'];
+    report.chart.bars.forEach(bar => {
+      const row = summary.addRow([bar.label, bar.value]);
+      if (format) row.getCell(2).numFmt = format;
+    });
+  }
+
+  report.sections.forEach(section => {
+    const sheet = workbook.addWorksheet(sheetName(section.title, used));
+    sheet.columns = section.columns.map(column => ({
+      width: Math.round((column.width ?? (column.format && column.format !== 'text' ? 1 : 2)) * 12),
+    }));
+    addTitle(sheet, section.title, [report.title, generated], section.columns.length);
+
+    const header = sheet.addRow(section.columns.map(column => column.header));
+    styleHeader(header);
+    sheet.views = [{ state: 'frozen', ySplit: header.number }];
+
+    const addCells = (cells: ReportCell[]) => {
+      const row = sheet.addRow(section.columns.map((_, index) => cells[index] ?? null));
+      section.columns.forEach((column, index) => {
+        const format = NUMBER_FORMATS[column.format ?? 'text'];
+        if (format) row.getCell(index + 1).numFmt = format;
+      });
+      return row;
+    };
+
+    section.rows.forEach((cells, index) => {
+      const row = addCells(cells);
+      if (index % 2 === 1) {
+        row.eachCell(cell => {
+          cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: BRAND_TINT } };
+        });
+      }
+    });
+
+    if (section.rows.length > 0) {
+      sheet.autoFilter = {
+        from: { row: header.number, column: 1 },
+        to: { row: header.number + section.rows.length, column: section.columns.length },
+      };
+    }
+
+    if (section.totals) {
+      const totals = addCells(section.totals);
+      totals.font = { bold: true };
+      totals.eachCell(cell => {
+        cell.border = { top: { style: 'thin' } };
+      });
+    }
+  });
+
+  return new Uint8Array(await workbook.xlsx.writeBuffer());
+}
@@ -2,6 +2,9 @@
 
 import { createServer } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
+import { getLowStock } from '@/lib/low-stock/actions';
+import type { LowStockItem } from '@/lib/low-stock/evaluate';
+import type { ShiftType } from '@/types';
 
 export interface SalesManagementData {
   bread_type_id: string;
@@ -10,14 +13,14 @@ export interface SalesManagementData {
   discount?: number;
   returned?: boolean;
   leftover?: number;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   recorded_by: string;
 }
 
 export interface ProductionManagementData {
   bread_type_id: string;
   quantity: number;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   recorded_by: string;
 }
 
@@ -112,7 +115,7 @@ export async function getAvailableStock() {
 }
 
 // Get production items for current shift
-export async function getProductionItems(shift: 'morning' | 'night') {
+export async function getProductionItems(shift: ShiftType) {
   const supabase = await createServer();
   
   try {
@@ -147,7 +150,7 @@ export async function getProductionItems(shift: 'morning' | 'night') {
 }
 
 // Get sales records for current shift
-export async function getSalesRecords(shift: 'morning' | 'night') {
+export async function getSalesRecords(shift: ShiftType) {
   const supabase = await createServer();
   
   try {
@@ -183,7 +186,7 @@ export async function getSalesRecords(shift: 'morning' | 'night') {
 }
 
 // Get dashboard metrics for current shift
-export async function getDashboardMetrics(shift: 'morning' | 'night') {
+export async function getDashboardMetrics(shift: ShiftType) {
   const supabase = await createServer();
   
   try {
@@ -254,7 +257,7 @@ export async function updateAvailableStock(data: StockUpdateData) {
 }
 
 // Get sales summary for reporting
-export async function getSalesSummary(shift: 'morning' | 'night', date?: string) {
+export async function getSalesSummary(shift: ShiftType, date?: string) {
   const supabase = await createServer();
   
   try {
@@ -328,32 +331,7 @@ export async function bulkCreateSalesLogs(salesData: SalesManagementData[]) {
   }
 }
 
-// Get real-time stock alerts
-export async function getStockAlerts() {
-  const supabase = await createServer();
-  
-  try {
-    const { data, error } = await supabase
-      .from('available_stock')
-      .select(`
-        *,
-        bread_types (
-          id,
-          name,
-          unit_price
-        )
-      `)
-      .lte('quantity', 5)
-      .order('quantity', { ascending: true });
-
-    if (error) {
-      console.error('Error fetching stock alerts:', error);
-      throw new Error(`Failed to fetch stock alerts: ${error.message}`);
-    }
-
-    return data || [];
-  } catch (error) {
-    console.error('Error in getStockAlerts:', error);
-    throw error;
-  }
+// Get real-time stock alerts (bread types at or below their low-stock threshold)
+export async function getStockAlerts(): Promise<LowStockItem[]> {
+  return getLowStock();
 } 
\ No newline at end of file
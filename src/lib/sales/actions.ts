@@ -1,51 +1,208 @@
 'use server';
 
 import { createServer } from '@/lib/supabase/server';
+import { requirePermission } from '@/lib/auth/auth-utils';
 import { logSaleActivity } from '@/lib/activities/server-activity-service';
+import { checkLowStockAlerts } from '@/lib/low-stock/actions';
+import { getActivePromotions } from '@/lib/promotions/actions';
+import { bestPromotion } from '@/lib/promotions/evaluate';
+import { checkShiftKey, getShiftSchedule } from '@/lib/shift-schedule/actions';
+import { emitWebhookEvent } from '@/lib/webhooks/dispatch';
+import type { ShiftType } from '@/types';
+import type { PaymentMethod } from './payment-methods';
 
 export async function createSalesLog(data: {
   bread_type_id: string;
   quantity: number;
-  unit_price?: number;
   discount?: number;
   returned?: boolean;
   leftover?: number;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   recorded_by: string;
+  customer_id?: string;
+  amount_paid?: number;
+  payment_method?: PaymentMethod;
+  promotion_id?: string | null;
+  // When the sale happened, for sales recorded offline and synced later
+  sold_at?: string;
+  // Set for offline sales; a sale with the same key is never written twice
+  idempotency_key?: string;
 }) {
+  const user = await requirePermission('sales.record');
+
+  if (data.payment_method === 'credit' && !data.customer_id) {
+    throw new Error('Choose the customer this credit sale is for');
+  }
+
   const supabase = await createServer();
 
-  // Use RPC function to handle creation/update safely (avoids materialized view permission issues)
-  const { data: salesId, error } = await (supabase as any).rpc('create_user_sales_log', {
+  // A replayed offline sale gets back the sale it already wrote, before any
+  // of the checks below can reject it for something that changed since
+  if (data.idempotency_key) {
+    const { data: existing, error: lookupError } = await supabase
+      .from('sales_logs')
+      .select('id')
+      .eq('idempotency_key', data.idempotency_key)
+      .maybeSingle();
+    if (lookupError) {
+      throw new Error(`Failed to look up the synced sale: ${lookupError.message}`);
+    }
+    if (existing) {
+      return { success: true, saleId: existing.id };
+    }
+  }
+
+  const shiftError = await checkShiftKey(data.shift, user.branch_id);
+  if (shiftError) {
+    throw new Error(shiftError);
+  }
+
+  const soldAt = data.sold_at ?? new Date().toISOString();
+
+  // Charge the branch's price at the time of the sale, whatever price the
+  // device had on screen
+  const { data: price, error: priceError } = await supabase.rpc('bread_type_price_at', {
+    p_bread_type_id: data.bread_type_id,
+    p_branch_id: user.branch_id as string, // no branch reads the shared price
+    p_at: soldAt
+  });
+  if (priceError || price === null) {
+    throw new Error(`Failed to look up the price: ${priceError?.message || 'Bread type not found'}`);
+  }
+  const unitPrice = Number(price);
+
+  // A promotion sets the discount itself; work it out again here rather
+  // than trusting the amount sent with the sale
+  let discount = data.discount || 0;
+  if (data.promotion_id) {
+    const [promotions, schedule] = await Promise.all([
+      getActivePromotions(),
+      getShiftSchedule(user.branch_id),
+    ]);
+    const promotion = promotions.find(candidate => candidate.id === data.promotion_id);
+    const applied = promotion && bestPromotion([promotion], {
+      bread_type_id: data.bread_type_id,
+      quantity: data.quantity,
+      unit_price: unitPrice,
+      shift: data.shift,
+      at: new Date(soldAt),
+      timeZone: schedule.timezone,
+    });
+    if (!applied) {
+      throw new Error('This promotion no longer applies to the sale');
+    }
+    discount = applied.discount;
+  }
+
+  const saleTotal = Math.max(unitPrice * data.quantity - discount, 0);
+  const amountPaid = data.payment_method === 'credit' ? 0 : Math.min(data.amount_paid ?? saleTotal, saleTotal);
+
+  // Check the customer's credit before the sale is written so a sale over
+  // their limit is rejected rather than recorded without the account
+  if (data.customer_id && amountPaid < saleTotal) {
+    const { data: available, error: creditError } = await supabase.rpc('customer_available_credit', {
+      p_customer_id: data.customer_id
+    });
+    if (creditError || available === null) {
+      throw new Error(`Failed to check customer credit: ${creditError?.message || 'Customer not found'}`);
+    }
+    if (saleTotal - amountPaid > Number(available)) {
+      throw new Error(`This sale is over the customer's credit limit. They can owe ${Math.max(Number(available), 0).toLocaleString()} more.`);
+    }
+  }
+
+  const saleArgs = {
     p_bread_type_id: data.bread_type_id,
     p_quantity: data.quantity,
     p_shift: data.shift,
-    p_unit_price: data.unit_price,
-    p_discount: data.discount,
+    p_unit_price: unitPrice,
+    p_discount: discount,
     p_returned: data.returned || false,
     p_leftover: data.leftover || 0,
     p_user_id: data.recorded_by
-  });
+  };
 
-  if (error) {
-    throw new Error(`Failed to create sales log: ${error.message}`);
+  // Use RPC function to handle creation/update safely (avoids materialized view permission issues).
+  // An offline sale is written with its idempotency key; if a replay racing
+  // this one wrote it first, return that sale and leave the rest to it.
+  let salesId: string;
+  if (data.idempotency_key) {
+    const { data: rows, error } = await supabase.rpc('create_offline_sales_log', {
+      ...saleArgs,
+      p_idempotency_key: data.idempotency_key
+    });
+    if (error || !rows?.[0]) {
+      throw new Error(`Failed to create sales log: ${error?.message || 'No sale returned'}`);
+    }
+    if (!rows[0].created) {
+      return { success: true, saleId: rows[0].sale_id };
+    }
+    salesId = rows[0].sale_id;
+  } else {
+    const { data: createdId, error } = await (supabase as any).rpc('create_user_sales_log', saleArgs);
+    if (error) {
+      throw new Error(`Failed to create sales log: ${error.message}`);
+    }
+    salesId = createdId;
+  }
+
+  if (data.customer_id) {
+    const { error: customerError } = await supabase.rpc('record_customer_sale', {
+      p_customer_id: data.customer_id,
+      p_sale_id: salesId,
+      p_bread_type_id: data.bread_type_id,
+      p_quantity: data.quantity,
+      p_shift: data.shift,
+      p_amount: saleTotal,
+      p_amount_paid: amountPaid
+    });
+
+    if (customerError) {
+      throw new Error(`Sale recorded but not added to the customer's account: ${customerError.message}`);
+    }
+  }
+
+  if (data.payment_method || data.customer_id) {
+    const { error: paymentError } = await supabase.rpc('set_sale_payment', {
+      p_sale_id: salesId,
+      p_method: data.payment_method || 'cash',
+      p_amount_paid: amountPaid < saleTotal ? amountPaid : undefined
+    });
+
+    if (paymentError) {
+      throw new Error(`Sale recorded but its payment method was not saved: ${paymentError.message}`);
+    }
+  }
+
+  if (data.promotion_id) {
+    const { error: promotionError } = await supabase.rpc('set_sale_promotion', {
+      p_sale_id: salesId,
+      p_promotion_id: data.promotion_id
+    });
+
+    if (promotionError) {
+      throw new Error(`Sale recorded but its promotion was not saved: ${promotionError.message}`);
+    }
   }
 
   // Get user and bread type info for activity logging
+  let breadTypeName: string | null = null;
   try {
     const [userResult, breadTypeResult] = await Promise.all([
       supabase.from('users').select('name, role').eq('id', data.recorded_by).single(),
       supabase.from('bread_types').select('name').eq('id', data.bread_type_id).single()
     ]);
+    breadTypeName = breadTypeResult.data?.name ?? null;
 
     if (userResult.data && breadTypeResult.data && userResult.data.role !== 'owner') {
-      const revenue = (data.unit_price || 0) * data.quantity - (data.discount || 0);
+      const revenue = unitPrice * data.quantity - discount;
       
       await logSaleActivity({
         user_id: data.recorded_by,
         user_name: userResult.data.name,
         shift: data.shift,
         bread_type: breadTypeResult.data.name,
+        bread_type_id: data.bread_type_id,
         quantity: data.quantity,
         revenue: revenue
       });
@@ -55,7 +212,28 @@ export async function createSalesLog(data: {
     console.error('Failed to log sale activity:', activityError);
   }
 
-  return { success: true };
+  // Tell the on-duty manager if this sale took the bread type below its threshold
+  await checkLowStockAlerts(data.bread_type_id);
+
+  await emitWebhookEvent('sale.created', {
+    sale_id: salesId,
+    bread_type_id: data.bread_type_id,
+    bread_type: breadTypeName,
+    quantity: data.quantity,
+    unit_price: unitPrice,
+    discount,
+    total: saleTotal,
+    amount_paid: amountPaid,
+    payment_method: data.payment_method ?? 'cash',
+    customer_id: data.customer_id ?? null,
+    promotion_id: data.promotion_id ?? null,
+    shift: data.shift,
+    recorded_by: data.recorded_by,
+    branch_id: user.branch_id,
+    sold_at: soldAt,
+  });
+
+  return { success: true, saleId: salesId };
 }
 
 export async function fetchTodaySalesLogs(user_id: string) {
@@ -93,7 +271,7 @@ export async function fetchTodaySalesLogs(user_id: string) {
   return data;
 }
 
-export async function fetchShiftSalesLogs(user_id: string, shift: 'morning' | 'night') {
+export async function fetchShiftSalesLogs(user_id: string, shift: ShiftType) {
   const supabase = await createServer();
   const today = new Date();
   today.setHours(0,0,0,0);
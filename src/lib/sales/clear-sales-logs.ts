@@ -2,6 +2,7 @@
 
 import { createServer } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
+import type { ShiftType } from '@/types';
 
 export interface ClearSalesLogsResult {
   success: boolean;
@@ -9,7 +10,7 @@ export interface ClearSalesLogsResult {
   error?: string;
 }
 
-export async function clearSalesLogsAction(shift: 'morning' | 'night'): Promise<ClearSalesLogsResult> {
+export async function clearSalesLogsAction(shift: ShiftType): Promise<ClearSalesLogsResult> {
   try {
     console.log('🔥 SERVER ACTION: clearSalesLogsAction called for shift:', shift);
     
@@ -1,6 +1,7 @@
 'use server';
 
 import { createServer } from '@/lib/supabase/server';
+import type { ShiftType } from '@/types';
 
 export interface ConflictCheckResult {
   hasConflicts: boolean;
@@ -23,7 +24,7 @@ export async function checkRemainingBreadConflicts(
     bread_type: string;
     quantity: number;
     unit_price: number;
-    shift: 'morning' | 'night';
+    shift: ShiftType;
     recorded_by: string;
   }>
 ): Promise<ConflictCheckResult> {
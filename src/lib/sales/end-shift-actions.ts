@@ -1,13 +1,15 @@
 'use server';
 
 import { createServer } from '@/lib/supabase/server';
+import { requirePermission } from '@/lib/auth/auth-utils';
 import { revalidatePath } from 'next/cache';
+import type { ShiftType } from '@/types';
 
 export interface SalesLogUpsertData {
   bread_type_id: string;
   quantity: number;
   unit_price: number;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   recorded_by: string;
 }
 
@@ -16,7 +18,7 @@ export interface RemainingBreadUpsertData {
   bread_type: string;
   quantity: number;
   unit_price: number;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   recorded_by: string;
 }
 
@@ -35,6 +37,8 @@ export interface ExistingRemainingBreadCheck {
  */
 export async function upsertSalesLogs(salesData: SalesLogUpsertData[]) {
   try {
+    await requirePermission('sales.record');
+
     const supabase = await createServer();
     const results = [];
     
@@ -142,6 +146,8 @@ export async function upsertRemainingBread(
   remainingData: RemainingBreadUpsertData[]
 ) {
   try {
+    await requirePermission('sales.record');
+
     const supabase = await createServer();
     const results = [];
 
@@ -163,7 +169,7 @@ export async function upsertRemainingBread(
           recorded_by: remaining.recorded_by,
           updated_at: new Date().toISOString()
         }, {
-          onConflict: 'bread_type_id', // Use the unique constraint
+          onConflict: 'branch_id,bread_type_id', // One record per bread type per branch
           ignoreDuplicates: false // Update on conflict instead of ignoring
         })
         .select()
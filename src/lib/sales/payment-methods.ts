@@ -0,0 +1,13 @@
+export const PAYMENT_METHODS = {
+  cash: 'Cash',
+  transfer: 'Bank transfer',
+  pos: 'POS card',
+  credit: 'Credit',
+} as const;
+
+export type PaymentMethod = keyof typeof PAYMENT_METHODS;
+
+// Ways of paying at the till; credit is the part of a sale left unpaid
+export type TenderMethod = Exclude<PaymentMethod, 'credit'>;
+
+export const TENDER_METHODS: TenderMethod[] = ['cash', 'transfer', 'pos'];
@@ -0,0 +1,269 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createServer } from '@/lib/supabase/server';
+import { hasPermission, requireAuth, requirePermission } from '@/lib/auth/auth-utils';
+import { logSaleVoidActivity } from '@/lib/activities/server-activity-service';
+import {
+  saleVoidSchema,
+  approvalPinSchema,
+  saleVoidSettingsSchema,
+  formatValidationError,
+} from '@/lib/validations';
+import type { ShiftType } from '@/types';
+
+type ActionResult = { success: boolean; error?: string };
+
+export interface SaleVoidApprover {
+  id: string;
+  name: string;
+}
+
+export interface SaleVoidOptions {
+  approvalThreshold: number;
+  // The signed-in user can void any amount without someone else's PIN
+  canApprove: boolean;
+  approvers: SaleVoidApprover[];
+}
+
+export interface SaleVoidRecord {
+  id: string;
+  sale_id: string | null;
+  kind: 'void' | 'refund';
+  shift: ShiftType;
+  quantity: number;
+  amount: number;
+  reason: string;
+  restocked: boolean;
+  created_at: string | null;
+  bread_type: string;
+  sold_by: string;
+  recorded_by: string;
+  approved_by: string | null;
+}
+
+/**
+ * Threshold and approvers for the void/refund dialog
+ */
+export async function getSaleVoidOptions(): Promise<SaleVoidOptions> {
+  await requireAuth();
+  const supabase = await createServer();
+
+  const [settingsResult, approversResult, canApprove] = await Promise.all([
+    supabase.from('sale_void_settings').select('approval_threshold').maybeSingle(),
+    supabase.rpc('sale_void_approvers'),
+    hasPermission('sales.void'),
+  ]);
+
+  if (settingsResult.error) {
+    console.error('Error fetching void settings:', settingsResult.error);
+  }
+  if (approversResult.error) {
+    console.error('Error fetching void approvers:', approversResult.error);
+  }
+
+  return {
+    approvalThreshold: Number(settingsResult.data?.approval_threshold ?? 0),
+    canApprove,
+    approvers: approversResult.data || [],
+  };
+}
+
+/**
+ * Void or refund a sale. Amounts above the approval threshold need an
+ * approver's PIN unless the signed-in user can void sales themselves.
+ */
+export async function voidSale(input: unknown): Promise<ActionResult & { voidId?: string }> {
+  try {
+    const user = await requireAuth();
+    const [canRecord, canVoid] = await Promise.all([hasPermission('sales.record'), hasPermission('sales.void')]);
+    if (!canRecord && !canVoid) {
+      return { success: false, error: 'Access denied. Missing permission: sales.void' };
+    }
+
+    const parsed = saleVoidSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const { sale_id, kind, quantity, reason, restock, approver_id, approver_pin } = parsed.data;
+    const supabase = await createServer();
+
+    const { data: voidId, error } = await supabase.rpc('record_sale_void', {
+      p_sale_id: sale_id,
+      p_kind: kind,
+      p_quantity: quantity ?? 0,
+      p_reason: reason,
+      p_restock: restock,
+      p_approver_id: approver_id,
+      p_approver_pin: approver_pin,
+    });
+
+    if (error) {
+      console.error('Error recording sale void:', error);
+      return { success: false, error: error.message || `Failed to ${kind} sale` };
+    }
+    // The PIN was wrong; the attempt counts towards the lockout
+    if (!voidId) {
+      return { success: false, error: 'Approval PIN is incorrect' };
+    }
+
+    if (user.role !== 'owner') {
+      try {
+        const { data: saleVoid } = await supabase
+          .from('sale_voids')
+          .select('shift, quantity, amount, bread_types (name), approver:users!sale_voids_approved_by_fkey (name)')
+          .eq('id', voidId)
+          .single();
+
+        if (saleVoid) {
+          await logSaleVoidActivity({
+            user_id: user.id,
+            user_name: user.name,
+            user_role: user.role,
+            shift: saleVoid.shift as ShiftType,
+            kind,
+            bread_type: saleVoid.bread_types?.name || 'Unknown',
+            quantity: saleVoid.quantity,
+            amount: saleVoid.amount,
+            reason,
+            approved_by: saleVoid.approver?.name,
+          });
+        }
+      } catch (activityError) {
+        // Don't fail the void if activity logging fails
+        console.error('Failed to log void activity:', activityError);
+      }
+    }
+
+    revalidatePath('/dashboard/sales');
+    revalidatePath('/dashboard/sales/all-sales');
+    revalidatePath('/dashboard/voids');
+    return { success: true, voidId };
+  } catch (error) {
+    console.error('Error in voidSale:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to void sale' };
+  }
+}
+
+/**
+ * Set the signed-in user's PIN for approving other people's voids
+ */
+export async function setApprovalPin(input: unknown): Promise<ActionResult> {
+  try {
+    await requirePermission('sales.void');
+
+    const parsed = approvalPinSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const supabase = await createServer();
+    const { error } = await supabase.rpc('set_approval_pin', { p_pin: parsed.data.pin });
+
+    if (error) {
+      console.error('Error setting approval PIN:', error);
+      return { success: false, error: 'Failed to set approval PIN' };
+    }
+
+    revalidatePath('/dashboard/voids');
+    return { success: true };
+  } catch (error) {
+    console.error('Error in setApprovalPin:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to set approval PIN' };
+  }
+}
+
+/**
+ * Whether the signed-in user has set an approval PIN
+ */
+export async function hasApprovalPin(): Promise<boolean> {
+  const supabase = await createServer();
+  const { data, error } = await supabase.rpc('has_approval_pin');
+  if (error) {
+    console.error('Error checking approval PIN:', error);
+    return false;
+  }
+  return Boolean(data);
+}
+
+/**
+ * Owners decide how large a void or refund can be before it needs approval
+ */
+export async function updateSaleVoidSettings(input: unknown): Promise<ActionResult> {
+  try {
+    const user = await requireAuth('owner');
+
+    const parsed = saleVoidSettingsSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const supabase = await createServer();
+    const { error } = await supabase
+      .from('sale_void_settings')
+      .update({
+        approval_threshold: parsed.data.approval_threshold,
+        updated_by: user.id,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', true);
+
+    if (error) {
+      console.error('Error updating void settings:', error);
+      return { success: false, error: 'Failed to update approval threshold' };
+    }
+
+    revalidatePath('/dashboard/voids');
+    return { success: true };
+  } catch (error) {
+    console.error('Error in updateSaleVoidSettings:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to update approval threshold' };
+  }
+}
+
+/**
+ * Recent voids and refunds, newest first, for the audit trail
+ */
+export async function getSaleVoids(limit = 100): Promise<SaleVoidRecord[]> {
+  try {
+    const [canVoid, canViewReports] = await Promise.all([hasPermission('sales.void'), hasPermission('reports.view')]);
+    if (!canVoid && !canViewReports) {
+      throw new Error('Access denied. Missing permission: sales.void');
+    }
+    const supabase = await createServer();
+
+    const { data, error } = await supabase
+      .from('sale_voids')
+      .select(`
+        id, sale_id, kind, shift, quantity, amount, reason, restocked, created_at,
+        bread_types (name),
+        seller:users!sale_voids_sold_by_fkey (name),
+        recorder:users!sale_voids_recorded_by_fkey (name),
+        approver:users!sale_voids_approved_by_fkey (name)
+      `)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      id: row.id,
+      sale_id: row.sale_id,
+      kind: row.kind as SaleVoidRecord['kind'],
+      shift: row.shift as SaleVoidRecord['shift'],
+      quantity: row.quantity,
+      amount: Number(row.amount),
+      reason: row.reason,
+      restocked: row.restocked,
+      created_at: row.created_at,
+      bread_type: row.bread_types?.name || 'Unknown',
+      sold_by: row.seller?.name || 'Unknown',
+      recorded_by: row.recorder?.name || 'Unknown',
+      approved_by: row.approver?.name || null,
+    }));
+  } catch (error) {
+    console.error('Error fetching sale voids:', error);
+    return [];
+  }
+}
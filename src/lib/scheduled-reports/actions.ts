@@ -0,0 +1,164 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createServer } from '@/lib/supabase/server';
+import { requirePermission } from '@/lib/auth/auth-utils';
+import { reportScheduleSchema, formatValidationError } from '@/lib/validations';
+import { sendScheduledReport } from './runner';
+import { REPORT_SCHEDULE_COLUMNS, type ReportDelivery, type ReportSchedule } from './schedule';
+
+type ActionResult = { success: boolean; error?: string };
+
+const SCHEDULED_REPORTS_PATH = '/owner-dashboard/reports/scheduled';
+
+/**
+ * Every report schedule, grouped by report
+ */
+export async function getReportSchedules(): Promise<ReportSchedule[]> {
+  try {
+    await requirePermission('reports.schedule');
+    const supabase = await createServer();
+
+    const { data, error } = await supabase
+      .from('report_schedules')
+      .select(REPORT_SCHEDULE_COLUMNS)
+      .order('kind')
+      .order('recipient_email');
+
+    if (error) throw error;
+    return (data || []) as ReportSchedule[];
+  } catch (error) {
+    console.error('Error fetching report schedules:', error);
+    return [];
+  }
+}
+
+/**
+ * The most recent delivery attempts, newest first
+ */
+export async function getReportDeliveries(limit = 50): Promise<ReportDelivery[]> {
+  try {
+    await requirePermission('reports.schedule');
+    const supabase = await createServer();
+
+    const { data, error } = await supabase
+      .from('report_deliveries')
+      .select('id, schedule_id, kind, recipient_email, period_key, period_start, period_end, status, transport, message_id, error, manual, created_at')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as ReportDelivery[];
+  } catch (error) {
+    console.error('Error fetching report deliveries:', error);
+    return [];
+  }
+}
+
+/**
+ * Create a schedule, or update it when an id is given
+ */
+export async function saveReportSchedule(input: unknown): Promise<ActionResult> {
+  try {
+    const user = await requirePermission('reports.schedule');
+
+    const parsed = reportScheduleSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const { id, ...schedule } = parsed.data;
+    const row = {
+      ...schedule,
+      recipient_name: schedule.recipient_name || null,
+      updated_at: new Date().toISOString(),
+    };
+
+    const supabase = await createServer();
+    const { error } = id
+      ? await supabase.from('report_schedules').update(row).eq('id', id)
+      : await supabase.from('report_schedules').insert({ ...row, created_by: user.id });
+
+    if (error) {
+      console.error('Error saving report schedule:', error);
+      return {
+        success: false,
+        error: error.code === '23505'
+          ? 'That recipient already gets this report'
+          : 'Failed to save the schedule',
+      };
+    }
+
+    revalidatePath(SCHEDULED_REPORTS_PATH);
+    return { success: true };
+  } catch (error) {
+    console.error('Error in saveReportSchedule:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save the schedule' };
+  }
+}
+
+/**
+ * Pause or resume a schedule
+ */
+export async function setReportScheduleActive(id: string, isActive: boolean): Promise<ActionResult> {
+  try {
+    await requirePermission('reports.schedule');
+    const supabase = await createServer();
+
+    const { error } = await supabase
+      .from('report_schedules')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating report schedule:', error);
+      return { success: false, error: 'Failed to update the schedule' };
+    }
+
+    revalidatePath(SCHEDULED_REPORTS_PATH);
+    return { success: true };
+  } catch (error) {
+    console.error('Error in setReportScheduleActive:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to update the schedule' };
+  }
+}
+
+/**
+ * Delete a schedule; its deliveries stay in the log
+ */
+export async function deleteReportSchedule(id: string): Promise<ActionResult> {
+  try {
+    await requirePermission('reports.schedule');
+    const supabase = await createServer();
+
+    const { error } = await supabase.from('report_schedules').delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting report schedule:', error);
+      return { success: false, error: 'Failed to delete the schedule' };
+    }
+
+    revalidatePath(SCHEDULED_REPORTS_PATH);
+    return { success: true };
+  } catch (error) {
+    console.error('Error in deleteReportSchedule:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to delete the schedule' };
+  }
+}
+
+/**
+ * Send a schedule's last complete period now, e.g. to check the transport
+ * or the recipient. Logged as a manual delivery.
+ */
+export async function sendReportScheduleNow(id: string): Promise<ActionResult> {
+  try {
+    await requirePermission('reports.schedule');
+
+    const result = await sendScheduledReport(id);
+    revalidatePath(SCHEDULED_REPORTS_PATH);
+    return result;
+  } catch (error) {
+    console.error('Error in sendReportScheduleNow:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to send the report' };
+  }
+}
@@ -0,0 +1,212 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import { loadManagerReports, loadReportData, loadSalesReports } from '@/lib/reports/report-loaders';
+import type { SalesReport } from '@/lib/reports/sales-reports-server-actions';
+import type { GroupedReport } from '@/lib/reports/manager-reports-server-actions';
+import { summaryReportDocument, type ReportDocument, type ReportSection } from '@/lib/reports/document';
+import { REPORT_SCHEDULE_KINDS, type ReportPeriod, type ReportScheduleKind } from './schedule';
+
+/**
+ * Scheduled report contents
+ *
+ * Each scheduled report starts from the same summary document the reports
+ * screen exports for its period, then adds what that report is read for:
+ * shift reports and production for the daily summary, days and reps for the
+ * weekly sales, and a profit and loss statement for the month.
+ */
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const inPeriod = (date: string, period: ReportPeriod) => date >= period.start && date <= period.end;
+
+function shiftReportsSection(reports: SalesReport[]): ReportSection {
+  return {
+    title: 'Shift Reports',
+    columns: [
+      { header: 'Date', width: 1.2 },
+      { header: 'Shift' },
+      { header: 'Sales Rep', width: 1.5 },
+      { header: 'Items Sold', format: 'number' },
+      { header: 'Revenue', format: 'currency', width: 1.3 },
+      { header: 'Voided', format: 'currency', width: 1.3 },
+      { header: 'Cash Variance', format: 'currency', width: 1.3 },
+      { header: 'Transfer Variance', format: 'currency', width: 1.3 },
+    ],
+    rows: reports.map(report => [
+      report.report_date,
+      capitalize(report.shift),
+      report.users?.name || 'Unknown',
+      report.total_items_sold,
+      report.total_revenue,
+      report.total_voided ?? 0,
+      report.cash_variance ?? null,
+      report.transfer_variance ?? null,
+    ]),
+  };
+}
+
+function productionSection(groups: GroupedReport[]): ReportSection {
+  return {
+    title: 'Production',
+    columns: [
+      { header: 'Date', width: 1.2 },
+      { header: 'Shift' },
+      { header: 'Manager', width: 1.5 },
+      { header: 'Batches', format: 'number' },
+      { header: 'Units', format: 'number' },
+      { header: 'Bread Types', width: 3 },
+    ],
+    rows: groups.map(group => [
+      group.date,
+      capitalize(group.shift),
+      group.manager,
+      group.totalBatches,
+      group.totalUnits,
+      group.breadTypes.join(', '),
+    ]),
+    totals: groups.length > 1
+      ? ['Total', '', '', groups.reduce((total, group) => total + group.totalBatches, 0), groups.reduce((total, group) => total + group.totalUnits, 0), '']
+      : undefined,
+  };
+}
+
+function salesByRepSection(reports: SalesReport[]): ReportSection {
+  const reps = new Map<string, { shifts: number; sold: number; revenue: number; voided: number }>();
+  for (const report of reports) {
+    const name = report.users?.name || 'Unknown';
+    const rep = reps.get(name) ?? { shifts: 0, sold: 0, revenue: 0, voided: 0 };
+    rep.shifts += 1;
+    rep.sold += report.total_items_sold;
+    rep.revenue += report.total_revenue;
+    rep.voided += report.total_voided ?? 0;
+    reps.set(name, rep);
+  }
+  const rows = Array.from(reps.entries()).sort((a, b) => b[1].revenue - a[1].revenue);
+
+  return {
+    title: 'Sales by Rep',
+    columns: [
+      { header: 'Sales Rep', width: 2 },
+      { header: 'Shifts', format: 'number' },
+      { header: 'Items Sold', format: 'number' },
+      { header: 'Revenue', format: 'currency', width: 1.3 },
+      { header: 'Voided', format: 'currency', width: 1.3 },
+    ],
+    rows: rows.map(([name, rep]) => [name, rep.shifts, rep.sold, rep.revenue, rep.voided]),
+    chart: {
+      title: 'Revenue by sales rep',
+      format: 'currency',
+      bars: rows.map(([name, rep]) => ({ label: name, value: rep.revenue })),
+    },
+  };
+}
+
+/**
+ * Builds the report a schedule sends for one period
+ */
+export async function composeScheduledReport(
+  supabase: SupabaseClient<Database>,
+  kind: ReportScheduleKind,
+  period: ReportPeriod,
+  timeZone: string
+): Promise<ReportDocument> {
+  const report = await loadReportData(supabase, { startDate: period.start, endDate: period.end });
+  const document = summaryReportDocument(report, {
+    title: REPORT_SCHEDULE_KINDS[kind].label,
+    subtitle: period.label,
+    timeZone,
+  });
+
+  switch (kind) {
+    case 'daily_shift_summary': {
+      const [salesReports, managerReports] = await Promise.all([
+        loadSalesReports(supabase),
+        loadManagerReports(supabase, null),
+      ]);
+      document.sections.splice(
+        2,
+        0,
+        shiftReportsSection(salesReports.filter(sales => inPeriod(sales.report_date, period))),
+        productionSection(managerReports.filter(group => inPeriod(group.date, period)))
+      );
+      return document;
+    }
+
+    case 'weekly_sales': {
+      const salesReports = (await loadSalesReports(supabase)).filter(sales => inPeriod(sales.report_date, period));
+      const days = new Map<string, { sold: number; revenue: number; grossMargin: number }>();
+      for (const shift of report.shifts) {
+        const day = days.get(shift.date) ?? { sold: 0, revenue: 0, grossMargin: 0 };
+        day.sold += shift.totalSold;
+        day.revenue += shift.totalRevenue;
+        day.grossMargin += shift.totalGrossMargin;
+        days.set(shift.date, day);
+      }
+      const byDay = Array.from(days.entries()).sort(([a], [b]) => a.localeCompare(b));
+
+      // Days and reps lead; the per-shift breakdowns stay at the end
+      document.sections.splice(
+        1,
+        0,
+        {
+          title: 'Sales by Day',
+          columns: [
+            { header: 'Date', width: 1.5 },
+            { header: 'Loaves Sold', format: 'number' },
+            { header: 'Revenue', format: 'currency', width: 1.3 },
+            { header: 'Gross Margin', format: 'currency', width: 1.3 },
+          ],
+          rows: byDay.map(([date, day]) => [date, day.sold, day.revenue, day.grossMargin]),
+          chart: {
+            title: 'Revenue by day',
+            format: 'currency',
+            bars: byDay.map(([date, day]) => ({ label: date, value: day.revenue })),
+          },
+        },
+        salesByRepSection(salesReports)
+      );
+      return document;
+    }
+
+    case 'monthly_pnl': {
+      const managerReports = (await loadManagerReports(supabase, null)).filter(group => inPeriod(group.date, period));
+      const grossSales = report.totalRevenue + report.totalDiscounts + report.totalVoided;
+      const netAfterWaste = report.totalGrossMargin - report.totalWasteCost;
+
+      document.metrics = [
+        { label: 'Net Sales', value: report.totalRevenue, format: 'currency' },
+        { label: 'COGS', value: report.totalCogs, format: 'currency' },
+        { label: 'Gross Margin', value: report.totalGrossMargin, format: 'currency' },
+        { label: 'Margin', value: report.marginPercent, format: 'percent' },
+        { label: 'Waste Cost', value: report.totalWasteCost, format: 'currency' },
+        { label: 'Waste', value: report.wastePercent, format: 'percent' },
+        { label: 'Net After Waste', value: netAfterWaste, format: 'currency' },
+        { label: 'Average Daily Revenue', value: report.averageDailyRevenue, format: 'currency' },
+        { label: 'Best Bread Type', value: report.bestPerformingBreadType || '-' },
+      ];
+      document.sections = [
+        {
+          title: 'Profit and Loss',
+          columns: [
+            { header: 'Line', width: 3 },
+            { header: 'Amount', format: 'currency', width: 1.5 },
+          ],
+          rows: [
+            ['Gross sales', grossSales],
+            ['Less discounts', -report.totalDiscounts],
+            ['Less voids and refunds', -report.totalVoided],
+            ['Net sales', report.totalRevenue],
+            ['Cost of goods sold', -report.totalCogs],
+            ['Gross margin', report.totalGrossMargin],
+            ['Waste (wasted loaves at cost)', -report.totalWasteCost],
+            ['Net after waste', netAfterWaste],
+          ],
+        },
+        // Bread types and promotions from the summary; shift by shift is left out of a month
+        ...document.sections.filter(section => section.title === 'Bread Types' || section.title === 'Promotions'),
+        productionSection(managerReports),
+      ];
+      return document;
+    }
+  }
+}
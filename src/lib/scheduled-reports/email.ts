@@ -0,0 +1,103 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  REPORT_BRAND_NAME,
+  formatReportValue,
+  type ReportCell,
+  type ReportDocument,
+  type ReportSection,
+} from '@/lib/reports/document';
+
+/**
+ * Report emails
+ *
+ * The body of a scheduled report email is the report itself: headline
+ * metrics and every table, inline styled so mail clients keep the layout.
+ * The PDF or workbook, when attached, carries the same document with charts.
+ */
+
+const BRAND_COLOR = '#f97316';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const isNumeric = (format?: string) => format === 'number' || format === 'currency' || format === 'percent';
+
+function sectionHtml(section: ReportSection): string {
+  const cell = (value: ReportCell, index: number, bold = false) => {
+    const column = section.columns[index];
+    const align = isNumeric(column?.format) ? 'right' : 'left';
+    return `<td style="padding:6px 8px;border-bottom:1px solid #f3f4f6;text-align:${align};${bold ? 'font-weight:600;' : ''}">${escapeHtml(formatReportValue(value, column?.format))}</td>`;
+  };
+
+  const header = section.columns
+    .map(column => `<th style="padding:6px 8px;background:#fff7ed;color:#9a3412;text-align:${isNumeric(column.format) ? 'right' : 'left'};font-size:12px;">${escapeHtml(column.header)}</th>`)
+    .join('');
+  const rows = section.rows.length > 0
+    ? section.rows.map(row => `<tr>${row.map((value, index) => cell(value, index)).join('')}</tr>`).join('')
+    : `<tr><td colspan="${section.columns.length}" style="padding:8px;color:#6b7280;">Nothing recorded</td></tr>`;
+  const totals = section.totals
+    ? `<tr>${section.totals.map((value, index) => cell(value, index, true)).join('')}</tr>`
+    : '';
+
+  return `
+    <h2 style="font-size:15px;color:#111827;margin:24px 0 8px;">${escapeHtml(section.title)}</h2>
+    <table style="width:100%;border-collapse:collapse;font-size:13px;color:#374151;">
+      <thead><tr>${header}</tr></thead>
+      <tbody>${rows}${totals}</tbody>
+    </table>`;
+}
+
+export function reportEmailHtml(document: ReportDocument, note?: string): string {
+  const metrics = document.metrics
+    .map(metric => `
+      <td style="padding:8px;vertical-align:top;width:25%;">
+        <div style="font-size:11px;color:#6b7280;text-transform:uppercase;">${escapeHtml(metric.label)}</div>
+        <div style="font-size:16px;font-weight:700;color:#111827;">${escapeHtml(formatReportValue(metric.value, metric.format))}</div>
+      </td>`);
+  const metricRows: string[] = [];
+  for (let index = 0; index < metrics.length; index += 4) {
+    metricRows.push(`<tr>${metrics.slice(index, index + 4).join('')}</tr>`);
+  }
+
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:0;background:#f9fafb;font-family:Arial,Helvetica,sans-serif;">
+    <div style="max-width:720px;margin:0 auto;background:#ffffff;">
+      <div style="background:${BRAND_COLOR};color:#ffffff;padding:20px 24px;">
+        <div style="font-size:12px;opacity:0.9;">${REPORT_BRAND_NAME}</div>
+        <h1 style="margin:4px 0 0;font-size:20px;">${escapeHtml(document.title)}</h1>
+        ${document.subtitle ? `<div style="font-size:13px;margin-top:4px;">${escapeHtml(document.subtitle)}</div>` : ''}
+      </div>
+      <div style="padding:16px 24px 24px;">
+        ${note ? `<p style="font-size:13px;color:#374151;">${escapeHtml(note)}</p>` : ''}
+        <table style="width:100%;border-collapse:collapse;">${metricRows.join('')}</table>
+        ${document.sections.map(sectionHtml).join('')}
+        <p style="font-size:11px;color:#9ca3af;margin-top:24px;">
+          Generated ${escapeHtml(formatInTimeZone(new Date(document.generatedAt), document.timeZone, 'd MMM yyyy HH:mm'))} (${escapeHtml(document.timeZone)})
+        </p>
+      </div>
+    </div>
+  </body>
+</html>`;
+}
+
+export function reportEmailText(document: ReportDocument, note?: string): string {
+  const lines = [`${REPORT_BRAND_NAME} ${document.title}`];
+  if (document.subtitle) lines.push(document.subtitle);
+  if (note) lines.push('', note);
+
+  lines.push('');
+  document.metrics.forEach(metric => lines.push(`${metric.label}: ${formatReportValue(metric.value, metric.format)}`));
+
+  document.sections.forEach(section => {
+    lines.push('', section.title.toUpperCase());
+    const rows = section.totals ? [...section.rows, section.totals] : section.rows;
+    if (rows.length === 0) lines.push('Nothing recorded');
+    rows.forEach(row => {
+      lines.push(row.map((value, index) => formatReportValue(value, section.columns[index]?.format)).join(' | '));
+    });
+  });
+
+  lines.push('', `Generated ${formatInTimeZone(new Date(document.generatedAt), document.timeZone, 'd MMM yyyy HH:mm')} (${document.timeZone})`);
+  return lines.join('\n');
+}
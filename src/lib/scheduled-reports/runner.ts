@@ -0,0 +1,156 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import type { Database } from '@/types/supabase';
+import { getMailTransport, type MailAttachment, type MailTransport } from '@/lib/mail/transport';
+import { normalizeShiftSchedule } from '@/lib/shift-schedule/schedule';
+import { REPORT_BRAND_NAME, REPORT_EXPORT_CONTENT_TYPES, reportFileName } from '@/lib/reports/document';
+import { renderReportPdf } from '@/lib/reports/pdf';
+import { renderReportXlsx } from '@/lib/reports/xlsx';
+import { composeScheduledReport } from './compose';
+import { reportEmailHtml, reportEmailText } from './email';
+import { REPORT_SCHEDULE_COLUMNS, duePeriod, reportPeriod, type ReportPeriod, type ReportSchedule } from './schedule';
+
+/**
+ * Sending scheduled reports
+ *
+ * Runs with the service role: the hourly job has no signed-in user, and the
+ * reports cover every branch and every manager. Every attempt, sent or not,
+ * is written to report_deliveries.
+ */
+
+export interface ReportRunResult {
+  checked: number;
+  sent: number;
+  failed: number;
+}
+
+// The bakery's shared schedule decides what "yesterday" and "7 am" mean
+async function bakeryTimeZone(supabase: SupabaseClient<Database>): Promise<string> {
+  const { data } = await supabase
+    .from('shift_schedules')
+    .select('timezone')
+    .eq('is_active', true)
+    .is('branch_id', null)
+    .maybeSingle();
+
+  return normalizeShiftSchedule(data).timezone;
+}
+
+async function deliver(
+  supabase: SupabaseClient<Database>,
+  transport: MailTransport,
+  schedule: ReportSchedule,
+  period: ReportPeriod,
+  timeZone: string,
+  manual: boolean
+): Promise<{ success: boolean; error?: string }> {
+  let messageId: string | null = null;
+  let failure: string | null = null;
+
+  try {
+    const document = await composeScheduledReport(supabase, schedule.kind, period, timeZone);
+    const attachments: MailAttachment[] = [];
+
+    if (schedule.attachment_format !== 'none') {
+      const format = schedule.attachment_format;
+      attachments.push({
+        filename: `${reportFileName(document)}.${format}`,
+        contentType: REPORT_EXPORT_CONTENT_TYPES[format],
+        content: format === 'pdf' ? await renderReportPdf(document) : await renderReportXlsx(document),
+      });
+    }
+
+    const result = await transport.send({
+      to: schedule.recipient_email,
+      toName: schedule.recipient_name,
+      subject: `${REPORT_BRAND_NAME} ${document.title}: ${period.label}`,
+      text: reportEmailText(document, manual ? 'Sent on request from the dashboard.' : undefined),
+      html: reportEmailHtml(document, manual ? 'Sent on request from the dashboard.' : undefined),
+      attachments,
+    });
+    messageId = result.messageId;
+  } catch (error) {
+    console.error(`Error sending scheduled report ${schedule.id}:`, error);
+    failure = error instanceof Error ? error.message : 'Failed to send report';
+  }
+
+  const { error: logError } = await supabase.from('report_deliveries').insert({
+    schedule_id: schedule.id,
+    kind: schedule.kind,
+    recipient_email: schedule.recipient_email,
+    period_key: period.key,
+    period_start: period.start,
+    period_end: period.end,
+    status: failure ? 'failed' : 'sent',
+    transport: transport.name,
+    message_id: messageId,
+    error: failure,
+    manual,
+  });
+  if (logError) console.error('Error logging report delivery:', logError);
+
+  // A manual send does not count as the scheduled one for its period
+  if (!failure && !manual) {
+    const { error: updateError } = await supabase
+      .from('report_schedules')
+      .update({ last_period_key: period.key, last_sent_at: new Date().toISOString() })
+      .eq('id', schedule.id);
+    if (updateError) console.error('Error updating report schedule:', updateError);
+  }
+
+  return failure ? { success: false, error: failure } : { success: true };
+}
+
+/**
+ * Sends every active schedule whose period is due. Safe to call as often
+ * as you like: a period is sent to a schedule once, and a failed one is
+ * retried on the next run.
+ */
+export async function runDueReportSchedules(now = new Date()): Promise<ReportRunResult> {
+  const supabase = createServiceRoleClient();
+  const timeZone = await bakeryTimeZone(supabase);
+
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .select(REPORT_SCHEDULE_COLUMNS)
+    .eq('is_active', true);
+
+  if (error) throw error;
+
+  const schedules = (data || []) as ReportSchedule[];
+  const result: ReportRunResult = { checked: schedules.length, sent: 0, failed: 0 };
+  let transport: MailTransport | null = null;
+
+  // One at a time; reports for the same period share nothing worth batching
+  for (const schedule of schedules) {
+    const period = duePeriod(schedule, now, timeZone);
+    if (!period) continue;
+
+    transport ??= getMailTransport();
+    const delivery = await deliver(supabase, transport, schedule, period, timeZone, false);
+    if (delivery.success) result.sent += 1;
+    else result.failed += 1;
+  }
+
+  return result;
+}
+
+/**
+ * Sends a schedule's last complete period right away, whether or not it is due
+ */
+export async function sendScheduledReport(scheduleId: string): Promise<{ success: boolean; error?: string }> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .select(REPORT_SCHEDULE_COLUMNS)
+    .eq('id', scheduleId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return { success: false, error: 'Schedule not found' };
+
+  const schedule = data as ReportSchedule;
+  const timeZone = await bakeryTimeZone(supabase);
+  return deliver(supabase, getMailTransport(), schedule, reportPeriod(schedule.kind, new Date(), timeZone), timeZone, true);
+}
@@ -0,0 +1,126 @@
+/**
+ * Scheduled report periods
+ *
+ * Each kind of scheduled report covers the last complete period before the
+ * day it is sent: yesterday, last Monday to Sunday, or last month, counted
+ * in the shift schedule's time zone. A schedule is due once its send hour
+ * has passed and that period has not been sent to it yet.
+ *
+ * Everything here is pure (no Supabase, no React).
+ */
+
+import { formatInTimeZone } from 'date-fns-tz';
+
+export type ReportScheduleKind = 'daily_shift_summary' | 'weekly_sales' | 'monthly_pnl';
+
+export type ReportAttachmentFormat = 'pdf' | 'xlsx' | 'none';
+
+export const REPORT_SCHEDULE_KINDS: Record<ReportScheduleKind, { label: string; description: string }> = {
+  daily_shift_summary: {
+    label: 'Daily shift summary',
+    description: "Yesterday's shifts, shift reports and production, every morning",
+  },
+  weekly_sales: {
+    label: 'Weekly sales',
+    description: "Last week's sales by day, bread type and rep, every Monday",
+  },
+  monthly_pnl: {
+    label: 'Monthly P&L',
+    description: "Last month's revenue, cost of goods, waste and margin, on the 1st",
+  },
+};
+
+export const REPORT_ATTACHMENT_FORMATS: Record<ReportAttachmentFormat, string> = {
+  pdf: 'PDF attachment',
+  xlsx: 'Excel attachment',
+  none: 'No attachment',
+};
+
+export const REPORT_SCHEDULE_COLUMNS =
+  'id, kind, recipient_email, recipient_name, attachment_format, send_hour, is_active, last_period_key, last_sent_at';
+
+export interface ReportSchedule {
+  id: string;
+  kind: ReportScheduleKind;
+  recipient_email: string;
+  recipient_name: string | null;
+  attachment_format: ReportAttachmentFormat;
+  send_hour: number;
+  is_active: boolean;
+  last_period_key: string | null;
+  last_sent_at: string | null;
+}
+
+export interface ReportDelivery {
+  id: string;
+  schedule_id: string | null;
+  kind: ReportScheduleKind;
+  recipient_email: string;
+  period_key: string;
+  period_start: string;
+  period_end: string;
+  status: 'sent' | 'failed';
+  transport: string;
+  message_id: string | null;
+  error: string | null;
+  manual: boolean;
+  created_at: string;
+}
+
+export interface ReportPeriod {
+  // Unique per period: 2026-10-18, 2026-10-12 (week starting), 2026-09
+  key: string;
+  start: string;
+  end: string;
+  label: string;
+}
+
+// Calendar arithmetic on YYYY-MM-DD strings, independent of the server's zone
+function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function weekday(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+const formatDay = (date: string, pattern: string) => formatInTimeZone(new Date(`${date}T12:00:00Z`), 'UTC', pattern);
+
+/**
+ * The last complete period for a kind of report as of now
+ */
+export function reportPeriod(kind: ReportScheduleKind, now: Date, timeZone: string): ReportPeriod {
+  const today = formatInTimeZone(now, timeZone, 'yyyy-MM-dd');
+
+  switch (kind) {
+    case 'daily_shift_summary': {
+      const yesterday = shiftDate(today, -1);
+      return { key: yesterday, start: yesterday, end: yesterday, label: formatDay(yesterday, 'EEEE d MMMM yyyy') };
+    }
+    case 'weekly_sales': {
+      // Monday of this week, then the week before it
+      const thisMonday = shiftDate(today, -((weekday(today) + 6) % 7));
+      const start = shiftDate(thisMonday, -7);
+      const end = shiftDate(thisMonday, -1);
+      return { key: start, start, end, label: `${formatDay(start, 'd MMM')} – ${formatDay(end, 'd MMM yyyy')}` };
+    }
+    case 'monthly_pnl': {
+      const end = shiftDate(`${today.slice(0, 7)}-01`, -1);
+      const start = `${end.slice(0, 7)}-01`;
+      return { key: end.slice(0, 7), start, end, label: formatDay(start, 'MMMM yyyy') };
+    }
+  }
+}
+
+/**
+ * The period to send now, or null when nothing is due yet
+ */
+export function duePeriod(schedule: ReportSchedule, now: Date, timeZone: string): ReportPeriod | null {
+  if (!schedule.is_active) return null;
+  if (Number(formatInTimeZone(now, timeZone, 'H')) < schedule.send_hour) return null;
+
+  const period = reportPeriod(schedule.kind, now, timeZone);
+  return period.key === schedule.last_period_key ? null : period;
+}
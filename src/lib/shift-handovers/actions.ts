@@ -0,0 +1,281 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createServer } from '@/lib/supabase/server';
+import { requirePermission } from '@/lib/auth/auth-utils';
+import { checkShiftKey, getShiftSchedule } from '@/lib/shift-schedule/actions';
+import { getAdjacentShiftKey, getScheduleDate } from '@/lib/shift-schedule/schedule';
+import {
+  shiftHandoverSchema,
+  shiftHandoverAcknowledgementSchema,
+  formatValidationError,
+} from '@/lib/validations';
+import type { Json } from '@/types/supabase';
+import type { ShiftType } from '@/types';
+import {
+  type HandoverPendingBatch,
+  type HandoverStockItem,
+  type ShiftHandover,
+  type ShiftHandoverDraft,
+  type ShiftHandoverStatus,
+} from './handover';
+
+type ActionResult = { success: boolean; error?: string };
+
+const HANDOVERS_PATH = '/dashboard/production/handovers';
+
+const HANDOVER_COLUMNS = `
+  id, branch_id, handover_date, from_shift, to_shift, status, manager_id,
+  total_production, completed_batches, pending_batches, pending_batch_details,
+  remaining_stock, quality_issues, notes, acknowledged_at, acknowledgement_notes, created_at,
+  manager:users!shift_handovers_manager_id_fkey ( name ),
+  acknowledger:users!shift_handovers_acknowledged_by_fkey ( name )
+`;
+
+type HandoverRow = {
+  id: string;
+  branch_id: string | null;
+  handover_date: string;
+  from_shift: string;
+  to_shift: string;
+  status: string;
+  manager_id: string;
+  total_production: number | null;
+  completed_batches: number | null;
+  pending_batches: number | null;
+  pending_batch_details: Json;
+  remaining_stock: Json;
+  quality_issues: string[] | null;
+  notes: string | null;
+  acknowledged_at: string | null;
+  acknowledgement_notes: string | null;
+  created_at: string | null;
+  manager: { name: string | null } | null;
+  acknowledger: { name: string | null } | null;
+};
+
+function toHandover(row: HandoverRow): ShiftHandover {
+  return {
+    id: row.id,
+    branch_id: row.branch_id,
+    handover_date: row.handover_date,
+    from_shift: row.from_shift as ShiftType,
+    to_shift: row.to_shift as ShiftType,
+    status: row.status as ShiftHandoverStatus,
+    manager_id: row.manager_id,
+    manager_name: row.manager?.name || 'Unknown',
+    total_production: row.total_production ?? 0,
+    completed_batches: row.completed_batches ?? 0,
+    pending_batches: row.pending_batches ?? 0,
+    pending_batch_details: Array.isArray(row.pending_batch_details)
+      ? (row.pending_batch_details as unknown as HandoverPendingBatch[])
+      : [],
+    remaining_stock: Array.isArray(row.remaining_stock)
+      ? (row.remaining_stock as unknown as HandoverStockItem[])
+      : [],
+    quality_issues: row.quality_issues ?? [],
+    notes: row.notes,
+    acknowledged_by_name: row.acknowledger?.name ?? null,
+    acknowledged_at: row.acknowledged_at,
+    acknowledgement_notes: row.acknowledgement_notes,
+    created_at: row.created_at ?? new Date().toISOString(),
+  };
+}
+
+/**
+ * The batches and stock a shift would be handed over with right now
+ */
+export async function getShiftHandoverDraft(shift: ShiftType): Promise<ShiftHandoverDraft> {
+  const user = await requirePermission('shifts.handover');
+  const supabase = await createServer();
+
+  // Only the handing-over manager's branch; owners would otherwise see every branch's
+  let batchesQuery = supabase
+    .from('batches')
+    .select('id, batch_number, status, actual_quantity, target_quantity, bread_types ( name )')
+    .eq('shift', shift);
+  let stockQuery = supabase
+    .from('available_stock')
+    .select('bread_type_id, bread_type_name, quantity')
+    .gt('quantity', 0);
+  if (user.branch_id) {
+    batchesQuery = batchesQuery.eq('branch_id', user.branch_id);
+    stockQuery = stockQuery.eq('branch_id', user.branch_id);
+  } else {
+    batchesQuery = batchesQuery.is('branch_id', null);
+    stockQuery = stockQuery.is('branch_id', null);
+  }
+
+  const [batchesResult, stockResult] = await Promise.all([
+    batchesQuery.order('created_at'),
+    stockQuery.order('bread_type_name'),
+  ]);
+
+  if (batchesResult.error) throw batchesResult.error;
+  if (stockResult.error) throw stockResult.error;
+
+  const batches = (batchesResult.data || []) as unknown as Array<{
+    id: string;
+    batch_number: string;
+    status: string;
+    actual_quantity: number | null;
+    target_quantity: number | null;
+    bread_types: { name: string } | null;
+  }>;
+  const completed = batches.filter(batch => batch.status === 'completed');
+
+  return {
+    shift,
+    total_production: completed.reduce((total, batch) => total + (batch.actual_quantity || 0), 0),
+    completed_batches: completed.length,
+    pending_batches: batches
+      .filter(batch => batch.status === 'active')
+      .map(batch => ({
+        batch_id: batch.id,
+        batch_number: batch.batch_number,
+        bread_type_name: batch.bread_types?.name || 'Unknown',
+        target_quantity: batch.target_quantity,
+      })),
+    remaining_stock: (stockResult.data || []).map(item => ({
+      bread_type_id: item.bread_type_id,
+      bread_type_name: item.bread_type_name,
+      quantity: item.quantity,
+    })),
+  };
+}
+
+/**
+ * The branch's most recent handover, pending or not
+ */
+export async function getLatestShiftHandover(): Promise<ShiftHandover | null> {
+  try {
+    const user = await requirePermission('shifts.handover');
+    const supabase = await createServer();
+
+    let query = supabase.from('shift_handovers').select(HANDOVER_COLUMNS);
+    query = user.branch_id ? query.eq('branch_id', user.branch_id) : query.is('branch_id', null);
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toHandover(data as unknown as HandoverRow) : null;
+  } catch (error) {
+    console.error('Error fetching latest shift handover:', error);
+    return null;
+  }
+}
+
+/**
+ * Handover history, newest first. Owners see every branch.
+ */
+export async function getShiftHandovers(limit = 100): Promise<ShiftHandover[]> {
+  try {
+    await requirePermission('shifts.handover');
+    const supabase = await createServer();
+
+    const { data, error } = await supabase
+      .from('shift_handovers')
+      .select(HANDOVER_COLUMNS)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return ((data || []) as unknown as HandoverRow[]).map(toHandover);
+  } catch (error) {
+    console.error('Error fetching shift handovers:', error);
+    return [];
+  }
+}
+
+/**
+ * Hand a shift over. The handover waits for the incoming manager to
+ * acknowledge it; only one can be waiting per branch.
+ */
+export async function submitShiftHandover(input: unknown): Promise<ActionResult & { handover_id?: string }> {
+  try {
+    const user = await requirePermission('shifts.handover');
+
+    const parsed = shiftHandoverSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const handover = parsed.data;
+    const shiftError = await checkShiftKey(handover.from_shift, user.branch_id);
+    if (shiftError) {
+      return { success: false, error: shiftError };
+    }
+    const schedule = await getShiftSchedule(user.branch_id);
+
+    const supabase = await createServer();
+    const { data, error } = await supabase
+      .from('shift_handovers')
+      .insert({
+        manager_id: user.id,
+        branch_id: user.branch_id,
+        handover_date: getScheduleDate(schedule),
+        from_shift: handover.from_shift,
+        to_shift: getAdjacentShiftKey(schedule, handover.from_shift),
+        status: 'pending',
+        total_production: handover.total_production,
+        completed_batches: handover.completed_batches,
+        pending_batches: handover.pending_batches.length,
+        pending_batch_details: handover.pending_batches,
+        remaining_stock: handover.remaining_stock,
+        quality_issues: handover.quality_issues,
+        notes: handover.notes || null,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error saving shift handover:', error);
+      return {
+        success: false,
+        error: error.code === '23505'
+          ? 'A handover is already waiting to be acknowledged'
+          : 'Failed to save the handover',
+      };
+    }
+
+    revalidatePath(HANDOVERS_PATH);
+    return { success: true, handover_id: data.id };
+  } catch (error) {
+    console.error('Error in submitShiftHandover:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save the handover' };
+  }
+}
+
+/**
+ * The incoming manager takes the shift over
+ */
+export async function acknowledgeShiftHandover(input: unknown): Promise<ActionResult> {
+  try {
+    await requirePermission('shifts.handover');
+
+    const parsed = shiftHandoverAcknowledgementSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const supabase = await createServer();
+    const { error } = await supabase.rpc('acknowledge_shift_handover', {
+      p_handover_id: parsed.data.handover_id,
+      p_notes: parsed.data.notes || undefined,
+    });
+
+    if (error) {
+      console.error('Error acknowledging shift handover:', error);
+      return { success: false, error: error.message || 'Failed to acknowledge the handover' };
+    }
+
+    revalidatePath(HANDOVERS_PATH);
+    return { success: true };
+  } catch (error) {
+    console.error('Error in acknowledgeShiftHandover:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to acknowledge the handover' };
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Shift handovers
+ *
+ * A shift ends with a handover from its manager: the batches still in
+ * progress, the stock left, quality issues and notes. Production only moves
+ * to the next shift once the incoming manager has acknowledged it.
+ *
+ * Everything here is pure (no Supabase, no React).
+ */
+
+import type { ShiftType } from '@/types';
+
+export type ShiftHandoverStatus = 'pending' | 'acknowledged';
+
+export interface HandoverPendingBatch {
+  batch_id: string;
+  batch_number: string;
+  bread_type_name: string;
+  target_quantity: number | null;
+}
+
+export interface HandoverStockItem {
+  bread_type_id: string;
+  bread_type_name: string;
+  quantity: number;
+}
+
+export interface ShiftHandover {
+  id: string;
+  branch_id: string | null;
+  handover_date: string;
+  from_shift: ShiftType;
+  to_shift: ShiftType;
+  status: ShiftHandoverStatus;
+  manager_id: string;
+  manager_name: string;
+  total_production: number;
+  completed_batches: number;
+  pending_batches: number;
+  pending_batch_details: HandoverPendingBatch[];
+  remaining_stock: HandoverStockItem[];
+  quality_issues: string[];
+  notes: string | null;
+  acknowledged_by_name: string | null;
+  acknowledged_at: string | null;
+  acknowledgement_notes: string | null;
+  created_at: string;
+}
+
+// What the outgoing manager starts from when ending a shift
+export interface ShiftHandoverDraft {
+  shift: ShiftType;
+  total_production: number;
+  completed_batches: number;
+  pending_batches: HandoverPendingBatch[];
+  remaining_stock: HandoverStockItem[];
+}
+
+export type ShiftSwitchState =
+  | { allowed: true; handover: ShiftHandover }
+  | { allowed: false; reason: 'awaiting_acknowledgement'; handover: ShiftHandover }
+  | { allowed: false; reason: 'handover_required' };
+
+// An acknowledged handover lets its shift be switched away from for this long
+const HANDOVER_VALID_FOR_MS = 18 * 60 * 60 * 1000;
+
+/**
+ * Whether the dashboard may move on from the shift it is showing, given the
+ * branch's latest handover
+ */
+export function shiftSwitchState(
+  currentShift: ShiftType,
+  latest: ShiftHandover | null,
+  now: Date = new Date()
+): ShiftSwitchState {
+  if (latest?.status === 'pending') {
+    return { allowed: false, reason: 'awaiting_acknowledgement', handover: latest };
+  }
+
+  if (
+    latest &&
+    latest.from_shift === currentShift &&
+    latest.acknowledged_at &&
+    now.getTime() - new Date(latest.acknowledged_at).getTime() < HANDOVER_VALID_FOR_MS
+  ) {
+    return { allowed: true, handover: latest };
+  }
+
+  return { allowed: false, reason: 'handover_required' };
+}
@@ -0,0 +1,163 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createServer } from '@/lib/supabase/server';
+import { hasPermission } from '@/lib/auth/auth-utils';
+import { shiftScheduleSchema, formatValidationError } from '@/lib/validations';
+import { getCurrentUserBranchId } from '@/lib/branches/actions';
+import { getShiftLabel, isScheduledShift, normalizeShiftSchedule, type ShiftSchedule } from './schedule';
+
+// Only upcoming/recent closures matter for shift resolution, so only these
+// are loaded and only these are replaced when the schedule is saved
+function closureWindowStart(): string {
+  const since = new Date();
+  since.setDate(since.getDate() - 7);
+  return since.toISOString().split('T')[0];
+}
+
+/**
+ * Get the active shift schedule with its closures.
+ * A branch's own schedule wins over the shared one (branch_id null);
+ * branchId defaults to the current user's branch.
+ * Falls back to the default 10:00/22:00 schedule if none is stored yet.
+ */
+export async function getShiftSchedule(branchId?: string | null): Promise<ShiftSchedule> {
+  const supabase = await createServer();
+
+  try {
+    const scopeBranchId = branchId === undefined ? await getCurrentUserBranchId() : branchId;
+
+    let query = supabase
+      .from('shift_schedules')
+      .select('id, name, timezone, shifts, weekday_overrides, branch_id')
+      .eq('is_active', true);
+
+    query = scopeBranchId
+      ? query.or(`branch_id.is.null,branch_id.eq.${scopeBranchId}`)
+      : query.is('branch_id', null);
+
+    const { data: schedules, error } = await query;
+
+    if (error) throw error;
+
+    const schedule = schedules?.find(row => row.branch_id === scopeBranchId)
+      ?? schedules?.find(row => row.branch_id === null);
+    if (!schedule) return normalizeShiftSchedule(null);
+
+    const { data: closures, error: closuresError } = await supabase
+      .from('shift_closures')
+      .select('closure_date, reason')
+      .eq('schedule_id', schedule.id)
+      .gte('closure_date', closureWindowStart())
+      .order('closure_date');
+
+    if (closuresError) throw closuresError;
+
+    return normalizeShiftSchedule(schedule, closures || []);
+  } catch (error) {
+    console.error('Error fetching shift schedule, using default:', error);
+    return normalizeShiftSchedule(null);
+  }
+}
+
+/**
+ * Check a shift key against the branch's schedule before it is written.
+ * Returns the error to show, or null when the branch runs that shift.
+ */
+export async function checkShiftKey(shift: string, branchId?: string | null): Promise<string | null> {
+  const schedule = await getShiftSchedule(branchId);
+  if (isScheduledShift(schedule, shift)) return null;
+  return `${getShiftLabel(schedule, shift)} is not a shift in this branch's schedule`;
+}
+
+/**
+ * Save the active shift schedule (owner only).
+ * With a branchId the branch gets its own schedule; otherwise the shared one is saved.
+ * Closures from the last week on are replaced with the submitted list;
+ * older ones, which getShiftSchedule never loads for editing, are kept.
+ */
+export async function saveShiftSchedule(
+  input: unknown,
+  branchId: string | null = null
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createServer();
+
+  try {
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    if (!(await hasPermission('shifts.manage'))) {
+      return { success: false, error: 'You do not have permission to change the shift schedule' };
+    }
+
+    const parsed = shiftScheduleSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const { closures, ...schedule } = parsed.data;
+
+    const existingQuery = supabase
+      .from('shift_schedules')
+      .select('id')
+      .eq('is_active', true);
+
+    const { data: existing } = await (branchId
+      ? existingQuery.eq('branch_id', branchId)
+      : existingQuery.is('branch_id', null)
+    ).maybeSingle();
+
+    const payload = {
+      ...schedule,
+      branch_id: branchId,
+      updated_by: user.id,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { data: saved, error: saveError } = existing
+      ? await supabase.from('shift_schedules').update(payload).eq('id', existing.id).select('id').single()
+      : await supabase.from('shift_schedules').insert({ ...payload, is_active: true }).select('id').single();
+
+    if (saveError || !saved) {
+      console.error('Error saving shift schedule:', saveError);
+      return { success: false, error: 'Failed to save shift schedule' };
+    }
+
+    const { error: deleteError } = await supabase
+      .from('shift_closures')
+      .delete()
+      .eq('schedule_id', saved.id)
+      .gte('closure_date', closureWindowStart());
+
+    if (deleteError) {
+      console.error('Error clearing shift closures:', deleteError);
+      return { success: false, error: 'Schedule saved but closures could not be updated' };
+    }
+
+    if (closures.length > 0) {
+      const { error: closuresError } = await supabase
+        .from('shift_closures')
+        .upsert(closures.map(closure => ({
+          schedule_id: saved.id,
+          closure_date: closure.date,
+          reason: closure.reason || null,
+        })), { onConflict: 'schedule_id,closure_date' });
+
+      if (closuresError) {
+        console.error('Error saving shift closures:', closuresError);
+        return { success: false, error: 'Schedule saved but closures could not be updated' };
+      }
+    }
+
+    console.log(`✅ Shift schedule saved (${schedule.shifts.length} shifts, ${closures.length} closures)`);
+
+    revalidatePath('/owner-dashboard/settings/shifts');
+    revalidatePath('/dashboard');
+    return { success: true };
+  } catch (error) {
+    console.error('Error in saveShiftSchedule:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save shift schedule' };
+  }
+}
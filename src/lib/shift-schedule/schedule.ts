@@ -0,0 +1,236 @@
+/**
+ * Shift schedule model and resolver
+ *
+ * A schedule is a list of named shifts that each start at a wall-clock time in
+ * the bakery timezone and run until the next shift starts. Individual weekdays
+ * can override the shift list, and closure dates have no shifts at all.
+ *
+ * Everything here is pure (no Supabase, no React) so it can run on the server,
+ * in the browser and inside route handlers.
+ */
+
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+export interface ShiftDefinition {
+  key: string;        // stored in the `shift` column of every table, e.g. 'morning'
+  label: string;      // display name, e.g. 'Morning'
+  start_time: string; // 'HH:mm' in the bakery timezone
+}
+
+export interface ShiftClosure {
+  date: string; // 'yyyy-MM-dd' in the bakery timezone
+  reason?: string | null;
+}
+
+/** 0 = Sunday ... 6 = Saturday, matching Date#getDay and Postgres `dow` */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export interface ShiftSchedule {
+  id?: string;
+  branch_id?: string | null; // null = shared by every branch without its own schedule
+  name: string;
+  timezone: string;
+  shifts: ShiftDefinition[];
+  weekday_overrides: Partial<Record<Weekday, ShiftDefinition[]>>;
+  closures: ShiftClosure[];
+}
+
+export interface ShiftWindow {
+  key: string;
+  label: string;
+  shiftDate: string; // local date the shift started on
+  start: Date;
+  end: Date;
+}
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as const;
+
+// Matches the original hard-coded 10:00/22:00 Africa/Lagos behaviour
+export const DEFAULT_SHIFT_SCHEDULE: ShiftSchedule = {
+  name: 'Default schedule',
+  timezone: 'Africa/Lagos',
+  shifts: [
+    { key: 'morning', label: 'Morning', start_time: '10:00' },
+    { key: 'night', label: 'Night', start_time: '22:00' },
+  ],
+  weekday_overrides: {},
+  closures: [],
+};
+
+/**
+ * Add whole days to a 'yyyy-MM-dd' string without touching timezones
+ */
+export function addDaysToDateString(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const result = new Date(Date.UTC(year, month - 1, day + days));
+  return result.toISOString().split('T')[0];
+}
+
+function weekdayOf(date: string): Weekday {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay() as Weekday;
+}
+
+function sortByStart(shifts: ShiftDefinition[]): ShiftDefinition[] {
+  return [...shifts].sort((a, b) => a.start_time.localeCompare(b.start_time));
+}
+
+/**
+ * Local calendar date of an instant in the bakery timezone
+ */
+export function getScheduleDate(schedule: ShiftSchedule, instant: Date = new Date()): string {
+  return formatInTimeZone(instant, schedule.timezone, 'yyyy-MM-dd');
+}
+
+export function getClosure(schedule: ShiftSchedule, date: string): ShiftClosure | undefined {
+  return schedule.closures.find(closure => closure.date === date);
+}
+
+/**
+ * Shifts that run on a given local date, ordered by start time.
+ * Closure dates return an empty list unless `ignoreClosures` is set.
+ */
+export function getShiftsForDate(
+  schedule: ShiftSchedule,
+  date: string,
+  { ignoreClosures = false }: { ignoreClosures?: boolean } = {}
+): ShiftDefinition[] {
+  if (!ignoreClosures && getClosure(schedule, date)) {
+    return [];
+  }
+  const override = schedule.weekday_overrides[weekdayOf(date)];
+  return sortByStart(override && override.length > 0 ? override : schedule.shifts);
+}
+
+/**
+ * Concrete start/end instants for every shift that starts on a local date.
+ * Each shift ends when the next one starts; the last shift of the day ends
+ * when the first shift of the following day starts.
+ */
+export function getShiftWindowsForDate(
+  schedule: ShiftSchedule,
+  date: string,
+  options: { ignoreClosures?: boolean } = {}
+): ShiftWindow[] {
+  const shifts = getShiftsForDate(schedule, date, options);
+  if (shifts.length === 0) return [];
+
+  const toInstant = (day: string, time: string) => fromZonedTime(`${day}T${time}:00`, schedule.timezone);
+
+  const nextDate = addDaysToDateString(date, 1);
+  const nextDayShifts = getShiftsForDate(schedule, nextDate, options);
+  // If tomorrow is closed, close out today's last shift on today's pattern
+  const lastEnd = nextDayShifts.length > 0
+    ? toInstant(nextDate, nextDayShifts[0].start_time)
+    : toInstant(nextDate, shifts[0].start_time);
+
+  return shifts.map((shift, index) => ({
+    key: shift.key,
+    label: shift.label,
+    shiftDate: date,
+    start: toInstant(date, shift.start_time),
+    end: index < shifts.length - 1 ? toInstant(date, shifts[index + 1].start_time) : lastEnd,
+  }));
+}
+
+/**
+ * The shift window containing an instant, or null when the bakery is closed
+ */
+export function getShiftWindowAt(
+  schedule: ShiftSchedule,
+  instant: Date = new Date(),
+  options: { ignoreClosures?: boolean } = {}
+): ShiftWindow | null {
+  const today = getScheduleDate(schedule, instant);
+  // A shift that started yesterday (e.g. a night shift) may still be running
+  const candidates = [
+    ...getShiftWindowsForDate(schedule, addDaysToDateString(today, -1), options),
+    ...getShiftWindowsForDate(schedule, today, options),
+  ];
+  return candidates.find(window => instant >= window.start && instant < window.end) ?? null;
+}
+
+/**
+ * Every shift key the schedule can produce (default list plus overrides)
+ */
+export function getAllShiftDefinitions(schedule: ShiftSchedule): ShiftDefinition[] {
+  const byKey = new Map<string, ShiftDefinition>();
+  const lists = [schedule.shifts, ...Object.values(schedule.weekday_overrides)];
+  for (const list of lists) {
+    for (const shift of list ?? []) {
+      if (!byKey.has(shift.key)) byKey.set(shift.key, shift);
+    }
+  }
+  return sortByStart(Array.from(byKey.values()));
+}
+
+export function isScheduledShift(schedule: ShiftSchedule, key: string): boolean {
+  return getAllShiftDefinitions(schedule).some(shift => shift.key === key);
+}
+
+/**
+ * The shift that follows (or, with step -1, precedes) a shift in start-time
+ * order, wrapping from the last shift of the day to the first
+ */
+export function getAdjacentShiftKey(schedule: ShiftSchedule, key: string, step: 1 | -1 = 1): string {
+  const shifts = getAllShiftDefinitions(schedule);
+  const index = shifts.findIndex(shift => shift.key === key);
+  if (index === -1) return shifts[0]?.key ?? key;
+  return shifts[(index + step + shifts.length) % shifts.length].key;
+}
+
+export function getShiftLabel(schedule: ShiftSchedule, key: string): string {
+  return getAllShiftDefinitions(schedule).find(shift => shift.key === key)?.label
+    ?? key.charAt(0).toUpperCase() + key.slice(1);
+}
+
+function isShiftDefinitionList(value: unknown): value is ShiftDefinition[] {
+  return Array.isArray(value) && value.every(item =>
+    item && typeof item === 'object' &&
+    typeof (item as ShiftDefinition).key === 'string' &&
+    typeof (item as ShiftDefinition).label === 'string' &&
+    typeof (item as ShiftDefinition).start_time === 'string'
+  );
+}
+
+/**
+ * Build a schedule from the `shift_schedules` row and its `shift_closures`,
+ * falling back to the default for anything malformed
+ */
+export function normalizeShiftSchedule(
+  row: {
+    id?: string;
+    branch_id?: string | null;
+    name?: string | null;
+    timezone?: string | null;
+    shifts?: unknown;
+    weekday_overrides?: unknown;
+  } | null,
+  closures: Array<{ closure_date: string; reason?: string | null }> = []
+): ShiftSchedule {
+  if (!row) {
+    return { ...DEFAULT_SHIFT_SCHEDULE };
+  }
+
+  const overrides: ShiftSchedule['weekday_overrides'] = {};
+  if (row.weekday_overrides && typeof row.weekday_overrides === 'object') {
+    for (const [day, shifts] of Object.entries(row.weekday_overrides as Record<string, unknown>)) {
+      const weekday = Number(day);
+      if (weekday >= 0 && weekday <= 6 && isShiftDefinitionList(shifts) && shifts.length > 0) {
+        overrides[weekday as Weekday] = shifts;
+      }
+    }
+  }
+
+  return {
+    id: row.id,
+    branch_id: row.branch_id ?? null,
+    name: row.name || DEFAULT_SHIFT_SCHEDULE.name,
+    timezone: row.timezone || DEFAULT_SHIFT_SCHEDULE.timezone,
+    shifts: isShiftDefinitionList(row.shifts) && row.shifts.length > 0
+      ? row.shifts
+      : DEFAULT_SHIFT_SCHEDULE.shifts,
+    weekday_overrides: overrides,
+    closures: closures.map(closure => ({ date: closure.closure_date, reason: closure.reason ?? null })),
+  };
+}
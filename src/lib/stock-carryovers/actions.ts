@@ -0,0 +1,117 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createServer } from '@/lib/supabase/server';
+import { requirePermission } from '@/lib/auth/auth-utils';
+import { getBreadTypes } from '@/lib/bread-types/actions';
+import { checkShiftKey, getShiftSchedule } from '@/lib/shift-schedule/actions';
+import { getScheduleDate } from '@/lib/shift-schedule/schedule';
+import { stockCarryOverSchema, formatValidationError } from '@/lib/validations';
+import type { CarryOverDraftItem, StockCarryOver } from './carryover';
+import { CARRY_OVER_COLUMNS, toCarryOver } from './queries';
+
+type ActionResult = { success: boolean; error?: string };
+
+const CARRY_OVER_PATH = '/dashboard/inventory/carry-over';
+
+/**
+ * Every active bread type with the loaves left on the shelf, as recorded
+ * in remaining_bread, for the outgoing manager to sort out
+ */
+export async function getStockCarryOverDraft(): Promise<CarryOverDraftItem[]> {
+  const user = await requirePermission('inventory.carry_over');
+  const supabase = await createServer();
+
+  let remainingQuery = supabase.from('remaining_bread').select('bread_type_id, quantity');
+  remainingQuery = user.branch_id ? remainingQuery.eq('branch_id', user.branch_id) : remainingQuery.is('branch_id', null);
+
+  const [breadTypes, remainingResult] = await Promise.all([
+    getBreadTypes(false, user.branch_id),
+    remainingQuery,
+  ]);
+
+  if (remainingResult.error) throw remainingResult.error;
+
+  const remaining = new Map<string, number>();
+  (remainingResult.data || []).forEach(row => {
+    if (!row.bread_type_id) return;
+    remaining.set(row.bread_type_id, (remaining.get(row.bread_type_id) || 0) + row.quantity);
+  });
+
+  return breadTypes.map(breadType => ({
+    bread_type_id: breadType.id,
+    bread_type_name: breadType.name,
+    size: breadType.size || null,
+    unit_price: breadType.unit_price,
+    remaining: remaining.get(breadType.id) || 0,
+  }));
+}
+
+/**
+ * Carry-over history, newest first. Owners see every branch.
+ */
+export async function getStockCarryOvers(limit = 50): Promise<StockCarryOver[]> {
+  try {
+    await requirePermission('inventory.carry_over');
+    const supabase = await createServer();
+
+    const { data, error } = await supabase
+      .from('stock_carryovers')
+      .select(CARRY_OVER_COLUMNS)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(toCarryOver);
+  } catch (error) {
+    console.error('Error fetching stock carry-overs:', error);
+    return [];
+  }
+}
+
+/**
+ * Close a shift's stock: move what is carried into the next shift and
+ * write off the rest. One carry-over per shift per day.
+ */
+export async function recordStockCarryOver(input: unknown): Promise<ActionResult & { carryover_id?: string }> {
+  try {
+    const user = await requirePermission('inventory.carry_over');
+
+    const parsed = stockCarryOverSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const carryOver = parsed.data;
+    const shiftError = await checkShiftKey(carryOver.from_shift, user.branch_id);
+    if (shiftError) {
+      return { success: false, error: shiftError };
+    }
+    const schedule = await getShiftSchedule(user.branch_id);
+
+    const supabase = await createServer();
+    const { data, error } = await supabase.rpc('record_stock_carryover', {
+      p_from_shift: carryOver.from_shift,
+      p_carryover_date: getScheduleDate(schedule),
+      p_items: carryOver.items,
+      p_notes: carryOver.notes || undefined,
+    });
+
+    if (error) {
+      console.error('Error recording stock carry-over:', error);
+      return {
+        success: false,
+        error: error.code === '23505'
+          ? "This shift's stock has already been carried over"
+          : error.message || 'Failed to carry stock over',
+      };
+    }
+
+    revalidatePath(CARRY_OVER_PATH);
+    revalidatePath('/dashboard/inventory');
+    return { success: true, carryover_id: data };
+  } catch (error) {
+    console.error('Error in recordStockCarryOver:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to carry stock over' };
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Stock carry-over between shifts
+ *
+ * At the end of a shift the manager decides what happens to every loaf
+ * left: carried into the next shift, carried at a discount, set aside as
+ * stale, or discarded. Carried and discounted loaves are the next shift's
+ * opening stock; stale and discarded ones leave stock.
+ *
+ * Everything here is pure (no Supabase, no React).
+ */
+
+import type { ShiftType } from '@/types';
+
+export type CarryOverDisposition = 'carried' | 'discounted' | 'stale' | 'discarded';
+
+export const CARRY_OVER_DISPOSITIONS: Record<
+  CarryOverDisposition,
+  { label: string; description: string; sellable: boolean }
+> = {
+  carried: { label: 'Carried', description: 'Sold next shift at the usual price', sellable: true },
+  discounted: { label: 'Discounted', description: 'Sold next shift at a lower price', sellable: true },
+  stale: { label: 'Stale', description: 'Set aside, not for sale', sellable: false },
+  discarded: { label: 'Discarded', description: 'Thrown away', sellable: false },
+};
+
+export const CARRY_OVER_DISPOSITION_KEYS = Object.keys(CARRY_OVER_DISPOSITIONS) as CarryOverDisposition[];
+
+export interface StockCarryOverItem {
+  bread_type_id: string;
+  bread_type_name: string;
+  disposition: CarryOverDisposition;
+  quantity: number;
+  unit_price: number;
+}
+
+export interface StockCarryOver {
+  id: string;
+  branch_id: string | null;
+  carryover_date: string;
+  from_shift: ShiftType;
+  to_shift: ShiftType;
+  recorded_by_name: string;
+  notes: string | null;
+  created_at: string;
+  items: StockCarryOverItem[];
+}
+
+// One bread type's leftovers as the outgoing manager starts the count
+export interface CarryOverDraftItem {
+  bread_type_id: string;
+  bread_type_name: string;
+  size: string | null;
+  unit_price: number;
+  remaining: number;
+}
+
+// What a carry-over did to one bread type
+export interface CarryOverLine {
+  bread_type_id: string;
+  bread_type_name: string;
+  carried: number;
+  discounted: number;
+  stale: number;
+  discarded: number;
+  // Lowest price any discounted loaves go on at
+  discount_price: number | null;
+}
+
+// A carry-over as the receiving shift sees it
+export interface ShiftCarryOver {
+  id: string;
+  from_shift: ShiftType;
+  to_shift: ShiftType;
+  carryover_date: string;
+  created_at: string;
+  lines: CarryOverLine[];
+  total_carried: number; // carried plus discounted
+  total_written_off: number; // stale plus discarded
+}
+
+/**
+ * Loaves of a line that go on sale in the next shift
+ */
+export const sellableQuantity = (line: Pick<CarryOverLine, 'carried' | 'discounted'>) =>
+  line.carried + line.discounted;
+
+/**
+ * Per bread type totals of a carry-over's items, sorted by name
+ */
+export function summarizeCarryOver(carryOver: StockCarryOver): ShiftCarryOver {
+  const lines = new Map<string, CarryOverLine>();
+
+  carryOver.items.forEach(item => {
+    const line = lines.get(item.bread_type_id) ?? {
+      bread_type_id: item.bread_type_id,
+      bread_type_name: item.bread_type_name,
+      carried: 0,
+      discounted: 0,
+      stale: 0,
+      discarded: 0,
+      discount_price: null,
+    };
+    line[item.disposition] += item.quantity;
+    if (item.disposition === 'discounted') {
+      line.discount_price = line.discount_price === null ? item.unit_price : Math.min(line.discount_price, item.unit_price);
+    }
+    lines.set(item.bread_type_id, line);
+  });
+
+  const sorted = Array.from(lines.values()).sort((a, b) => a.bread_type_name.localeCompare(b.bread_type_name));
+
+  return {
+    id: carryOver.id,
+    from_shift: carryOver.from_shift,
+    to_shift: carryOver.to_shift,
+    carryover_date: carryOver.carryover_date,
+    created_at: carryOver.created_at,
+    lines: sorted,
+    total_carried: sorted.reduce((total, line) => total + sellableQuantity(line), 0),
+    total_written_off: sorted.reduce((total, line) => total + line.stale + line.discarded, 0),
+  };
+}
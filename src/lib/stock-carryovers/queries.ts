@@ -0,0 +1,90 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import type { ShiftType } from '@/types';
+import {
+  summarizeCarryOver,
+  type CarryOverDisposition,
+  type ShiftCarryOver,
+  type StockCarryOver,
+} from './carryover';
+
+/**
+ * Carry-over reads shared by server actions and API routes, which each
+ * bring their own Supabase client
+ */
+
+export const CARRY_OVER_COLUMNS = `
+  id, branch_id, carryover_date, from_shift, to_shift, notes, created_at,
+  recorder:users!stock_carryovers_recorded_by_fkey ( name ),
+  stock_carryover_items ( bread_type_id, disposition, quantity, unit_price, bread_types ( name ) )
+`;
+
+type CarryOverRow = {
+  id: string;
+  branch_id: string | null;
+  carryover_date: string;
+  from_shift: string;
+  to_shift: string;
+  notes: string | null;
+  created_at: string | null;
+  recorder: { name: string | null } | null;
+  stock_carryover_items: Array<{
+    bread_type_id: string;
+    disposition: string;
+    quantity: number;
+    unit_price: number;
+    bread_types: { name: string } | null;
+  }> | null;
+};
+
+export function toCarryOver(row: unknown): StockCarryOver {
+  const carryOver = row as CarryOverRow;
+  return {
+    id: carryOver.id,
+    branch_id: carryOver.branch_id,
+    carryover_date: carryOver.carryover_date,
+    from_shift: carryOver.from_shift as ShiftType,
+    to_shift: carryOver.to_shift as ShiftType,
+    recorded_by_name: carryOver.recorder?.name || 'Unknown',
+    notes: carryOver.notes,
+    created_at: carryOver.created_at ?? new Date().toISOString(),
+    items: (carryOver.stock_carryover_items || []).map(item => ({
+      bread_type_id: item.bread_type_id,
+      bread_type_name: item.bread_types?.name || 'Unknown',
+      disposition: item.disposition as CarryOverDisposition,
+      quantity: item.quantity,
+      unit_price: Number(item.unit_price),
+    })),
+  };
+}
+
+/**
+ * The latest carry-over into a shift recorded inside a time window, the
+ * same window the caller reads that shift's batches from. Null when the
+ * shift started without one.
+ */
+export async function getCarryOverIntoShift(
+  supabase: SupabaseClient<Database>,
+  shift: ShiftType,
+  range: { start: string; end: string },
+  branchId?: string | null
+): Promise<ShiftCarryOver | null> {
+  let query = supabase
+    .from('stock_carryovers')
+    .select(CARRY_OVER_COLUMNS)
+    .eq('to_shift', shift)
+    .gte('created_at', range.start)
+    .lt('created_at', range.end);
+
+  if (branchId) {
+    query = query.eq('branch_id', branchId);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? summarizeCarryOver(toCarryOver(data)) : null;
+}
@@ -1,5 +1,7 @@
 import { createServer } from '@/lib/supabase/server';
 import { ShiftType, ShiftInfo, getCurrentShiftInfo, getShiftDateRange, getShiftBoundaries, SHIFT_CONSTANTS } from './shift-utils';
+import { getShiftSchedule } from '@/lib/shift-schedule/actions';
+import type { ShiftSchedule } from '@/lib/shift-schedule/schedule';
 
 export interface EnhancedShiftInfo extends ShiftInfo {
   shouldShowArchivedData: boolean;
@@ -12,7 +14,8 @@ export interface EnhancedShiftInfo extends ShiftInfo {
  * Get enhanced shift information including manager alignment
  */
 export async function getEnhancedShiftInfo(userId?: string): Promise<EnhancedShiftInfo> {
-  const baseShiftInfo = getCurrentShiftInfo();
+  const schedule = await getShiftSchedule();
+  const baseShiftInfo = getCurrentShiftInfo(schedule);
   
   let shouldShowArchivedData = false;
   let dataSource: 'batches' | 'all_batches' | 'archived' = 'batches';
@@ -35,7 +38,7 @@ export async function getEnhancedShiftInfo(userId?: string): Promise<EnhancedShi
         }
         
         // Determine data source priority
-        dataSource = await determineOptimalDataSource(baseShiftInfo.currentShift);
+        dataSource = await determineOptimalDataSource(baseShiftInfo.currentShift, schedule);
       }
     } catch (error) {
       console.error('Error getting manager shift context:', error);
@@ -102,13 +105,12 @@ async function shouldShowArchivedDataForNightShift(): Promise<boolean> {
 /**
  * Determine the optimal data source for the current shift
  */
-async function determineOptimalDataSource(shift: ShiftType): Promise<'batches' | 'all_batches' | 'archived'> {
+async function determineOptimalDataSource(shift: ShiftType, schedule: ShiftSchedule): Promise<'batches' | 'all_batches' | 'archived'> {
   try {
     const supabase = await createServer();
     
     // Get current shift boundaries
-    const shiftInfo = getCurrentShiftInfo();
-    const { startTime, endTime } = getShiftDateRange(shift);
+    const { startTime, endTime } = getShiftDateRange(shift, new Date(), schedule);
     
     // First, check if there's data in the batches table
     const { data: batchesData } = await supabase
@@ -1,3 +1,4 @@
+import type { ShiftType } from '@/types';
 /**
  * Production-ready inventory shift management utilities
  * 
@@ -10,7 +11,7 @@
  * - Night Shift (10:00 PM): Fetch current date 15:00 PM - next date 15:00 PM (24 hours)
  */
 
-export type InventoryShiftType = 'morning' | 'night';
+export type InventoryShiftType = ShiftType;
 
 export interface InventoryShiftInfo {
   currentShift: InventoryShiftType;
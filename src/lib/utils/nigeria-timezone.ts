@@ -1,3 +1,4 @@
+import type { ShiftType } from '@/types';
 /**
  * Nigeria timezone utilities for consistent shift handling
  * Nigeria is UTC+1, so we need to adjust all calculations accordingly
@@ -15,7 +16,7 @@ export interface ShiftBoundaries {
 /**
  * Get Nigeria timezone boundaries for a given date and shift
  */
-export function getNigeriaShiftBoundaries(date: string, shift: 'morning' | 'night'): ShiftBoundaries {
+export function getNigeriaShiftBoundaries(date: string, shift: ShiftType): ShiftBoundaries {
   const nigeriaDate = new Date(date + 'T00:00:00');
   nigeriaDate.setTime(nigeriaDate.getTime() + NIGERIA_OFFSET);
   
@@ -45,7 +46,7 @@ export function getNigeriaShiftBoundaries(date: string, shift: 'morning' | 'nigh
  * Get current shift based on Nigeria timezone
  */
 export function getCurrentNigeriaShift(date: Date = new Date()): {
-  currentShift: 'morning' | 'night';
+  currentShift: ShiftType;
   boundaries: ShiftBoundaries;
 } {
   const nigeriaTime = new Date(date.getTime() + NIGERIA_OFFSET);
@@ -68,8 +69,8 @@ export function getCurrentNigeriaShift(date: Date = new Date()): {
  */
 export function shouldIncludeBatchInNigeriaShift(
   batchCreatedAt: string,
-  batchShift: 'morning' | 'night',
-  targetShift: 'morning' | 'night',
+  batchShift: ShiftType,
+  targetShift: ShiftType,
   date: string = new Date().toISOString().split('T')[0]
 ): boolean {
   if (batchShift !== targetShift) return false;
@@ -1,16 +1,32 @@
 // Utility functions for shift management
 
-export type ShiftType = 'morning' | 'night';
+import {
+  DEFAULT_SHIFT_SCHEDULE,
+  getScheduleDate,
+  getShiftWindowAt,
+  getShiftWindowsForDate,
+  type ShiftSchedule,
+  type ShiftWindow,
+} from '@/lib/shift-schedule/schedule';
+import type { ShiftType } from '@/types';
+
+// Shift keys come from the owner-configured schedule; morning/night are the defaults
+export type { ShiftType };
 
 export interface ShiftInfo {
   currentShift: ShiftType;
+  currentShiftLabel: string;
+  shiftDate: string;
   shiftStartTime: string;
   nextShiftTime: string;
   shiftStartDateTime: Date;
   shiftEndDateTime: Date;
+  isClosed: boolean;
+  closureReason?: string | null;
 }
 
-// Shift constants for inventory page (Nigeria timezone specific)
+// Legacy constants matching the default schedule (10am/10pm Africa/Lagos).
+// Prefer reading the active schedule; these remain for code that has not moved yet.
 export const SHIFT_CONSTANTS = {
   MORNING_START_HOUR: 10, // 10:00 AM
   MORNING_END_HOUR: 22,   // 10:00 PM (22:00)
@@ -19,134 +35,100 @@ export const SHIFT_CONSTANTS = {
   NIGERIA_TIMEZONE: 'Africa/Lagos' as const, // UTC+1
 } as const;
 
-/**
- * Get current time in Nigeria timezone (Africa/Lagos - UTC+1)
- */
-function getNigeriaTime(): Date {
-  const now = new Date();
-  // Convert to Nigeria time (UTC+1)
-  const nigeriaTime = new Date(now.toLocaleString("en-US", {timeZone: SHIFT_CONSTANTS.NIGERIA_TIMEZONE}));
-  return nigeriaTime;
+// Schedule used when a caller does not pass one explicitly.
+// Client code sets this once the schedule is fetched (see useShiftSchedule).
+let activeSchedule: ShiftSchedule = DEFAULT_SHIFT_SCHEDULE;
+
+export function setActiveShiftSchedule(schedule: ShiftSchedule) {
+  activeSchedule = schedule;
+}
+
+export function getActiveShiftSchedule(): ShiftSchedule {
+  return activeSchedule;
+}
+
+function formatShiftTime(date: Date, schedule: ShiftSchedule): string {
+  return date.toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: true,
+    timeZone: schedule.timezone,
+  });
 }
 
 /**
- * Get current shift based on Nigeria time (10am/10pm boundaries)
- * Morning: 10:00 AM - 9:59 PM
- * Night: 10:00 PM - 9:59 AM
+ * Get the current shift from the schedule in the bakery timezone.
+ * On a closure date the regular pattern is still reported, flagged as closed.
  */
-export function getCurrentShiftInfo(): ShiftInfo {
-  const nigeriaTime = getNigeriaTime();
-  const hours = nigeriaTime.getHours();
-  
-  // Determine current shift using constants
-  const isMorningShift = hours >= SHIFT_CONSTANTS.MORNING_START_HOUR && hours < SHIFT_CONSTANTS.MORNING_END_HOUR;
-  const currentShift = isMorningShift ? 'morning' : 'night';
-  
-  // Calculate shift start and end times in Nigeria timezone
-  const shiftStart = new Date(nigeriaTime);
-  const shiftEnd = new Date(nigeriaTime);
-  
-  if (isMorningShift) {
-    // Morning shift: 10:00 AM today to 10:00 PM today
-    shiftStart.setHours(SHIFT_CONSTANTS.MORNING_START_HOUR, 0, 0, 0);
-    shiftEnd.setHours(SHIFT_CONSTANTS.MORNING_END_HOUR, 0, 0, 0);
-  } else {
-    if (hours >= SHIFT_CONSTANTS.NIGHT_START_HOUR) {
-      // Night shift: 10:00 PM today to 10:00 AM tomorrow
-      shiftStart.setHours(SHIFT_CONSTANTS.NIGHT_START_HOUR, 0, 0, 0);
-      shiftEnd.setDate(shiftEnd.getDate() + 1);
-      shiftEnd.setHours(SHIFT_CONSTANTS.NIGHT_END_HOUR, 0, 0, 0);
-    } else {
-      // Night shift: 10:00 PM yesterday to 10:00 AM today
-      shiftStart.setDate(shiftStart.getDate() - 1);
-      shiftStart.setHours(SHIFT_CONSTANTS.NIGHT_START_HOUR, 0, 0, 0);
-      shiftEnd.setHours(SHIFT_CONSTANTS.NIGHT_END_HOUR, 0, 0, 0);
-    }
-  }
-  
+export function getCurrentShiftInfo(schedule: ShiftSchedule = activeSchedule, now: Date = new Date()): ShiftInfo {
+  const openWindow = getShiftWindowAt(schedule, now);
+  const window: ShiftWindow = openWindow ?? getShiftWindowAt(schedule, now, { ignoreClosures: true })!;
+  const closure = openWindow ? undefined : schedule.closures.find(c => c.date === getScheduleDate(schedule, now));
+
   return {
-    currentShift,
-    shiftStartTime: shiftStart.toLocaleTimeString('en-US', { 
-      hour: '2-digit', 
-      minute: '2-digit',
-      hour12: true 
-    }),
-    nextShiftTime: shiftEnd.toLocaleTimeString('en-US', { 
-      hour: '2-digit', 
-      minute: '2-digit',
-      hour12: true 
-    }),
-    shiftStartDateTime: shiftStart,
-    shiftEndDateTime: shiftEnd,
+    currentShift: window.key,
+    currentShiftLabel: window.label,
+    shiftDate: window.shiftDate,
+    shiftStartTime: formatShiftTime(window.start, schedule),
+    nextShiftTime: formatShiftTime(window.end, schedule),
+    shiftStartDateTime: window.start,
+    shiftEndDateTime: window.end,
+    isClosed: !openWindow,
+    closureReason: closure?.reason ?? null,
   };
 }
 
 /**
- * Get shift boundaries for a given date
+ * Get shift boundaries for a given date.
+ * `shifts` lists every shift of the day; the morning/night fields are kept for
+ * two-shift callers and map to the first and last shift of the day.
  */
-export function getShiftBoundaries(date: Date): {
+export function getShiftBoundaries(date: Date, schedule: ShiftSchedule = activeSchedule): {
   morningStart: Date;
   morningEnd: Date;
   nightStart: Date;
   nightEnd: Date;
+  shifts: ShiftWindow[];
 } {
-  // Convert input date to Nigeria timezone
-  const nigeriaDate = new Date(date.toLocaleString("en-US", {timeZone: SHIFT_CONSTANTS.NIGERIA_TIMEZONE}));
-  
-  const morningStart = new Date(nigeriaDate);
-  morningStart.setHours(SHIFT_CONSTANTS.MORNING_START_HOUR, 0, 0, 0);
-  
-  const morningEnd = new Date(nigeriaDate);
-  morningEnd.setHours(SHIFT_CONSTANTS.MORNING_END_HOUR, 0, 0, 0);
-  
-  const nightStart = new Date(nigeriaDate);
-  nightStart.setHours(SHIFT_CONSTANTS.NIGHT_START_HOUR, 0, 0, 0);
-  
-  const nightEnd = new Date(nigeriaDate);
-  nightEnd.setDate(nightEnd.getDate() + 1);
-  nightEnd.setHours(SHIFT_CONSTANTS.NIGHT_END_HOUR, 0, 0, 0);
-  
+  const localDate = getScheduleDate(schedule, date);
+  const shifts = getShiftWindowsForDate(schedule, localDate, { ignoreClosures: true });
+
+  const first = shifts.find(shift => shift.key === 'morning') ?? shifts[0];
+  const last = shifts.find(shift => shift.key === 'night') ?? shifts[shifts.length - 1];
+
   return {
-    morningStart,
-    morningEnd,
-    nightStart,
-    nightEnd,
+    morningStart: first.start,
+    morningEnd: first.end,
+    nightStart: last.start,
+    nightEnd: last.end,
+    shifts,
   };
 }
 
 /**
  * Check if a given timestamp falls within the current shift
  */
-export function isInCurrentShift(timestamp: string, shift: ShiftType): boolean {
+export function isInCurrentShift(timestamp: string, shift: ShiftType, schedule: ShiftSchedule = activeSchedule): boolean {
   const recordTime = new Date(timestamp);
-  const shiftInfo = getCurrentShiftInfo();
-  
+  const shiftInfo = getCurrentShiftInfo(schedule);
+
   if (shift !== shiftInfo.currentShift) return false;
-  
-  return recordTime >= shiftInfo.shiftStartDateTime && 
+
+  return recordTime >= shiftInfo.shiftStartDateTime &&
          recordTime < shiftInfo.shiftEndDateTime;
 }
 
 /**
  * Get date range for shift filtering in Supabase queries
  */
-export function getShiftDateRange(shift: ShiftType, date: Date = new Date()) {
-  const boundaries = getShiftBoundaries(date);
-  
-  let startTime: Date;
-  let endTime: Date;
-  
-  if (shift === 'morning') {
-    startTime = boundaries.morningStart;
-    endTime = boundaries.morningEnd;
-  } else {
-    startTime = boundaries.nightStart;
-    endTime = boundaries.nightEnd;
-  }
-  
+export function getShiftDateRange(shift: ShiftType, date: Date = new Date(), schedule: ShiftSchedule = activeSchedule) {
+  const boundaries = getShiftBoundaries(date, schedule);
+  const window = boundaries.shifts.find(s => s.key === shift)
+    ?? (shift === 'night' ? boundaries.shifts[boundaries.shifts.length - 1] : boundaries.shifts[0]);
+
   return {
-    startTime: startTime.toISOString(),
-    endTime: endTime.toISOString(),
+    startTime: window.start.toISOString(),
+    endTime: window.end.toISOString(),
   };
 }
 
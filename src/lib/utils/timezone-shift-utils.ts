@@ -1,8 +1,15 @@
 /**
- * Proper timezone-aware shift utilities for Pacific timezone
+ * Timezone-aware shift utilities
+ *
+ * These used to hard-code a Pacific (UTC-7) variant of the 10am/10pm shifts.
+ * They now resolve against the configured shift schedule, whose timezone is
+ * the bakery timezone. The `Pacific` names are kept for existing callers.
  */
 
-export type ShiftType = 'morning' | 'night';
+import { getShiftWindowAt, getShiftWindowsForDate, type ShiftSchedule } from '@/lib/shift-schedule/schedule';
+import { getActiveShiftSchedule, type ShiftType } from './shift-utils';
+
+export type { ShiftType };
 
 export interface ShiftInfo {
   currentShift: ShiftType;
@@ -13,101 +20,48 @@ export interface ShiftInfo {
 }
 
 /**
- * Get current shift info with proper Pacific timezone handling
- * Pacific timezone is UTC-7 (PDT) or UTC-8 (PST)
+ * Get current shift info in the schedule timezone
  */
-export function getPacificShiftInfo(date: Date = new Date()): ShiftInfo {
-  // Pacific timezone offset (PDT = UTC-7, PST = UTC-8)
-  const pacificOffsetHours = -7; // Adjust for daylight saving if needed
-  
-  // Convert UTC to Pacific time
-  const pacificTime = new Date(date.getTime() + (pacificOffsetHours * 60 * 60 * 1000));
-  
-  const pacificHour = pacificTime.getUTCHours();
-  const isMorningShift = pacificHour >= 10 && pacificHour < 22;
-  const currentShift = isMorningShift ? 'morning' : 'night';
-  
-  // Calculate boundaries in Pacific time
-  const pacificDate = new Date(pacificTime);
-  pacificDate.setUTCHours(0, 0, 0, 0);
-  
-  const pacificShiftStart = new Date(pacificDate);
-  const pacificShiftEnd = new Date(pacificDate);
-  
-  if (currentShift === 'morning') {
-    pacificShiftStart.setUTCHours(10, 0, 0, 0);
-    pacificShiftEnd.setUTCHours(22, 0, 0, 0);
-  } else {
-    if (pacificHour >= 22) {
-      // Night shift starting today
-      pacificShiftStart.setUTCHours(22, 0, 0, 0);
-      pacificShiftEnd.setUTCDate(pacificShiftEnd.getUTCDate() + 1);
-      pacificShiftEnd.setUTCHours(10, 0, 0, 0);
-    } else {
-      // Night shift started yesterday
-      pacificShiftStart.setUTCDate(pacificShiftStart.getUTCDate() - 1);
-      pacificShiftStart.setUTCHours(22, 0, 0, 0);
-      pacificShiftEnd.setUTCHours(10, 0, 0, 0);
-    }
-  }
-  
-  // Convert Pacific times back to UTC for database queries
-  const utcShiftStart = new Date(pacificShiftStart.getTime() - (pacificOffsetHours * 60 * 60 * 1000));
-  const utcShiftEnd = new Date(pacificShiftEnd.getTime() - (pacificOffsetHours * 60 * 60 * 1000));
-  
+export function getPacificShiftInfo(date: Date = new Date(), schedule: ShiftSchedule = getActiveShiftSchedule()): ShiftInfo {
+  const window = getShiftWindowAt(schedule, date, { ignoreClosures: true })!;
+
+  // Date objects are absolute instants, so the "local" and UTC boundaries are the same
   return {
-    currentShift,
-    shiftStartDateTime: pacificShiftStart,
-    shiftEndDateTime: pacificShiftEnd,
-    utcShiftStart,
-    utcShiftEnd,
+    currentShift: window.key,
+    shiftStartDateTime: window.start,
+    shiftEndDateTime: window.end,
+    utcShiftStart: window.start,
+    utcShiftEnd: window.end,
   };
 }
 
 /**
- * Get shift boundaries for a specific date in Pacific timezone
+ * Get shift boundaries for a specific local date ('yyyy-MM-dd') in the schedule timezone
  */
-export function getPacificShiftBoundaries(date: string, shift: ShiftType) {
-  const targetDate = new Date(date + 'T00:00:00');
-  const shiftInfo = getPacificShiftInfo(targetDate);
-  
-  if (shift === 'morning') {
-    return {
-      start: shiftInfo.utcShiftStart,
-      end: shiftInfo.utcShiftEnd,
-    };
-  } else {
-    // For night shift, we need to adjust
-    const pacificOffsetHours = -7;
-    const pacificDate = new Date(targetDate.getTime() + (pacificOffsetHours * 60 * 60 * 1000));
-    
-    const pacificShiftStart = new Date(pacificDate);
-    const pacificShiftEnd = new Date(pacificDate);
-    
-    pacificShiftStart.setUTCHours(22, 0, 0, 0);
-    pacificShiftEnd.setUTCDate(pacificShiftEnd.getUTCDate() + 1);
-    pacificShiftEnd.setUTCHours(10, 0, 0, 0);
-    
-    return {
-      start: new Date(pacificShiftStart.getTime() - (pacificOffsetHours * 60 * 60 * 1000)),
-      end: new Date(pacificShiftEnd.getTime() - (pacificOffsetHours * 60 * 60 * 1000)),
-    };
-  }
+export function getPacificShiftBoundaries(date: string, shift: ShiftType, schedule: ShiftSchedule = getActiveShiftSchedule()) {
+  const windows = getShiftWindowsForDate(schedule, date, { ignoreClosures: true });
+  const window = windows.find(w => w.key === shift) ?? windows[0];
+
+  return {
+    start: window.start,
+    end: window.end,
+  };
 }
 
 /**
  * Check if a batch should be included based on shift and creation time
  */
 export function shouldIncludeBatchInShift(
-  batchCreatedAt: string, 
-  batchShift: ShiftType, 
+  batchCreatedAt: string,
+  batchShift: ShiftType,
   targetShift: ShiftType,
-  date: string = new Date().toISOString().split('T')[0]
+  date: string = new Date().toISOString().split('T')[0],
+  schedule: ShiftSchedule = getActiveShiftSchedule()
 ): boolean {
   if (batchShift !== targetShift) return false;
-  
-  const boundaries = getPacificShiftBoundaries(date, targetShift);
+
+  const boundaries = getPacificShiftBoundaries(date, targetShift, schedule);
   const createdAt = new Date(batchCreatedAt);
-  
+
   return createdAt >= boundaries.start && createdAt < boundaries.end;
 }
@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import { shiftKeySchema } from './shift-schedule';
+
+// Public API (/api/v1). Query schemas parse the search params of each list
+// endpoint; resource schemas describe what comes back. Both feed the
+// OpenAPI document at /api/v1/openapi.json.
+
+export const API_KEY_SCOPES = ['bread_types.view', 'batches.view', 'sales.view_all', 'reports.view'] as const;
+
+export const apiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name the key').max(80, 'Name must be 80 characters or less'),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, 'Choose at least one scope'),
+  branch_id: z.string().uuid('Invalid branch').nullable().optional(),
+  rate_limit_per_minute: z
+    .number()
+    .int('Rate limit must be a whole number')
+    .min(1, 'Rate limit must be at least 1 request a minute')
+    .max(1000, 'Rate limit must be 1000 requests a minute or less')
+    .default(60),
+  expires_at: z
+    .string()
+    .datetime({ offset: true, message: 'Choose when the key expires' })
+    .refine(value => new Date(value).getTime() > Date.now(), 'The key must expire in the future')
+    .nullable()
+    .optional(),
+});
+
+const shift = shiftKeySchema.describe('Shift key from the branch schedule, e.g. morning');
+const timestamp = z.string().datetime({ offset: true });
+const date = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+export const apiPageQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1).describe('Page number, from 1'),
+  per_page: z.coerce.number().int().min(1).max(200).default(50).describe('Items per page, up to 200'),
+});
+
+const createdBetween = {
+  created_after: timestamp.optional().describe('Only items created at or after this time (ISO 8601)'),
+  created_before: timestamp.optional().describe('Only items created before this time (ISO 8601)'),
+};
+
+export const apiBreadTypeQuerySchema = apiPageQuerySchema.extend({
+  is_active: z.enum(['true', 'false']).optional().describe('Only active (true) or retired (false) bread types'),
+  branch_id: z.string().uuid().optional().describe("Only shared bread types and this branch's, at its prices"),
+});
+
+export const apiBatchQuerySchema = apiPageQuerySchema.extend({
+  status: z.enum(['active', 'completed', 'cancelled']).optional().describe('Batch status'),
+  shift: shift.optional(),
+  bread_type_id: z.string().uuid().optional().describe('Only batches of this bread type'),
+  branch_id: z.string().uuid().optional().describe('Only batches of this branch'),
+  ...createdBetween,
+});
+
+export const apiSaleQuerySchema = apiPageQuerySchema.extend({
+  shift: shift.optional(),
+  bread_type_id: z.string().uuid().optional().describe('Only sales of this bread type'),
+  branch_id: z.string().uuid().optional().describe('Only sales at this branch'),
+  recorded_by: z.string().uuid().optional().describe('Only sales recorded by this user'),
+  ...createdBetween,
+});
+
+export const apiShiftReportQuerySchema = apiPageQuerySchema.extend({
+  shift: shift.optional(),
+  user_id: z.string().uuid().optional().describe('Only reports submitted by this user'),
+  branch_id: z.string().uuid().optional().describe('Only reports from this branch'),
+  from_date: date.optional().describe('Only reports for this day or later (YYYY-MM-DD)'),
+  to_date: date.optional().describe('Only reports for this day or earlier (YYYY-MM-DD)'),
+});
+
+export const apiBreadTypeSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  size: z.string().nullable(),
+  unit_price: z.number(),
+  is_active: z.boolean(),
+  created_at: z.string().nullable(),
+});
+
+export const apiBatchSchema = z.object({
+  id: z.string().uuid(),
+  batch_number: z.string(),
+  bread_type_id: z.string().uuid(),
+  bread_type: z.string().nullable().describe('Bread type name'),
+  shift: shift,
+  status: z.string().nullable(),
+  target_quantity: z.number().nullable(),
+  actual_quantity: z.number().nullable(),
+  start_time: z.string().nullable(),
+  end_time: z.string().nullable(),
+  branch_id: z.string().uuid().nullable(),
+  created_by: z.string().uuid(),
+  created_at: z.string().nullable(),
+});
+
+export const apiSaleSchema = z.object({
+  id: z.string().uuid(),
+  bread_type_id: z.string().uuid(),
+  bread_type: z.string().nullable().describe('Bread type name'),
+  quantity: z.number(),
+  unit_price: z.number().nullable(),
+  discount: z.number().nullable(),
+  total: z.number().describe('Quantity times unit price, less the discount'),
+  amount_paid: z.number().nullable().describe('Set when part of the sale went on credit'),
+  payment_method: z.string(),
+  returned: z.boolean().nullable(),
+  leftovers: z.number().nullable(),
+  shift: shift,
+  recorded_by: z.string().uuid(),
+  branch_id: z.string().uuid().nullable(),
+  promotion_id: z.string().uuid().nullable(),
+  created_at: z.string().nullable(),
+});
+
+export const apiShiftReportSchema = z.object({
+  id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  branch_id: z.string().uuid().nullable(),
+  shift: shift,
+  report_date: z.string(),
+  total_revenue: z.number(),
+  total_items_sold: z.number(),
+  total_remaining: z.number(),
+  total_voided: z.number(),
+  counted_cash: z.number().nullable(),
+  counted_transfer: z.number().nullable(),
+  cash_variance: z.number().nullable(),
+  transfer_variance: z.number().nullable(),
+  feedback: z.string().nullable(),
+  created_at: z.string().nullable(),
+  updated_at: z.string().nullable(),
+});
+
+export type ApiKeyInput = z.infer<typeof apiKeySchema>;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+export type ApiBreadType = z.infer<typeof apiBreadTypeSchema>;
+export type ApiBatch = z.infer<typeof apiBatchSchema>;
+export type ApiSale = z.infer<typeof apiSaleSchema>;
+export type ApiShiftReport = z.infer<typeof apiShiftReportSchema>;
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+export const branchSchema = z.object({
+  name: z.string().trim().min(2, 'Branch name must be at least 2 characters').max(100),
+  address: z.string().trim().max(200).optional().nullable(),
+  phone: z.string().trim().max(30).optional().nullable(),
+  is_active: z.boolean().optional().default(true),
+});
+
+export const branchPriceSchema = z.object({
+  branch_id: z.string().uuid('Invalid branch'),
+  bread_type_id: z.string().uuid('Invalid bread type'),
+  // null clears the override so the bread type's base price applies
+  unit_price: z.number().min(0, 'Unit price must be non-negative').nullable(),
+});
+
+export type BranchInput = z.infer<typeof branchSchema>;
+export type BranchPriceInput = z.infer<typeof branchPriceSchema>;
@@ -18,4 +18,16 @@ export const breadTypeUpdateSchema = z.object({
 // Schema for status-only updates (activate/deactivate)
 export const breadTypeStatusSchema = z.object({
   is_active: z.boolean(),
-}); 
\ No newline at end of file
+});
+
+// Schema for scheduling a future price change
+export const scheduledPriceSchema = z.object({
+  bread_type_id: z.string().uuid('Invalid bread type'),
+  branch_id: z.string().uuid().nullable().optional(),
+  unit_price: z.number().min(0, 'Unit price must be non-negative'),
+  effective_from: z.string().datetime({ offset: true, message: 'Choose when the new price starts' })
+    .refine(value => new Date(value).getTime() > Date.now(), 'The new price must start in the future'),
+  note: z.string().trim().max(200, 'Note must be 200 characters or less').optional(),
+});
+
+export type ScheduledPriceInput = z.infer<typeof scheduledPriceSchema>;
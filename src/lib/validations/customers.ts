@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+export const customerSchema = z.object({
+  name: z.string().trim().min(2, 'Customer name must be at least 2 characters').max(100),
+  phone: z.string().trim().max(30).optional().nullable(),
+  // What the customer may owe at most; 0 means they always pay in full
+  credit_limit: z.number().min(0, 'Credit limit cannot be negative').finite(),
+  is_active: z.boolean().optional().default(true),
+});
+
+export const customerPaymentSchema = z.object({
+  customer_id: z.string().uuid('Invalid customer'),
+  amount: z.number().positive('Payment must be greater than 0').finite(),
+  note: z.string().trim().max(200).optional(),
+});
+
+export const customerStatementSchema = z.object({
+  customer_id: z.string().uuid('Invalid customer'),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be YYYY-MM-DD').optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'End date must be YYYY-MM-DD').optional(),
+}).refine(data => !data.from || !data.to || data.from <= data.to, {
+  message: 'End date must be after start date',
+  path: ['to'],
+});
+
+export type CustomerInput = z.infer<typeof customerSchema>;
+export type CustomerPaymentInput = z.infer<typeof customerPaymentSchema>;
+export type CustomerStatementInput = z.infer<typeof customerStatementSchema>;
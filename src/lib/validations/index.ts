@@ -2,9 +2,27 @@
 export * from './bread-types';
 export * from './sales';
 export * from './production';
+export * from './shift-schedule';
+export * from './branches';
+export * from './ingredients';
+export * from './offline';
+export * from './permissions';
+export * from './customers';
+export * from './low-stock';
+export * from './promotions';
+export * from './reports';
+export * from './scheduled-reports';
+export * from './shift-handovers';
+export * from './stock-carryovers';
+export * from './waste';
+export * from './notification-preferences';
+export * from './notification-inbox';
+export * from './webhooks';
+export * from './api';
 
 // Common validation patterns
 import { z } from 'zod';
+import { shiftKeySchema } from './shift-schedule';
 
 // User validation schemas
 export const userEmailSchema = z.string()
@@ -72,10 +90,7 @@ export const newPasswordSchema = z.object({
 });
 
 // Shift validation schemas
-export const shiftSchema = z.enum(['morning', 'night'], {
-  required_error: 'Shift is required',
-  invalid_type_error: 'Shift must be morning or night',
-});
+export const shiftSchema = shiftKeySchema;
 
 export const shiftFeedbackSchema = z.object({
   shift: shiftSchema,
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+export const INGREDIENT_UNITS = ['kg', 'g', 'l', 'ml', 'pcs'] as const;
+
+export const ingredientSchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100),
+  unit: z.enum(INGREDIENT_UNITS, { invalid_type_error: 'Invalid unit' }),
+  reorder_level: z.number().min(0, 'Reorder level cannot be negative'),
+  cost_per_unit: z.number().min(0, 'Cost cannot be negative').nullable().optional(),
+  is_active: z.boolean().optional().default(true),
+});
+
+export const ingredientReceiptSchema = z.object({
+  ingredient_id: z.string().uuid('Select an ingredient'),
+  quantity: z.number().positive('Quantity must be greater than zero'),
+  unit_cost: z.number().min(0, 'Cost cannot be negative').nullable().optional(),
+  supplier: z.string().trim().max(100).optional().nullable(),
+  notes: z.string().trim().max(500).optional().nullable(),
+  branch_id: z.string().uuid().nullable().optional(),
+});
+
+export const ingredientAdjustmentSchema = z.object({
+  ingredient_id: z.string().uuid('Select an ingredient'),
+  change: z.number().refine(change => change !== 0, 'Adjustment cannot be zero'),
+  notes: z.string().trim().min(1, 'Give a reason for the adjustment').max(500),
+  branch_id: z.string().uuid().nullable().optional(),
+});
+
+export const recipeItemSchema = z.object({
+  ingredient_id: z.string().uuid('Select an ingredient'),
+  quantity: z.number().positive('Quantity must be greater than zero'),
+  per: z.enum(['loaf', 'batch']),
+});
+
+export const recipeSchema = z.array(recipeItemSchema).refine(
+  items => new Set(items.map(item => item.ingredient_id)).size === items.length,
+  'Each ingredient can only appear once in a recipe'
+);
+
+// Manual cost per loaf; null falls back to the recipe-derived cost
+export const breadTypeCostSchema = z.object({
+  bread_type_id: z.string().uuid(),
+  unit_cost: z.number().min(0, 'Cost cannot be negative').nullable(),
+});
+
+export type IngredientInput = z.infer<typeof ingredientSchema>;
+export type IngredientReceiptInput = z.infer<typeof ingredientReceiptSchema>;
+export type IngredientAdjustmentInput = z.infer<typeof ingredientAdjustmentSchema>;
+export type RecipeItemInput = z.infer<typeof recipeItemSchema>;
+export type BreadTypeCostInput = z.infer<typeof breadTypeCostSchema>;
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { shiftKeySchema } from './shift-schedule';
+
+export const lowStockThresholdsSchema = z.object({
+  shift: shiftKeySchema,
+  branch_id: z.string().uuid().nullable().optional(),
+  items: z.array(z.object({
+    bread_type_id: z.string().uuid('Invalid bread type'),
+    // null goes back to the default level
+    threshold: z.number().int('Threshold must be a whole number').min(0, 'Threshold cannot be negative').nullable(),
+    critical_level: z.number().int('Critical level must be a whole number').min(0, 'Critical level cannot be negative').nullable(),
+  }).refine(item => item.critical_level === null || (item.threshold !== null && item.critical_level <= item.threshold), {
+    message: 'Critical level must be at or below the low-stock threshold',
+    path: ['critical_level'],
+  })),
+});
+
+export type LowStockThresholdsInput = z.infer<typeof lowStockThresholdsSchema>;
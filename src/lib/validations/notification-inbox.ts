@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+export const notificationIdsSchema = z.object({
+  ids: z.array(z.string().uuid('Invalid notification')).min(1, 'Pick at least one notification').max(200),
+});
+
+export const notificationArchiveSchema = notificationIdsSchema.extend({
+  archived: z.boolean(),
+});
+
+export type NotificationIdsInput = z.infer<typeof notificationIdsSchema>;
+export type NotificationArchiveInput = z.infer<typeof notificationArchiveSchema>;
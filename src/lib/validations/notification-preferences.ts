@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { shiftKeySchema } from './shift-schedule';
+
+const ACTIVITY_TYPES = ['sale', 'batch', 'report', 'login', 'end_shift', 'created', 'low_stock'] as const;
+
+const DIGEST_MINUTES = [15, 30, 60, 120, 240];
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use a 24-hour time like 22:00');
+
+export const notificationPreferencesSchema = z.object({
+  activity_types: z.array(z.enum(ACTIVITY_TYPES)).nullable(),
+  shifts: z.array(shiftKeySchema).max(20).nullable(),
+  bread_type_ids: z.array(z.string().uuid('Invalid bread type')).max(200).nullable(),
+  min_sale_revenue: z.number().min(0, 'The minimum sale cannot be negative').nullable(),
+  quiet_hours_start: timeOfDay.nullable(),
+  quiet_hours_end: timeOfDay.nullable(),
+  digest_minutes: z.number().int().refine(
+    minutes => DIGEST_MINUTES.includes(minutes),
+    'Pick one of the digest cadences'
+  ).nullable(),
+}).refine(
+  preferences => (preferences.quiet_hours_start === null) === (preferences.quiet_hours_end === null),
+  { message: 'Set both ends of quiet hours, or neither', path: ['quiet_hours_end'] }
+);
+
+export const notificationRouteSchema = z.object({
+  activity_type: z.enum(ACTIVITY_TYPES),
+  roles: z.array(z.enum(['owner', 'manager', 'sales_rep'])).min(1, 'Send this to at least one role'),
+});
+
+export type NotificationPreferencesInput = z.infer<typeof notificationPreferencesSchema>;
+export type NotificationRouteInput = z.infer<typeof notificationRouteSchema>;
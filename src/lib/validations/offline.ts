@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { paymentMethodSchema } from './sales';
+import { shiftKeySchema } from './shift-schedule';
+
+// The updated_at the device last saw, or null when it saw no record
+const baseVersionSchema = z.string().nullable();
+
+const offlineActionBaseSchema = z.object({
+  idempotency_key: z.string().uuid('Invalid idempotency key'),
+  queued_at: z.number().int().positive(),
+  // Overwrite changes made by someone else since the action was queued
+  force: z.boolean().optional(),
+});
+
+export const offlineSaleSchema = z.object({
+  bread_type_id: z.string().uuid('Invalid bread type'),
+  quantity: z.number().int('Quantity must be a whole number').positive('Quantity must be greater than 0'),
+  unit_price: z.number().min(0),
+  discount: z.number().min(0).optional(),
+  shift: shiftKeySchema,
+  recorded_by: z.string().uuid(),
+  customer_id: z.string().uuid('Invalid customer').optional(),
+  amount_paid: z.number().min(0).optional(),
+  payment_method: paymentMethodSchema.optional(),
+  promotion_id: z.string().uuid('Invalid promotion').nullable().optional(),
+});
+
+// End-of-shift totals: replace the shift's quantity per bread type
+export const offlineShiftSalesSchema = z.object({
+  items: z.array(offlineSaleSchema.omit({ discount: true, customer_id: true, amount_paid: true, payment_method: true, promotion_id: true })).min(1, 'At least one sale is required'),
+});
+
+export const offlineRemainingBreadSchema = z.object({
+  items: z.array(z.object({
+    bread_type_id: z.string().uuid('Invalid bread type'),
+    bread_type: z.string().min(1),
+    quantity: z.number().int('Quantity must be a whole number').min(0, 'Quantity cannot be negative'),
+    unit_price: z.number().min(0),
+    shift: shiftKeySchema,
+    recorded_by: z.string().uuid(),
+    base_version: baseVersionSchema,
+  })).min(1, 'At least one bread type is required'),
+});
+
+export const offlineShiftReportSchema = z.object({
+  user_id: z.string().uuid(),
+  shift: shiftKeySchema,
+  report_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Report date must be YYYY-MM-DD'),
+  feedback: z.string().max(1000).optional(),
+  counted_cash: z.number().min(0).optional(),
+  counted_transfer: z.number().min(0).optional(),
+  base_version: baseVersionSchema,
+});
+
+export const offlineActionSchema = z.discriminatedUnion('type', [
+  offlineActionBaseSchema.extend({ type: z.literal('sales_log'), data: offlineSaleSchema }),
+  offlineActionBaseSchema.extend({ type: z.literal('shift_sales'), data: offlineShiftSalesSchema }),
+  offlineActionBaseSchema.extend({ type: z.literal('remaining_bread'), data: offlineRemainingBreadSchema }),
+  offlineActionBaseSchema.extend({ type: z.literal('shift_report'), data: offlineShiftReportSchema }),
+]);
+
+export type OfflineSaleInput = z.infer<typeof offlineSaleSchema>;
+export type OfflineShiftSalesInput = z.infer<typeof offlineShiftSalesSchema>;
+export type OfflineRemainingBreadInput = z.infer<typeof offlineRemainingBreadSchema>;
+export type OfflineShiftReportInput = z.infer<typeof offlineShiftReportSchema>;
+export type OfflineActionInput = z.infer<typeof offlineActionSchema>;
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { CONFIGURABLE_ROLES, isPermission, type Permission } from '@/lib/auth/permissions';
+
+const permissionSchema = z.string().refine(isPermission, 'Unknown permission') as z.ZodType<Permission>;
+
+export const rolePermissionSchema = z.object({
+  role: z.enum(CONFIGURABLE_ROLES, { invalid_type_error: 'Owner permissions cannot be changed' }),
+  permission: permissionSchema,
+  granted: z.boolean(),
+});
+
+export const userPermissionOverrideSchema = z.object({
+  user_id: z.string().uuid('Invalid user'),
+  permission: permissionSchema,
+  // null removes the override so the role's default applies
+  granted: z.boolean().nullable(),
+});
+
+export type RolePermissionInput = z.infer<typeof rolePermissionSchema>;
+export type UserPermissionOverrideInput = z.infer<typeof userPermissionOverrideSchema>;
@@ -1,12 +1,10 @@
 import { z } from 'zod';
+import { shiftKeySchema } from './shift-schedule';
 
 export const productionEntrySchema = z.object({
   bread_type_id: z.string().min(1, 'Bread type is required'),
   quantity: z.number().min(0, 'Quantity must be a non-negative number'),
-  shift: z.enum(['morning', 'night'], {
-    required_error: 'Shift is required',
-    invalid_type_error: 'Shift must be morning or night',
-  }),
+  shift: shiftKeySchema,
   feedback: z.string().optional(),
 });
 
@@ -14,5 +12,16 @@ export const productionFormSchema = z.object({
   entries: z.array(productionEntrySchema).min(1, 'At least one entry is required'),
 });
 
+export const productionPlanSchema = z.object({
+  plan_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Plan date must be YYYY-MM-DD'),
+  shift: shiftKeySchema,
+  branch_id: z.string().uuid().nullable().optional(),
+  items: z.array(z.object({
+    bread_type_id: z.string().uuid('Invalid bread type'),
+    planned_quantity: z.number().int('Planned quantity must be a whole number').min(0, 'Planned quantity cannot be negative'),
+  })),
+});
+
 export type ProductionEntry = z.infer<typeof productionEntrySchema>;
-export type ProductionFormData = z.infer<typeof productionFormSchema>; 
\ No newline at end of file
+export type ProductionFormData = z.infer<typeof productionFormSchema>; 
+export type ProductionPlanInput = z.infer<typeof productionPlanSchema>;
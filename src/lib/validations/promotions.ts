@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { shiftKeySchema } from './shift-schedule';
+
+const clockTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Times must be HH:mm');
+const calendarDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be yyyy-mm-dd');
+
+export const promotionSchema = z.object({
+  id: z.string().uuid().optional(),
+  name: z.string().trim().min(1, 'Name is required').max(80, 'Name must be 80 characters or less'),
+  kind: z.enum(['buy_x_get_y', 'percent_off', 'bulk_tier', 'clearance'], {
+    required_error: 'Choose the kind of promotion',
+    invalid_type_error: 'Unknown kind of promotion',
+  }),
+  // null = every branch (owners only) / every bread type
+  branch_id: z.string().uuid().nullable().optional(),
+  bread_type_id: z.string().uuid('Invalid bread type').nullable().optional(),
+  buy_quantity: z.number().int('Buy quantity must be a whole number').positive('Buy quantity must be at least 1').nullable().optional(),
+  free_quantity: z.number().int('Free quantity must be a whole number').positive('Free quantity must be at least 1').nullable().optional(),
+  percent_off: z.number().gt(0, 'Percentage must be above 0').max(100, 'Percentage cannot exceed 100').nullable().optional(),
+  tiers: z.array(z.object({
+    min_quantity: z.number().int('Tier quantities must be whole numbers').min(2, 'Tiers start at 2 loaves'),
+    unit_price: z.number().min(0, 'Tier prices cannot be negative'),
+  })).max(10, 'Up to 10 tiers').default([]),
+  shift: shiftKeySchema.nullable().optional(),
+  start_time: clockTimeSchema.nullable().optional(),
+  end_time: clockTimeSchema.nullable().optional(),
+  valid_from: calendarDateSchema.nullable().optional(),
+  valid_to: calendarDateSchema.nullable().optional(),
+  is_active: z.boolean().default(true),
+}).superRefine((promotion, ctx) => {
+  if (promotion.kind === 'buy_x_get_y' && (!promotion.buy_quantity || !promotion.free_quantity)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Set how many to buy and how many are free', path: ['buy_quantity'] });
+  }
+  if ((promotion.kind === 'percent_off' || promotion.kind === 'clearance') && !promotion.percent_off) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Set the percentage off', path: ['percent_off'] });
+  }
+  if (promotion.kind === 'bulk_tier') {
+    if (promotion.tiers.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Add at least one price tier', path: ['tiers'] });
+    }
+    if (new Set(promotion.tiers.map(tier => tier.min_quantity)).size !== promotion.tiers.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Each tier needs a different quantity', path: ['tiers'] });
+    }
+  }
+  if (promotion.kind === 'clearance' && !promotion.start_time) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Clearance needs the time it starts', path: ['start_time'] });
+  }
+  if (!promotion.start_time !== !promotion.end_time) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Set both a start and an end time, or neither', path: ['end_time'] });
+  }
+  if (promotion.valid_from && promotion.valid_to && promotion.valid_to < promotion.valid_from) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'The end date must be on or after the start date', path: ['valid_to'] });
+  }
+});
+
+export type PromotionInput = z.infer<typeof promotionSchema>;
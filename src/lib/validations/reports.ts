@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { shiftKeySchema } from './shift-schedule';
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+export const reportExportSchema = z.object({
+  format: z.enum(['pdf', 'xlsx'], {
+    required_error: 'Export format is required',
+    invalid_type_error: 'Export format must be pdf or xlsx',
+  }),
+  title: z.string().trim().max(100, 'Title must be less than 100 characters').optional(),
+  subtitle: z.string().trim().max(200, 'Subtitle must be less than 200 characters').optional(),
+  // What to export; the server loads the data itself from these
+  report: z.discriminatedUnion('kind', [
+    z.object({
+      kind: z.literal('summary'),
+      filters: z.object({
+        startDate: isoDateSchema.optional(),
+        endDate: isoDateSchema.optional(),
+        shift: shiftKeySchema.optional(),
+        breadTypeId: z.string().uuid('Invalid bread type').optional(),
+        recordedBy: z.string().uuid('Invalid user').optional(),
+      }),
+    }),
+    z.object({
+      kind: z.literal('shift'),
+      shiftId: z.string().min(1, 'Shift is required'),
+    }),
+    z.object({
+      kind: z.literal('batches'),
+      batchIds: z.array(z.string().uuid('Invalid batch'))
+        .min(1, 'Select at least one batch')
+        .max(1000, 'Export at most 1000 batches at a time'),
+    }),
+    z.object({
+      kind: z.literal('production'),
+      filters: z.object({
+        bread_type_id: z.string().uuid('Invalid bread type').optional(),
+        shift: shiftKeySchema.optional(),
+        date: isoDateSchema.optional(),
+      }),
+    }),
+  ]),
+});
+
+export type ReportExportInput = z.infer<typeof reportExportSchema>;
+export type ReportExportTarget = ReportExportInput['report'];
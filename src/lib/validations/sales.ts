@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { shiftKeySchema } from './shift-schedule';
 
 export const salesEntrySchema = z.object({
   bread_type_id: z.string().min(1, 'Bread type is required'),
@@ -6,25 +7,50 @@ export const salesEntrySchema = z.object({
   unit_price: z.number().min(0, 'Unit price must be a non-negative number').optional(),
   discount: z.number().min(0, 'Discount must be a non-negative number').optional().default(0),
   leftover: z.number().min(0, 'Leftover must be a non-negative number').optional().default(0),
-  shift: z.enum(['morning', 'night'], {
-    required_error: 'Shift is required',
-    invalid_type_error: 'Shift must be morning or night',
-  }),
+  shift: shiftKeySchema,
   recorded_by: z.string().min(1, 'Recorded by is required'),
   returned: z.boolean().optional().default(false),
 });
 
+export const paymentMethodSchema = z.enum(['cash', 'transfer', 'pos', 'credit'], {
+  invalid_type_error: 'Payment method must be cash, transfer, pos or credit',
+});
+
 export const salesFormSchema = z.object({
   entries: z.array(salesEntrySchema).min(1, 'At least one sale entry is required'),
 });
 
 export const shiftSummarySchema = z.object({
-  shift: z.enum(['morning', 'night']),
+  shift: shiftKeySchema,
   total_sales: z.number().min(0),
   total_revenue: z.number().min(0),
   unsold_loaves: z.number().min(0),
 });
 
+export const saleVoidSchema = z.object({
+  sale_id: z.string().uuid('Invalid sale'),
+  kind: z.enum(['void', 'refund']),
+  // Voids always cover what is left of the sale, so quantity only matters for refunds
+  quantity: z.number().int('Quantity must be a whole number').min(1, 'Quantity must be at least 1').optional(),
+  reason: z.string().trim().min(3, 'Give a reason').max(500, 'Reason must be less than 500 characters'),
+  restock: z.boolean().optional().default(true),
+  approver_id: z.string().uuid('Invalid approver').optional(),
+  approver_pin: z.string().regex(/^\d{4,6}$/, 'PIN must be 4 to 6 digits').optional(),
+}).refine(data => data.kind === 'void' || data.quantity !== undefined, {
+  message: 'Quantity is required for a refund',
+  path: ['quantity'],
+});
+
+export const approvalPinSchema = z.object({
+  pin: z.string().regex(/^\d{4,6}$/, 'PIN must be 4 to 6 digits'),
+});
+
+export const saleVoidSettingsSchema = z.object({
+  approval_threshold: z.number().min(0, 'Threshold cannot be negative').finite(),
+});
+
 export type SalesEntry = z.infer<typeof salesEntrySchema>;
 export type SalesFormData = z.infer<typeof salesFormSchema>;
-export type ShiftSummary = z.infer<typeof shiftSummarySchema>; 
\ No newline at end of file
+export type ShiftSummary = z.infer<typeof shiftSummarySchema>;
+export type SaleVoidInput = z.infer<typeof saleVoidSchema>;
+export type SaleVoidSettingsInput = z.infer<typeof saleVoidSettingsSchema>;
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export const reportScheduleSchema = z.object({
+  id: z.string().uuid().optional(),
+  kind: z.enum(['daily_shift_summary', 'weekly_sales', 'monthly_pnl'], {
+    required_error: 'Choose a report',
+    invalid_type_error: 'Unknown report',
+  }),
+  recipient_email: z.string().trim().toLowerCase().email('Enter a valid email address'),
+  recipient_name: z.string().trim().max(80, 'Name must be 80 characters or less').nullable().optional(),
+  attachment_format: z.enum(['pdf', 'xlsx', 'none']).default('pdf'),
+  send_hour: z.number().int('Send hour must be a whole hour').min(0, 'Send hour must be 0-23').max(23, 'Send hour must be 0-23').default(7),
+  is_active: z.boolean().default(true),
+});
+
+export type ReportScheduleInput = z.infer<typeof reportScheduleSchema>;
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { shiftKeySchema } from './shift-schedule';
+
+export const shiftHandoverSchema = z.object({
+  from_shift: shiftKeySchema,
+  total_production: z.number().int().min(0).default(0),
+  completed_batches: z.number().int().min(0).default(0),
+  pending_batches: z.array(z.object({
+    batch_id: z.string().uuid(),
+    batch_number: z.string(),
+    bread_type_name: z.string(),
+    target_quantity: z.number().nullable(),
+  })).max(200).default([]),
+  remaining_stock: z.array(z.object({
+    bread_type_id: z.string().uuid(),
+    bread_type_name: z.string(),
+    quantity: z.number().int('Stock counts must be whole loaves').min(0, 'Stock counts cannot be negative'),
+  })).max(200).default([]),
+  quality_issues: z.array(
+    z.string().trim().min(1).max(200, 'Keep each issue under 200 characters')
+  ).max(20, 'Up to 20 issues').default([]),
+  notes: z.string().trim().max(1000, 'Notes must be 1000 characters or less').nullable().optional(),
+  // The outgoing manager ticks each of these before the handover can be sent
+  confirmed_batches: z.literal(true, { errorMap: () => ({ message: 'Confirm the pending batches' }) }),
+  confirmed_stock: z.literal(true, { errorMap: () => ({ message: 'Confirm the remaining stock' }) }),
+});
+
+export const shiftHandoverAcknowledgementSchema = z.object({
+  handover_id: z.string().uuid('Invalid handover'),
+  notes: z.string().trim().max(1000, 'Notes must be 1000 characters or less').nullable().optional(),
+});
+
+export type ShiftHandoverInput = z.infer<typeof shiftHandoverSchema>;
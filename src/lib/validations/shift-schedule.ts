@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+// Any key a schedule can define. Which keys a branch actually runs is only
+// known from its schedule, so actions also check them with checkShiftKey.
+export const shiftKeySchema = z.string({
+  required_error: 'Shift is required',
+  invalid_type_error: 'Shift must be a shift key',
+})
+  .min(1, 'Shift is required')
+  .max(30, 'Shift key must be less than 30 characters')
+  .regex(/^[a-z][a-z0-9_]*$/, 'Shift key must be lowercase letters, numbers or underscores');
+
+export const shiftDefinitionSchema = z.object({
+  key: shiftKeySchema,
+  label: z.string().min(1, 'Shift name is required').max(50, 'Shift name must be less than 50 characters'),
+  start_time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Start time must be HH:mm'),
+});
+
+const shiftListSchema = z.array(shiftDefinitionSchema)
+  .min(1, 'At least one shift is required')
+  .refine(
+    shifts => new Set(shifts.map(shift => shift.key)).size === shifts.length,
+    'Shift keys must be unique'
+  )
+  .refine(
+    shifts => new Set(shifts.map(shift => shift.start_time)).size === shifts.length,
+    'Two shifts cannot start at the same time'
+  );
+
+export const shiftScheduleSchema = z.object({
+  name: z.string().min(1, 'Schedule name is required').max(100),
+  timezone: z.string().refine(timezone => {
+    try {
+      Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'Unknown timezone'),
+  shifts: shiftListSchema,
+  weekday_overrides: z.record(z.enum(['0', '1', '2', '3', '4', '5', '6']), shiftListSchema).default({}),
+  closures: z.array(z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Closure date must be yyyy-MM-dd'),
+    reason: z.string().max(200).nullable().optional(),
+  })).default([]),
+});
+
+export type ShiftScheduleInput = z.infer<typeof shiftScheduleSchema>;
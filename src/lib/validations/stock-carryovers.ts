@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { shiftKeySchema } from './shift-schedule';
+
+export const stockCarryOverSchema = z.object({
+  from_shift: shiftKeySchema,
+  items: z.array(z.object({
+    bread_type_id: z.string().uuid('Invalid bread type'),
+    disposition: z.enum(['carried', 'discounted', 'stale', 'discarded']),
+    quantity: z.number().int('Counts must be whole loaves').min(1, 'Counts must be at least 1'),
+    unit_price: z.number().min(0, 'Prices cannot be negative').nullable().optional(),
+  }).refine(
+    item => item.disposition !== 'discounted' || typeof item.unit_price === 'number',
+    { message: 'Set a price for discounted loaves', path: ['unit_price'] }
+  )).max(400).default([]),
+  notes: z.string().trim().max(1000, 'Notes must be 1000 characters or less').nullable().optional(),
+});
+
+export type StockCarryOverInput = z.infer<typeof stockCarryOverSchema>;
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+import { shiftKeySchema } from './shift-schedule';
+
+export const wasteEntrySchema = z.object({
+  bread_type_id: z.string().uuid('Choose a bread type'),
+  shift: shiftKeySchema,
+  quantity: z.number().int('Counts must be whole loaves').min(1, 'Count at least 1 loaf').max(10000, 'That is too many loaves'),
+  reason: z.enum(['stale', 'burnt', 'damaged', 'staff_meal', 'donation'], { required_error: 'Choose a reason' }),
+  notes: z.string().trim().max(500, 'Notes must be 500 characters or less').nullable().optional(),
+});
+
+export type WasteEntryInput = z.infer<typeof wasteEntrySchema>;
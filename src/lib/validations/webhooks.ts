@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+export const webhookSubscriptionSchema = z.object({
+  id: z.string().uuid().optional(),
+  name: z.string().trim().min(1, 'Name the integration').max(80, 'Name must be 80 characters or less'),
+  url: z
+    .string()
+    .trim()
+    .url('Enter a valid URL')
+    .refine(url => /^https?:\/\//i.test(url), 'The URL must start with http:// or https://'),
+  event_types: z
+    .array(z.enum(['sale.created', 'batch.completed', 'shift.ended', 'report.submitted']))
+    .min(1, 'Choose at least one event'),
+  is_active: z.boolean().default(true),
+});
+
+export type WebhookSubscriptionInput = z.infer<typeof webhookSubscriptionSchema>;
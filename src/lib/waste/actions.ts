@@ -0,0 +1,117 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createServer } from '@/lib/supabase/server';
+import { requirePermission } from '@/lib/auth/auth-utils';
+import { getBreadTypeUnitCosts } from '@/lib/ingredients/costing';
+import { checkShiftKey } from '@/lib/shift-schedule/actions';
+import { wasteEntrySchema, formatValidationError } from '@/lib/validations';
+import type { ShiftType } from '@/types';
+import type { WasteEntry, WasteReason } from './waste';
+
+type ActionResult = { success: boolean; error?: string };
+
+const WASTE_PATH = '/dashboard/inventory/waste';
+
+type WasteRow = {
+  id: string;
+  branch_id: string | null;
+  bread_type_id: string;
+  shift: string;
+  quantity: number;
+  reason: string;
+  unit_cost: number | null;
+  unit_price: number;
+  notes: string | null;
+  carryover_id: string | null;
+  created_at: string | null;
+  bread_types: { name: string } | null;
+  recorder: { name: string | null } | null;
+};
+
+/**
+ * Waste log, newest first. Owners see every branch.
+ */
+export async function getWasteEntries(limit = 50): Promise<WasteEntry[]> {
+  try {
+    await requirePermission('waste.record');
+    const supabase = await createServer();
+
+    const { data, error } = await supabase
+      .from('waste_logs')
+      .select(`
+        id, branch_id, bread_type_id, shift, quantity, reason, unit_cost, unit_price, notes, carryover_id, created_at,
+        bread_types ( name ),
+        recorder:users!waste_logs_recorded_by_fkey ( name )
+      `)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+
+    return ((data || []) as unknown as WasteRow[]).map(row => ({
+      id: row.id,
+      branch_id: row.branch_id,
+      bread_type_id: row.bread_type_id,
+      bread_type_name: row.bread_types?.name || 'Unknown',
+      shift: row.shift as ShiftType,
+      quantity: row.quantity,
+      reason: row.reason as WasteReason,
+      unit_cost: row.unit_cost !== null ? Number(row.unit_cost) : null,
+      unit_price: Number(row.unit_price),
+      notes: row.notes,
+      from_carryover: row.carryover_id !== null,
+      recorded_by_name: row.recorder?.name || 'Unknown',
+      created_at: row.created_at ?? new Date().toISOString(),
+    }));
+  } catch (error) {
+    console.error('Error fetching waste entries:', error);
+    return [];
+  }
+}
+
+/**
+ * Log wasted loaves and take them out of stock. The loaf's cost is
+ * snapshotted now, recipe cost included, so later price or recipe
+ * changes don't rewrite past waste.
+ */
+export async function recordWaste(input: unknown): Promise<ActionResult & { waste_id?: string }> {
+  try {
+    const user = await requirePermission('waste.record');
+
+    const parsed = wasteEntrySchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const entry = parsed.data;
+    const shiftError = await checkShiftKey(entry.shift, user.branch_id);
+    if (shiftError) {
+      return { success: false, error: shiftError };
+    }
+
+    const supabase = await createServer();
+    const costs = await getBreadTypeUnitCosts(supabase, [entry.bread_type_id]);
+
+    const { data, error } = await supabase.rpc('record_waste', {
+      p_bread_type_id: entry.bread_type_id,
+      p_shift: entry.shift,
+      p_quantity: entry.quantity,
+      p_reason: entry.reason,
+      p_unit_cost: costs[entry.bread_type_id]?.unitCost ?? undefined,
+      p_notes: entry.notes || undefined,
+    });
+
+    if (error) {
+      console.error('Error recording waste:', error);
+      return { success: false, error: error.message || 'Failed to record waste' };
+    }
+
+    revalidatePath(WASTE_PATH);
+    revalidatePath('/dashboard/inventory');
+    return { success: true, waste_id: data };
+  } catch (error) {
+    console.error('Error in recordWaste:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to record waste' };
+  }
+}
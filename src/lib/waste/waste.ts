@@ -0,0 +1,62 @@
+/**
+ * Waste and spoilage
+ *
+ * Loaves that leave stock without being sold. Each entry keeps the cost
+ * and price of a loaf at the time, so waste can be valued at what it cost
+ * to bake and at what it would have sold for.
+ *
+ * Everything here is pure (no Supabase, no React).
+ */
+
+import type { ShiftType } from '@/types';
+
+export type WasteReason = 'stale' | 'burnt' | 'damaged' | 'staff_meal' | 'donation';
+
+export const WASTE_REASONS: Record<WasteReason, { label: string; description: string }> = {
+  stale: { label: 'Stale', description: 'Past its best, not fit to sell' },
+  burnt: { label: 'Burnt', description: 'Spoiled in the oven' },
+  damaged: { label: 'Damaged', description: 'Crushed, dropped or torn' },
+  staff_meal: { label: 'Staff meal', description: 'Eaten by staff' },
+  donation: { label: 'Donation', description: 'Given away' },
+};
+
+export const WASTE_REASON_KEYS = Object.keys(WASTE_REASONS) as WasteReason[];
+
+export interface WasteEntry {
+  id: string;
+  branch_id: string | null;
+  bread_type_id: string;
+  bread_type_name: string;
+  shift: ShiftType;
+  quantity: number;
+  reason: WasteReason;
+  unit_cost: number | null;
+  unit_price: number;
+  notes: string | null;
+  from_carryover: boolean;
+  recorded_by_name: string;
+  created_at: string;
+}
+
+/**
+ * Wasted loaves as a share of what was baked, 0 when nothing was
+ */
+export function wastePercent(wasted: number, produced: number): number {
+  return produced > 0 ? (wasted / produced) * 100 : 0;
+}
+
+/**
+ * An entry valued at cost and at price. Cost falls back to the bread
+ * type's current cost for entries logged before it had one, and is null
+ * when there is still none.
+ */
+export function valueWaste(
+  entry: Pick<WasteEntry, 'quantity' | 'unit_cost' | 'unit_price'>,
+  currentUnitCost: number | null = null
+): { cost: number | null; value: number } {
+  const unitCost = entry.unit_cost ?? currentUnitCost;
+  return {
+    cost: unitCost !== null ? entry.quantity * unitCost : null,
+    value: entry.quantity * entry.unit_price,
+  };
+}
@@ -0,0 +1,206 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createServer } from '@/lib/supabase/server';
+import { requirePermission } from '@/lib/auth/auth-utils';
+import { webhookSubscriptionSchema, formatValidationError } from '@/lib/validations';
+import { replayWebhookDelivery, sendWebhookTest } from './dispatch';
+import {
+  WEBHOOK_DELIVERY_COLUMNS,
+  WEBHOOK_SUBSCRIPTION_COLUMNS,
+  type WebhookDelivery,
+  type WebhookSubscription,
+} from './events';
+import { generateWebhookSecret } from './signature';
+
+type ActionResult = { success: boolean; error?: string };
+
+const WEBHOOKS_PATH = '/owner-dashboard/settings/webhooks';
+
+/**
+ * Every webhook subscription, by name
+ */
+export async function getWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+  try {
+    await requirePermission('webhooks.manage');
+    const supabase = await createServer();
+
+    const { data, error } = await supabase
+      .from('webhook_subscriptions')
+      .select(WEBHOOK_SUBSCRIPTION_COLUMNS)
+      .order('name');
+
+    if (error) throw error;
+    return (data || []) as WebhookSubscription[];
+  } catch (error) {
+    console.error('Error fetching webhook subscriptions:', error);
+    return [];
+  }
+}
+
+/**
+ * The most recent deliveries, newest first
+ */
+export async function getWebhookDeliveries(limit = 50): Promise<WebhookDelivery[]> {
+  try {
+    await requirePermission('webhooks.manage');
+    const supabase = await createServer();
+
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select(WEBHOOK_DELIVERY_COLUMNS)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as WebhookDelivery[];
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    return [];
+  }
+}
+
+/**
+ * Create a subscription with a new signing secret, or update it when an
+ * id is given (the secret stays the same)
+ */
+export async function saveWebhookSubscription(input: unknown): Promise<ActionResult> {
+  try {
+    const user = await requirePermission('webhooks.manage');
+
+    const parsed = webhookSubscriptionSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: formatValidationError(parsed.error) };
+    }
+
+    const { id, ...subscription } = parsed.data;
+    const row = { ...subscription, updated_at: new Date().toISOString() };
+
+    const supabase = await createServer();
+    const { error } = id
+      ? await supabase.from('webhook_subscriptions').update(row).eq('id', id)
+      : await supabase
+          .from('webhook_subscriptions')
+          .insert({ ...row, secret: generateWebhookSecret(), created_by: user.id });
+
+    if (error) {
+      console.error('Error saving webhook subscription:', error);
+      return { success: false, error: 'Failed to save the webhook' };
+    }
+
+    revalidatePath(WEBHOOKS_PATH);
+    return { success: true };
+  } catch (error) {
+    console.error('Error in saveWebhookSubscription:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to save the webhook' };
+  }
+}
+
+/**
+ * Pause or resume a subscription. Deliveries still pending while it is
+ * paused are given up on their next try.
+ */
+export async function setWebhookSubscriptionActive(id: string, isActive: boolean): Promise<ActionResult> {
+  try {
+    await requirePermission('webhooks.manage');
+    const supabase = await createServer();
+
+    const { error } = await supabase
+      .from('webhook_subscriptions')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating webhook subscription:', error);
+      return { success: false, error: 'Failed to update the webhook' };
+    }
+
+    revalidatePath(WEBHOOKS_PATH);
+    return { success: true };
+  } catch (error) {
+    console.error('Error in setWebhookSubscriptionActive:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to update the webhook' };
+  }
+}
+
+/**
+ * Replace a subscription's signing secret. The receiver must be given the
+ * new one before the next delivery.
+ */
+export async function rotateWebhookSecret(id: string): Promise<ActionResult> {
+  try {
+    await requirePermission('webhooks.manage');
+    const supabase = await createServer();
+
+    const { error } = await supabase
+      .from('webhook_subscriptions')
+      .update({ secret: generateWebhookSecret(), updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error rotating webhook secret:', error);
+      return { success: false, error: 'Failed to rotate the secret' };
+    }
+
+    revalidatePath(WEBHOOKS_PATH);
+    return { success: true };
+  } catch (error) {
+    console.error('Error in rotateWebhookSecret:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to rotate the secret' };
+  }
+}
+
+/**
+ * Delete a subscription along with its delivery log
+ */
+export async function deleteWebhookSubscription(id: string): Promise<ActionResult> {
+  try {
+    await requirePermission('webhooks.manage');
+    const supabase = await createServer();
+
+    const { error } = await supabase.from('webhook_subscriptions').delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting webhook subscription:', error);
+      return { success: false, error: 'Failed to delete the webhook' };
+    }
+
+    revalidatePath(WEBHOOKS_PATH);
+    return { success: true };
+  } catch (error) {
+    console.error('Error in deleteWebhookSubscription:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to delete the webhook' };
+  }
+}
+
+/**
+ * Send a ping to a subscription now, e.g. to check the URL and the secret
+ */
+export async function sendWebhookTestNow(id: string): Promise<ActionResult> {
+  try {
+    await requirePermission('webhooks.manage');
+
+    const result = await sendWebhookTest(id);
+    revalidatePath(WEBHOOKS_PATH);
+    return result;
+  } catch (error) {
+    console.error('Error in sendWebhookTestNow:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to send the test' };
+  }
+}
+
+/**
+ * Send a logged delivery again, e.g. after the receiver was fixed
+ */
+export async function replayWebhook(deliveryId: string): Promise<ActionResult> {
+  try {
+    await requirePermission('webhooks.manage');
+
+    const result = await replayWebhookDelivery(deliveryId);
+    revalidatePath(WEBHOOKS_PATH);
+    return result;
+  } catch (error) {
+    console.error('Error in replayWebhook:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to replay the delivery' };
+  }
+}
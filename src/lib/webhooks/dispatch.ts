@@ -0,0 +1,318 @@
+import { after } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import type { Database, Json } from '@/types/supabase';
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_PING_EVENT,
+  WEBHOOK_RESPONSE_LIMIT,
+  WEBHOOK_TIMEOUT_MS,
+  buildWebhookEnvelope,
+  isWebhookSuccess,
+  webhookRetryDelayMinutes,
+  type WebhookEnvelope,
+  type WebhookEventType,
+} from './events';
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  signWebhookPayload,
+} from './signature';
+
+/**
+ * Outbound webhook delivery
+ *
+ * An event is written to webhook_deliveries for every active subscription
+ * to it, then sent once the request that caused it has answered, so a slow
+ * receiver never holds up a sale. Anything not delivered is retried with
+ * back-off by the webhook job. Runs with the service role: events come
+ * from staff who cannot read the subscriptions.
+ */
+
+type DeliveryRow = Database['public']['Tables']['webhook_deliveries']['Row'];
+
+export interface WebhookRunResult {
+  checked: number;
+  delivered: number;
+  failed: number;
+}
+
+// Most rows one job run sends
+const RUN_LIMIT = 200;
+
+// A claim older than this belongs to a run that stopped mid-send. Twice the
+// longest a full run can take, so a slow run never loses its rows.
+const CLAIM_TIMEOUT_MS = 2 * RUN_LIMIT * WEBHOOK_TIMEOUT_MS;
+
+interface AttemptResult {
+  delivered: boolean;
+  statusCode: number | null;
+  error: string | null;
+  responseBody: string | null;
+}
+
+async function post(url: string, secret: string, row: DeliveryRow): Promise<AttemptResult> {
+  const body = JSON.stringify(row.payload);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'HomeBake-Webhooks/1.0',
+        [WEBHOOK_EVENT_HEADER]: row.event_type,
+        [WEBHOOK_DELIVERY_HEADER]: row.id,
+        // Signed as it goes out: receivers reject timestamps that are too old
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, secret, new Date()),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    const responseBody = (await response.text().catch(() => '')).slice(0, WEBHOOK_RESPONSE_LIMIT);
+
+    return {
+      delivered: isWebhookSuccess(response.status),
+      statusCode: response.status,
+      error: isWebhookSuccess(response.status) ? null : `Receiver answered ${response.status}`,
+      responseBody: responseBody || null,
+    };
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'TimeoutError';
+    return {
+      delivered: false,
+      statusCode: null,
+      error: timedOut
+        ? `No answer within ${WEBHOOK_TIMEOUT_MS / 1000} seconds`
+        : error instanceof Error ? error.message : 'Request failed',
+      responseBody: null,
+    };
+  }
+}
+
+/**
+ * Move rows from pending to sending and return the ones this call won.
+ * Rows the job, a replay or another request has already claimed are left
+ * out, so each delivery is sent once however many senders overlap.
+ */
+async function claimWebhookRows(
+  supabase: SupabaseClient<Database>,
+  rows: DeliveryRow[],
+  now: Date
+): Promise<DeliveryRow[]> {
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .update({ status: 'sending', updated_at: now.toISOString() })
+    .in('id', rows.map(row => row.id))
+    .eq('status', 'pending')
+    .select('*');
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Claim the rows, send each one to its subscription and record the
+ * outcome: delivered, pending again after the back-off, or failed for good
+ * once its attempts run out or the subscription is gone or paused
+ */
+export async function deliverWebhookRows(
+  supabase: SupabaseClient<Database>,
+  rows: DeliveryRow[],
+  now: Date = new Date()
+): Promise<WebhookRunResult> {
+  const result: WebhookRunResult = { checked: rows.length, delivered: 0, failed: 0 };
+  const claimed = await claimWebhookRows(supabase, rows, now);
+  if (claimed.length === 0) return result;
+
+  const { data: subscriptions, error } = await supabase
+    .from('webhook_subscriptions')
+    .select('id, url, secret, is_active')
+    .in('id', [...new Set(claimed.map(row => row.subscription_id))]);
+  if (error) throw error;
+
+  const byId = new Map((subscriptions || []).map(subscription => [subscription.id, subscription]));
+
+  for (const row of claimed) {
+    const subscription = byId.get(row.subscription_id);
+    const attempts = row.attempts + 1;
+
+    const attempt: AttemptResult = subscription?.is_active
+      ? await post(subscription.url, subscription.secret, row)
+      : { delivered: false, statusCode: null, error: 'Subscription is paused', responseBody: null };
+
+    const abandon = !attempt.delivered && (!subscription?.is_active || attempts >= row.max_attempts);
+    const { error: updateError } = await supabase
+      .from('webhook_deliveries')
+      .update({
+        status: attempt.delivered ? 'delivered' : abandon ? 'failed' : 'pending',
+        attempts,
+        last_status_code: attempt.statusCode,
+        last_error: attempt.error,
+        response_body: attempt.responseBody,
+        delivered_at: attempt.delivered ? now.toISOString() : null,
+        next_attempt_at: attempt.delivered || abandon
+          ? row.next_attempt_at
+          : new Date(now.getTime() + webhookRetryDelayMinutes(attempts) * 60 * 1000).toISOString(),
+        updated_at: now.toISOString(),
+      })
+      .eq('id', row.id);
+    if (updateError) console.error('Error recording webhook delivery:', updateError);
+
+    if (attempt.delivered) {
+      result.delivered += 1;
+    } else {
+      console.error('Webhook delivery failed:', row.id, attempt.error);
+      result.failed += 1;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Queue an event for every active subscription to it and send it once the
+ * current request is done. Never throws: a broken integration must not
+ * fail the sale, batch or report that raised the event.
+ */
+export async function emitWebhookEvent(type: WebhookEventType, data: Record<string, unknown>): Promise<void> {
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: subscriptions, error } = await supabase
+      .from('webhook_subscriptions')
+      .select('id')
+      .eq('is_active', true)
+      .contains('event_types', [type]);
+    if (error) throw error;
+    if (!subscriptions || subscriptions.length === 0) return;
+
+    const now = new Date();
+    const envelope = buildWebhookEnvelope(type, data, crypto.randomUUID(), now);
+    const { data: queued, error: insertError } = await supabase
+      .from('webhook_deliveries')
+      .insert(subscriptions.map(subscription => ({
+        subscription_id: subscription.id,
+        event_type: type,
+        event_id: envelope.id,
+        payload: envelope as unknown as Json,
+        max_attempts: WEBHOOK_MAX_ATTEMPTS,
+        // Sent below; the job only picks it up if that never happens
+        next_attempt_at: new Date(now.getTime() + webhookRetryDelayMinutes(1) * 60 * 1000).toISOString(),
+      })))
+      .select('*');
+    if (insertError) throw insertError;
+
+    after(() => deliverWebhookRows(supabase, queued || [], now).then(() => undefined).catch(deliveryError => {
+      console.error('Error delivering webhooks:', deliveryError);
+    }));
+  } catch (error) {
+    console.error(`Error emitting ${type} webhook:`, error);
+  }
+}
+
+// Send one row straight away and explain a failure from what was logged
+async function deliverNow(supabase: SupabaseClient<Database>, row: DeliveryRow): Promise<{ success: boolean; error?: string }> {
+  const result = await deliverWebhookRows(supabase, [row]);
+  if (result.delivered > 0) return { success: true };
+
+  const { data: logged } = await supabase
+    .from('webhook_deliveries')
+    .select('status, last_error')
+    .eq('id', row.id)
+    .maybeSingle();
+  if (logged?.status === 'sending') {
+    return { success: false, error: 'The webhook job is already sending this delivery' };
+  }
+  const failure = logged?.last_error || 'The receiver did not accept the delivery';
+  return { success: false, error: logged?.status === 'pending' ? `${failure}; it will be retried` : failure };
+}
+
+/**
+ * Send a copy of a logged delivery again now, keeping its event id so the
+ * receiver can tell it is a repeat
+ */
+export async function replayWebhookDelivery(deliveryId: string): Promise<{ success: boolean; error?: string }> {
+  const supabase = createServiceRoleClient();
+
+  const { data: original, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('id', deliveryId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!original) return { success: false, error: 'Delivery not found' };
+
+  const { data: replay, error: insertError } = await supabase
+    .from('webhook_deliveries')
+    .insert({
+      subscription_id: original.subscription_id,
+      event_type: original.event_type,
+      event_id: original.event_id,
+      payload: original.payload,
+      max_attempts: WEBHOOK_MAX_ATTEMPTS,
+      replay_of: original.id,
+    })
+    .select('*')
+    .single();
+  if (insertError) throw insertError;
+
+  return deliverNow(supabase, replay);
+}
+
+/**
+ * Send a ping event to one subscription, logged like any other delivery
+ */
+export async function sendWebhookTest(subscriptionId: string): Promise<{ success: boolean; error?: string }> {
+  const supabase = createServiceRoleClient();
+
+  const envelope: WebhookEnvelope = buildWebhookEnvelope(
+    WEBHOOK_PING_EVENT,
+    { message: 'Test event from HomeBake' },
+    crypto.randomUUID()
+  );
+  const { data: row, error } = await supabase
+    .from('webhook_deliveries')
+    .insert({
+      subscription_id: subscriptionId,
+      event_type: WEBHOOK_PING_EVENT,
+      event_id: envelope.id,
+      payload: envelope as unknown as Json,
+      // A test is not worth retrying
+      max_attempts: 1,
+    })
+    .select('*')
+    .single();
+  if (error) throw error;
+
+  return deliverNow(supabase, row);
+}
+
+/**
+ * Send every pending delivery whose back-off has passed
+ */
+export async function runDueWebhookDeliveries(now: Date = new Date()): Promise<WebhookRunResult> {
+  const supabase = createServiceRoleClient();
+
+  // Rows a stopped run left in sending go back in the queue
+  const { error: releaseError } = await supabase
+    .from('webhook_deliveries')
+    .update({ status: 'pending', updated_at: now.toISOString() })
+    .eq('status', 'sending')
+    .lt('updated_at', new Date(now.getTime() - CLAIM_TIMEOUT_MS).toISOString());
+  if (releaseError) throw releaseError;
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', now.toISOString())
+    .order('created_at', { ascending: true })
+    .limit(RUN_LIMIT);
+  if (error) throw error;
+
+  return deliverWebhookRows(supabase, data || [], now);
+}
@@ -0,0 +1,145 @@
+/**
+ * Outbound webhook events
+ *
+ * The bakery events an integration can subscribe to, the envelope every
+ * delivery carries, and how long to wait before trying a failed delivery
+ * again (1 minute, 5 minutes, 30 minutes, 2 hours, then 12 hours).
+ *
+ * Everything here is pure (no Supabase, no React).
+ */
+
+export type WebhookEventType = 'sale.created' | 'batch.completed' | 'shift.ended' | 'report.submitted';
+
+export const WEBHOOK_EVENT_TYPES: Record<WebhookEventType, { label: string; description: string }> = {
+  'sale.created': {
+    label: 'Sale recorded',
+    description: 'Bread type, quantity, price, discount, payment and customer of every sale',
+  },
+  'batch.completed': {
+    label: 'Batch completed',
+    description: 'A production batch finished, with the loaves actually produced',
+  },
+  'shift.ended': {
+    label: 'Shift ended',
+    description: 'A manager or sales rep ended their shift',
+  },
+  'report.submitted': {
+    label: 'Shift report submitted',
+    description: 'Revenue, items sold, remaining bread and cash-up of a shift report',
+  },
+};
+
+export const WEBHOOK_EVENT_KEYS = Object.keys(WEBHOOK_EVENT_TYPES) as WebhookEventType[];
+
+// Sent by "Send test" only; nobody subscribes to it
+export const WEBHOOK_PING_EVENT = 'ping';
+
+export type WebhookDeliveryStatus = 'pending' | 'sending' | 'delivered' | 'failed';
+
+// The first try plus five retries
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+
+const RETRY_DELAY_MINUTES = [1, 5, 30, 120, 720];
+
+export const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+// How much of the receiver's answer is kept in the log
+export const WEBHOOK_RESPONSE_LIMIT = 1000;
+
+export const WEBHOOK_SUBSCRIPTION_COLUMNS =
+  'id, name, url, event_types, secret, is_active, created_at, updated_at';
+
+export const WEBHOOK_DELIVERY_COLUMNS =
+  'id, subscription_id, event_type, event_id, status, attempts, max_attempts, next_attempt_at, last_status_code, last_error, response_body, delivered_at, replay_of, created_at';
+
+export interface WebhookSubscription {
+  id: string;
+  name: string;
+  url: string;
+  event_types: WebhookEventType[];
+  secret: string;
+  is_active: boolean;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscription_id: string;
+  event_type: string;
+  event_id: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_status_code: number | null;
+  last_error: string | null;
+  response_body: string | null;
+  delivered_at: string | null;
+  replay_of: string | null;
+  created_at: string | null;
+}
+
+/**
+ * What the receiver gets as the request body. id is the same for every
+ * subscription and every replay of one event.
+ */
+export interface WebhookEnvelope {
+  id: string;
+  type: WebhookEventType | typeof WEBHOOK_PING_EVENT;
+  created_at: string;
+  data: Record<string, unknown>;
+}
+
+export function buildWebhookEnvelope(
+  type: WebhookEnvelope['type'],
+  data: Record<string, unknown>,
+  id: string,
+  now: Date = new Date()
+): WebhookEnvelope {
+  return { id, type, created_at: now.toISOString(), data };
+}
+
+interface CompletedBatch {
+  id: string;
+  batch_number: string;
+  bread_type_id: string;
+  branch_id: string | null;
+  shift: string;
+  target_quantity: number | null;
+  actual_quantity: number | null;
+  start_time: string | null;
+  end_time: string | null;
+  created_by: string;
+}
+
+/**
+ * batch.completed data, the same whether the batch was completed from the
+ * dashboard or through the batches API
+ */
+export function batchCompletedData(batch: CompletedBatch, breadType: string | null): Record<string, unknown> {
+  return {
+    batch_id: batch.id,
+    batch_number: batch.batch_number,
+    bread_type_id: batch.bread_type_id,
+    bread_type: breadType,
+    shift: batch.shift,
+    target_quantity: batch.target_quantity,
+    actual_quantity: batch.actual_quantity,
+    start_time: batch.start_time,
+    end_time: batch.end_time,
+    created_by: batch.created_by,
+    branch_id: batch.branch_id,
+  };
+}
+
+/**
+ * Minutes to wait after the given number of failed attempts
+ */
+export function webhookRetryDelayMinutes(attempts: number): number {
+  return RETRY_DELAY_MINUTES[Math.min(Math.max(attempts, 1), RETRY_DELAY_MINUTES.length) - 1];
+}
+
+export function isWebhookSuccess(statusCode: number): boolean {
+  return statusCode >= 200 && statusCode < 300;
+}
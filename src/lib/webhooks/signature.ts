@@ -0,0 +1,71 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Webhook signatures
+ *
+ * Every delivery carries X-HomeBake-Signature: t=<unix seconds>,v1=<hex>,
+ * where v1 is the HMAC-SHA256 of "<t>.<raw body>" keyed with the
+ * subscription's secret. Receivers recompute it and reject anything older
+ * than a few minutes, so a captured request cannot be replayed later.
+ */
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-HomeBake-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-HomeBake-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-HomeBake-Delivery';
+
+const SECRET_PREFIX = 'whsec_';
+
+// How old a signature may be before it is refused
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${randomBytes(24).toString('hex')}`;
+}
+
+const hmac = (secret: string, timestamp: number, body: string) =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+/**
+ * The signature header value for a body sent now
+ */
+export function signWebhookPayload(body: string, secret: string, now: Date = new Date()): string {
+  const timestamp = Math.floor(now.getTime() / 1000);
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`;
+}
+
+/**
+ * Check a received signature header against the raw body
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string | null,
+  secret: string,
+  now: Date = new Date(),
+  toleranceSeconds: number = WEBHOOK_SIGNATURE_TOLERANCE_SECONDS
+): { valid: boolean; reason?: string } {
+  if (!header) return { valid: false, reason: 'Missing signature' };
+
+  const parts = new Map(
+    header.split(',').map(part => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')] as const;
+    })
+  );
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) {
+    return { valid: false, reason: 'Malformed signature' };
+  }
+
+  if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) {
+    return { valid: false, reason: 'Signature too old' };
+  }
+
+  const expected = Buffer.from(hmac(secret, timestamp, body), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { valid: false, reason: 'Signature does not match' };
+  }
+
+  return { valid: true };
+}
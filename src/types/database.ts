@@ -28,7 +28,7 @@ export interface Activity {
   user_name: string
   user_role: 'manager' | 'sales_rep'
   activity_type: 'sale' | 'batch' | 'report' | 'login' | 'end_shift' | 'created'
-  shift?: 'morning' | 'night'
+  shift?: ShiftType
   message: string
   metadata: Record<string, unknown>
   created_at: string
@@ -60,7 +60,7 @@ export interface ProductionBatch {
   id: string
   bread_type_id: string
   quantity: number
-  shift: 'morning' | 'night'
+  shift: ShiftType
   recorded_by: string
   created_at: string
   // Enhanced fields for batch tracking
@@ -76,7 +76,7 @@ export interface SalesLog {
   discount?: number | null
   returned: boolean
   leftovers?: number | null
-  shift: 'morning' | 'night'
+  shift: ShiftType
   recorded_by: string
   created_at: string
   updated_at?: string
@@ -142,7 +142,7 @@ export interface ProductionLog {
   id: string
   bread_type_id: string
   quantity: number
-  shift: 'morning' | 'night'
+  shift: ShiftType
   recorded_by: string
   created_at: string
   bread_types?: BreadType
@@ -155,7 +155,7 @@ export interface ProductionLogWithBreadType extends ProductionLog {
 export interface ShiftFeedback {
   id: string
   user_id: string
-  shift: 'morning' | 'night'
+  shift: ShiftType
   note: string | null
   created_at: string
   // Enhanced fields
@@ -171,7 +171,7 @@ export interface InventoryItem {
   available: number
   reserved: number
   leftover_from_previous: number
-  shift: 'morning' | 'night'
+  shift: ShiftType
   last_updated: string
 }
 
@@ -182,7 +182,7 @@ export interface DashboardMetrics {
   active_batches: number
   low_stock_items: number
   staff_online: number
-  shift_status: 'morning' | 'night'
+  shift_status: ShiftType
   last_updated: string
 }
 
@@ -195,7 +195,7 @@ export interface BatchStatus {
   start_time: string
   end_time?: string
   status: 'planning' | 'in-progress' | 'completed' | 'quality-check'
-  shift: 'morning' | 'night'
+  shift: ShiftType
   manager: User
   notes?: string
   progress_percentage: number
@@ -233,7 +233,8 @@ export interface ReportData {
 }
 
 // Shift type
-export type ShiftType = 'morning' | 'night'
+import type { ShiftType } from './index'
+export type { ShiftType }
 
 // User with profile
 export interface UserWithProfile {
@@ -278,7 +279,7 @@ export interface DailyLowStockCount {
 export interface TimestampHelper {
   toNigeriaTime: (utcTimestamp: string) => string
   fromNigeriaTime: (localTimestamp: string) => string
-  getCurrentShift: () => 'morning' | 'night'
-  getShiftStart: (shift: 'morning' | 'night') => string
-  getShiftEnd: (shift: 'morning' | 'night') => string
+  getCurrentShift: () => ShiftType
+  getShiftStart: (shift: ShiftType) => string
+  getShiftEnd: (shift: ShiftType) => string
 }
\ No newline at end of file
@@ -10,10 +10,21 @@ export interface User {
   created_by: string | null;
   is_active: boolean;
   created_at: string;
+  branch_id?: string | null; // FK to branches.id - null for owners (all branches)
 }
 
 export type UserRole = "owner" | "manager" | "sales_rep";
 
+// Branches (outlets) - production, sales and staff are scoped to one
+export interface Branch {
+  id: string;
+  name: string;
+  address?: string | null;
+  phone?: string | null;
+  is_active: boolean;
+  created_at: string | null;
+}
+
 export interface UserPreferences {
   temperatureUnit: "celsius" | "fahrenheit";
   notifications: {
@@ -53,6 +64,7 @@ export interface BreadType {
   created_by?: string | null; // FK to users.id (owner) - optional to match database
   created_at: string;
   is_active: boolean; // Soft delete support
+  branch_id?: string | null; // null = shared by every branch
 }
 
 // Production Management
@@ -83,7 +95,8 @@ export interface SalesLog {
 }
 
 // Shift Management
-export type ShiftType = "morning" | "night";
+// Keys come from the owner-configured shift schedule; morning/night are the defaults
+export type ShiftType = "morning" | "night" | (string & {});
 
 export interface ShiftFeedback {
   id: string;
@@ -104,6 +117,141 @@ export interface InventoryItem {
   lastSaleDate?: Date;
 }
 
+// Ingredient Inventory (raw materials)
+export type IngredientUnit = "kg" | "g" | "l" | "ml" | "pcs";
+
+export interface Ingredient {
+  id: string;
+  name: string;
+  unit: IngredientUnit;
+  reorder_level: number;
+  cost_per_unit: number | null;
+  is_active: boolean;
+  stock: number; // in the selected branch, or summed across branches
+  is_low: boolean;
+}
+
+export interface IngredientMovement {
+  id: string;
+  ingredient_id: string;
+  ingredient_name: string;
+  unit: IngredientUnit;
+  branch_id: string;
+  change: number;
+  reason: "purchase" | "batch" | "adjustment";
+  supplier: string | null;
+  unit_cost: number | null;
+  notes: string | null;
+  recorded_by_name: string | null;
+  created_at: string | null;
+}
+
+export interface RecipeItem {
+  ingredient_id: string;
+  quantity: number;
+  per: "loaf" | "batch";
+}
+
+export interface LowIngredient {
+  ingredient_id: string;
+  name: string;
+  unit: IngredientUnit;
+  branch_id: string;
+  branch_name: string | null;
+  quantity: number;
+  reorder_level: number;
+}
+
+// Cost per loaf for COGS; manual bread_types.unit_cost or priced from the recipe
+export interface BreadTypeCost {
+  unitCost: number | null;
+  source: 'manual' | 'recipe' | null;
+  recipeCost: number | null;
+}
+
+// A price a bread type had or is scheduled to have; branch_id null = the standard price
+export interface BreadTypePrice {
+  id: string;
+  bread_type_id: string;
+  branch_id: string | null;
+  branch_name: string | null;
+  // null on a branch row = back to the standard price
+  unit_price: number | null;
+  effective_from: string;
+  note: string | null;
+  created_by_name: string | null;
+}
+
+// Production planning; a plan is per branch, date and shift
+export interface ProductionPlanItem {
+  bread_type_id: string;
+  planned_quantity: number;
+}
+
+// Planned vs actual for one bread type, manager, shift or day
+export interface ProductionVarianceRow {
+  key: string;
+  label: string;
+  planned: number;
+  actual: number;
+  variance: number; // actual - planned
+  yieldPercent: number | null; // actual / planned, null when nothing was planned
+  batches: number;
+}
+
+export interface ProductionVarianceReport {
+  // Completed batches against their own target quantity
+  byBreadType: ProductionVarianceRow[];
+  byManager: ProductionVarianceRow[];
+  byShift: ProductionVarianceRow[];
+  byDate: ProductionVarianceRow[];
+  // Daily plans against everything produced in that shift
+  planAttainment: ProductionVarianceRow[];
+}
+
+// Demand forecasting; suggested production per bread type for a shift
+export interface DemandForecast {
+  breadTypeId: string;
+  breadTypeName: string;
+  expectedDemand: number;
+  carriedIn: number; // loaves left from the previous shift
+  suggestedQuantity: number;
+  basis: 'weekday' | 'recent' | 'none'; // same weekday history, recent days, or no history
+  samples: number;
+  soldOutSamples: number;
+  averageLeftover: number | null;
+}
+
+export interface ShiftForecast {
+  shiftDate: string;
+  shift: string;
+  shiftLabel: string;
+  items: DemandForecast[];
+}
+
+// How far suggestions (and actual production) were from what sold
+export interface ForecastAccuracyRow {
+  key: string;
+  label: string;
+  shifts: number;
+  sold: number;
+  forecast: number;
+  produced: number;
+  forecastError: number; // mean absolute error in loaves per shift
+  forecastErrorPercent: number | null; // total absolute error / total sold
+  forecastBias: number; // mean (forecast - sold); positive means over-baking
+  producedError: number;
+  producedErrorPercent: number | null;
+}
+
+export interface ForecastBacktest {
+  startDate: string;
+  endDate: string;
+  overall: ForecastAccuracyRow;
+  byBreadType: ForecastAccuracyRow[];
+  byShift: ForecastAccuracyRow[];
+}
+
 // Business Analytics
 export interface DailyReport {
   date: string; // YYYY-MM-DD format
@@ -249,7 +397,7 @@ export interface DashboardMetrics {
   active_batches: number;
   low_stock_items: number;
   staff_online: number;
-  shift_status: 'morning' | 'night';
+  shift_status: ShiftType;
   last_updated: string;
 }
 
@@ -257,7 +405,7 @@ export interface DashboardMetrics {
 export interface ProductionEntry {
   bread_type_id: string;
   quantity: number;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
 }
 
 // Sales Form Data
@@ -268,7 +416,7 @@ export interface SalesFormData {
   discount?: number;
   returned?: boolean;
   leftover?: number;
-  shift: 'morning' | 'night';
+  shift: ShiftType;
   recorded_by: string;
 }
 
@@ -282,6 +430,8 @@ export interface Batch {
   actual_quantity: number;
   status: "active" | "completed" | "cancelled";
   notes: string | null;
+  // Price in effect when the batch was started
+  unit_price?: number | null;
   created_by: string;
   created_at: string;
   updated_at: string;
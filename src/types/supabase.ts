@@ -17,6 +17,7 @@ export type Database = {
       activities: {
         Row: {
           activity_type: string
+          branch_id: string | null
           created_at: string | null
           id: string
           message: string
@@ -28,6 +29,7 @@ export type Database = {
         }
         Insert: {
           activity_type: string
+          branch_id?: string | null
           created_at?: string | null
           id?: string
           message: string
@@ -39,6 +41,7 @@ export type Database = {
         }
         Update: {
           activity_type?: string
+          branch_id?: string | null
           created_at?: string | null
           id?: string
           message?: string
@@ -56,12 +59,20 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "activities_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
         ]
       }
       all_batches: {
         Row: {
           actual_quantity: number | null
           batch_number: string
+          branch_id: string | null
           bread_type_id: string
           created_at: string | null
           created_by: string
@@ -71,11 +82,14 @@ export type Database = {
           shift: string
           start_time: string | null
           status: string | null
+          target_quantity: number | null
+          unit_price: number | null
           updated_at: string | null
         }
         Insert: {
           actual_quantity?: number | null
           batch_number: string
+          branch_id?: string | null
           bread_type_id: string
           created_at?: string | null
           created_by: string
@@ -85,11 +99,14 @@ export type Database = {
           shift: string
           start_time?: string | null
           status?: string | null
+          target_quantity?: number | null
+          unit_price?: number | null
           updated_at?: string | null
         }
         Update: {
           actual_quantity?: number | null
           batch_number?: string
+          branch_id?: string | null
           bread_type_id?: string
           created_at?: string | null
           created_by?: string
@@ -99,6 +116,8 @@ export type Database = {
           shift?: string
           start_time?: string | null
           status?: string | null
+          target_quantity?: number | null
+          unit_price?: number | null
           updated_at?: string | null
         }
         Relationships: [
@@ -130,10 +149,166 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "all_batches_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_key_usage: {
+        Row: {
+          key_id: string
+          requests: number
+          window_start: string
+        }
+        Insert: {
+          key_id: string
+          requests?: number
+          window_start: string
+        }
+        Update: {
+          key_id?: string
+          requests?: number
+          window_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_key_usage_key_id_fkey"
+            columns: ["key_id"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_keys: {
+        Row: {
+          branch_id: string | null
+          created_at: string | null
+          created_by: string
+          expires_at: string | null
+          id: string
+          key_hash: string
+          key_prefix: string
+          last_used_at: string | null
+          name: string
+          rate_limit_per_minute: number
+          revoked_at: string | null
+          scopes: string[]
+        }
+        Insert: {
+          branch_id?: string | null
+          created_at?: string | null
+          created_by: string
+          expires_at?: string | null
+          id?: string
+          key_hash: string
+          key_prefix: string
+          last_used_at?: string | null
+          name: string
+          rate_limit_per_minute?: number
+          revoked_at?: string | null
+          scopes: string[]
+        }
+        Update: {
+          branch_id?: string | null
+          created_at?: string | null
+          created_by?: string
+          expires_at?: string | null
+          id?: string
+          key_hash?: string
+          key_prefix?: string
+          last_used_at?: string | null
+          name?: string
+          rate_limit_per_minute?: number
+          revoked_at?: string | null
+          scopes?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_keys_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "api_keys_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      approval_pin_failures: {
+        Row: {
+          approver_id: string
+          attempted_by: string
+          created_at: string
+          id: string
+        }
+        Insert: {
+          approver_id: string
+          attempted_by: string
+          created_at?: string
+          id?: string
+        }
+        Update: {
+          approver_id?: string
+          attempted_by?: string
+          created_at?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_pin_failures_approver_id_fkey"
+            columns: ["approver_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approval_pin_failures_attempted_by_fkey"
+            columns: ["attempted_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      approval_pins: {
+        Row: {
+          pin_hash: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          pin_hash: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          pin_hash?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_pins_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
         ]
       }
       available_stock: {
         Row: {
+          branch_id: string | null
           bread_type_id: string
           bread_type_name: string
           created_at: string | null
@@ -144,6 +319,7 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          branch_id?: string | null
           bread_type_id: string
           bread_type_name: string
           created_at?: string | null
@@ -154,6 +330,7 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          branch_id?: string | null
           bread_type_id?: string
           bread_type_name?: string
           created_at?: string | null
@@ -167,30 +344,38 @@ export type Database = {
           {
             foreignKeyName: "available_stock_bread_type_id_fkey"
             columns: ["bread_type_id"]
-            isOneToOne: true
+            isOneToOne: false
             referencedRelation: "active_bread_types"
             referencedColumns: ["id"]
           },
           {
             foreignKeyName: "available_stock_bread_type_id_fkey"
             columns: ["bread_type_id"]
-            isOneToOne: true
+            isOneToOne: false
             referencedRelation: "bread_types"
             referencedColumns: ["id"]
           },
           {
             foreignKeyName: "available_stock_bread_type_id_fkey"
             columns: ["bread_type_id"]
-            isOneToOne: true
+            isOneToOne: false
             referencedRelation: "inventory_realtime"
             referencedColumns: ["bread_type_id"]
           },
+          {
+            foreignKeyName: "available_stock_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
         ]
       }
       batches: {
         Row: {
           actual_quantity: number | null
           batch_number: string
+          branch_id: string | null
           bread_type_id: string
           created_at: string | null
           created_by: string
@@ -200,11 +385,14 @@ export type Database = {
           shift: string
           start_time: string | null
           status: string | null
+          target_quantity: number | null
+          unit_price: number | null
           updated_at: string | null
         }
         Insert: {
           actual_quantity?: number | null
           batch_number: string
+          branch_id?: string | null
           bread_type_id: string
           created_at?: string | null
           created_by: string
@@ -214,11 +402,14 @@ export type Database = {
           shift?: string
           start_time?: string | null
           status?: string | null
+          target_quantity?: number | null
+          unit_price?: number | null
           updated_at?: string | null
         }
         Update: {
           actual_quantity?: number | null
           batch_number?: string
+          branch_id?: string | null
           bread_type_id?: string
           created_at?: string | null
           created_by?: string
@@ -228,6 +419,8 @@ export type Database = {
           shift?: string
           start_time?: string | null
           status?: string | null
+          target_quantity?: number | null
+          unit_price?: number | null
           updated_at?: string | null
         }
         Relationships: [
@@ -259,6 +452,158 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "batches_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      branch_prices: {
+        Row: {
+          branch_id: string
+          bread_type_id: string
+          id: string
+          unit_price: number
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          branch_id: string
+          bread_type_id: string
+          id?: string
+          unit_price: number
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          branch_id?: string
+          bread_type_id?: string
+          id?: string
+          unit_price?: number
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "branch_prices_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "branch_prices_bread_type_id_fkey"
+            columns: ["bread_type_id"]
+            isOneToOne: false
+            referencedRelation: "bread_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "branch_prices_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      branches: {
+        Row: {
+          address: string | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          is_active: boolean
+          name: string
+          phone: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          phone?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          address?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          phone?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "branches_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bread_type_prices: {
+        Row: {
+          branch_id: string | null
+          bread_type_id: string
+          created_at: string | null
+          created_by: string | null
+          effective_from: string
+          id: string
+          note: string | null
+          unit_price: number | null
+        }
+        Insert: {
+          branch_id?: string | null
+          bread_type_id: string
+          created_at?: string | null
+          created_by?: string | null
+          effective_from?: string
+          id?: string
+          note?: string | null
+          unit_price?: number | null
+        }
+        Update: {
+          branch_id?: string | null
+          bread_type_id?: string
+          created_at?: string | null
+          created_by?: string | null
+          effective_from?: string
+          id?: string
+          note?: string | null
+          unit_price?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bread_type_prices_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bread_type_prices_bread_type_id_fkey"
+            columns: ["bread_type_id"]
+            isOneToOne: false
+            referencedRelation: "bread_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bread_type_prices_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
         ]
       }
       bread_type_sync_log: {
@@ -302,30 +647,36 @@ export type Database = {
       }
       bread_types: {
         Row: {
+          branch_id: string | null
           created_at: string | null
           created_by: string | null
           id: string
           is_active: boolean
           name: string
           size: string | null
+          unit_cost: number | null
           unit_price: number
         }
         Insert: {
+          branch_id?: string | null
           created_at?: string | null
           created_by?: string | null
           id?: string
           is_active?: boolean
           name: string
           size?: string | null
+          unit_cost?: number | null
           unit_price: number
         }
         Update: {
+          branch_id?: string | null
           created_at?: string | null
           created_by?: string | null
           id?: string
           is_active?: boolean
           name?: string
           size?: string | null
+          unit_cost?: number | null
           unit_price?: number
         }
         Relationships: [
@@ -336,33 +687,201 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "bread_types_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      daily_low_stock_counts: {
+      customer_transactions: {
         Row: {
-          count_date: string
+          amount: number
+          amount_paid: number
+          balance_change: number | null
+          branch_id: string | null
+          bread_type_id: string | null
           created_at: string | null
+          customer_id: string
           id: string
-          last_updated_morning: string | null
-          last_updated_night: string | null
-          morning_shift_count: number
-          night_shift_count: number
-          total_count: number | null
-          updated_at: string | null
+          kind: string
+          note: string | null
+          payment_status: string | null
+          quantity: number | null
+          recorded_by: string
+          sale_id: string | null
+          sale_transaction_id: string | null
+          sale_void_id: string | null
+          shift: string | null
         }
         Insert: {
-          count_date?: string
+          amount: number
+          amount_paid?: number
+          balance_change?: number | null
+          branch_id?: string | null
+          bread_type_id?: string | null
           created_at?: string | null
+          customer_id: string
           id?: string
-          last_updated_morning?: string | null
-          last_updated_night?: string | null
-          morning_shift_count?: number
-          night_shift_count?: number
-          total_count?: number | null
-          updated_at?: string | null
+          kind: string
+          note?: string | null
+          payment_status?: string | null
+          quantity?: number | null
+          recorded_by: string
+          sale_id?: string | null
+          sale_transaction_id?: string | null
+          sale_void_id?: string | null
+          shift?: string | null
         }
         Update: {
-          count_date?: string
+          amount?: number
+          amount_paid?: number
+          balance_change?: number | null
+          branch_id?: string | null
+          bread_type_id?: string | null
+          created_at?: string | null
+          customer_id?: string
+          id?: string
+          kind?: string
+          note?: string | null
+          payment_status?: string | null
+          quantity?: number | null
+          recorded_by?: string
+          sale_id?: string | null
+          sale_transaction_id?: string | null
+          sale_void_id?: string | null
+          shift?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_transactions_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_transactions_bread_type_id_fkey"
+            columns: ["bread_type_id"]
+            isOneToOne: false
+            referencedRelation: "bread_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_transactions_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_transactions_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_transactions_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_transactions_sale_transaction_id_fkey"
+            columns: ["sale_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "customer_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_transactions_sale_void_id_fkey"
+            columns: ["sale_void_id"]
+            isOneToOne: false
+            referencedRelation: "sale_voids"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customers: {
+        Row: {
+          branch_id: string | null
+          created_at: string | null
+          created_by: string | null
+          credit_limit: number
+          id: string
+          is_active: boolean
+          name: string
+          phone: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          branch_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          credit_limit?: number
+          id?: string
+          is_active?: boolean
+          name: string
+          phone?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          branch_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          credit_limit?: number
+          id?: string
+          is_active?: boolean
+          name?: string
+          phone?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customers_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customers_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      daily_low_stock_counts: {
+        Row: {
+          count_date: string
+          created_at: string | null
+          id: string
+          last_updated_morning: string | null
+          last_updated_night: string | null
+          morning_shift_count: number
+          night_shift_count: number
+          total_count: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          count_date?: string
+          created_at?: string | null
+          id?: string
+          last_updated_morning?: string | null
+          last_updated_night?: string | null
+          morning_shift_count?: number
+          night_shift_count?: number
+          total_count?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          count_date?: string
           created_at?: string | null
           id?: string
           last_updated_morning?: string | null
@@ -374,29 +893,195 @@ export type Database = {
         }
         Relationships: []
       }
+      ingredient_movements: {
+        Row: {
+          batch_id: string | null
+          branch_id: string
+          change: number
+          created_at: string | null
+          id: string
+          ingredient_id: string
+          notes: string | null
+          reason: string
+          recorded_by: string | null
+          supplier: string | null
+          unit_cost: number | null
+        }
+        Insert: {
+          batch_id?: string | null
+          branch_id?: string
+          change: number
+          created_at?: string | null
+          id?: string
+          ingredient_id: string
+          notes?: string | null
+          reason: string
+          recorded_by?: string | null
+          supplier?: string | null
+          unit_cost?: number | null
+        }
+        Update: {
+          batch_id?: string | null
+          branch_id?: string
+          change?: number
+          created_at?: string | null
+          id?: string
+          ingredient_id?: string
+          notes?: string | null
+          reason?: string
+          recorded_by?: string | null
+          supplier?: string | null
+          unit_cost?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingredient_movements_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ingredient_movements_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ingredient_movements_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ingredient_movements_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ingredient_stock: {
+        Row: {
+          branch_id: string
+          id: string
+          ingredient_id: string
+          quantity: number
+          updated_at: string | null
+        }
+        Insert: {
+          branch_id?: string
+          id?: string
+          ingredient_id: string
+          quantity?: number
+          updated_at?: string | null
+        }
+        Update: {
+          branch_id?: string
+          id?: string
+          ingredient_id?: string
+          quantity?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingredient_stock_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ingredient_stock_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ingredients: {
+        Row: {
+          cost_per_unit: number | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          is_active: boolean
+          name: string
+          reorder_level: number
+          unit: string
+          updated_at: string | null
+        }
+        Insert: {
+          cost_per_unit?: number | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          reorder_level?: number
+          unit: string
+          updated_at?: string | null
+        }
+        Update: {
+          cost_per_unit?: number | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          reorder_level?: number
+          unit?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingredients_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       inventory: {
         Row: {
+          branch_id: string | null
           bread_type_id: string
           id: string
           last_updated: string | null
           quantity: number
         }
         Insert: {
+          branch_id?: string | null
           bread_type_id: string
           id?: string
           last_updated?: string | null
           quantity?: number
         }
         Update: {
+          branch_id?: string | null
           bread_type_id?: string
           id?: string
           last_updated?: string | null
           quantity?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "inventory_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       inventory_logs: {
         Row: {
+          branch_id: string | null
           bread_type_id: string
           created_at: string | null
           id: string
@@ -408,6 +1093,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          branch_id?: string | null
           bread_type_id: string
           created_at?: string | null
           id?: string
@@ -419,6 +1105,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          branch_id?: string | null
           bread_type_id?: string
           created_at?: string | null
           id?: string
@@ -437,250 +1124,1134 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "inventory_logs_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      production_logs: {
+      low_stock_alerts: {
         Row: {
+          available: number
+          branch_id: string
           bread_type_id: string
           created_at: string | null
           id: string
-          quantity: number
-          recorded_by: string
+          level: string
           shift: string
-          unit_price: number | null
-          updated_at: string | null
+          shift_date: string
+          threshold: number
         }
         Insert: {
+          available: number
+          branch_id?: string
           bread_type_id: string
           created_at?: string | null
           id?: string
-          quantity: number
-          recorded_by: string
+          level: string
           shift: string
-          unit_price?: number | null
-          updated_at?: string | null
+          shift_date: string
+          threshold: number
         }
         Update: {
+          available?: number
+          branch_id?: string
           bread_type_id?: string
           created_at?: string | null
           id?: string
-          quantity?: number
-          recorded_by?: string
+          level?: string
           shift?: string
-          unit_price?: number | null
-          updated_at?: string | null
+          shift_date?: string
+          threshold?: number
         }
         Relationships: [
           {
-            foreignKeyName: "production_logs_bread_type_id_fkey"
-            columns: ["bread_type_id"]
+            foreignKeyName: "low_stock_alerts_branch_id_fkey"
+            columns: ["branch_id"]
             isOneToOne: false
-            referencedRelation: "active_bread_types"
+            referencedRelation: "branches"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "production_logs_bread_type_id_fkey"
+            foreignKeyName: "low_stock_alerts_bread_type_id_fkey"
             columns: ["bread_type_id"]
             isOneToOne: false
             referencedRelation: "bread_types"
             referencedColumns: ["id"]
           },
-          {
-            foreignKeyName: "production_logs_bread_type_id_fkey"
-            columns: ["bread_type_id"]
-            isOneToOne: false
-            referencedRelation: "inventory_realtime"
-            referencedColumns: ["bread_type_id"]
-          },
-          {
-            foreignKeyName: "production_logs_recorded_by_fkey"
-            columns: ["recorded_by"]
-            isOneToOne: false
-            referencedRelation: "users"
-            referencedColumns: ["id"]
-          },
         ]
       }
-      profiles: {
+      low_stock_thresholds: {
         Row: {
+          branch_id: string
+          bread_type_id: string
           created_at: string | null
-          email: string | null
+          critical_level: number | null
           id: string
-          is_active: boolean | null
-          name: string | null
-          role: string
+          shift: string
+          threshold: number
+          updated_at: string | null
+          updated_by: string | null
         }
         Insert: {
+          branch_id?: string
+          bread_type_id: string
           created_at?: string | null
-          email?: string | null
-          id: string
-          is_active?: boolean | null
+          critical_level?: number | null
+          id?: string
+          shift: string
+          threshold: number
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          branch_id?: string
+          bread_type_id?: string
+          created_at?: string | null
+          critical_level?: number | null
+          id?: string
+          shift?: string
+          threshold?: number
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "low_stock_thresholds_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "low_stock_thresholds_bread_type_id_fkey"
+            columns: ["bread_type_id"]
+            isOneToOne: false
+            referencedRelation: "bread_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "low_stock_thresholds_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_outbox: {
+        Row: {
+          activity_type: string
+          actor_name: string | null
+          attempts: number
+          created_at: string | null
+          deliver_after: string
+          digest_id: string | null
+          digest_minutes: number | null
+          id: string
+          last_error: string | null
+          max_attempts: number
+          message: string
+          metadata: Json
+          sent_at: string | null
+          status: string
+          title: string
+          updated_at: string | null
+          url: string | null
+          user_id: string
+        }
+        Insert: {
+          activity_type: string
+          actor_name?: string | null
+          attempts?: number
+          created_at?: string | null
+          deliver_after?: string
+          digest_id?: string | null
+          digest_minutes?: number | null
+          id?: string
+          last_error?: string | null
+          max_attempts?: number
+          message: string
+          metadata?: Json
+          sent_at?: string | null
+          status?: string
+          title: string
+          updated_at?: string | null
+          url?: string | null
+          user_id: string
+        }
+        Update: {
+          activity_type?: string
+          actor_name?: string | null
+          attempts?: number
+          created_at?: string | null
+          deliver_after?: string
+          digest_id?: string | null
+          digest_minutes?: number | null
+          id?: string
+          last_error?: string | null
+          max_attempts?: number
+          message?: string
+          metadata?: Json
+          sent_at?: string | null
+          status?: string
+          title?: string
+          updated_at?: string | null
+          url?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_outbox_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_routes: {
+        Row: {
+          activity_type: string
+          roles: string[]
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          activity_type: string
+          roles?: string[]
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          activity_type?: string
+          roles?: string[]
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_routes_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          activity_id: string | null
+          activity_type: string
+          actor_name: string | null
+          actor_role: string | null
+          archived_at: string | null
+          created_at: string | null
+          id: string
+          message: string
+          metadata: Json
+          read_at: string | null
+          shift: string | null
+          user_id: string
+        }
+        Insert: {
+          activity_id?: string | null
+          activity_type: string
+          actor_name?: string | null
+          actor_role?: string | null
+          archived_at?: string | null
+          created_at?: string | null
+          id?: string
+          message: string
+          metadata?: Json
+          read_at?: string | null
+          shift?: string | null
+          user_id: string
+        }
+        Update: {
+          activity_id?: string | null
+          activity_type?: string
+          actor_name?: string | null
+          actor_role?: string | null
+          archived_at?: string | null
+          created_at?: string | null
+          id?: string
+          message?: string
+          metadata?: Json
+          read_at?: string | null
+          shift?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_activity_id_fkey"
+            columns: ["activity_id"]
+            isOneToOne: false
+            referencedRelation: "activities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      offline_sync_actions: {
+        Row: {
+          action_type: string
+          applied_at: string | null
+          branch_id: string | null
+          created_at: string | null
+          idempotency_key: string
+          queued_at: string
+          result: Json | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          action_type: string
+          applied_at?: string | null
+          branch_id?: string | null
+          created_at?: string | null
+          idempotency_key: string
+          queued_at: string
+          result?: Json | null
+          status?: string
+          user_id?: string
+        }
+        Update: {
+          action_type?: string
+          applied_at?: string | null
+          branch_id?: string | null
+          created_at?: string | null
+          idempotency_key?: string
+          queued_at?: string
+          result?: Json | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "offline_sync_actions_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "offline_sync_actions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      permissions: {
+        Row: {
+          created_at: string | null
+          description: string
+          key: string
+        }
+        Insert: {
+          created_at?: string | null
+          description: string
+          key: string
+        }
+        Update: {
+          created_at?: string | null
+          description?: string
+          key?: string
+        }
+        Relationships: []
+      }
+      production_logs: {
+        Row: {
+          branch_id: string | null
+          bread_type_id: string
+          created_at: string | null
+          id: string
+          quantity: number
+          recorded_by: string
+          shift: string
+          unit_price: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          branch_id?: string | null
+          bread_type_id: string
+          created_at?: string | null
+          id?: string
+          quantity: number
+          recorded_by: string
+          shift: string
+          unit_price?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          branch_id?: string | null
+          bread_type_id?: string
+          created_at?: string | null
+          id?: string
+          quantity?: number
+          recorded_by?: string
+          shift?: string
+          unit_price?: number | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "production_logs_bread_type_id_fkey"
+            columns: ["bread_type_id"]
+            isOneToOne: false
+            referencedRelation: "active_bread_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "production_logs_bread_type_id_fkey"
+            columns: ["bread_type_id"]
+            isOneToOne: false
+            referencedRelation: "bread_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "production_logs_bread_type_id_fkey"
+            columns: ["bread_type_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_realtime"
+            referencedColumns: ["bread_type_id"]
+          },
+          {
+            foreignKeyName: "production_logs_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "production_logs_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      production_plans: {
+        Row: {
+          branch_id: string
+          bread_type_id: string
+          created_at: string | null
+          created_by: string | null
+          id: string
+          plan_date: string
+          planned_quantity: number
+          shift: string
+          updated_at: string | null
+        }
+        Insert: {
+          branch_id?: string
+          bread_type_id: string
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          plan_date: string
+          planned_quantity: number
+          shift: string
+          updated_at?: string | null
+        }
+        Update: {
+          branch_id?: string
+          bread_type_id?: string
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          plan_date?: string
+          planned_quantity?: number
+          shift?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "production_plans_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "production_plans_bread_type_id_fkey"
+            columns: ["bread_type_id"]
+            isOneToOne: false
+            referencedRelation: "bread_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "production_plans_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string | null
+          email: string | null
+          id: string
+          is_active: boolean | null
+          name: string | null
+          role: string
+        }
+        Insert: {
+          created_at?: string | null
+          email?: string | null
+          id: string
+          is_active?: boolean | null
           name?: string | null
           role: string
         }
         Update: {
           created_at?: string | null
-          email?: string | null
+          email?: string | null
+          id?: string
+          is_active?: boolean | null
+          name?: string | null
+          role?: string
+        }
+        Relationships: []
+      }
+      promotions: {
+        Row: {
+          branch_id: string | null
+          bread_type_id: string | null
+          buy_quantity: number | null
+          created_at: string | null
+          created_by: string | null
+          end_time: string | null
+          free_quantity: number | null
+          id: string
+          is_active: boolean
+          kind: string
+          name: string
+          percent_off: number | null
+          shift: string | null
+          start_time: string | null
+          tiers: Json
+          updated_at: string | null
+          valid_from: string | null
+          valid_to: string | null
+        }
+        Insert: {
+          branch_id?: string | null
+          bread_type_id?: string | null
+          buy_quantity?: number | null
+          created_at?: string | null
+          created_by?: string | null
+          end_time?: string | null
+          free_quantity?: number | null
+          id?: string
+          is_active?: boolean
+          kind: string
+          name: string
+          percent_off?: number | null
+          shift?: string | null
+          start_time?: string | null
+          tiers?: Json
+          updated_at?: string | null
+          valid_from?: string | null
+          valid_to?: string | null
+        }
+        Update: {
+          branch_id?: string | null
+          bread_type_id?: string | null
+          buy_quantity?: number | null
+          created_at?: string | null
+          created_by?: string | null
+          end_time?: string | null
+          free_quantity?: number | null
           id?: string
-          is_active?: boolean | null
-          name?: string | null
-          role?: string
+          is_active?: boolean
+          kind?: string
+          name?: string
+          percent_off?: number | null
+          shift?: string | null
+          start_time?: string | null
+          tiers?: Json
+          updated_at?: string | null
+          valid_from?: string | null
+          valid_to?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "promotions_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotions_bread_type_id_fkey"
+            columns: ["bread_type_id"]
+            isOneToOne: false
+            referencedRelation: "bread_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       push_notification_preferences: {
         Row: {
+          activity_types: string[] | null
           auth_key: string | null
+          bread_type_ids: string[] | null
           created_at: string | null
+          digest_minutes: number | null
           enabled: boolean
           endpoint: string | null
           id: string
+          min_sale_revenue: number | null
           p256dh_key: string | null
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          shifts: string[] | null
+          updated_at: string | null
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          activity_types?: string[] | null
+          auth_key?: string | null
+          bread_type_ids?: string[] | null
+          created_at?: string | null
+          digest_minutes?: number | null
+          enabled?: boolean
+          endpoint?: string | null
+          id?: string
+          min_sale_revenue?: number | null
+          p256dh_key?: string | null
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          shifts?: string[] | null
+          updated_at?: string | null
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          activity_types?: string[] | null
+          auth_key?: string | null
+          bread_type_ids?: string[] | null
+          created_at?: string | null
+          digest_minutes?: number | null
+          enabled?: boolean
+          endpoint?: string | null
+          id?: string
+          min_sale_revenue?: number | null
+          p256dh_key?: string | null
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          shifts?: string[] | null
+          updated_at?: string | null
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      qr_invites: {
+        Row: {
+          branch_id: string | null
+          created_at: string | null
+          created_by: string | null
+          expires_at: string
+          id: string
+          is_used: boolean | null
+          role: string
+          token: string
+        }
+        Insert: {
+          branch_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          expires_at: string
+          id?: string
+          is_used?: boolean | null
+          role: string
+          token: string
+        }
+        Update: {
+          branch_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          expires_at?: string
+          id?: string
+          is_used?: boolean | null
+          role?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qr_invites_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "qr_invites_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      receipts: {
+        Row: {
+          branch_id: string | null
+          created_at: string | null
+          id: string
+          issued_by: string | null
+          receipt_number: string
+        }
+        Insert: {
+          branch_id?: string | null
+          created_at?: string | null
+          id?: string
+          issued_by?: string | null
+          receipt_number?: string
+        }
+        Update: {
+          branch_id?: string | null
+          created_at?: string | null
+          id?: string
+          issued_by?: string | null
+          receipt_number?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receipts_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipts_issued_by_fkey"
+            columns: ["issued_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recipe_items: {
+        Row: {
+          bread_type_id: string
+          created_at: string | null
+          id: string
+          ingredient_id: string
+          per: string
+          quantity: number
+        }
+        Insert: {
+          bread_type_id: string
+          created_at?: string | null
+          id?: string
+          ingredient_id: string
+          per?: string
+          quantity: number
+        }
+        Update: {
+          bread_type_id?: string
+          created_at?: string | null
+          id?: string
+          ingredient_id?: string
+          per?: string
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recipe_items_bread_type_id_fkey"
+            columns: ["bread_type_id"]
+            isOneToOne: false
+            referencedRelation: "bread_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recipe_items_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      remaining_bread: {
+        Row: {
+          branch_id: string | null
+          bread_type: string
+          bread_type_id: string
+          created_at: string | null
+          id: string
+          quantity: number
+          record_date: string
+          recorded_by: string
+          shift: string
+          total_value: number | null
+          unit_price: number
+          updated_at: string | null
+        }
+        Insert: {
+          branch_id?: string | null
+          bread_type: string
+          bread_type_id: string
+          created_at?: string | null
+          id?: string
+          quantity: number
+          record_date?: string
+          recorded_by: string
+          shift: string
+          total_value?: number | null
+          unit_price?: number
+          updated_at?: string | null
+        }
+        Update: {
+          branch_id?: string | null
+          bread_type?: string
+          bread_type_id?: string
+          created_at?: string | null
+          id?: string
+          quantity?: number
+          record_date?: string
+          recorded_by?: string
+          shift?: string
+          total_value?: number | null
+          unit_price?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "remaining_bread_bread_type_id_fkey"
+            columns: ["bread_type_id"]
+            isOneToOne: true
+            referencedRelation: "active_bread_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "remaining_bread_bread_type_id_fkey"
+            columns: ["bread_type_id"]
+            isOneToOne: true
+            referencedRelation: "bread_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "remaining_bread_bread_type_id_fkey"
+            columns: ["bread_type_id"]
+            isOneToOne: true
+            referencedRelation: "inventory_realtime"
+            referencedColumns: ["bread_type_id"]
+          },
+          {
+            foreignKeyName: "remaining_bread_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "remaining_bread_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_deliveries: {
+        Row: {
+          created_at: string | null
+          error: string | null
+          id: string
+          kind: string
+          manual: boolean
+          message_id: string | null
+          period_end: string
+          period_key: string
+          period_start: string
+          recipient_email: string
+          schedule_id: string | null
+          status: string
+          transport: string
+        }
+        Insert: {
+          created_at?: string | null
+          error?: string | null
+          id?: string
+          kind: string
+          manual?: boolean
+          message_id?: string | null
+          period_end: string
+          period_key: string
+          period_start: string
+          recipient_email: string
+          schedule_id?: string | null
+          status: string
+          transport: string
+        }
+        Update: {
+          created_at?: string | null
+          error?: string | null
+          id?: string
+          kind?: string
+          manual?: boolean
+          message_id?: string | null
+          period_end?: string
+          period_key?: string
+          period_start?: string
+          recipient_email?: string
+          schedule_id?: string | null
+          status?: string
+          transport?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_deliveries_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "report_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_schedules: {
+        Row: {
+          attachment_format: string
+          created_at: string | null
+          created_by: string | null
+          id: string
+          is_active: boolean
+          kind: string
+          last_period_key: string | null
+          last_sent_at: string | null
+          recipient_email: string
+          recipient_name: string | null
+          send_hour: number
           updated_at: string | null
-          user_agent: string | null
-          user_id: string
         }
         Insert: {
-          auth_key?: string | null
+          attachment_format?: string
           created_at?: string | null
-          enabled?: boolean
-          endpoint?: string | null
+          created_by?: string | null
           id?: string
-          p256dh_key?: string | null
+          is_active?: boolean
+          kind: string
+          last_period_key?: string | null
+          last_sent_at?: string | null
+          recipient_email: string
+          recipient_name?: string | null
+          send_hour?: number
           updated_at?: string | null
-          user_agent?: string | null
-          user_id: string
         }
         Update: {
-          auth_key?: string | null
+          attachment_format?: string
           created_at?: string | null
-          enabled?: boolean
-          endpoint?: string | null
+          created_by?: string | null
           id?: string
-          p256dh_key?: string | null
+          is_active?: boolean
+          kind?: string
+          last_period_key?: string | null
+          last_sent_at?: string | null
+          recipient_email?: string
+          recipient_name?: string | null
+          send_hour?: number
           updated_at?: string | null
-          user_agent?: string | null
-          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "report_schedules_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      qr_invites: {
+      role_permissions: {
         Row: {
           created_at: string | null
-          created_by: string | null
-          expires_at: string
-          id: string
-          is_used: boolean | null
+          permission: string
           role: string
-          token: string
         }
         Insert: {
           created_at?: string | null
-          created_by?: string | null
-          expires_at: string
-          id?: string
-          is_used?: boolean | null
+          permission: string
           role: string
-          token: string
         }
         Update: {
           created_at?: string | null
-          created_by?: string | null
-          expires_at?: string
-          id?: string
-          is_used?: boolean | null
+          permission?: string
           role?: string
-          token?: string
         }
         Relationships: [
           {
-            foreignKeyName: "qr_invites_created_by_fkey"
-            columns: ["created_by"]
+            foreignKeyName: "role_permissions_permission_fkey"
+            columns: ["permission"]
+            isOneToOne: false
+            referencedRelation: "permissions"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      sale_void_settings: {
+        Row: {
+          approval_threshold: number
+          id: boolean
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          approval_threshold?: number
+          id?: boolean
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          approval_threshold?: number
+          id?: boolean
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_void_settings_updated_by_fkey"
+            columns: ["updated_by"]
             isOneToOne: false
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
         ]
       }
-      remaining_bread: {
+      sale_voids: {
         Row: {
-          bread_type: string
+          amount: number
+          approved_by: string | null
+          branch_id: string | null
           bread_type_id: string
           created_at: string | null
           id: string
+          kind: string
           quantity: number
-          record_date: string
+          reason: string
           recorded_by: string
+          restocked: boolean
+          sale_id: string | null
           shift: string
-          total_value: number | null
-          unit_price: number
-          updated_at: string | null
+          sold_by: string
         }
         Insert: {
-          bread_type: string
+          amount: number
+          approved_by?: string | null
+          branch_id?: string | null
           bread_type_id: string
           created_at?: string | null
           id?: string
+          kind: string
           quantity: number
-          record_date?: string
+          reason: string
           recorded_by: string
+          restocked?: boolean
+          sale_id?: string | null
           shift: string
-          total_value?: number | null
-          unit_price?: number
-          updated_at?: string | null
+          sold_by: string
         }
         Update: {
-          bread_type?: string
+          amount?: number
+          approved_by?: string | null
+          branch_id?: string | null
           bread_type_id?: string
           created_at?: string | null
           id?: string
+          kind?: string
           quantity?: number
-          record_date?: string
+          reason?: string
           recorded_by?: string
+          restocked?: boolean
+          sale_id?: string | null
           shift?: string
-          total_value?: number | null
-          unit_price?: number
-          updated_at?: string | null
+          sold_by?: string
         }
         Relationships: [
           {
-            foreignKeyName: "remaining_bread_bread_type_id_fkey"
-            columns: ["bread_type_id"]
-            isOneToOne: true
-            referencedRelation: "active_bread_types"
+            foreignKeyName: "sale_voids_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "users"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "remaining_bread_bread_type_id_fkey"
-            columns: ["bread_type_id"]
-            isOneToOne: true
-            referencedRelation: "bread_types"
+            foreignKeyName: "sale_voids_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "remaining_bread_bread_type_id_fkey"
+            foreignKeyName: "sale_voids_bread_type_id_fkey"
             columns: ["bread_type_id"]
-            isOneToOne: true
-            referencedRelation: "inventory_realtime"
-            referencedColumns: ["bread_type_id"]
+            isOneToOne: false
+            referencedRelation: "bread_types"
+            referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "remaining_bread_recorded_by_fkey"
+            foreignKeyName: "sale_voids_recorded_by_fkey"
             columns: ["recorded_by"]
             isOneToOne: false
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "sale_voids_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_voids_sold_by_fkey"
+            columns: ["sold_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
         ]
       }
       sales_logs: {
         Row: {
+          amount_paid: number | null
+          branch_id: string | null
           bread_type_id: string
           created_at: string | null
           discount: number | null
           id: string
+          idempotency_key: string | null
           leftovers: number | null
+          payment_method: string
+          promotion_id: string | null
           quantity: number
+          receipt_id: string | null
           recorded_by: string
           returned: boolean | null
           shift: string
@@ -688,12 +2259,18 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          amount_paid?: number | null
+          branch_id?: string | null
           bread_type_id: string
           created_at?: string | null
           discount?: number | null
           id?: string
+          idempotency_key?: string | null
           leftovers?: number | null
+          payment_method?: string
+          promotion_id?: string | null
           quantity: number
+          receipt_id?: string | null
           recorded_by: string
           returned?: boolean | null
           shift: string
@@ -701,12 +2278,18 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          amount_paid?: number | null
+          branch_id?: string | null
           bread_type_id?: string
           created_at?: string | null
           discount?: number | null
           id?: string
+          idempotency_key?: string | null
           leftovers?: number | null
+          payment_method?: string
+          promotion_id?: string | null
           quantity?: number
+          receipt_id?: string | null
           recorded_by?: string
           returned?: boolean | null
           shift?: string
@@ -742,6 +2325,27 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "sales_logs_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_logs_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_logs_receipt_id_fkey"
+            columns: ["receipt_id"]
+            isOneToOne: false
+            referencedRelation: "receipts"
+            referencedColumns: ["id"]
+          },
         ]
       }
       sessions: {
@@ -773,8 +2377,41 @@ export type Database = {
           },
         ]
       }
+      shift_closures: {
+        Row: {
+          closure_date: string
+          created_at: string | null
+          id: string
+          reason: string | null
+          schedule_id: string
+        }
+        Insert: {
+          closure_date: string
+          created_at?: string | null
+          id?: string
+          reason?: string | null
+          schedule_id: string
+        }
+        Update: {
+          closure_date?: string
+          created_at?: string | null
+          id?: string
+          reason?: string | null
+          schedule_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shift_closures_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "shift_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       shift_feedback: {
         Row: {
+          branch_id: string | null
           created_at: string | null
           id: string
           note: string | null
@@ -782,6 +2419,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          branch_id?: string | null
           created_at?: string | null
           id?: string
           note?: string | null
@@ -789,6 +2427,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          branch_id?: string | null
           created_at?: string | null
           id?: string
           note?: string | null
@@ -803,10 +2442,21 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "shift_feedback_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
         ]
       }
       shift_handovers: {
         Row: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          acknowledgement_notes: string | null
+          branch_id: string | null
           completed_batches: number | null
           created_at: string | null
           from_shift: string
@@ -814,12 +2464,19 @@ export type Database = {
           id: string
           manager_id: string
           notes: string | null
+          pending_batch_details: Json
           pending_batches: number | null
           quality_issues: string[] | null
+          remaining_stock: Json
+          status: string
           to_shift: string
           total_production: number | null
         }
         Insert: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          acknowledgement_notes?: string | null
+          branch_id?: string | null
           completed_batches?: number | null
           created_at?: string | null
           from_shift: string
@@ -827,12 +2484,19 @@ export type Database = {
           id?: string
           manager_id: string
           notes?: string | null
+          pending_batch_details?: Json
           pending_batches?: number | null
           quality_issues?: string[] | null
+          remaining_stock?: Json
+          status?: string
           to_shift: string
           total_production?: number | null
         }
         Update: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          acknowledgement_notes?: string | null
+          branch_id?: string | null
           completed_batches?: number | null
           created_at?: string | null
           from_shift?: string
@@ -840,8 +2504,11 @@ export type Database = {
           id?: string
           manager_id?: string
           notes?: string | null
+          pending_batch_details?: Json
           pending_batches?: number | null
           quality_issues?: string[] | null
+          remaining_stock?: Json
+          status?: string
           to_shift?: string
           total_production?: number | null
         }
@@ -853,13 +2520,32 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "shift_handovers_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shift_handovers_acknowledged_by_fkey"
+            columns: ["acknowledged_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
         ]
       }
       shift_reports: {
         Row: {
+          branch_id: string | null
+          cash_variance: number | null
+          counted_cash: number | null
+          counted_transfer: number | null
           created_at: string | null
           feedback: string | null
           id: string
+          payment_totals: Json
           remaining_breads: Json
           report_date: string
           sales_data: Json
@@ -867,13 +2553,21 @@ export type Database = {
           total_items_sold: number
           total_remaining: number
           total_revenue: number
+          total_voided: number
+          transfer_variance: number | null
           updated_at: string | null
           user_id: string
+          voids_data: Json
         }
         Insert: {
+          branch_id?: string | null
+          cash_variance?: number | null
+          counted_cash?: number | null
+          counted_transfer?: number | null
           created_at?: string | null
           feedback?: string | null
           id?: string
+          payment_totals?: Json
           remaining_breads?: Json
           report_date?: string
           sales_data?: Json
@@ -881,27 +2575,189 @@ export type Database = {
           total_items_sold?: number
           total_remaining?: number
           total_revenue?: number
+          total_voided?: number
+          transfer_variance?: number | null
           updated_at?: string | null
           user_id: string
+          voids_data?: Json
+        }
+        Update: {
+          branch_id?: string | null
+          cash_variance?: number | null
+          counted_cash?: number | null
+          counted_transfer?: number | null
+          created_at?: string | null
+          feedback?: string | null
+          id?: string
+          payment_totals?: Json
+          remaining_breads?: Json
+          report_date?: string
+          sales_data?: Json
+          shift?: string
+          total_items_sold?: number
+          total_remaining?: number
+          total_revenue?: number
+          total_voided?: number
+          transfer_variance?: number | null
+          updated_at?: string | null
+          user_id?: string
+          voids_data?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shift_reports_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shift_reports_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shift_schedules: {
+        Row: {
+          branch_id: string | null
+          created_at: string | null
+          id: string
+          is_active: boolean
+          name: string
+          shifts: Json
+          timezone: string
+          updated_at: string | null
+          updated_by: string | null
+          weekday_overrides: Json
+        }
+        Insert: {
+          branch_id?: string | null
+          created_at?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          shifts?: Json
+          timezone?: string
+          updated_at?: string | null
+          updated_by?: string | null
+          weekday_overrides?: Json
+        }
+        Update: {
+          branch_id?: string | null
+          created_at?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          shifts?: Json
+          timezone?: string
+          updated_at?: string | null
+          updated_by?: string | null
+          weekday_overrides?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shift_schedules_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shift_schedules_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_carryover_items: {
+        Row: {
+          bread_type_id: string
+          carryover_id: string
+          disposition: string
+          id: string
+          quantity: number
+          unit_price: number
+        }
+        Insert: {
+          bread_type_id: string
+          carryover_id: string
+          disposition: string
+          id?: string
+          quantity: number
+          unit_price: number
+        }
+        Update: {
+          bread_type_id?: string
+          carryover_id?: string
+          disposition?: string
+          id?: string
+          quantity?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_carryover_items_bread_type_id_fkey"
+            columns: ["bread_type_id"]
+            isOneToOne: false
+            referencedRelation: "bread_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_carryover_items_carryover_id_fkey"
+            columns: ["carryover_id"]
+            isOneToOne: false
+            referencedRelation: "stock_carryovers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_carryovers: {
+        Row: {
+          branch_id: string | null
+          carryover_date: string
+          created_at: string | null
+          from_shift: string
+          id: string
+          notes: string | null
+          recorded_by: string
+          to_shift: string
+        }
+        Insert: {
+          branch_id?: string | null
+          carryover_date: string
+          created_at?: string | null
+          from_shift: string
+          id?: string
+          notes?: string | null
+          recorded_by: string
+          to_shift: string
         }
         Update: {
+          branch_id?: string | null
+          carryover_date?: string
           created_at?: string | null
-          feedback?: string | null
+          from_shift?: string
           id?: string
-          remaining_breads?: Json
-          report_date?: string
-          sales_data?: Json
-          shift?: string
-          total_items_sold?: number
-          total_remaining?: number
-          total_revenue?: number
-          updated_at?: string | null
-          user_id?: string
+          notes?: string | null
+          recorded_by?: string
+          to_shift?: string
         }
         Relationships: [
           {
-            foreignKeyName: "shift_reports_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "stock_carryovers_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_carryovers_recorded_by_fkey"
+            columns: ["recorded_by"]
             isOneToOne: false
             referencedRelation: "users"
             referencedColumns: ["id"]
@@ -956,8 +2812,55 @@ export type Database = {
         }
         Relationships: []
       }
+      user_permission_overrides: {
+        Row: {
+          granted: boolean
+          permission: string
+          updated_at: string | null
+          updated_by: string | null
+          user_id: string
+        }
+        Insert: {
+          granted: boolean
+          permission: string
+          updated_at?: string | null
+          updated_by?: string | null
+          user_id: string
+        }
+        Update: {
+          granted?: boolean
+          permission?: string
+          updated_at?: string | null
+          updated_by?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_permission_overrides_permission_fkey"
+            columns: ["permission"]
+            isOneToOne: false
+            referencedRelation: "permissions"
+            referencedColumns: ["key"]
+          },
+          {
+            foreignKeyName: "user_permission_overrides_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_permission_overrides_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       users: {
         Row: {
+          branch_id: string | null
           created_at: string | null
           created_by: string | null
           email: string | null
@@ -967,6 +2870,7 @@ export type Database = {
           role: string
         }
         Insert: {
+          branch_id?: string | null
           created_at?: string | null
           created_by?: string | null
           email?: string | null
@@ -976,6 +2880,7 @@ export type Database = {
           role: string
         }
         Update: {
+          branch_id?: string | null
           created_at?: string | null
           created_by?: string | null
           email?: string | null
@@ -992,6 +2897,203 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "users_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      waste_logs: {
+        Row: {
+          branch_id: string | null
+          bread_type_id: string
+          carryover_id: string | null
+          created_at: string | null
+          id: string
+          notes: string | null
+          quantity: number
+          reason: string
+          recorded_by: string
+          shift: string
+          unit_cost: number | null
+          unit_price: number
+        }
+        Insert: {
+          branch_id?: string | null
+          bread_type_id: string
+          carryover_id?: string | null
+          created_at?: string | null
+          id?: string
+          notes?: string | null
+          quantity: number
+          reason: string
+          recorded_by: string
+          shift: string
+          unit_cost?: number | null
+          unit_price: number
+        }
+        Update: {
+          branch_id?: string | null
+          bread_type_id?: string
+          carryover_id?: string | null
+          created_at?: string | null
+          id?: string
+          notes?: string | null
+          quantity?: number
+          reason?: string
+          recorded_by?: string
+          shift?: string
+          unit_cost?: number | null
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waste_logs_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waste_logs_bread_type_id_fkey"
+            columns: ["bread_type_id"]
+            isOneToOne: false
+            referencedRelation: "bread_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waste_logs_carryover_id_fkey"
+            columns: ["carryover_id"]
+            isOneToOne: false
+            referencedRelation: "stock_carryovers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waste_logs_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string | null
+          delivered_at: string | null
+          event_id: string
+          event_type: string
+          id: string
+          last_error: string | null
+          last_status_code: number | null
+          max_attempts: number
+          next_attempt_at: string
+          payload: Json
+          replay_of: string | null
+          response_body: string | null
+          status: string
+          subscription_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string | null
+          delivered_at?: string | null
+          event_id: string
+          event_type: string
+          id?: string
+          last_error?: string | null
+          last_status_code?: number | null
+          max_attempts?: number
+          next_attempt_at?: string
+          payload: Json
+          replay_of?: string | null
+          response_body?: string | null
+          status?: string
+          subscription_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          created_at?: string | null
+          delivered_at?: string | null
+          event_id?: string
+          event_type?: string
+          id?: string
+          last_error?: string | null
+          last_status_code?: number | null
+          max_attempts?: number
+          next_attempt_at?: string
+          payload?: Json
+          replay_of?: string | null
+          response_body?: string | null
+          status?: string
+          subscription_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_replay_of_fkey"
+            columns: ["replay_of"]
+            isOneToOne: false
+            referencedRelation: "webhook_deliveries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_subscriptions: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          event_types: string[]
+          id: string
+          is_active: boolean
+          name: string
+          secret: string
+          updated_at: string | null
+          url: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          event_types: string[]
+          id?: string
+          is_active?: boolean
+          name: string
+          secret: string
+          updated_at?: string | null
+          url: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          event_types?: string[]
+          id?: string
+          is_active?: boolean
+          name?: string
+          secret?: string
+          updated_at?: string | null
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_subscriptions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -1200,8 +3302,22 @@ export type Database = {
       }
     }
     Functions: {
+      acknowledge_shift_handover: {
+        Args: { p_handover_id: string; p_notes?: string }
+        Returns: undefined
+      }
+      active_shift_keys: { Args: never; Returns: string[] }
+      apply_due_bread_prices: { Args: never; Returns: number }
       auto_update_low_stock_counts: { Args: never; Returns: undefined }
       begin_transaction: { Args: never; Returns: undefined }
+      bread_type_price_at: {
+        Args: { p_at?: string; p_branch_id: string; p_bread_type_id: string }
+        Returns: number
+      }
+      can_approve_sale_void: {
+        Args: { p_branch_id: string; uid: string }
+        Returns: boolean
+      }
       check_batch_duplicate: {
         Args: {
           p_batch_number: string
@@ -1224,6 +3340,15 @@ export type Database = {
       cleanup_expired_qr_invites: { Args: never; Returns: undefined }
       cleanup_old_shift_statistics: { Args: never; Returns: undefined }
       commit_transaction: { Args: never; Returns: undefined }
+      consume_api_rate_limit: {
+        Args: { p_key_id: string }
+        Returns: {
+          allowed: boolean
+          remaining: number
+          request_limit: number
+          reset_at: string
+        }[]
+      }
       create_batch_with_unique_number: {
         Args: {
           p_actual_quantity: number
@@ -1249,6 +3374,23 @@ export type Database = {
           updated_at: string
         }[]
       }
+      create_offline_sales_log: {
+        Args: {
+          p_bread_type_id: string
+          p_discount?: number
+          p_idempotency_key: string
+          p_leftover?: number
+          p_quantity: number
+          p_returned?: boolean
+          p_shift: string
+          p_unit_price?: number
+          p_user_id?: string
+        }
+        Returns: {
+          created: boolean
+          sale_id: string
+        }[]
+      }
       create_user_atomic: {
         Args: {
           input_created_by?: string
@@ -1293,7 +3435,14 @@ export type Database = {
         }
         Returns: Json
       }
+      current_user_branch_id: { Args: never; Returns: string }
+      current_user_permissions: { Args: never; Returns: string[] }
+      customer_available_credit: {
+        Args: { p_customer_id: string }
+        Returns: number
+      }
       debug_sales_rep_auth: { Args: never; Returns: Json }
+      deduct_batch_ingredients: { Args: { p_batch_id: string }; Returns: Json }
       delete_bread_type_with_bypass: { Args: { p_id: string }; Returns: Json }
       delete_user_batches: {
         Args: { p_shift?: string; p_user_id: string }
@@ -1301,6 +3450,7 @@ export type Database = {
       }
       fix_all_bread_type_names: { Args: never; Returns: Json }
       get_app_user_role: { Args: never; Returns: string }
+      get_current_shift: { Args: never; Returns: string }
       get_current_shift_nigeria: { Args: never; Returns: string }
       get_daily_low_stock_count: { Args: { p_date?: string }; Returns: number }
       get_user_dependencies_count: {
@@ -1308,6 +3458,8 @@ export type Database = {
         Returns: Json
       }
       get_user_role: { Args: { input_user_id: string }; Returns: string }
+      has_approval_pin: { Args: never; Returns: boolean }
+      has_permission: { Args: { perm: string }; Returns: boolean }
       invalidate_user_sessions: {
         Args: { target_user_id: string }
         Returns: boolean
@@ -1317,6 +3469,82 @@ export type Database = {
       is_manager_or_above: { Args: { user_id?: string }; Returns: boolean }
       is_manager_or_owner: { Args: { user_uuid?: string }; Returns: boolean }
       is_owner: { Args: { user_uuid?: string }; Returns: boolean }
+      issue_receipt: {
+        Args: { p_sale_ids: string[] }
+        Returns: string
+      }
+      mark_notifications_read: {
+        Args: {
+          p_ids?: string[]
+        }
+        Returns: number
+      }
+      mark_notifications_unread: {
+        Args: {
+          p_ids: string[]
+        }
+        Returns: number
+      }
+      next_shift_key: {
+        Args: { p_branch_id: string; p_shift: string }
+        Returns: string
+      }
+      record_customer_sale: {
+        Args: {
+          p_amount: number
+          p_amount_paid: number
+          p_bread_type_id: string
+          p_customer_id: string
+          p_quantity: number
+          p_sale_id: string
+          p_shift: string
+        }
+        Returns: string
+      }
+      record_ingredient_movement: {
+        Args: {
+          p_branch_id?: string
+          p_change: number
+          p_ingredient_id: string
+          p_notes?: string
+          p_reason: string
+          p_supplier?: string
+          p_unit_cost?: number
+        }
+        Returns: number
+      }
+      record_sale_void: {
+        Args: {
+          p_sale_id: string
+          p_kind: string
+          p_quantity: number
+          p_reason: string
+          p_restock?: boolean
+          p_approver_id?: string
+          p_approver_pin?: string
+        }
+        Returns: string
+      }
+      record_stock_carryover: {
+        Args: {
+          p_carryover_date: string
+          p_from_shift: string
+          p_items: Json
+          p_notes?: string
+        }
+        Returns: string
+      }
+      record_waste: {
+        Args: {
+          p_bread_type_id: string
+          p_notes?: string
+          p_quantity: number
+          p_reason: string
+          p_shift: string
+          p_unit_cost?: number
+        }
+        Returns: string
+      }
       refresh_low_stock_counts_now: {
         Args: never
         Returns: {
@@ -1341,6 +3569,36 @@ export type Database = {
           success: boolean
         }[]
       }
+      sale_customers: {
+        Args: never
+        Returns: {
+          balance: number
+          credit_limit: number
+          id: string
+          name: string
+          phone: string
+        }[]
+      }
+      sale_void_approvers: {
+        Args: never
+        Returns: { id: string; name: string }[]
+      }
+      set_approval_pin: { Args: { p_pin: string }; Returns: undefined }
+      set_notifications_archived: {
+        Args: {
+          p_archived?: boolean
+          p_ids: string[]
+        }
+        Returns: number
+      }
+      set_sale_payment: {
+        Args: { p_amount_paid?: number; p_method: string; p_sale_id: string }
+        Returns: undefined
+      }
+      set_sale_promotion: {
+        Args: { p_promotion_id: string; p_sale_id: string }
+        Returns: undefined
+      }
       update_bread_type_bypass_triggers: {
         Args: {
           p_id: string
@@ -1415,6 +3673,7 @@ export type Database = {
         }
         Returns: Json
       }
+      user_has_permission: { Args: { uid: string; perm: string }; Returns: boolean }
     }
     Enums: {
       [_ in never]: never